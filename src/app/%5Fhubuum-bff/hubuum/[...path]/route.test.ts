@@ -213,4 +213,48 @@ describe("generic BFF proxy admin gate", () => {
 		expect(mocks.validateBackendSession).not.toHaveBeenCalled();
 		expect(mocks.fetch).toHaveBeenCalledOnce();
 	});
+
+	it("passes server-sent event streams through without buffering", async () => {
+		const encoder = new TextEncoder();
+		let sendDone: (() => void) | undefined;
+		const upstreamBody = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(
+					encoder.encode('event: started\ndata: {"query":"srv"}\n\n'),
+				);
+				sendDone = () => {
+					controller.enqueue(
+						encoder.encode('event: done\ndata: {"query":"srv"}\n\n'),
+					);
+					controller.close();
+				};
+			},
+		});
+		mocks.fetch.mockResolvedValue(
+			new Response(upstreamBody, {
+				status: 200,
+				headers: { "content-type": "text/event-stream" },
+			}),
+		);
+
+		const response = await GET(
+			request("api/v1/search/stream?q=srv"),
+			routeContext(["api", "v1", "search", "stream"]),
+		);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+		expect(response.headers.get("cache-control")).toBe(
+			"no-cache, no-transform",
+		);
+		expect(response.headers.get("x-accel-buffering")).toBe("no");
+
+		const reader = response.body?.getReader();
+		const first = await reader?.read();
+		expect(new TextDecoder().decode(first?.value)).toContain("event: started");
+
+		sendDone?.();
+		const second = await reader?.read();
+		expect(new TextDecoder().decode(second?.value)).toContain("event: done");
+	});
 });
@@ -7,7 +7,11 @@ import {
 } from "@/lib/api/proxy-bodies";
 import { copySafeIncomingRequestHeaders } from "@/lib/api/proxy-request-headers";
 import { copyPaginationHeaders } from "@/lib/api/proxy-pagination-headers";
-import { copySafeUpstreamResponseHeaders } from "@/lib/api/proxy-response-headers";
+import {
+	applyEventStreamResponseHeaders,
+	copySafeUpstreamResponseHeaders,
+	isEventStreamResponse,
+} from "@/lib/api/proxy-response-headers";
 import {
 	discardAdminProbeResponse,
 	probeAdminAccess,
@@ -350,6 +354,9 @@ async function proxyToBackend(request: NextRequest, context: RouteContext) {
 	}
 	copyPaginationHeaders(upstreamResponse.headers, response.headers);
 	copySafeUpstreamResponseHeaders(upstreamResponse.headers, response.headers);
+	if (isEventStreamResponse(upstreamResponse.headers)) {
+		applyEventStreamResponseHeaders(response.headers);
+	}
 	response.headers.set(CORRELATION_ID_HEADER, correlationId);
 
 	if (upstreamResponse.status === 401) {
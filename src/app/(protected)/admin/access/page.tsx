@@ -0,0 +1,5 @@
+import { AdminAccessExplainer } from "@/components/admin-access-explainer";
+
+export default function AdminAccessPage() {
+	return <AdminAccessExplainer />;
+}
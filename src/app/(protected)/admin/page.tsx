@@ -30,6 +30,26 @@ export default function AdminLandingPage() {
 					</Link>
 				</article>
 
+				<article className="card stack">
+					<h3>Permission matrix</h3>
+					<p className="muted">
+						Compare and bulk edit collection permissions across groups.
+					</p>
+					<Link className="link-chip" href="/admin/permissions">
+						Open permission matrix
+					</Link>
+				</article>
+
+				<article className="card stack">
+					<h3>Access explainer</h3>
+					<p className="muted">
+						Trace why a principal or token can or cannot perform an action.
+					</p>
+					<Link className="link-chip" href="/admin/access">
+						Open access explainer
+					</Link>
+				</article>
+
 				<article className="card stack">
 					<h3>Service accounts</h3>
 					<p className="muted">
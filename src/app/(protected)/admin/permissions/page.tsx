@@ -0,0 +1,5 @@
+import { AdminPermissionMatrix } from "@/components/admin-permission-matrix";
+
+export default function AdminPermissionsPage() {
+	return <AdminPermissionMatrix />;
+}
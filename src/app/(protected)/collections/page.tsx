@@ -1,8 +1,25 @@
+import { headers } from "next/headers";
+
 import { CollectionsTable } from "@/components/collections-table";
+import { hasAdminAccess } from "@/lib/auth/admin";
 import { requireServerSession } from "@/lib/auth/guards";
+import {
+	CORRELATION_ID_HEADER,
+	normalizeCorrelationId,
+} from "@/lib/correlation";
 
 export default async function CollectionsPage() {
-	await requireServerSession();
+	const requestHeaders = await headers();
+	const correlationId =
+		normalizeCorrelationId(requestHeaders.get(CORRELATION_ID_HEADER)) ??
+		undefined;
+	const session = await requireServerSession();
+	const canAdminister = await hasAdminAccess(session.token, correlationId);
 
-	return <CollectionsTable />;
+	return (
+		<CollectionsTable
+			canAdminister={canAdminister}
+			currentUsername={session.username ?? null}
+		/>
+	);
 }
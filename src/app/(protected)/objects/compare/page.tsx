@@ -0,0 +1,18 @@
+import { ObjectComparison } from "@/components/object-comparison";
+import { requireServerSession } from "@/lib/auth/guards";
+import { parseObjectComparisonItems } from "@/lib/object-comparison";
+
+type ObjectComparisonPageProps = {
+	searchParams: Promise<{
+		items?: string;
+	}>;
+};
+
+export default async function ObjectComparisonPage({
+	searchParams,
+}: ObjectComparisonPageProps) {
+	await requireServerSession();
+	const { items } = await searchParams;
+
+	return <ObjectComparison items={parseObjectComparisonItems(items)} />;
+}
@@ -0,0 +1,522 @@
+"use client";
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { type FormEvent, useMemo, useState } from "react";
+
+import {
+	type AccessExplanation,
+	type AccessResource,
+	type AccessResourceKind,
+	getPermissionLabel,
+} from "@/lib/access-explanation";
+import {
+	fetchAccessExplanation,
+	fetchAccessPrincipals,
+	fetchAccessPrincipalTokens,
+} from "@/lib/api/access-explainer";
+import { fetchAllClasses } from "@/lib/api/classes";
+import { fetchAllCollections } from "@/lib/api/collections";
+import type { Permissions as PermissionName } from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+import { fetchObjectByNames } from "@/lib/api/objects";
+import {
+	buildCollectionHierarchy,
+	formatCollectionOption,
+} from "@/lib/collection-hierarchy";
+import {
+	getSectionDefinitions,
+	PERMISSION_SECTION_LABELS,
+	PERMISSION_SECTION_ORDER,
+} from "@/lib/collection-permissions";
+import { formatTokenMetadataScope } from "@/lib/token-scope-details";
+
+const RESOURCE_KIND_LABELS: Record<AccessResourceKind, string> = {
+	collection: "Collection",
+	class: "Class",
+	object: "Object",
+};
+
+function formatResourceScope(explanation: AccessExplanation): string {
+	const evidence = explanation.token;
+	if (!evidence?.token.scope?.resources) {
+		return "All resources";
+	}
+	if (!evidence.resourceScope) {
+		return "Does not cover this resource";
+	}
+	return `Covered by ${evidence.resourceScope.kind} #${evidence.resourceScope.id}`;
+}
+
+export function AdminAccessExplainer() {
+	const [principalId, setPrincipalId] = useState("");
+	const [tokenId, setTokenId] = useState("");
+	const [resourceKind, setResourceKind] =
+		useState<AccessResourceKind>("collection");
+	const [collectionId, setCollectionId] = useState("");
+	const [classId, setClassId] = useState("");
+	const [objectName, setObjectName] = useState("");
+	const [permission, setPermission] = useState<PermissionName>(
+		PermissionValues.ReadCollection,
+	);
+
+	const principalsQuery = useQuery({
+		queryKey: ["access-explainer", "principals"],
+		queryFn: fetchAccessPrincipals,
+	});
+	const tokensQuery = useQuery({
+		queryKey: ["access-explainer", "tokens", principalId],
+		queryFn: () => fetchAccessPrincipalTokens(Number(principalId)),
+		enabled: principalId !== "",
+	});
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+	});
+	const classesQuery = useQuery({
+		queryKey: ["classes", "all"],
+		queryFn: fetchAllClasses,
+	});
+	const hierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const principals = principalsQuery.data ?? [];
+	const tokens = tokensQuery.data ?? [];
+	const classes = classesQuery.data ?? [];
+
+	const explainMutation = useMutation({
+		mutationFn: async () => {
+			const resource = await resolveResource();
+			return {
+				resource,
+				explanation: await fetchAccessExplanation({
+					principalId: Number(principalId),
+					permission,
+					resource,
+					token: tokens.find((token) => String(token.id) === tokenId) ?? null,
+				}),
+			};
+		},
+	});
+
+	async function resolveResource(): Promise<AccessResource> {
+		if (resourceKind === "collection") {
+			const collection = hierarchy.byId.get(Number(collectionId));
+			if (!collection) {
+				throw new Error("Select a collection.");
+			}
+			return {
+				kind: "collection",
+				id: collection.id,
+				name: collection.name,
+				collectionId: collection.id,
+				collectionName: collection.name,
+				classId: null,
+			};
+		}
+
+		const classItem = classes.find((entry) => String(entry.id) === classId);
+		if (!classItem) {
+			throw new Error("Select a class.");
+		}
+		if (resourceKind === "class") {
+			return {
+				kind: "class",
+				id: classItem.id,
+				name: classItem.name,
+				collectionId: classItem.collection.id,
+				collectionName: classItem.collection.name,
+				classId: classItem.id,
+			};
+		}
+
+		const object = await fetchObjectByNames(classItem.name, objectName.trim());
+		if (!object) {
+			throw new Error(
+				`No object named ${objectName.trim()} exists in ${classItem.name}.`,
+			);
+		}
+		return {
+			kind: "object",
+			id: object.id,
+			name: object.name,
+			collectionId: object.collection_id,
+			collectionName:
+				hierarchy.byId.get(object.collection_id)?.name ??
+				`Collection #${object.collection_id}`,
+			classId: classItem.id,
+		};
+	}
+
+	function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		explainMutation.mutate();
+	}
+
+	const result = explainMutation.data;
+	const explanation = result?.explanation;
+	const permissionLabel = getPermissionLabel(permission);
+	const canSubmit =
+		principalId !== "" &&
+		(resourceKind === "collection"
+			? collectionId !== ""
+			: classId !== "" &&
+				(resourceKind === "class" || objectName.trim() !== ""));
+
+	return (
+		<section className="stack">
+			<article className="card stack panel-card">
+				<div className="stack action-card-header">
+					<h3>Access explainer</h3>
+					<p className="muted">
+						Pick a principal, a resource and a permission to see whether the
+						request is allowed and which grants decide it.
+					</p>
+				</div>
+
+				{principalsQuery.isError ? (
+					<div className="error-banner">
+						{principalsQuery.error instanceof Error
+							? principalsQuery.error.message
+							: "Failed to load principals."}
+					</div>
+				) : null}
+
+				<form className="stack" onSubmit={onSubmit}>
+					<div className="form-grid">
+						<label className="control-field">
+							<span>Principal</span>
+							<select
+								required
+								value={principalId}
+								onChange={(event) => {
+									setPrincipalId(event.target.value);
+									setTokenId("");
+									explainMutation.reset();
+								}}
+								disabled={principalsQuery.isLoading}
+							>
+								<option value="">
+									{principalsQuery.isLoading
+										? "Loading principals..."
+										: "Select principal"}
+								</option>
+								<optgroup label="Users">
+									{principals
+										.filter((principal) => principal.kind === "user")
+										.map((principal) => (
+											<option key={principal.id} value={principal.id}>
+												{principal.name} (#{principal.id})
+											</option>
+										))}
+								</optgroup>
+								<optgroup label="Service accounts">
+									{principals
+										.filter((principal) => principal.kind === "service_account")
+										.map((principal) => (
+											<option key={principal.id} value={principal.id}>
+												{principal.name} (#{principal.id})
+											</option>
+										))}
+								</optgroup>
+							</select>
+						</label>
+
+						<label className="control-field">
+							<span>Token</span>
+							<select
+								value={tokenId}
+								onChange={(event) => setTokenId(event.target.value)}
+								disabled={principalId === "" || tokensQuery.isLoading}
+							>
+								<option value="">No token (session access)</option>
+								{tokens.map((token) => (
+									<option key={token.id} value={token.id}>
+										{token.name || `Token #${token.id}`} ·{" "}
+										{formatTokenMetadataScope(token)}
+										{token.active ? "" : " · inactive"}
+									</option>
+								))}
+							</select>
+						</label>
+
+						<label className="control-field">
+							<span>Resource</span>
+							<select
+								value={resourceKind}
+								onChange={(event) =>
+									setResourceKind(event.target.value as AccessResourceKind)
+								}
+							>
+								{Object.entries(RESOURCE_KIND_LABELS).map(([kind, label]) => (
+									<option key={kind} value={kind}>
+										{label}
+									</option>
+								))}
+							</select>
+						</label>
+
+						{resourceKind === "collection" ? (
+							<label className="control-field">
+								<span>Collection</span>
+								<select
+									required
+									value={collectionId}
+									onChange={(event) => setCollectionId(event.target.value)}
+									disabled={collectionsQuery.isLoading}
+								>
+									<option value="">Select collection</option>
+									{hierarchy.flatNodes.map((node) => (
+										<option key={node.collection.id} value={node.collection.id}>
+											{formatCollectionOption(node.collection, hierarchy.byId)}
+										</option>
+									))}
+								</select>
+							</label>
+						) : (
+							<label className="control-field">
+								<span>Class</span>
+								<select
+									required
+									value={classId}
+									onChange={(event) => setClassId(event.target.value)}
+									disabled={classesQuery.isLoading}
+								>
+									<option value="">Select class</option>
+									{classes.map((classItem) => (
+										<option key={classItem.id} value={classItem.id}>
+											{classItem.name}
+										</option>
+									))}
+								</select>
+							</label>
+						)}
+
+						{resourceKind === "object" ? (
+							<label className="control-field">
+								<span>Object name</span>
+								<input
+									required
+									value={objectName}
+									onChange={(event) => setObjectName(event.target.value)}
+									placeholder="web-01"
+								/>
+							</label>
+						) : null}
+
+						<label className="control-field">
+							<span>Permission</span>
+							<select
+								value={permission}
+								onChange={(event) =>
+									setPermission(event.target.value as PermissionName)
+								}
+							>
+								{PERMISSION_SECTION_ORDER.map((section) => (
+									<optgroup
+										key={section}
+										label={PERMISSION_SECTION_LABELS[section]}
+									>
+										{getSectionDefinitions(section).map((definition) => (
+											<option key={definition.value} value={definition.value}>
+												{definition.label}
+											</option>
+										))}
+									</optgroup>
+								))}
+							</select>
+						</label>
+					</div>
+					<div className="form-actions">
+						<button
+							type="submit"
+							disabled={!canSubmit || explainMutation.isPending}
+						>
+							{explainMutation.isPending ? "Checking..." : "Explain access"}
+						</button>
+					</div>
+				</form>
+
+				{explainMutation.isError ? (
+					<div className="error-banner">
+						{explainMutation.error instanceof Error
+							? explainMutation.error.message
+							: "Failed to explain access."}
+					</div>
+				) : null}
+			</article>
+
+			{result && explanation ? (
+				<article className="card stack panel-card">
+					<div
+						className={explanation.allowed ? "info-banner" : "error-banner"}
+						aria-live="polite"
+					>
+						<strong>
+							{explanation.allowed
+								? explanation.admin
+									? "Allowed (admin)"
+									: "Allowed"
+								: "Denied"}
+							.
+						</strong>{" "}
+						{explanation.summary}
+					</div>
+					<p className="muted">
+						{permissionLabel} on {RESOURCE_KIND_LABELS[result.resource.kind]}{" "}
+						{result.resource.name}, which lives in{" "}
+						<Link href={`/collections/${result.resource.collectionId}`}>
+							{result.resource.collectionName}
+						</Link>
+						.
+					</p>
+
+					<section className="stack">
+						<h4>Group memberships and effective grants</h4>
+						{explanation.groups.length === 0 ? (
+							<div className="muted">
+								The principal has no group memberships.
+							</div>
+						) : (
+							<div className="table-wrap">
+								<table>
+									<thead>
+										<tr>
+											<th>Group</th>
+											<th>Source collection</th>
+											<th>Inherited</th>
+											<th>{permissionLabel}</th>
+										</tr>
+									</thead>
+									<tbody>
+										{explanation.groups.flatMap((group) =>
+											group.grants.length === 0
+												? [
+														<tr key={group.groupId}>
+															<td>
+																<Link href={`/admin/groups/${group.groupId}`}>
+																	{group.groupname}
+																</Link>
+															</td>
+															<td colSpan={3} className="muted">
+																No grants on this collection or its ancestors
+															</td>
+														</tr>,
+													]
+												: group.grants.map((entry) => (
+														<tr
+															key={`${group.groupId}-${entry.source_collection.id}`}
+														>
+															<td>
+																<Link href={`/admin/groups/${group.groupId}`}>
+																	{group.groupname}
+																</Link>
+															</td>
+															<td>
+																<Link
+																	href={`/collections/${entry.source_collection.id}`}
+																>
+																	{entry.source_collection.name}
+																</Link>
+															</td>
+															<td>
+																{entry.inherited
+																	? `Yes, ${entry.depth} level${
+																			entry.depth === 1 ? "" : "s"
+																		} up`
+																	: "No"}
+															</td>
+															<td>
+																{group.granting.includes(entry)
+																	? "Granted"
+																	: "Not granted"}
+															</td>
+														</tr>
+													)),
+										)}
+									</tbody>
+								</table>
+							</div>
+						)}
+					</section>
+
+					<section className="stack">
+						<h4>Principal permissions</h4>
+						{explanation.directGrants.length === 0 ? (
+							<div className="muted">
+								No grants for this principal on the collection path.
+							</div>
+						) : (
+							<div className="table-wrap">
+								<table>
+									<thead>
+										<tr>
+											<th>Collection</th>
+											<th>Granted by group</th>
+											<th>Permissions</th>
+										</tr>
+									</thead>
+									<tbody>
+										{explanation.directGrants.map((grant) => (
+											<tr key={`${grant.collectionId}-${grant.group_id}`}>
+												<td>{grant.collectionName}</td>
+												<td>{grant.groupname}</td>
+												<td>
+													{grant.includesPermission
+														? `Includes ${permissionLabel}`
+														: `${grant.permissions.length} permissions, not ${permissionLabel}`}
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						)}
+					</section>
+
+					{explanation.token ? (
+						<section className="stack">
+							<h4>Token scope</h4>
+							<div className="summary-grid">
+								<div className="summary-pill">
+									<span>Token</span>
+									<strong>
+										{explanation.token.token.name ||
+											`Token #${explanation.token.token.id}`}
+									</strong>
+								</div>
+								<div className="summary-pill">
+									<span>Status</span>
+									<strong>
+										{explanation.token.token.active
+											? "Active"
+											: "Revoked or expired"}
+									</strong>
+								</div>
+								<div className="summary-pill">
+									<span>Permission scope</span>
+									<strong>
+										{!explanation.token.token.scope?.permissions
+											? "All permissions"
+											: explanation.token.permissionInScope
+												? `Includes ${permissionLabel}`
+												: `Excludes ${permissionLabel}`}
+									</strong>
+								</div>
+								<div className="summary-pill">
+									<span>Resource scope</span>
+									<strong>{formatResourceScope(explanation)}</strong>
+								</div>
+							</div>
+							<span className="field-note">
+								A token can only use permissions that are both in its scope and
+								granted to the principal&apos;s groups.
+							</span>
+						</section>
+					) : null}
+				</article>
+			) : null}
+		</section>
+	);
+}
@@ -0,0 +1,735 @@
+"use client";
+
+import {
+	useMutation,
+	useQueries,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+import { TableExportMenu } from "@/components/table-export-menu";
+import {
+	fetchAllCollections,
+	fetchCollectionPermissions,
+	replaceCollectionGroupPermissions,
+} from "@/lib/api/collections";
+import { fetchAllGroups } from "@/lib/api/groups";
+import type { Permissions as PermissionName } from "@/lib/api/generated/models";
+import {
+	buildCollectionHierarchy,
+	formatCollectionOption,
+	getDescendantCollectionIds,
+} from "@/lib/collection-hierarchy";
+import {
+	applyPermissionMatrixBulkEdit,
+	fromPermissionMatrixKey,
+	getEnabledPermissions,
+	getPermissionMatrixChanges,
+	getSectionDefinitions,
+	PERMISSION_DEFINITIONS,
+	PERMISSION_SECTION_LABELS,
+	PERMISSION_SECTION_ORDER,
+	type PermissionMatrixBulkMode,
+	type PermissionMatrixCell,
+	type PermissionMatrixChange,
+	summarizePermissions,
+	toPermissionMatrixKey,
+} from "@/lib/collection-permissions";
+import { useConfirm } from "@/lib/confirm-context";
+import { formatScopedGroupName } from "@/lib/identity-scopes";
+import { matchesFreeTextSearch } from "@/lib/resource-search";
+import type { TableExportView } from "@/lib/table-export";
+
+const PERMISSION_MATRIX_COLLECTION_LIMIT = 100;
+
+const PERMISSION_LABELS = new Map(
+	PERMISSION_DEFINITIONS.map((definition) => [
+		definition.value,
+		definition.label,
+	]),
+);
+
+type PermissionMatrixApplyResult = PermissionMatrixCell & {
+	status: "applied" | "failed";
+	message: string;
+};
+
+type PermissionMatrixExportRow = {
+	collection: string;
+	group: string;
+	permissions: string;
+};
+
+function formatPermissionLabels(permissions: PermissionName[]): string {
+	return permissions
+		.map((permission) => PERMISSION_LABELS.get(permission) ?? permission)
+		.join(", ");
+}
+
+export function AdminPermissionMatrix() {
+	const queryClient = useQueryClient();
+	const confirm = useConfirm();
+	const [rootCollectionId, setRootCollectionId] = useState("");
+	const [groupFilter, setGroupFilter] = useState("");
+	const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+	const [drafts, setDrafts] = useState<Map<string, PermissionName[]>>(
+		new Map(),
+	);
+	const [bulkPermissions, setBulkPermissions] = useState<Set<PermissionName>>(
+		new Set(),
+	);
+	const [results, setResults] = useState<PermissionMatrixApplyResult[]>([]);
+	const [progress, setProgress] = useState({ completed: 0, total: 0 });
+
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+	});
+	const groupsQuery = useQuery({
+		queryKey: ["groups", "permission-matrix"],
+		queryFn: fetchAllGroups,
+	});
+	const hierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const rootId = rootCollectionId ? Number(rootCollectionId) : null;
+	const scopedNodes = useMemo(() => {
+		if (rootId === null) {
+			return hierarchy.flatNodes;
+		}
+		const descendantIds = getDescendantCollectionIds(
+			rootId,
+			hierarchy.childrenByParentId,
+		);
+		return hierarchy.flatNodes.filter(
+			(node) =>
+				node.collection.id === rootId || descendantIds.has(node.collection.id),
+		);
+	}, [hierarchy, rootId]);
+	const rows = scopedNodes.slice(0, PERMISSION_MATRIX_COLLECTION_LIMIT);
+	const baseDepth = rows[0]?.depth ?? 0;
+	const groups = (groupsQuery.data ?? []).filter((group) =>
+		matchesFreeTextSearch(
+			groupFilter,
+			group.groupname,
+			formatScopedGroupName(group),
+			group.description,
+		),
+	);
+
+	const permissionQueries = useQueries({
+		queries: rows.map((node) => ({
+			queryKey: ["collection", node.collection.id, "permissions"],
+			queryFn: () => fetchCollectionPermissions(node.collection.id),
+		})),
+	});
+	const persisted = new Map<string, PermissionName[]>();
+	for (const query of permissionQueries) {
+		for (const permission of query.data ?? []) {
+			persisted.set(
+				toPermissionMatrixKey({
+					collectionId: permission.collection_id,
+					groupId: permission.group_id,
+				}),
+				getEnabledPermissions(permission),
+			);
+		}
+	}
+	const loadedCollectionIds = new Set(
+		rows
+			.filter((_, index) => permissionQueries[index]?.isSuccess)
+			.map((node) => node.collection.id),
+	);
+	const failedPermissionQuery = permissionQueries.find(
+		(query) => query.isError,
+	);
+	const changes = getPermissionMatrixChanges(persisted, drafts);
+	const failedResults = new Map(
+		results
+			.filter((result) => result.status === "failed")
+			.map((result) => [toPermissionMatrixKey(result), result.message]),
+	);
+	const groupNames = new Map(
+		(groupsQuery.data ?? []).map((group) => [
+			group.id,
+			formatScopedGroupName(group),
+		]),
+	);
+
+	function cellsFor(collectionIds: number[], groupIds: number[]) {
+		return collectionIds
+			.filter((collectionId) => loadedCollectionIds.has(collectionId))
+			.flatMap((collectionId) =>
+				groupIds.map((groupId) =>
+					toPermissionMatrixKey({ collectionId, groupId }),
+				),
+			);
+	}
+
+	function toggleKeys(keys: string[], selected: boolean) {
+		setSelectedKeys((current) => {
+			const next = new Set(current);
+			for (const key of keys) {
+				if (selected) {
+					next.add(key);
+				} else {
+					next.delete(key);
+				}
+			}
+			return next;
+		});
+	}
+
+	function applyBulkEdit(mode: PermissionMatrixBulkMode) {
+		const cells = [...selectedKeys].map(fromPermissionMatrixKey);
+		setDrafts((current) =>
+			applyPermissionMatrixBulkEdit(
+				persisted,
+				current,
+				cells,
+				[...bulkPermissions],
+				mode,
+			),
+		);
+		setResults([]);
+	}
+
+	function discardChange(change: PermissionMatrixChange) {
+		setDrafts((current) => {
+			const next = new Map(current);
+			next.delete(toPermissionMatrixKey(change));
+			return next;
+		});
+	}
+
+	const applyMutation = useMutation({
+		mutationFn: async (pending: PermissionMatrixChange[]) => {
+			const applied: PermissionMatrixApplyResult[] = [];
+			for (const change of pending) {
+				let result: PermissionMatrixApplyResult;
+				try {
+					await replaceCollectionGroupPermissions(
+						change.collectionId,
+						change.groupId,
+						change.after,
+					);
+					result = { ...change, status: "applied", message: "" };
+				} catch (error) {
+					result = {
+						...change,
+						status: "failed",
+						message:
+							error instanceof Error
+								? error.message
+								: "Failed to update collection permissions.",
+					};
+				}
+				applied.push(result);
+				setProgress((current) => ({
+					...current,
+					completed: current.completed + 1,
+				}));
+				setResults((current) => [
+					...current.filter(
+						(entry) =>
+							toPermissionMatrixKey(entry) !== toPermissionMatrixKey(change),
+					),
+					result,
+				]);
+			}
+			return applied;
+		},
+		onSettled: async (applied) => {
+			for (const collectionId of new Set(
+				(applied ?? []).map((result) => result.collectionId),
+			)) {
+				await queryClient.invalidateQueries({
+					queryKey: ["collection", collectionId],
+				});
+			}
+			const appliedKeys = new Set(
+				(applied ?? [])
+					.filter((result) => result.status === "applied")
+					.map((result) => toPermissionMatrixKey(result)),
+			);
+			setDrafts((current) => {
+				const next = new Map(current);
+				for (const key of appliedKeys) {
+					next.delete(key);
+				}
+				return next;
+			});
+		},
+	});
+
+	async function onApply() {
+		if (changes.length === 0) {
+			return;
+		}
+		const confirmed = await confirm({
+			title: `Apply ${changes.length} permission change${
+				changes.length === 1 ? "" : "s"
+			}?`,
+			description:
+				"Each changed cell replaces that group's permissions on the collection. Cells left without permissions are revoked.",
+			confirmLabel: "Apply",
+		});
+		if (!confirmed) {
+			return;
+		}
+		setResults([]);
+		setProgress({ completed: 0, total: changes.length });
+		applyMutation.mutate(changes);
+	}
+
+	const exportView: TableExportView<PermissionMatrixExportRow> = {
+		id: "admin-permission-matrix",
+		fileName: "collection-permission-matrix",
+		sheetName: "Permissions",
+		columns: [
+			{
+				key: "collection",
+				label: "Collection",
+				getValue: (row) => row.collection,
+			},
+			{ key: "group", label: "Group", getValue: (row) => row.group },
+			{
+				key: "permissions",
+				label: "Permissions",
+				getValue: (row) => row.permissions,
+			},
+		],
+		rows: [...persisted].map(([key, permissions]) => {
+			const { collectionId, groupId } = fromPermissionMatrixKey(key);
+			return {
+				collection:
+					hierarchy.byId.get(collectionId)?.name ??
+					`Collection #${collectionId}`,
+				group: groupNames.get(groupId) ?? `Group #${groupId}`,
+				permissions: formatPermissionLabels(permissions),
+			};
+		}),
+	};
+
+	if (collectionsQuery.isLoading || groupsQuery.isLoading) {
+		return <div className="card">Loading permission matrix...</div>;
+	}
+
+	if (collectionsQuery.isError || groupsQuery.isError) {
+		const error = collectionsQuery.error ?? groupsQuery.error;
+		return (
+			<div className="card error-banner">
+				Failed to load the permission matrix.{" "}
+				{error instanceof Error ? error.message : "Unknown error"}
+			</div>
+		);
+	}
+
+	const groupIds = groups.map((group) => group.id);
+	const collectionIds = rows.map((node) => node.collection.id);
+	const applySummary = {
+		applied: results.filter((result) => result.status === "applied").length,
+		failed: failedResults.size,
+	};
+
+	return (
+		<section className="stack">
+			<article className="card stack panel-card">
+				<div className="panel-header">
+					<div className="stack action-card-header">
+						<h3>Permission matrix</h3>
+						<p className="muted">
+							Collections against groups. Select cells, grant or revoke
+							permissions across the selection, then review and apply the
+							pending changes.
+						</p>
+					</div>
+					<div className="action-row">
+						<TableExportMenu
+							view={exportView}
+							disabled={permissionQueries.some((query) => query.isFetching)}
+							compact
+						/>
+					</div>
+				</div>
+
+				<div className="controls-row">
+					<label className="control-field">
+						<span>Collections</span>
+						<select
+							value={rootCollectionId}
+							onChange={(event) => {
+								setRootCollectionId(event.target.value);
+								setSelectedKeys(new Set());
+							}}
+						>
+							<option value="">All collections</option>
+							{hierarchy.flatNodes.map((node) => (
+								<option key={node.collection.id} value={node.collection.id}>
+									{formatCollectionOption(node.collection, hierarchy.byId)} and
+									children
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="control-field">
+						<span>Groups</span>
+						<input
+							value={groupFilter}
+							onChange={(event) => setGroupFilter(event.target.value)}
+							placeholder="Filter groups"
+						/>
+					</label>
+				</div>
+
+				{scopedNodes.length > rows.length ? (
+					<span className="field-note field-note--warning">
+						Showing the first {PERMISSION_MATRIX_COLLECTION_LIMIT} of{" "}
+						{scopedNodes.length} collections. Pick a subtree to narrow the
+						matrix.
+					</span>
+				) : null}
+				{failedPermissionQuery ? (
+					<div className="error-banner">
+						Some collection permissions failed to load.{" "}
+						{failedPermissionQuery.error instanceof Error
+							? failedPermissionQuery.error.message
+							: ""}
+					</div>
+				) : null}
+
+				{rows.length === 0 || groups.length === 0 ? (
+					<div className="empty-state">
+						{rows.length === 0
+							? "No collections to show."
+							: "No groups match the filter."}
+					</div>
+				) : (
+					<div className="table-wrap permission-matrix-wrap">
+						<table className="permission-matrix">
+							<caption className="sr-only">
+								Collection permissions by group
+							</caption>
+							<thead>
+								<tr>
+									<th scope="col">Collection</th>
+									{groups.map((group) => {
+										const columnKeys = cellsFor(collectionIds, [group.id]);
+										return (
+											<th key={group.id} scope="col">
+												<label className="permission-matrix-heading">
+													<input
+														type="checkbox"
+														aria-label={`Select ${formatScopedGroupName(group)} in every collection`}
+														checked={
+															columnKeys.length > 0 &&
+															columnKeys.every((key) => selectedKeys.has(key))
+														}
+														onChange={(event) =>
+															toggleKeys(columnKeys, event.target.checked)
+														}
+													/>
+													<span>{formatScopedGroupName(group)}</span>
+												</label>
+											</th>
+										);
+									})}
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map((node, index) => {
+									const collection = node.collection;
+									const query = permissionQueries[index];
+									const rowKeys = cellsFor([collection.id], groupIds);
+									return (
+										<tr key={collection.id}>
+											<th scope="row">
+												<div
+													className="permission-matrix-heading"
+													style={{
+														paddingLeft: `${(node.depth - baseDepth) * 1}rem`,
+													}}
+												>
+													<input
+														type="checkbox"
+														aria-label={`Select every group in ${collection.name}`}
+														checked={
+															rowKeys.length > 0 &&
+															rowKeys.every((key) => selectedKeys.has(key))
+														}
+														disabled={rowKeys.length === 0}
+														onChange={(event) =>
+															toggleKeys(rowKeys, event.target.checked)
+														}
+													/>
+													<Link href={`/collections/${collection.id}`}>
+														{collection.name}
+													</Link>
+												</div>
+											</th>
+											{groups.map((group) => {
+												const key = toPermissionMatrixKey({
+													collectionId: collection.id,
+													groupId: group.id,
+												});
+												if (!query?.isSuccess) {
+													return (
+														<td key={group.id} className="muted">
+															{query?.isError ? "Unavailable" : "Loading..."}
+														</td>
+													);
+												}
+												const draft = drafts.get(key);
+												const permissions = draft ?? persisted.get(key) ?? [];
+												const isSelected = selectedKeys.has(key);
+												const className = [
+													"permission-matrix-cell",
+													isSelected ? "permission-matrix-cell--selected" : "",
+													draft ? "permission-matrix-cell--pending" : "",
+													failedResults.has(key)
+														? "permission-matrix-cell--failed"
+														: "",
+												]
+													.filter(Boolean)
+													.join(" ");
+												return (
+													<td key={group.id}>
+														<button
+															type="button"
+															className={className}
+															aria-pressed={isSelected}
+															aria-label={`${formatScopedGroupName(group)} on ${collection.name}`}
+															title={failedResults.get(key)}
+															onClick={() => toggleKeys([key], !isSelected)}
+														>
+															{permissions.length === 0
+																? "None"
+																: summarizePermissions(new Set(permissions))}
+														</button>
+													</td>
+												);
+											})}
+										</tr>
+									);
+								})}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</article>
+
+			<article className="card stack panel-card">
+				<div className="panel-header">
+					<div className="stack action-card-header">
+						<h3>Bulk edit</h3>
+						<p className="muted">
+							{selectedKeys.size} cell{selectedKeys.size === 1 ? "" : "s"}{" "}
+							selected. Choose permissions to grant to or revoke from every
+							selected cell.
+						</p>
+					</div>
+					<div className="action-row">
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => setBulkPermissions(new Set())}
+							disabled={bulkPermissions.size === 0}
+						>
+							Clear permissions
+						</button>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => setSelectedKeys(new Set())}
+							disabled={selectedKeys.size === 0}
+						>
+							Clear selection
+						</button>
+					</div>
+				</div>
+				<div className="permission-editor-grid">
+					{PERMISSION_SECTION_ORDER.map((section) => (
+						<section key={section} className="permission-section">
+							<h4 className="permission-section-title">
+								{PERMISSION_SECTION_LABELS[section]}
+							</h4>
+							<div className="permission-chip-list permission-chip-list--editor">
+								{getSectionDefinitions(section).map((definition) => {
+									const enabled = bulkPermissions.has(definition.value);
+									return (
+										<button
+											key={definition.value}
+											type="button"
+											className={`permission-chip permission-chip-button permission-chip--editor ${
+												enabled
+													? "permission-chip--active"
+													: "permission-chip--inactive"
+											}`}
+											aria-pressed={enabled}
+											onClick={() =>
+												setBulkPermissions((current) => {
+													const next = new Set(current);
+													if (enabled) {
+														next.delete(definition.value);
+													} else {
+														next.add(definition.value);
+													}
+													return next;
+												})
+											}
+										>
+											{definition.label}
+										</button>
+									);
+								})}
+							</div>
+						</section>
+					))}
+				</div>
+				<div className="form-actions">
+					<button
+						type="button"
+						disabled={
+							selectedKeys.size === 0 ||
+							bulkPermissions.size === 0 ||
+							applyMutation.isPending
+						}
+						onClick={() => applyBulkEdit("grant")}
+					>
+						Grant to selection
+					</button>
+					<button
+						type="button"
+						className="danger"
+						disabled={
+							selectedKeys.size === 0 ||
+							bulkPermissions.size === 0 ||
+							applyMutation.isPending
+						}
+						onClick={() => applyBulkEdit("revoke")}
+					>
+						Revoke from selection
+					</button>
+				</div>
+			</article>
+
+			<article className="card stack panel-card">
+				<div className="panel-header">
+					<div className="stack action-card-header">
+						<h3>Pending changes</h3>
+						<p className="muted">
+							Nothing is saved until the changes are applied.
+						</p>
+					</div>
+					<div className="action-row">
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => setDrafts(new Map())}
+							disabled={changes.length === 0 || applyMutation.isPending}
+						>
+							Discard all
+						</button>
+						<button
+							type="button"
+							onClick={() => void onApply()}
+							disabled={changes.length === 0 || applyMutation.isPending}
+						>
+							{applyMutation.isPending
+								? "Applying..."
+								: `Apply ${changes.length} change${
+										changes.length === 1 ? "" : "s"
+									}`}
+						</button>
+					</div>
+				</div>
+
+				{progress.total > 0 ? (
+					<div className="stack">
+						<div
+							className="export-progress"
+							role="progressbar"
+							aria-label="Permission apply progress"
+							aria-valuemin={0}
+							aria-valuemax={progress.total}
+							aria-valuenow={progress.completed}
+						>
+							<span
+								style={{
+									width: `${(progress.completed / progress.total) * 100}%`,
+								}}
+							/>
+						</div>
+						<span className="muted" aria-live="polite">
+							{applyMutation.isPending
+								? `Applying ${progress.completed} of ${progress.total}...`
+								: `${applySummary.applied} applied, ${applySummary.failed} failed.`}
+						</span>
+					</div>
+				) : null}
+
+				{changes.length === 0 ? (
+					<div className="muted">No pending changes.</div>
+				) : (
+					<div className="table-wrap">
+						<table>
+							<thead>
+								<tr>
+									<th>Collection</th>
+									<th>Group</th>
+									<th>Granted</th>
+									<th>Revoked</th>
+									<th>Result</th>
+									<th>Actions</th>
+								</tr>
+							</thead>
+							<tbody>
+								{changes.map((change) => {
+									const key = toPermissionMatrixKey(change);
+									return (
+										<tr key={key}>
+											<td>
+												{hierarchy.byId.get(change.collectionId)?.name ??
+													`Collection #${change.collectionId}`}
+											</td>
+											<td>
+												{groupNames.get(change.groupId) ??
+													`Group #${change.groupId}`}
+											</td>
+											<td>{formatPermissionLabels(change.added) || "-"}</td>
+											<td>{formatPermissionLabels(change.removed) || "-"}</td>
+											<td>
+												{failedResults.has(key) ? (
+													<span className="field-note field-note--warning">
+														{failedResults.get(key)}
+													</span>
+												) : change.after.length === 0 ? (
+													"All permissions revoked"
+												) : (
+													summarizePermissions(new Set(change.after))
+												)}
+											</td>
+											<td>
+												<button
+													type="button"
+													className="ghost"
+													onClick={() => discardChange(change)}
+													disabled={applyMutation.isPending}
+												>
+													Discard
+												</button>
+											</td>
+										</tr>
+									);
+								})}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</article>
+		</section>
+	);
+}
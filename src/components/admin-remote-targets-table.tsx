@@ -8,6 +8,7 @@ import {
 	GuidedFlowPanel,
 	GuidedFlowTabs,
 } from "@/components/guided-flow";
+import { ResourceActivityPanel } from "@/components/resource-activity-panel";
 import { ResourceIndexHeading } from "@/components/resource-index-heading";
 import { TableExportMenu } from "@/components/table-export-menu";
 import { getApiErrorMessage } from "@/lib/api/errors";
@@ -295,6 +296,7 @@ export function AdminRemoteTargetsTable() {
 	const [editingTarget, setEditingTarget] = useState<RemoteTarget | null>(null);
 	const [formState, setFormState] = useState<FormState>(defaultFormState);
 	const [activeStep, setActiveStep] = useState<RemoteTargetStep>("scope");
+	const [historyTarget, setHistoryTarget] = useState<RemoteTarget | null>(null);
 
 	const collectionsQuery = useQuery({
 		queryKey: ["collections", "admin-remote-targets"],
@@ -722,6 +724,27 @@ export function AdminRemoteTargetsTable() {
 
 	return (
 		<div className="stack">
+			<CreateModal
+				open={historyTarget !== null}
+				title={
+					historyTarget
+						? `History for ${historyTarget.name}`
+						: "Remote target history"
+				}
+				onClose={() => setHistoryTarget(null)}
+				panelClassName="remote-target-history-modal-panel"
+			>
+				{historyTarget ? (
+					<ResourceActivityPanel
+						scope={{ type: "remote-target", remoteTargetId: historyTarget.id }}
+						title="Remote target audit and history"
+						onRestored={() => {
+							setTableSuccess("Remote target restored.");
+							loadTargetsMutation.mutate(null);
+						}}
+					/>
+				) : null}
+			</CreateModal>
 			<CreateModal
 				open={isModalOpen}
 				title={
@@ -1235,6 +1258,13 @@ export function AdminRemoteTargetsTable() {
 												>
 													Edit
 												</button>
+												<button
+													type="button"
+													className="ghost"
+													onClick={() => setHistoryTarget(target)}
+												>
+													History
+												</button>
 												<button
 													type="button"
 													className="danger"
@@ -17,6 +17,7 @@ import { CreateModal } from "@/components/create-modal";
 import { KeyboardHelp } from "@/components/keyboard-help";
 import { LogoutButton } from "@/components/logout-button";
 import { ToastContainer } from "@/components/toast-container";
+import { TopbarSearchResults } from "@/components/topbar-search-results";
 import { getApiErrorMessage } from "@/lib/api/errors";
 import { getApiV1Classes } from "@/lib/api/generated/client";
 import type { HubuumClassExpanded } from "@/lib/api/generated/models";
@@ -569,6 +570,18 @@ const adminIdentityLinks: NavItem[] = [
 		icon: <IconUsers />,
 		hint: "Groups: manage role assignments",
 	},
+	{
+		href: "/admin/permissions",
+		label: "Permission matrix",
+		icon: <IconCollection />,
+		hint: "Permission matrix: edit collection access for every group",
+	},
+	{
+		href: "/admin/access",
+		label: "Access explainer",
+		icon: <IconAudit />,
+		hint: "Access explainer: trace why a principal can or cannot act",
+	},
 	{
 		href: "/admin/service-accounts",
 		label: "Service accounts",
@@ -724,6 +737,7 @@ export function AppShell({
 	const [atmospherePreference, setAtmospherePreference] =
 		useState<AtmospherePreset>(DEFAULT_ATMOSPHERE);
 	const [searchInput, setSearchInput] = useState("");
+	const [isSearchPreviewOpen, setSearchPreviewOpen] = useState(false);
 	const [selectionCount, setSelectionCount] = useState(0);
 	const [deleteHandler, setDeleteHandler] = useState<(() => void) | null>(null);
 	const [editLabel, setEditLabel] = useState("Edit item");
@@ -946,6 +960,7 @@ export function AppShell({
 
 		setMobileSidebarOpen(false);
 		setMobileSearchOpen(false);
+		setSearchPreviewOpen(false);
 		setUserMenuOpen(false);
 		setTaskMenuOpen(false);
 		closeTopologyNavigation();
@@ -1354,7 +1369,12 @@ export function AppShell({
 
 	function onSearchSubmit(event: FormEvent<HTMLFormElement>) {
 		event.preventDefault();
+		openSearchResults();
+	}
+
+	function openSearchResults() {
 		setMobileSearchOpen(false);
+		setSearchPreviewOpen(false);
 
 		const trimmedSearchTerm = normalizeSearchTerm(searchInput);
 		const params = isSearchRoute
@@ -1373,6 +1393,7 @@ export function AppShell({
 
 	function clearSearch() {
 		setSearchInput("");
+		setSearchPreviewOpen(false);
 		if (!isSearchRoute) {
 			return;
 		}
@@ -1830,13 +1851,37 @@ export function AppShell({
 							<form
 								className="topbar-search-form desktop-search-form"
 								onSubmit={onSearchSubmit}
+								onBlur={(event) => {
+									if (
+										!event.currentTarget.contains(
+											event.relatedTarget as Node | null,
+										)
+									) {
+										setSearchPreviewOpen(false);
+									}
+								}}
 							>
 								<div className="topbar-search-field">
 									<input
 										aria-label="Search collections, classes, and objects"
 										className="topbar-search-input"
 										value={searchInput}
-										onChange={(event) => setSearchInput(event.target.value)}
+										onChange={(event) => {
+											setSearchInput(event.target.value);
+											setSearchPreviewOpen(!isSearchRoute);
+										}}
+										onFocus={() =>
+											setSearchPreviewOpen(
+												!isSearchRoute &&
+													normalizeSearchTerm(searchInput).length > 0,
+											)
+										}
+										onKeyDown={(event) => {
+											if (event.key === "Escape" && isSearchPreviewOpen) {
+												event.stopPropagation();
+												setSearchPreviewOpen(false);
+											}
+										}}
 										placeholder="Search collections, classes, and objects"
 									/>
 									{normalizeSearchTerm(searchInput) ? (
@@ -1849,6 +1894,13 @@ export function AppShell({
 											<IconClose />
 										</button>
 									) : null}
+									{isSearchPreviewOpen ? (
+										<TopbarSearchResults
+											query={searchInput}
+											onNavigate={() => setSearchPreviewOpen(false)}
+											onViewAll={openSearchResults}
+										/>
+									) : null}
 								</div>
 								<button
 									type="submit"
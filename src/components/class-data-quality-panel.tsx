@@ -0,0 +1,625 @@
+"use client";
+
+import { useMutation, useQueries } from "@tanstack/react-query";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import {
+	fetchClassObjectPage,
+	fetchObjectHasRelations,
+} from "@/lib/api/class-objects";
+import type { HubuumObject } from "@/lib/api/generated/models";
+import { fetchObjectAggregates } from "@/lib/api/object-aggregates";
+import {
+	analyzeObjectDataQuality,
+	buildDataQualityObjectsHref,
+	DATA_QUALITY_OBJECT_LIMIT,
+	type DataQualityObjectList,
+	findDuplicateAggregateValues,
+	isLikelyUniqueDataQualityField,
+} from "@/lib/data-quality";
+import {
+	type ObjectServerFilter,
+	toServerFilterDataPath,
+} from "@/lib/object-server-filters";
+
+type ClassDataQualityPanelProps = {
+	classId: number;
+	jsonSchema: unknown;
+	hasClassRelations: boolean;
+};
+
+type DataQualityScan = {
+	objects: HubuumObject[];
+	totalCount: number | null;
+	relationsChecked: number;
+	withoutRelations: DataQualityObjectList;
+};
+
+type DataQualityProgress = {
+	phase: "objects" | "relations";
+	completed: number;
+	total: number | null;
+};
+
+type UniqueFieldOption = {
+	key: string;
+	label: string;
+	groupBy: string;
+	toFilter: (value: string) => ObjectServerFilter;
+};
+
+const SCAN_SIZE_OPTIONS = [
+	{ value: 250, label: "First 250 objects" },
+	{ value: 1000, label: "First 1,000 objects" },
+	{ value: 5000, label: "First 5,000 objects" },
+	{ value: 0, label: "All objects" },
+];
+
+const RELATION_CHECK_LIMIT = 250;
+const DUPLICATE_VALUE_LIMIT = 10;
+const FINDING_ROW_LIMIT = 15;
+
+const NAME_FIELD_OPTION: UniqueFieldOption = {
+	key: "name",
+	label: "Object name",
+	groupBy: "name",
+	toFilter: (value) => ({ field: "name", operator: "equals", value }),
+};
+
+function formatPercent(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+function DataQualityObjectLinks({
+	label,
+	list,
+}: {
+	label: string;
+	list: DataQualityObjectList;
+}) {
+	if (list.objects.length === 0) return null;
+	return (
+		<details className="class-schema-impact-failures">
+			<summary>
+				{label}
+				{list.count > list.objects.length
+					? ` (first ${list.objects.length} of ${list.count})`
+					: ` (${list.count})`}
+			</summary>
+			<ul>
+				{list.objects.map((objectItem) => (
+					<li key={objectItem.id}>
+						<Link href={`/objects/${objectItem.classId}/${objectItem.id}`}>
+							{objectItem.name}
+						</Link>
+					</li>
+				))}
+			</ul>
+		</details>
+	);
+}
+
+export function ClassDataQualityPanel({
+	classId,
+	jsonSchema,
+	hasClassRelations,
+}: ClassDataQualityPanelProps) {
+	const [scanSize, setScanSize] = useState(SCAN_SIZE_OPTIONS[1].value);
+	const [progress, setProgress] = useState<DataQualityProgress | null>(null);
+	const [uniqueFieldKeys, setUniqueFieldKeys] = useState<string[] | null>(null);
+	const runRef = useRef(0);
+
+	useEffect(
+		() => () => {
+			runRef.current += 1;
+		},
+		[],
+	);
+
+	const scanMutation = useMutation({
+		mutationFn: async (payload: {
+			limit: number;
+			run: number;
+		}): Promise<DataQualityScan> => {
+			const objects: HubuumObject[] = [];
+			const seenCursors = new Set<string>();
+			let totalCount: number | null = null;
+			let cursor: string | undefined;
+			while (runRef.current === payload.run) {
+				const page = await fetchClassObjectPage(classId, cursor);
+				if (page.totalCount !== null) totalCount = page.totalCount;
+				objects.push(...page.items);
+				if (payload.limit > 0 && objects.length >= payload.limit) {
+					objects.splice(payload.limit);
+					break;
+				}
+				setProgress({
+					phase: "objects",
+					completed: objects.length,
+					total:
+						totalCount !== null && payload.limit > 0
+							? Math.min(totalCount, payload.limit)
+							: totalCount,
+				});
+				if (!page.nextCursor || seenCursors.has(page.nextCursor)) break;
+				seenCursors.add(page.nextCursor);
+				cursor = page.nextCursor;
+			}
+
+			const withoutRelations: DataQualityObjectList = {
+				count: 0,
+				objects: [],
+			};
+			const relationCandidates = hasClassRelations
+				? objects.slice(0, RELATION_CHECK_LIMIT)
+				: [];
+			let relationsChecked = 0;
+			for (const objectItem of relationCandidates) {
+				if (runRef.current !== payload.run) break;
+				setProgress({
+					phase: "relations",
+					completed: relationsChecked,
+					total: relationCandidates.length,
+				});
+				if (!(await fetchObjectHasRelations(classId, objectItem.id))) {
+					withoutRelations.count += 1;
+					if (withoutRelations.objects.length < DATA_QUALITY_OBJECT_LIMIT) {
+						withoutRelations.objects.push({
+							id: objectItem.id,
+							classId: objectItem.hubuum_class_id,
+							name: objectItem.name,
+						});
+					}
+				}
+				relationsChecked += 1;
+			}
+			return { objects, totalCount, relationsChecked, withoutRelations };
+		},
+	});
+
+	function startScan() {
+		runRef.current += 1;
+		setUniqueFieldKeys(null);
+		setProgress({ phase: "objects", completed: 0, total: null });
+		scanMutation.mutate({ limit: scanSize, run: runRef.current });
+	}
+
+	function stopScan() {
+		runRef.current += 1;
+		scanMutation.reset();
+	}
+
+	const scan = scanMutation.data;
+	const report = useMemo(
+		() => (scan ? analyzeObjectDataQuality(scan.objects, jsonSchema) : null),
+		[jsonSchema, scan],
+	);
+
+	const uniqueFieldOptions = useMemo(() => {
+		const options: UniqueFieldOption[] = [NAME_FIELD_OPTION];
+		for (const field of report?.fields ?? []) {
+			const serverPath = toServerFilterDataPath(field.path);
+			if (field.distinctValues === null || !serverPath) continue;
+			options.push({
+				key: `data:${field.label}`,
+				label: field.label,
+				groupBy: `json_data.${serverPath.join(",")}`,
+				toFilter: (value) => ({
+					field: "json_data",
+					operator: "equals",
+					value,
+					path: serverPath,
+				}),
+			});
+		}
+		return options;
+	}, [report]);
+	const selectedUniqueKeys = uniqueFieldKeys ?? [
+		NAME_FIELD_OPTION.key,
+		...(report?.fields ?? [])
+			.filter(isLikelyUniqueDataQualityField)
+			.map((field) => `data:${field.label}`),
+	];
+	const selectedUniqueOptions = uniqueFieldOptions.filter((option) =>
+		selectedUniqueKeys.includes(option.key),
+	);
+	const duplicateQueries = useQueries({
+		queries: selectedUniqueOptions.map((option) => ({
+			queryKey: ["class-data-quality-duplicates", classId, option.groupBy],
+			queryFn: async () =>
+				findDuplicateAggregateValues(
+					(
+						await fetchObjectAggregates({
+							classId,
+							groupBy: [option.groupBy],
+							sort: "object_count.desc",
+							limit: DUPLICATE_VALUE_LIMIT,
+						})
+					).rows,
+				),
+			enabled: report !== null,
+		})),
+	});
+
+	function toggleUniqueField(key: string) {
+		setUniqueFieldKeys(
+			selectedUniqueKeys.includes(key)
+				? selectedUniqueKeys.filter((item) => item !== key)
+				: [...selectedUniqueKeys, key],
+		);
+	}
+
+	const isRunning = scanMutation.isPending;
+	const visibleProgress = isRunning ? progress : null;
+	const isPartial =
+		scan !== undefined &&
+		scan.totalCount !== null &&
+		scan.objects.length < scan.totalCount;
+	const incompleteFields =
+		report?.fields.filter((field) => field.fillRate < 1) ?? [];
+	const duplicateFieldCount = duplicateQueries.filter(
+		(query) => (query.data?.length ?? 0) > 0,
+	).length;
+
+	return (
+		<section
+			className="stack detail-content-section class-data-quality"
+			aria-labelledby="class-data-quality-heading"
+		>
+			<header className="detail-section-heading">
+				<div className="detail-section-heading-copy">
+					<h2 id="class-data-quality-heading">Data quality</h2>
+					<p className="muted">
+						Scan objects in this class for missing fields, type drift, schema
+						violations, and duplicate values.
+					</p>
+				</div>
+				<div className="action-row">
+					<select
+						aria-label="Objects to scan"
+						value={scanSize}
+						onChange={(event) => setScanSize(Number(event.target.value))}
+						disabled={isRunning}
+					>
+						{SCAN_SIZE_OPTIONS.map((option) => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
+					{isRunning ? (
+						<button type="button" className="ghost" onClick={stopScan}>
+							Stop
+						</button>
+					) : (
+						<button type="button" onClick={startScan}>
+							{report ? "Run checks again" : "Run checks"}
+						</button>
+					)}
+				</div>
+			</header>
+
+			<div className="card stack panel-card">
+				{visibleProgress ? (
+					<>
+						<p className="muted" aria-live="polite">
+							{visibleProgress.phase === "objects"
+								? `Reading objects… ${visibleProgress.completed}${visibleProgress.total !== null ? ` of ${visibleProgress.total}` : ""}`
+								: `Checking relations… ${visibleProgress.completed} of ${visibleProgress.total}`}
+						</p>
+						{visibleProgress.total ? (
+							<div
+								className="export-progress"
+								role="progressbar"
+								aria-label="Data quality scan progress"
+								aria-valuemin={0}
+								aria-valuemax={visibleProgress.total}
+								aria-valuenow={visibleProgress.completed}
+							>
+								<span
+									style={{
+										width: `${Math.min(visibleProgress.completed / visibleProgress.total, 1) * 100}%`,
+									}}
+								/>
+							</div>
+						) : null}
+					</>
+				) : null}
+
+				{scanMutation.isError ? (
+					<div className="error-banner">
+						{scanMutation.error instanceof Error
+							? scanMutation.error.message
+							: "Failed to scan objects in this class."}
+					</div>
+				) : null}
+
+				{!report && !isRunning && !scanMutation.isError ? (
+					<p className="muted">
+						Run the checks to read objects in this class and report on their
+						data.
+					</p>
+				) : null}
+
+				{report && report.checked === 0 ? (
+					<p className="muted">This class has no objects yet.</p>
+				) : null}
+
+				{scan && report && report.checked > 0 ? (
+					<>
+						<p className="muted">
+							Scanned {report.checked}
+							{scan.totalCount !== null ? ` of ${scan.totalCount}` : ""} object
+							{report.checked === 1 ? "" : "s"}.
+							{isPartial
+								? " Findings other than duplicates cover the scanned objects only."
+								: ""}
+						</p>
+						<div className="summary-grid">
+							<div className="summary-pill">
+								<span>Incomplete fields</span>
+								<strong>{incompleteFields.length}</strong>
+							</div>
+							<div className="summary-pill">
+								<span>Type conflicts</span>
+								<strong>{report.typeConflicts.length}</strong>
+							</div>
+							<div className="summary-pill">
+								<span>Schema violations</span>
+								<strong>
+									{report.schema ? report.schema.failing : "No schema"}
+								</strong>
+							</div>
+							<div className="summary-pill">
+								<span>Empty descriptions</span>
+								<strong>{report.emptyDescriptions.count}</strong>
+							</div>
+							<div className="summary-pill">
+								<span>Without relations</span>
+								<strong>
+									{hasClassRelations ? scan.withoutRelations.count : "n/a"}
+								</strong>
+							</div>
+							<div className="summary-pill">
+								<span>Fields with duplicates</span>
+								<strong>{duplicateFieldCount}</strong>
+							</div>
+						</div>
+
+						<section className="class-data-quality-finding">
+							<h3>Duplicate values</h3>
+							<p className="muted">
+								Counted across the whole class by the server. Pick the fields
+								that should hold a different value on every object.
+							</p>
+							<fieldset className="class-data-quality-unique-fields">
+								<legend className="sr-only">
+									Fields expected to be unique
+								</legend>
+								{uniqueFieldOptions.map((option) => (
+									<label key={option.key} className="control-check">
+										<input
+											type="checkbox"
+											checked={selectedUniqueKeys.includes(option.key)}
+											onChange={() => toggleUniqueField(option.key)}
+										/>
+										<span>{option.label}</span>
+									</label>
+								))}
+							</fieldset>
+							{selectedUniqueOptions.map((option, index) => {
+								const query = duplicateQueries[index];
+								return (
+									<div
+										key={option.key}
+										className="class-data-quality-duplicate"
+									>
+										<strong>{option.label}</strong>
+										{query?.isLoading ? (
+											<span className="muted">Counting values…</span>
+										) : query?.isError ? (
+											<span className="field-note field-note--warning">
+												{query.error instanceof Error
+													? query.error.message
+													: "Failed to count values."}
+											</span>
+										) : query?.data && query.data.length > 0 ? (
+											<ul>
+												{query.data.map((duplicate) => (
+													<li key={duplicate.value}>
+														<Link
+															href={buildDataQualityObjectsHref(classId, [
+																option.toFilter(duplicate.value),
+															])}
+														>
+															<code>{duplicate.value}</code>
+														</Link>
+														<span className="muted">
+															{duplicate.objectCount} objects
+														</span>
+													</li>
+												))}
+											</ul>
+										) : (
+											<span className="muted">No duplicates.</span>
+										)}
+									</div>
+								);
+							})}
+						</section>
+
+						{report.schema ? (
+							<section className="class-data-quality-finding">
+								<h3>Schema violations</h3>
+								{report.schema.failing === 0 ? (
+									<p className="muted">
+										Every scanned object matches the class schema.
+									</p>
+								) : (
+									<>
+										<div className="object-table-scroll">
+											<table className="class-schema-impact-table">
+												<caption className="sr-only">
+													Most common schema violations
+												</caption>
+												<thead>
+													<tr>
+														<th scope="col">Path</th>
+														<th scope="col">Rule</th>
+														<th scope="col">Objects</th>
+													</tr>
+												</thead>
+												<tbody>
+													{report.schema.issueGroups
+														.slice(0, FINDING_ROW_LIMIT)
+														.map((group) => (
+															<tr key={`${group.path}-${group.message}`}>
+																<td>
+																	<code>{group.path}</code>
+																</td>
+																<td>{group.message}</td>
+																<td>{group.objectCount}</td>
+															</tr>
+														))}
+												</tbody>
+											</table>
+										</div>
+										<DataQualityObjectLinks
+											label="Objects violating the schema"
+											list={{
+												count: report.schema.failing,
+												objects: report.schema.failures.map((failure) => ({
+													id: failure.objectId,
+													classId: failure.classId,
+													name: failure.name,
+												})),
+											}}
+										/>
+									</>
+								)}
+							</section>
+						) : null}
+
+						<section className="class-data-quality-finding">
+							<h3>Type conflicts</h3>
+							{report.typeConflicts.length === 0 ? (
+								<p className="muted">
+									Every field holds one kind of value across scanned objects.
+								</p>
+							) : (
+								report.typeConflicts
+									.slice(0, FINDING_ROW_LIMIT)
+									.map((field) => (
+										<div
+											key={field.label}
+											className="class-data-quality-conflict"
+										>
+											<code>{field.label}</code>
+											{field.types.map((entry) => (
+												<DataQualityObjectLinks
+													key={entry.type}
+													label={`${entry.type} in ${entry.count} object${entry.count === 1 ? "" : "s"}`}
+													list={entry}
+												/>
+											))}
+										</div>
+									))
+							)}
+						</section>
+
+						<section className="class-data-quality-finding">
+							<h3>Field fill rates</h3>
+							{report.fields.length === 0 ? (
+								<p className="muted">No data fields were found.</p>
+							) : (
+								<div className="object-table-scroll">
+									<table className="class-schema-impact-table">
+										<caption className="sr-only">Field fill rates</caption>
+										<thead>
+											<tr>
+												<th scope="col">Path</th>
+												<th scope="col">Missing</th>
+												<th scope="col">Filled</th>
+											</tr>
+										</thead>
+										<tbody>
+											{report.fields.map((field) => {
+												const serverPath = toServerFilterDataPath(field.path);
+												const missing = report.checked - field.observedIn;
+												return (
+													<tr key={field.label}>
+														<td>
+															<code>{field.label}</code>
+															{field.fromSchema ? (
+																<span className="muted"> in schema</span>
+															) : null}
+														</td>
+														<td>
+															{missing > 0 && serverPath ? (
+																<Link
+																	href={buildDataQualityObjectsHref(classId, [
+																		{
+																			field: "json_data",
+																			operator: "is_null",
+																			value: "",
+																			path: serverPath,
+																		},
+																	])}
+																>
+																	{missing} objects
+																</Link>
+															) : (
+																missing
+															)}
+														</td>
+														<td>{formatPercent(field.fillRate)}</td>
+													</tr>
+												);
+											})}
+										</tbody>
+									</table>
+								</div>
+							)}
+						</section>
+
+						<section className="class-data-quality-finding">
+							<h3>Empty descriptions</h3>
+							{report.emptyDescriptions.count === 0 ? (
+								<p className="muted">Every scanned object has a description.</p>
+							) : (
+								<DataQualityObjectLinks
+									label="Objects without a description"
+									list={report.emptyDescriptions}
+								/>
+							)}
+						</section>
+
+						<section className="class-data-quality-finding">
+							<h3>Objects without relations</h3>
+							{!hasClassRelations ? (
+								<p className="muted">
+									This class has no class relations, so its objects cannot be
+									related yet.
+								</p>
+							) : (
+								<>
+									<p className="muted">
+										Checked the first {scan.relationsChecked} scanned object
+										{scan.relationsChecked === 1 ? "" : "s"}.
+									</p>
+									{scan.withoutRelations.count === 0 ? null : (
+										<DataQualityObjectLinks
+											label="Objects without relations"
+											list={scan.withoutRelations}
+										/>
+									)}
+								</>
+							)}
+						</section>
+					</>
+				) : null}
+			</div>
+		</section>
+	);
+}
@@ -11,9 +11,14 @@ import {
 	useRef,
 	useState,
 } from "react";
+import { ClassSchemaImpactCheck } from "@/components/class-schema-impact-check";
+import { ClassSchemaInference } from "@/components/class-schema-inference";
+import { ClassDataQualityPanel } from "@/components/class-data-quality-panel";
 import { ComputedFieldsPanel } from "@/components/computed-fields-panel";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { InlineFieldEditTrigger } from "@/components/inline-field-edit-trigger";
 import { JsonEditor } from "@/components/json-editor";
+import { JsonSchemaBuilder } from "@/components/json-schema-builder";
 import { PinButton } from "@/components/pin-button";
 import { RemoteInvocationsPanel } from "@/components/remote-invocations-panel";
 import { ResourceActivityPanel } from "@/components/resource-activity-panel";
@@ -164,6 +169,9 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 	const [initialized, setInitialized] = useState(false);
 	const [editingFields, setEditingFields] = useState<EditableField[]>([]);
 	const [isSchemaExpanded, setSchemaExpanded] = useState(false);
+	const [schemaEditorMode, setSchemaEditorMode] = useState<"visual" | "json">(
+		"visual",
+	);
 	const [formError, setFormError] = useState<string | null>(null);
 	const [formSuccess, setFormSuccess] = useState<string | null>(null);
 	const nameInputRef = useRef<HTMLInputElement | null>(null);
@@ -218,7 +226,7 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 		} else if (lastEditingField === "json_schema") {
 			const frame = window.requestAnimationFrame(() => {
 				jsonSchemaEditorRef.current
-					?.querySelector<HTMLElement>(".cm-content, textarea")
+					?.querySelector<HTMLElement>(".cm-content, textarea, input")
 					?.focus();
 			});
 			return () => window.cancelAnimationFrame(frame);
@@ -481,6 +489,22 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 		event.currentTarget.requestSubmit(submitButton);
 	}
 
+	async function applyInferredSchema(schemaText: string) {
+		if (jsonSchemaInput.trim() && jsonSchemaInput.trim() !== schemaText) {
+			const confirmed = await confirm({
+				title: "Replace the current schema?",
+				description:
+					"The inferred schema replaces the schema in the editor. Nothing is saved until you save the class.",
+				confirmLabel: "Replace",
+			});
+			if (!confirmed) {
+				return;
+			}
+		}
+
+		setJsonSchemaInput(schemaText);
+	}
+
 	async function onDelete() {
 		setFormError(null);
 		setFormSuccess(null);
@@ -488,6 +512,20 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 		const confirmed = await confirm({
 			title: `Delete ${classLabel}?`,
 			description: "This removes the class and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "class",
+						resources: [
+							{
+								id: classId,
+								name: classLabel,
+								collectionId: classQuery.data?.collection.id,
+							},
+						],
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -806,16 +844,57 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 								<div className="object-detail-label">JSON schema</div>
 								<div className="object-detail-body">
 									{editingFields.includes("json_schema") ? (
-										<div ref={jsonSchemaEditorRef}>
-											<JsonEditor
-												id="class-detail-json-schema"
-												label="JSON schema (optional)"
-												value={jsonSchemaInput}
-												onChange={setJsonSchemaInput}
-												placeholder='{"type":"object","properties":{"name":{"type":"string"}}}'
-												mode="schema"
-												rows={8}
-												helperText="Use a JSON Schema object for object validation preview and backend enforcement."
+										<div
+											ref={jsonSchemaEditorRef}
+											className="class-detail-schema-editor"
+										>
+											<div className="segmented-control">
+												<button
+													type="button"
+													className={
+														schemaEditorMode === "visual" ? "is-active" : ""
+													}
+													aria-pressed={schemaEditorMode === "visual"}
+													onClick={() => setSchemaEditorMode("visual")}
+												>
+													Visual builder
+												</button>
+												<button
+													type="button"
+													className={
+														schemaEditorMode === "json" ? "is-active" : ""
+													}
+													aria-pressed={schemaEditorMode === "json"}
+													onClick={() => setSchemaEditorMode("json")}
+												>
+													Raw JSON
+												</button>
+											</div>
+											{schemaEditorMode === "visual" ? (
+												<JsonSchemaBuilder
+													id="class-detail-json-schema-builder"
+													value={jsonSchemaInput}
+													onChange={setJsonSchemaInput}
+													onOpenRawEditor={() => setSchemaEditorMode("json")}
+												/>
+											) : (
+												<JsonEditor
+													id="class-detail-json-schema"
+													label="JSON schema (optional)"
+													value={jsonSchemaInput}
+													onChange={setJsonSchemaInput}
+													placeholder='{"type":"object","properties":{"name":{"type":"string"}}}'
+													mode="schema"
+													rows={8}
+													helperText="Use a JSON Schema object for object validation preview and backend enforcement."
+												/>
+											)}
+											<ClassSchemaInference
+												classId={classData.id}
+												onApply={(schemaText) =>
+													void applyInferredSchema(schemaText)
+												}
+												disabled={isSavingOrDeleting}
 											/>
 										</div>
 									) : (
@@ -872,6 +951,19 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 							</section>
 						</div>
 
+						{editingFields.includes("json_schema") ||
+						(validateSchema && !classData.validate_schema) ? (
+							<ClassSchemaImpactCheck
+								classId={classData.id}
+								schemaText={
+									editingFields.includes("json_schema")
+										? jsonSchemaInput
+										: schemaPreview
+								}
+								validationEnabled={validateSchema}
+							/>
+						) : null}
+
 						{formError ? <div className="error-banner">{formError}</div> : null}
 						{collectionsQuery.isError ? (
 							<div className="muted">
@@ -1015,6 +1107,12 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 				jsonSchema={classData.json_schema}
 			/>
 
+			<ClassDataQualityPanel
+				classId={classId}
+				jsonSchema={classData.json_schema}
+				hasClassRelations={directRelations.length > 0}
+			/>
+
 			<RemoteInvocationsPanel
 				collectionId={classData.collection.id}
 				subject={{ type: "class", class_id: classId }}
@@ -1025,6 +1123,10 @@ export function ClassDetail({ classId }: ClassDetailProps) {
 			<ResourceActivityPanel
 				scope={{ type: "class", classId }}
 				title="Class audit and history"
+				onRestored={async () => {
+					await queryClient.invalidateQueries({ queryKey: ["class", classId] });
+					await queryClient.invalidateQueries({ queryKey: ["classes"] });
+				}}
 			/>
 		</section>
 	);
@@ -0,0 +1,235 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+
+import { fetchClassObjectPage } from "@/lib/api/class-objects";
+import { parseJsonText } from "@/lib/json-inspector";
+import {
+	addSchemaImpactObjects,
+	createSchemaImpactReport,
+	SCHEMA_IMPACT_FAILURE_LIMIT,
+	type SchemaImpactReport,
+} from "@/lib/schema-impact";
+
+type ClassSchemaImpactCheckProps = {
+	classId: number;
+	schemaText: string;
+	validationEnabled: boolean;
+};
+
+const ISSUE_GROUP_LIMIT = 10;
+
+export function ClassSchemaImpactCheck({
+	classId,
+	schemaText,
+	validationEnabled,
+}: ClassSchemaImpactCheckProps) {
+	const [report, setReport] = useState<SchemaImpactReport | null>(null);
+	const [checkedSchemaText, setCheckedSchemaText] = useState<string | null>(
+		null,
+	);
+	const [totalCount, setTotalCount] = useState<number | null>(null);
+	const [isStopped, setStopped] = useState(false);
+	const runRef = useRef(0);
+	const parsed = parseJsonText(schemaText);
+	const schema = parsed.kind === "success" ? parsed.value : null;
+
+	useEffect(
+		() => () => {
+			runRef.current += 1;
+		},
+		[],
+	);
+
+	const checkMutation = useMutation({
+		mutationFn: async (payload: { schema: unknown; run: number }) => {
+			let next = createSchemaImpactReport();
+			let cursor: string | undefined;
+			const seenCursors = new Set<string>();
+			while (runRef.current === payload.run) {
+				const page = await fetchClassObjectPage(classId, cursor);
+				if (runRef.current !== payload.run) break;
+				if (page.totalCount !== null) setTotalCount(page.totalCount);
+				next = addSchemaImpactObjects(next, page.items, payload.schema);
+				setReport(next);
+				if (!page.nextCursor || seenCursors.has(page.nextCursor)) break;
+				seenCursors.add(page.nextCursor);
+				cursor = page.nextCursor;
+			}
+			return next;
+		},
+	});
+
+	function startCheck() {
+		if (schema === null) return;
+		runRef.current += 1;
+		setReport(createSchemaImpactReport());
+		setCheckedSchemaText(schemaText);
+		setTotalCount(null);
+		setStopped(false);
+		checkMutation.mutate({ schema, run: runRef.current });
+	}
+
+	function stopCheck() {
+		runRef.current += 1;
+		setStopped(true);
+		checkMutation.reset();
+	}
+
+	const isRunning = checkMutation.isPending;
+	const isStale = report !== null && checkedSchemaText !== schemaText;
+	const isPartial =
+		report !== null &&
+		(isRunning ||
+			isStopped ||
+			checkMutation.isError ||
+			(totalCount !== null && report.checked < totalCount));
+
+	return (
+		<section
+			className="class-schema-impact"
+			aria-labelledby="class-schema-impact-heading"
+		>
+			<div className="class-schema-impact-header">
+				<div>
+					<strong id="class-schema-impact-heading">
+						Impact on existing objects
+					</strong>
+					<p className="muted">
+						Validate every object in this class against the proposed schema
+						before saving.
+					</p>
+				</div>
+				{isRunning ? (
+					<button type="button" className="ghost" onClick={stopCheck}>
+						Stop
+					</button>
+				) : (
+					<button
+						type="button"
+						className="ghost"
+						onClick={startCheck}
+						disabled={schema === null}
+					>
+						{report ? "Check again" : "Check existing objects"}
+					</button>
+				)}
+			</div>
+
+			{schema === null ? (
+				<span className="field-note">
+					{parsed.kind === "empty"
+						? "Add a schema to check existing objects against it."
+						: "Fix the schema JSON to check existing objects against it."}
+				</span>
+			) : null}
+
+			{report && totalCount !== null && totalCount > 0 ? (
+				<div
+					className="export-progress"
+					role="progressbar"
+					aria-label="Schema check progress"
+					aria-valuemin={0}
+					aria-valuemax={totalCount}
+					aria-valuenow={report.checked}
+				>
+					<span
+						style={{
+							width: `${Math.min(report.checked / totalCount, 1) * 100}%`,
+						}}
+					/>
+				</div>
+			) : null}
+
+			{report ? (
+				<p className="class-schema-impact-summary" aria-live="polite">
+					{isRunning
+						? `Checked ${report.checked}${totalCount !== null ? ` of ${totalCount}` : ""} objects… ${report.failing} would fail so far.`
+						: report.checked === 0 && !checkMutation.isError
+							? "This class has no objects yet."
+							: `${report.failing} of ${report.checked} checked object${report.checked === 1 ? "" : "s"} would fail the proposed schema.`}
+					{isPartial && !isRunning
+						? " The check did not finish, so these counts are partial."
+						: ""}
+				</p>
+			) : null}
+
+			{checkMutation.isError ? (
+				<div className="error-banner">
+					{checkMutation.error instanceof Error
+						? checkMutation.error.message
+						: "Failed to check existing objects."}
+				</div>
+			) : null}
+
+			{isStale ? (
+				<span className="field-note field-note--warning">
+					The schema changed after this check. Check again to see the current
+					impact.
+				</span>
+			) : null}
+
+			{report && report.failing > 0 && !validationEnabled ? (
+				<span className="field-note">
+					Schema validation is off for this class, so these objects are saved as
+					they are today. Turning validation on would reject their next edits.
+				</span>
+			) : null}
+
+			{report && report.issueGroups.length > 0 ? (
+				<div className="object-table-scroll">
+					<table className="class-schema-impact-table">
+						<caption className="sr-only">Most common schema failures</caption>
+						<thead>
+							<tr>
+								<th scope="col">Path</th>
+								<th scope="col">Rule</th>
+								<th scope="col">Objects</th>
+							</tr>
+						</thead>
+						<tbody>
+							{report.issueGroups.slice(0, ISSUE_GROUP_LIMIT).map((group) => (
+								<tr key={`${group.path}-${group.message}`}>
+									<td>
+										<code>{group.path}</code>
+									</td>
+									<td>{group.message}</td>
+									<td>{group.objectCount}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			) : null}
+
+			{report && report.failures.length > 0 ? (
+				<details className="class-schema-impact-failures">
+					<summary>
+						Failing objects
+						{report.failing > report.failures.length
+							? ` (first ${SCHEMA_IMPACT_FAILURE_LIMIT} of ${report.failing})`
+							: ` (${report.failing})`}
+					</summary>
+					<ul>
+						{report.failures.map((failure) => (
+							<li key={failure.objectId}>
+								<Link href={`/objects/${failure.classId}/${failure.objectId}`}>
+									{failure.name}
+								</Link>
+								<span className="muted">
+									<code>{failure.issues[0].path}</code>:{" "}
+									{failure.issues[0].message}
+									{failure.issues.length > 1
+										? ` (+${failure.issues.length - 1} more)`
+										: ""}
+								</span>
+							</li>
+						))}
+					</ul>
+				</details>
+			) : null}
+		</section>
+	);
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+
+import { fetchClassObjectPage } from "@/lib/api/class-objects";
+import { inferJsonSchemaFromObjects } from "@/lib/json-schema-inference";
+
+type ClassSchemaInferenceProps = {
+	classId: number;
+	onApply: (schemaText: string) => void;
+	disabled?: boolean;
+};
+
+const SAMPLE_SIZE_OPTIONS = [
+	{ value: 100, label: "First 100 objects" },
+	{ value: 250, label: "First 250 objects" },
+	{ value: 1000, label: "First 1,000 objects" },
+	{ value: 0, label: "All objects" },
+];
+
+const REQUIRED_RATIO_OPTIONS = [
+	{ value: 1, label: "Every sampled object" },
+	{ value: 0.95, label: "At least 95%" },
+	{ value: 0.8, label: "At least 80%" },
+	{ value: 0.5, label: "At least half" },
+];
+
+async function fetchClassObjectData(
+	classId: number,
+	limit: number,
+): Promise<unknown[]> {
+	const data: unknown[] = [];
+	const seenCursors = new Set<string>();
+	let cursor: string | undefined;
+	while (true) {
+		const page = await fetchClassObjectPage(classId, cursor);
+		data.push(...page.items.map((objectItem) => objectItem.data));
+		if (limit > 0 && data.length >= limit) return data.slice(0, limit);
+		if (!page.nextCursor || seenCursors.has(page.nextCursor)) return data;
+		seenCursors.add(page.nextCursor);
+		cursor = page.nextCursor;
+	}
+}
+
+function formatPresence(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+export function ClassSchemaInference({
+	classId,
+	onApply,
+	disabled = false,
+}: ClassSchemaInferenceProps) {
+	const [sampleSize, setSampleSize] = useState(SAMPLE_SIZE_OPTIONS[0].value);
+	const [requiredRatio, setRequiredRatio] = useState(
+		REQUIRED_RATIO_OPTIONS[0].value,
+	);
+	const sampleMutation = useMutation({
+		mutationFn: async (limit: number) => fetchClassObjectData(classId, limit),
+	});
+	const samples = sampleMutation.data;
+	const inferred = useMemo(
+		() =>
+			samples ? inferJsonSchemaFromObjects(samples, { requiredRatio }) : null,
+		[requiredRatio, samples],
+	);
+	const schemaText = inferred ? JSON.stringify(inferred.schema, null, 2) : "";
+
+	return (
+		<details className="object-property-inspector class-schema-inference">
+			<summary>
+				<span>Infer from existing objects</span>
+				<span>Draft a schema from the data already stored in this class</span>
+			</summary>
+			<div className="object-property-inspector-panel class-schema-inference-panel">
+				<div className="class-schema-inference-controls">
+					<label className="control-field">
+						<span>Sample</span>
+						<select
+							value={sampleSize}
+							onChange={(event) => setSampleSize(Number(event.target.value))}
+							disabled={sampleMutation.isPending}
+						>
+							{SAMPLE_SIZE_OPTIONS.map((option) => (
+								<option key={option.value} value={option.value}>
+									{option.label}
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="control-field">
+						<span>Required when present in</span>
+						<select
+							value={requiredRatio}
+							onChange={(event) => setRequiredRatio(Number(event.target.value))}
+						>
+							{REQUIRED_RATIO_OPTIONS.map((option) => (
+								<option key={option.value} value={option.value}>
+									{option.label}
+								</option>
+							))}
+						</select>
+					</label>
+					<button
+						type="button"
+						className="ghost"
+						onClick={() => sampleMutation.mutate(sampleSize)}
+						disabled={disabled || sampleMutation.isPending}
+					>
+						{sampleMutation.isPending
+							? "Reading objects..."
+							: samples
+								? "Sample again"
+								: "Infer schema"}
+					</button>
+				</div>
+
+				{sampleMutation.isError ? (
+					<div className="error-banner">
+						{sampleMutation.error instanceof Error
+							? sampleMutation.error.message
+							: "Failed to read objects in this class."}
+					</div>
+				) : null}
+
+				{inferred && inferred.sampleCount === 0 ? (
+					<span className="field-note">
+						This class has no objects with JSON object data to learn from.
+					</span>
+				) : null}
+
+				{inferred && inferred.sampleCount > 0 ? (
+					<>
+						<p className="muted">
+							Inferred from {inferred.sampleCount} object
+							{inferred.sampleCount === 1 ? "" : "s"}. Review the draft before
+							applying it; values not seen in the sample are not covered.
+						</p>
+						<div className="object-table-scroll">
+							<table className="class-schema-inference-table">
+								<caption className="sr-only">Inferred fields</caption>
+								<thead>
+									<tr>
+										<th scope="col">Path</th>
+										<th scope="col">Type</th>
+										<th scope="col">Details</th>
+										<th scope="col">Present in</th>
+									</tr>
+								</thead>
+								<tbody>
+									{inferred.fields.map((field) => (
+										<tr key={field.label}>
+											<td>
+												<code>{field.label}</code>
+												{field.required ? (
+													<span className="json-schema-form-required">
+														{" "}
+														required
+													</span>
+												) : null}
+											</td>
+											<td>{field.types.join(" or ") || "any"}</td>
+											<td>
+												{field.enumValues.length > 0
+													? `One of ${field.enumValues.join(", ")}`
+													: field.format
+														? `Format ${field.format}`
+														: ""}
+											</td>
+											<td>{formatPresence(field.presence)}</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+						<details className="json-schema-builder-preview">
+							<summary>Schema preview</summary>
+							<pre>{schemaText}</pre>
+						</details>
+						<div className="form-actions">
+							<button
+								type="button"
+								onClick={() => onApply(schemaText)}
+								disabled={disabled}
+							>
+								Use this schema
+							</button>
+						</div>
+					</>
+				) : null}
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,451 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import {
+	RelationGraphCanvas,
+	type RelationGraphCanvasEdge,
+	type RelationGraphCanvasNode,
+} from "@/components/relation-graph-canvas";
+import type {
+	HubuumClassExpanded,
+	HubuumClassRelation,
+} from "@/lib/api/generated/models";
+import {
+	fetchRelatedClassGraph,
+	relatedClassGraphQueryKey,
+} from "@/lib/api/related-graphs";
+import {
+	assignRelationGraphColors,
+	buildClassRelationGraphModel,
+	layoutLayeredRelationGraph,
+	type RelationGraphClass,
+} from "@/lib/relation-graph";
+
+type ClassTopologyScope = "collection" | "class";
+
+type ClassTopologyDiagramProps = {
+	classes: HubuumClassExpanded[];
+	relations: HubuumClassRelation[];
+	isLoading: boolean;
+	error: unknown;
+	initialClassId: string;
+	isCreatingRelation: boolean;
+	pendingDeleteRelationIds: number[];
+	onCreateRelation: (fromClassId: number, toClassId: number) => void;
+	onDeleteRelation: (relationId: number) => void;
+};
+
+const DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+
+export function ClassTopologyDiagram({
+	classes,
+	relations,
+	isLoading,
+	error,
+	initialClassId,
+	isCreatingRelation,
+	pendingDeleteRelationIds,
+	onCreateRelation,
+	onDeleteRelation,
+}: ClassTopologyDiagramProps) {
+	const router = useRouter();
+	const initialClass = classes.find(
+		(classItem) => String(classItem.id) === initialClassId,
+	);
+	const [scope, setScope] = useState<ClassTopologyScope>(
+		initialClass ? "class" : "collection",
+	);
+	const [collectionId, setCollectionId] = useState(
+		String(initialClass?.collection.id ?? classes[0]?.collection.id ?? ""),
+	);
+	const [startClassId, setStartClassId] = useState(
+		String(initialClass?.id ?? classes[0]?.id ?? ""),
+	);
+	const [depthLimit, setDepthLimit] = useState("");
+	const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+	const [selectedEdgeId, setSelectedEdgeId] = useState<number | null>(null);
+	const [connectTargetId, setConnectTargetId] = useState("");
+
+	const parsedStartClassId = Number.parseInt(startClassId, 10);
+	const parsedCollectionId = Number.parseInt(collectionId, 10);
+	const hasStartClass = Number.isInteger(parsedStartClassId);
+
+	const classGraphQuery = useQuery({
+		queryKey: relatedClassGraphQueryKey(parsedStartClassId),
+		queryFn: async () => fetchRelatedClassGraph(parsedStartClassId),
+		enabled: scope === "class" && hasStartClass,
+	});
+
+	const collections = useMemo(() => {
+		const map = new Map<number, string>();
+		for (const classItem of classes) {
+			map.set(classItem.collection.id, classItem.collection.name);
+		}
+		return [...map.entries()]
+			.map(([id, name]) => ({ id, name }))
+			.sort((left, right) => left.name.localeCompare(right.name));
+	}, [classes]);
+	const collectionById = useMemo(
+		() => new Map(collections.map((collection) => [collection.id, collection])),
+		[collections],
+	);
+	const graphClasses = useMemo(() => {
+		const map = new Map<number, RelationGraphClass>();
+		for (const classItem of classes) {
+			map.set(classItem.id, {
+				id: classItem.id,
+				name: classItem.name,
+				collectionId: classItem.collection.id,
+			});
+		}
+		for (const classItem of classGraphQuery.data?.classes ?? []) {
+			if (!map.has(classItem.id)) {
+				map.set(classItem.id, {
+					id: classItem.id,
+					name: classItem.name,
+					collectionId: classItem.collection_id,
+				});
+			}
+		}
+		return [...map.values()];
+	}, [classGraphQuery.data, classes]);
+
+	const graphRelations =
+		scope === "class" ? (classGraphQuery.data?.relations ?? []) : relations;
+	const model = useMemo(
+		() =>
+			buildClassRelationGraphModel(
+				graphClasses,
+				graphRelations,
+				scope === "class"
+					? {
+							rootClassId: parsedStartClassId,
+							depthLimit: depthLimit ? Number(depthLimit) : undefined,
+						}
+					: { collectionId: parsedCollectionId },
+			),
+		[
+			depthLimit,
+			graphClasses,
+			graphRelations,
+			parsedCollectionId,
+			parsedStartClassId,
+			scope,
+		],
+	);
+	const rootIds = useMemo(
+		() =>
+			scope === "class"
+				? [parsedStartClassId]
+				: model.nodes
+						.filter((node) => node.groupId === parsedCollectionId)
+						.map((node) => node.id),
+		[model.nodes, parsedCollectionId, parsedStartClassId, scope],
+	);
+	const layout = useMemo(
+		() => layoutLayeredRelationGraph(model, { rootIds }),
+		[model, rootIds],
+	);
+	const collectionColors = useMemo(
+		() => assignRelationGraphColors(model.nodes.map((node) => node.groupId)),
+		[model.nodes],
+	);
+
+	const nodeById = new Map(model.nodes.map((node) => [node.id, node]));
+	const relationById = new Map(
+		graphRelations.map((relation) => [relation.id, relation]),
+	);
+	const renderClassName = (classId: number) =>
+		graphClasses.find((classItem) => classItem.id === classId)?.name ??
+		`Class #${classId}`;
+	const renderCollectionName = (id: number) =>
+		collectionById.get(id)?.name ?? `Collection #${id}`;
+
+	const canvasNodes: RelationGraphCanvasNode[] = model.nodes.map((node) => ({
+		id: node.id,
+		label: node.label,
+		detail: renderCollectionName(node.groupId),
+		color: collectionColors.get(node.groupId) ?? "currentColor",
+		position: layout.positions.get(node.id) ?? { x: 0, y: 0 },
+		isRoot: scope === "class" && node.id === parsedStartClassId,
+		isMuted: scope === "collection" && node.groupId !== parsedCollectionId,
+	}));
+	const canvasEdges: RelationGraphCanvasEdge[] = model.edges.map((edge) => ({
+		id: edge.id,
+		fromId: edge.fromId,
+		toId: edge.toId,
+		color:
+			collectionColors.get(nodeById.get(edge.fromId)?.groupId ?? -1) ??
+			"currentColor",
+		label: `${renderClassName(edge.fromId)} → ${renderClassName(edge.toId)}`,
+	}));
+	const collectionLegend = [...collectionColors.entries()].map(
+		([id, color]) => ({
+			id,
+			color,
+			count: model.nodes.filter((node) => node.groupId === id).length,
+		}),
+	);
+
+	const selectedNode =
+		selectedNodeId === null ? null : (nodeById.get(selectedNodeId) ?? null);
+	const selectedRelation =
+		selectedEdgeId === null ? null : (relationById.get(selectedEdgeId) ?? null);
+	const relatedToSelected = new Set(
+		relations.flatMap((relation) =>
+			relation.from_hubuum_class_id === selectedNodeId
+				? [relation.to_hubuum_class_id]
+				: relation.to_hubuum_class_id === selectedNodeId
+					? [relation.from_hubuum_class_id]
+					: [],
+		),
+	);
+	const connectTargets = classes.filter(
+		(classItem) =>
+			classItem.id !== selectedNodeId && !relatedToSelected.has(classItem.id),
+	);
+
+	function selectNode(nodeId: number) {
+		setSelectedNodeId(nodeId);
+		setSelectedEdgeId(null);
+		setConnectTargetId("");
+	}
+
+	function selectEdge(edgeId: number) {
+		setSelectedEdgeId(edgeId);
+		setSelectedNodeId(null);
+	}
+
+	function focusClass(classId: number) {
+		setScope("class");
+		setStartClassId(String(classId));
+	}
+
+	const scopeError = scope === "class" ? classGraphQuery.error : error;
+	const isScopeLoading =
+		scope === "class" ? classGraphQuery.isLoading : isLoading;
+
+	return (
+		<div className="stack">
+			<fieldset className="controls-row relation-filters">
+				<legend className="sr-only">Diagram scope</legend>
+				<label className="control-field">
+					<span>Scope</span>
+					<select
+						value={scope}
+						onChange={(event) =>
+							setScope(event.target.value === "class" ? "class" : "collection")
+						}
+					>
+						<option value="collection">Collection</option>
+						<option value="class">Starting class</option>
+					</select>
+				</label>
+				{scope === "collection" ? (
+					<label className="control-field">
+						<span>Collection</span>
+						<select
+							value={collectionId}
+							onChange={(event) => setCollectionId(event.target.value)}
+							disabled={collections.length === 0}
+						>
+							{collections.length === 0 ? (
+								<option value="">No collections available</option>
+							) : null}
+							{collections.map((collection) => (
+								<option key={collection.id} value={collection.id}>
+									{collection.name}
+								</option>
+							))}
+						</select>
+					</label>
+				) : (
+					<>
+						<label className="control-field">
+							<span>Start class</span>
+							<select
+								value={startClassId}
+								onChange={(event) => setStartClassId(event.target.value)}
+								disabled={classes.length === 0}
+							>
+								{classes.length === 0 ? (
+									<option value="">No classes available</option>
+								) : null}
+								{classes.map((classItem) => (
+									<option key={classItem.id} value={classItem.id}>
+										{classItem.name}
+									</option>
+								))}
+							</select>
+						</label>
+						<label className="control-field">
+							<span>Hops</span>
+							<select
+								value={depthLimit}
+								onChange={(event) => setDepthLimit(event.target.value)}
+							>
+								<option value="">All connected</option>
+								{DEPTH_OPTIONS.map((depth) => (
+									<option key={depth} value={depth}>
+										{depth}
+									</option>
+								))}
+							</select>
+						</label>
+					</>
+				)}
+			</fieldset>
+
+			{isScopeLoading ? (
+				<div className="object-property-empty" role="status">
+					Loading class topology...
+				</div>
+			) : scopeError ? (
+				<div className="object-property-empty error-banner" role="alert">
+					Failed to load class topology.{" "}
+					{scopeError instanceof Error ? scopeError.message : "Unknown error"}
+				</div>
+			) : model.nodes.length === 0 ? (
+				<div className="object-property-empty">No classes in this scope.</div>
+			) : (
+				<div className="object-relation-graph class-topology-diagram">
+					<RelationGraphCanvas
+						ariaLabel="Class relation diagram"
+						nodeShape="box"
+						nodes={canvasNodes}
+						edges={canvasEdges}
+						bounds={layout.bounds}
+						fitKey={`${scope}:${scope === "class" ? `${startClassId}:${depthLimit}` : collectionId}`}
+						selectedNodeId={selectedNodeId}
+						selectedEdgeId={selectedEdgeId}
+						onNodeActivate={selectNode}
+						onNodeOpen={(classId) => router.push(`/classes/${classId}`)}
+						onEdgeActivate={selectEdge}
+						onConnect={onCreateRelation}
+					/>
+					<div className="relation-graph-sidebar">
+						{selectedRelation ? (
+							<section
+								className="relation-graph-selection"
+								aria-label="Selected class relation"
+							>
+								<strong>
+									{renderClassName(selectedRelation.from_hubuum_class_id)} →{" "}
+									{renderClassName(selectedRelation.to_hubuum_class_id)}
+								</strong>
+								<span className="muted">
+									Class relation #{selectedRelation.id}
+								</span>
+								<div className="relation-graph-selection-actions">
+									<button
+										type="button"
+										className="danger"
+										disabled={pendingDeleteRelationIds.includes(
+											selectedRelation.id,
+										)}
+										onClick={() => onDeleteRelation(selectedRelation.id)}
+									>
+										{pendingDeleteRelationIds.includes(selectedRelation.id)
+											? "Deleting..."
+											: "Delete relation"}
+									</button>
+								</div>
+							</section>
+						) : selectedNode ? (
+							<section
+								className="relation-graph-selection"
+								aria-label="Selected class"
+							>
+								<strong>{selectedNode.label}</strong>
+								<span className="muted">
+									{renderCollectionName(selectedNode.groupId)} ·{" "}
+									{relatedToSelected.size} relation
+									{relatedToSelected.size === 1 ? "" : "s"}
+								</span>
+								<div className="relation-graph-selection-actions">
+									<Link
+										className="link-chip"
+										href={`/classes/${selectedNode.id}`}
+									>
+										Open class
+									</Link>
+									{scope === "class" &&
+									selectedNode.id === parsedStartClassId ? null : (
+										<button
+											type="button"
+											className="ghost"
+											onClick={() => focusClass(selectedNode.id)}
+										>
+											Start from here
+										</button>
+									)}
+								</div>
+								<label className="control-field">
+									<span>Relate to</span>
+									<select
+										value={connectTargetId}
+										onChange={(event) => setConnectTargetId(event.target.value)}
+									>
+										<option value="">Select class</option>
+										{connectTargets.map((classItem) => (
+											<option key={classItem.id} value={classItem.id}>
+												{classItem.name}
+											</option>
+										))}
+									</select>
+								</label>
+								<div className="relation-graph-selection-actions">
+									<button
+										type="button"
+										disabled={!connectTargetId || isCreatingRelation}
+										onClick={() => {
+											onCreateRelation(
+												selectedNode.id,
+												Number(connectTargetId),
+											);
+											setConnectTargetId("");
+										}}
+									>
+										{isCreatingRelation ? "Creating..." : "Create relation"}
+									</button>
+								</div>
+							</section>
+						) : (
+							<p className="muted relation-graph-hint">
+								Drag from one class to another to relate them. Click a line to
+								select a relation. Double-click a class to open it.
+							</p>
+						)}
+						{isCreatingRelation ? (
+							<span className="muted" role="status">
+								Creating class relation...
+							</span>
+						) : null}
+						<section
+							className="relation-graph-legend"
+							aria-label="Collections in the diagram"
+						>
+							<strong>Collections</strong>
+							<ul>
+								{collectionLegend.map((entry) => (
+									<li key={entry.id}>
+										<span
+											className="relation-graph-swatch"
+											style={{ background: entry.color }}
+											aria-hidden="true"
+										/>
+										<span>{renderCollectionName(entry.id)}</span>
+										<span className="muted">{entry.count}</span>
+									</li>
+								))}
+							</ul>
+						</section>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import { CreateModal } from "@/components/create-modal";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { EmptyState } from "@/components/empty-state";
 import { JsonEditor } from "@/components/json-editor";
 import { ResourceIndexHeading } from "@/components/resource-index-heading";
@@ -260,6 +261,23 @@ export function ClassesTable() {
 				selectedClassIds.length === 1 ? "" : "es"
 			}?`,
 			description: "This removes the selected classes and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "class",
+						resources: selectedClassIds.map((classId) => {
+							const classItem = classesQuery.data?.classes.find(
+								(candidate) => candidate.id === classId,
+							);
+							return {
+								id: classId,
+								name: classItem?.name ?? `Class #${classId}`,
+								collectionId: classItem?.collection.id,
+							};
+						}),
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -268,7 +286,7 @@ export function ClassesTable() {
 		}
 
 		deleteMutation.mutate([...selectedClassIds]);
-	}, [confirm, selectedClassIds, deleteMutation]);
+	}, [confirm, selectedClassIds, classesQuery.data, deleteMutation]);
 
 	function onSubmit(event: FormEvent<HTMLFormElement>) {
 		event.preventDefault();
@@ -15,29 +15,36 @@ import {
 import { EmptyState } from "@/components/empty-state";
 import { CollectionEventSubscriptionsPanel } from "@/components/collection-event-subscriptions-panel";
 import { CollectionDetailTracker } from "@/components/collection-detail-tracker";
+import { CollectionObjectsPanel } from "@/components/collection-objects-panel";
+import { CollectionPermissionCopyForm } from "@/components/collection-permission-copy-form";
+import { CreateModal } from "@/components/create-modal";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { InlineFieldEditTrigger } from "@/components/inline-field-edit-trigger";
+import { PermissionPresetApplyForm } from "@/components/permission-preset-apply-form";
 import { PinButton } from "@/components/pin-button";
 import { RemoteInvocationsPanel } from "@/components/remote-invocations-panel";
 import { ResourceActivityPanel } from "@/components/resource-activity-panel";
 import { TableExportMenu } from "@/components/table-export-menu";
 import { useConfirm } from "@/lib/confirm-context";
+import {
+	fetchCollectionGroupsWithPermission,
+	fetchCollectionPermissions,
+	replaceCollectionGroupPermissions,
+} from "@/lib/api/collections";
 import { getApiErrorMessage } from "@/lib/api/errors";
+import { fetchCurrentUserGroups } from "@/lib/api/groups";
 import {
 	deleteApiV1CollectionsByCollectionId,
 	deleteApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
 	getApiV1IamGroups,
-	getApiV1IamMeGroups,
 	getApiV1Collections,
 	getApiV1CollectionsByCollectionId,
 	getApiV1CollectionsByCollectionIdAncestors,
 	getApiV1CollectionsByCollectionIdChildren,
-	getApiV1CollectionsByCollectionIdHasPermissionsByPermission,
-	getApiV1CollectionsByCollectionIdPermissions,
 	getApiV1CollectionsByCollectionIdPermissionsEffectivePrincipalByPrincipalId,
 	getApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
 	patchApiV1CollectionsByCollectionId,
 	putApiV1CollectionsByCollectionIdParent,
-	putApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
 } from "@/lib/api/generated/client";
 import type {
 	EffectiveGroupPermission,
@@ -64,6 +71,17 @@ import {
 	formatScopedGroupName,
 } from "@/lib/identity-scopes";
 import { canManageCollectionPermissions } from "@/lib/collection-permission-access";
+import {
+	ALL_COLLECTION_PERMISSIONS,
+	arePermissionSetsEqual,
+	getEnabledPermissions,
+	getSectionDefinitions,
+	isPermissionEnabled,
+	PERMISSION_DEFINITIONS,
+	PERMISSION_SECTION_LABELS,
+	PERMISSION_SECTION_ORDER,
+	summarizePermissions,
+} from "@/lib/collection-permissions";
 import { useCurrentUserId } from "@/lib/use-current-user-id";
 import { useEscapeToCancel } from "@/lib/use-escape-to-cancel";
 
@@ -73,57 +91,6 @@ type CollectionDetailProps = {
 	currentUsername: string | null;
 };
 
-type PermissionFlagField =
-	| "has_read_collection"
-	| "has_update_collection"
-	| "has_delete_collection"
-	| "has_delegate_collection"
-	| "has_create_class"
-	| "has_read_class"
-	| "has_update_class"
-	| "has_delete_class"
-	| "has_create_object"
-	| "has_read_object"
-	| "has_update_object"
-	| "has_delete_object"
-	| "has_create_class_relation"
-	| "has_read_class_relation"
-	| "has_update_class_relation"
-	| "has_delete_class_relation"
-	| "has_create_object_relation"
-	| "has_read_object_relation"
-	| "has_update_object_relation"
-	| "has_delete_object_relation"
-	| "has_create_template"
-	| "has_read_template"
-	| "has_update_template"
-	| "has_delete_template"
-	| "has_read_remote_target"
-	| "has_create_remote_target"
-	| "has_update_remote_target"
-	| "has_delete_remote_target"
-	| "has_execute_remote_target"
-	| "has_read_audit"
-	| "has_manage_event_subscription";
-
-type PermissionDefinition = {
-	value: PermissionName;
-	label: string;
-	field: PermissionFlagField;
-	section: PermissionSection;
-};
-
-type PermissionSection =
-	| "collection"
-	| "class"
-	| "object"
-	| "class_relation"
-	| "object_relation"
-	| "template"
-	| "remote_target"
-	| "audit"
-	| "events";
-
 type EditableField = "name" | "description";
 
 type PermissionExportRow = {
@@ -147,223 +114,6 @@ type CollectionPermissionEntry = {
 
 const ALL_EDITABLE_FIELDS: EditableField[] = ["name", "description"];
 
-const PERMISSION_SECTION_LABELS: Record<PermissionSection, string> = {
-	collection: "Collection",
-	class: "Classes",
-	object: "Objects",
-	class_relation: "Class relations",
-	object_relation: "Object relations",
-	template: "Templates",
-	remote_target: "Remote targets",
-	audit: "Audit",
-	events: "Events",
-};
-
-const PERMISSION_SECTION_ORDER: PermissionSection[] = [
-	"collection",
-	"class",
-	"object",
-	"class_relation",
-	"object_relation",
-	"template",
-	"remote_target",
-	"audit",
-	"events",
-];
-
-const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
-	{
-		value: PermissionValues.ReadCollection,
-		label: "Read collection",
-		field: "has_read_collection",
-		section: "collection",
-	},
-	{
-		value: PermissionValues.UpdateCollection,
-		label: "Update collection",
-		field: "has_update_collection",
-		section: "collection",
-	},
-	{
-		value: PermissionValues.DeleteCollection,
-		label: "Delete collection",
-		field: "has_delete_collection",
-		section: "collection",
-	},
-	{
-		value: PermissionValues.DelegateCollection,
-		label: "Delegate collection",
-		field: "has_delegate_collection",
-		section: "collection",
-	},
-	{
-		value: PermissionValues.CreateClass,
-		label: "Create class",
-		field: "has_create_class",
-		section: "class",
-	},
-	{
-		value: PermissionValues.ReadClass,
-		label: "Read class",
-		field: "has_read_class",
-		section: "class",
-	},
-	{
-		value: PermissionValues.UpdateClass,
-		label: "Update class",
-		field: "has_update_class",
-		section: "class",
-	},
-	{
-		value: PermissionValues.DeleteClass,
-		label: "Delete class",
-		field: "has_delete_class",
-		section: "class",
-	},
-	{
-		value: PermissionValues.CreateObject,
-		label: "Create object",
-		field: "has_create_object",
-		section: "object",
-	},
-	{
-		value: PermissionValues.ReadObject,
-		label: "Read object",
-		field: "has_read_object",
-		section: "object",
-	},
-	{
-		value: PermissionValues.UpdateObject,
-		label: "Update object",
-		field: "has_update_object",
-		section: "object",
-	},
-	{
-		value: PermissionValues.DeleteObject,
-		label: "Delete object",
-		field: "has_delete_object",
-		section: "object",
-	},
-	{
-		value: PermissionValues.CreateClassRelation,
-		label: "Create class relation",
-		field: "has_create_class_relation",
-		section: "class_relation",
-	},
-	{
-		value: PermissionValues.ReadClassRelation,
-		label: "Read class relation",
-		field: "has_read_class_relation",
-		section: "class_relation",
-	},
-	{
-		value: PermissionValues.UpdateClassRelation,
-		label: "Update class relation",
-		field: "has_update_class_relation",
-		section: "class_relation",
-	},
-	{
-		value: PermissionValues.DeleteClassRelation,
-		label: "Delete class relation",
-		field: "has_delete_class_relation",
-		section: "class_relation",
-	},
-	{
-		value: PermissionValues.CreateObjectRelation,
-		label: "Create object relation",
-		field: "has_create_object_relation",
-		section: "object_relation",
-	},
-	{
-		value: PermissionValues.ReadObjectRelation,
-		label: "Read object relation",
-		field: "has_read_object_relation",
-		section: "object_relation",
-	},
-	{
-		value: PermissionValues.UpdateObjectRelation,
-		label: "Update object relation",
-		field: "has_update_object_relation",
-		section: "object_relation",
-	},
-	{
-		value: PermissionValues.DeleteObjectRelation,
-		label: "Delete object relation",
-		field: "has_delete_object_relation",
-		section: "object_relation",
-	},
-	{
-		value: PermissionValues.CreateTemplate,
-		label: "Create template",
-		field: "has_create_template",
-		section: "template",
-	},
-	{
-		value: PermissionValues.ReadTemplate,
-		label: "Read template",
-		field: "has_read_template",
-		section: "template",
-	},
-	{
-		value: PermissionValues.UpdateTemplate,
-		label: "Update template",
-		field: "has_update_template",
-		section: "template",
-	},
-	{
-		value: PermissionValues.DeleteTemplate,
-		label: "Delete template",
-		field: "has_delete_template",
-		section: "template",
-	},
-	{
-		value: PermissionValues.ReadRemoteTarget,
-		label: "Read remote target",
-		field: "has_read_remote_target",
-		section: "remote_target",
-	},
-	{
-		value: PermissionValues.CreateRemoteTarget,
-		label: "Create remote target",
-		field: "has_create_remote_target",
-		section: "remote_target",
-	},
-	{
-		value: PermissionValues.UpdateRemoteTarget,
-		label: "Update remote target",
-		field: "has_update_remote_target",
-		section: "remote_target",
-	},
-	{
-		value: PermissionValues.DeleteRemoteTarget,
-		label: "Delete remote target",
-		field: "has_delete_remote_target",
-		section: "remote_target",
-	},
-	{
-		value: PermissionValues.ExecuteRemoteTarget,
-		label: "Execute remote target",
-		field: "has_execute_remote_target",
-		section: "remote_target",
-	},
-	{
-		value: PermissionValues.ReadAudit,
-		label: "Read audit",
-		field: "has_read_audit",
-		section: "audit",
-	},
-	{
-		value: PermissionValues.ManageEventSubscription,
-		label: "Manage event subscriptions",
-		field: "has_manage_event_subscription",
-		section: "events",
-	},
-];
-
-const ALL_COLLECTION_PERMISSIONS = PERMISSION_DEFINITIONS.map(
-	(definition) => definition.value,
-);
-
 async function fetchCollection(collectionId: number): Promise<Collection> {
 	const response = await getApiV1CollectionsByCollectionId(collectionId, {
 		credentials: "include",
@@ -475,104 +225,6 @@ async function fetchEffectivePrincipalPermissions(
 	return response.data;
 }
 
-async function fetchGroupsWithPermission(
-	collectionId: number,
-	permission: PermissionName,
-): Promise<ConsoleGroup[]> {
-	const response =
-		await getApiV1CollectionsByCollectionIdHasPermissionsByPermission(
-			collectionId,
-			permission,
-			undefined,
-			{
-				credentials: "include",
-			},
-		);
-
-	if (response.status !== 200) {
-		throw new Error(
-			getApiErrorMessage(response.data, "Failed to check collection access."),
-		);
-	}
-
-	return response.data;
-}
-
-async function fetchCollectionPermissions(
-	collectionId: number,
-): Promise<Permission[]> {
-	const response = await getApiV1CollectionsByCollectionIdPermissions(
-		collectionId,
-		undefined,
-		{
-			credentials: "include",
-		},
-	);
-
-	if (response.status !== 200) {
-		throw new Error(
-			getApiErrorMessage(
-				response.data,
-				"Failed to load collection permissions.",
-			),
-		);
-	}
-
-	return response.data.permissions;
-}
-
-async function putCollectionPermissions(
-	collectionId: number,
-	groupId: number,
-	permissions: PermissionName[],
-): Promise<void> {
-	const response =
-		await putApiV1CollectionsByCollectionIdPermissionsGroupByGroupId(
-			collectionId,
-			groupId,
-			permissions,
-			{
-				credentials: "include",
-			},
-		);
-
-	if (response.status === 200) {
-		return;
-	}
-
-	throw new Error(
-		getApiErrorMessage(
-			response.data,
-			"Failed to update collection permissions.",
-		),
-	);
-}
-
-async function fetchCurrentUserGroups(
-	_username: string,
-): Promise<ConsoleGroup[]> {
-	try {
-		const response = await getApiV1IamMeGroups(
-			{ include_total: false },
-			{
-				credentials: "include",
-			},
-		);
-		if (response.status !== 200) {
-			return [];
-		}
-		return response.data;
-	} catch {
-		return [];
-	}
-}
-
-function getEnabledPermissions(permissionRecord: Permission): PermissionName[] {
-	return PERMISSION_DEFINITIONS.filter((definition) =>
-		isPermissionEnabled(permissionRecord, definition.field),
-	).map((definition) => definition.value);
-}
-
 type PermissionChip = {
 	label: string;
 	enabled: boolean;
@@ -585,60 +237,6 @@ function getPermissionChips(permissionRecord: Permission): PermissionChip[] {
 	}));
 }
 
-function getSectionDefinitions(
-	section: PermissionSection,
-): PermissionDefinition[] {
-	return PERMISSION_DEFINITIONS.filter(
-		(definition) => definition.section === section,
-	);
-}
-
-function summarizePermissions(permissionSet: Set<PermissionName>): string {
-	const sectionSummaries = PERMISSION_SECTION_ORDER.map((section) => {
-		const enabledLabels = getSectionDefinitions(section)
-			.filter((definition) => permissionSet.has(definition.value))
-			.map((definition) =>
-				definition.label
-					.replace(/^(Read|Update|Delete|Create|Delegate)\s+/i, "$1 ")
-					.replace(/\s+(collection|class|object|relation|template)$/i, ""),
-			);
-
-		if (enabledLabels.length === 0) {
-			return null;
-		}
-
-		return `${PERMISSION_SECTION_LABELS[section]}: ${enabledLabels.join(", ")}`;
-	}).filter(Boolean);
-
-	return sectionSummaries.length > 0
-		? sectionSummaries.join(" · ")
-		: "No permissions selected";
-}
-
-function normalizePermissionFlag(value: unknown): boolean {
-	if (typeof value === "boolean") {
-		return value;
-	}
-
-	if (typeof value === "number") {
-		return value === 1;
-	}
-
-	if (typeof value === "string") {
-		const normalized = value.trim().toLowerCase();
-		return normalized === "true" || normalized === "t" || normalized === "1";
-	}
-
-	return false;
-}
-
-function isPermissionEnabled(
-	permissionRecord: Permission,
-	field: PermissionFlagField,
-): boolean {
-	return normalizePermissionFlag(permissionRecord[field] as unknown);
-}
-
 function hasAllSubmittedPermissions(
 	submitted: PermissionName[],
 	persisted: PermissionName[],
@@ -653,24 +251,6 @@ function hasAllSubmittedPermissions(
 	return true;
 }
 
-function arePermissionSetsEqual(
-	left: PermissionName[],
-	right: PermissionName[],
-): boolean {
-	if (left.length !== right.length) {
-		return false;
-	}
-
-	const rightSet = new Set(right);
-	for (const permission of left) {
-		if (!rightSet.has(permission)) {
-			return false;
-		}
-	}
-
-	return true;
-}
-
 function formatTimestamp(value: string): string {
 	const parsed = new Date(value);
 	if (Number.isNaN(parsed.getTime())) {
@@ -696,6 +276,8 @@ export function CollectionDetail({
 	const [description, setDescription] = useState("");
 	const [editingFields, setEditingFields] = useState<EditableField[]>([]);
 	const [addingGroupPermissions, setAddingGroupPermissions] = useState(false);
+	const [isPermissionPresetOpen, setPermissionPresetOpen] = useState(false);
+	const [isPermissionCopyOpen, setPermissionCopyOpen] = useState(false);
 	const [newPermissionGroupId, setNewPermissionGroupId] = useState("");
 	const [newSelectedPermissions, setNewSelectedPermissions] = useState<
 		PermissionName[]
@@ -767,7 +349,7 @@ export function CollectionDetail({
 				return [];
 			}
 
-			return fetchCurrentUserGroups(currentUsername);
+			return fetchCurrentUserGroups();
 		},
 	});
 	const delegateGroupsQuery = useQuery({
@@ -778,7 +360,7 @@ export function CollectionDetail({
 			PermissionValues.DelegateCollection,
 		],
 		queryFn: async () =>
-			fetchGroupsWithPermission(
+			fetchCollectionGroupsWithPermission(
 				collectionId,
 				PermissionValues.DelegateCollection,
 			),
@@ -791,7 +373,7 @@ export function CollectionDetail({
 			PermissionValues.UpdateCollection,
 		],
 		queryFn: async () =>
-			fetchGroupsWithPermission(
+			fetchCollectionGroupsWithPermission(
 				collectionId,
 				PermissionValues.UpdateCollection,
 			),
@@ -804,7 +386,7 @@ export function CollectionDetail({
 			PermissionValues.DeleteCollection,
 		],
 		queryFn: async () =>
-			fetchGroupsWithPermission(
+			fetchCollectionGroupsWithPermission(
 				collectionId,
 				PermissionValues.DeleteCollection,
 			),
@@ -817,7 +399,7 @@ export function CollectionDetail({
 			PermissionValues.ManageEventSubscription,
 		],
 		queryFn: async () =>
-			fetchGroupsWithPermission(
+			fetchCollectionGroupsWithPermission(
 				collectionId,
 				PermissionValues.ManageEventSubscription,
 			),
@@ -927,7 +509,7 @@ export function CollectionDetail({
 			permissions: PermissionName[];
 			mode: "create" | "edit";
 		}) => {
-			await putCollectionPermissions(
+			await replaceCollectionGroupPermissions(
 				collectionId,
 				payload.groupId,
 				payload.permissions,
@@ -1244,6 +826,14 @@ export function CollectionDetail({
 		const confirmed = await confirm({
 			title: `Delete ${collectionLabel}?`,
 			description: "This removes the collection and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "collection",
+						resources: [{ id: collectionId, name: collectionLabel }],
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -1995,6 +1585,12 @@ export function CollectionDetail({
 					) : null}
 				</section>
 
+				<CollectionObjectsPanel
+					collectionId={collectionId}
+					canAdminister={canAdminister}
+					currentUsername={currentUsername}
+				/>
+
 				<RemoteInvocationsPanel
 					collectionId={collectionId}
 					subject={{ type: "collection", collection_id: collectionId }}
@@ -2005,6 +1601,12 @@ export function CollectionDetail({
 				<ResourceActivityPanel
 					scope={{ type: "collection", collectionId }}
 					title="Collection audit and history"
+					onRestored={async () => {
+						await queryClient.invalidateQueries({
+							queryKey: ["collection", collectionId],
+						});
+						await queryClient.invalidateQueries({ queryKey: ["collections"] });
+					}}
 				/>
 
 				<CollectionEventSubscriptionsPanel
@@ -2013,6 +1615,27 @@ export function CollectionDetail({
 					isPermissionPending={checkingPermissionMembership}
 				/>
 
+				<CreateModal
+					open={isPermissionPresetOpen}
+					title={`Apply permission preset to ${collectionData.name}`}
+					onClose={() => setPermissionPresetOpen(false)}
+				>
+					<PermissionPresetApplyForm
+						collections={[{ id: collectionId, name: collectionData.name }]}
+						canAdminister={canAdminister}
+					/>
+				</CreateModal>
+				<CreateModal
+					open={isPermissionCopyOpen}
+					title={`Copy access to ${collectionData.name}`}
+					onClose={() => setPermissionCopyOpen(false)}
+				>
+					<CollectionPermissionCopyForm
+						collectionId={collectionId}
+						collectionName={collectionData.name}
+					/>
+				</CreateModal>
+
 				<section className="card stack">
 					<header className="stack">
 						<h3>Collection permissions</h3>
@@ -2044,6 +1667,30 @@ export function CollectionDetail({
 									? "All groups assigned"
 									: "Add group permissions"}
 							</button>
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => setPermissionPresetOpen(true)}
+								disabled={
+									addingGroupPermissions ||
+									hasDirtyRowDrafts ||
+									upsertPermissionsMutation.isPending
+								}
+							>
+								Apply permission preset
+							</button>
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => setPermissionCopyOpen(true)}
+								disabled={
+									addingGroupPermissions ||
+									hasDirtyRowDrafts ||
+									upsertPermissionsMutation.isPending
+								}
+							>
+								Copy access from…
+							</button>
 							{groupsQuery.isError ? (
 								<span className="muted">
 									Could not load groups automatically. You can enter a group ID
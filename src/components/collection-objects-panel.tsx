@@ -0,0 +1,215 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useState } from "react";
+
+import { CreateModal } from "@/components/create-modal";
+import { ObjectCollectionMoveForm } from "@/components/object-collection-move-form";
+import { classObjectSamplesQueryKey } from "@/lib/api/class-objects";
+import { fetchAllClasses } from "@/lib/api/classes";
+import { fetchCollectionClassObjects } from "@/lib/api/object-collection-moves";
+import {
+	type ObjectCollectionMoveResult,
+	summarizeObjectCollectionMoveResults,
+} from "@/lib/object-collection-move";
+import { useToast } from "@/lib/toast-context";
+
+type CollectionObjectsPanelProps = {
+	collectionId: number;
+	canAdminister: boolean;
+	currentUsername: string | null;
+};
+
+export function CollectionObjectsPanel({
+	collectionId,
+	canAdminister,
+	currentUsername,
+}: CollectionObjectsPanelProps) {
+	const queryClient = useQueryClient();
+	const { showToast } = useToast();
+	const [classId, setClassId] = useState("");
+	const [selectedObjectIds, setSelectedObjectIds] = useState<number[]>([]);
+	const [isMoveOpen, setMoveOpen] = useState(false);
+	const parsedClassId = Number.parseInt(classId, 10);
+	const activeClassId = Number.isFinite(parsedClassId) ? parsedClassId : null;
+
+	const classesQuery = useQuery({
+		queryKey: ["classes", "all"],
+		queryFn: fetchAllClasses,
+	});
+	const objectsQuery = useQuery({
+		queryKey: ["collection", collectionId, "objects", activeClassId],
+		queryFn: async () => {
+			if (activeClassId === null) {
+				return [];
+			}
+			return fetchCollectionClassObjects(activeClassId, collectionId);
+		},
+		enabled: activeClassId !== null,
+	});
+
+	const objects = objectsQuery.data ?? [];
+	const selectedObjects = objects.filter((objectItem) =>
+		selectedObjectIds.includes(objectItem.id),
+	);
+	const allSelected =
+		objects.length > 0 && selectedObjects.length === objects.length;
+
+	async function onMoved(results: ObjectCollectionMoveResult[]) {
+		await queryClient.invalidateQueries({
+			queryKey: ["collection", collectionId, "objects"],
+		});
+		if (activeClassId !== null) {
+			await queryClient.invalidateQueries({
+				queryKey: classObjectSamplesQueryKey(activeClassId),
+			});
+			await queryClient.invalidateQueries({
+				queryKey: ["objects", activeClassId],
+			});
+		}
+		const summary = summarizeObjectCollectionMoveResults(results);
+		const movedIds = new Set(
+			results
+				.filter((result) => result.status === "moved")
+				.map((result) => result.objectId),
+		);
+		setSelectedObjectIds((current) =>
+			current.filter((objectId) => !movedIds.has(objectId)),
+		);
+		showToast(
+			summary.failed
+				? `${summary.moved} moved, ${summary.failed} failed.`
+				: `${summary.moved} object${summary.moved === 1 ? "" : "s"} moved.`,
+			summary.failed ? "error" : "success",
+		);
+	}
+
+	function toggleObject(objectId: number, checked: boolean) {
+		setSelectedObjectIds((current) =>
+			checked
+				? [...current, objectId]
+				: current.filter((selectedId) => selectedId !== objectId),
+		);
+	}
+
+	return (
+		<section className="card stack">
+			<header className="stack">
+				<h3>Objects in this collection</h3>
+				<p className="muted">
+					Objects are listed per class. Select objects to move them to another
+					collection.
+				</p>
+			</header>
+
+			<div className="form-grid">
+				<label className="control-field">
+					<span>Class</span>
+					<select
+						value={classId}
+						onChange={(event) => {
+							setClassId(event.target.value);
+							setSelectedObjectIds([]);
+						}}
+						disabled={classesQuery.isLoading}
+					>
+						<option value="">
+							{classesQuery.isLoading
+								? "Loading classes..."
+								: classesQuery.isError
+									? "Failed to load classes"
+									: "Select class"}
+						</option>
+						{(classesQuery.data ?? []).map((classItem) => (
+							<option key={classItem.id} value={classItem.id}>
+								{classItem.name}
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+
+			{activeClassId === null ? null : objectsQuery.isLoading ? (
+				<span className="muted">Loading objects...</span>
+			) : objectsQuery.isError ? (
+				<div className="error-banner">
+					{objectsQuery.error instanceof Error
+						? objectsQuery.error.message
+						: "Failed to load collection objects."}
+				</div>
+			) : objects.length === 0 ? (
+				<span className="muted">
+					No objects of this class are stored in this collection.
+				</span>
+			) : (
+				<>
+					<label className="collection-objects-option">
+						<input
+							type="checkbox"
+							checked={allSelected}
+							onChange={(event) =>
+								setSelectedObjectIds(
+									event.target.checked
+										? objects.map((objectItem) => objectItem.id)
+										: [],
+								)
+							}
+						/>
+						<span>
+							Select all {objects.length} object
+							{objects.length === 1 ? "" : "s"}
+						</span>
+					</label>
+					<ul className="collection-objects-list">
+						{objects.map((objectItem) => (
+							<li key={objectItem.id}>
+								<label className="collection-objects-option">
+									<input
+										type="checkbox"
+										checked={selectedObjectIds.includes(objectItem.id)}
+										onChange={(event) =>
+											toggleObject(objectItem.id, event.target.checked)
+										}
+									/>
+									<span>{objectItem.name}</span>
+								</label>
+								<Link
+									className="muted"
+									href={`/objects/${objectItem.hubuum_class_id}/${objectItem.id}`}
+								>
+									#{objectItem.id}
+								</Link>
+							</li>
+						))}
+					</ul>
+					<div className="form-actions">
+						<button
+							type="button"
+							onClick={() => setMoveOpen(true)}
+							disabled={selectedObjects.length === 0}
+						>
+							Move to collection ({selectedObjects.length})
+						</button>
+					</div>
+				</>
+			)}
+
+			<CreateModal
+				open={isMoveOpen}
+				title={`Move ${selectedObjects.length} object${
+					selectedObjects.length === 1 ? "" : "s"
+				} to collection`}
+				onClose={() => setMoveOpen(false)}
+			>
+				<ObjectCollectionMoveForm
+					objects={selectedObjects}
+					canAdminister={canAdminister}
+					currentUsername={currentUsername}
+					excludeCollectionId={collectionId}
+					onMoved={onMoved}
+				/>
+			</CreateModal>
+		</section>
+	);
+}
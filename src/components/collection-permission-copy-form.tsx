@@ -0,0 +1,531 @@
+"use client";
+
+import {
+	useMutation,
+	useQueries,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import Link from "next/link";
+import { type FormEvent, useMemo, useState } from "react";
+
+import {
+	fetchAllCollections,
+	fetchCollectionPermissions,
+	grantCollectionGroupPermission,
+	revokeCollectionGroupPermission,
+} from "@/lib/api/collections";
+import type {
+	Permission,
+	Permissions as PermissionName,
+} from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+import { fetchAllGroups, fetchCurrentUserGroups } from "@/lib/api/groups";
+import {
+	buildCollectionHierarchy,
+	formatCollectionOption,
+	getDescendantCollectionIds,
+} from "@/lib/collection-hierarchy";
+import {
+	getEnabledPermissions,
+	PERMISSION_DEFINITIONS,
+	type PermissionMatrixChange,
+	planCollectionPermissionCopy,
+	summarizePermissions,
+	toPermissionMatrixKey,
+} from "@/lib/collection-permissions";
+import { useConfirm } from "@/lib/confirm-context";
+import { formatScopedGroupName } from "@/lib/identity-scopes";
+
+const PERMISSION_COPY_COLLECTION_LIMIT = 100;
+
+const PERMISSION_LABELS = new Map(
+	PERMISSION_DEFINITIONS.map((definition) => [
+		definition.value,
+		definition.label,
+	]),
+);
+
+type CollectionPermissionCopyFormProps = {
+	collectionId: number;
+	collectionName: string;
+	onApplied?: () => Promise<void> | void;
+};
+
+type PermissionCopyResult = {
+	key: string;
+	status: "applied" | "failed";
+	message: string;
+};
+
+function formatPermissionLabels(permissions: PermissionName[]): string {
+	return permissions
+		.map((permission) => PERMISSION_LABELS.get(permission) ?? permission)
+		.join(", ");
+}
+
+function countOperations(changes: readonly PermissionMatrixChange[]): number {
+	return changes.reduce(
+		(total, change) => total + change.added.length + change.removed.length,
+		0,
+	);
+}
+
+export function CollectionPermissionCopyForm({
+	collectionId,
+	collectionName,
+	onApplied,
+}: CollectionPermissionCopyFormProps) {
+	const queryClient = useQueryClient();
+	const confirm = useConfirm();
+	const [sourceCollectionId, setSourceCollectionId] = useState("");
+	const [includeDescendants, setIncludeDescendants] = useState(false);
+	const [keepUnmatched, setKeepUnmatched] = useState(true);
+	const [batchStart, setBatchStart] = useState(0);
+	const [results, setResults] = useState<PermissionCopyResult[]>([]);
+	const [progress, setProgress] = useState({ completed: 0, total: 0 });
+
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+	});
+	const groupsQuery = useQuery({
+		queryKey: ["groups", "permission-copy"],
+		queryFn: fetchAllGroups,
+	});
+	const currentUserGroupsQuery = useQuery({
+		queryKey: ["permissions", "current-user-groups"],
+		queryFn: fetchCurrentUserGroups,
+	});
+	const canRevokeUnmatched = currentUserGroupsQuery.isSuccess;
+	const revokeUnmatched = !keepUnmatched && canRevokeUnmatched;
+	const currentUserGroupIds = useMemo(
+		() => new Set((currentUserGroupsQuery.data ?? []).map((group) => group.id)),
+		[currentUserGroupsQuery.data],
+	);
+	const hierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const sourceId = sourceCollectionId ? Number(sourceCollectionId) : null;
+	const targetIds = useMemo(() => {
+		const ids = [collectionId];
+		if (includeDescendants) {
+			ids.push(
+				...getDescendantCollectionIds(
+					collectionId,
+					hierarchy.childrenByParentId,
+				),
+			);
+		}
+		return ids.filter((id) => id !== sourceId);
+	}, [collectionId, hierarchy, includeDescendants, sourceId]);
+	const firstTargetIndex = batchStart < targetIds.length ? batchStart : 0;
+	const checkedTargetIds = targetIds.slice(
+		firstTargetIndex,
+		firstTargetIndex + PERMISSION_COPY_COLLECTION_LIMIT,
+	);
+	const nextTargetIndex = firstTargetIndex + checkedTargetIds.length;
+	const groupNames = new Map(
+		(groupsQuery.data ?? []).map((group) => [
+			group.id,
+			formatScopedGroupName(group),
+		]),
+	);
+	const getCollectionName = (id: number) =>
+		id === collectionId
+			? collectionName
+			: (hierarchy.byId.get(id)?.name ?? `Collection #${id}`);
+
+	const permissionQueries = useQueries({
+		queries: (sourceId === null ? [] : [sourceId, ...checkedTargetIds]).map(
+			(id) => ({
+				queryKey: ["collection", id, "permissions"],
+				queryFn: () => fetchCollectionPermissions(id),
+			}),
+		),
+	});
+	const [sourceQuery, ...targetQueries] = permissionQueries;
+	const isLoadingPermissions =
+		currentUserGroupsQuery.isLoading ||
+		permissionQueries.some((query) => query.isLoading);
+	const permissionsError =
+		permissionQueries.find((query) => query.isError)?.error ?? null;
+
+	const toGrantMap = (permissions: Permission[] | undefined) =>
+		new Map(
+			(permissions ?? []).map((permission) => [
+				permission.group_id,
+				getEnabledPermissions(permission),
+			]),
+		);
+	const sourceGrants = toGrantMap(sourceQuery?.data);
+	const changes =
+		sourceQuery?.data && !isLoadingPermissions
+			? planCollectionPermissionCopy(
+					sourceGrants,
+					new Map(
+						checkedTargetIds.map((id, index) => [
+							id,
+							toGrantMap(targetQueries[index]?.data),
+						]),
+					),
+					!revokeUnmatched,
+					currentUserGroupIds,
+				)
+			: [];
+	const keepsOwnDelegation =
+		revokeUnmatched &&
+		changes.some(
+			(change) =>
+				currentUserGroupIds.has(change.groupId) &&
+				change.after.includes(PermissionValues.DelegateCollection) &&
+				!sourceGrants
+					.get(change.groupId)
+					?.includes(PermissionValues.DelegateCollection),
+		);
+	const operationCount = countOperations(changes);
+	const changedCollectionCount = new Set(
+		changes.map((change) => change.collectionId),
+	).size;
+	const failedResults = new Map(
+		results
+			.filter((result) => result.status === "failed")
+			.map((result) => [result.key, result.message]),
+	);
+	const applySummary = {
+		applied: results.filter((result) => result.status === "applied").length,
+		failed: failedResults.size,
+	};
+
+	const applyMutation = useMutation({
+		mutationFn: async (pending: PermissionMatrixChange[]) => {
+			const failures = new Map<string, string>();
+			const runPhase = async (
+				operation: typeof grantCollectionGroupPermission,
+				permissionsOf: (change: PermissionMatrixChange) => PermissionName[],
+			) => {
+				for (const change of pending) {
+					const key = toPermissionMatrixKey(change);
+					for (const permission of permissionsOf(change)) {
+						if (!failures.has(key)) {
+							try {
+								await operation(
+									change.collectionId,
+									change.groupId,
+									permission,
+								);
+							} catch (error) {
+								failures.set(
+									key,
+									error instanceof Error
+										? error.message
+										: "Failed to update collection permissions.",
+								);
+							}
+						}
+						setProgress((current) => ({
+							...current,
+							completed: current.completed + 1,
+						}));
+					}
+				}
+			};
+			await runPhase(grantCollectionGroupPermission, (change) => change.added);
+			await runPhase(
+				revokeCollectionGroupPermission,
+				(change) => change.removed,
+			);
+
+			const applied = pending.map((change) => {
+				const key = toPermissionMatrixKey(change);
+				const message = failures.get(key);
+				return {
+					key,
+					collectionId: change.collectionId,
+					status: message === undefined ? "applied" : "failed",
+					message: message ?? "",
+				} satisfies PermissionCopyResult & { collectionId: number };
+			});
+			const appliedKeys = new Set(applied.map((result) => result.key));
+			setResults((current) => [
+				...current.filter((entry) => !appliedKeys.has(entry.key)),
+				...applied,
+			]);
+			return applied;
+		},
+		onSettled: async (applied) => {
+			for (const id of new Set(
+				(applied ?? []).map((result) => result.collectionId),
+			)) {
+				await queryClient.invalidateQueries({
+					queryKey: ["collection", id],
+				});
+			}
+			if (applied?.some((result) => result.status === "applied")) {
+				await onApplied?.();
+			}
+		},
+	});
+
+	function startApply(pending: PermissionMatrixChange[]) {
+		if (pending.length === 0) {
+			return;
+		}
+		setProgress({ completed: 0, total: countOperations(pending) });
+		applyMutation.mutate(pending);
+	}
+
+	async function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		if (sourceId === null || changes.length === 0) {
+			return;
+		}
+		const confirmed = await confirm({
+			title: `Copy access from ${getCollectionName(sourceId)}?`,
+			description: `${operationCount} permission change${
+				operationCount === 1 ? "" : "s"
+			} will be made across ${changedCollectionCount} collection${
+				changedCollectionCount === 1 ? "" : "s"
+			}. Every grant is made before any permission is revoked.${
+				revokeUnmatched
+					? " Group permissions the source does not grant are revoked."
+					: ""
+			}${
+				keepsOwnDelegation
+					? " Delegate collection is kept for your own groups so you can still manage these permissions."
+					: ""
+			}`,
+			confirmLabel: "Copy access",
+		});
+		if (!confirmed) {
+			return;
+		}
+		setResults([]);
+		startApply(changes);
+	}
+
+	function resetBatches() {
+		setBatchStart(0);
+		setResults([]);
+		setProgress({ completed: 0, total: 0 });
+	}
+
+	return (
+		<form className="stack permission-copy-form" onSubmit={onSubmit}>
+			<label className="control-field">
+				<span>Copy access from</span>
+				<select
+					value={sourceCollectionId}
+					onChange={(event) => {
+						setSourceCollectionId(event.target.value);
+						resetBatches();
+					}}
+					disabled={applyMutation.isPending || collectionsQuery.isLoading}
+					required
+				>
+					<option value="">
+						{collectionsQuery.isLoading
+							? "Loading collections..."
+							: collectionsQuery.isError
+								? "Failed to load collections"
+								: "Select source collection"}
+					</option>
+					{hierarchy.flatNodes
+						.filter((node) => node.collection.id !== collectionId)
+						.map((node) => (
+							<option key={node.collection.id} value={node.collection.id}>
+								{formatCollectionOption(node.collection, hierarchy.byId)}
+							</option>
+						))}
+				</select>
+			</label>
+
+			<label className="checkbox-row">
+				<input
+					type="checkbox"
+					checked={includeDescendants}
+					onChange={(event) => {
+						setIncludeDescendants(event.target.checked);
+						resetBatches();
+					}}
+					disabled={applyMutation.isPending}
+				/>
+				<span>Also copy to descendant collections</span>
+			</label>
+			<label className="checkbox-row">
+				<input
+					type="checkbox"
+					checked={!revokeUnmatched}
+					onChange={(event) => setKeepUnmatched(event.target.checked)}
+					disabled={applyMutation.isPending || !canRevokeUnmatched}
+				/>
+				<span>Keep permissions the source does not grant</span>
+			</label>
+			{currentUserGroupsQuery.isError ? (
+				<div className="error-banner">
+					Failed to load your groups, so permissions cannot be revoked without
+					risking your own access.{" "}
+					{currentUserGroupsQuery.error instanceof Error
+						? currentUserGroupsQuery.error.message
+						: "Unknown error"}
+				</div>
+			) : null}
+
+			{targetIds.length > PERMISSION_COPY_COLLECTION_LIMIT ? (
+				<div className="stack">
+					<span className="field-note field-note--warning">
+						Collections {firstTargetIndex + 1}–{nextTargetIndex} of{" "}
+						{targetIds.length} are checked in this batch. Apply it, then
+						continue with the next batch.
+					</span>
+					{nextTargetIndex < targetIds.length ? (
+						<div className="form-actions">
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => {
+									setBatchStart(nextTargetIndex);
+									setResults([]);
+									setProgress({ completed: 0, total: 0 });
+								}}
+								disabled={
+									applyMutation.isPending ||
+									isLoadingPermissions ||
+									(changes.length > 0 && results.length === 0)
+								}
+							>
+								Continue with collections {nextTargetIndex + 1}–
+								{Math.min(
+									nextTargetIndex + PERMISSION_COPY_COLLECTION_LIMIT,
+									targetIds.length,
+								)}
+							</button>
+						</div>
+					) : null}
+				</div>
+			) : null}
+			{permissionsError ? (
+				<div className="error-banner">
+					Failed to load collection permissions.{" "}
+					{permissionsError instanceof Error
+						? permissionsError.message
+						: "Unknown error"}
+				</div>
+			) : null}
+
+			{sourceId === null ? (
+				<p className="muted">
+					Select a collection to preview its group grants on {collectionName}
+					{includeDescendants ? " and its descendants" : ""}.
+				</p>
+			) : isLoadingPermissions ? (
+				<p className="muted">Loading current permissions...</p>
+			) : changes.length === 0 ? (
+				<p className="muted">
+					{checkedTargetIds.length === 1
+						? `${collectionName} already has`
+						: "All target collections already have"}{" "}
+					the same group access as {getCollectionName(sourceId)}.
+				</p>
+			) : (
+				<div className="table-wrap">
+					<table>
+						<thead>
+							<tr>
+								<th>Collection</th>
+								<th>Group</th>
+								<th>Added</th>
+								<th>Removed</th>
+								<th>Result</th>
+							</tr>
+						</thead>
+						<tbody>
+							{changes.map((change) => {
+								const key = toPermissionMatrixKey(change);
+								return (
+									<tr key={key}>
+										<td>
+											<Link href={`/collections/${change.collectionId}`}>
+												{getCollectionName(change.collectionId)}
+											</Link>
+										</td>
+										<td>
+											{groupNames.get(change.groupId) ??
+												`Group #${change.groupId}`}
+										</td>
+										<td>{formatPermissionLabels(change.added) || "-"}</td>
+										<td>{formatPermissionLabels(change.removed) || "-"}</td>
+										<td>
+											{failedResults.has(key) ? (
+												<span className="field-note field-note--warning">
+													{failedResults.get(key)}
+												</span>
+											) : change.after.length === 0 ? (
+												"All permissions revoked"
+											) : (
+												summarizePermissions(new Set(change.after))
+											)}
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			{progress.total > 0 ? (
+				<div className="stack">
+					<div
+						className="export-progress"
+						role="progressbar"
+						aria-label="Permission copy progress"
+						aria-valuemin={0}
+						aria-valuemax={progress.total}
+						aria-valuenow={progress.completed}
+					>
+						<span
+							style={{
+								width: `${(progress.completed / progress.total) * 100}%`,
+							}}
+						/>
+					</div>
+					<span className="muted" aria-live="polite">
+						{applyMutation.isPending
+							? `Applying ${progress.completed} of ${progress.total} permission changes...`
+							: `${applySummary.applied} group grant${
+									applySummary.applied === 1 ? "" : "s"
+								} updated, ${applySummary.failed} failed.`}
+					</span>
+				</div>
+			) : null}
+
+			<div className="form-actions">
+				<button
+					type="submit"
+					disabled={applyMutation.isPending || changes.length === 0}
+				>
+					{applyMutation.isPending
+						? "Copying..."
+						: `Apply ${operationCount} change${operationCount === 1 ? "" : "s"}`}
+				</button>
+				{applySummary.failed && !applyMutation.isPending ? (
+					<button
+						type="button"
+						className="ghost"
+						onClick={() =>
+							startApply(
+								changes.filter((change) =>
+									failedResults.has(toPermissionMatrixKey(change)),
+								),
+							)
+						}
+					>
+						Retry failed ({applySummary.failed})
+					</button>
+				) : null}
+			</div>
+		</form>
+	);
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type KeyboardEvent, useMemo, useRef, useState } from "react";
+
+import { fetchAllClasses } from "@/lib/api/classes";
+import {
+	fetchAllCollections,
+	fetchCanMoveCollection,
+	moveCollectionToParent,
+} from "@/lib/api/collections";
+import {
+	buildCollectionHierarchy,
+	type CollectionHierarchyNode,
+	countCollectionTree,
+	getCollectionReparentError,
+	getVisibleCollectionNodes,
+	isRootCollection,
+} from "@/lib/collection-hierarchy";
+import { useToast } from "@/lib/toast-context";
+import { useCurrentUserId } from "@/lib/use-current-user-id";
+
+type CollectionTreeProps = {
+	canAdminister: boolean;
+	currentUsername: string | null;
+};
+
+type CollectionMove = {
+	collectionId: number;
+	parentId: number;
+	isUndo?: boolean;
+};
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`) {
+	return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+export function CollectionTree({
+	canAdminister,
+	currentUsername,
+}: CollectionTreeProps) {
+	const router = useRouter();
+	const queryClient = useQueryClient();
+	const { showToast } = useToast();
+	const currentUserId = useCurrentUserId(currentUsername);
+	const rowRefs = useRef(new Map<number, HTMLDivElement>());
+	const [expandedIds, setExpandedIds] = useState<Set<number> | null>(null);
+	const [focusedId, setFocusedId] = useState<number | null>(null);
+	const [draggedId, setDraggedId] = useState<number | null>(null);
+	const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+	const [grabbedId, setGrabbedId] = useState<number | null>(null);
+	const [announcement, setAnnouncement] = useState("");
+	const [moveError, setMoveError] = useState<string | null>(null);
+
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+	});
+	const classesQuery = useQuery({
+		queryKey: ["classes", "all"],
+		queryFn: fetchAllClasses,
+	});
+	const hierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const counts = useMemo(
+		() =>
+			countCollectionTree(
+				hierarchy,
+				(classesQuery.data ?? []).map((classItem) => classItem.collection.id),
+			),
+		[classesQuery.data, hierarchy],
+	);
+	const expanded = useMemo(
+		() =>
+			expandedIds ?? new Set(hierarchy.nodes.map((node) => node.collection.id)),
+		[expandedIds, hierarchy.nodes],
+	);
+	const visibleNodes = useMemo(
+		() => getVisibleCollectionNodes(hierarchy.nodes, expanded),
+		[expanded, hierarchy.nodes],
+	);
+	const activeId = focusedId ?? visibleNodes[0]?.collection.id ?? null;
+
+	const moveMutation = useMutation({
+		mutationFn: async ({ collectionId, parentId }: CollectionMove) => {
+			const collection = hierarchy.byId.get(collectionId);
+			const reparentError = getCollectionReparentError(
+				collectionId,
+				parentId,
+				hierarchy,
+			);
+			if (!collection || reparentError) {
+				throw new Error(
+					reparentError ?? "The collection is no longer available.",
+				);
+			}
+			if (!canAdminister) {
+				if (currentUserId === null) {
+					throw new Error("Could not resolve your user to check access.");
+				}
+				const allowed = await fetchCanMoveCollection(
+					collection,
+					parentId,
+					currentUserId,
+				);
+				if (!allowed) {
+					throw new Error(
+						`Moving ${collection.name} requires update access on it and delegate access on its current and new parents.`,
+					);
+				}
+			}
+
+			await moveCollectionToParent(collectionId, parentId);
+			return {
+				name: collection.name,
+				previousParentId: collection.parent_collection_id ?? null,
+			};
+		},
+		onMutate: () => {
+			setMoveError(null);
+		},
+		onSuccess: async (result, variables) => {
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: ["collections"] }),
+				queryClient.invalidateQueries({
+					queryKey: ["collection", variables.collectionId],
+				}),
+			]);
+			setExpandedIds((current) => {
+				const next = new Set(current ?? expanded);
+				next.add(variables.parentId);
+				return next;
+			});
+			const parentName =
+				hierarchy.byId.get(variables.parentId)?.name ??
+				`collection #${variables.parentId}`;
+			const message = variables.isUndo
+				? `Moved ${result.name} back under ${parentName}.`
+				: `Moved ${result.name} under ${parentName}.`;
+			setAnnouncement(message);
+			const previousParentId = result.previousParentId;
+			showToast(
+				message,
+				"success",
+				variables.isUndo || previousParentId === null
+					? undefined
+					: {
+							label: "Undo",
+							onAction: () =>
+								moveMutation.mutate({
+									collectionId: variables.collectionId,
+									parentId: previousParentId,
+									isUndo: true,
+								}),
+						},
+			);
+		},
+		onError: (error) => {
+			const message =
+				error instanceof Error ? error.message : "Failed to move collection.";
+			setMoveError(message);
+			setAnnouncement(message);
+		},
+	});
+
+	function canDrag(node: CollectionHierarchyNode) {
+		return !moveMutation.isPending && !isRootCollection(node.collection);
+	}
+
+	function requestMove(collectionId: number, parentId: number) {
+		const reparentError = getCollectionReparentError(
+			collectionId,
+			parentId,
+			hierarchy,
+		);
+		if (reparentError) {
+			setMoveError(reparentError);
+			setAnnouncement(reparentError);
+			return;
+		}
+		moveMutation.mutate({ collectionId, parentId });
+	}
+
+	function focusRow(collectionId: number | undefined) {
+		if (collectionId === undefined) return;
+		setFocusedId(collectionId);
+		rowRefs.current.get(collectionId)?.focus();
+	}
+
+	function setExpanded(collectionId: number, isExpanded: boolean) {
+		setExpandedIds(() => {
+			const next = new Set(expanded);
+			if (isExpanded) {
+				next.add(collectionId);
+			} else {
+				next.delete(collectionId);
+			}
+			return next;
+		});
+	}
+
+	function onRowKeyDown(
+		event: KeyboardEvent<HTMLDivElement>,
+		node: CollectionHierarchyNode,
+		index: number,
+	) {
+		const collectionId = node.collection.id;
+		const isExpanded = expanded.has(collectionId);
+		switch (event.key) {
+			case "ArrowDown":
+				focusRow(visibleNodes[index + 1]?.collection.id);
+				break;
+			case "ArrowUp":
+				focusRow(visibleNodes[index - 1]?.collection.id);
+				break;
+			case "Home":
+				focusRow(visibleNodes[0]?.collection.id);
+				break;
+			case "End":
+				focusRow(visibleNodes.at(-1)?.collection.id);
+				break;
+			case "ArrowRight":
+				if (node.children.length === 0) return;
+				if (isExpanded) {
+					focusRow(node.children[0]?.collection.id);
+				} else {
+					setExpanded(collectionId, true);
+				}
+				break;
+			case "ArrowLeft":
+				if (isExpanded && node.children.length > 0) {
+					setExpanded(collectionId, false);
+				} else {
+					focusRow(node.collection.parent_collection_id ?? undefined);
+				}
+				break;
+			case "Enter":
+				if (grabbedId !== null) {
+					setGrabbedId(null);
+					requestMove(grabbedId, collectionId);
+				} else {
+					router.push(`/collections/${collectionId}`);
+				}
+				break;
+			case " ":
+				if (grabbedId !== null) {
+					setGrabbedId(null);
+					requestMove(grabbedId, collectionId);
+				} else if (canDrag(node)) {
+					setGrabbedId(collectionId);
+					setMoveError(null);
+					setAnnouncement(
+						`Picked up ${node.collection.name}. Move to the new parent and press Space or Enter to drop it, or Escape to cancel.`,
+					);
+				}
+				break;
+			case "Escape":
+				if (grabbedId === null) return;
+				setGrabbedId(null);
+				setAnnouncement("Move cancelled.");
+				break;
+			default:
+				return;
+		}
+		event.preventDefault();
+	}
+
+	if (collectionsQuery.isLoading) {
+		return <div className="muted">Loading collection tree...</div>;
+	}
+	if (collectionsQuery.isError) {
+		return (
+			<div className="error-banner">
+				{collectionsQuery.error instanceof Error
+					? collectionsQuery.error.message
+					: "Failed to load collections."}
+			</div>
+		);
+	}
+
+	const grabbedCollection =
+		grabbedId === null ? null : hierarchy.byId.get(grabbedId);
+
+	return (
+		<div className="stack collection-tree">
+			<div className="collection-tree-toolbar">
+				<p className="muted">
+					Drag a collection onto another to move it there. With the keyboard,
+					press Space to pick one up and Space or Enter on the new parent.
+				</p>
+				<div className="action-row">
+					<button
+						type="button"
+						className="ghost"
+						onClick={() =>
+							setExpandedIds(
+								new Set(
+									hierarchy.flatNodes
+										.filter((node) => node.children.length > 0)
+										.map((node) => node.collection.id),
+								),
+							)
+						}
+					>
+						Expand all
+					</button>
+					<button
+						type="button"
+						className="ghost"
+						onClick={() => setExpandedIds(new Set())}
+					>
+						Collapse all
+					</button>
+				</div>
+			</div>
+			{moveError ? <div className="error-banner">{moveError}</div> : null}
+			{grabbedCollection ? (
+				<div className="field-note">
+					Moving {grabbedCollection.name}. Press Escape to cancel.
+				</div>
+			) : null}
+			<div className="sr-only" aria-live="polite">
+				{announcement}
+			</div>
+			<div
+				className="collection-tree-list"
+				role="tree"
+				aria-label="Collections"
+			>
+				{visibleNodes.map((node, index) => {
+					const collection = node.collection;
+					const nodeCounts = counts.get(collection.id);
+					const hasChildren = node.children.length > 0;
+					const isExpanded = expanded.has(collection.id);
+					const movingId = draggedId ?? grabbedId;
+					const isDropTarget =
+						movingId !== null &&
+						(dropTargetId === collection.id ||
+							(grabbedId !== null && activeId === collection.id)) &&
+						getCollectionReparentError(movingId, collection.id, hierarchy) ===
+							null;
+					const className = [
+						"collection-tree-row",
+						activeId === collection.id ? "collection-tree-row--focused" : "",
+						movingId === collection.id ? "collection-tree-row--moving" : "",
+						isDropTarget ? "collection-tree-row--drop-target" : "",
+					]
+						.filter(Boolean)
+						.join(" ");
+
+					return (
+						<div
+							key={collection.id}
+							ref={(element) => {
+								if (element) {
+									rowRefs.current.set(collection.id, element);
+								} else {
+									rowRefs.current.delete(collection.id);
+								}
+							}}
+							className={className}
+							role="treeitem"
+							aria-level={node.depth + 1}
+							aria-expanded={hasChildren ? isExpanded : undefined}
+							aria-selected={activeId === collection.id}
+							aria-grabbed={grabbedId === collection.id ? true : undefined}
+							tabIndex={activeId === collection.id ? 0 : -1}
+							draggable={canDrag(node)}
+							style={{ paddingLeft: `${node.depth * 1.25 + 0.5}rem` }}
+							onFocus={() => setFocusedId(collection.id)}
+							onKeyDown={(event) => onRowKeyDown(event, node, index)}
+							onDragStart={(event) => {
+								event.dataTransfer.effectAllowed = "move";
+								event.dataTransfer.setData("text/plain", String(collection.id));
+								setDraggedId(collection.id);
+								setMoveError(null);
+							}}
+							onDragEnd={() => {
+								setDraggedId(null);
+								setDropTargetId(null);
+							}}
+							onDragOver={(event) => {
+								if (
+									draggedId === null ||
+									getCollectionReparentError(
+										draggedId,
+										collection.id,
+										hierarchy,
+									) !== null
+								) {
+									return;
+								}
+								event.preventDefault();
+								event.dataTransfer.dropEffect = "move";
+								setDropTargetId(collection.id);
+							}}
+							onDragLeave={() =>
+								setDropTargetId((current) =>
+									current === collection.id ? null : current,
+								)
+							}
+							onDrop={(event) => {
+								event.preventDefault();
+								const sourceId = draggedId;
+								setDraggedId(null);
+								setDropTargetId(null);
+								if (sourceId !== null) {
+									requestMove(sourceId, collection.id);
+								}
+							}}
+						>
+							{hasChildren ? (
+								<button
+									type="button"
+									className="collection-tree-toggle"
+									tabIndex={-1}
+									aria-label={`${isExpanded ? "Collapse" : "Expand"} ${collection.name}`}
+									onClick={() => setExpanded(collection.id, !isExpanded)}
+								>
+									{isExpanded ? "▾" : "▸"}
+								</button>
+							) : (
+								<span className="collection-tree-toggle" aria-hidden="true" />
+							)}
+							<Link href={`/collections/${collection.id}`} tabIndex={-1}>
+								{collection.name}
+							</Link>
+							{nodeCounts ? (
+								<span className="muted collection-tree-counts">
+									{plural(nodeCounts.descendants, "nested collection")} ·{" "}
+									{plural(nodeCounts.classes, "class", "classes")}
+									{nodeCounts.nestedClasses > nodeCounts.classes
+										? ` (${nodeCounts.nestedClasses} including nested)`
+										: ""}
+								</span>
+							) : null}
+						</div>
+					);
+				})}
+			</div>
+			{classesQuery.isError ? (
+				<span className="field-note field-note--warning">
+					Class counts are unavailable.{" "}
+					{classesQuery.error instanceof Error
+						? classesQuery.error.message
+						: ""}
+				</span>
+			) : null}
+			{moveMutation.isPending ? (
+				<span className="muted" aria-live="polite">
+					Moving collection...
+				</span>
+			) : null}
+		</div>
+	);
+}
@@ -1,14 +1,30 @@
 "use client";
 
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+	useMutation,
+	useQueries,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
 import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
-import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import {
+	type ChangeEvent,
+	FormEvent,
+	useCallback,
+	useEffect,
+	useMemo,
+	useState,
+} from "react";
+import { CollectionTree } from "@/components/collection-tree";
 import { CreateModal } from "@/components/create-modal";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { EmptyState } from "@/components/empty-state";
+import { PermissionPresetApplyForm } from "@/components/permission-preset-apply-form";
 import { ResourceIndexHeading } from "@/components/resource-index-heading";
 import { TableExportMenu } from "@/components/table-export-menu";
 import { TablePagination } from "@/components/table-pagination";
+import { fetchCollectionGroupsWithPermission } from "@/lib/api/collections";
 import { getApiErrorMessage } from "@/lib/api/errors";
 import {
 	deleteApiV1CollectionsByCollectionId,
@@ -20,6 +36,8 @@ import type {
 	Collection,
 	NewCollectionWithAssignee,
 } from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+import { fetchCurrentUserGroups } from "@/lib/api/groups";
 import {
 	buildCollectionHierarchy,
 	formatCollectionOption,
@@ -27,6 +45,7 @@ import {
 	getCollectionPath,
 	isRootCollection,
 } from "@/lib/collection-hierarchy";
+import { canManageCollectionPermissions } from "@/lib/collection-permission-access";
 import { useConfirm } from "@/lib/confirm-context";
 import {
 	DESELECT_ALL_EVENT,
@@ -119,7 +138,15 @@ async function fetchGroups(): Promise<ConsoleGroup[]> {
 	return response.data;
 }
 
-export function CollectionsTable() {
+type CollectionsTableProps = {
+	canAdminister: boolean;
+	currentUsername: string | null;
+};
+
+export function CollectionsTable({
+	canAdminister,
+	currentUsername,
+}: CollectionsTableProps) {
 	const router = useRouter();
 	const pathname = usePathname();
 	const searchParams = useSearchParams();
@@ -137,6 +164,7 @@ export function CollectionsTable() {
 	const [tableError, setTableError] = useState<string | null>(null);
 	const [tableSuccess, setTableSuccess] = useState<string | null>(null);
 	const [isCreateModalOpen, setCreateModalOpen] = useState(false);
+	const [isPermissionPresetOpen, setPermissionPresetOpen] = useState(false);
 	const [searchInput, setSearchInput] = useState(
 		searchParams.get("search") ?? "",
 	);
@@ -163,6 +191,40 @@ export function CollectionsTable() {
 		queryKey: ["groups", "collection-form"],
 		queryFn: fetchGroups,
 	});
+	const currentUserGroupsQuery = useQuery({
+		queryKey: ["permissions", "current-user-groups", currentUsername],
+		queryFn: async () => (currentUsername ? fetchCurrentUserGroups() : []),
+		enabled: !canAdminister && selectedCollectionIds.length > 0,
+	});
+	const delegateGroupsQueries = useQueries({
+		queries: (canAdminister ? [] : selectedCollectionIds).map(
+			(collectionId) => ({
+				queryKey: [
+					"collection",
+					collectionId,
+					"has-permission",
+					PermissionValues.DelegateCollection,
+				],
+				queryFn: () =>
+					fetchCollectionGroupsWithPermission(
+						collectionId,
+						PermissionValues.DelegateCollection,
+					),
+			}),
+		),
+	});
+	const currentUserGroupIds = new Set(
+		(currentUserGroupsQuery.data ?? []).map((group) => group.id),
+	);
+	const canManagePermissions = canManageCollectionPermissions(
+		canAdminister,
+		selectedCollectionIds.length > 0 &&
+			delegateGroupsQueries.every((delegateQuery) =>
+				(delegateQuery.data ?? []).some((group) =>
+					currentUserGroupIds.has(group.id),
+				),
+			),
+	);
 	const createMutation = useMutation({
 		mutationFn: async (payload: NewCollectionWithAssignee) => {
 			const response = await postApiV1Collections(payload, {
@@ -289,6 +351,17 @@ export function CollectionsTable() {
 			}?`,
 			description:
 				"This removes the selected collections and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "collection",
+						resources: selectedCollections.map((collection) => ({
+							id: collection.id,
+							name: collection.name,
+						})),
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -342,6 +415,7 @@ export function CollectionsTable() {
 	}
 
 	const searchTerm = normalizeSearchTerm(searchParams.get("search"));
+	const isTreeView = searchParams.get("view") === "tree";
 	const filteredCollections = useMemo(
 		() =>
 			treeRows.filter((collection) => {
@@ -556,6 +630,18 @@ export function CollectionsTable() {
 		router.push(query ? `${pathname}?${query}` : pathname);
 	}
 
+	function onViewChange(event: ChangeEvent<HTMLSelectElement>) {
+		const params = new URLSearchParams(searchParams.toString());
+		if (event.target.value === "tree") {
+			params.set("view", "tree");
+		} else {
+			params.delete("view");
+		}
+
+		const query = params.toString();
+		router.replace(query ? `${pathname}?${query}` : pathname);
+	}
+
 	function clearFilter() {
 		setSearchInput("");
 		const params = new URLSearchParams(searchParams.toString());
@@ -706,6 +792,24 @@ export function CollectionsTable() {
 			>
 				{renderCreateCollectionForm()}
 			</CreateModal>
+			<CreateModal
+				open={isPermissionPresetOpen && canManagePermissions}
+				title={`Apply permission preset to ${selectedCollectionIds.length} collection${
+					selectedCollectionIds.length === 1 ? "" : "s"
+				}`}
+				onClose={() => setPermissionPresetOpen(false)}
+			>
+				<PermissionPresetApplyForm
+					key={selectedCollectionIds.join(",")}
+					collections={selectedCollectionIds.map((collectionId) => ({
+						id: collectionId,
+						name:
+							hierarchy.byId.get(collectionId)?.name ??
+							`Collection #${collectionId}`,
+					}))}
+					canAdminister={canAdminister}
+				/>
+			</CreateModal>
 
 			<div className="card resource-index">
 				<div className="table-header">
@@ -716,40 +820,66 @@ export function CollectionsTable() {
 						createLabel="New collection"
 					/>
 					<div className="table-tools collections-table-tools">
-						<TableExportMenu view={exportView} compact />
-						<form className="table-filter-form" onSubmit={onFilterSubmit}>
-							<div className="table-filter-field">
-								<input
-									aria-label="Filter loaded collections"
-									className="table-filter-input"
-									value={searchInput}
-									onChange={(event) => setSearchInput(event.target.value)}
-									placeholder="Filter loaded items"
-								/>
-								{normalizeSearchTerm(searchInput) ? (
+						<select
+							aria-label="Collections view"
+							value={isTreeView ? "tree" : "table"}
+							onChange={onViewChange}
+						>
+							<option value="table">Table</option>
+							<option value="tree">Tree</option>
+						</select>
+						{isTreeView ? null : (
+							<>
+								{selectedCollectionIds.length > 0 && canManagePermissions ? (
 									<button
 										type="button"
-										className="ghost table-filter-clear"
-										onClick={clearFilter}
-										aria-label="Clear collection filter"
+										className="ghost"
+										onClick={() => setPermissionPresetOpen(true)}
 									>
-										Clear
+										Apply permission preset
 									</button>
 								) : null}
-							</div>
-							<button
-								type="submit"
-								className="ghost icon-button"
-								aria-label="Filter collections"
-							>
-								<IconSearch />
-							</button>
-						</form>
+								<TableExportMenu view={exportView} compact />
+								<form className="table-filter-form" onSubmit={onFilterSubmit}>
+									<div className="table-filter-field">
+										<input
+											aria-label="Filter loaded collections"
+											className="table-filter-input"
+											value={searchInput}
+											onChange={(event) => setSearchInput(event.target.value)}
+											placeholder="Filter loaded items"
+										/>
+										{normalizeSearchTerm(searchInput) ? (
+											<button
+												type="button"
+												className="ghost table-filter-clear"
+												onClick={clearFilter}
+												aria-label="Clear collection filter"
+											>
+												Clear
+											</button>
+										) : null}
+									</div>
+									<button
+										type="submit"
+										className="ghost icon-button"
+										aria-label="Filter collections"
+									>
+										<IconSearch />
+									</button>
+								</form>
+							</>
+						)}
 					</div>
 				</div>
 				{tableError ? <div className="error-banner">{tableError}</div> : null}
 				{tableSuccess ? <div className="muted">{tableSuccess}</div> : null}
-				{filteredCollections.length === 0 ? (
+				{isTreeView ? (
+					<CollectionTree
+						canAdminister={canAdminister}
+						currentUsername={currentUsername}
+					/>
+				) : filteredCollections.length === 0 ? (
 					<EmptyState
 						title={
 							searchTerm
@@ -914,7 +1044,8 @@ export function CollectionsTable() {
 						</section>
 					</div>
 				)}
-				{pageData &&
+				{!isTreeView &&
+				pageData &&
 				(pageData.nextCursor ||
 					pageData.prevCursor ||
 					pagination.hasPrevPage) ? (
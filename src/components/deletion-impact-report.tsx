@@ -0,0 +1,115 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { useMemo } from "react";
+
+import { TableExportMenu } from "@/components/table-export-menu";
+import {
+	deletionImpactQueryKey,
+	fetchDeletionImpact,
+} from "@/lib/api/deletion-impact";
+import {
+	DELETION_IMPACT_RESOURCE_LIMIT,
+	type DeletionImpactSnapshotRow,
+	type DeletionImpactTarget,
+	toDeletionImpactSnapshotRows,
+} from "@/lib/deletion-impact";
+import type { TableExportView } from "@/lib/table-export";
+
+type DeletionImpactReportProps = {
+	target: DeletionImpactTarget;
+};
+
+export function DeletionImpactReport({ target }: DeletionImpactReportProps) {
+	const impactQuery = useQuery({
+		queryKey: deletionImpactQueryKey(target),
+		queryFn: () => fetchDeletionImpact(target),
+		staleTime: 0,
+	});
+	const report = impactQuery.data;
+	const snapshotView = useMemo<TableExportView<DeletionImpactSnapshotRow>>(
+		() => ({
+			id: "deletion-impact",
+			fileName: `${target.kind}-deletion-impact`,
+			sheetName: "Deletion impact",
+			columns: [
+				{ key: "section", label: "Section", getValue: (row) => row.section },
+				{ key: "id", label: "ID", getValue: (row) => row.id },
+				{ key: "name", label: "Name", getValue: (row) => row.name },
+				{ key: "detail", label: "Detail", getValue: (row) => row.detail },
+			],
+			rows: report ? toDeletionImpactSnapshotRows(report) : [],
+		}),
+		[report, target.kind],
+	);
+
+	if (impactQuery.isLoading) {
+		return (
+			<div className="muted deletion-impact" aria-live="polite">
+				Checking what else this deletion affects...
+			</div>
+		);
+	}
+	if (impactQuery.isError || !report) {
+		return (
+			<div className="field-note field-note--warning deletion-impact">
+				Could not check the deletion impact.{" "}
+				{impactQuery.error instanceof Error ? impactQuery.error.message : ""}
+			</div>
+		);
+	}
+
+	const affected = report.sections.filter((section) => section.count > 0);
+
+	return (
+		<div className="stack deletion-impact">
+			<div className="deletion-impact-header">
+				<strong>Impact</strong>
+				<TableExportMenu view={snapshotView} compact />
+			</div>
+			{report.skipped > 0 ? (
+				<span className="field-note field-note--warning">
+					Only the first {DELETION_IMPACT_RESOURCE_LIMIT} selected {target.kind}
+					{target.kind === "class" ? "es" : "s"} were checked; {report.skipped}{" "}
+					more will also be deleted.
+				</span>
+			) : null}
+			{affected.length === 0 ? (
+				<span className="muted">
+					Nothing else depends on this {target.kind}.
+				</span>
+			) : (
+				affected.map((section) => (
+					<details key={section.key} className="deletion-impact-section">
+						<summary>
+							<span>{section.label}</span>
+							<strong>{section.count}</strong>
+						</summary>
+						<ul>
+							{section.items.map((item) => (
+								<li key={item.id}>
+									{item.href ? (
+										<Link href={item.href} target="_blank" rel="noreferrer">
+											{item.name}
+										</Link>
+									) : (
+										<span>{item.name}</span>
+									)}
+									{item.detail ? (
+										<span className="muted">{item.detail}</span>
+									) : null}
+								</li>
+							))}
+							{section.count > section.items.length ? (
+								<li className="muted">
+									and {section.count - section.items.length} more
+								</li>
+							) : null}
+						</ul>
+					</details>
+				))
+			)}
+		</div>
+	);
+}
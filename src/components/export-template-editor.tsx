@@ -10,6 +10,7 @@ import {
 	GuidedFlowPanel,
 	GuidedFlowTabs,
 } from "@/components/guided-flow";
+import { HistoryVersionsPanel } from "@/components/history-versions-panel";
 import { IncludeRows } from "@/components/include-rows";
 import { ReportQueryBuilder } from "@/components/report-query-builder";
 import { TemplateCodeEditor } from "@/components/template-code-editor";
@@ -27,6 +28,7 @@ import {
 	fetchPersonalComputedFields,
 	fetchSharedComputedFields,
 } from "@/lib/api/computed-fields";
+import type { HistoryRecord } from "@/lib/api/events";
 import {
 	fetchExportClasses,
 	fetchExportCollections,
@@ -405,6 +407,9 @@ export function ExportTemplateEditor({
 		id: number;
 		text: string;
 	} | null>(null);
+	const [restoreTarget, setRestoreTarget] = useState<HistoryRecord | null>(
+		null,
+	);
 	const insertRequestIdRef = useRef(1);
 	const initialSnapshotRef = useRef(JSON.stringify(editorState));
 	const loadedTemplateIdRef = useRef<number | null>(null);
@@ -812,6 +817,28 @@ export function ExportTemplateEditor({
 		},
 	});
 
+	async function onHistoryRestored() {
+		if (effectiveTemplateId == null) return;
+		const template = await getReportTemplate(effectiveTemplateId);
+		const nextState = reportTemplateToExportTemplateDraft(
+			template,
+			createBuilderId,
+		);
+		initialSnapshotRef.current = JSON.stringify(nextState);
+		setEditorState(nextState);
+		setFieldErrors({});
+		setSaveFeedback(`Restored ${formatTimestamp(template.updated_at)}`);
+		await Promise.all([
+			queryClient.invalidateQueries({ queryKey: ["export-templates"] }),
+			queryClient.invalidateQueries({
+				queryKey: ["export-template", effectiveTemplateId],
+			}),
+			queryClient.invalidateQueries({
+				queryKey: ["export-template-history", effectiveTemplateId],
+			}),
+		]);
+	}
+
 	function updateDraft(
 		patch: Partial<ExportTemplateDraft>,
 		clearFields: ExportTemplateDraftField[] = [],
@@ -2191,6 +2218,26 @@ export function ExportTemplateEditor({
 							</div>
 						) : null}
 					</article>
+					{effectiveTemplateId != null && historyQuery.data?.length ? (
+						<article className="card stack panel-card">
+							{isDirty ? (
+								<span className="field-note field-note--warning">
+									Restoring a version replaces your unsaved edits.
+								</span>
+							) : null}
+							<HistoryVersionsPanel
+								scope={{
+									type: "export-template",
+									templateId: effectiveTemplateId,
+								}}
+								scopeKey={`export-template:${effectiveTemplateId}`}
+								versions={historyQuery.data}
+								restoreTarget={restoreTarget}
+								onRestoreTargetChange={setRestoreTarget}
+								onRestored={onHistoryRestored}
+							/>
+						</article>
+					) : null}
 				</GuidedFlowPanel>
 			) : null}
 		</section>
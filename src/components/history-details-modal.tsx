@@ -13,10 +13,14 @@ import {
 	formatEventInitiator,
 	getProvenanceTaskId,
 } from "@/lib/event-provenance";
+import { compareHistoryVersions } from "@/lib/history-versions";
+import { formatJsonDifference } from "@/lib/json-diff";
 
 type HistoryDetailsModalProps = {
 	record: HistoryRecord | null;
+	previousRecord?: HistoryRecord | null;
 	onClose: () => void;
+	onRestore?: (record: HistoryRecord) => void;
 	navigation?: ModalRecordNavigation;
 };
 
@@ -60,10 +64,16 @@ function getStoredState(record: HistoryRecord): unknown {
 
 export function HistoryDetailsModal({
 	record,
+	previousRecord,
 	onClose,
+	onRestore,
 	navigation,
 }: HistoryDetailsModalProps) {
 	const taskId = record ? getProvenanceTaskId(record) : null;
+	const difference =
+		record && previousRecord
+			? compareHistoryVersions(previousRecord, record)
+			: null;
 
 	return (
 		<CreateModal
@@ -119,6 +129,34 @@ export function HistoryDetailsModal({
 						</div>
 					</dl>
 
+					{previousRecord ? (
+						<section className="stack event-diff-section">
+							<div className="event-diff-summary">
+								<div>
+									<h4>Changes from version #{previousRecord.history_id}</h4>
+									<p className="muted">
+										Only changed branches of the stored state are shown.
+									</p>
+								</div>
+								{difference ? (
+									<span className="status-pill">
+										{difference.changeCount}{" "}
+										{difference.changeCount === 1 ? "change" : "changes"}
+									</span>
+								) : null}
+							</div>
+							{difference ? (
+								<div className="event-diff-json">
+									<pre>{formatJsonDifference(difference.value)}</pre>
+								</div>
+							) : (
+								<div className="empty-state">
+									The stored state did not change.
+								</div>
+							)}
+						</section>
+					) : null}
+
 					<section className="stack event-detail-json">
 						<div>
 							<h4>Stored state</h4>
@@ -128,6 +166,14 @@ export function HistoryDetailsModal({
 						</div>
 						<JsonViewer value={getStoredState(record)} />
 					</section>
+
+					{onRestore ? (
+						<div className="form-actions">
+							<button type="button" onClick={() => onRestore(record)}>
+								Restore this version...
+							</button>
+						</div>
+					) : null}
 				</div>
 			) : null}
 		</CreateModal>
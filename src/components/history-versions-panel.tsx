@@ -0,0 +1,320 @@
+"use client";
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+
+import type { HistoryRecord, ResourceEventScope } from "@/lib/api/events";
+import {
+	fetchHistoryRestoreCurrent,
+	HistoryRestoreConflictError,
+	restoreHistoryVersion,
+} from "@/lib/api/history-restore";
+import {
+	buildHistoryRestorePlan,
+	compareHistoryVersions,
+	orderHistoryVersions,
+	pickHistoryRestoreState,
+} from "@/lib/history-versions";
+import { buildJsonDifference, formatJsonDifference } from "@/lib/json-diff";
+import { useToast } from "@/lib/toast-context";
+
+type HistoryVersionsPanelProps = {
+	scope: ResourceEventScope;
+	scopeKey: string;
+	versions: HistoryRecord[];
+	restoreTarget: HistoryRecord | null;
+	onRestoreTargetChange: (record: HistoryRecord | null) => void;
+	onRestored: () => Promise<void> | void;
+};
+
+function formatTimestamp(value: string | null | undefined): string {
+	if (!value) {
+		return "n/a";
+	}
+
+	try {
+		return new Intl.DateTimeFormat(undefined, {
+			dateStyle: "medium",
+			timeStyle: "short",
+		}).format(new Date(value));
+	} catch {
+		return value;
+	}
+}
+
+function formatVersionOption(record: HistoryRecord): string {
+	return `#${record.history_id} · ${record.op} · ${formatTimestamp(record.valid_from)}`;
+}
+
+function formatChangeCount(count: number): string {
+	return `${count} ${count === 1 ? "change" : "changes"}`;
+}
+
+function HistoryRestorePreview({
+	scope,
+	scopeKey,
+	target,
+	onCancel,
+	onRestored,
+}: {
+	scope: ResourceEventScope;
+	scopeKey: string;
+	target: HistoryRecord;
+	onCancel: () => void;
+	onRestored: () => Promise<void> | void;
+}) {
+	const { showToast } = useToast();
+	const currentQuery = useQuery({
+		queryKey: ["history-restore-current", scopeKey],
+		queryFn: () => fetchHistoryRestoreCurrent(scope),
+		staleTime: 0,
+	});
+	const restoreMutation = useMutation({
+		mutationFn: (revision: number) =>
+			restoreHistoryVersion(scope, target, revision),
+		onSuccess: async () => {
+			showToast(`Restored version #${target.history_id}.`, "success");
+			await onRestored();
+			onCancel();
+		},
+		onError: async (error) => {
+			if (error instanceof HistoryRestoreConflictError) {
+				await currentQuery.refetch();
+			}
+		},
+	});
+
+	const current = currentQuery.data;
+	const plan = current
+		? buildHistoryRestorePlan(scope.type, current.state, target)
+		: null;
+	const difference = current
+		? buildJsonDifference(
+				pickHistoryRestoreState(scope.type, current.state),
+				pickHistoryRestoreState(scope.type, target),
+			)
+		: null;
+
+	return (
+		<section
+			className="stack history-restore-preview"
+			aria-label={`Restore version ${target.history_id}`}
+		>
+			<div className="event-diff-summary">
+				<div>
+					<h4>Restore version #{target.history_id}</h4>
+					<p className="muted">
+						Changes that will be applied to the current state. The restore is
+						rejected if someone else edits the resource first.
+					</p>
+				</div>
+				{difference ? (
+					<span className="status-pill">
+						{formatChangeCount(difference.changeCount)}
+					</span>
+				) : null}
+			</div>
+
+			{currentQuery.isLoading ? (
+				<div className="muted">Loading current state...</div>
+			) : null}
+			{currentQuery.isError ? (
+				<div className="error-banner">
+					{currentQuery.error instanceof Error
+						? currentQuery.error.message
+						: "Failed to load the current state."}
+				</div>
+			) : null}
+			{restoreMutation.isError ? (
+				<div className="error-banner">
+					{restoreMutation.error instanceof Error
+						? restoreMutation.error.message
+						: "Failed to restore this version."}
+					{restoreMutation.error instanceof HistoryRestoreConflictError
+						? " The preview now shows the latest state."
+						: null}
+				</div>
+			) : null}
+			{current && plan ? (
+				plan.fields.length === 0 ? (
+					<div className="empty-state">
+						The current state already matches version #{target.history_id}.
+					</div>
+				) : (
+					<>
+						<p className="muted">
+							{`Restoring ${plan.fields.join(", ")} on top of revision ${current.revision}.`}
+						</p>
+						{difference ? (
+							<div className="event-diff-json">
+								<pre>{formatJsonDifference(difference.value)}</pre>
+							</div>
+						) : null}
+					</>
+				)
+			) : null}
+
+			<div className="form-actions">
+				<button
+					type="button"
+					disabled={
+						!current ||
+						!plan?.fields.length ||
+						currentQuery.isFetching ||
+						restoreMutation.isPending
+					}
+					onClick={() => {
+						if (current) {
+							restoreMutation.mutate(current.revision);
+						}
+					}}
+				>
+					{restoreMutation.isPending
+						? "Restoring..."
+						: `Restore version #${target.history_id}`}
+				</button>
+				<button
+					type="button"
+					className="ghost"
+					onClick={onCancel}
+					disabled={restoreMutation.isPending}
+				>
+					Cancel
+				</button>
+			</div>
+		</section>
+	);
+}
+
+export function HistoryVersionsPanel({
+	scope,
+	scopeKey,
+	versions,
+	restoreTarget,
+	onRestoreTargetChange,
+	onRestored,
+}: HistoryVersionsPanelProps) {
+	const [fromId, setFromId] = useState<number | null>(null);
+	const [toId, setToId] = useState<number | null>(null);
+	const newest = versions[0] ?? null;
+	const fromVersion =
+		versions.find((record) => record.history_id === fromId) ??
+		versions[1] ??
+		newest;
+	const toVersion =
+		versions.find((record) => record.history_id === toId) ?? newest;
+	const [older, newer] =
+		fromVersion && toVersion
+			? orderHistoryVersions(fromVersion, toVersion)
+			: [null, null];
+	const difference =
+		older && newer ? compareHistoryVersions(older, newer) : null;
+
+	if (versions.length === 0) {
+		return null;
+	}
+
+	return (
+		<section className="stack history-versions-panel">
+			<div className="panel-header">
+				<div>
+					<strong>Compare versions</strong>
+					<p className="muted">
+						Structural diff between two stored versions on this page, oldest
+						first.
+					</p>
+				</div>
+			</div>
+
+			<div className="form-grid history-versions-pickers">
+				<label className="control-field">
+					<span>From version</span>
+					<select
+						value={fromVersion?.history_id ?? ""}
+						onChange={(event) => setFromId(Number(event.target.value))}
+					>
+						{versions.map((record) => (
+							<option key={record.history_id} value={record.history_id}>
+								{formatVersionOption(record)}
+							</option>
+						))}
+					</select>
+				</label>
+				<label className="control-field">
+					<span>To version</span>
+					<select
+						value={toVersion?.history_id ?? ""}
+						onChange={(event) => setToId(Number(event.target.value))}
+					>
+						{versions.map((record) => (
+							<option key={record.history_id} value={record.history_id}>
+								{formatVersionOption(record)}
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+
+			{older && newer ? (
+				<section className="stack event-diff-section">
+					<div className="event-diff-summary">
+						<p className="muted">
+							Version #{older.history_id} → #{newer.history_id}
+						</p>
+						{difference ? (
+							<span className="status-pill">
+								{formatChangeCount(difference.changeCount)}
+							</span>
+						) : null}
+					</div>
+					{older.history_id === newer.history_id ? (
+						<div className="empty-state">
+							Pick two different versions to compare.
+						</div>
+					) : !difference ? (
+						<div className="empty-state">
+							These versions store the same state.
+						</div>
+					) : (
+						<div className="event-diff-json">
+							<pre>{formatJsonDifference(difference.value)}</pre>
+						</div>
+					)}
+				</section>
+			) : null}
+
+			<div className="action-row">
+				{[fromVersion, toVersion]
+					.filter(
+						(record, index, records): record is HistoryRecord =>
+							record !== null &&
+							records.findIndex(
+								(entry) => entry?.history_id === record.history_id,
+							) === index,
+					)
+					.map((record) => (
+						<button
+							key={record.history_id}
+							type="button"
+							className="secondary"
+							onClick={() => onRestoreTargetChange(record)}
+							disabled={restoreTarget?.history_id === record.history_id}
+						>
+							Restore #{record.history_id}...
+						</button>
+					))}
+			</div>
+
+			{restoreTarget ? (
+				<HistoryRestorePreview
+					key={restoreTarget.history_id}
+					scope={scope}
+					scopeKey={scopeKey}
+					target={restoreTarget}
+					onCancel={() => onRestoreTargetChange(null)}
+					onRestored={onRestored}
+				/>
+			) : null}
+		</section>
+	);
+}
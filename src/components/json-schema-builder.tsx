@@ -0,0 +1,508 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { analyzeJsonSchema, parseJsonText } from "@/lib/json-inspector";
+import {
+	buildJsonSchemaFromBuilder,
+	changeJsonSchemaBuilderFieldType,
+	createJsonSchemaBuilderProperty,
+	formatJsonSchemaEnumInput,
+	getJsonSchemaBuilderIssues,
+	JSON_SCHEMA_BUILDER_FORMATS,
+	JSON_SCHEMA_BUILDER_TYPES,
+	type JsonSchemaBuilderField,
+	moveJsonSchemaBuilderField,
+	parseJsonSchemaBuilder,
+	parseJsonSchemaEnumInput,
+	removeJsonSchemaBuilderField,
+	updateJsonSchemaBuilderField,
+} from "@/lib/json-schema-builder";
+
+type JsonSchemaBuilderProps = {
+	id: string;
+	value: string;
+	onChange: (value: string) => void;
+	onOpenRawEditor: () => void;
+	disabled?: boolean;
+};
+
+type BuilderState = {
+	root: JsonSchemaBuilderField | null;
+	error: string | null;
+};
+
+type BuilderFieldEditorProps = {
+	id: string;
+	field: JsonSchemaBuilderField;
+	isItemSchema?: boolean;
+	isFirst?: boolean;
+	isLast?: boolean;
+	disabled: boolean;
+	createId: () => number;
+	onUpdate: (
+		id: number,
+		update: (field: JsonSchemaBuilderField) => JsonSchemaBuilderField,
+	) => void;
+	onMove: (id: number, offset: -1 | 1) => void;
+	onRemove: (id: number) => void;
+};
+
+function stringifySchema(root: JsonSchemaBuilderField): string {
+	return JSON.stringify(buildJsonSchemaFromBuilder(root), null, 2);
+}
+
+function readBuilderState(value: string, createId: () => number): BuilderState {
+	const parsed = parseJsonText(value);
+	if (parsed.kind === "error") {
+		return { root: null, error: "The JSON schema text is not valid JSON." };
+	}
+	const root = parseJsonSchemaBuilder(
+		parsed.kind === "success" ? parsed.value : undefined,
+		createId,
+	);
+	return root
+		? { root, error: null }
+		: {
+				root: null,
+				error: "The schema root must be an object schema to edit visually.",
+			};
+}
+
+function EnumValuesInput({
+	id,
+	field,
+	disabled,
+	onChange,
+}: {
+	id: string;
+	field: JsonSchemaBuilderField;
+	disabled: boolean;
+	onChange: (values: unknown[]) => void;
+}) {
+	const formatted = formatJsonSchemaEnumInput(field.enumValues);
+	const [draft, setDraft] = useState(formatted);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setDraft(formatted);
+		setError(null);
+	}, [formatted]);
+
+	function commit() {
+		const parsed = parseJsonSchemaEnumInput(draft, field.type);
+		setError(parsed.error);
+		if (!parsed.error) onChange(parsed.values);
+	}
+
+	return (
+		<label className="control-field json-schema-builder-enum">
+			<span>Allowed values</span>
+			<input
+				id={id}
+				value={draft}
+				onChange={(event) => setDraft(event.target.value)}
+				onBlur={commit}
+				onKeyDown={(event) => {
+					if (event.key === "Enter") {
+						event.preventDefault();
+						commit();
+					}
+				}}
+				placeholder="Any value. Separate choices with commas."
+				disabled={disabled}
+				aria-invalid={error ? true : undefined}
+			/>
+			{error ? (
+				<small className="json-schema-form-issues">{error}</small>
+			) : null}
+		</label>
+	);
+}
+
+function BuilderPropertyList({
+	id,
+	parent,
+	disabled,
+	createId,
+	onUpdate,
+	onMove,
+	onRemove,
+}: Omit<BuilderFieldEditorProps, "field" | "isItemSchema"> & {
+	parent: JsonSchemaBuilderField;
+}) {
+	return (
+		<div className="json-schema-builder-properties">
+			{parent.properties.length === 0 ? (
+				<p className="json-schema-form-note">No properties yet.</p>
+			) : null}
+			{parent.properties.map((property, index) => (
+				<BuilderFieldEditor
+					key={property.id}
+					id={`${id}-${property.id}`}
+					field={property}
+					isFirst={index === 0}
+					isLast={index === parent.properties.length - 1}
+					disabled={disabled}
+					createId={createId}
+					onUpdate={onUpdate}
+					onMove={onMove}
+					onRemove={onRemove}
+				/>
+			))}
+			<button
+				type="button"
+				className="ghost json-schema-form-add-item"
+				onClick={() =>
+					onUpdate(parent.id, (current) => ({
+						...current,
+						properties: [
+							...current.properties,
+							createJsonSchemaBuilderProperty(current.properties, createId),
+						],
+					}))
+				}
+				disabled={disabled}
+			>
+				+ Add property
+			</button>
+			<label className="json-schema-form-checkbox">
+				<input
+					type="checkbox"
+					checked={parent.additionalProperties}
+					onChange={(event) =>
+						onUpdate(parent.id, (current) => ({
+							...current,
+							additionalProperties: event.target.checked,
+						}))
+					}
+					disabled={disabled}
+				/>
+				<span>Allow properties that are not listed</span>
+			</label>
+		</div>
+	);
+}
+
+function BuilderFieldEditor({
+	id,
+	field,
+	isItemSchema = false,
+	isFirst = false,
+	isLast = false,
+	disabled,
+	createId,
+	onUpdate,
+	onMove,
+	onRemove,
+}: BuilderFieldEditorProps) {
+	const update = (patch: Partial<JsonSchemaBuilderField>) =>
+		onUpdate(field.id, (current) => ({ ...current, ...patch }));
+	const hasEnum =
+		field.type === "string" ||
+		field.type === "number" ||
+		field.type === "integer";
+	const formatOptions =
+		field.format &&
+		!JSON_SCHEMA_BUILDER_FORMATS.some((format) => format.value === field.format)
+			? [
+					...JSON_SCHEMA_BUILDER_FORMATS,
+					{ value: field.format, label: field.format },
+				]
+			: JSON_SCHEMA_BUILDER_FORMATS;
+
+	return (
+		<fieldset className="json-schema-form-field json-schema-builder-field">
+			<legend className="sr-only">
+				{isItemSchema ? "Array items" : field.key || "Unnamed property"}
+			</legend>
+			<div className="json-schema-builder-row">
+				{isItemSchema ? (
+					<span className="json-schema-form-label">Each item</span>
+				) : (
+					<label className="control-field json-schema-builder-key">
+						<span>Property</span>
+						<input
+							id={`${id}-key`}
+							value={field.key}
+							onChange={(event) => update({ key: event.target.value })}
+							disabled={disabled}
+							spellCheck={false}
+						/>
+					</label>
+				)}
+				<label className="control-field json-schema-builder-type">
+					<span>Type</span>
+					<select
+						value={field.type}
+						onChange={(event) => {
+							const type = event.target.value;
+							const option = JSON_SCHEMA_BUILDER_TYPES.find(
+								(candidate) => candidate.value === type,
+							);
+							if (!option) return;
+							onUpdate(field.id, (current) =>
+								changeJsonSchemaBuilderFieldType(
+									current,
+									option.value,
+									createId,
+								),
+							);
+						}}
+						disabled={disabled}
+					>
+						{JSON_SCHEMA_BUILDER_TYPES.map((type) => (
+							<option key={type.value} value={type.value}>
+								{type.label}
+							</option>
+						))}
+						{field.type === "custom" ? (
+							<option value="custom" disabled>
+								Custom schema
+							</option>
+						) : null}
+					</select>
+				</label>
+				{field.type === "string" ? (
+					<label className="control-field json-schema-builder-type">
+						<span>Format</span>
+						<select
+							value={field.format}
+							onChange={(event) => update({ format: event.target.value })}
+							disabled={disabled}
+						>
+							<option value="">Any text</option>
+							{formatOptions.map((format) => (
+								<option key={format.value} value={format.value}>
+									{format.label}
+								</option>
+							))}
+						</select>
+					</label>
+				) : null}
+				<div className="json-schema-builder-flags">
+					{isItemSchema ? null : (
+						<label className="json-schema-form-checkbox">
+							<input
+								type="checkbox"
+								checked={field.required}
+								onChange={(event) => update({ required: event.target.checked })}
+								disabled={disabled}
+							/>
+							<span>Required</span>
+						</label>
+					)}
+					{field.type === "custom" ? null : (
+						<label className="json-schema-form-checkbox">
+							<input
+								type="checkbox"
+								checked={field.nullable}
+								onChange={(event) => update({ nullable: event.target.checked })}
+								disabled={disabled}
+							/>
+							<span>Allow null</span>
+						</label>
+					)}
+				</div>
+				{isItemSchema ? null : (
+					<div className="json-schema-form-actions">
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => onMove(field.id, -1)}
+							disabled={disabled || isFirst}
+							aria-label={`Move ${field.key} up`}
+						>
+							↑
+						</button>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => onMove(field.id, 1)}
+							disabled={disabled || isLast}
+							aria-label={`Move ${field.key} down`}
+						>
+							↓
+						</button>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => onRemove(field.id)}
+							disabled={disabled}
+							aria-label={`Remove ${field.key}`}
+						>
+							Remove
+						</button>
+					</div>
+				)}
+			</div>
+
+			{field.type === "custom" ? (
+				<div className="json-schema-builder-custom">
+					<p className="json-schema-form-note">
+						This property uses keywords the builder does not edit. It is kept
+						as-is; change it in the raw JSON editor.
+					</p>
+					<code>{JSON.stringify(field.extra)}</code>
+				</div>
+			) : (
+				<>
+					<div className="json-schema-builder-row">
+						<label className="control-field">
+							<span>Title</span>
+							<input
+								value={field.title}
+								onChange={(event) => update({ title: event.target.value })}
+								disabled={disabled}
+							/>
+						</label>
+						<label className="control-field json-schema-builder-description">
+							<span>Description</span>
+							<input
+								value={field.description}
+								onChange={(event) =>
+									update({ description: event.target.value })
+								}
+								disabled={disabled}
+							/>
+						</label>
+					</div>
+					{hasEnum ? (
+						<EnumValuesInput
+							id={`${id}-enum`}
+							field={field}
+							disabled={disabled}
+							onChange={(enumValues) => update({ enumValues })}
+						/>
+					) : null}
+					{field.type === "object" ? (
+						<BuilderPropertyList
+							id={id}
+							parent={field}
+							disabled={disabled}
+							createId={createId}
+							onUpdate={onUpdate}
+							onMove={onMove}
+							onRemove={onRemove}
+						/>
+					) : null}
+					{field.type === "array" && field.items ? (
+						<BuilderFieldEditor
+							id={`${id}-items`}
+							field={field.items}
+							isItemSchema
+							disabled={disabled}
+							createId={createId}
+							onUpdate={onUpdate}
+							onMove={onMove}
+							onRemove={onRemove}
+						/>
+					) : null}
+				</>
+			)}
+		</fieldset>
+	);
+}
+
+export function JsonSchemaBuilder({
+	id,
+	value,
+	onChange,
+	onOpenRawEditor,
+	disabled = false,
+}: JsonSchemaBuilderProps) {
+	const nextIdRef = useRef(1);
+	const lastEmittedValueRef = useRef(value);
+	const createId = () => nextIdRef.current++;
+	const [state, setState] = useState<BuilderState>(() =>
+		readBuilderState(value, createId),
+	);
+
+	useEffect(() => {
+		if (value === lastEmittedValueRef.current) return;
+		lastEmittedValueRef.current = value;
+		setState(readBuilderState(value, () => nextIdRef.current++));
+	}, [value]);
+
+	const root = state.root;
+	const schemaText = useMemo(() => (root ? stringifySchema(root) : ""), [root]);
+	const analysis = useMemo(
+		() => (root ? analyzeJsonSchema(buildJsonSchemaFromBuilder(root)) : null),
+		[root],
+	);
+	const builderIssues = useMemo(
+		() => (root ? getJsonSchemaBuilderIssues(root) : []),
+		[root],
+	);
+
+	function commit(nextRoot: JsonSchemaBuilderField) {
+		const nextValue = stringifySchema(nextRoot);
+		lastEmittedValueRef.current = nextValue;
+		setState({ root: nextRoot, error: null });
+		onChange(nextValue);
+	}
+
+	if (!root) {
+		return (
+			<div className="json-schema-builder">
+				<div className="error-banner">
+					{state.error}
+					<button type="button" onClick={onOpenRawEditor}>
+						Edit raw JSON
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	const issues = [...builderIssues, ...(analysis?.issues ?? [])];
+
+	return (
+		<div className="json-schema-builder">
+			<BuilderPropertyList
+				id={id}
+				parent={root}
+				disabled={disabled}
+				createId={createId}
+				onUpdate={(fieldId, update) =>
+					commit(updateJsonSchemaBuilderField(root, fieldId, update))
+				}
+				onMove={(fieldId, offset) =>
+					commit(moveJsonSchemaBuilderField(root, fieldId, offset))
+				}
+				onRemove={(fieldId) =>
+					commit(removeJsonSchemaBuilderField(root, fieldId))
+				}
+			/>
+
+			<div className="json-editor-panel">
+				<strong>Schema summary</strong>
+				{analysis && analysis.summary.length > 0 ? (
+					<ul className="json-editor-list">
+						{analysis.summary.map((item) => (
+							<li key={item}>{item}</li>
+						))}
+					</ul>
+				) : null}
+				{issues.length === 0 ? (
+					<div className="muted">
+						Schema structure looks valid for the supported preview checks.
+					</div>
+				) : (
+					<ul className="json-editor-list json-editor-list--errors">
+						{issues.map((issue) => (
+							<li key={`${issue.path}-${issue.message}`}>
+								<code>{issue.path}</code>: {issue.message}
+							</li>
+						))}
+					</ul>
+				)}
+			</div>
+
+			<details className="json-schema-builder-preview">
+				<summary>Schema preview</summary>
+				<pre>{schemaText}</pre>
+			</details>
+		</div>
+	);
+}
@@ -0,0 +1,637 @@
+"use client";
+
+import { useMemo } from "react";
+
+import {
+	formatJsonPath,
+	validateJsonAgainstSchema,
+} from "@/lib/json-inspector";
+import {
+	describeJsonSchemaFormNode,
+	findJsonSchemaVariantIndex,
+	fromDateTimeInputValue,
+	getJsonSchemaFormInputFormat,
+	getJsonValueType,
+	groupJsonValidationIssuesByPath,
+	type JsonSchemaFormNode,
+	type JsonSchemaFormType,
+	toDateTimeInputValue,
+} from "@/lib/json-schema-form";
+import { getObjectCreateInitialValue } from "@/lib/object-create-data";
+
+type JsonSchemaFormProps = {
+	id: string;
+	schema: unknown;
+	value: Record<string, unknown>;
+	onChange: (value: Record<string, unknown>) => void;
+	disabled?: boolean;
+};
+
+type JsonSchemaFieldProps = {
+	id: string;
+	path: string;
+	label: string;
+	schema: unknown;
+	value: unknown;
+	required: boolean;
+	disabled: boolean;
+	issues: ReadonlyMap<string, string[]>;
+	onChange: (value: unknown) => void;
+	onRemove?: () => void;
+	actions?: React.ReactNode;
+};
+
+const TYPE_LABELS: Record<JsonSchemaFormType, string> = {
+	object: "Object",
+	array: "Array",
+	string: "Text",
+	number: "Number",
+	integer: "Integer",
+	boolean: "True / false",
+	null: "Null",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toFieldId(formId: string, path: string): string {
+	return `${formId}-${path.replace(/[^a-zA-Z0-9_-]+/g, "-")}`;
+}
+
+function formatEnumValue(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function initialValueForType(
+	schema: unknown,
+	type: JsonSchemaFormType,
+): unknown {
+	const initial = getObjectCreateInitialValue(schema);
+	if (getJsonValueType(initial) === type) return initial;
+	if (type === "integer" && typeof initial === "number") return initial;
+	if (type === "object") return {};
+	if (type === "array") return [];
+	if (type === "number" || type === "integer") return 0;
+	if (type === "boolean") return false;
+	if (type === "null") return null;
+	return "";
+}
+
+function FieldIssues({
+	messages,
+}: {
+	messages: readonly string[] | undefined;
+}) {
+	if (!messages?.length) return null;
+	return (
+		<ul className="json-schema-form-issues" role="alert">
+			{messages.map((message) => (
+				<li key={message}>{message}</li>
+			))}
+		</ul>
+	);
+}
+
+function ScalarInput({
+	id,
+	node,
+	value,
+	disabled,
+	invalid,
+	onChange,
+}: {
+	id: string;
+	node: JsonSchemaFormNode;
+	value: unknown;
+	disabled: boolean;
+	invalid: boolean;
+	onChange: (value: unknown) => void;
+}) {
+	if (node.kind === "enum") {
+		const selectedIndex = node.enumValues.findIndex((option) =>
+			Object.is(option, value),
+		);
+		return (
+			<select
+				id={id}
+				value={selectedIndex >= 0 ? String(selectedIndex) : ""}
+				onChange={(event) =>
+					onChange(node.enumValues[Number(event.target.value)])
+				}
+				disabled={disabled}
+				aria-invalid={invalid || undefined}
+			>
+				{selectedIndex < 0 ? <option value="">Choose a value…</option> : null}
+				{node.enumValues.map((option, index) => (
+					<option key={formatEnumValue(option)} value={index}>
+						{formatEnumValue(option)}
+					</option>
+				))}
+			</select>
+		);
+	}
+	if (node.kind === "boolean") {
+		return (
+			<label className="json-schema-form-checkbox">
+				<input
+					id={id}
+					type="checkbox"
+					checked={value === true}
+					onChange={(event) => onChange(event.target.checked)}
+					disabled={disabled}
+				/>
+				<span>{value === true ? "True" : "False"}</span>
+			</label>
+		);
+	}
+	if (node.kind === "number" || node.kind === "integer") {
+		return (
+			<input
+				id={id}
+				type="number"
+				step={node.kind === "integer" ? 1 : "any"}
+				min={node.minimum ?? undefined}
+				max={node.maximum ?? undefined}
+				value={typeof value === "number" ? String(value) : ""}
+				onChange={(event) =>
+					onChange(
+						event.target.value === "" ? null : Number(event.target.value),
+					)
+				}
+				disabled={disabled}
+				aria-invalid={invalid || undefined}
+			/>
+		);
+	}
+	if (node.kind === "null") {
+		return <code className="json-schema-form-null">null</code>;
+	}
+	if (node.kind === "string") {
+		const format = getJsonSchemaFormInputFormat(node.format, value);
+		if (format === "date-time") {
+			return (
+				<input
+					id={id}
+					type="datetime-local"
+					value={toDateTimeInputValue(value)}
+					onChange={(event) =>
+						onChange(fromDateTimeInputValue(event.target.value))
+					}
+					disabled={disabled}
+					aria-invalid={invalid || undefined}
+				/>
+			);
+		}
+		return (
+			<input
+				id={id}
+				type={
+					format === "date"
+						? "date"
+						: format === "uri"
+							? "url"
+							: format === "email"
+								? "email"
+								: "text"
+				}
+				inputMode={node.format === "ipv4" ? "decimal" : undefined}
+				placeholder={
+					node.format === "ipv4"
+						? "192.0.2.10"
+						: node.format === "uri"
+							? "https://"
+							: undefined
+				}
+				minLength={node.minLength ?? undefined}
+				maxLength={node.maxLength ?? undefined}
+				value={typeof value === "string" ? value : ""}
+				onChange={(event) => onChange(event.target.value)}
+				disabled={disabled}
+				aria-invalid={invalid || undefined}
+			/>
+		);
+	}
+	return (
+		<span className="json-schema-form-unsupported">
+			<code>{JSON.stringify(value) ?? "undefined"}</code> · edit this value in
+			JSON
+		</span>
+	);
+}
+
+function JsonSchemaObjectFields({
+	id,
+	path,
+	node,
+	value,
+	disabled,
+	issues,
+	onChange,
+}: {
+	id: string;
+	path: string;
+	node: JsonSchemaFormNode;
+	value: Record<string, unknown>;
+	disabled: boolean;
+	issues: ReadonlyMap<string, string[]>;
+	onChange: (value: Record<string, unknown>) => void;
+}) {
+	const knownKeys = new Set(node.properties.map((property) => property.key));
+	const otherKeys = Object.keys(value).filter((key) => !knownKeys.has(key));
+
+	return (
+		<div className="json-schema-form-properties">
+			{node.properties.map((property) => {
+				const propertyPath = formatJsonPath(path, property.key);
+				const propertyNode = describeJsonSchemaFormNode(
+					property.schema,
+					value[property.key],
+				);
+				const label = propertyNode.title ?? property.key;
+				if (!Object.hasOwn(value, property.key)) {
+					return (
+						<div
+							className="json-schema-form-field json-schema-form-field--missing"
+							key={property.key}
+						>
+							<div className="json-schema-form-field-header">
+								<span className="json-schema-form-label">
+									{label}
+									{property.required ? (
+										<span className="json-schema-form-required"> required</span>
+									) : null}
+								</span>
+								<button
+									type="button"
+									className="ghost"
+									onClick={() =>
+										onChange({
+											...value,
+											[property.key]: getObjectCreateInitialValue(
+												property.schema,
+											),
+										})
+									}
+									disabled={disabled}
+									aria-label={`Add ${label}`}
+								>
+									Add
+								</button>
+							</div>
+							<FieldIssues messages={issues.get(propertyPath)} />
+						</div>
+					);
+				}
+				return (
+					<JsonSchemaField
+						key={property.key}
+						id={id}
+						path={propertyPath}
+						label={label}
+						schema={property.schema}
+						value={value[property.key]}
+						required={property.required}
+						disabled={disabled}
+						issues={issues}
+						onChange={(nextValue) =>
+							onChange({ ...value, [property.key]: nextValue })
+						}
+						onRemove={
+							property.required
+								? undefined
+								: () => {
+										const { [property.key]: _removed, ...rest } = value;
+										onChange(rest);
+									}
+						}
+					/>
+				);
+			})}
+			{otherKeys.length > 0 ? (
+				<p className="json-schema-form-note">
+					{otherKeys.length} other field{otherKeys.length === 1 ? "" : "s"} kept
+					as is: {otherKeys.join(", ")}. Edit{" "}
+					{otherKeys.length === 1 ? "it" : "them"} in JSON.
+				</p>
+			) : null}
+		</div>
+	);
+}
+
+function JsonSchemaArrayItems({
+	id,
+	path,
+	label,
+	node,
+	value,
+	disabled,
+	issues,
+	onChange,
+}: {
+	id: string;
+	path: string;
+	label: string;
+	node: JsonSchemaFormNode;
+	value: unknown[];
+	disabled: boolean;
+	issues: ReadonlyMap<string, string[]>;
+	onChange: (value: unknown[]) => void;
+}) {
+	function moveItem(index: number, offset: -1 | 1) {
+		const next = [...value];
+		const [moved] = next.splice(index, 1);
+		next.splice(index + offset, 0, moved);
+		onChange(next);
+	}
+
+	return (
+		<div className="json-schema-form-items">
+			{value.map((item, index) => {
+				const itemPath = formatJsonPath(path, index);
+				const itemLabel = `${label} ${index + 1}`;
+				return (
+					<JsonSchemaField
+						// biome-ignore lint/suspicious/noArrayIndexKey: array items have no identity beyond their position.
+						key={index}
+						id={id}
+						path={itemPath}
+						label={itemLabel}
+						schema={node.itemSchema(index)}
+						value={item}
+						required={false}
+						disabled={disabled}
+						issues={issues}
+						onChange={(nextItem) =>
+							onChange(
+								value.map((current, itemIndex) =>
+									itemIndex === index ? nextItem : current,
+								),
+							)
+						}
+						onRemove={() =>
+							onChange(value.filter((_, itemIndex) => itemIndex !== index))
+						}
+						actions={
+							<>
+								<button
+									type="button"
+									className="ghost"
+									onClick={() => moveItem(index, -1)}
+									disabled={disabled || index === 0}
+									aria-label={`Move ${itemLabel} up`}
+								>
+									↑
+								</button>
+								<button
+									type="button"
+									className="ghost"
+									onClick={() => moveItem(index, 1)}
+									disabled={disabled || index === value.length - 1}
+									aria-label={`Move ${itemLabel} down`}
+								>
+									↓
+								</button>
+							</>
+						}
+					/>
+				);
+			})}
+			<button
+				type="button"
+				className="ghost json-schema-form-add-item"
+				onClick={() =>
+					onChange([
+						...value,
+						getObjectCreateInitialValue(node.itemSchema(value.length)),
+					])
+				}
+				disabled={
+					disabled || (node.maxItems !== null && value.length >= node.maxItems)
+				}
+			>
+				<span aria-hidden="true">+</span> Add {label.toLowerCase()}
+			</button>
+		</div>
+	);
+}
+
+function JsonSchemaField({
+	id,
+	path,
+	label,
+	schema,
+	value,
+	required,
+	disabled,
+	issues,
+	onChange,
+	onRemove,
+	actions,
+}: JsonSchemaFieldProps) {
+	const node = describeJsonSchemaFormNode(schema, value);
+	const fieldId = toFieldId(id, path);
+	const messages = issues.get(path);
+	const variantIndex =
+		node.kind === "one-of"
+			? findJsonSchemaVariantIndex(node.variants, value)
+			: -1;
+	const variant = node.variants[variantIndex];
+	const isGroup = node.kind === "object" || node.kind === "array";
+
+	const header = (
+		<div className="json-schema-form-field-header">
+			{isGroup || node.kind === "one-of" ? (
+				<span className="json-schema-form-label">
+					{label}
+					{required ? (
+						<span className="json-schema-form-required"> required</span>
+					) : null}
+				</span>
+			) : (
+				<label className="json-schema-form-label" htmlFor={fieldId}>
+					{label}
+					{required ? (
+						<span className="json-schema-form-required"> required</span>
+					) : null}
+				</label>
+			)}
+			{node.types.length > 1 ? (
+				<select
+					className="json-schema-form-type"
+					value={node.kind}
+					onChange={(event) => {
+						const nextType = event.target.value as JsonSchemaFormType;
+						onChange(initialValueForType(schema, nextType));
+					}}
+					disabled={disabled}
+					aria-label={`Type for ${label}`}
+				>
+					{node.types.map((type) => (
+						<option key={type} value={type}>
+							{TYPE_LABELS[type]}
+						</option>
+					))}
+				</select>
+			) : null}
+			{node.kind === "one-of" ? (
+				<select
+					className="json-schema-form-type"
+					value={variantIndex}
+					onChange={(event) =>
+						onChange(
+							getObjectCreateInitialValue(
+								node.variants[Number(event.target.value)]?.schema,
+							),
+						)
+					}
+					disabled={disabled}
+					aria-label={`Variant for ${label}`}
+				>
+					{node.variants.map((option, index) => (
+						<option key={option.label} value={index}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			) : null}
+			{actions || onRemove ? (
+				<div className="json-schema-form-actions">
+					{actions}
+					{onRemove ? (
+						<button
+							type="button"
+							className="ghost"
+							onClick={onRemove}
+							disabled={disabled}
+							aria-label={`Remove ${label}`}
+						>
+							Remove
+						</button>
+					) : null}
+				</div>
+			) : null}
+		</div>
+	);
+
+	let control: React.ReactNode;
+	if (node.kind === "one-of") {
+		const variantNode = describeJsonSchemaFormNode(variant?.schema, value);
+		control =
+			variantNode.kind === "object" && isRecord(value) ? (
+				<JsonSchemaObjectFields
+					id={id}
+					path={path}
+					node={variantNode}
+					value={value}
+					disabled={disabled}
+					issues={issues}
+					onChange={onChange}
+				/>
+			) : (
+				<ScalarInput
+					id={fieldId}
+					node={variantNode}
+					value={value}
+					disabled={disabled}
+					invalid={Boolean(messages)}
+					onChange={onChange}
+				/>
+			);
+	} else if (node.kind === "object") {
+		control = (
+			<JsonSchemaObjectFields
+				id={id}
+				path={path}
+				node={node}
+				value={isRecord(value) ? value : {}}
+				disabled={disabled}
+				issues={issues}
+				onChange={onChange}
+			/>
+		);
+	} else if (node.kind === "array") {
+		control = (
+			<JsonSchemaArrayItems
+				id={id}
+				path={path}
+				label={node.title ?? "Item"}
+				node={node}
+				value={Array.isArray(value) ? value : []}
+				disabled={disabled}
+				issues={issues}
+				onChange={onChange}
+			/>
+		);
+	} else {
+		control = (
+			<ScalarInput
+				id={fieldId}
+				node={node}
+				value={value}
+				disabled={disabled}
+				invalid={Boolean(messages)}
+				onChange={onChange}
+			/>
+		);
+	}
+
+	const content = (
+		<>
+			{header}
+			{node.description ? (
+				<p className="json-schema-form-description">{node.description}</p>
+			) : null}
+			{control}
+			<FieldIssues messages={messages} />
+		</>
+	);
+
+	return isGroup ? (
+		<fieldset className="json-schema-form-field json-schema-form-group">
+			<legend className="sr-only">{label}</legend>
+			{content}
+		</fieldset>
+	) : (
+		<div className="json-schema-form-field">{content}</div>
+	);
+}
+
+export function JsonSchemaForm({
+	id,
+	schema,
+	value,
+	onChange,
+	disabled = false,
+}: JsonSchemaFormProps) {
+	const node = describeJsonSchemaFormNode(schema, value);
+	const validation = useMemo(
+		() => validateJsonAgainstSchema(value, schema, { checkFormats: true }),
+		[schema, value],
+	);
+	const issues = useMemo(
+		() => groupJsonValidationIssuesByPath(validation.issues),
+		[validation.issues],
+	);
+
+	return (
+		<div className="json-schema-form">
+			<JsonSchemaObjectFields
+				id={id}
+				path="$"
+				node={node}
+				value={value}
+				disabled={disabled}
+				issues={issues}
+				onChange={onChange}
+			/>
+			<FieldIssues messages={issues.get("$")} />
+			<p className="json-schema-form-note">
+				{validation.issues.length === 0
+					? "The data matches the class schema."
+					: `${validation.issues.length} schema issue${validation.issues.length === 1 ? "" : "s"} to resolve.`}{" "}
+				{validation.note}
+			</p>
+		</div>
+	);
+}
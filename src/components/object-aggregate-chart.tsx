@@ -0,0 +1,650 @@
+"use client";
+
+import { type ReactNode, useId, useMemo, useRef, useState } from "react";
+
+import {
+	buildObjectAggregateHistogram,
+	buildObjectAggregatePieSlices,
+	buildObjectAggregateStackedBars,
+	describeObjectAggregateArc,
+	formatObjectAggregateChartValue,
+	getObjectAggregateChartColor,
+	getObjectAggregateChartPoints,
+	getObjectAggregateChartTicks,
+	OBJECT_AGGREGATE_CHART_KINDS,
+	type ObjectAggregateChartGroup,
+	type ObjectAggregateChartKind,
+	type ObjectAggregateChartMetric,
+	type ObjectAggregateChartPoint,
+} from "@/lib/object-aggregate-charts";
+import { sanitizeExportFileName } from "@/lib/table-export";
+import { useToast } from "@/lib/toast-context";
+
+type ObjectAggregateChartProps = {
+	groups: readonly ObjectAggregateChartGroup[];
+	groupLabel: string;
+	measureLabels: readonly string[];
+	fileName: string;
+};
+
+type ChartTable = {
+	headers: string[];
+	rows: Array<{ key: string; cells: string[] }>;
+};
+
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 170;
+const ROW_HEIGHT = 26;
+const AXIS_HEIGHT = 28;
+const MAX_LABEL_LENGTH = 24;
+
+function truncateLabel(label: string): string {
+	return label.length > MAX_LABEL_LENGTH
+		? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…`
+		: label;
+}
+
+function formatShare(share: number): string {
+	return `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+}
+
+function HorizontalAxis({
+	ticks,
+	toX,
+	top,
+	bottom,
+}: {
+	ticks: number[];
+	toX: (value: number) => number;
+	top: number;
+	bottom: number;
+}) {
+	return (
+		<g>
+			{ticks.map((tick) => (
+				<g key={tick}>
+					<line
+						x1={toX(tick)}
+						x2={toX(tick)}
+						y1={top}
+						y2={bottom}
+						stroke="currentColor"
+						strokeOpacity={tick === 0 ? 0.45 : 0.12}
+					/>
+					<text
+						x={toX(tick)}
+						y={bottom + 16}
+						textAnchor="middle"
+						fill="currentColor"
+						fillOpacity={0.7}
+					>
+						{formatObjectAggregateChartValue(tick)}
+					</text>
+				</g>
+			))}
+		</g>
+	);
+}
+
+function renderBarChart({ points }: { points: ObjectAggregateChartPoint[] }) {
+	const values = points.map((point) => point.value);
+	const ticks = getObjectAggregateChartTicks(
+		Math.min(...values),
+		Math.max(...values),
+	);
+	const low = ticks[0];
+	const high = ticks.at(-1) ?? 1;
+	const plotWidth = CHART_WIDTH - LABEL_WIDTH - 24;
+	const toX = (value: number) =>
+		LABEL_WIDTH + ((value - low) / (high - low || 1)) * plotWidth;
+	const bottom = 8 + points.length * ROW_HEIGHT;
+
+	return {
+		height: bottom + AXIS_HEIGHT,
+		body: (
+			<>
+				<HorizontalAxis ticks={ticks} toX={toX} top={8} bottom={bottom} />
+				{points.map((point, index) => {
+					const y = 8 + index * ROW_HEIGHT;
+					const start = toX(Math.min(0, point.value));
+					const end = toX(Math.max(0, point.value));
+					return (
+						<g key={point.id}>
+							<title>{`${point.label}: ${formatObjectAggregateChartValue(point.value)}`}</title>
+							<text
+								x={LABEL_WIDTH - 8}
+								y={y + ROW_HEIGHT / 2 + 4}
+								textAnchor="end"
+								fill="currentColor"
+							>
+								{truncateLabel(point.label)}
+							</text>
+							<rect
+								x={start}
+								y={y + 4}
+								width={Math.max(1, end - start)}
+								height={ROW_HEIGHT - 8}
+								rx={3}
+								fill={getObjectAggregateChartColor(0)}
+							/>
+						</g>
+					);
+				})}
+			</>
+		),
+	};
+}
+
+function renderStackedBarChart({
+	groups,
+	measureLabels,
+}: {
+	groups: readonly ObjectAggregateChartGroup[];
+	measureLabels: readonly string[];
+}) {
+	const bars = buildObjectAggregateStackedBars(groups);
+	const ticks = getObjectAggregateChartTicks(
+		0,
+		Math.max(0, ...bars.map((bar) => bar.total)),
+	);
+	const high = ticks.at(-1) || 1;
+	const plotWidth = CHART_WIDTH - LABEL_WIDTH - 24;
+	const toX = (value: number) => LABEL_WIDTH + (value / high) * plotWidth;
+	const top = 30;
+	const bottom = top + bars.length * ROW_HEIGHT;
+
+	return {
+		height: bottom + AXIS_HEIGHT,
+		body: (
+			<>
+				<g>
+					{measureLabels.map((label, index) => (
+						<g
+							key={label}
+							transform={`translate(${LABEL_WIDTH + index * 150} 4)`}
+						>
+							<rect
+								width={12}
+								height={12}
+								rx={2}
+								fill={getObjectAggregateChartColor(index)}
+							/>
+							<text x={18} y={11} fill="currentColor">
+								{truncateLabel(label)}
+							</text>
+						</g>
+					))}
+				</g>
+				<HorizontalAxis ticks={ticks} toX={toX} top={top} bottom={bottom} />
+				{bars.map((bar, index) => {
+					const y = top + index * ROW_HEIGHT;
+					return (
+						<g key={bar.id}>
+							<text
+								x={LABEL_WIDTH - 8}
+								y={y + ROW_HEIGHT / 2 + 4}
+								textAnchor="end"
+								fill="currentColor"
+							>
+								{truncateLabel(bar.label)}
+							</text>
+							{bar.segments.map((segment) => (
+								<rect
+									key={segment.key}
+									x={toX(segment.start)}
+									y={y + 4}
+									width={Math.max(1, toX(segment.value) - LABEL_WIDTH)}
+									height={ROW_HEIGHT - 8}
+									fill={segment.color}
+								>
+									<title>{`${bar.label} · ${segment.label}: ${formatObjectAggregateChartValue(segment.value)}`}</title>
+								</rect>
+							))}
+						</g>
+					);
+				})}
+			</>
+		),
+	};
+}
+
+function renderPieChart({
+	points,
+	donut,
+}: {
+	points: ObjectAggregateChartPoint[];
+	donut: boolean;
+}) {
+	const slices = buildObjectAggregatePieSlices(points);
+	const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+	const radius = 120;
+	const center = { x: 140, y: 136 };
+
+	return {
+		height: Math.max(272, 24 + slices.length * 24),
+		body: (
+			<>
+				{slices.map((slice) => (
+					<path
+						key={slice.id}
+						d={describeObjectAggregateArc(
+							center.x,
+							center.y,
+							radius,
+							donut ? radius * 0.58 : 0,
+							slice.startAngle,
+							slice.endAngle,
+						)}
+						fill={slice.color}
+						fillRule="evenodd"
+						stroke="white"
+						strokeOpacity={0.6}
+					>
+						<title>{`${slice.label}: ${formatObjectAggregateChartValue(slice.value)} (${formatShare(slice.share)})`}</title>
+					</path>
+				))}
+				{donut ? (
+					<>
+						<text
+							x={center.x}
+							y={center.y}
+							textAnchor="middle"
+							fill="currentColor"
+							fontSize={20}
+							fontWeight={600}
+						>
+							{formatObjectAggregateChartValue(total)}
+						</text>
+						<text
+							x={center.x}
+							y={center.y + 18}
+							textAnchor="middle"
+							fill="currentColor"
+							fillOpacity={0.7}
+						>
+							Total
+						</text>
+					</>
+				) : null}
+				{slices.map((slice, index) => (
+					<g key={slice.id} transform={`translate(300 ${20 + index * 24})`}>
+						<rect width={12} height={12} rx={2} fill={slice.color} />
+						<text x={18} y={11} fill="currentColor">
+							{`${truncateLabel(slice.label)} · ${formatObjectAggregateChartValue(slice.value)} (${formatShare(slice.share)})`}
+						</text>
+					</g>
+				))}
+			</>
+		),
+	};
+}
+
+function renderHistogramChart({
+	points,
+}: {
+	points: ObjectAggregateChartPoint[];
+}) {
+	const bins = buildObjectAggregateHistogram(points);
+	const ticks = getObjectAggregateChartTicks(
+		0,
+		Math.max(...bins.map((bin) => bin.count)),
+		4,
+	).filter(Number.isInteger);
+	const high = ticks.at(-1) || 1;
+	const left = 48;
+	const top = 12;
+	const plotHeight = 200;
+	const bottom = top + plotHeight;
+	const binWidth = (CHART_WIDTH - left - 16) / bins.length;
+	const toY = (value: number) => bottom - (value / high) * plotHeight;
+
+	return {
+		height: bottom + 40,
+		body: (
+			<>
+				{ticks.map((tick) => (
+					<g key={tick}>
+						<line
+							x1={left}
+							x2={CHART_WIDTH - 16}
+							y1={toY(tick)}
+							y2={toY(tick)}
+							stroke="currentColor"
+							strokeOpacity={tick === 0 ? 0.45 : 0.12}
+						/>
+						<text
+							x={left - 8}
+							y={toY(tick) + 4}
+							textAnchor="end"
+							fill="currentColor"
+							fillOpacity={0.7}
+						>
+							{tick}
+						</text>
+					</g>
+				))}
+				{bins.map((bin, index) => {
+					const x = left + index * binWidth;
+					return (
+						<g key={`${bin.from}:${bin.to}`}>
+							<rect
+								x={x + 2}
+								y={toY(bin.count)}
+								width={Math.max(1, binWidth - 4)}
+								height={bottom - toY(bin.count)}
+								rx={2}
+								fill={getObjectAggregateChartColor(0)}
+							>
+								<title>{`${formatObjectAggregateChartValue(bin.from)} – ${formatObjectAggregateChartValue(bin.to)}: ${bin.count} group${bin.count === 1 ? "" : "s"}`}</title>
+							</rect>
+							<text
+								x={x}
+								y={bottom + 16}
+								textAnchor="middle"
+								fill="currentColor"
+								fillOpacity={0.7}
+							>
+								{formatObjectAggregateChartValue(bin.from)}
+							</text>
+						</g>
+					);
+				})}
+				<text
+					x={CHART_WIDTH - 16}
+					y={bottom + 16}
+					textAnchor="end"
+					fill="currentColor"
+					fillOpacity={0.7}
+				>
+					{formatObjectAggregateChartValue(bins.at(-1)?.to ?? 0)}
+				</text>
+			</>
+		),
+	};
+}
+
+function serializeChart(svg: SVGSVGElement): string {
+	const clone = svg.cloneNode(true) as SVGSVGElement;
+	const surface = svg.closest(".card") ?? document.body;
+	const background = window.getComputedStyle(surface).backgroundColor;
+	const backdrop = document.createElementNS(
+		"http://www.w3.org/2000/svg",
+		"rect",
+	);
+	backdrop.setAttribute("width", "100%");
+	backdrop.setAttribute("height", "100%");
+	backdrop.setAttribute(
+		"fill",
+		background && background !== "rgba(0, 0, 0, 0)" ? background : "#ffffff",
+	);
+	clone.insertBefore(backdrop, clone.firstChild);
+	clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+	clone.setAttribute("style", `color: ${window.getComputedStyle(svg).color}`);
+	return new XMLSerializer().serializeToString(clone);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.style.display = "none";
+	document.body.append(link);
+	link.click();
+	link.remove();
+	window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+async function renderChartPng(markup: string, width: number, height: number) {
+	const url = URL.createObjectURL(
+		new Blob([markup], { type: "image/svg+xml;charset=utf-8" }),
+	);
+	try {
+		const image = new Image();
+		await new Promise<void>((resolve, reject) => {
+			image.onload = () => resolve();
+			image.onerror = () => reject(new Error("The chart could not be drawn."));
+			image.src = url;
+		});
+		const canvas = document.createElement("canvas");
+		canvas.width = width * 2;
+		canvas.height = height * 2;
+		const context = canvas.getContext("2d");
+		if (!context) throw new Error("PNG export is unavailable in this browser.");
+		context.drawImage(image, 0, 0, canvas.width, canvas.height);
+		return await new Promise<Blob>((resolve, reject) =>
+			canvas.toBlob((blob) =>
+				blob
+					? resolve(blob)
+					: reject(new Error("PNG export is unavailable in this browser.")),
+			),
+		);
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
+
+export function ObjectAggregateChart({
+	groups,
+	groupLabel,
+	measureLabels,
+	fileName,
+}: ObjectAggregateChartProps) {
+	const titleId = useId();
+	const svgRef = useRef<SVGSVGElement | null>(null);
+	const { showToast } = useToast();
+	const [kind, setKind] = useState<ObjectAggregateChartKind>("bar");
+	const [selectedMetric, setMetric] =
+		useState<ObjectAggregateChartMetric>("count");
+	const metric =
+		selectedMetric !== "count" && selectedMetric >= measureLabels.length
+			? "count"
+			: selectedMetric;
+	const metricLabel =
+		metric === "count" ? "Object count" : measureLabels[metric];
+	const points = useMemo(
+		() => getObjectAggregateChartPoints(groups, metric),
+		[groups, metric],
+	);
+	const title =
+		kind === "stacked-bar"
+			? `Measures by ${groupLabel}`
+			: kind === "histogram"
+				? `Distribution of ${metricLabel} across ${groupLabel} groups`
+				: `${metricLabel} by ${groupLabel}`;
+
+	let chart: { height: number; body: ReactNode } | null = null;
+	let table: ChartTable = { headers: [], rows: [] };
+	if (kind === "stacked-bar") {
+		if (measureLabels.length > 0 && groups.length > 0) {
+			chart = renderStackedBarChart({ groups, measureLabels });
+			table = {
+				headers: [groupLabel, ...measureLabels],
+				rows: buildObjectAggregateStackedBars(groups).map((bar) => ({
+					key: bar.id,
+					cells: [
+						bar.label,
+						...measureLabels.map((_, index) => {
+							const segment = bar.segments.find((item) => item.key === index);
+							return segment
+								? formatObjectAggregateChartValue(segment.value)
+								: "—";
+						}),
+					],
+				})),
+			};
+		}
+	} else if (points.length > 0) {
+		if (kind === "histogram") {
+			chart = renderHistogramChart({ points });
+			table = {
+				headers: [`${metricLabel} range`, "Groups"],
+				rows: buildObjectAggregateHistogram(points).map((bin) => ({
+					key: `${bin.from}:${bin.to}`,
+					cells: [
+						`${formatObjectAggregateChartValue(bin.from)} – ${formatObjectAggregateChartValue(bin.to)}`,
+						String(bin.count),
+					],
+				})),
+			};
+		} else if (kind === "pie" || kind === "donut") {
+			const slices = buildObjectAggregatePieSlices(points);
+			if (slices.length > 0) {
+				chart = renderPieChart({ points, donut: kind === "donut" });
+				table = {
+					headers: [groupLabel, metricLabel, "Share"],
+					rows: slices.map((slice) => ({
+						key: slice.id,
+						cells: [
+							slice.label,
+							formatObjectAggregateChartValue(slice.value),
+							formatShare(slice.share),
+						],
+					})),
+				};
+			}
+		} else {
+			chart = renderBarChart({ points });
+			table = {
+				headers: [groupLabel, metricLabel],
+				rows: points.map((point) => ({
+					key: point.id,
+					cells: [point.label, formatObjectAggregateChartValue(point.value)],
+				})),
+			};
+		}
+	}
+
+	async function downloadChart(format: "svg" | "png") {
+		const svg = svgRef.current;
+		if (!svg || !chart) return;
+		const name = `${sanitizeExportFileName(`${fileName}-${kind}`)}.${format}`;
+		try {
+			const markup = serializeChart(svg);
+			downloadBlob(
+				format === "svg"
+					? new Blob([markup], { type: "image/svg+xml;charset=utf-8" })
+					: await renderChartPng(markup, CHART_WIDTH, chart.height),
+				name,
+			);
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to download chart.",
+				"error",
+			);
+		}
+	}
+
+	return (
+		<details className="object-aggregate-chart">
+			<summary>Chart</summary>
+			<div className="object-aggregate-chart-toolbar">
+				<fieldset className="object-aggregate-chart-kind">
+					<legend className="sr-only">Chart type</legend>
+					<div className="segmented-control">
+						{OBJECT_AGGREGATE_CHART_KINDS.map((option) => (
+							<button
+								key={option.value}
+								type="button"
+								className={kind === option.value ? "is-active" : ""}
+								aria-pressed={kind === option.value}
+								onClick={() => setKind(option.value)}
+							>
+								{option.label}
+							</button>
+						))}
+					</div>
+				</fieldset>
+				<label className="object-aggregate-chart-metric">
+					<span>Value</span>
+					<select
+						value={String(metric)}
+						onChange={(event) =>
+							setMetric(
+								event.target.value === "count"
+									? "count"
+									: Number(event.target.value),
+							)
+						}
+						disabled={kind === "stacked-bar" || measureLabels.length === 0}
+					>
+						<option value="count">Object count</option>
+						{measureLabels.map((label, index) => (
+							<option key={label} value={index}>
+								{label}
+							</option>
+						))}
+					</select>
+				</label>
+				<div className="object-aggregate-chart-downloads">
+					<button
+						type="button"
+						className="ghost"
+						onClick={() => void downloadChart("svg")}
+						disabled={!chart}
+					>
+						Download SVG
+					</button>
+					<button
+						type="button"
+						className="ghost"
+						onClick={() => void downloadChart("png")}
+						disabled={!chart}
+					>
+						Download PNG
+					</button>
+				</div>
+			</div>
+			{chart ? (
+				<figure className="object-aggregate-chart-figure">
+					<svg
+						ref={svgRef}
+						role="img"
+						aria-labelledby={titleId}
+						viewBox={`0 0 ${CHART_WIDTH} ${chart.height}`}
+						width={CHART_WIDTH}
+						height={chart.height}
+						fontFamily="system-ui, sans-serif"
+						fontSize={12}
+					>
+						<title id={titleId}>{title}</title>
+						{chart.body}
+					</svg>
+					<figcaption>{title}</figcaption>
+				</figure>
+			) : (
+				<p className="muted">
+					{kind === "stacked-bar"
+						? "Add at least one measure to stack values per group."
+						: "No numeric values to chart for these groups."}
+				</p>
+			)}
+			{table.rows.length > 0 ? (
+				<details className="object-aggregate-chart-data">
+					<summary>Chart data</summary>
+					<table>
+						<caption className="sr-only">{title}</caption>
+						<thead>
+							<tr>
+								{table.headers.map((header) => (
+									<th key={header} scope="col">
+										{header}
+									</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{table.rows.map((row) => (
+								<tr key={row.key}>
+									{row.cells.map((cell, index) => (
+										<td key={table.headers[index]}>{cell}</td>
+									))}
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</details>
+			) : null}
+		</details>
+	);
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import type { ObjectAggregateDimensionValue } from "@/lib/api/generated/models";
+import { formatObjectAggregateChartValue } from "@/lib/object-aggregate-charts";
+import type {
+	ObjectAggregatePivot,
+	ObjectAggregatePivotCell,
+	ObjectAggregatePivotMetric,
+} from "@/lib/object-aggregate-pivot";
+
+type ObjectAggregatePivotTableProps = {
+	pivot: ObjectAggregatePivot;
+	rowLabel: string;
+	columnLabel: string;
+	measureLabels: readonly string[];
+	metric: ObjectAggregatePivotMetric;
+	onMetricChange: (metric: ObjectAggregatePivotMetric) => void;
+	onDrillDown: (dimensions: ObjectAggregateDimensionValue[]) => void;
+	isPartial?: boolean;
+};
+
+function formatCell(cell: ObjectAggregatePivotCell | null): string {
+	if (!cell) return "";
+	return cell.value === null
+		? "—"
+		: formatObjectAggregateChartValue(cell.value);
+}
+
+export function ObjectAggregatePivotTable({
+	pivot,
+	rowLabel,
+	columnLabel,
+	measureLabels,
+	metric,
+	onMetricChange,
+	onDrillDown,
+	isPartial = false,
+}: ObjectAggregatePivotTableProps) {
+	const metricLabel =
+		metric === "count" ? "Object count" : measureLabels[metric];
+
+	function renderCell(
+		cell: ObjectAggregatePivotCell | null,
+		dimensions: ObjectAggregateDimensionValue[],
+		description: string,
+	) {
+		if (!cell) return <span className="muted">·</span>;
+		return (
+			<button
+				type="button"
+				className="object-pivot-cell-button"
+				onClick={() => onDrillDown(dimensions)}
+				title={`${cell.count} object${cell.count === 1 ? "" : "s"} · show ${description}`}
+			>
+				{formatCell(cell)}
+			</button>
+		);
+	}
+
+	return (
+		<div className="object-pivot">
+			<div className="object-pivot-toolbar">
+				<label className="object-aggregate-chart-metric">
+					<span>Cells show</span>
+					<select
+						value={String(metric)}
+						onChange={(event) =>
+							onMetricChange(
+								event.target.value === "count"
+									? "count"
+									: Number(event.target.value),
+							)
+						}
+						disabled={measureLabels.length === 0}
+					>
+						<option value="count">Object count</option>
+						{measureLabels.map((label, index) => (
+							<option key={label} value={index}>
+								{label}
+							</option>
+						))}
+					</select>
+				</label>
+				<p className="object-grouping-footnote">
+					Select a cell or total to list its objects.
+					{isPartial
+						? " Only the loaded aggregate page is tabulated; fetch more rows for complete totals."
+						: ""}
+				</p>
+			</div>
+			<section
+				className="object-table-scroll object-grouped-table-scroll"
+				aria-label="Object pivot table"
+			>
+				<table className="object-pivot-table">
+					<caption className="sr-only">
+						{`${metricLabel} by ${rowLabel} and ${columnLabel}`}
+					</caption>
+					<thead>
+						<tr>
+							<th scope="col">
+								{rowLabel} × {columnLabel}
+							</th>
+							{pivot.columns.map((column) => (
+								<th key={column.id} scope="col" title={column.label}>
+									{column.label}
+								</th>
+							))}
+							<th scope="col">Total</th>
+						</tr>
+					</thead>
+					<tbody>
+						{pivot.rows.map((row) => (
+							<tr key={row.id}>
+								<th scope="row" title={row.label}>
+									{row.label}
+								</th>
+								{row.cells.map((cell, index) => {
+									const column = pivot.columns[index];
+									return (
+										<td key={column.id}>
+											{renderCell(
+												cell,
+												[row.dimension, column.dimension],
+												`${row.label} · ${column.label}`,
+											)}
+										</td>
+									);
+								})}
+								<td className="object-pivot-total">
+									{renderCell(row.total, [row.dimension], row.label)}
+								</td>
+							</tr>
+						))}
+					</tbody>
+					<tfoot>
+						<tr>
+							<th scope="row">Total</th>
+							{pivot.columnTotals.map((cell, index) => {
+								const column = pivot.columns[index];
+								return (
+									<td key={column.id} className="object-pivot-total">
+										{renderCell(cell, [column.dimension], column.label)}
+									</td>
+								);
+							})}
+							<td className="object-pivot-total">{formatCell(pivot.total)}</td>
+						</tr>
+					</tfoot>
+				</table>
+			</section>
+		</div>
+	);
+}
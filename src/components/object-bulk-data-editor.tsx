@@ -0,0 +1,409 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import Link from "next/link";
+import { useRef, useState } from "react";
+
+import type { HubuumObject } from "@/lib/api/generated/models";
+import { patchObjectDataAtRevision } from "@/lib/api/object-data-patch";
+import { formatJsonDifference } from "@/lib/json-diff";
+import {
+	type BulkObjectDataOperationDraft,
+	type BulkObjectDataOperationKind,
+	type BulkObjectDataPreviewItem,
+	type BulkObjectDataResult,
+	buildBulkObjectDataPreview,
+	createBulkObjectDataOperationDraft,
+	parseBulkObjectDataOperations,
+	summarizeBulkObjectDataResults,
+	toBulkObjectDataResult,
+} from "@/lib/object-bulk-data-edit";
+import type { ObjectDataFieldType } from "@/lib/object-data-editing";
+
+type ObjectBulkDataEditorProps = {
+	classId: number;
+	objects: HubuumObject[];
+	onApplied: (results: BulkObjectDataResult[]) => Promise<void> | void;
+};
+
+const OPERATION_KINDS: Array<{
+	value: BulkObjectDataOperationKind;
+	label: string;
+}> = [
+	{ value: "set", label: "Set" },
+	{ value: "remove", label: "Remove" },
+	{ value: "rename", label: "Rename" },
+];
+
+const VALUE_TYPES: Array<{ value: ObjectDataFieldType; label: string }> = [
+	{ value: "string", label: "Text" },
+	{ value: "number", label: "Number" },
+	{ value: "boolean", label: "Boolean" },
+	{ value: "null", label: "Null" },
+	{ value: "object", label: "Object" },
+	{ value: "array", label: "Array" },
+];
+
+const RESULT_PILL_CLASS: Record<BulkObjectDataResult["status"], string> = {
+	succeeded: "status-pill status-pill--success",
+	conflicted: "status-pill status-pill--accent",
+	failed: "status-pill status-pill--danger",
+};
+
+function describePreviewItem(item: BulkObjectDataPreviewItem): string {
+	if (item.status === "invalid") {
+		return "Cannot apply";
+	}
+	if (!item.difference) {
+		return "No changes";
+	}
+	return `${item.difference.changeCount} ${
+		item.difference.changeCount === 1 ? "change" : "changes"
+	}`;
+}
+
+export function ObjectBulkDataEditor({
+	classId,
+	objects,
+	onApplied,
+}: ObjectBulkDataEditorProps) {
+	const nextDraftId = useRef(1);
+	const [drafts, setDrafts] = useState<BulkObjectDataOperationDraft[]>(() => [
+		createBulkObjectDataOperationDraft("operation-0"),
+	]);
+	const [formError, setFormError] = useState<string | null>(null);
+	const [preview, setPreview] = useState<BulkObjectDataPreviewItem[] | null>(
+		null,
+	);
+	const [results, setResults] = useState<BulkObjectDataResult[]>([]);
+
+	const changedItems =
+		preview?.filter((item) => item.status === "changed") ?? [];
+	const summary = summarizeBulkObjectDataResults(results);
+	const failedObjectIds = new Set(
+		results
+			.filter((result) => result.status === "failed")
+			.map((result) => result.objectId),
+	);
+
+	const applyMutation = useMutation({
+		mutationFn: async (items: BulkObjectDataPreviewItem[]) => {
+			const applied: BulkObjectDataResult[] = [];
+			for (const item of items) {
+				if (!item.plan) {
+					continue;
+				}
+				let result: BulkObjectDataResult;
+				try {
+					await patchObjectDataAtRevision(classId, item.objectId, {
+						revision: item.revision,
+						nextData: item.nextData,
+						patch: item.plan.patch,
+					});
+					result = toBulkObjectDataResult(item);
+				} catch (error) {
+					result = toBulkObjectDataResult(item, error);
+				}
+				applied.push(result);
+				setResults((current) => [
+					...current.filter((entry) => entry.objectId !== item.objectId),
+					result,
+				]);
+			}
+			return applied;
+		},
+		onSettled: async (applied) => {
+			if (applied?.length) {
+				await onApplied(applied);
+			}
+		},
+	});
+
+	function updateDraft(
+		id: string,
+		changes: Partial<BulkObjectDataOperationDraft>,
+	) {
+		setDrafts((current) =>
+			current.map((draft) =>
+				draft.id === id ? { ...draft, ...changes } : draft,
+			),
+		);
+		setPreview(null);
+		setFormError(null);
+	}
+
+	function addDraft() {
+		const id = `operation-${nextDraftId.current}`;
+		nextDraftId.current += 1;
+		setDrafts((current) => [
+			...current,
+			createBulkObjectDataOperationDraft(id),
+		]);
+		setPreview(null);
+	}
+
+	function removeDraft(id: string) {
+		setDrafts((current) => current.filter((draft) => draft.id !== id));
+		setPreview(null);
+		setFormError(null);
+	}
+
+	function buildPreview() {
+		const parsed = parseBulkObjectDataOperations(drafts);
+		if (!parsed.ok) {
+			setFormError(parsed.error);
+			setPreview(null);
+			return;
+		}
+		setFormError(null);
+		setResults([]);
+		setPreview(buildBulkObjectDataPreview(objects, parsed.operations));
+	}
+
+	function applyPreview() {
+		setResults([]);
+		applyMutation.mutate(changedItems);
+	}
+
+	function retryFailed() {
+		applyMutation.mutate(
+			changedItems.filter((item) => failedObjectIds.has(item.objectId)),
+		);
+	}
+
+	return (
+		<div className="stack object-bulk-data-editor">
+			<p className="muted">
+				Operations run in order against the data of each of the {objects.length}{" "}
+				selected object{objects.length === 1 ? "" : "s"}. Paths use dots and
+				brackets, for example <code>hardware.disks[0].size</code>.
+			</p>
+
+			<ol className="object-bulk-data-operations">
+				{drafts.map((draft, index) => (
+					<li key={draft.id} className="object-bulk-data-operation">
+						<label className="control-field">
+							<span>Operation</span>
+							<select
+								value={draft.kind}
+								onChange={(event) =>
+									updateDraft(draft.id, {
+										kind: event.target.value as BulkObjectDataOperationKind,
+									})
+								}
+								disabled={applyMutation.isPending}
+							>
+								{OPERATION_KINDS.map((option) => (
+									<option key={option.value} value={option.value}>
+										{option.label}
+									</option>
+								))}
+							</select>
+						</label>
+						<label className="control-field">
+							<span>{draft.kind === "rename" ? "From path" : "Path"}</span>
+							<input
+								value={draft.path}
+								onChange={(event) =>
+									updateDraft(draft.id, { path: event.target.value })
+								}
+								placeholder="hardware.rack.name"
+								disabled={applyMutation.isPending}
+							/>
+						</label>
+						{draft.kind === "rename" ? (
+							<label className="control-field">
+								<span>To path</span>
+								<input
+									value={draft.targetPath}
+									onChange={(event) =>
+										updateDraft(draft.id, { targetPath: event.target.value })
+									}
+									placeholder="location.rack"
+									disabled={applyMutation.isPending}
+								/>
+							</label>
+						) : null}
+						{draft.kind === "set" ? (
+							<>
+								<label className="control-field">
+									<span>Type</span>
+									<select
+										value={draft.valueType}
+										onChange={(event) =>
+											updateDraft(draft.id, {
+												valueType: event.target.value as ObjectDataFieldType,
+												value: "",
+											})
+										}
+										disabled={applyMutation.isPending}
+									>
+										{VALUE_TYPES.map((option) => (
+											<option key={option.value} value={option.value}>
+												{option.label}
+											</option>
+										))}
+									</select>
+								</label>
+								{draft.valueType === "boolean" ? (
+									<label className="control-field">
+										<span>Value</span>
+										<select
+											value={draft.value || "false"}
+											onChange={(event) =>
+												updateDraft(draft.id, { value: event.target.value })
+											}
+											disabled={applyMutation.isPending}
+										>
+											<option value="false">False</option>
+											<option value="true">True</option>
+										</select>
+									</label>
+								) : draft.valueType !== "null" ? (
+									<label className="control-field">
+										<span>Value</span>
+										<input
+											type={draft.valueType === "number" ? "number" : "text"}
+											step={draft.valueType === "number" ? "any" : undefined}
+											value={draft.value}
+											onChange={(event) =>
+												updateDraft(draft.id, { value: event.target.value })
+											}
+											placeholder={
+												draft.valueType === "object"
+													? "{}"
+													: draft.valueType === "array"
+														? "[]"
+														: undefined
+											}
+											disabled={applyMutation.isPending}
+										/>
+									</label>
+								) : null}
+							</>
+						) : null}
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => removeDraft(draft.id)}
+							disabled={drafts.length === 1 || applyMutation.isPending}
+							aria-label={`Remove operation ${index + 1}`}
+						>
+							Remove
+						</button>
+					</li>
+				))}
+			</ol>
+
+			{formError ? <div className="error-banner">{formError}</div> : null}
+
+			<div className="form-actions">
+				<button
+					type="button"
+					className="ghost"
+					onClick={addDraft}
+					disabled={applyMutation.isPending}
+				>
+					Add operation
+				</button>
+				<button
+					type="button"
+					className="ghost"
+					onClick={buildPreview}
+					disabled={applyMutation.isPending}
+				>
+					Preview changes
+				</button>
+			</div>
+
+			{preview ? (
+				<section className="stack" aria-label="Bulk edit preview">
+					<div className="event-diff-summary">
+						<h4>Preview</h4>
+						<span className="status-pill">
+							{changedItems.length} of {preview.length} object
+							{preview.length === 1 ? "" : "s"} change
+						</span>
+					</div>
+					<ul className="object-bulk-data-preview">
+						{preview.map((item) => {
+							const result = results.find(
+								(entry) => entry.objectId === item.objectId,
+							);
+							return (
+								<li key={item.objectId}>
+									<details>
+										<summary>
+											<Link href={`/objects/${classId}/${item.objectId}`}>
+												{item.name}
+											</Link>
+											<span
+												className={
+													item.status === "invalid"
+														? "status-pill status-pill--danger"
+														: "status-pill"
+												}
+											>
+												{describePreviewItem(item)}
+											</span>
+											{result ? (
+												<span className={RESULT_PILL_CLASS[result.status]}>
+													{result.status}
+												</span>
+											) : null}
+										</summary>
+										{item.error ? (
+											<div className="error-banner">{item.error}</div>
+										) : null}
+										{result?.message ? (
+											<div className="muted">{result.message}</div>
+										) : null}
+										{item.notes.map((note) => (
+											<div key={note} className="muted">
+												{note}
+											</div>
+										))}
+										{item.difference ? (
+											<div className="event-diff-json">
+												<pre>{formatJsonDifference(item.difference.value)}</pre>
+											</div>
+										) : null}
+									</details>
+								</li>
+							);
+						})}
+					</ul>
+
+					{results.length ? (
+						<div className="muted" aria-live="polite">
+							{summary.succeeded} succeeded, {summary.conflicted} conflicted,{" "}
+							{summary.failed} failed.
+							{summary.conflicted
+								? " Conflicted objects changed after the preview; preview again to include their latest data."
+								: ""}
+						</div>
+					) : null}
+
+					<div className="form-actions">
+						<button
+							type="button"
+							onClick={applyPreview}
+							disabled={applyMutation.isPending || changedItems.length === 0}
+						>
+							{applyMutation.isPending
+								? `Applying ${results.length} of ${changedItems.length}...`
+								: `Apply to ${changedItems.length} object${
+										changedItems.length === 1 ? "" : "s"
+									}`}
+						</button>
+						{summary.failed && !applyMutation.isPending ? (
+							<button type="button" className="ghost" onClick={retryFailed}>
+								Retry failed ({summary.failed})
+							</button>
+						) : null}
+					</div>
+				</section>
+			) : null}
+		</div>
+	);
+}
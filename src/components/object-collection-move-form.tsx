@@ -0,0 +1,272 @@
+"use client";
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { type FormEvent, useMemo, useState } from "react";
+
+import { fetchAllCollections } from "@/lib/api/collections";
+import {
+	fetchCanCreateObjectsInCollection,
+	moveObjectToCollection,
+} from "@/lib/api/object-collection-moves";
+import {
+	buildCollectionHierarchy,
+	formatCollectionOption,
+} from "@/lib/collection-hierarchy";
+import {
+	type ObjectCollectionMoveCandidate,
+	type ObjectCollectionMoveResult,
+	planObjectCollectionMove,
+	summarizeObjectCollectionMoveResults,
+	toObjectCollectionMoveResult,
+} from "@/lib/object-collection-move";
+import { useCurrentUserId } from "@/lib/use-current-user-id";
+
+type ObjectCollectionMoveFormProps = {
+	objects: ObjectCollectionMoveCandidate[];
+	canAdminister: boolean;
+	currentUsername: string | null;
+	excludeCollectionId?: number;
+	onMoved: (results: ObjectCollectionMoveResult[]) => Promise<void> | void;
+};
+
+export function ObjectCollectionMoveForm({
+	objects,
+	canAdminister,
+	currentUsername,
+	excludeCollectionId,
+	onMoved,
+}: ObjectCollectionMoveFormProps) {
+	const currentUserId = useCurrentUserId(currentUsername);
+	const [targetCollectionId, setTargetCollectionId] = useState("");
+	const [results, setResults] = useState<ObjectCollectionMoveResult[]>([]);
+	const [progress, setProgress] = useState({ completed: 0, total: 0 });
+
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+	});
+	const collectionHierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const parsedTargetId = Number.parseInt(targetCollectionId, 10);
+	const targetId = Number.isFinite(parsedTargetId) ? parsedTargetId : null;
+	const targetCollection =
+		targetId === null ? null : (collectionHierarchy.byId.get(targetId) ?? null);
+
+	const accessQuery = useQuery({
+		queryKey: ["collection", targetId, "create-object-access", currentUserId],
+		queryFn: async () => {
+			if (targetId === null || currentUserId === null) {
+				return false;
+			}
+			return fetchCanCreateObjectsInCollection(targetId, currentUserId);
+		},
+		enabled: targetId !== null && currentUserId !== null && !canAdminister,
+	});
+
+	const plan = useMemo(
+		() =>
+			targetId === null
+				? { moving: objects, unchanged: [] }
+				: planObjectCollectionMove(objects, targetId),
+		[objects, targetId],
+	);
+	const hasAccess = canAdminister || accessQuery.data === true;
+	const summary = summarizeObjectCollectionMoveResults(results);
+	const failedObjectIds = new Set(
+		results
+			.filter((result) => result.status === "failed")
+			.map((result) => result.objectId),
+	);
+
+	const moveMutation = useMutation({
+		mutationFn: async (payload: {
+			collectionId: number;
+			objects: ObjectCollectionMoveCandidate[];
+		}) => {
+			const moved: ObjectCollectionMoveResult[] = [];
+			for (const objectItem of payload.objects) {
+				let result: ObjectCollectionMoveResult;
+				try {
+					await moveObjectToCollection(objectItem, payload.collectionId);
+					result = toObjectCollectionMoveResult(objectItem);
+				} catch (error) {
+					result = toObjectCollectionMoveResult(objectItem, error);
+				}
+				moved.push(result);
+				setProgress((current) => ({
+					...current,
+					completed: current.completed + 1,
+				}));
+				setResults((current) => [
+					...current.filter((entry) => entry.objectId !== objectItem.id),
+					result,
+				]);
+			}
+			return moved;
+		},
+		onSettled: async (moved) => {
+			if (moved?.length) {
+				await onMoved(moved);
+			}
+		},
+	});
+
+	function startMove(objectsToMove: ObjectCollectionMoveCandidate[]) {
+		if (targetId === null || objectsToMove.length === 0) {
+			return;
+		}
+		setProgress({ completed: 0, total: objectsToMove.length });
+		moveMutation.mutate({ collectionId: targetId, objects: objectsToMove });
+	}
+
+	function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		setResults([]);
+		startMove(plan.moving);
+	}
+
+	return (
+		<form className="stack object-collection-move-form" onSubmit={onSubmit}>
+			<label className="control-field">
+				<span>Destination collection</span>
+				<select
+					value={targetCollectionId}
+					onChange={(event) => {
+						setTargetCollectionId(event.target.value);
+						setResults([]);
+					}}
+					disabled={moveMutation.isPending || collectionsQuery.isLoading}
+					required
+				>
+					<option value="">
+						{collectionsQuery.isLoading
+							? "Loading collections..."
+							: collectionsQuery.isError
+								? "Failed to load collections"
+								: "Select collection"}
+					</option>
+					{collectionHierarchy.flatNodes
+						.filter((node) => node.collection.id !== excludeCollectionId)
+						.map((node) => (
+							<option key={node.collection.id} value={node.collection.id}>
+								{formatCollectionOption(
+									node.collection,
+									collectionHierarchy.byId,
+								)}
+							</option>
+						))}
+				</select>
+			</label>
+
+			{targetCollection ? (
+				canAdminister ? null : currentUsername === null ? (
+					<span className="field-note field-note--warning">
+						Your account could not be identified, so access to{" "}
+						{targetCollection.name} cannot be verified.
+					</span>
+				) : accessQuery.isLoading || currentUserId === null ? (
+					<span className="field-note">Checking destination access...</span>
+				) : accessQuery.isError ? (
+					<span className="field-note field-note--warning">
+						{accessQuery.error instanceof Error
+							? accessQuery.error.message
+							: "Failed to check destination access."}
+					</span>
+				) : hasAccess ? (
+					<span className="field-note">
+						You can create objects in {targetCollection.name}.
+					</span>
+				) : (
+					<span className="field-note field-note--warning">
+						None of your groups grant Create object on {targetCollection.name},
+						so the move would be rejected.
+					</span>
+				)
+			) : null}
+
+			<p className="muted">
+				{plan.moving.length} of {objects.length} selected object
+				{objects.length === 1 ? "" : "s"} will move
+				{plan.unchanged.length
+					? `; ${plan.unchanged.length} already in this collection`
+					: ""}
+				.
+			</p>
+
+			{progress.total > 0 ? (
+				<div className="stack">
+					<div
+						className="export-progress"
+						role="progressbar"
+						aria-label="Move progress"
+						aria-valuemin={0}
+						aria-valuemax={progress.total}
+						aria-valuenow={progress.completed}
+					>
+						<span
+							style={{
+								width: `${(progress.completed / progress.total) * 100}%`,
+							}}
+						/>
+					</div>
+					<span className="muted" aria-live="polite">
+						{moveMutation.isPending
+							? `Moving ${progress.completed} of ${progress.total}...`
+							: `${summary.moved} moved, ${summary.failed} failed.`}
+					</span>
+				</div>
+			) : null}
+
+			{results.some((result) => result.status === "failed") ? (
+				<ul className="object-collection-move-failures">
+					{results
+						.filter((result) => result.status === "failed")
+						.map((result) => (
+							<li key={result.objectId}>
+								<Link href={`/objects/${result.classId}/${result.objectId}`}>
+									{result.name}
+								</Link>
+								<span className="muted">{result.message}</span>
+							</li>
+						))}
+				</ul>
+			) : null}
+
+			<div className="form-actions">
+				<button
+					type="submit"
+					disabled={
+						moveMutation.isPending ||
+						targetId === null ||
+						plan.moving.length === 0 ||
+						!hasAccess
+					}
+				>
+					{moveMutation.isPending
+						? "Moving..."
+						: `Move ${plan.moving.length} object${
+								plan.moving.length === 1 ? "" : "s"
+							}`}
+				</button>
+				{summary.failed && !moveMutation.isPending ? (
+					<button
+						type="button"
+						className="ghost"
+						onClick={() =>
+							startMove(
+								plan.moving.filter((objectItem) =>
+									failedObjectIds.has(objectItem.id),
+								),
+							)
+						}
+					>
+						Retry failed ({summary.failed})
+					</button>
+				) : null}
+			</div>
+		</form>
+	);
+}
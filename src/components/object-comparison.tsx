@@ -0,0 +1,339 @@
+"use client";
+
+import { useQueries } from "@tanstack/react-query";
+import Link from "next/link";
+import { useState } from "react";
+
+import { TableExportMenu } from "@/components/table-export-menu";
+import {
+	type ComparedObject,
+	fetchComparedObject,
+} from "@/lib/api/object-comparison";
+import { DEFAULT_RELATED_OBJECT_DEPTH_LIMIT } from "@/lib/object-relation-summary";
+import {
+	buildObjectComparisonHref,
+	buildObjectDataComparisonRows,
+	buildObjectValueComparisonRows,
+	countObjectDataDifferences,
+	formatObjectComparisonValue,
+	MIN_COMPARED_OBJECTS,
+	type ObjectComparisonItem,
+	type ObjectComparisonRow,
+	type ObjectComparisonRowStatus,
+} from "@/lib/object-comparison";
+import type { TableExportView } from "@/lib/table-export";
+
+type ObjectComparisonProps = {
+	items: ObjectComparisonItem[];
+};
+
+type ObjectComparisonExportRow = ObjectComparisonRow & {
+	section: string;
+};
+
+const STATUS_LABELS: Record<ObjectComparisonRowStatus, string> = {
+	same: "Same",
+	different: "Different",
+	missing: "Missing",
+};
+
+function getComparedObjectKey(entry: ComparedObject): string {
+	return `${entry.object.hubuum_class_id}-${entry.object.id}`;
+}
+
+function formatCount(value: number | null): string {
+	return value === null ? "-" : String(value);
+}
+
+export function ObjectComparison({ items }: ObjectComparisonProps) {
+	const [differencesOnly, setDifferencesOnly] = useState(false);
+	const objectQueries = useQueries({
+		queries: items.map((item) => ({
+			queryKey: ["object-comparison", item.classId, item.objectId],
+			queryFn: () => fetchComparedObject(item),
+		})),
+	});
+
+	const isLoading = objectQueries.some((query) => query.isLoading);
+	const failedQuery = objectQueries.find((query) => query.isError);
+	const compared = objectQueries
+		.map((query) => query.data)
+		.filter((entry): entry is ComparedObject => entry !== undefined);
+	const isReady =
+		!isLoading && !failedQuery && compared.length === items.length;
+
+	const dataList = compared.map((entry) => entry.object.data);
+	const comparison = {
+		data: buildObjectDataComparisonRows(dataList),
+		computed: buildObjectValueComparisonRows(
+			compared.map((entry) => entry.computedValues),
+		),
+		differenceCounts: countObjectDataDifferences(dataList),
+	};
+
+	const objectLabels = compared.map(
+		(entry) => `${entry.object.name} (#${entry.object.id})`,
+	);
+	const visibleDataRows = differencesOnly
+		? comparison.data.rows.filter((row) => row.status !== "same")
+		: comparison.data.rows;
+	const visibleComputedRows = differencesOnly
+		? comparison.computed.filter((row) => row.status !== "same")
+		: comparison.computed;
+	const differingDataCount = comparison.data.rows.filter(
+		(row) => row.status !== "same",
+	).length;
+
+	const exportView: TableExportView<ObjectComparisonExportRow> = {
+		id: "object-comparison",
+		fileName: "object-comparison",
+		sheetName: "Comparison",
+		columns: [
+			{ key: "section", label: "Section", getValue: (row) => row.section },
+			{ key: "path", label: "Path", getValue: (row) => row.path },
+			{
+				key: "status",
+				label: "Status",
+				getValue: (row) => STATUS_LABELS[row.status],
+			},
+			...objectLabels.map((label, index) => ({
+				key: `object-${index}`,
+				label,
+				getValue: (row: ObjectComparisonExportRow) =>
+					formatObjectComparisonValue(row.values[index] ?? null),
+			})),
+		],
+		rows: [
+			...visibleDataRows.map((row) => ({ ...row, section: "Data" })),
+			...visibleComputedRows.map((row) => ({ ...row, section: "Computed" })),
+		],
+	};
+
+	function renderValueRows(rows: ObjectComparisonRow[], emptyLabel: string) {
+		if (rows.length === 0) {
+			return (
+				<tr>
+					<td colSpan={compared.length + 1} className="muted">
+						{emptyLabel}
+					</td>
+				</tr>
+			);
+		}
+
+		return rows.map((row) => (
+			<tr
+				key={row.id}
+				className={`object-comparison-row object-comparison-row--${row.status}`}
+			>
+				<th scope="row">
+					<code>{row.path}</code>
+					{row.status === "same" ? null : (
+						<span
+							className={`status-pill ${
+								row.status === "missing"
+									? "status-pill--danger"
+									: "status-pill--accent"
+							}`}
+						>
+							{STATUS_LABELS[row.status]}
+						</span>
+					)}
+				</th>
+				{row.values.map((value, index) => (
+					<td
+						// biome-ignore lint/suspicious/noArrayIndexKey: columns follow the compared object order.
+						key={index}
+						className={
+							value === null
+								? "object-comparison-cell object-comparison-cell--missing"
+								: "object-comparison-cell"
+						}
+					>
+						{formatObjectComparisonValue(value)}
+					</td>
+				))}
+			</tr>
+		));
+	}
+
+	return (
+		<section className="stack object-comparison-page">
+			<header className="stack">
+				<p className="eyebrow">Objects</p>
+				<h2>Compare objects</h2>
+				<p className="muted">
+					Data paths, computed values, and relation counts side by side. The
+					first object is the baseline for change counts.
+				</p>
+			</header>
+
+			{items.length < MIN_COMPARED_OBJECTS ? (
+				<div className="card empty-state">
+					Select two to four objects in the objects explorer or in search
+					results to compare them.
+				</div>
+			) : isLoading ? (
+				<div className="card muted">Loading objects...</div>
+			) : failedQuery ? (
+				<div className="error-banner">
+					{failedQuery.error instanceof Error
+						? failedQuery.error.message
+						: "Failed to load objects."}
+				</div>
+			) : isReady ? (
+				<>
+					<div className="card table-wrap">
+						<table className="object-comparison-table">
+							<thead>
+								<tr>
+									<th scope="col">Object</th>
+									{compared.map((entry, index) => (
+										<th scope="col" key={getComparedObjectKey(entry)}>
+											<Link
+												href={`/objects/${entry.object.hubuum_class_id}/${entry.object.id}`}
+											>
+												{entry.object.name}
+											</Link>
+											{items.length > MIN_COMPARED_OBJECTS ? (
+												<Link
+													className="muted object-comparison-remove"
+													href={buildObjectComparisonHref(
+														items.filter((_, itemIndex) => itemIndex !== index),
+													)}
+												>
+													Remove
+												</Link>
+											) : null}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								<tr>
+									<th scope="row">Class</th>
+									{compared.map((entry) => (
+										<td key={getComparedObjectKey(entry)}>
+											{entry.className} (#{entry.object.hubuum_class_id})
+										</td>
+									))}
+								</tr>
+								<tr>
+									<th scope="row">Collection</th>
+									{compared.map((entry) => (
+										<td key={getComparedObjectKey(entry)}>
+											#{entry.object.collection_id}
+										</td>
+									))}
+								</tr>
+								<tr>
+									<th scope="row">Description</th>
+									{compared.map((entry) => (
+										<td key={getComparedObjectKey(entry)}>
+											{entry.object.description || "-"}
+										</td>
+									))}
+								</tr>
+								<tr>
+									<th scope="row">Direct relations</th>
+									{compared.map((entry) => (
+										<td key={getComparedObjectKey(entry)}>
+											{formatCount(entry.directRelationCount)}
+										</td>
+									))}
+								</tr>
+								<tr>
+									<th scope="row">
+										Reachable within {DEFAULT_RELATED_OBJECT_DEPTH_LIMIT} hops
+									</th>
+									{compared.map((entry) => (
+										<td key={getComparedObjectKey(entry)}>
+											{formatCount(entry.reachableRelationCount)}
+										</td>
+									))}
+								</tr>
+								<tr>
+									<th scope="row">Data changes vs. first</th>
+									{comparison.differenceCounts.map((count, index) => (
+										// biome-ignore lint/suspicious/noArrayIndexKey: columns follow the compared object order.
+										<td key={index}>{count === null ? "Baseline" : count}</td>
+									))}
+								</tr>
+							</tbody>
+						</table>
+					</div>
+
+					<div className="object-comparison-toolbar">
+						<label className="object-comparison-toggle">
+							<input
+								type="checkbox"
+								checked={differencesOnly}
+								onChange={(event) => setDifferencesOnly(event.target.checked)}
+							/>
+							<span>Only show differences</span>
+						</label>
+						<span className="muted">
+							{differingDataCount} of {comparison.data.rows.length} data path
+							{comparison.data.rows.length === 1 ? "" : "s"} differ.
+						</span>
+						<TableExportMenu view={exportView} compact />
+					</div>
+
+					{comparison.data.truncated ? (
+						<span className="field-note field-note--warning">
+							Some data was too large or deeply nested to compare in full.
+						</span>
+					) : null}
+
+					<section className="card table-wrap" aria-label="Data comparison">
+						<table className="object-comparison-table">
+							<thead>
+								<tr>
+									<th scope="col">Data path</th>
+									{objectLabels.map((label) => (
+										<th scope="col" key={label}>
+											{label}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{renderValueRows(
+									visibleDataRows,
+									differencesOnly
+										? "All data paths match."
+										: "None of the objects have data.",
+								)}
+							</tbody>
+						</table>
+					</section>
+
+					<section
+						className="card table-wrap"
+						aria-label="Computed value comparison"
+					>
+						<table className="object-comparison-table">
+							<thead>
+								<tr>
+									<th scope="col">Computed field</th>
+									{objectLabels.map((label) => (
+										<th scope="col" key={label}>
+											{label}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{renderValueRows(
+									visibleComputedRows,
+									differencesOnly
+										? "All computed values match."
+										: "No computed values.",
+								)}
+							</tbody>
+						</table>
+					</section>
+				</>
+			) : null}
+		</section>
+	);
+}
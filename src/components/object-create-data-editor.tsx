@@ -3,6 +3,7 @@
 import { useMemo, useState } from "react";
 
 import { JsonEditor } from "@/components/json-editor";
+import { JsonSchemaForm } from "@/components/json-schema-form";
 import {
 	buildObjectCreateDataModel,
 	isObjectCreatePathAllowed,
@@ -17,6 +18,7 @@ import {
 	type ObjectDataFieldType,
 } from "@/lib/object-data-editing";
 import { parseJsonText, validateJsonAgainstSchema } from "@/lib/json-inspector";
+import { hasJsonSchemaForm } from "@/lib/json-schema-form";
 
 type ObjectCreateDataEditorProps = {
 	disabled?: boolean;
@@ -27,7 +29,18 @@ type ObjectCreateDataEditorProps = {
 	value: string;
 };
 
+type ObjectCreateDataTab = "data" | "form" | "json";
+
 const NEW_FIELD_OPTION = "__new_field__";
+const DATA_TABS: Array<{
+	id: ObjectCreateDataTab;
+	label: string;
+	description: string;
+}> = [
+	{ id: "data", label: "Data", description: "Guided fields" },
+	{ id: "form", label: "Form", description: "Class schema" },
+	{ id: "json", label: "JSON", description: "Raw document" },
+];
 const FIELD_TYPES: Array<{ label: string; value: ObjectDataFieldType }> = [
 	{ label: "Text", value: "string" },
 	{ label: "Number", value: "number" },
@@ -142,7 +155,7 @@ export function ObjectCreateDataEditor({
 	validationEnabled,
 	value,
 }: ObjectCreateDataEditorProps) {
-	const [activeTab, setActiveTab] = useState<"data" | "json">("data");
+	const [activeTab, setActiveTab] = useState<ObjectCreateDataTab>("data");
 	const [isAddRowOpen, setAddRowOpen] = useState(false);
 	const [draftFieldId, setDraftFieldId] = useState("");
 	const [draftKnownValue, setDraftKnownValue] = useState<unknown>("");
@@ -152,6 +165,9 @@ export function ObjectCreateDataEditor({
 	const [newFieldValue, setNewFieldValue] = useState("");
 	const [newFieldError, setNewFieldError] = useState<string | null>(null);
 	const parsed = useMemo(() => parseJsonText(value), [value]);
+	const tabs = hasJsonSchemaForm(schema)
+		? DATA_TABS
+		: DATA_TABS.filter((tab) => tab.id !== "form");
 	const data =
 		parsed.kind === "success" && isRecord(parsed.value) ? parsed.value : null;
 	const model = useMemo(
@@ -276,11 +292,13 @@ export function ObjectCreateDataEditor({
 
 	function onTabKeyDown(
 		event: React.KeyboardEvent<HTMLButtonElement>,
-		tab: "data" | "json",
+		tab: ObjectCreateDataTab,
 	) {
 		if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
 		event.preventDefault();
-		const nextTab = tab === "data" ? "json" : "data";
+		const index = tabs.findIndex((candidate) => candidate.id === tab);
+		const offset = event.key === "ArrowLeft" ? -1 : 1;
+		const nextTab = tabs[(index + offset + tabs.length) % tabs.length].id;
 		setActiveTab(nextTab);
 		window.setTimeout(
 			() => document.getElementById(`object-create-${nextTab}-tab`)?.focus(),
@@ -295,44 +313,28 @@ export function ObjectCreateDataEditor({
 				role="tablist"
 				aria-label="Object data editor"
 			>
-				<button
-					type="button"
-					id="object-create-data-tab"
-					role="tab"
-					aria-selected={activeTab === "data"}
-					aria-controls="object-create-data-panel"
-					tabIndex={activeTab === "data" ? 0 : -1}
-					className={activeTab === "data" ? "is-active" : "ghost"}
-					onClick={() => setActiveTab("data")}
-					onKeyDown={(event) => onTabKeyDown(event, "data")}
-				>
-					<span className="object-create-data-tab-index" aria-hidden="true">
-						01
-					</span>
-					<span className="object-create-data-tab-copy">
-						<strong>Data</strong>
-						<small>Guided fields</small>
-					</span>
-				</button>
-				<button
-					type="button"
-					id="object-create-json-tab"
-					role="tab"
-					aria-selected={activeTab === "json"}
-					aria-controls="object-create-json-panel"
-					tabIndex={activeTab === "json" ? 0 : -1}
-					className={activeTab === "json" ? "is-active" : "ghost"}
-					onClick={() => setActiveTab("json")}
-					onKeyDown={(event) => onTabKeyDown(event, "json")}
-				>
-					<span className="object-create-data-tab-index" aria-hidden="true">
-						02
-					</span>
-					<span className="object-create-data-tab-copy">
-						<strong>JSON</strong>
-						<small>Raw document</small>
-					</span>
-				</button>
+				{tabs.map((tab, index) => (
+					<button
+						key={tab.id}
+						type="button"
+						id={`object-create-${tab.id}-tab`}
+						role="tab"
+						aria-selected={activeTab === tab.id}
+						aria-controls={`object-create-${tab.id}-panel`}
+						tabIndex={activeTab === tab.id ? 0 : -1}
+						className={activeTab === tab.id ? "is-active" : "ghost"}
+						onClick={() => setActiveTab(tab.id)}
+						onKeyDown={(event) => onTabKeyDown(event, tab.id)}
+					>
+						<span className="object-create-data-tab-index" aria-hidden="true">
+							{String(index + 1).padStart(2, "0")}
+						</span>
+						<span className="object-create-data-tab-copy">
+							<strong>{tab.label}</strong>
+							<small>{tab.description}</small>
+						</span>
+					</button>
+				))}
 			</div>
 
 			{activeTab === "data" ? (
@@ -595,6 +597,30 @@ export function ObjectCreateDataEditor({
 						</div>
 					) : null}
 				</div>
+			) : activeTab === "form" ? (
+				<div
+					id="object-create-form-panel"
+					role="tabpanel"
+					aria-labelledby="object-create-form-tab"
+					className="object-create-data-panel"
+				>
+					{data ? (
+						<JsonSchemaForm
+							id="object-create-schema-form"
+							schema={schema}
+							value={data}
+							onChange={updateData}
+							disabled={disabled}
+						/>
+					) : (
+						<div className="error-banner object-create-data-invalid">
+							Data must be a valid JSON object. Open the JSON tab to fix it.
+							<button type="button" onClick={() => setActiveTab("json")}>
+								Open JSON
+							</button>
+						</div>
+					)}
+				</div>
 			) : (
 				<div
 					id="object-create-json-panel"
@@ -14,9 +14,12 @@ import {
 	useState,
 } from "react";
 import { CreateModal } from "@/components/create-modal";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { InlineFieldEditTrigger } from "@/components/inline-field-edit-trigger";
 import { JsonEditor } from "@/components/json-editor";
+import { JsonSchemaForm } from "@/components/json-schema-form";
 import { ObjectDetailTracker } from "@/components/object-detail-tracker";
+import { ObjectRelationGraph } from "@/components/object-relation-graph";
 import { PinButton } from "@/components/pin-button";
 import { RemoteInvocationsPanel } from "@/components/remote-invocations-panel";
 import { ResourceActivityPanel } from "@/components/resource-activity-panel";
@@ -49,6 +52,7 @@ import {
 import { useConfirm } from "@/lib/confirm-context";
 import { TITLE_STATE_EVENT } from "@/lib/create-events";
 import type { ConsoleGroup } from "@/lib/identity-scopes";
+import { hasJsonSchemaForm } from "@/lib/json-schema-form";
 import {
 	createObjectDataFieldValue,
 	getObjectDataFieldType,
@@ -84,6 +88,7 @@ type ObjectDetailProps = {
 };
 
 type EditableField = "name" | "description" | "collection" | "data";
+type ConnectionView = "list" | "graph";
 
 const CONNECTION_PROPERTY_LIMIT = 12;
 const CONNECTION_DEPTH_OPTIONS = [1, 2, 3, 5] as const;
@@ -346,6 +351,10 @@ function parseObjectDataDraft(
 	}
 }
 
+function isObjectDataRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 function formatObjectDataPatchPath(path: string): string {
 	if (!path) return "Data root";
 	return path
@@ -698,6 +707,7 @@ export function ObjectDetail({
 		DEFAULT_RELATED_OBJECT_DEPTH_LIMIT,
 	);
 	const [showAllRelations, setShowAllRelations] = useState(false);
+	const [connectionView, setConnectionView] = useState<ConnectionView>("list");
 	const [includeSelfClass, setIncludeSelfClass] = useState(
 		DEFAULT_INCLUDE_SELF_CLASS,
 	);
@@ -706,6 +716,7 @@ export function ObjectDetail({
 	const [, setRelatedObjectPathContextRevision] = useState(0);
 	const [isRawDataViewOpen, setRawDataViewOpen] = useState(false);
 	const [isAdvancedDataEditorOpen, setAdvancedDataEditorOpen] = useState(false);
+	const [isSchemaFormOpen, setSchemaFormOpen] = useState(false);
 	const [isAddDataFieldOpen, setAddDataFieldOpen] = useState(false);
 	const [activeDataFieldId, setActiveDataFieldId] = useState<string | null>(
 		null,
@@ -967,6 +978,7 @@ export function ObjectDetail({
 		setDataDraft(updatedObject.data);
 		setAddDataFieldOpen(false);
 		setAdvancedDataEditorOpen(false);
+		setSchemaFormOpen(false);
 		setActiveDataFieldId(null);
 		setNewDataFieldError(null);
 		setCollectionId(String(updatedObject.collection_id));
@@ -1123,6 +1135,7 @@ export function ObjectDetail({
 		setDataDraft(objectData.data);
 		setAddDataFieldOpen(false);
 		setAdvancedDataEditorOpen(false);
+		setSchemaFormOpen(false);
 		setActiveDataFieldId(null);
 		setNewDataFieldPath("");
 		setNewDataFieldType("string");
@@ -1143,6 +1156,7 @@ export function ObjectDetail({
 		setDataDraft(objectData.data);
 		setAddDataFieldOpen(false);
 		setAdvancedDataEditorOpen(false);
+		setSchemaFormOpen(false);
 		setActiveDataFieldId(null);
 		setNewDataFieldPath("");
 		setNewDataFieldType("string");
@@ -1183,6 +1197,7 @@ export function ObjectDetail({
 			setDataDraft(objectData.data);
 			setAddDataFieldOpen(false);
 			setAdvancedDataEditorOpen(false);
+			setSchemaFormOpen(false);
 			setActiveDataFieldId(null);
 			setNewDataFieldError(null);
 		}
@@ -1292,6 +1307,10 @@ export function ObjectDetail({
 		enabled: isAdvancedDataEditorOpen && !isSavingOrDeleting,
 		onCancel: () => setAdvancedDataEditorOpen(false),
 	});
+	useEscapeToCancel({
+		enabled: isSchemaFormOpen && !isSavingOrDeleting,
+		onCancel: () => setSchemaFormOpen(false),
+	});
 
 	function changeNewDataFieldType(type: ObjectDataFieldType) {
 		setNewDataFieldType(type);
@@ -1485,6 +1504,21 @@ export function ObjectDetail({
 		const confirmed = await confirm({
 			title: `Delete ${objectLabel}?`,
 			description: "This removes the object and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "object",
+						resources: [
+							{
+								id: objectId,
+								name: objectLabel,
+								classId,
+								collectionId: objectQuery.data?.collection_id,
+							},
+						],
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -2248,6 +2282,42 @@ export function ObjectDetail({
 										JSON.
 									</div>
 								) : null}
+								{hasJsonSchemaForm(currentClass?.json_schema) ? (
+									<details
+										className="object-property-inspector object-data-schema-form"
+										data-object-nonsubmit
+										open={isSchemaFormOpen}
+										onToggle={(event) => {
+											setSchemaFormOpen(event.currentTarget.open);
+											if (event.currentTarget.open) {
+												setActiveDataFieldId(null);
+											}
+										}}
+									>
+										<summary>
+											<span>Edit with form</span>
+											<span>Fields generated from the class schema</span>
+										</summary>
+										{isSchemaFormOpen ? (
+											<div className="object-property-inspector-panel">
+												{isObjectDataRecord(dataDraft) ? (
+													<JsonSchemaForm
+														id="object-detail-schema-form"
+														schema={currentClass?.json_schema}
+														value={dataDraft}
+														onChange={commitDataDraft}
+														disabled={isSavingOrDeleting}
+													/>
+												) : (
+													<div className="object-property-note">
+														Object data is not a JSON object. Use the JSON
+														editor to replace it.
+													</div>
+												)}
+											</div>
+										) : null}
+									</details>
+								) : null}
 								<details
 									className="object-property-inspector object-data-advanced-editor"
 									data-object-nonsubmit
@@ -2426,6 +2496,25 @@ export function ObjectDetail({
 								className="object-property-section-actions object-connection-header-actions"
 								data-object-nonsubmit
 							>
+								<fieldset className="view-switcher">
+									<legend className="sr-only">Connection view</legend>
+									<button
+										type="button"
+										className={connectionView === "list" ? "is-active" : ""}
+										aria-pressed={connectionView === "list"}
+										onClick={() => setConnectionView("list")}
+									>
+										List
+									</button>
+									<button
+										type="button"
+										className={connectionView === "graph" ? "is-active" : ""}
+										aria-pressed={connectionView === "graph"}
+										onClick={() => setConnectionView("graph")}
+									>
+										Graph
+									</button>
+								</fieldset>
 								<fieldset className="object-connection-depth-picker">
 									<legend className="sr-only">Connection depth</legend>
 									<span aria-hidden="true">Depth</span>
@@ -2518,12 +2607,24 @@ export function ObjectDetail({
 							</div>
 						</header>
 
-						{relatedObjectsQuery.isLoading ? (
+						{connectionView === "graph" ? (
+							<ObjectRelationGraph
+								key={`${relationDepthLimit}:${includeSelfClass}:${ignoredClassIds.join(",")}`}
+								classId={objectData.hubuum_class_id}
+								objectId={objectId}
+								objectName={objectData.name}
+								depthLimit={relationDepthLimit}
+								includeSelfClass={includeSelfClass}
+								ignoredClassIds={ignoredClassIds}
+								classNameById={classNameById}
+							/>
+						) : null}
+						{connectionView === "list" && relatedObjectsQuery.isLoading ? (
 							<div className="object-property-empty" role="status">
 								Loading connected objects...
 							</div>
 						) : null}
-						{relatedObjectsQuery.isError ? (
+						{connectionView === "list" && relatedObjectsQuery.isError ? (
 							<div className="object-property-empty error-banner" role="alert">
 								Failed to load connected objects.{" "}
 								{relatedObjectsQuery.error instanceof Error
@@ -2531,7 +2632,9 @@ export function ObjectDetail({
 									: "Unknown error"}
 							</div>
 						) : null}
-						{!relatedObjectsQuery.isLoading && !relatedObjectsQuery.isError ? (
+						{connectionView === "list" &&
+						!relatedObjectsQuery.isLoading &&
+						!relatedObjectsQuery.isError ? (
 							relatedObjects.length ? (
 								<>
 									<dl className="object-property-grid object-property-grid--connections">
@@ -2736,6 +2839,14 @@ export function ObjectDetail({
 			<ResourceActivityPanel
 				scope={{ type: "object", classId, objectId }}
 				title="Object audit and history"
+				onRestored={async () => {
+					await queryClient.invalidateQueries({
+						queryKey: ["object", classId, objectId],
+					});
+					await queryClient.invalidateQueries({
+						queryKey: ["objects", classId],
+					});
+				}}
 			/>
 		</section>
 	);
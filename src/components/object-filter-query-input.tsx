@@ -0,0 +1,167 @@
+"use client";
+
+import { acceptCompletion, autocompletion } from "@codemirror/autocomplete";
+import { linter } from "@codemirror/lint";
+import { type Extension, Prec } from "@codemirror/state";
+import { keymap } from "@codemirror/view";
+import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
+
+import { CodeEditor } from "@/components/code-editor";
+import {
+	formatObjectFilterQuery,
+	type ObjectFilterQueryError,
+	parseObjectFilterQuery,
+} from "@/lib/object-filter-query";
+import { createObjectFilterQueryCompletionSource } from "@/lib/object-filter-query-completion";
+import type {
+	ServerFilterComputedField,
+	ServerFilterDataField,
+} from "@/lib/object-server-filter-fields";
+import {
+	type ObjectServerFilter,
+	parseObjectServerFilters,
+	serializeObjectServerFilters,
+} from "@/lib/object-server-filters";
+
+type ObjectFilterQueryInputProps = {
+	filters: ObjectServerFilter[];
+	dataFields: ServerFilterDataField[];
+	computedFields: ServerFilterComputedField[];
+	onChange: (filters: ObjectServerFilter[]) => void;
+	disabled?: boolean;
+};
+
+export function ObjectFilterQueryInput({
+	filters,
+	dataFields,
+	computedFields,
+	onChange,
+	disabled = false,
+}: ObjectFilterQueryInputProps) {
+	const filtersSignature = serializeObjectServerFilters(filters);
+	const [query, setQuery] = useState(() => formatObjectFilterQuery(filters));
+	const [errors, setErrors] = useState<ObjectFilterQueryError[]>([]);
+	const appliedSignatureRef = useRef(filtersSignature);
+	const applyQueryRef = useRef<(text: string) => void>(() => {});
+
+	// Filters edited elsewhere (the filter menu, saved views, links) replace the
+	// text; filters applied from this input keep the text as typed, e.g. "-7d".
+	useEffect(() => {
+		if (filtersSignature === appliedSignatureRef.current) return;
+		appliedSignatureRef.current = filtersSignature;
+		setQuery(
+			formatObjectFilterQuery(parseObjectServerFilters(filtersSignature)),
+		);
+		setErrors([]);
+	}, [filtersSignature]);
+
+	function applyQuery(text: string) {
+		const result = parseObjectFilterQuery(text, { dataFields, computedFields });
+		setErrors(result.errors);
+		if (result.errors.length > 0) return;
+		const nextSignature = serializeObjectServerFilters(result.filters);
+		if (nextSignature === filtersSignature) return;
+		appliedSignatureRef.current = nextSignature;
+		onChange(result.filters);
+	}
+
+	applyQueryRef.current = applyQuery;
+
+	const dataFieldsKey = JSON.stringify(dataFields);
+	const computedFieldsKey = JSON.stringify(computedFields);
+	// biome-ignore lint/correctness/useExhaustiveDependencies: the field keys are stable proxies for the arrays
+	const extensions = useMemo<Extension[]>(
+		() => [
+			Prec.highest(
+				keymap.of([
+					{
+						key: "Enter",
+						run: (view) => {
+							if (acceptCompletion(view)) return true;
+							applyQueryRef.current(view.state.doc.toString());
+							return true;
+						},
+					},
+					{ key: "Tab", run: acceptCompletion },
+				]),
+			),
+			autocompletion({
+				activateOnTyping: true,
+				closeOnBlur: true,
+				maxRenderedOptions: 14,
+				tooltipClass: () => "template-completion-tooltip",
+				optionClass: () => "template-completion-option",
+				override: [
+					createObjectFilterQueryCompletionSource({
+						dataFields,
+						computedFields,
+					}),
+				],
+			}),
+			linter(
+				(view) =>
+					parseObjectFilterQuery(view.state.doc.toString(), {
+						dataFields,
+						computedFields,
+					}).errors.map((error) => ({
+						from: error.from,
+						to: error.to,
+						severity: "error" as const,
+						message: error.message,
+					})),
+				{ delay: 400 },
+			),
+		],
+		[dataFieldsKey, computedFieldsKey],
+	);
+
+	function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		applyQuery(query);
+	}
+
+	function clearQuery() {
+		setQuery("");
+		applyQuery("");
+	}
+
+	return (
+		<form className="object-filter-query" onSubmit={onSubmit}>
+			<CodeEditor
+				value={query}
+				onChange={(value) => {
+					setQuery(value);
+					if (errors.length > 0) setErrors([]);
+				}}
+				rows={1}
+				extensions={extensions}
+				className="template-code-surface object-filter-query-editor"
+				ariaLabel="Filter query"
+				placeholder='Filter query, e.g. data.os.version >= 9 and name ~ "web" and updated_at > -7d'
+				disabled={disabled}
+			/>
+			<button type="submit" className="ghost" disabled={disabled}>
+				Apply
+			</button>
+			{query.trim() || filters.length > 0 ? (
+				<button
+					type="button"
+					className="ghost"
+					onClick={clearQuery}
+					disabled={disabled}
+				>
+					Clear
+				</button>
+			) : null}
+			{errors.length > 0 ? (
+				<ul className="object-filter-query-errors" role="alert">
+					{errors.map((error) => (
+						<li key={`${error.from}:${error.message}`}>
+							<span>Column {error.from + 1}:</span> {error.message}
+						</li>
+					))}
+				</ul>
+			) : null}
+		</form>
+	);
+}
@@ -3,7 +3,10 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { ObjectAggregateMeasureOperation } from "@/lib/api/generated/models";
 import type { ObjectAggregateMeasure } from "@/lib/api/object-aggregates";
-import type { ObjectGroupSort } from "@/lib/object-grouping";
+import {
+	MAX_OBJECT_GROUPING_LEVELS,
+	type ObjectGroupSort,
+} from "@/lib/object-grouping";
 import { useEscapeToCancel } from "@/lib/use-escape-to-cancel";
 
 export type ObjectGroupingFieldSection =
@@ -35,11 +38,13 @@ export type ObjectAggregateMeasureSelection = ObjectAggregateMeasure & {
 
 type ObjectGroupingMenuProps = {
 	fields: readonly ObjectGroupingField[];
-	fieldId: string | null;
+	fieldIds: readonly string[];
+	pivotFieldId?: string | null;
 	measureFields: readonly ObjectAggregateMeasureField[];
 	measures: readonly ObjectAggregateMeasureSelection[];
 	sort: ObjectGroupSort;
-	onFieldChange: (fieldId: string | null) => void;
+	onFieldsChange: (fieldIds: string[]) => void;
+	onPivotFieldChange?: (fieldId: string | null) => void;
 	onMeasuresChange: (measures: ObjectAggregateMeasureSelection[]) => void;
 	onSortChange: (sort: ObjectGroupSort) => void;
 	disabled?: boolean;
@@ -82,11 +87,13 @@ function IconGroup() {
 
 export function ObjectGroupingMenu({
 	fields,
-	fieldId,
+	fieldIds,
+	pivotFieldId = null,
 	measureFields,
 	measures,
 	sort,
-	onFieldChange,
+	onFieldsChange,
+	onPivotFieldChange,
 	onMeasuresChange,
 	onSortChange,
 	disabled = false,
@@ -103,12 +110,52 @@ export function ObjectGroupingMenu({
 			})).filter((entry) => entry.fields.length > 0),
 		[fields],
 	);
-	const selectedField = fields.find((field) => field.id === fieldId) ?? null;
-	const usesServerAggregation =
-		Boolean(selectedField?.serverGroupBy) || measures.length > 0;
+	const selectedFields = fieldIds
+		.map((fieldId) => fields.find((field) => field.id === fieldId))
+		.filter((field): field is ObjectGroupingField => Boolean(field));
+	const usesServerGrouping =
+		selectedFields.length > 0 &&
+		selectedFields.every((field) => field.serverGroupBy);
+	const usesServerAggregation = usesServerGrouping || measures.length > 0;
 	const canConfigureMeasures =
-		selectedField === null || Boolean(selectedField.serverGroupBy);
-	const activeCount = (selectedField ? 1 : 0) + measures.length;
+		selectedFields.length === 0 || usesServerGrouping;
+	const canPivot =
+		selectedFields.length === 1 && Boolean(selectedFields[0].serverGroupBy);
+	const pivotFields = useMemo(
+		() =>
+			fieldsBySection
+				.map((entry) => ({
+					...entry,
+					fields: entry.fields.filter(
+						(field) => field.serverGroupBy && !fieldIds.includes(field.id),
+					),
+				}))
+				.filter((entry) => entry.fields.length > 0),
+		[fieldIds, fieldsBySection],
+	);
+	const levelCount = Math.min(
+		selectedFields.length + 1,
+		MAX_OBJECT_GROUPING_LEVELS,
+	);
+	const activeCount =
+		selectedFields.length + (pivotFieldId ? 1 : 0) + measures.length;
+
+	function setLevelField(index: number, nextFieldId: string) {
+		const nextFieldIds = selectedFields.map((field) => field.id);
+		if (nextFieldId) {
+			nextFieldIds[index] = nextFieldId;
+		} else {
+			nextFieldIds.splice(index, 1);
+		}
+		onFieldsChange(nextFieldIds);
+	}
+
+	function moveLevel(index: number, offset: -1 | 1) {
+		const nextFieldIds = selectedFields.map((field) => field.id);
+		const [moved] = nextFieldIds.splice(index, 1);
+		nextFieldIds.splice(index + offset, 0, moved);
+		onFieldsChange(nextFieldIds);
+	}
 
 	function addMeasure() {
 		const field = measureFields[0];
@@ -137,7 +184,8 @@ export function ObjectGroupingMenu({
 	}
 
 	function clearAggregation() {
-		onFieldChange(null);
+		onFieldsChange([]);
+		onPivotFieldChange?.(null);
 		onMeasuresChange([]);
 	}
 
@@ -198,7 +246,7 @@ export function ObjectGroupingMenu({
 							<p>
 								{usesServerAggregation
 									? "Counts and measures are permission-aware and calculated by the server."
-									: selectedField
+									: selectedFields.length > 0
 										? "Custom fallback fields are calculated from the current fetched page."
 										: "Choose a group or numeric measure across the full filtered class."}
 							</p>
@@ -213,25 +261,93 @@ export function ObjectGroupingMenu({
 							</button>
 						) : null}
 					</div>
-					<label className="control-field">
-						<span>Group by</span>
-						<select
-							ref={fieldRef}
-							value={selectedField?.id ?? ""}
-							onChange={(event) => onFieldChange(event.target.value || null)}
-						>
-							<option value="">No grouping</option>
-							{fieldsBySection.map((entry) => (
-								<optgroup key={entry.section} label={entry.section}>
-									{entry.fields.map((field) => (
-										<option key={field.id} value={field.id}>
-											{field.label}
+					{Array.from({ length: levelCount }, (_, index) => {
+						const levelField = selectedFields[index] ?? null;
+						const otherFieldIds = new Set(
+							selectedFields
+								.filter((_, fieldIndex) => fieldIndex !== index)
+								.map((field) => field.id),
+						);
+						return (
+							<div
+								className="object-grouping-level"
+								key={levelField?.id ?? `level-${index}`}
+							>
+								<label className="control-field">
+									<span>
+										{index === 0 ? "Group by" : `Then by (level ${index + 1})`}
+									</span>
+									<select
+										ref={index === 0 ? fieldRef : undefined}
+										value={levelField?.id ?? ""}
+										onChange={(event) =>
+											setLevelField(index, event.target.value)
+										}
+									>
+										<option value="">
+											{index === 0 ? "No grouping" : "No further level"}
 										</option>
-									))}
-								</optgroup>
-							))}
-						</select>
-					</label>
+										{fieldsBySection.map((entry) => (
+											<optgroup key={entry.section} label={entry.section}>
+												{entry.fields
+													.filter((field) => !otherFieldIds.has(field.id))
+													.map((field) => (
+														<option key={field.id} value={field.id}>
+															{field.label}
+														</option>
+													))}
+											</optgroup>
+										))}
+									</select>
+								</label>
+								{levelField && selectedFields.length > 1 ? (
+									<div className="object-grouping-level-actions">
+										<button
+											type="button"
+											className="ghost"
+											onClick={() => moveLevel(index, -1)}
+											disabled={index === 0}
+											aria-label={`Move ${levelField.label} up a level`}
+										>
+											↑
+										</button>
+										<button
+											type="button"
+											className="ghost"
+											onClick={() => moveLevel(index, 1)}
+											disabled={index === selectedFields.length - 1}
+											aria-label={`Move ${levelField.label} down a level`}
+										>
+											↓
+										</button>
+									</div>
+								) : null}
+							</div>
+						);
+					})}
+					{onPivotFieldChange ? (
+						<label className="control-field">
+							<span>Pivot columns by</span>
+							<select
+								value={pivotFieldId ?? ""}
+								disabled={!canPivot}
+								onChange={(event) =>
+									onPivotFieldChange(event.target.value || null)
+								}
+							>
+								<option value="">No pivot</option>
+								{pivotFields.map((entry) => (
+									<optgroup key={entry.section} label={entry.section}>
+										{entry.fields.map((field) => (
+											<option key={field.id} value={field.id}>
+												{field.label}
+											</option>
+										))}
+									</optgroup>
+								))}
+							</select>
+						</label>
+					) : null}
 					<div className="object-aggregate-measures">
 						<div className="object-aggregate-measures-header">
 							<div>
@@ -253,7 +369,8 @@ export function ObjectGroupingMenu({
 						</div>
 						{!canConfigureMeasures ? (
 							<p className="object-grouping-footnote">
-								Numeric measures require a server-supported group field.
+								Numeric measures require server-supported fields on every group
+								level.
 							</p>
 						) : measureFields.length === 0 ? (
 							<p className="object-grouping-footnote">
@@ -332,7 +449,7 @@ export function ObjectGroupingMenu({
 						<span>Sort groups</span>
 						<select
 							value={sort}
-							disabled={!selectedField}
+							disabled={selectedFields.length === 0}
 							onChange={(event) =>
 								onSortChange(event.target.value as ObjectGroupSort)
 							}
@@ -345,9 +462,11 @@ export function ObjectGroupingMenu({
 						</select>
 					</label>
 					<p className="object-grouping-footnote">
-						{usesServerAggregation
-							? "Server filters are applied before aggregation."
-							: "Use a server-supported field or report to group beyond this page."}
+						{selectedFields.length > 1
+							? "Nested levels are sorted within their parent group. Pivots need a single group level."
+							: usesServerAggregation
+								? "Server filters are applied before aggregation."
+								: "Use a server-supported field or report to group beyond this page."}
 					</p>
 				</div>
 			) : null}
@@ -0,0 +1,351 @@
+"use client";
+
+import {
+	type UseQueryResult,
+	useQueries,
+	useQuery,
+} from "@tanstack/react-query";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import {
+	RelationGraphCanvas,
+	type RelationGraphCanvasEdge,
+	type RelationGraphCanvasNode,
+} from "@/components/relation-graph-canvas";
+import type { RelatedObjectGraph } from "@/lib/api/generated/models";
+import {
+	fetchRelatedObjectGraph,
+	relatedObjectGraphQueryKey,
+} from "@/lib/api/related-graphs";
+import {
+	assignRelationGraphColors,
+	buildObjectRelationGraphModel,
+	createRelatedObjectGraphState,
+	layoutRadialRelationGraph,
+	mergeRelatedObjectGraph,
+} from "@/lib/relation-graph";
+
+type ObjectRelationGraphProps = {
+	classId: number;
+	objectId: number;
+	objectName: string;
+	depthLimit: number;
+	includeSelfClass: boolean;
+	ignoredClassIds: number[];
+	classNameById: ReadonlyMap<number, string>;
+};
+
+type ExpandedObject = {
+	classId: number;
+	objectId: number;
+};
+
+function combineExpansionQueries(
+	results: UseQueryResult<RelatedObjectGraph>[],
+) {
+	return {
+		graphs: results.flatMap((result) => (result.data ? [result.data] : [])),
+		isFetching: results.some((result) => result.isFetching),
+		error: results.find((result) => result.isError)?.error ?? null,
+	};
+}
+
+export function ObjectRelationGraph({
+	classId,
+	objectId,
+	objectName,
+	depthLimit,
+	includeSelfClass,
+	ignoredClassIds,
+	classNameById,
+}: ObjectRelationGraphProps) {
+	const router = useRouter();
+	const root = useMemo(
+		() => ({ id: objectId, classId, name: objectName }),
+		[classId, objectId, objectName],
+	);
+	const options = useMemo(
+		() => ({ depthLimit, includeSelfClass, ignoredClassIds }),
+		[depthLimit, ignoredClassIds, includeSelfClass],
+	);
+	const [expandedObjects, setExpandedObjects] = useState<ExpandedObject[]>([]);
+	const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+	const expansionOptions = useMemo(
+		() => ({ ...options, depthLimit: 1 }),
+		[options],
+	);
+
+	const rootGraphQuery = useQuery({
+		queryKey: relatedObjectGraphQueryKey(root.classId, root.id, options),
+		queryFn: async () =>
+			fetchRelatedObjectGraph(root.classId, root.id, options),
+	});
+	const expansions = useQueries({
+		queries: expandedObjects.map((expanded) => ({
+			queryKey: relatedObjectGraphQueryKey(
+				expanded.classId,
+				expanded.objectId,
+				expansionOptions,
+			),
+			queryFn: async () =>
+				fetchRelatedObjectGraph(
+					expanded.classId,
+					expanded.objectId,
+					expansionOptions,
+				),
+		})),
+		combine: combineExpansionQueries,
+	});
+
+	const graphState = useMemo(() => {
+		let state = createRelatedObjectGraphState();
+		if (rootGraphQuery.data) {
+			state = mergeRelatedObjectGraph(state, rootGraphQuery.data);
+		}
+		for (const graph of expansions.graphs) {
+			state = mergeRelatedObjectGraph(state, graph);
+		}
+		return state;
+	}, [expansions.graphs, rootGraphQuery.data]);
+	const model = useMemo(
+		() => buildObjectRelationGraphModel(root, graphState),
+		[graphState, root],
+	);
+	const layout = useMemo(
+		() => layoutRadialRelationGraph(model, root.id),
+		[model, root.id],
+	);
+	const classColors = useMemo(
+		() => assignRelationGraphColors(model.nodes.map((node) => node.groupId)),
+		[model.nodes],
+	);
+	const relationColors = useMemo(
+		() => assignRelationGraphColors(model.edges.map((edge) => edge.groupId)),
+		[model.edges],
+	);
+
+	const expandedIds = new Set([
+		root.id,
+		...expandedObjects.map((expanded) => expanded.objectId),
+	]);
+	const nodeById = new Map(model.nodes.map((node) => [node.id, node]));
+	const renderClassName = (classId: number) =>
+		classNameById.get(classId) ?? `Class #${classId}`;
+
+	const canvasNodes: RelationGraphCanvasNode[] = model.nodes.map((node) => ({
+		id: node.id,
+		label: node.label,
+		detail: `${renderClassName(node.groupId)}${node.depth === 0 ? "" : `, ${node.depth} hop${node.depth === 1 ? "" : "s"}`}`,
+		color: classColors.get(node.groupId) ?? "currentColor",
+		position: layout.positions.get(node.id) ?? { x: 0, y: 0 },
+		isRoot: node.id === root.id,
+		isMuted: !expandedIds.has(node.id) && node.depth >= options.depthLimit,
+	}));
+	const relationLabels = new Map<number, string>();
+	const canvasEdges: RelationGraphCanvasEdge[] = model.edges.map((edge) => {
+		const fromNode = nodeById.get(edge.fromId);
+		const toNode = nodeById.get(edge.toId);
+		const relationLabel =
+			fromNode && toNode
+				? `${renderClassName(fromNode.groupId)} → ${renderClassName(toNode.groupId)}`
+				: `Class relation #${edge.groupId}`;
+		relationLabels.set(edge.groupId, relationLabel);
+		return {
+			id: edge.id,
+			fromId: edge.fromId,
+			toId: edge.toId,
+			color: relationColors.get(edge.groupId) ?? "currentColor",
+			label: `${fromNode?.label ?? edge.fromId} → ${toNode?.label ?? edge.toId} (${relationLabel})`,
+		};
+	});
+	const classLegend = [...classColors.entries()].map(([classId, color]) => ({
+		classId,
+		color,
+		count: model.nodes.filter((node) => node.groupId === classId).length,
+	}));
+	const relationLegend = [...relationColors.entries()].map(
+		([classRelationId, color]) => ({
+			classRelationId,
+			color,
+			label:
+				relationLabels.get(classRelationId) ??
+				`Class relation #${classRelationId}`,
+		}),
+	);
+
+	const selectedNode =
+		selectedNodeId === null ? null : (nodeById.get(selectedNodeId) ?? null);
+	const selectedObject =
+		selectedNodeId === null
+			? null
+			: (graphState.objects.get(selectedNodeId) ?? null);
+
+	function getObjectClassId(nodeId: number): number | null {
+		if (nodeId === root.id) {
+			return root.classId;
+		}
+		return graphState.objects.get(nodeId)?.hubuum_class_id ?? null;
+	}
+
+	function expandNode(nodeId: number) {
+		const nodeClassId = getObjectClassId(nodeId);
+		if (nodeClassId === null || expandedIds.has(nodeId)) {
+			return;
+		}
+		setExpandedObjects((current) => [
+			...current,
+			{ classId: nodeClassId, objectId: nodeId },
+		]);
+	}
+
+	function activateNode(nodeId: number) {
+		setSelectedNodeId(nodeId);
+		expandNode(nodeId);
+	}
+
+	function openNode(nodeId: number) {
+		const nodeClassId = getObjectClassId(nodeId);
+		if (nodeClassId !== null) {
+			router.push(`/objects/${nodeClassId}/${nodeId}`);
+		}
+	}
+
+	if (rootGraphQuery.isLoading) {
+		return (
+			<div className="object-property-empty" role="status">
+				Loading relation graph...
+			</div>
+		);
+	}
+
+	if (rootGraphQuery.isError) {
+		return (
+			<div className="object-property-empty error-banner" role="alert">
+				Failed to load relation graph.{" "}
+				{rootGraphQuery.error instanceof Error
+					? rootGraphQuery.error.message
+					: "Unknown error"}
+			</div>
+		);
+	}
+
+	return (
+		<div className="object-relation-graph">
+			<RelationGraphCanvas
+				ariaLabel={`Relation graph around ${root.name}`}
+				nodes={canvasNodes}
+				edges={canvasEdges}
+				bounds={layout.bounds}
+				fitKey={`${root.classId}:${root.id}:${options.depthLimit}:${options.includeSelfClass}:${options.ignoredClassIds.join(",")}`}
+				selectedNodeId={selectedNodeId}
+				onNodeActivate={activateNode}
+				onNodeOpen={openNode}
+			/>
+			<div className="relation-graph-sidebar">
+				{selectedNode ? (
+					<section
+						className="relation-graph-selection"
+						aria-label="Selected object"
+					>
+						<strong>{selectedNode.label}</strong>
+						<span className="muted">
+							{renderClassName(selectedNode.groupId)} ·{" "}
+							{selectedNode.depth === 0
+								? "Current object"
+								: `${selectedNode.depth} hop${selectedNode.depth === 1 ? "" : "s"}`}
+						</span>
+						{selectedObject?.description ? (
+							<span className="relation-graph-selection-description">
+								{selectedObject.description}
+							</span>
+						) : null}
+						<div className="relation-graph-selection-actions">
+							{selectedNode.id === root.id ? null : (
+								<Link
+									className="link-chip"
+									href={`/objects/${selectedNode.groupId}/${selectedNode.id}`}
+								>
+									Open object
+								</Link>
+							)}
+							{expandedIds.has(selectedNode.id) ? null : (
+								<button
+									type="button"
+									className="ghost"
+									onClick={() => expandNode(selectedNode.id)}
+								>
+									Expand neighbours
+								</button>
+							)}
+						</div>
+					</section>
+				) : (
+					<p className="muted relation-graph-hint">
+						Click a node to expand its neighbours. Double-click or Ctrl/Cmd +
+						click to open it. Drag to pan and Ctrl/Cmd + scroll to zoom.
+					</p>
+				)}
+				{expansions.isFetching ? (
+					<span className="muted" role="status">
+						Expanding neighbours...
+					</span>
+				) : null}
+				{expansions.error ? (
+					<span className="error-banner" role="alert">
+						Failed to expand a node.{" "}
+						{expansions.error instanceof Error
+							? expansions.error.message
+							: "Unknown error"}
+					</span>
+				) : null}
+				{model.truncatedNodeCount > 0 ? (
+					<span className="muted">
+						Showing the nearest {model.nodes.length} objects.{" "}
+						{model.truncatedNodeCount} more are hidden; lower the depth or hide
+						classes to see them.
+					</span>
+				) : null}
+				<section
+					className="relation-graph-legend"
+					aria-label="Object classes in the graph"
+				>
+					<strong>Classes</strong>
+					<ul>
+						{classLegend.map((entry) => (
+							<li key={entry.classId}>
+								<span
+									className="relation-graph-swatch"
+									style={{ background: entry.color }}
+									aria-hidden="true"
+								/>
+								<span>{renderClassName(entry.classId)}</span>
+								<span className="muted">{entry.count}</span>
+							</li>
+						))}
+					</ul>
+				</section>
+				{relationLegend.length ? (
+					<section
+						className="relation-graph-legend"
+						aria-label="Relations in the graph"
+					>
+						<strong>Relations</strong>
+						<ul>
+							{relationLegend.map((entry) => (
+								<li key={entry.classRelationId}>
+									<span
+										className="relation-graph-swatch relation-graph-swatch--edge"
+										style={{ background: entry.color }}
+										aria-hidden="true"
+									/>
+									<span>{entry.label}</span>
+								</li>
+							))}
+						</ul>
+					</section>
+				) : null}
+			</div>
+		</div>
+	);
+}
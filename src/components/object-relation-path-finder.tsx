@@ -0,0 +1,263 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { useDeferredValue, useMemo, useState } from "react";
+
+import type { HubuumObject } from "@/lib/api/generated/models";
+import {
+	fetchRelatedObjectGraph,
+	relatedObjectGraphQueryKey,
+} from "@/lib/api/related-graphs";
+import { fetchUnifiedSearch } from "@/lib/api/search";
+import { MAX_RELATED_OBJECT_DEPTH_LIMIT } from "@/lib/object-relation-summary";
+import {
+	findShortestObjectRelationPaths,
+	MAX_SHORTEST_RELATION_PATHS,
+} from "@/lib/object-relation-paths";
+
+export type ObjectRelationPathEndpoint = {
+	id: number;
+	classId: number;
+	name: string;
+};
+
+type ObjectRelationPathFinderProps = {
+	source: ObjectRelationPathEndpoint | null;
+	depthLimit: number;
+	classNameById: Map<number, string>;
+	onSourceChange: (source: ObjectRelationPathEndpoint) => void;
+};
+
+type ObjectSearchFieldProps = {
+	id: string;
+	label: string;
+	selected: ObjectRelationPathEndpoint | null;
+	classNameById: Map<number, string>;
+	onSelect: (object: ObjectRelationPathEndpoint) => void;
+};
+
+function toEndpoint(object: HubuumObject): ObjectRelationPathEndpoint {
+	return { id: object.id, classId: object.hubuum_class_id, name: object.name };
+}
+
+function ObjectSearchField({
+	id,
+	label,
+	selected,
+	classNameById,
+	onSelect,
+}: ObjectSearchFieldProps) {
+	const [search, setSearch] = useState("");
+	const deferredSearch = useDeferredValue(search.trim());
+	const searchQuery = useQuery({
+		queryKey: ["object-relation-path-search", deferredSearch],
+		queryFn: () =>
+			fetchUnifiedSearch({
+				q: deferredSearch,
+				kinds: ["object"],
+				limitPerKind: 10,
+			}),
+		enabled: deferredSearch.length > 0,
+	});
+	const results = searchQuery.data?.results.objects ?? [];
+
+	return (
+		<div className="stack relation-path-endpoint">
+			<label className="control-field" htmlFor={id}>
+				<span>{label}</span>
+				<input
+					id={id}
+					type="search"
+					value={search}
+					onChange={(event) => setSearch(event.target.value)}
+					placeholder="Search objects by name"
+				/>
+			</label>
+			{selected ? (
+				<span className="relation-path-selected">
+					<strong>{selected.name}</strong>{" "}
+					<span className="muted">
+						{classNameById.get(selected.classId) ??
+							`Class #${selected.classId}`}
+					</span>
+				</span>
+			) : null}
+			{!deferredSearch ? null : searchQuery.isLoading ? (
+				<span className="muted">Searching objects...</span>
+			) : searchQuery.isError ? (
+				<div className="error-banner">
+					{searchQuery.error instanceof Error
+						? searchQuery.error.message
+						: "Failed to search objects."}
+				</div>
+			) : results.length === 0 ? (
+				<span className="muted">
+					No objects match &quot;{deferredSearch}&quot;.
+				</span>
+			) : (
+				<ul className="relation-path-results">
+					{results.map((object) => (
+						<li key={object.id}>
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => {
+									onSelect(toEndpoint(object));
+									setSearch("");
+								}}
+							>
+								<strong>{object.name}</strong>
+								<span className="muted">
+									{classNameById.get(object.hubuum_class_id) ??
+										`Class #${object.hubuum_class_id}`}
+								</span>
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
+
+export function ObjectRelationPathFinder({
+	source,
+	depthLimit,
+	classNameById,
+	onSourceChange,
+}: ObjectRelationPathFinderProps) {
+	const [target, setTarget] = useState<ObjectRelationPathEndpoint | null>(null);
+	const graphOptions = useMemo(
+		() => ({ depthLimit, includeSelfClass: true, ignoredClassIds: [] }),
+		[depthLimit],
+	);
+	const isSameObject = source !== null && source.id === target?.id;
+	const graphQuery = useQuery({
+		queryKey: relatedObjectGraphQueryKey(
+			source?.classId ?? 0,
+			source?.id ?? 0,
+			graphOptions,
+		),
+		queryFn: () =>
+			fetchRelatedObjectGraph(
+				source?.classId ?? 0,
+				source?.id ?? 0,
+				graphOptions,
+			),
+		enabled: source !== null && target !== null && !isSameObject,
+	});
+
+	const objectsById = useMemo(() => {
+		const map = new Map<number, ObjectRelationPathEndpoint>();
+		if (source) map.set(source.id, source);
+		if (target) map.set(target.id, target);
+		for (const object of graphQuery.data?.objects ?? []) {
+			map.set(object.id, toEndpoint(object));
+		}
+		return map;
+	}, [graphQuery.data, source, target]);
+	const paths = useMemo(
+		() =>
+			source && target && graphQuery.data
+				? findShortestObjectRelationPaths(
+						source.id,
+						target.id,
+						graphQuery.data.relations,
+					)
+				: [],
+		[graphQuery.data, source, target],
+	);
+
+	function renderObject(objectId: number) {
+		const object = objectsById.get(objectId);
+		if (!object) return <span>Object #{objectId}</span>;
+		return (
+			<Link href={`/objects/${object.classId}/${object.id}`}>
+				<strong>{object.name}</strong>
+				<span className="muted">
+					{classNameById.get(object.classId) ?? `Class #${object.classId}`}
+				</span>
+			</Link>
+		);
+	}
+
+	return (
+		<div className="stack relation-path-finder">
+			<div className="relation-path-endpoints">
+				<ObjectSearchField
+					id="relation-path-source"
+					label="From"
+					selected={source}
+					classNameById={classNameById}
+					onSelect={onSourceChange}
+				/>
+				<ObjectSearchField
+					id="relation-path-target"
+					label="To"
+					selected={target}
+					classNameById={classNameById}
+					onSelect={setTarget}
+				/>
+			</div>
+
+			{!source || !target ? (
+				<div className="muted">
+					Pick two objects to find the shortest relation paths between them.
+				</div>
+			) : isSameObject ? (
+				<div className="muted">Pick two different objects.</div>
+			) : graphQuery.isLoading ? (
+				<div>Searching relations up to {depthLimit} hops away...</div>
+			) : graphQuery.isError ? (
+				<div className="error-banner">
+					Failed to load relations.{" "}
+					{graphQuery.error instanceof Error
+						? graphQuery.error.message
+						: "Unknown error"}
+				</div>
+			) : paths.length === 0 ? (
+				<div className="muted">
+					{target.name} is not reachable from {source.name} within {depthLimit}{" "}
+					hop{depthLimit === 1 ? "" : "s"}.
+					{depthLimit < MAX_RELATED_OBJECT_DEPTH_LIMIT
+						? " Increase the depth to search further."
+						: ""}
+				</div>
+			) : (
+				<>
+					<p className="muted">
+						{paths.length === MAX_SHORTEST_RELATION_PATHS
+							? `Showing the first ${paths.length} shortest paths`
+							: `${paths.length} shortest path${paths.length === 1 ? "" : "s"}`}{" "}
+						of {paths[0].steps.length} hop
+						{paths[0].steps.length === 1 ? "" : "s"}.
+					</p>
+					<ol className="relation-path-list">
+						{paths.map((path) => (
+							<li
+								key={path.steps.map((step) => step.relation.id).join("-")}
+								className="relation-path-chain"
+							>
+								{renderObject(path.objectIds[0])}
+								{path.steps.map((step) => (
+									<span key={step.relation.id} className="relation-path-step">
+										<span
+											className="relation-path-arrow"
+											title={`Relation #${step.relation.id}`}
+										>
+											{step.relation.from_hubuum_object_id === step.fromObjectId
+												? "→"
+												: "←"}
+										</span>
+										{renderObject(step.toObjectId)}
+									</span>
+								))}
+							</li>
+						))}
+					</ol>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import {
+	type ChangeEvent,
+	type FormEvent,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+
+import { useConfirm } from "@/lib/confirm-context";
+import {
+	areObjectViewStatesEqual,
+	buildObjectSavedViewsExport,
+	buildObjectViewHref,
+	findObjectSavedView,
+	MAX_OBJECT_SAVED_VIEWS,
+	MAX_OBJECT_VIEW_NAME_LENGTH,
+	mergeObjectSavedViews,
+	type ObjectSavedView,
+	type ObjectViewState,
+	parseObjectSavedViews,
+	parseObjectSavedViewsExport,
+	serializeObjectSavedViews,
+	upsertObjectSavedView,
+} from "@/lib/object-saved-views";
+import { sanitizeExportFileName } from "@/lib/table-export";
+import { useToast } from "@/lib/toast-context";
+import { useEscapeToCancel } from "@/lib/use-escape-to-cancel";
+import {
+	USER_SETTINGS_CHANGED_EVENT,
+	writeUserSetting,
+} from "@/lib/user-settings-client";
+import { PORTABLE_USER_SETTING_KEYS } from "@/lib/user-settings-types";
+
+type ObjectSavedViewsMenuProps = {
+	classId: number | null;
+	className: string | null;
+	state: ObjectViewState;
+	onApply: (state: ObjectViewState) => void;
+	disabled?: boolean;
+};
+
+function IconViews() {
+	return (
+		<svg viewBox="0 0 24 24" aria-hidden="true">
+			<path d="M4 5h16v3H4zM4 10.5h16v3H4zM4 16h10v3H4z" fill="currentColor" />
+		</svg>
+	);
+}
+
+function readStoredViews(storageKey: string | null): ObjectSavedView[] {
+	if (!storageKey) return [];
+	try {
+		return parseObjectSavedViews(window.localStorage.getItem(storageKey));
+	} catch {
+		return [];
+	}
+}
+
+function formatUpdatedAt(value: string): string {
+	try {
+		return new Intl.DateTimeFormat(undefined, {
+			dateStyle: "medium",
+		}).format(new Date(value));
+	} catch {
+		return value;
+	}
+}
+
+function downloadViewsFile(fileName: string, body: string) {
+	const blob = new Blob([body], { type: "application/json;charset=utf-8" });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = `${sanitizeExportFileName(fileName)}.json`;
+	link.style.display = "none";
+	document.body.append(link);
+	link.click();
+	link.remove();
+	window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function ObjectSavedViewsMenu({
+	classId,
+	className,
+	state,
+	onApply,
+	disabled = false,
+}: ObjectSavedViewsMenuProps) {
+	const rootRef = useRef<HTMLDivElement | null>(null);
+	const triggerRef = useRef<HTMLButtonElement | null>(null);
+	const nameRef = useRef<HTMLInputElement | null>(null);
+	const importRef = useRef<HTMLInputElement | null>(null);
+	const confirm = useConfirm();
+	const { showToast } = useToast();
+	const [isOpen, setOpen] = useState(false);
+	const [views, setViews] = useState<ObjectSavedView[]>([]);
+	const [viewName, setViewName] = useState("");
+	const storageKey =
+		classId === null
+			? null
+			: PORTABLE_USER_SETTING_KEYS.objectSavedViews(classId);
+	const activeView =
+		views.find((view) => areObjectViewStatesEqual(view.state, state)) ?? null;
+	const existingView = viewName.trim()
+		? findObjectSavedView(views, viewName)
+		: null;
+
+	useEffect(() => {
+		setViews(readStoredViews(storageKey));
+		const onSettingChange = (event: Event) => {
+			const key = (event as CustomEvent<{ key?: string }>).detail?.key;
+			if (key === storageKey) setViews(readStoredViews(storageKey));
+		};
+		window.addEventListener(USER_SETTINGS_CHANGED_EVENT, onSettingChange);
+		return () =>
+			window.removeEventListener(USER_SETTINGS_CHANGED_EVENT, onSettingChange);
+	}, [storageKey]);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		const onPointerDown = (event: PointerEvent) => {
+			if (!rootRef.current?.contains(event.target as Node)) setOpen(false);
+		};
+		window.addEventListener("pointerdown", onPointerDown);
+		return () => window.removeEventListener("pointerdown", onPointerDown);
+	}, [isOpen]);
+	useEscapeToCancel({
+		enabled: isOpen,
+		onCancel: () => {
+			setOpen(false);
+			window.setTimeout(() => triggerRef.current?.focus(), 0);
+		},
+	});
+
+	function toggleMenu() {
+		if (isOpen) {
+			setOpen(false);
+			return;
+		}
+		setViewName(activeView?.name ?? "");
+		setOpen(true);
+		window.setTimeout(() => nameRef.current?.focus(), 0);
+	}
+
+	function persistViews(nextViews: ObjectSavedView[]) {
+		if (!storageKey) return;
+		if (!writeUserSetting(storageKey, serializeObjectSavedViews(nextViews))) {
+			throw new Error("Saved views could not be stored in this browser.");
+		}
+		setViews(nextViews);
+	}
+
+	function saveView(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		try {
+			persistViews(upsertObjectSavedView(views, viewName, state));
+			showToast(
+				existingView
+					? `Updated view "${existingView.name}".`
+					: `Saved view "${viewName.trim()}".`,
+				"success",
+			);
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to save view.",
+				"error",
+			);
+		}
+	}
+
+	function applyView(view: ObjectSavedView) {
+		onApply(view.state);
+		setViewName(view.name);
+		setOpen(false);
+	}
+
+	async function deleteView(view: ObjectSavedView) {
+		const confirmed = await confirm({
+			title: `Delete view "${view.name}"?`,
+			description: "The current table layout stays as it is.",
+			confirmLabel: "Delete",
+			tone: "danger",
+		});
+		if (!confirmed) return;
+		try {
+			persistViews(views.filter((item) => item.id !== view.id));
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to delete view.",
+				"error",
+			);
+		}
+	}
+
+	async function copyViewLink(viewState: ObjectViewState) {
+		if (classId === null) return;
+		try {
+			if (!navigator.clipboard?.writeText) {
+				throw new Error("Clipboard access is unavailable in this browser.");
+			}
+			await navigator.clipboard.writeText(
+				new URL(
+					buildObjectViewHref(classId, viewState),
+					window.location.origin,
+				).toString(),
+			);
+			showToast("View link copied to the clipboard.", "success");
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to copy view link.",
+				"error",
+			);
+		}
+	}
+
+	function exportViews() {
+		if (classId === null || views.length === 0) return;
+		downloadViewsFile(
+			`${className ?? `class-${classId}`}-views`,
+			buildObjectSavedViewsExport(classId, className, views),
+		);
+	}
+
+	async function importViews(event: ChangeEvent<HTMLInputElement>) {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) return;
+		try {
+			const result = mergeObjectSavedViews(
+				views,
+				parseObjectSavedViewsExport(await file.text()),
+			);
+			persistViews(result.views);
+			showToast(
+				`Imported ${result.added} new and ${result.replaced} updated view${
+					result.added + result.replaced === 1 ? "" : "s"
+				}.`,
+				"success",
+			);
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to import views.",
+				"error",
+			);
+		}
+	}
+
+	return (
+		<div className="object-saved-views" ref={rootRef}>
+			<button
+				ref={triggerRef}
+				type="button"
+				className="ghost object-saved-views-trigger"
+				disabled={disabled || classId === null}
+				aria-haspopup="dialog"
+				aria-expanded={isOpen}
+				onClick={toggleMenu}
+			>
+				<IconViews />
+				<span>{activeView ? activeView.name : "Views"}</span>
+				{views.length > 0 ? (
+					<span className="object-grouping-active">
+						<span className="sr-only">Saved views: </span>
+						{views.length}
+					</span>
+				) : null}
+			</button>
+			{isOpen ? (
+				<div
+					className="object-saved-views-menu card"
+					role="dialog"
+					aria-label="Saved object views"
+				>
+					<div className="object-grouping-menu-header">
+						<div>
+							<strong>Saved views</strong>
+							<p>
+								Filters, columns, grouping, measures, sort, and page size for
+								this class. Stored with your account settings.
+							</p>
+						</div>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => void copyViewLink(state)}
+						>
+							Copy view link
+						</button>
+					</div>
+					{views.length === 0 ? (
+						<p className="object-grouping-footnote">
+							No saved views for this class yet.
+						</p>
+					) : (
+						<ul className="object-saved-views-list">
+							{views.map((view) => (
+								<li
+									key={view.id}
+									className={
+										view.id === activeView?.id ? "is-active" : undefined
+									}
+								>
+									<button
+										type="button"
+										className="ghost object-saved-views-apply"
+										onClick={() => applyView(view)}
+										aria-current={
+											view.id === activeView?.id ? "true" : undefined
+										}
+									>
+										<strong>{view.name}</strong>
+										<small>Updated {formatUpdatedAt(view.updatedAt)}</small>
+									</button>
+									<button
+										type="button"
+										className="ghost"
+										onClick={() => void copyViewLink(view.state)}
+										aria-label={`Copy link to view ${view.name}`}
+									>
+										Copy link
+									</button>
+									<button
+										type="button"
+										className="ghost"
+										onClick={() => void deleteView(view)}
+										aria-label={`Delete view ${view.name}`}
+									>
+										Delete
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+					<form className="object-saved-views-form" onSubmit={saveView}>
+						<label className="control-field">
+							<span>Save current view as</span>
+							<input
+								ref={nameRef}
+								value={viewName}
+								maxLength={MAX_OBJECT_VIEW_NAME_LENGTH}
+								onChange={(event) => setViewName(event.target.value)}
+								placeholder="View name"
+							/>
+						</label>
+						<button
+							type="submit"
+							disabled={
+								!viewName.trim() ||
+								(!existingView && views.length >= MAX_OBJECT_SAVED_VIEWS)
+							}
+						>
+							{existingView ? "Update view" : "Save view"}
+						</button>
+					</form>
+					<div className="object-saved-views-footer">
+						<button
+							type="button"
+							className="ghost"
+							onClick={exportViews}
+							disabled={views.length === 0}
+						>
+							Export views
+						</button>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => importRef.current?.click()}
+						>
+							Import views
+						</button>
+						<input
+							ref={importRef}
+							type="file"
+							accept="application/json,.json"
+							className="sr-only"
+							tabIndex={-1}
+							onChange={(event) => void importViews(event)}
+						/>
+					</div>
+				</div>
+			) : null}
+		</div>
+	);
+}
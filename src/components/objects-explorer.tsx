@@ -14,14 +14,21 @@ import {
 	useState,
 } from "react";
 import { CreateModal } from "@/components/create-modal";
+import { DeletionImpactReport } from "@/components/deletion-impact-report";
 import { EmptyState } from "@/components/empty-state";
+import { ObjectAggregateChart } from "@/components/object-aggregate-chart";
+import { ObjectAggregatePivotTable } from "@/components/object-aggregate-pivot-table";
+import { ObjectBulkDataEditor } from "@/components/object-bulk-data-editor";
+import { ObjectCollectionMoveForm } from "@/components/object-collection-move-form";
 import { ObjectCreateDataEditor } from "@/components/object-create-data-editor";
+import { ObjectFilterQueryInput } from "@/components/object-filter-query-input";
 import {
 	ObjectGroupingMenu,
 	type ObjectAggregateMeasureField,
 	type ObjectAggregateMeasureSelection,
 	type ObjectGroupingField,
 } from "@/components/object-grouping-menu";
+import { ObjectSavedViewsMenu } from "@/components/object-saved-views-menu";
 import {
 	ObjectServerFilterMenu,
 } from "@/components/object-server-filter-menu";
@@ -41,6 +48,7 @@ import {
 } from "@/lib/api/class-objects";
 import { expectArrayPayload, getApiErrorMessage } from "@/lib/api/errors";
 import {
+	fetchObjectAggregateParentRows,
 	fetchObjectAggregates,
 	type ObjectAggregateSort,
 } from "@/lib/api/object-aggregates";
@@ -55,6 +63,8 @@ import type {
 	HubuumClassExpanded,
 	HubuumObjectComputedResponse,
 	NewHubuumObject,
+	ObjectAggregateDimensionValue,
+	ObjectAggregateMeasureValue,
 } from "@/lib/api/generated/models";
 import { useConfirm } from "@/lib/confirm-context";
 import {
@@ -65,12 +75,37 @@ import {
 	SELECTION_STATE_EVENT,
 } from "@/lib/create-events";
 import { getDataColumnHeadings } from "@/lib/data-column-headings";
+import {
+	type BulkObjectDataResult,
+	summarizeBulkObjectDataResults,
+} from "@/lib/object-bulk-data-edit";
+import {
+	type ObjectCollectionMoveResult,
+	summarizeObjectCollectionMoveResults,
+} from "@/lib/object-collection-move";
+import {
+	buildObjectAggregatePivot,
+	getObjectAggregateDimensionFilter,
+	mergeObjectAggregateDrillDownFilters,
+	type ObjectAggregatePivotMetric,
+	type ObjectAggregatePivotRow,
+} from "@/lib/object-aggregate-pivot";
+import {
+	buildObjectComparisonHref,
+	canCompareObjects,
+} from "@/lib/object-comparison";
 import { buildObjectCreateDataModel } from "@/lib/object-create-data";
 import {
 	getObjectCreateLabel,
 	getObjectCreationLabel,
 	getSingularObjectClassName,
 } from "@/lib/object-create-label";
+import {
+	buildObjectViewSearchParams,
+	OBJECT_VIEW_QUERY_KEY,
+	type ObjectViewState,
+	parseObjectViewQueryParameter,
+} from "@/lib/object-saved-views";
 import {
 	resolveObjectServerFilterComputedFields,
 	resolveObjectServerFilterDataFields,
@@ -85,10 +120,12 @@ import {
 	toServerFilterDataPath,
 } from "@/lib/object-server-filters";
 import {
+	buildObjectAggregateGroupTree,
 	formatObjectAggregateDimension,
 	formatObjectAggregateMeasure,
 	formatObjectAggregateMeasureLabel,
-	groupObjectRows,
+	groupObjectRowsByLevels,
+	MAX_OBJECT_GROUPING_LEVELS,
 	type ObjectGroupSort,
 } from "@/lib/object-grouping";
 import {
@@ -239,6 +276,8 @@ type ResolvedObjectGroupingField = ObjectGroupingField & {
 type DisplayedAggregateGroup = {
 	id: string;
 	label: string;
+	path: string[];
+	depth: number;
 	count: number;
 	measures?: Array<{
 		displayValue: string;
@@ -249,8 +288,53 @@ type DisplayedAggregateGroup = {
 		valueCount: number;
 	}>;
 	rows?: HubuumObjectComputedResponse[];
+	children: DisplayedAggregateGroup[];
+};
+
+type AggregateGroupTreeNode<Node> = {
+	id: string;
+	label: string;
+	depth: number;
+	count: number;
+	children: Node[];
 };
 
+function toDisplayedAggregateGroups<Node extends AggregateGroupTreeNode<Node>>(
+	nodes: readonly Node[],
+	getDetails: (
+		node: Node,
+	) => Pick<DisplayedAggregateGroup, "measures" | "rows">,
+	parentPath: string[] = [],
+): DisplayedAggregateGroup[] {
+	return nodes.map((node) => {
+		const path = [...parentPath, node.label];
+		return {
+			id: node.id,
+			label: node.label,
+			path,
+			depth: node.depth,
+			count: node.count,
+			...getDetails(node),
+			children: toDisplayedAggregateGroups(node.children, getDetails, path),
+		};
+	});
+}
+
+function getLeafAggregateGroups(
+	groups: readonly DisplayedAggregateGroup[],
+): DisplayedAggregateGroup[] {
+	return groups.flatMap((group) =>
+		group.children.length > 0
+			? getLeafAggregateGroups(group.children)
+			: [group],
+	);
+}
+
+type PivotExportRow = Pick<
+	ObjectAggregatePivotRow,
+	"label" | "cells" | "total"
+>;
+
 const FIRST_AGGREGATE_PAGE = "__first_aggregate_page__";
 
 function toObjectAggregateSort(sort: ObjectGroupSort): ObjectAggregateSort {
@@ -936,7 +1020,15 @@ function renderPromotedDataValue(value: unknown) {
 	);
 }
 
-export function ObjectsExplorer() {
+type ObjectsExplorerProps = {
+	canAdminister: boolean;
+	currentUsername: string | null;
+};
+
+export function ObjectsExplorer({
+	canAdminister,
+	currentUsername,
+}: ObjectsExplorerProps) {
 	const router = useRouter();
 	const pathname = usePathname();
 	const searchParams = useSearchParams();
@@ -960,6 +1052,8 @@ export function ObjectsExplorer() {
 	const [dataInput, setDataInput] = useState("{}");
 	const [selectedObjectIds, setSelectedObjectIds] = useState<number[]>([]);
 	const [isCreateModalOpen, setCreateModalOpen] = useState(false);
+	const [isBulkDataEditOpen, setBulkDataEditOpen] = useState(false);
+	const [isCollectionMoveOpen, setCollectionMoveOpen] = useState(false);
 	const [isColumnPickerOpen, setColumnPickerOpen] = useState(false);
 	const [selectedDataColumns, setSelectedDataColumns] = useState<string[]>([]);
 	const [hiddenComputedColumnIds, setHiddenComputedColumnIds] = useState<
@@ -986,8 +1080,16 @@ export function ObjectsExplorer() {
 		columnId: null,
 		direction: "asc",
 	});
-	const [groupFieldId, setGroupFieldId] = useState<string | null>(null);
+	const [groupFieldIds, setGroupFieldIds] = useState<string[]>([]);
+	const [loadedGroupingLevelsStorageKey, setLoadedGroupingLevelsStorageKey] =
+		useState<string | null>(null);
+	const [expandedGroupIds, setExpandedGroupIds] = useState<ReadonlySet<string>>(
+		() => new Set(),
+	);
 	const [groupSort, setGroupSort] = useState<ObjectGroupSort>("count-desc");
+	const [pivotFieldId, setPivotFieldId] = useState<string | null>(null);
+	const [pivotMetric, setPivotMetric] =
+		useState<ObjectAggregatePivotMetric>("count");
 	const [aggregateMeasures, setAggregateMeasures] = useState<
 		ObjectAggregateMeasureSelection[]
 	>([]);
@@ -1057,12 +1159,66 @@ export function ObjectsExplorer() {
 		const value = Number.parseInt(selectedClassId, 10);
 		return Number.isFinite(value) ? value : null;
 	}, [selectedClassId]);
+	const groupingLevelsStorageKey =
+		parsedClassId === null
+			? null
+			: PORTABLE_USER_SETTING_KEYS.objectGroupingLevels(parsedClassId);
 	useEffect(() => {
 		if (groupingClassIdRef.current === selectedClassId) return;
 		groupingClassIdRef.current = selectedClassId;
-		setGroupFieldId(null);
+		setPivotFieldId(null);
 		setAggregateMeasures([]);
 	}, [selectedClassId]);
+	useEffect(() => {
+		let nextFieldIds: string[] = [];
+		try {
+			const storedValue = groupingLevelsStorageKey
+				? window.localStorage.getItem(groupingLevelsStorageKey)
+				: null;
+			const parsedValue = storedValue === null ? [] : JSON.parse(storedValue);
+			if (Array.isArray(parsedValue)) {
+				nextFieldIds = parsedValue
+					.filter((value): value is string => typeof value === "string")
+					.filter((value, index, values) => values.indexOf(value) === index)
+					.slice(0, MAX_OBJECT_GROUPING_LEVELS);
+			}
+		} catch {
+			// Ignore unavailable or malformed localStorage.
+		}
+		setGroupFieldIds((current) =>
+			areStringArraysEqual(current, nextFieldIds) ? current : nextFieldIds,
+		);
+		setLoadedGroupingLevelsStorageKey(groupingLevelsStorageKey);
+	}, [groupingLevelsStorageKey]);
+	useEffect(() => {
+		if (
+			!groupingLevelsStorageKey ||
+			loadedGroupingLevelsStorageKey !== groupingLevelsStorageKey ||
+			!isUserSettingsSyncInitialized()
+		) {
+			return;
+		}
+
+		try {
+			writeUserSetting(groupingLevelsStorageKey, JSON.stringify(groupFieldIds));
+		} catch {
+			// Ignore unavailable localStorage.
+		}
+	}, [groupFieldIds, groupingLevelsStorageKey, loadedGroupingLevelsStorageKey]);
+	const sharedViewParam = searchParams.get(OBJECT_VIEW_QUERY_KEY);
+	// biome-ignore lint/correctness/useExhaustiveDependencies: apply a shared view link once when it is opened.
+	useEffect(() => {
+		if (!sharedViewParam || parsedClassId === null) return;
+		const viewState = parseObjectViewQueryParameter(sharedViewParam);
+		if (viewState) {
+			applyObjectView(viewState, "replace");
+			return;
+		}
+		showToast("The shared view link is not valid.", "error");
+		const params = new URLSearchParams(searchParams.toString());
+		params.delete(OBJECT_VIEW_QUERY_KEY);
+		router.replace(`${pathname}?${params.toString()}`);
+	}, [sharedViewParam, parsedClassId]);
 	const classes = classesQuery.data ?? EMPTY_CLASSES;
 	const collections = collectionsQuery.data ?? EMPTY_NAMESPACES;
 	const collectionNameById = useMemo(() => {
@@ -1260,6 +1416,24 @@ export function ObjectsExplorer() {
 				selectedObjectIds.length === 1 ? "" : "s"
 			}?`,
 			description: "This removes the selected objects and cannot be undone.",
+			details: (
+				<DeletionImpactReport
+					target={{
+						kind: "object",
+						resources: selectedObjectIds.map((objectId) => {
+							const objectItem = objectsQuery.data?.objects.find(
+								(candidate) => candidate.id === objectId,
+							);
+							return {
+								id: objectId,
+								name: objectItem?.name ?? `Object #${objectId}`,
+								classId: parsedClassId,
+								collectionId: objectItem?.collection_id,
+							};
+						}),
+					}}
+				/>
+			),
 			confirmLabel: "Delete",
 			tone: "danger",
 		});
@@ -1271,7 +1445,13 @@ export function ObjectsExplorer() {
 			classId: parsedClassId,
 			objectIds: [...selectedObjectIds],
 		});
-	}, [confirm, selectedObjectIds, parsedClassId, deleteMutation]);
+	}, [
+		confirm,
+		selectedObjectIds,
+		parsedClassId,
+		objectsQuery.data,
+		deleteMutation,
+	]);
 
 	useEffect(() => {
 		if (!isCreateModalOpen) {
@@ -1531,10 +1711,13 @@ export function ObjectsExplorer() {
 					getValueAtDataPath(objectItem.data, column.path),
 			});
 		}
-		if (
-			groupFieldId?.startsWith("data:") &&
-			!fields.some((field) => field.id === groupFieldId)
-		) {
+		for (const groupFieldId of groupFieldIds) {
+			if (
+				!groupFieldId.startsWith("data:") ||
+				fields.some((field) => field.id === groupFieldId)
+			) {
+				continue;
+			}
 			const path = parseDataPathId(groupFieldId.slice("data:".length));
 			if (path) {
 				fields.push({
@@ -1577,7 +1760,7 @@ export function ObjectsExplorer() {
 		collectionNameById,
 		computedColumns,
 		customDataFields,
-		groupFieldId,
+		groupFieldIds,
 		sortedDataColumnCandidates,
 	]);
 	const columnMenuWidth = useMemo(() => {
@@ -1611,13 +1794,41 @@ export function ObjectsExplorer() {
 			),
 		[objects, searchTerm],
 	);
-	const activeGroupingField = useMemo(
-		() => groupingFields.find((field) => field.id === groupFieldId) ?? null,
-		[groupFieldId, groupingFields],
+	const activeGroupingFields = useMemo(
+		() =>
+			groupFieldIds
+				.map((fieldId) => groupingFields.find((field) => field.id === fieldId))
+				.filter((field): field is ResolvedObjectGroupingField =>
+					Boolean(field),
+				),
+		[groupFieldIds, groupingFields],
+	);
+	const activeGroupingField = activeGroupingFields[0] ?? null;
+	const activeGroupingLabel = activeGroupingFields
+		.map((field) => field.label)
+		.join(" → ");
+	const serverGroupingFields = useMemo(
+		() =>
+			activeGroupingFields.every((field) => field.serverGroupBy)
+				? activeGroupingFields
+				: [],
+		[activeGroupingFields],
 	);
-	const serverGroupingField = activeGroupingField?.serverGroupBy
-		? activeGroupingField
-		: null;
+	const serverGroupingField = serverGroupingFields[0] ?? null;
+	const serverPivotField =
+		serverGroupingField && serverGroupingFields.length === 1
+			? (groupingFields.find(
+					(field) =>
+						field.id === pivotFieldId &&
+						field.id !== serverGroupingField.id &&
+						field.serverGroupBy,
+				) ?? null)
+			: null;
+	const serverGroupBy = [
+		...serverGroupingFields,
+		...(serverPivotField ? [serverPivotField] : []),
+	].map((field) => field.serverGroupBy ?? "name");
+	const serverGroupBySignature = serverGroupBy.join("|");
 	const serverAggregationActive =
 		serverGroupingField !== null || aggregateMeasures.length > 0;
 	const aggregateMeasureSignature = aggregateMeasures
@@ -1630,11 +1841,21 @@ export function ObjectsExplorer() {
 			),
 		[aggregateMeasureFields],
 	);
+	const aggregateMeasureLabels = useMemo(
+		() =>
+			aggregateMeasures.map((measure) =>
+				formatObjectAggregateMeasureLabel(
+					measure.operation,
+					aggregateMeasureFieldLabels.get(measure.field) ?? measure.field,
+				),
+			),
+		[aggregateMeasureFieldLabels, aggregateMeasures],
+	);
 	const objectAggregatesQuery = useQuery({
 		queryKey: [
 			"object-aggregates",
 			parsedClassId,
-			serverGroupingField?.serverGroupBy,
+			serverGroupBySignature,
 			aggregateMeasureSignature,
 			groupSort,
 			effectiveFetchLimit,
@@ -1644,9 +1865,7 @@ export function ObjectsExplorer() {
 		queryFn: () =>
 			fetchObjectAggregates({
 				classId: parsedClassId ?? 0,
-				groupBy: serverGroupingField
-					? [serverGroupingField.serverGroupBy ?? "name"]
-					: [],
+				groupBy: serverGroupBy,
 				measures: aggregateMeasures,
 				sort: toObjectAggregateSort(groupSort),
 				limit: effectiveFetchLimit,
@@ -1655,6 +1874,40 @@ export function ObjectsExplorer() {
 			}),
 		enabled: parsedClassId !== null && serverAggregationActive,
 	});
+	const hasServerParentGroups = serverGroupBy.length > 1;
+	const objectAggregateParentsQuery = useQuery({
+		queryKey: [
+			"object-aggregates",
+			"parents",
+			parsedClassId,
+			serverGroupBySignature,
+			aggregateMeasureSignature,
+			effectiveFetchLimit,
+			serverFilterSignature,
+		],
+		queryFn: () =>
+			fetchObjectAggregateParentRows({
+				classId: parsedClassId ?? 0,
+				groupBy: serverGroupBy,
+				measures: aggregateMeasures,
+				sort: "dimensions.asc",
+				limit: effectiveFetchLimit,
+				filters: serverFilters,
+			}),
+		enabled:
+			parsedClassId !== null &&
+			serverAggregationActive &&
+			hasServerParentGroups,
+	});
+	const hasMoreAggregatePages = Boolean(
+		objectAggregatesQuery.data?.nextCursor ||
+			objectAggregatesQuery.data?.prevCursor ||
+			aggregateCursorHistory.length > 0,
+	);
+	const hasPartialParentTotals =
+		hasServerParentGroups &&
+		hasMoreAggregatePages &&
+		!objectAggregateParentsQuery.data;
 	// biome-ignore lint/correctness/useExhaustiveDependencies: reset aggregate pagination whenever its request scope changes.
 	useEffect(() => {
 		setAggregateCursor(null);
@@ -1665,61 +1918,121 @@ export function ObjectsExplorer() {
 		groupSort,
 		selectedClassId,
 		serverFilterSignature,
-		serverGroupingField?.serverGroupBy,
+		serverGroupBySignature,
+	]);
+	const formatAggregateDimensionLabel = useCallback(
+		(dimension: ObjectAggregateDimensionValue) => {
+			if (
+				dimension.field === "collection_id" &&
+				dimension.state === "value" &&
+				typeof dimension.value === "number"
+			) {
+				const collectionName = collectionNameById.get(dimension.value);
+				return collectionName
+					? `${collectionName} (#${dimension.value})`
+					: `#${dimension.value}`;
+			}
+			return formatObjectAggregateDimension(dimension);
+		},
+		[collectionNameById],
+	);
+	const serverAggregateGroups = useMemo<DisplayedAggregateGroup[]>(() => {
+		const rows = objectAggregatesQuery.data?.rows ?? [];
+		const toMeasures = (measures: readonly ObjectAggregateMeasureValue[]) =>
+			measures.map((measure, index) => ({
+				displayValue: formatObjectAggregateMeasure(measure),
+				key: `${measure.operation}:${measure.field}:${index}`,
+				label: formatObjectAggregateMeasureLabel(
+					measure.operation,
+					aggregateMeasureFieldLabels.get(measure.field) ?? measure.field,
+				),
+				skippedCount: measure.skipped_count,
+				value: measure.state === "empty" ? null : measure.value,
+				valueCount: measure.value_count,
+			}));
+		if (serverGroupBy.length === 0) {
+			return rows.map((row) => ({
+				id: JSON.stringify(row.dimensions),
+				label: "All matching objects",
+				path: ["All matching objects"],
+				depth: 0,
+				count: row.object_count,
+				measures: toMeasures(row.measures ?? []),
+				children: [],
+			}));
+		}
+		return toDisplayedAggregateGroups(
+			buildObjectAggregateGroupTree(
+				rows,
+				groupSort,
+				formatAggregateDimensionLabel,
+				objectAggregateParentsQuery.data,
+			),
+			(node) => ({ measures: toMeasures(node.measures) }),
+		);
+	}, [
+		aggregateMeasureFieldLabels,
+		formatAggregateDimensionLabel,
+		groupSort,
+		objectAggregateParentsQuery.data,
+		objectAggregatesQuery.data?.rows,
+		serverGroupBy.length,
 	]);
-	const serverAggregateGroups = useMemo<DisplayedAggregateGroup[]>(
+	const objectAggregatePivot = useMemo(
 		() =>
-			(objectAggregatesQuery.data?.rows ?? []).map((row) => {
-				const dimension = row.dimensions[0];
-				let label = dimension
-					? formatObjectAggregateDimension(dimension)
-					: "All matching objects";
-				if (
-					dimension?.field === "collection_id" &&
-					dimension.state === "value" &&
-					typeof dimension.value === "number"
-				) {
-					const collectionName = collectionNameById.get(dimension.value);
-					label = collectionName
-						? `${collectionName} (#${dimension.value})`
-						: `#${dimension.value}`;
-				}
-				return {
-					id: JSON.stringify(row.dimensions),
-					label,
-					count: row.object_count,
-					measures: (row.measures ?? []).map((measure, index) => ({
-						displayValue: formatObjectAggregateMeasure(measure),
-						key: `${measure.operation}:${measure.field}:${index}`,
-						label: formatObjectAggregateMeasureLabel(
-							measure.operation,
-							aggregateMeasureFieldLabels.get(measure.field) ?? measure.field,
-						),
-						skippedCount: measure.skipped_count,
-						value: measure.state === "empty" ? null : measure.value,
-						valueCount: measure.value_count,
-					})),
-				};
-			}),
+			serverPivotField
+				? buildObjectAggregatePivot(
+						objectAggregatesQuery.data?.rows ?? [],
+						pivotMetric !== "count" && pivotMetric >= aggregateMeasures.length
+							? "count"
+							: pivotMetric,
+						formatAggregateDimensionLabel,
+					)
+				: null,
 		[
-			aggregateMeasureFieldLabels,
-			collectionNameById,
+			aggregateMeasures.length,
+			formatAggregateDimensionLabel,
 			objectAggregatesQuery.data?.rows,
+			pivotMetric,
+			serverPivotField,
 		],
 	);
 	const groupedObjects = useMemo(
 		() =>
 			activeGroupingField && !serverGroupingField
-				? groupObjectRows(
-						filteredObjects,
-						activeGroupingField.getValue,
-						groupSort,
+				? toDisplayedAggregateGroups(
+						groupObjectRowsByLevels(
+							filteredObjects,
+							activeGroupingFields.map((field) => field.getValue),
+							groupSort,
+						),
+						(node) => ({ rows: node.rows }),
 					)
 				: [],
-		[activeGroupingField, filteredObjects, groupSort, serverGroupingField],
+		[
+			activeGroupingField,
+			activeGroupingFields,
+			filteredObjects,
+			groupSort,
+			serverGroupingField,
+		],
 	);
-	const displayedGroups: readonly DisplayedAggregateGroup[] =
+	const aggregateGroupTree: readonly DisplayedAggregateGroup[] =
 		serverAggregationActive ? serverAggregateGroups : groupedObjects;
+	const displayedGroups = useMemo(() => {
+		const visibleGroups: DisplayedAggregateGroup[] = [];
+		const addVisibleGroups = (groups: readonly DisplayedAggregateGroup[]) => {
+			for (const group of groups) {
+				visibleGroups.push(group);
+				if (expandedGroupIds.has(group.id)) addVisibleGroups(group.children);
+			}
+		};
+		addVisibleGroups(aggregateGroupTree);
+		return visibleGroups;
+	}, [aggregateGroupTree, expandedGroupIds]);
+	const hasNestedGroups = aggregateGroupTree.some(
+		(group) => group.children.length > 0,
+	);
 	const hasAggregateView =
 		activeGroupingField !== null || aggregateMeasures.length > 0;
 	const displayedObjects = useMemo(() => {
@@ -1749,11 +2062,16 @@ export function ObjectsExplorer() {
 	const groupedExportView = useMemo<TableExportView<DisplayedAggregateGroup>>(
 		() => {
 			const columns: TableExportColumn<DisplayedAggregateGroup>[] = [
-				{
-					key: "group",
-					label: activeGroupingField?.label ?? "Scope",
-					getValue: (group) => group.label,
-				},
+				...(activeGroupingFields.length > 0
+					? activeGroupingFields
+					: [{ label: "Scope" }]
+				).map(
+					(field, index): TableExportColumn<DisplayedAggregateGroup> => ({
+						key: index === 0 ? "group" : `group.${index}`,
+						label: field.label,
+						getValue: (group) => group.path[index] ?? "",
+					}),
+				),
 				{
 					key: "count",
 					label: "Count",
@@ -1791,18 +2109,66 @@ export function ObjectsExplorer() {
 				fileName: `${selectedClass?.name ?? "objects"}-aggregates-view`,
 				sheetName: `${selectedClass?.name ?? "Objects"} aggregates`,
 				columns,
-				rows: displayedGroups,
+				rows: getLeafAggregateGroups(aggregateGroupTree),
 			};
 		},
 		[
-			activeGroupingField?.label,
+			activeGroupingFields,
+			aggregateGroupTree,
 			aggregateMeasureFieldLabels,
 			aggregateMeasures,
-			displayedGroups,
 			parsedClassId,
 			selectedClass?.name,
 		],
 	);
+	const pivotExportView =
+		useMemo<TableExportView<PivotExportRow> | null>(() => {
+			if (!objectAggregatePivot || !serverGroupingField || !serverPivotField) {
+				return null;
+			}
+			const columns: TableExportColumn<PivotExportRow>[] = [
+				{
+					key: "row",
+					label: `${serverGroupingField.label} × ${serverPivotField.label}`,
+					getValue: (row) => row.label,
+				},
+				...objectAggregatePivot.columns.map(
+					(column, index): TableExportColumn<PivotExportRow> => ({
+						key: `column.${column.id}`,
+						label: column.label,
+						getValue: (row) => row.cells[index]?.value ?? null,
+					}),
+				),
+				{
+					key: "total",
+					label: "Total",
+					getValue: (row) => row.total.value,
+				},
+			];
+			return {
+				id:
+					parsedClassId === null
+						? "objects.pivot"
+						: `objects.class.${parsedClassId}.pivot`,
+				fileName: `${selectedClass?.name ?? "objects"}-pivot-view`,
+				sheetName: `${selectedClass?.name ?? "Objects"} pivot`,
+				columns,
+				rows: [
+					...objectAggregatePivot.rows,
+					{
+						label: "Total",
+						cells: objectAggregatePivot.columnTotals,
+						total: objectAggregatePivot.total,
+					},
+				],
+			};
+		}, [
+			objectAggregatePivot,
+			parsedClassId,
+			selectedClass?.name,
+			serverGroupingField,
+			serverPivotField,
+		]);
 	const objectExportColumns = useMemo<
 		TableExportColumn<HubuumObjectComputedResponse>[]
 	>(() => {
@@ -1880,7 +2246,7 @@ export function ObjectsExplorer() {
 			objectsQuery.data ? "ready" : "pending",
 			filteredObjects.length > 0 ? "visible" : "hidden",
 			hasAggregateView
-				? `aggregate:${activeGroupingField?.id ?? "global"}:${aggregateMeasureSignature}`
+				? `aggregate:${groupFieldIds.join(",") || "global"}:${aggregateMeasureSignature}`
 				: "ungrouped",
 			...activeDataColumns.map((column) => column.id),
 			...activeComputedColumns.map((column) => column.id),
@@ -2242,6 +2608,68 @@ export function ObjectsExplorer() {
 		});
 	}, [displayedObjects, selectedObjectIds]);
 
+	const selectedObjects = useMemo(() => {
+		const selectedIds = new Set(selectedObjectIds);
+		return displayedObjects.filter((objectItem) =>
+			selectedIds.has(objectItem.id),
+		);
+	}, [displayedObjects, selectedObjectIds]);
+
+	const onBulkDataEditApplied = useCallback(
+		async (results: BulkObjectDataResult[]) => {
+			if (parsedClassId === null) {
+				return;
+			}
+			await queryClient.invalidateQueries({
+				queryKey: classObjectSamplesQueryKey(parsedClassId),
+			});
+			await queryClient.invalidateQueries({
+				queryKey: ["objects", parsedClassId],
+			});
+			await queryClient.invalidateQueries({
+				queryKey: ["object-aggregates", parsedClassId],
+			});
+			const summary = summarizeBulkObjectDataResults(results);
+			if (summary.conflicted || summary.failed) {
+				showToast(
+					`${summary.succeeded} updated, ${summary.conflicted} conflicted, ${summary.failed} failed.`,
+					"error",
+				);
+				return;
+			}
+			showToast(
+				`${summary.succeeded} object${summary.succeeded === 1 ? "" : "s"} updated.`,
+				"success",
+			);
+		},
+		[parsedClassId, queryClient, showToast],
+	);
+
+	const onCollectionMoveApplied = useCallback(
+		async (results: ObjectCollectionMoveResult[]) => {
+			if (parsedClassId === null) {
+				return;
+			}
+			await queryClient.invalidateQueries({
+				queryKey: classObjectSamplesQueryKey(parsedClassId),
+			});
+			await queryClient.invalidateQueries({
+				queryKey: ["objects", parsedClassId],
+			});
+			await queryClient.invalidateQueries({
+				queryKey: ["object-aggregates", parsedClassId],
+			});
+			const summary = summarizeObjectCollectionMoveResults(results);
+			showToast(
+				summary.failed
+					? `${summary.moved} moved, ${summary.failed} failed.`
+					: `${summary.moved} object${summary.moved === 1 ? "" : "s"} moved.`,
+				summary.failed ? "error" : "success",
+			);
+		},
+		[parsedClassId, queryClient, showToast],
+	);
+
 	useEffect(() => {
 		const onOpenCreate = (event: Event) => {
 			const customEvent = event as CustomEvent<OpenCreateEventDetail>;
@@ -2430,7 +2858,7 @@ export function ObjectsExplorer() {
 		nextMeasures: ObjectAggregateMeasureSelection[],
 	) {
 		if (nextMeasures.length > 0 && activeGroupingField && !serverGroupingField) {
-			setGroupFieldId(null);
+			setGroupFieldIds([]);
 		}
 		setAggregateMeasures(nextMeasures);
 		setAggregateCursor(null);
@@ -2443,27 +2871,142 @@ export function ObjectsExplorer() {
 		}
 	}
 
-	function setGroupingField(nextFieldId: string | null) {
-		const nextGroupingField =
-			groupingFields.find((field) => field.id === nextFieldId) ?? null;
-		setGroupFieldId(nextFieldId);
-		if (nextGroupingField && !nextGroupingField.serverGroupBy) {
+	function setGroupingFields(nextFieldIds: string[]) {
+		const nextGroupingFields = groupingFields.filter((field) =>
+			nextFieldIds.includes(field.id),
+		);
+		const usesServerGrouping =
+			nextGroupingFields.length > 0 &&
+			nextGroupingFields.every((field) => field.serverGroupBy);
+		setGroupFieldIds(nextFieldIds.slice(0, MAX_OBJECT_GROUPING_LEVELS));
+		if (nextGroupingFields.length > 0 && !usesServerGrouping) {
 			setAggregateMeasures([]);
 		}
+		if (
+			!usesServerGrouping ||
+			nextFieldIds.length > 1 ||
+			(pivotFieldId !== null && nextFieldIds.includes(pivotFieldId))
+		) {
+			setPivotFieldId(null);
+		}
 		setAggregateCursor(null);
 		setAggregateCursorHistory([]);
 		if (
-			nextGroupingField?.serverGroupBy &&
+			usesServerGrouping &&
 			(searchTerm || normalizeSearchTerm(searchInput))
 		) {
 			clearFilter();
 		}
-		if (nextFieldId) {
+		if (nextFieldIds.length > 0) {
 			setDataColumnSort({ columnId: null, direction: "asc" });
 			setSelectedObjectIds([]);
 		}
 	}
 
+	function toggleGroupExpanded(groupId: string) {
+		setExpandedGroupIds((current) => {
+			const next = new Set(current);
+			if (!next.delete(groupId)) next.add(groupId);
+			return next;
+		});
+	}
+
+	function setAllGroupsExpanded(expanded: boolean) {
+		if (!expanded) {
+			setExpandedGroupIds(new Set());
+			return;
+		}
+		const groupIds = new Set<string>();
+		const addGroupIds = (groups: readonly DisplayedAggregateGroup[]) => {
+			for (const group of groups) {
+				if (group.children.length === 0) continue;
+				groupIds.add(group.id);
+				addGroupIds(group.children);
+			}
+		};
+		addGroupIds(aggregateGroupTree);
+		setExpandedGroupIds(groupIds);
+	}
+
+	function setPivotField(nextFieldId: string | null) {
+		setPivotFieldId(nextFieldId);
+		setAggregateCursor(null);
+		setAggregateCursorHistory([]);
+	}
+
+	function drillIntoAggregate(dimensions: ObjectAggregateDimensionValue[]) {
+		const additions = dimensions.map((dimension) =>
+			getObjectAggregateDimensionFilter(dimension, serverFilterComputedFields),
+		);
+		if (additions.some((filter) => filter === null)) {
+			showToast("This value cannot be used as a server filter.", "error");
+			return;
+		}
+		let nextFilters: ObjectServerFilter[];
+		try {
+			nextFilters = mergeObjectAggregateDrillDownFilters(
+				serverFilters,
+				additions.filter((filter) => filter !== null),
+			);
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to drill down.",
+				"error",
+			);
+			return;
+		}
+		setGroupFieldIds([]);
+		setPivotFieldId(null);
+		setAggregateMeasures([]);
+		updateServerFilters(nextFilters);
+	}
+
+	function applyObjectView(
+		viewState: ObjectViewState,
+		navigation: "push" | "replace" = "push",
+	) {
+		if (parsedClassId === null) return;
+		if (dataColumnStorageKey) {
+			writeUserSetting(
+				dataColumnStorageKey,
+				JSON.stringify(viewState.dataColumns),
+			);
+		}
+		if (hiddenComputedColumnsStorageKey) {
+			writeUserSetting(
+				hiddenComputedColumnsStorageKey,
+				JSON.stringify(viewState.hiddenComputedColumns),
+			);
+		}
+		if (rawDataColumnStorageKey) {
+			writeUserSetting(
+				rawDataColumnStorageKey,
+				viewState.showRawDataColumn ? "visible" : "hidden",
+			);
+		}
+		setSelectedDataColumns(
+			viewState.dataColumns.slice(0, MAX_SELECTED_DATA_COLUMNS),
+		);
+		setHiddenComputedColumnIds(viewState.hiddenComputedColumns);
+		setShowRawDataColumn(viewState.showRawDataColumn);
+		setGroupFieldIds(viewState.groupFieldIds);
+		setPivotFieldId(viewState.pivotFieldId);
+		setGroupSort(viewState.groupSort);
+		setAggregateMeasures(
+			viewState.measures.map((measure) => ({
+				...measure,
+				id: crypto.randomUUID(),
+			})),
+		);
+		setAggregateCursor(null);
+		setAggregateCursorHistory([]);
+		setDataColumnSort({ columnId: null, direction: "asc" });
+		setSelectedObjectIds([]);
+		router[navigation](
+			`${pathname}?${buildObjectViewSearchParams(parsedClassId, viewState).toString()}`,
+		);
+	}
+
 	function toggleDataColumnPicker() {
 		setColumnPickerOpen((current) => !current);
 	}
@@ -2784,13 +3327,30 @@ export function ObjectsExplorer() {
 		);
 	}
 
+	const currentViewState: ObjectViewState = {
+		search: normalizeSearchTerm(searchParams.get("search")),
+		filters: serverFilters,
+		dataColumns: activeDataColumns.map((column) => column.id),
+		hiddenComputedColumns: hiddenComputedColumnIds,
+		showRawDataColumn,
+		groupFieldIds,
+		pivotFieldId: serverPivotField?.id ?? null,
+		groupSort,
+		measures: aggregateMeasures.map(({ field, operation }) => ({
+			field,
+			operation,
+		})),
+		sort: getSortParam() ?? null,
+		limit: pagination.limit,
+	};
+
 	const resourceSummary =
 		serverAggregationActive
 			? objectAggregatesQuery.data
 				? buildResourceSummary({
-						loaded: serverAggregateGroups.length,
+						loaded: objectAggregatesQuery.data.rows.length,
 						loadedNoun:
-							serverAggregateGroups.length === 1 ? "group" : "groups",
+							objectAggregatesQuery.data.rows.length === 1 ? "group" : "groups",
 						total: objectAggregatesQuery.data.totalCount,
 						selected: selectedObjectIds.length,
 					})
@@ -2809,7 +3369,7 @@ export function ObjectsExplorer() {
 						details:
 							activeGroupingField && !serverGroupingField
 								? [
-										`${displayedGroups.length} group${displayedGroups.length === 1 ? "" : "s"}`,
+										`${aggregateGroupTree.length} group${aggregateGroupTree.length === 1 ? "" : "s"}`,
 									]
 								: [],
 					})
@@ -2842,6 +3402,38 @@ export function ObjectsExplorer() {
 			>
 				{renderCreateObjectForm()}
 			</CreateModal>
+			{parsedClassId !== null ? (
+				<CreateModal
+					open={isBulkDataEditOpen}
+					title={`Edit data of ${selectedObjects.length} object${
+						selectedObjects.length === 1 ? "" : "s"
+					}`}
+					onClose={() => setBulkDataEditOpen(false)}
+					panelClassName="object-bulk-data-modal-panel"
+				>
+					<ObjectBulkDataEditor
+						key={selectedObjectIds.join(",")}
+						classId={parsedClassId}
+						objects={selectedObjects}
+						onApplied={onBulkDataEditApplied}
+					/>
+				</CreateModal>
+			) : null}
+			<CreateModal
+				open={isCollectionMoveOpen}
+				title={`Move ${selectedObjects.length} object${
+					selectedObjects.length === 1 ? "" : "s"
+				} to collection`}
+				onClose={() => setCollectionMoveOpen(false)}
+			>
+				<ObjectCollectionMoveForm
+					key={selectedObjectIds.join(",")}
+					objects={selectedObjects}
+					canAdminister={canAdminister}
+					currentUsername={currentUsername}
+					onMoved={onCollectionMoveApplied}
+				/>
+			</CreateModal>
 
 			<div className="card table-wrap resource-index objects-resource-index">
 				<div className="table-header">
@@ -2876,6 +3468,12 @@ export function ObjectsExplorer() {
 						}
 					/>
 					<div className="table-tools">
+						<ObjectSavedViewsMenu
+							classId={parsedClassId}
+							className={selectedClass?.name ?? null}
+							state={currentViewState}
+							onApply={applyObjectView}
+						/>
 						<fieldset
 							className="object-fetch-limit"
 							disabled={parsedClassId === null}
@@ -3145,11 +3743,13 @@ export function ObjectsExplorer() {
 						</div>
 						<ObjectGroupingMenu
 							fields={groupingFields}
-							fieldId={groupFieldId}
+							fieldIds={groupFieldIds}
+							pivotFieldId={serverPivotField?.id ?? null}
 							measureFields={aggregateMeasureFields}
 							measures={aggregateMeasures}
 							sort={groupSort}
-							onFieldChange={setGroupingField}
+							onFieldsChange={setGroupingFields}
+							onPivotFieldChange={setPivotField}
 							onMeasuresChange={setAggregateMeasureSelection}
 							onSortChange={setAggregateSort}
 							disabled={
@@ -3165,8 +3765,47 @@ export function ObjectsExplorer() {
 							onChange={updateServerFilters}
 							disabled={parsedClassId === null}
 						/>
+						{selectedObjectIds.length > 0 && parsedClassId !== null ? (
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => setBulkDataEditOpen(true)}
+								disabled={serverAggregationActive}
+							>
+								Edit data ({selectedObjectIds.length})
+							</button>
+						) : null}
+						{selectedObjectIds.length > 0 && parsedClassId !== null ? (
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => setCollectionMoveOpen(true)}
+								disabled={serverAggregationActive}
+							>
+								Move to collection
+							</button>
+						) : null}
+						{parsedClassId !== null &&
+						canCompareObjects(selectedObjects.length) ? (
+							<Link
+								className="link-chip"
+								href={buildObjectComparisonHref(
+									selectedObjects.map((objectItem) => ({
+										classId: objectItem.hubuum_class_id,
+										objectId: objectItem.id,
+									})),
+								)}
+							>
+								Compare ({selectedObjects.length})
+							</Link>
+						) : null}
 						<div className="object-export-search-tools">
-							{hasAggregateView ? (
+							{pivotExportView ? (
+								<TableExportMenu
+									view={pivotExportView}
+									disabled={objectAggregatesQuery.isFetching}
+								/>
+							) : hasAggregateView ? (
 								<TableExportMenu
 									view={groupedExportView}
 									disabled={
@@ -3220,6 +3859,13 @@ export function ObjectsExplorer() {
 						</div>
 					</div>
 				</div>
+				<ObjectFilterQueryInput
+					filters={serverFilters}
+					dataFields={serverFilterDataFields}
+					computedFields={serverFilterComputedFields}
+					onChange={updateServerFilters}
+					disabled={parsedClassId === null}
+				/>
 				{sharedComputedQuery.isError || personalComputedQuery.isError ? (
 					<div className="muted" role="status">
 						Some computed field definitions could not be loaded. Object data is
@@ -3265,12 +3911,22 @@ export function ObjectsExplorer() {
 						) : null}
 						{activeGroupingField ? (
 							<span>
-								<strong>Grouped by {activeGroupingField.label}</strong>{" "}
+								<strong>Grouped by {activeGroupingLabel}</strong>{" "}
 								{serverGroupingField
-									? "across every object matching the server filters; counts are permission-aware and do not depend on the loaded object page."
+									? "by the server across every object matching the server filters; counts are permission-aware."
 									: `across the ${filteredObjects.length} loaded row${filteredObjects.length === 1 ? "" : "s"}; custom-field counts update when you change page.`}
 							</span>
 						) : null}
+						{serverAggregationActive &&
+						hasServerParentGroups &&
+						hasMoreAggregatePages ? (
+							<span>
+								<strong>Partial group list</strong>:{" "}
+								{hasPartialParentTotals
+									? "parent totals only add up the groups on this aggregate page."
+									: "only the groups on this aggregate page are listed; parent totals cover every matching object."}
+							</span>
+						) : null}
 						{aggregateMeasures.length > 0 ? (
 							<span>
 								<strong>
@@ -3283,6 +3939,19 @@ export function ObjectsExplorer() {
 					</div>
 				) : null}
 
+				{parsedClassId !== null &&
+				displayedGroups.length > 0 &&
+				!(
+					serverAggregationActive &&
+					(objectAggregatesQuery.isLoading || objectAggregatesQuery.isError)
+				) ? (
+					<ObjectAggregateChart
+						groups={aggregateGroupTree}
+						groupLabel={activeGroupingField?.label ?? "Scope"}
+						measureLabels={aggregateMeasureLabels}
+						fileName={`${selectedClass?.name ?? "objects"}-aggregates`}
+					/>
+				) : null}
 				{parsedClassId === null ? (
 					<div className="muted">Select a class to load its objects.</div>
 				) : serverAggregationActive && objectAggregatesQuery.isLoading ? (
@@ -3355,101 +4024,163 @@ export function ObjectsExplorer() {
 							)
 						}
 					/>
-				) : hasAggregateView ? (
-					<section
-						className="object-table-scroll object-grouped-table-scroll"
-						aria-label={
-							serverAggregationActive ? "Object aggregates" : "Grouped objects"
+				) : objectAggregatePivot && serverGroupingField && serverPivotField ? (
+					<ObjectAggregatePivotTable
+						pivot={objectAggregatePivot}
+						rowLabel={serverGroupingField.label}
+						columnLabel={serverPivotField.label}
+						measureLabels={aggregateMeasureLabels}
+						metric={
+							pivotMetric !== "count" && pivotMetric >= aggregateMeasures.length
+								? "count"
+								: pivotMetric
 						}
-					>
-						<table className="object-grouped-table">
-							<caption className="sr-only">
-								{activeGroupingField
-									? `Objects grouped by ${activeGroupingField.label}`
-									: "Global object measures"}
-							</caption>
-							<thead>
-								<tr>
-									<th aria-sort={getGroupedSortAria("value")}>
-										<button
-											type="button"
-											className="table-sort-button"
-											disabled={!activeGroupingField}
-											onClick={() => setGroupedColumnSort("value")}
-										>
-											{activeGroupingField?.label ?? "Scope"}
-											{renderGroupedSortIndicator("value")}
-										</button>
-									</th>
-									<th aria-sort={getGroupedSortAria("count")}>
-										<button
-											type="button"
-											className="table-sort-button"
-											onClick={() => setGroupedColumnSort("count")}
-										>
-											Count{renderGroupedSortIndicator("count")}
-										</button>
-									</th>
-									{aggregateMeasures.map((measure) => (
-										<th key={measure.id}>
-											{formatObjectAggregateMeasureLabel(
-												measure.operation,
-												aggregateMeasureFieldLabels.get(measure.field) ??
-													measure.field,
-											)}
+						onMetricChange={setPivotMetric}
+						onDrillDown={drillIntoAggregate}
+						isPartial={Boolean(objectAggregatesQuery.data?.nextCursor)}
+					/>
+				) : hasAggregateView ? (
+					<>
+						{hasNestedGroups ? (
+							<div className="object-grouping-tree-toolbar">
+								<button
+									type="button"
+									className="ghost"
+									onClick={() => setAllGroupsExpanded(true)}
+								>
+									Expand all
+								</button>
+								<button
+									type="button"
+									className="ghost"
+									onClick={() => setAllGroupsExpanded(false)}
+									disabled={expandedGroupIds.size === 0}
+								>
+									Collapse all
+								</button>
+							</div>
+						) : null}
+						<section
+							className="object-table-scroll object-grouped-table-scroll"
+							aria-label={
+								serverAggregationActive
+									? "Object aggregates"
+									: "Grouped objects"
+							}
+						>
+							<table className="object-grouped-table">
+								<caption className="sr-only">
+									{activeGroupingField
+										? `Objects grouped by ${activeGroupingLabel}`
+										: "Global object measures"}
+								</caption>
+								<thead>
+									<tr>
+										<th aria-sort={getGroupedSortAria("value")}>
+											<button
+												type="button"
+												className="table-sort-button"
+												disabled={!activeGroupingField}
+												onClick={() => setGroupedColumnSort("value")}
+											>
+												{activeGroupingField ? activeGroupingLabel : "Scope"}
+												{renderGroupedSortIndicator("value")}
+											</button>
 										</th>
-									))}
-									{serverAggregationActive ? null : <th>Examples</th>}
-								</tr>
-							</thead>
-							<tbody>
-								{displayedGroups.map((group) => (
-									<tr key={group.id}>
-										<td title={group.label}>{group.label}</td>
-										<td className="object-group-count">{group.count}</td>
-										{aggregateMeasures.map((measure, index) => {
-											const result = group.measures?.[index];
-											return (
-												<td
-													className="object-group-measure"
-													key={measure.id}
-													title={
-														result
-															? `${result.valueCount} contributing · ${result.skippedCount} skipped`
-															: undefined
-													}
+										<th aria-sort={getGroupedSortAria("count")}>
+											<button
+												type="button"
+												className="table-sort-button"
+												onClick={() => setGroupedColumnSort("count")}
+											>
+												Count{renderGroupedSortIndicator("count")}
+											</button>
+										</th>
+										{aggregateMeasures.map((measure) => (
+											<th key={measure.id}>
+												{formatObjectAggregateMeasureLabel(
+													measure.operation,
+													aggregateMeasureFieldLabels.get(measure.field) ??
+														measure.field,
+												)}
+											</th>
+										))}
+										{serverAggregationActive ? null : <th>Examples</th>}
+									</tr>
+								</thead>
+								<tbody>
+									{displayedGroups.map((group) => (
+										<tr key={group.id}>
+											<td title={group.path.join(" → ")}>
+												<span
+													className="object-group-label"
+													style={{
+														paddingLeft:
+															group.depth > 0 ? `${group.depth * 1.25}rem` : 0,
+													}}
 												>
-													{result?.displayValue ?? "—"}
-													{result ? (
-														<small>
-															{result.valueCount} used · {result.skippedCount} skipped
-														</small>
-													) : null}
-												</td>
-											);
-										})}
-										{serverAggregationActive ? null : (
-											<td>
-												<div className="object-group-examples">
-													{(group.rows ?? []).slice(0, 3).map((objectItem) => (
-														<Link
-															key={objectItem.id}
-															href={`/objects/${objectItem.hubuum_class_id}/${objectItem.id}`}
+													{group.children.length > 0 ? (
+														<button
+															type="button"
+															className="object-group-toggle"
+															aria-expanded={expandedGroupIds.has(group.id)}
+															aria-label={`${expandedGroupIds.has(group.id) ? "Collapse" : "Expand"} ${group.label}`}
+															onClick={() => toggleGroupExpanded(group.id)}
 														>
-															{objectItem.name}
-														</Link>
-													))}
-													{(group.rows?.length ?? 0) > 3 ? (
-														<span>+{(group.rows?.length ?? 0) - 3} more</span>
+															{expandedGroupIds.has(group.id) ? "▾" : "▸"}
+														</button>
 													) : null}
-												</div>
+													{group.label}
+												</span>
 											</td>
-										)}
-									</tr>
-								))}
-							</tbody>
-						</table>
-					</section>
+											<td className="object-group-count">{group.count}</td>
+											{aggregateMeasures.map((measure, index) => {
+												const result = group.measures?.[index];
+												return (
+													<td
+														className="object-group-measure"
+														key={measure.id}
+														title={
+															result
+																? `${result.valueCount} contributing · ${result.skippedCount} skipped`
+																: undefined
+														}
+													>
+														{result?.displayValue ?? "—"}
+														{result ? (
+															<small>
+																{result.valueCount} used · {result.skippedCount}{" "}
+																skipped
+															</small>
+														) : null}
+													</td>
+												);
+											})}
+											{serverAggregationActive ? null : (
+												<td>
+													<div className="object-group-examples">
+														{(group.rows ?? [])
+															.slice(0, 3)
+															.map((objectItem) => (
+																<Link
+																	key={objectItem.id}
+																	href={`/objects/${objectItem.hubuum_class_id}/${objectItem.id}`}
+																>
+																	{objectItem.name}
+																</Link>
+															))}
+														{(group.rows?.length ?? 0) > 3 ? (
+															<span>+{(group.rows?.length ?? 0) - 3} more</span>
+														) : null}
+													</div>
+												</td>
+											)}
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</section>
+					</>
 				) : (
 					<>
 						<p className="table-scroll-hint">
@@ -3792,7 +4523,7 @@ export function ObjectsExplorer() {
 								)
 							}
 							onFirstPage={goToFirstAggregatePage}
-							currentCount={serverAggregateGroups.length}
+							currentCount={objectAggregatesQuery.data.rows.length}
 							totalCount={objectAggregatesQuery.data.totalCount}
 						/>
 					) : null
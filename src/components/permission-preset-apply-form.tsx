@@ -0,0 +1,789 @@
+"use client";
+
+import {
+	useMutation,
+	useQueries,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import Link from "next/link";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+
+import {
+	fetchAllCollections,
+	fetchCollectionPermissions,
+	grantCollectionGroupPermissions,
+	replaceCollectionGroupPermissions,
+} from "@/lib/api/collections";
+import type { Permissions as PermissionName } from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+import { fetchAllGroups, fetchCurrentUserGroups } from "@/lib/api/groups";
+import {
+	buildCollectionHierarchy,
+	getDescendantCollectionIds,
+} from "@/lib/collection-hierarchy";
+import {
+	getEnabledPermissions,
+	getSectionDefinitions,
+	PERMISSION_DEFINITIONS,
+	PERMISSION_SECTION_LABELS,
+	PERMISSION_SECTION_ORDER,
+	type PermissionMatrixChange,
+	summarizePermissions,
+} from "@/lib/collection-permissions";
+import { useConfirm } from "@/lib/confirm-context";
+import { formatScopedGroupName } from "@/lib/identity-scopes";
+import {
+	DEFAULT_PERMISSION_PRESETS,
+	type PermissionPreset,
+	parsePermissionPresets,
+	planPermissionPresetChanges,
+	removePermissionPreset,
+	serializePermissionPresets,
+	upsertPermissionPreset,
+} from "@/lib/permission-presets";
+import { useToast } from "@/lib/toast-context";
+import {
+	USER_SETTINGS_CHANGED_EVENT,
+	writeUserSetting,
+} from "@/lib/user-settings-client";
+import { PORTABLE_USER_SETTING_KEYS } from "@/lib/user-settings-types";
+
+const PERMISSION_PRESET_COLLECTION_LIMIT = 100;
+
+const PERMISSION_LABELS = new Map(
+	PERMISSION_DEFINITIONS.map((definition) => [
+		definition.value,
+		definition.label,
+	]),
+);
+
+type PermissionPresetApplyFormProps = {
+	collections: { id: number; name: string }[];
+	canAdminister: boolean;
+	onApplied?: () => Promise<void> | void;
+};
+
+type PermissionPresetApplyResult = {
+	collectionId: number;
+	status: "applied" | "failed";
+	message: string;
+};
+
+type PresetDraft = {
+	id: string | null;
+	name: string;
+	permissions: Set<PermissionName>;
+};
+
+function readStoredPresets(): PermissionPreset[] {
+	try {
+		return parsePermissionPresets(
+			window.localStorage.getItem(PORTABLE_USER_SETTING_KEYS.permissionPresets),
+		);
+	} catch {
+		return DEFAULT_PERMISSION_PRESETS;
+	}
+}
+
+function formatPermissionLabels(permissions: PermissionName[]): string {
+	return permissions
+		.map((permission) => PERMISSION_LABELS.get(permission) ?? permission)
+		.join(", ");
+}
+
+function toPresetDraft(preset: PermissionPreset | null): PresetDraft {
+	return {
+		id: preset?.id ?? null,
+		name: preset?.name ?? "",
+		permissions: new Set(preset?.permissions ?? []),
+	};
+}
+
+export function PermissionPresetApplyForm({
+	collections,
+	canAdminister,
+	onApplied,
+}: PermissionPresetApplyFormProps) {
+	const queryClient = useQueryClient();
+	const confirm = useConfirm();
+	const { showToast } = useToast();
+	const [presets, setPresets] = useState<PermissionPreset[]>(
+		DEFAULT_PERMISSION_PRESETS,
+	);
+	const [presetId, setPresetId] = useState("");
+	const [groupId, setGroupId] = useState("");
+	const [includeDescendants, setIncludeDescendants] = useState(false);
+	const [revokeOthers, setRevokeOthers] = useState(false);
+	const [batchStart, setBatchStart] = useState(0);
+	const [isEditingPresets, setEditingPresets] = useState(false);
+	const [draft, setDraft] = useState<PresetDraft>(() => toPresetDraft(null));
+	const [results, setResults] = useState<PermissionPresetApplyResult[]>([]);
+	const [progress, setProgress] = useState({ completed: 0, total: 0 });
+
+	useEffect(() => {
+		setPresets(readStoredPresets());
+		const onSettingChange = (event: Event) => {
+			const key = (event as CustomEvent<{ key?: string }>).detail?.key;
+			if (key === PORTABLE_USER_SETTING_KEYS.permissionPresets) {
+				setPresets(readStoredPresets());
+			}
+		};
+		window.addEventListener(USER_SETTINGS_CHANGED_EVENT, onSettingChange);
+		return () =>
+			window.removeEventListener(USER_SETTINGS_CHANGED_EVENT, onSettingChange);
+	}, []);
+
+	const collectionsQuery = useQuery({
+		queryKey: ["collections", "all"],
+		queryFn: fetchAllCollections,
+		enabled: includeDescendants,
+	});
+	const groupsQuery = useQuery({
+		queryKey: ["groups", "permission-presets"],
+		queryFn: fetchAllGroups,
+	});
+	const currentUserGroupsQuery = useQuery({
+		queryKey: ["permissions", "current-user-groups"],
+		queryFn: fetchCurrentUserGroups,
+	});
+	const canRevokeOthers = currentUserGroupsQuery.isSuccess;
+	const replacesPermissions = revokeOthers && canRevokeOthers;
+	const currentUserGroupIds = useMemo(
+		() => new Set((currentUserGroupsQuery.data ?? []).map((group) => group.id)),
+		[currentUserGroupsQuery.data],
+	);
+	const hierarchy = useMemo(
+		() => buildCollectionHierarchy(collectionsQuery.data ?? []),
+		[collectionsQuery.data],
+	);
+	const targets = useMemo(() => {
+		const byId = new Map(
+			collections.map((collection) => [collection.id, collection.name]),
+		);
+		if (includeDescendants) {
+			for (const collection of collections) {
+				for (const id of getDescendantCollectionIds(
+					collection.id,
+					hierarchy.childrenByParentId,
+				)) {
+					if (!byId.has(id)) {
+						byId.set(id, hierarchy.byId.get(id)?.name ?? `Collection #${id}`);
+					}
+				}
+			}
+		}
+		return [...byId].map(([id, name]) => ({ id, name }));
+	}, [collections, hierarchy, includeDescendants]);
+	const firstTargetIndex = batchStart < targets.length ? batchStart : 0;
+	const checkedTargets = targets.slice(
+		firstTargetIndex,
+		firstTargetIndex + PERMISSION_PRESET_COLLECTION_LIMIT,
+	);
+	const nextTargetIndex = firstTargetIndex + checkedTargets.length;
+	const collectionNames = new Map(
+		targets.map((collection) => [collection.id, collection.name]),
+	);
+
+	const permissionQueries = useQueries({
+		queries: checkedTargets.map((collection) => ({
+			queryKey: ["collection", collection.id, "permissions"],
+			queryFn: () => fetchCollectionPermissions(collection.id),
+		})),
+	});
+	const isLoadingPermissions =
+		currentUserGroupsQuery.isLoading ||
+		permissionQueries.some((query) => query.isLoading);
+	const permissionsError =
+		permissionQueries.find((query) => query.isError)?.error ?? null;
+
+	const selectedPreset =
+		presets.find((preset) => preset.id === presetId) ?? null;
+	const selectedGroupId = groupId ? Number(groupId) : null;
+	const current = new Map<number, PermissionName[]>();
+	for (const query of permissionQueries) {
+		for (const permission of query.data ?? []) {
+			if (permission.group_id === selectedGroupId) {
+				current.set(
+					permission.collection_id,
+					getEnabledPermissions(permission),
+				);
+			}
+		}
+	}
+	const changes =
+		selectedPreset && selectedGroupId !== null && !isLoadingPermissions
+			? planPermissionPresetChanges({
+					groupId: selectedGroupId,
+					collectionIds: checkedTargets.map((collection) => collection.id),
+					current,
+					permissions: selectedPreset.permissions,
+					revokeOthers: replacesPermissions,
+					protectedGroupIds: currentUserGroupIds,
+				})
+			: [];
+	const keepsOwnDelegation =
+		replacesPermissions &&
+		selectedGroupId !== null &&
+		currentUserGroupIds.has(selectedGroupId) &&
+		!selectedPreset?.permissions.includes(
+			PermissionValues.DelegateCollection,
+		) &&
+		changes.some((change) =>
+			change.after.includes(PermissionValues.DelegateCollection),
+		);
+	const failedResults = new Map(
+		results
+			.filter((result) => result.status === "failed")
+			.map((result) => [result.collectionId, result.message]),
+	);
+	const applySummary = {
+		applied: results.filter((result) => result.status === "applied").length,
+		failed: failedResults.size,
+	};
+
+	const applyMutation = useMutation({
+		mutationFn: async (payload: {
+			groupId: number;
+			changes: PermissionMatrixChange[];
+			revokeOthers: boolean;
+		}) => {
+			const applied: PermissionPresetApplyResult[] = [];
+			for (const change of payload.changes) {
+				let result: PermissionPresetApplyResult;
+				try {
+					if (payload.revokeOthers) {
+						await replaceCollectionGroupPermissions(
+							change.collectionId,
+							payload.groupId,
+							change.after,
+						);
+					} else {
+						await grantCollectionGroupPermissions(
+							change.collectionId,
+							payload.groupId,
+							change.added,
+						);
+					}
+					result = {
+						collectionId: change.collectionId,
+						status: "applied",
+						message: "",
+					};
+				} catch (error) {
+					result = {
+						collectionId: change.collectionId,
+						status: "failed",
+						message:
+							error instanceof Error
+								? error.message
+								: "Failed to update collection permissions.",
+					};
+				}
+				applied.push(result);
+				setProgress((currentProgress) => ({
+					...currentProgress,
+					completed: currentProgress.completed + 1,
+				}));
+				setResults((currentResults) => [
+					...currentResults.filter(
+						(entry) => entry.collectionId !== change.collectionId,
+					),
+					result,
+				]);
+			}
+			return applied;
+		},
+		onSettled: async (applied) => {
+			for (const collectionId of new Set(
+				(applied ?? []).map((result) => result.collectionId),
+			)) {
+				await queryClient.invalidateQueries({
+					queryKey: ["collection", collectionId],
+				});
+			}
+			if (applied?.some((result) => result.status === "applied")) {
+				await onApplied?.();
+			}
+		},
+	});
+
+	function startApply(pending: PermissionMatrixChange[]) {
+		if (selectedGroupId === null || pending.length === 0) {
+			return;
+		}
+		setProgress({ completed: 0, total: pending.length });
+		applyMutation.mutate({
+			groupId: selectedGroupId,
+			changes: pending,
+			revokeOthers: replacesPermissions,
+		});
+	}
+
+	function resetBatches() {
+		setBatchStart(0);
+		setResults([]);
+		setProgress({ completed: 0, total: 0 });
+	}
+
+	async function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		if (!selectedPreset || changes.length === 0) {
+			return;
+		}
+		const confirmed = await confirm({
+			title: `Apply "${selectedPreset.name}" to ${changes.length} collection${
+				changes.length === 1 ? "" : "s"
+			}?`,
+			description: replacesPermissions
+				? `The group's permissions on each collection are replaced by the preset. Permissions outside the preset are revoked.${
+						keepsOwnDelegation
+							? " Delegate collection is kept because you are a member of this group, so you can still manage these permissions."
+							: ""
+					}`
+				: "Preset permissions are added to the group's existing permissions on each collection.",
+			confirmLabel: "Apply preset",
+		});
+		if (!confirmed) {
+			return;
+		}
+		setResults([]);
+		startApply(changes);
+	}
+
+	function persistPresets(nextPresets: PermissionPreset[]) {
+		if (
+			!writeUserSetting(
+				PORTABLE_USER_SETTING_KEYS.permissionPresets,
+				serializePermissionPresets(nextPresets),
+			)
+		) {
+			throw new Error(
+				"Permission presets could not be stored in this browser.",
+			);
+		}
+		setPresets(nextPresets);
+	}
+
+	function savePreset() {
+		try {
+			const nextPresets = upsertPermissionPreset(presets, {
+				id: draft.id ?? undefined,
+				name: draft.name,
+				permissions: [...draft.permissions],
+			});
+			persistPresets(nextPresets);
+			const saved =
+				nextPresets.find((preset) => preset.id === draft.id) ??
+				nextPresets[nextPresets.length - 1];
+			setPresetId(saved.id);
+			setDraft(toPresetDraft(saved));
+			showToast(
+				draft.id
+					? `Updated preset "${saved.name}".`
+					: `Saved preset "${saved.name}".`,
+				"success",
+			);
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to save preset.",
+				"error",
+			);
+		}
+	}
+
+	async function deletePreset() {
+		const preset = presets.find((item) => item.id === draft.id);
+		if (!preset) {
+			return;
+		}
+		const confirmed = await confirm({
+			title: `Delete preset "${preset.name}"?`,
+			description:
+				"Existing grants are not changed. The preset is removed from your settings.",
+			confirmLabel: "Delete",
+			tone: "danger",
+		});
+		if (!confirmed) {
+			return;
+		}
+		try {
+			persistPresets(removePermissionPreset(presets, preset.id));
+			if (presetId === preset.id) {
+				setPresetId("");
+			}
+			setDraft(toPresetDraft(null));
+		} catch (error) {
+			showToast(
+				error instanceof Error ? error.message : "Failed to delete preset.",
+				"error",
+			);
+		}
+	}
+
+	function toggleDraftPermission(permission: PermissionName) {
+		setDraft((currentDraft) => {
+			const permissions = new Set(currentDraft.permissions);
+			if (permissions.has(permission)) {
+				permissions.delete(permission);
+			} else {
+				permissions.add(permission);
+			}
+			return { ...currentDraft, permissions };
+		});
+	}
+
+	const unchangedCount =
+		selectedPreset && selectedGroupId !== null && !isLoadingPermissions
+			? checkedTargets.length - changes.length
+			: 0;
+
+	return (
+		<form className="stack permission-preset-form" onSubmit={onSubmit}>
+			<div className="form-grid">
+				<label className="control-field">
+					<span>Preset</span>
+					<select
+						value={presetId}
+						onChange={(event) => {
+							setPresetId(event.target.value);
+							resetBatches();
+						}}
+						disabled={applyMutation.isPending}
+						required
+					>
+						<option value="">Select preset</option>
+						{presets.map((preset) => (
+							<option key={preset.id} value={preset.id}>
+								{preset.name}
+							</option>
+						))}
+					</select>
+				</label>
+				<label className="control-field">
+					<span>Group</span>
+					<select
+						value={groupId}
+						onChange={(event) => {
+							setGroupId(event.target.value);
+							resetBatches();
+						}}
+						disabled={applyMutation.isPending || groupsQuery.isLoading}
+						required
+					>
+						<option value="">
+							{groupsQuery.isLoading
+								? "Loading groups..."
+								: groupsQuery.isError
+									? "Failed to load groups"
+									: "Select group"}
+						</option>
+						{(groupsQuery.data ?? []).map((group) => (
+							<option key={group.id} value={group.id}>
+								{formatScopedGroupName(group)}
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+
+			{selectedPreset ? (
+				<p className="muted">
+					{summarizePermissions(new Set(selectedPreset.permissions))}
+				</p>
+			) : null}
+
+			<label className="checkbox-row">
+				<input
+					type="checkbox"
+					checked={includeDescendants}
+					onChange={(event) => {
+						setIncludeDescendants(event.target.checked);
+						resetBatches();
+					}}
+					disabled={applyMutation.isPending}
+				/>
+				<span>Include descendant collections</span>
+			</label>
+			<label className="checkbox-row">
+				<input
+					type="checkbox"
+					checked={replacesPermissions}
+					onChange={(event) => setRevokeOthers(event.target.checked)}
+					disabled={applyMutation.isPending || !canRevokeOthers}
+				/>
+				<span>Also revoke permissions not in the preset</span>
+			</label>
+			{currentUserGroupsQuery.isError ? (
+				<div className="error-banner">
+					Failed to load your groups, so permissions cannot be revoked without
+					risking your own access.{" "}
+					{currentUserGroupsQuery.error instanceof Error
+						? currentUserGroupsQuery.error.message
+						: "Unknown error"}
+				</div>
+			) : null}
+
+			{canAdminister ? (
+				<div className="stack permission-preset-editor">
+					<div className="panel-header">
+						<h4>Manage presets</h4>
+						<button
+							type="button"
+							className="ghost"
+							onClick={() => {
+								setDraft(
+									toPresetDraft(isEditingPresets ? null : selectedPreset),
+								);
+								setEditingPresets(!isEditingPresets);
+							}}
+						>
+							{isEditingPresets ? "Close editor" : "Edit presets"}
+						</button>
+					</div>
+					{isEditingPresets ? (
+						<>
+							<div className="form-grid">
+								<label className="control-field">
+									<span>Edit</span>
+									<select
+										value={draft.id ?? ""}
+										onChange={(event) =>
+											setDraft(
+												toPresetDraft(
+													presets.find(
+														(preset) => preset.id === event.target.value,
+													) ?? null,
+												),
+											)
+										}
+									>
+										<option value="">New preset</option>
+										{presets.map((preset) => (
+											<option key={preset.id} value={preset.id}>
+												{preset.name}
+											</option>
+										))}
+									</select>
+								</label>
+								<label className="control-field">
+									<span>Name</span>
+									<input
+										value={draft.name}
+										onChange={(event) =>
+											setDraft((currentDraft) => ({
+												...currentDraft,
+												name: event.target.value,
+											}))
+										}
+										placeholder="Read-only"
+									/>
+								</label>
+							</div>
+							<div className="permission-editor-grid">
+								{PERMISSION_SECTION_ORDER.map((section) => (
+									<section key={section} className="permission-section">
+										<h4 className="permission-section-title">
+											{PERMISSION_SECTION_LABELS[section]}
+										</h4>
+										<div className="permission-chip-list permission-chip-list--editor">
+											{getSectionDefinitions(section).map((definition) => {
+												const enabled = draft.permissions.has(definition.value);
+												return (
+													<button
+														key={definition.value}
+														type="button"
+														className={`permission-chip permission-chip-button permission-chip--editor ${
+															enabled
+																? "permission-chip--active"
+																: "permission-chip--inactive"
+														}`}
+														aria-pressed={enabled}
+														onClick={() =>
+															toggleDraftPermission(definition.value)
+														}
+													>
+														{definition.label}
+													</button>
+												);
+											})}
+										</div>
+									</section>
+								))}
+							</div>
+							<div className="form-actions">
+								<button
+									type="button"
+									onClick={savePreset}
+									disabled={!draft.name.trim() || draft.permissions.size === 0}
+								>
+									{draft.id ? "Update preset" : "Save preset"}
+								</button>
+								{draft.id ? (
+									<button
+										type="button"
+										className="danger"
+										onClick={() => void deletePreset()}
+									>
+										Delete preset
+									</button>
+								) : null}
+							</div>
+						</>
+					) : null}
+				</div>
+			) : null}
+
+			{targets.length > PERMISSION_PRESET_COLLECTION_LIMIT ? (
+				<div className="stack">
+					<span className="field-note field-note--warning">
+						Collections {firstTargetIndex + 1}–{nextTargetIndex} of{" "}
+						{targets.length} are checked in this batch. Apply it, then continue
+						with the next batch.
+					</span>
+					{nextTargetIndex < targets.length ? (
+						<div className="form-actions">
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => {
+									setBatchStart(nextTargetIndex);
+									setResults([]);
+									setProgress({ completed: 0, total: 0 });
+								}}
+								disabled={
+									applyMutation.isPending ||
+									isLoadingPermissions ||
+									(changes.length > 0 && results.length === 0)
+								}
+							>
+								Continue with collections {nextTargetIndex + 1}–
+								{Math.min(
+									nextTargetIndex + PERMISSION_PRESET_COLLECTION_LIMIT,
+									targets.length,
+								)}
+							</button>
+						</div>
+					) : null}
+				</div>
+			) : null}
+			{includeDescendants && collectionsQuery.isLoading ? (
+				<span className="field-note">Loading descendant collections...</span>
+			) : null}
+			{permissionsError ? (
+				<div className="error-banner">
+					Failed to load current permissions.{" "}
+					{permissionsError instanceof Error
+						? permissionsError.message
+						: "Unknown error"}
+				</div>
+			) : null}
+
+			{!selectedPreset || selectedGroupId === null ? (
+				<p className="muted">
+					Select a preset and a group to preview changes on {targets.length}{" "}
+					collection{targets.length === 1 ? "" : "s"}.
+				</p>
+			) : isLoadingPermissions ? (
+				<p className="muted">Loading current permissions...</p>
+			) : (
+				<>
+					<p className="muted">
+						{changes.length} of {checkedTargets.length} collection
+						{checkedTargets.length === 1 ? "" : "s"} will change
+						{unchangedCount ? `; ${unchangedCount} already match` : ""}.
+					</p>
+					{changes.length > 0 ? (
+						<div className="table-wrap">
+							<table>
+								<thead>
+									<tr>
+										<th>Collection</th>
+										<th>Granted</th>
+										<th>Revoked</th>
+										<th>Result</th>
+									</tr>
+								</thead>
+								<tbody>
+									{changes.map((change) => (
+										<tr key={change.collectionId}>
+											<td>
+												<Link href={`/collections/${change.collectionId}`}>
+													{collectionNames.get(change.collectionId) ??
+														`Collection #${change.collectionId}`}
+												</Link>
+											</td>
+											<td>{formatPermissionLabels(change.added) || "-"}</td>
+											<td>{formatPermissionLabels(change.removed) || "-"}</td>
+											<td>
+												{failedResults.has(change.collectionId) ? (
+													<span className="field-note field-note--warning">
+														{failedResults.get(change.collectionId)}
+													</span>
+												) : (
+													summarizePermissions(new Set(change.after))
+												)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					) : null}
+				</>
+			)}
+
+			{progress.total > 0 ? (
+				<div className="stack">
+					<div
+						className="export-progress"
+						role="progressbar"
+						aria-label="Preset apply progress"
+						aria-valuemin={0}
+						aria-valuemax={progress.total}
+						aria-valuenow={progress.completed}
+					>
+						<span
+							style={{
+								width: `${(progress.completed / progress.total) * 100}%`,
+							}}
+						/>
+					</div>
+					<span className="muted" aria-live="polite">
+						{applyMutation.isPending
+							? `Applying ${progress.completed} of ${progress.total}...`
+							: `${applySummary.applied} applied, ${applySummary.failed} failed.`}
+					</span>
+				</div>
+			) : null}
+
+			<div className="form-actions">
+				<button
+					type="submit"
+					disabled={applyMutation.isPending || changes.length === 0}
+				>
+					{applyMutation.isPending
+						? "Applying..."
+						: `Apply to ${changes.length} collection${
+								changes.length === 1 ? "" : "s"
+							}`}
+				</button>
+				{applySummary.failed && !applyMutation.isPending ? (
+					<button
+						type="button"
+						className="ghost"
+						onClick={() =>
+							startApply(
+								changes.filter((change) =>
+									failedResults.has(change.collectionId),
+								),
+							)
+						}
+					>
+						Retry failed ({applySummary.failed})
+					</button>
+				) : null}
+			</div>
+		</form>
+	);
+}
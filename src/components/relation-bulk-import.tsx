@@ -0,0 +1,511 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { type FormEvent, useMemo, useRef, useState } from "react";
+
+import { TableExportMenu } from "@/components/table-export-menu";
+import type { HubuumObject } from "@/lib/api/generated/models";
+import {
+	createObjectRelation,
+	fetchObjectRelationExists,
+} from "@/lib/api/object-relation-imports";
+import { fetchObjectByNames } from "@/lib/api/objects";
+import {
+	collectRelationImportObjectNames,
+	formatRelationImportRows,
+	parseRelationImportText,
+	RELATION_IMPORT_COLUMNS,
+	type RelationImportEntry,
+	type RelationImportRow,
+	relationImportObjectKey,
+	summarizeRelationImportEntries,
+} from "@/lib/relation-bulk-import";
+import {
+	isSpreadsheetFile,
+	readSpreadsheetRows,
+} from "@/lib/spreadsheet-import";
+import type { TableExportView } from "@/lib/table-export";
+
+type RelationBulkImportProps = {
+	onCreated: (count: number) => Promise<void> | void;
+};
+
+type ResolvedObjects = Map<string, HubuumObject>;
+
+const STATUS_LABELS: Record<RelationImportEntry["status"], string> = {
+	unresolved: "Unresolved",
+	existing: "Already exists",
+	pending: "Will be created",
+	created: "Created",
+	failed: "Failed",
+};
+
+function resolveRowObjects(row: RelationImportRow, objects: ResolvedObjects) {
+	return {
+		from: objects.get(relationImportObjectKey(row.fromClass, row.fromObject)),
+		to: objects.get(relationImportObjectKey(row.toClass, row.toObject)),
+	};
+}
+
+export function RelationBulkImport({ onCreated }: RelationBulkImportProps) {
+	const fileInputRef = useRef<HTMLInputElement | null>(null);
+	const [text, setText] = useState("");
+	const [fileName, setFileName] = useState("");
+	const [fileError, setFileError] = useState<string | null>(null);
+	const [entries, setEntries] = useState<RelationImportEntry[]>([]);
+	const [resolvedObjects, setResolvedObjects] = useState<ResolvedObjects>(
+		() => new Map(),
+	);
+	const [progress, setProgress] = useState({
+		label: "",
+		completed: 0,
+		total: 0,
+	});
+
+	const parsed = useMemo(() => parseRelationImportText(text), [text]);
+	const summary = summarizeRelationImportEntries(entries);
+	const reportView = useMemo<TableExportView<RelationImportEntry>>(
+		() => ({
+			id: "relation-bulk-import-report",
+			fileName: "relation-import-report",
+			sheetName: "Relations",
+			columns: [
+				{ key: "line", label: "Line", getValue: (entry) => entry.row.line },
+				{
+					key: "from_class",
+					label: "From class",
+					getValue: (entry) => entry.row.fromClass,
+				},
+				{
+					key: "from_object",
+					label: "From object",
+					getValue: (entry) => entry.row.fromObject,
+				},
+				{
+					key: "to_class",
+					label: "To class",
+					getValue: (entry) => entry.row.toClass,
+				},
+				{
+					key: "to_object",
+					label: "To object",
+					getValue: (entry) => entry.row.toObject,
+				},
+				{
+					key: "status",
+					label: "Status",
+					getValue: (entry) => STATUS_LABELS[entry.status],
+				},
+				{
+					key: "message",
+					label: "Message",
+					getValue: (entry) => entry.message ?? "",
+				},
+			],
+			rows: entries,
+		}),
+		[entries],
+	);
+
+	function updateEntry(line: number, next: Partial<RelationImportEntry>) {
+		setEntries((current) =>
+			current.map((entry) =>
+				entry.row.line === line ? { ...entry, ...next } : entry,
+			),
+		);
+	}
+
+	const resolveMutation = useMutation({
+		mutationFn: async (rows: RelationImportRow[]) => {
+			const names = collectRelationImportObjectNames(rows);
+			const objects: ResolvedObjects = new Map();
+			const lookupErrors = new Map<string, string>();
+			setProgress({
+				label: "Resolving objects",
+				completed: 0,
+				total: names.length,
+			});
+			for (const name of names) {
+				const key = relationImportObjectKey(name.className, name.objectName);
+				try {
+					const object = await fetchObjectByNames(
+						name.className,
+						name.objectName,
+					);
+					if (object) {
+						objects.set(key, object);
+					}
+				} catch (error) {
+					lookupErrors.set(
+						key,
+						error instanceof Error ? error.message : "Lookup failed.",
+					);
+				}
+				setProgress((current) => ({
+					...current,
+					completed: current.completed + 1,
+				}));
+			}
+
+			const resolvable = rows.filter((row) => {
+				const { from, to } = resolveRowObjects(row, objects);
+				return from && to;
+			});
+			setProgress({
+				label: "Checking existing relations",
+				completed: 0,
+				total: resolvable.length,
+			});
+			const nextEntries: RelationImportEntry[] = [];
+			for (const row of rows) {
+				const { from, to } = resolveRowObjects(row, objects);
+				if (!from || !to) {
+					const missing = [
+						[row.fromClass, row.fromObject],
+						[row.toClass, row.toObject],
+					]
+						.filter(
+							([className, objectName]) =>
+								!objects.has(relationImportObjectKey(className, objectName)),
+						)
+						.map(
+							([className, objectName]) =>
+								lookupErrors.get(
+									relationImportObjectKey(className, objectName),
+								) ?? `${className} / ${objectName} not found.`,
+						);
+					nextEntries.push({
+						row,
+						status: "unresolved",
+						message: [...new Set(missing)].join(" "),
+					});
+					continue;
+				}
+
+				if (from.id === to.id) {
+					nextEntries.push({
+						row,
+						status: "failed",
+						message: "An object cannot relate to itself.",
+					});
+				} else {
+					try {
+						const exists = await fetchObjectRelationExists(from, to);
+						nextEntries.push({
+							row,
+							status: exists ? "existing" : "pending",
+							message: null,
+						});
+					} catch (error) {
+						nextEntries.push({
+							row,
+							status: "failed",
+							message:
+								error instanceof Error
+									? error.message
+									: "Failed to check existing relation.",
+						});
+					}
+				}
+				setProgress((current) => ({
+					...current,
+					completed: current.completed + 1,
+				}));
+			}
+
+			return { objects, entries: nextEntries };
+		},
+		onSuccess: (result) => {
+			setResolvedObjects(result.objects);
+			setEntries(result.entries);
+		},
+	});
+
+	const createMutation = useMutation({
+		mutationFn: async (rows: RelationImportEntry[]) => {
+			let created = 0;
+			setProgress({
+				label: "Creating relations",
+				completed: 0,
+				total: rows.length,
+			});
+			for (const entry of rows) {
+				const { from, to } = resolveRowObjects(entry.row, resolvedObjects);
+				try {
+					if (!from || !to) {
+						throw new Error("Objects are no longer resolved.");
+					}
+					await createObjectRelation(from, to);
+					created += 1;
+					updateEntry(entry.row.line, { status: "created", message: null });
+				} catch (error) {
+					updateEntry(entry.row.line, {
+						status: "failed",
+						message:
+							error instanceof Error
+								? error.message
+								: "Failed to create object relation.",
+					});
+				}
+				setProgress((current) => ({
+					...current,
+					completed: current.completed + 1,
+				}));
+			}
+			return created;
+		},
+		onSettled: async (created) => {
+			if (created) {
+				await onCreated(created);
+			}
+		},
+	});
+
+	const isBusy = resolveMutation.isPending || createMutation.isPending;
+
+	function resetPreview() {
+		setEntries([]);
+		setResolvedObjects(new Map());
+		setProgress({ label: "", completed: 0, total: 0 });
+		resolveMutation.reset();
+		createMutation.reset();
+	}
+
+	async function onFileChange(event: FormEvent<HTMLInputElement>) {
+		const file = event.currentTarget.files?.[0];
+		event.currentTarget.value = "";
+		if (!file) {
+			return;
+		}
+
+		try {
+			const nextText = isSpreadsheetFile(file)
+				? formatRelationImportRows(await readSpreadsheetRows(file))
+				: await file.text();
+			setText(nextText);
+			setFileName(file.name);
+			setFileError(null);
+			resetPreview();
+		} catch (error) {
+			setFileError(
+				error instanceof Error ? error.message : "Failed to read file.",
+			);
+		}
+	}
+
+	function onSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		if (parsed.rows.length === 0) {
+			return;
+		}
+		resetPreview();
+		resolveMutation.mutate(parsed.rows);
+	}
+
+	function startCreate(status: "pending" | "failed") {
+		const rows = entries.filter((entry) => {
+			const { from, to } = resolveRowObjects(entry.row, resolvedObjects);
+			return entry.status === status && from && to && from.id !== to.id;
+		});
+		if (rows.length > 0) {
+			createMutation.mutate(rows);
+		}
+	}
+
+	return (
+		<form className="stack relation-bulk-import" onSubmit={onSubmit}>
+			<p className="muted">
+				One relation per row as {RELATION_IMPORT_COLUMNS.join(", ")}, using
+				class and object names. Comma, semicolon and tab separated rows are
+				accepted, with an optional header row.
+			</p>
+			<label className="control-field">
+				<span>Relations</span>
+				<textarea
+					rows={8}
+					value={text}
+					onChange={(event) => {
+						setText(event.target.value);
+						setFileName("");
+						resetPreview();
+					}}
+					placeholder={"Hosts,web-01,Rooms,B-204\nHosts,db-01,Rooms,B-204"}
+					disabled={isBusy}
+					spellCheck={false}
+				/>
+			</label>
+			<div className="file-picker">
+				<input
+					ref={fileInputRef}
+					className="json-editor-file"
+					type="file"
+					accept=".csv,.tsv,.txt,.xlsx,.xls,.ods,text/csv,text/plain"
+					onChange={onFileChange}
+				/>
+				<button
+					type="button"
+					className="ghost"
+					onClick={() => fileInputRef.current?.click()}
+					disabled={isBusy}
+				>
+					Upload CSV or XLSX
+				</button>
+				<span className="muted file-picker-status" aria-live="polite">
+					{fileName || "No file selected."}
+				</span>
+			</div>
+			{fileError ? <div className="error-banner">{fileError}</div> : null}
+
+			{parsed.errors.length > 0 ? (
+				<details className="class-schema-impact-failures" open>
+					<summary>
+						{parsed.errors.length} row{parsed.errors.length === 1 ? "" : "s"}{" "}
+						skipped
+					</summary>
+					<ul>
+						{parsed.errors.map((error) => (
+							<li key={error.line}>
+								Line {error.line}: {error.message}
+							</li>
+						))}
+					</ul>
+				</details>
+			) : null}
+
+			{progress.total > 0 && (isBusy || entries.length > 0) ? (
+				<div className="stack">
+					<div
+						className="export-progress"
+						role="progressbar"
+						aria-label={progress.label}
+						aria-valuemin={0}
+						aria-valuemax={progress.total}
+						aria-valuenow={progress.completed}
+					>
+						<span
+							style={{
+								width: `${(progress.completed / progress.total) * 100}%`,
+							}}
+						/>
+					</div>
+					<span className="muted" aria-live="polite">
+						{isBusy
+							? `${progress.label}: ${progress.completed} of ${progress.total}...`
+							: `${progress.label}: ${progress.completed} of ${progress.total} done.`}
+					</span>
+				</div>
+			) : null}
+			{resolveMutation.isError ? (
+				<div className="error-banner">
+					{resolveMutation.error instanceof Error
+						? resolveMutation.error.message
+						: "Failed to resolve relations."}
+				</div>
+			) : null}
+
+			{entries.length > 0 ? (
+				<>
+					<div className="summary-grid">
+						<div className="summary-pill">
+							<span className="muted">Will be created</span>
+							<strong>{summary.pending}</strong>
+						</div>
+						<div className="summary-pill">
+							<span className="muted">Already exist</span>
+							<strong>{summary.existing}</strong>
+						</div>
+						<div className="summary-pill">
+							<span className="muted">Unresolved</span>
+							<strong>{summary.unresolved}</strong>
+						</div>
+						<div className="summary-pill">
+							<span className="muted">Created</span>
+							<strong>{summary.created}</strong>
+						</div>
+						<div className="summary-pill">
+							<span className="muted">Failed</span>
+							<strong>{summary.failed}</strong>
+						</div>
+					</div>
+					<div className="action-row">
+						<TableExportMenu view={reportView} disabled={isBusy} compact />
+					</div>
+					<div className="object-table-scroll">
+						<table className="class-schema-impact-table relation-bulk-import-table">
+							<thead>
+								<tr>
+									<th>Line</th>
+									<th>From</th>
+									<th>To</th>
+									<th>Status</th>
+								</tr>
+							</thead>
+							<tbody>
+								{entries.map((entry) => (
+									<tr
+										key={entry.row.line}
+										className={`relation-bulk-import-row relation-bulk-import-row--${entry.status}`}
+									>
+										<td>{entry.row.line}</td>
+										<td>
+											{entry.row.fromObject}{" "}
+											<span className="muted">{entry.row.fromClass}</span>
+										</td>
+										<td>
+											{entry.row.toObject}{" "}
+											<span className="muted">{entry.row.toClass}</span>
+										</td>
+										<td>
+											<strong>{STATUS_LABELS[entry.status]}</strong>
+											{entry.message ? (
+												<span className="muted"> {entry.message}</span>
+											) : null}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</>
+			) : null}
+
+			<div className="form-actions">
+				<button
+					type="submit"
+					className={entries.length > 0 ? "ghost" : undefined}
+					disabled={isBusy || parsed.rows.length === 0}
+				>
+					{resolveMutation.isPending
+						? "Resolving..."
+						: entries.length > 0
+							? "Resolve again"
+							: `Resolve ${parsed.rows.length} row${
+									parsed.rows.length === 1 ? "" : "s"
+								}`}
+				</button>
+				{entries.length > 0 ? (
+					<button
+						type="button"
+						onClick={() => startCreate("pending")}
+						disabled={isBusy || summary.pending === 0}
+					>
+						{createMutation.isPending
+							? "Creating..."
+							: `Create ${summary.pending} relation${
+									summary.pending === 1 ? "" : "s"
+								}`}
+					</button>
+				) : null}
+				{summary.failed && !isBusy ? (
+					<button
+						type="button"
+						className="ghost"
+						onClick={() => startCreate("failed")}
+					>
+						Retry failed ({summary.failed})
+					</button>
+				) : null}
+			</div>
+		</form>
+	);
+}
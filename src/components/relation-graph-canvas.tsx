@@ -0,0 +1,531 @@
+"use client";
+
+import {
+	type KeyboardEvent as ReactKeyboardEvent,
+	type PointerEvent as ReactPointerEvent,
+	useCallback,
+	useEffect,
+	useId,
+	useRef,
+	useState,
+} from "react";
+import {
+	DEFAULT_RELATION_GRAPH_VIEWPORT,
+	fitRelationGraphViewport,
+	type RelationGraphBounds,
+	type RelationGraphPoint,
+	type RelationGraphViewport,
+	zoomRelationGraphViewport,
+} from "@/lib/relation-graph";
+
+export type RelationGraphCanvasNode = {
+	id: number;
+	label: string;
+	detail: string;
+	color: string;
+	position: RelationGraphPoint;
+	isRoot?: boolean;
+	isMuted?: boolean;
+};
+
+export type RelationGraphCanvasEdge = {
+	id: number;
+	fromId: number;
+	toId: number;
+	color: string;
+	label: string;
+};
+
+type RelationGraphCanvasProps = {
+	ariaLabel: string;
+	nodes: RelationGraphCanvasNode[];
+	edges: RelationGraphCanvasEdge[];
+	bounds: RelationGraphBounds;
+	fitKey: string;
+	selectedNodeId?: number | null;
+	selectedEdgeId?: number | null;
+	onNodeActivate?: (nodeId: number) => void;
+	onNodeOpen?: (nodeId: number) => void;
+	onEdgeActivate?: (edgeId: number) => void;
+	onConnect?: (fromNodeId: number, toNodeId: number) => void;
+	nodeShape?: "circle" | "box";
+};
+
+const NODE_RADIUS = 18;
+const ROOT_NODE_RADIUS = 24;
+const BOX_WIDTH = 168;
+const BOX_HEIGHT = 46;
+const LABEL_LIMIT = 26;
+const CONNECT_DRAG_THRESHOLD = 4;
+const PAN_STEP = 60;
+const ZOOM_STEP = 1.2;
+
+function truncateLabel(value: string): string {
+	return value.length > LABEL_LIMIT
+		? `${value.slice(0, LABEL_LIMIT - 1)}…`
+		: value;
+}
+
+function shortenEdge(
+	from: RelationGraphPoint,
+	to: RelationGraphPoint,
+	inset: number,
+): { from: RelationGraphPoint; to: RelationGraphPoint } {
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	const length = Math.hypot(dx, dy);
+	if (length <= inset * 2) {
+		return { from, to };
+	}
+	const ratio = inset / length;
+	return {
+		from: { x: from.x + dx * ratio, y: from.y + dy * ratio },
+		to: { x: to.x - dx * ratio, y: to.y - dy * ratio },
+	};
+}
+
+function clipEdgeToBoxes(
+	from: RelationGraphPoint,
+	to: RelationGraphPoint,
+): { from: RelationGraphPoint; to: RelationGraphPoint } {
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	const halfWidth = BOX_WIDTH / 2 + 4;
+	const halfHeight = BOX_HEIGHT / 2 + 4;
+	const ratio = Math.min(
+		dx === 0 ? Number.POSITIVE_INFINITY : halfWidth / Math.abs(dx),
+		dy === 0 ? Number.POSITIVE_INFINITY : halfHeight / Math.abs(dy),
+	);
+	if (!Number.isFinite(ratio) || ratio >= 0.5) {
+		return { from, to };
+	}
+	return {
+		from: { x: from.x + dx * ratio, y: from.y + dy * ratio },
+		to: { x: to.x - dx * ratio, y: to.y - dy * ratio },
+	};
+}
+
+function findNodeIdAtPoint(clientX: number, clientY: number): number | null {
+	const element = document.elementFromPoint(clientX, clientY);
+	const nodeElement = element?.closest("[data-graph-node-id]");
+	const nodeId = Number(nodeElement?.getAttribute("data-graph-node-id"));
+	return Number.isInteger(nodeId) ? nodeId : null;
+}
+
+export function RelationGraphCanvas({
+	ariaLabel,
+	nodes,
+	edges,
+	bounds,
+	fitKey,
+	selectedNodeId = null,
+	selectedEdgeId = null,
+	onNodeActivate,
+	onNodeOpen,
+	onEdgeActivate,
+	onConnect,
+	nodeShape = "circle",
+}: RelationGraphCanvasProps) {
+	const markerPrefix = useId().replace(/:/g, "");
+	const svgRef = useRef<SVGSVGElement | null>(null);
+	const panRef = useRef<{
+		pointerId: number;
+		origin: RelationGraphPoint;
+		viewport: RelationGraphViewport;
+	} | null>(null);
+	const connectRef = useRef<{
+		pointerId: number;
+		fromId: number;
+		origin: RelationGraphPoint;
+		moved: boolean;
+	} | null>(null);
+	const suppressClickRef = useRef(false);
+	const [viewport, setViewport] = useState<RelationGraphViewport>(
+		DEFAULT_RELATION_GRAPH_VIEWPORT,
+	);
+	const [connectDraft, setConnectDraft] = useState<{
+		fromId: number;
+		point: RelationGraphPoint;
+	} | null>(null);
+
+	const fitToView = useCallback(() => {
+		const rect = svgRef.current?.getBoundingClientRect();
+		if (!rect || rect.width === 0 || rect.height === 0) {
+			return;
+		}
+		setViewport(
+			fitRelationGraphViewport(bounds, {
+				width: rect.width,
+				height: rect.height,
+			}),
+		);
+	}, [bounds]);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: refit only when the caller changes the graph identity, not on every expansion
+	useEffect(() => {
+		fitToView();
+	}, [fitKey]);
+
+	useEffect(() => {
+		const svg = svgRef.current;
+		if (!svg) {
+			return;
+		}
+
+		function handleWheel(event: WheelEvent) {
+			if (!event.ctrlKey && !event.metaKey) {
+				return;
+			}
+			event.preventDefault();
+			const rect = svg?.getBoundingClientRect();
+			const anchor = rect
+				? { x: event.clientX - rect.left, y: event.clientY - rect.top }
+				: undefined;
+			setViewport((current) =>
+				zoomRelationGraphViewport(
+					current,
+					event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+					anchor,
+				),
+			);
+		}
+
+		svg.addEventListener("wheel", handleWheel, { passive: false });
+		return () => svg.removeEventListener("wheel", handleWheel);
+	}, []);
+
+	function zoomFromCenter(factor: number) {
+		const rect = svgRef.current?.getBoundingClientRect();
+		setViewport((current) =>
+			zoomRelationGraphViewport(
+				current,
+				factor,
+				rect ? { x: rect.width / 2, y: rect.height / 2 } : undefined,
+			),
+		);
+	}
+
+	function onPointerDown(event: ReactPointerEvent<SVGSVGElement>) {
+		if (event.button !== 0) {
+			return;
+		}
+		event.currentTarget.setPointerCapture(event.pointerId);
+		panRef.current = {
+			pointerId: event.pointerId,
+			origin: { x: event.clientX, y: event.clientY },
+			viewport,
+		};
+	}
+
+	function onPointerMove(event: ReactPointerEvent<SVGSVGElement>) {
+		const pan = panRef.current;
+		if (!pan || pan.pointerId !== event.pointerId) {
+			return;
+		}
+		setViewport({
+			...pan.viewport,
+			x: pan.viewport.x + event.clientX - pan.origin.x,
+			y: pan.viewport.y + event.clientY - pan.origin.y,
+		});
+	}
+
+	function onPointerUp(event: ReactPointerEvent<SVGSVGElement>) {
+		if (panRef.current?.pointerId === event.pointerId) {
+			panRef.current = null;
+		}
+	}
+
+	function onCanvasKeyDown(event: ReactKeyboardEvent<SVGSVGElement>) {
+		if (event.target !== event.currentTarget) {
+			return;
+		}
+		const pan: Record<string, RelationGraphPoint> = {
+			ArrowLeft: { x: PAN_STEP, y: 0 },
+			ArrowRight: { x: -PAN_STEP, y: 0 },
+			ArrowUp: { x: 0, y: PAN_STEP },
+			ArrowDown: { x: 0, y: -PAN_STEP },
+		};
+		if (pan[event.key]) {
+			event.preventDefault();
+			const delta = pan[event.key];
+			setViewport((current) => ({
+				...current,
+				x: current.x + delta.x,
+				y: current.y + delta.y,
+			}));
+		} else if (event.key === "+" || event.key === "=") {
+			event.preventDefault();
+			zoomFromCenter(ZOOM_STEP);
+		} else if (event.key === "-") {
+			event.preventDefault();
+			zoomFromCenter(1 / ZOOM_STEP);
+		} else if (event.key === "0") {
+			event.preventDefault();
+			fitToView();
+		}
+	}
+
+	function toGraphPoint(clientX: number, clientY: number): RelationGraphPoint {
+		const rect = svgRef.current?.getBoundingClientRect();
+		return {
+			x: (clientX - (rect?.left ?? 0) - viewport.x) / viewport.scale,
+			y: (clientY - (rect?.top ?? 0) - viewport.y) / viewport.scale,
+		};
+	}
+
+	function onNodePointerDown(
+		event: ReactPointerEvent<SVGGElement>,
+		nodeId: number,
+	) {
+		event.stopPropagation();
+		if (!onConnect || event.button !== 0) {
+			return;
+		}
+		event.currentTarget.setPointerCapture(event.pointerId);
+		connectRef.current = {
+			pointerId: event.pointerId,
+			fromId: nodeId,
+			origin: { x: event.clientX, y: event.clientY },
+			moved: false,
+		};
+	}
+
+	function onNodePointerMove(event: ReactPointerEvent<SVGGElement>) {
+		const connect = connectRef.current;
+		if (!connect || connect.pointerId !== event.pointerId) {
+			return;
+		}
+		if (
+			!connect.moved &&
+			Math.hypot(
+				event.clientX - connect.origin.x,
+				event.clientY - connect.origin.y,
+			) < CONNECT_DRAG_THRESHOLD
+		) {
+			return;
+		}
+		connect.moved = true;
+		setConnectDraft({
+			fromId: connect.fromId,
+			point: toGraphPoint(event.clientX, event.clientY),
+		});
+	}
+
+	function onNodePointerUp(event: ReactPointerEvent<SVGGElement>) {
+		const connect = connectRef.current;
+		if (!connect || connect.pointerId !== event.pointerId) {
+			return;
+		}
+		connectRef.current = null;
+		setConnectDraft(null);
+		if (!connect.moved) {
+			return;
+		}
+		suppressClickRef.current = true;
+		const targetId = findNodeIdAtPoint(event.clientX, event.clientY);
+		if (targetId !== null && targetId !== connect.fromId) {
+			onConnect?.(connect.fromId, targetId);
+		}
+	}
+
+	function onNodeKeyDown(
+		event: ReactKeyboardEvent<SVGGElement>,
+		nodeId: number,
+	) {
+		if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+			event.preventDefault();
+			onNodeOpen?.(nodeId);
+		} else if (event.key === "Enter" || event.key === " ") {
+			event.preventDefault();
+			onNodeActivate?.(nodeId);
+		}
+	}
+
+	const positionById = new Map(nodes.map((node) => [node.id, node.position]));
+	const connectOrigin = connectDraft
+		? positionById.get(connectDraft.fromId)
+		: undefined;
+	const edgeColors = [...new Set(edges.map((edge) => edge.color))];
+
+	return (
+		<div className="relation-graph">
+			<div className="relation-graph-controls">
+				<button
+					type="button"
+					className="ghost"
+					onClick={() => zoomFromCenter(ZOOM_STEP)}
+					aria-label="Zoom in"
+				>
+					+
+				</button>
+				<button
+					type="button"
+					className="ghost"
+					onClick={() => zoomFromCenter(1 / ZOOM_STEP)}
+					aria-label="Zoom out"
+				>
+					−
+				</button>
+				<button type="button" className="ghost" onClick={fitToView}>
+					Fit
+				</button>
+			</div>
+			<svg
+				ref={svgRef}
+				className="relation-graph-canvas"
+				role="application"
+				aria-label={`${ariaLabel}. Use arrow keys to pan, plus and minus to zoom, and 0 to fit.`}
+				// biome-ignore lint/a11y/noNoninteractiveTabindex: the canvas is keyboard pannable and zoomable
+				tabIndex={0}
+				onPointerDown={onPointerDown}
+				onPointerMove={onPointerMove}
+				onPointerUp={onPointerUp}
+				onPointerCancel={onPointerUp}
+				onKeyDown={onCanvasKeyDown}
+			>
+				<defs>
+					{edgeColors.map((color, index) => (
+						<marker
+							key={color}
+							id={`${markerPrefix}-arrow-${index}`}
+							viewBox="0 0 10 10"
+							refX="9"
+							refY="5"
+							markerWidth="7"
+							markerHeight="7"
+							orient="auto-start-reverse"
+						>
+							<path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+						</marker>
+					))}
+				</defs>
+				<g
+					transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}
+				>
+					{edges.map((edge) => {
+						const fromPosition = positionById.get(edge.fromId);
+						const toPosition = positionById.get(edge.toId);
+						if (!fromPosition || !toPosition) {
+							return null;
+						}
+						const line =
+							nodeShape === "box"
+								? clipEdgeToBoxes(fromPosition, toPosition)
+								: shortenEdge(fromPosition, toPosition, NODE_RADIUS + 4);
+						const isSelected = edge.id === selectedEdgeId;
+						return (
+							// biome-ignore lint/a11y/noStaticElementInteractions: edges mirror the keyboard-accessible relation tables
+							<g
+								key={edge.id}
+								className={`relation-graph-edge${isSelected ? " is-selected" : ""}${onEdgeActivate ? " is-interactive" : ""}`}
+								onPointerDown={(event) => event.stopPropagation()}
+								onClick={() => onEdgeActivate?.(edge.id)}
+							>
+								<title>{edge.label}</title>
+								<line
+									className="relation-graph-edge-hit"
+									x1={line.from.x}
+									y1={line.from.y}
+									x2={line.to.x}
+									y2={line.to.y}
+								/>
+								<line
+									className="relation-graph-edge-line"
+									x1={line.from.x}
+									y1={line.from.y}
+									x2={line.to.x}
+									y2={line.to.y}
+									stroke={edge.color}
+									markerEnd={`url(#${markerPrefix}-arrow-${edgeColors.indexOf(edge.color)})`}
+								/>
+							</g>
+						);
+					})}
+					{connectDraft && connectOrigin ? (
+						<line
+							className="relation-graph-connect-draft"
+							x1={connectOrigin.x}
+							y1={connectOrigin.y}
+							x2={connectDraft.point.x}
+							y2={connectDraft.point.y}
+						/>
+					) : null}
+					{nodes.map((node) => {
+						const radius = node.isRoot ? ROOT_NODE_RADIUS : NODE_RADIUS;
+						const isSelected = node.id === selectedNodeId;
+						return (
+							// biome-ignore lint/a11y/useSemanticElements: SVG nodes cannot be native buttons
+							<g
+								key={node.id}
+								className={`relation-graph-node relation-graph-node--${nodeShape}${isSelected ? " is-selected" : ""}${node.isRoot ? " is-root" : ""}${node.isMuted ? " is-muted" : ""}`}
+								transform={`translate(${node.position.x} ${node.position.y})`}
+								role="button"
+								tabIndex={0}
+								aria-label={`${node.label}, ${node.detail}`}
+								aria-pressed={isSelected}
+								data-graph-node-id={node.id}
+								onPointerDown={(event) => onNodePointerDown(event, node.id)}
+								onPointerMove={onNodePointerMove}
+								onPointerUp={onNodePointerUp}
+								onPointerCancel={onNodePointerUp}
+								onClick={(event) => {
+									if (suppressClickRef.current) {
+										suppressClickRef.current = false;
+										return;
+									}
+									if (event.metaKey || event.ctrlKey) {
+										onNodeOpen?.(node.id);
+										return;
+									}
+									onNodeActivate?.(node.id);
+								}}
+								onDoubleClick={() => onNodeOpen?.(node.id)}
+								onKeyDown={(event) => onNodeKeyDown(event, node.id)}
+							>
+								<title>{`${node.label} · ${node.detail}`}</title>
+								{nodeShape === "box" ? (
+									<>
+										<rect
+											x={-BOX_WIDTH / 2}
+											y={-BOX_HEIGHT / 2}
+											width={BOX_WIDTH}
+											height={BOX_HEIGHT}
+											rx={9}
+											stroke={node.color}
+										/>
+										<rect
+											className="relation-graph-node-band"
+											x={-BOX_WIDTH / 2}
+											y={-BOX_HEIGHT / 2}
+											width={6}
+											height={BOX_HEIGHT}
+											rx={3}
+											fill={node.color}
+										/>
+										<text y={-3} textAnchor="middle">
+											{truncateLabel(node.label)}
+										</text>
+										<text
+											className="relation-graph-node-detail"
+											y={13}
+											textAnchor="middle"
+										>
+											{truncateLabel(node.detail)}
+										</text>
+									</>
+								) : (
+									<>
+										<circle r={radius} fill={node.color} />
+										<text y={radius + 15} textAnchor="middle">
+											{truncateLabel(node.label)}
+										</text>
+									</>
+								)}
+							</g>
+						);
+					})}
+				</g>
+			</svg>
+		</div>
+	);
+}
@@ -11,7 +11,13 @@ import {
 	useMemo,
 	useState,
 } from "react";
+import { ClassTopologyDiagram } from "@/components/class-topology-diagram";
 import { CreateModal } from "@/components/create-modal";
+import {
+	ObjectRelationPathFinder,
+	type ObjectRelationPathEndpoint,
+} from "@/components/object-relation-path-finder";
+import { RelationBulkImport } from "@/components/relation-bulk-import";
 import { ResourceIndexHeading } from "@/components/resource-index-heading";
 import { TableExportMenu } from "@/components/table-export-menu";
 import { useConfirm } from "@/lib/confirm-context";
@@ -279,8 +285,8 @@ type RelationsExplorerProps = {
 	mode: "classes" | "objects";
 };
 
-type ClassRelationsView = "direct" | "connected";
-type ObjectRelationsView = "direct" | "reachable";
+type ClassRelationsView = "direct" | "connected" | "diagram";
+type ObjectRelationsView = "direct" | "reachable" | "paths";
 
 type ObjectContext = {
 	classId: number;
@@ -308,11 +314,15 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 		useState<ClassRelationsView>(
 			initialClassView === "connected" || initialClassView === "transitive"
 				? "connected"
-				: "direct",
+				: initialClassView === "diagram"
+					? "diagram"
+					: "direct",
 		);
 	const [objectRelationsView, setObjectRelationsView] =
 		useState<ObjectRelationsView>(
-			initialObjectView === "direct" ? "direct" : "reachable",
+			initialObjectView === "direct" || initialObjectView === "paths"
+				? initialObjectView
+				: "reachable",
 		);
 	const [reachabilityDepth, setReachabilityDepth] = useState(() =>
 		normalizeRelatedObjectDepthLimit(searchParams.get("depth")),
@@ -358,11 +368,12 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 	const [selectedObjectRelationIds, setSelectedObjectRelationIds] = useState<
 		number[]
 	>([]);
-	const [_pendingClassRelationDeleteIds, setPendingClassRelationDeleteIds] =
+	const [pendingClassRelationDeleteIds, setPendingClassRelationDeleteIds] =
 		useState<number[]>([]);
 	const [_pendingObjectRelationDeleteIds, setPendingObjectRelationDeleteIds] =
 		useState<number[]>([]);
 	const [isCreateModalOpen, setCreateModalOpen] = useState(false);
+	const [isBulkImportOpen, setBulkImportOpen] = useState(false);
 
 	useResizableTable({
 		tableId: "class-relations-table",
@@ -472,7 +483,10 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 		queryKey: ["class-relations", "all"],
 		queryFn: fetchAllClassRelations,
 		enabled:
-			isClassMode && (classRelationsView === "direct" || isCreateModalOpen),
+			isClassMode &&
+			(classRelationsView === "direct" ||
+				classRelationsView === "diagram" ||
+				isCreateModalOpen),
 	});
 	const classConnectedClassesQuery = useQuery({
 		queryKey: ["class-related-classes", parsedSourceClassId],
@@ -507,6 +521,20 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 	const selectedSourceObject = sourceObjects.find(
 		(item) => item.id === parsedResolvedSourceObjectId,
 	);
+	const pathSource = useMemo<ObjectRelationPathEndpoint | null>(() => {
+		const objectId = parseId(sourceObjectId);
+		if (parsedSourceClassId === null || objectId === null) {
+			return null;
+		}
+
+		return {
+			id: objectId,
+			classId: parsedSourceClassId,
+			name:
+				sourceObjects.find((item) => item.id === objectId)?.name ??
+				`Object #${objectId}`,
+		};
+	}, [parsedSourceClassId, sourceObjectId, sourceObjects]);
 
 	const classRelationTargetOptions = useMemo(
 		() =>
@@ -1003,6 +1031,7 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 				queryClient.invalidateQueries({
 					queryKey: ["class-related-classes", variables.sourceClassId],
 				}),
+				queryClient.invalidateQueries({ queryKey: ["class-related-graph"] }),
 			]);
 			setClassRelationError(null);
 			setClassRelationSuccess("Class relation created.");
@@ -1106,6 +1135,7 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 			await Promise.all([
 				queryClient.invalidateQueries({ queryKey: ["class-relations"] }),
 				queryClient.invalidateQueries({ queryKey: ["class-related-classes"] }),
+				queryClient.invalidateQueries({ queryKey: ["class-related-graph"] }),
 				queryClient.invalidateQueries({ queryKey: ["object-related-objects"] }),
 				queryClient.invalidateQueries({
 					queryKey: ["object-relations-direct"],
@@ -1251,6 +1281,51 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 		});
 	}
 
+	function onCreateDiagramClassRelation(
+		sourceClassId: number,
+		targetClassId: number,
+	) {
+		setClassRelationError(null);
+		setClassRelationSuccess(null);
+
+		if (sourceClassId === targetClassId) {
+			setClassRelationError("From and to classes must be different.");
+			return;
+		}
+
+		const exists = allClassRelations.some(
+			(relation) =>
+				(relation.from_hubuum_class_id === sourceClassId &&
+					relation.to_hubuum_class_id === targetClassId) ||
+				(relation.to_hubuum_class_id === sourceClassId &&
+					relation.from_hubuum_class_id === targetClassId),
+		);
+		if (exists) {
+			setClassRelationError("This class relation already exists.");
+			return;
+		}
+
+		createClassRelationMutation.mutate({ sourceClassId, targetClassId });
+	}
+
+	async function onDeleteDiagramClassRelation(relationId: number) {
+		const relation = allClassRelations.find((item) => item.id === relationId);
+		const confirmed = await confirm({
+			title: relation
+				? `Delete class relation ${renderClassById(relation.from_hubuum_class_id)} → ${renderClassById(relation.to_hubuum_class_id)}?`
+				: `Delete class relation #${relationId}?`,
+			description:
+				"Object relations that depend on this class relation are removed as well.",
+			confirmLabel: "Delete",
+			tone: "danger",
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		deleteClassRelationsMutation.mutate([relationId]);
+	}
+
 	function onCreateObjectRelation(event: FormEvent<HTMLFormElement>) {
 		event.preventDefault();
 		setObjectRelationError(null);
@@ -1564,15 +1639,28 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 
 	function onClassRelationsViewChange(event: ChangeEvent<HTMLSelectElement>) {
 		const nextView =
-			event.target.value === "connected" ? "connected" : "direct";
+			event.target.value === "connected" || event.target.value === "diagram"
+				? event.target.value
+				: "direct";
 		setClassRelationsView(nextView);
 	}
 
 	function onObjectRelationsViewChange(event: ChangeEvent<HTMLSelectElement>) {
-		const nextView = event.target.value === "direct" ? "direct" : "reachable";
+		const nextView =
+			event.target.value === "direct" || event.target.value === "paths"
+				? event.target.value
+				: "reachable";
 		setObjectRelationsView(nextView);
 	}
 
+	function onPathSourceChange(source: ObjectRelationPathEndpoint) {
+		const params = new URLSearchParams(searchParams.toString());
+		params.set("classId", String(source.classId));
+		params.set("objectId", String(source.id));
+		params.set("objectView", "paths");
+		router.push(`${pathname}?${params.toString()}`);
+	}
+
 	function onContextClassChange(event: ChangeEvent<HTMLSelectElement>) {
 		const params = new URLSearchParams(searchParams.toString());
 		const nextClassId = event.target.value;
@@ -1840,11 +1928,15 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 					: parsedSourceClassId
 						? buildResourceSummary({ status: "Loading…" })
 						: buildResourceSummary({ status: "No class selected" })
-				: classConnectedClassesQuery.data
-					? buildResourceSummary({ loaded: connectedClasses.length })
-					: parsedSourceClassId
-						? buildResourceSummary({ status: "Loading…" })
-						: buildResourceSummary({ status: "No class selected" })
+				: classRelationsView === "diagram"
+					? allClassRelationsQuery.data
+						? buildResourceSummary({ loaded: allClassRelations.length })
+						: buildResourceSummary({ status: "Loading…" })
+					: classConnectedClassesQuery.data
+						? buildResourceSummary({ loaded: connectedClasses.length })
+						: parsedSourceClassId
+							? buildResourceSummary({ status: "Loading…" })
+							: buildResourceSummary({ status: "No class selected" })
 			: objectRelationsView === "direct"
 				? objectDirectRelationsQuery.data
 					? buildResourceSummary({
@@ -1854,14 +1946,18 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 					: parsedResolvedSourceObjectId !== null
 						? buildResourceSummary({ status: "Loading…" })
 						: buildResourceSummary({ status: "No object selected" })
-				: relatedObjectsQuery.data
+				: objectRelationsView === "paths"
 					? buildResourceSummary({
-							loaded: relatedObjects.length,
 							details: [`depth ${reachabilityDepth}`],
 						})
-					: parsedResolvedSourceObjectId !== null
-						? buildResourceSummary({ status: "Loading…" })
-						: buildResourceSummary({ status: "No object selected" });
+					: relatedObjectsQuery.data
+						? buildResourceSummary({
+								loaded: relatedObjects.length,
+								details: [`depth ${reachabilityDepth}`],
+							})
+						: parsedResolvedSourceObjectId !== null
+							? buildResourceSummary({ status: "Loading…" })
+							: buildResourceSummary({ status: "No object selected" });
 
 	if (classesQuery.isLoading) {
 		return <div className="card">Loading class options...</div>;
@@ -1891,6 +1987,31 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 						: renderCreateObjectRelationForm()}
 				</div>
 			</CreateModal>
+			<CreateModal
+				open={isBulkImportOpen}
+				title="Bulk create object relations"
+				onClose={() => setBulkImportOpen(false)}
+				panelClassName="relation-bulk-import-panel"
+			>
+				<RelationBulkImport
+					onCreated={async (count) => {
+						await Promise.all([
+							queryClient.invalidateQueries({
+								queryKey: ["object-related-objects"],
+							}),
+							queryClient.invalidateQueries({
+								queryKey: ["object-relations-direct"],
+							}),
+							queryClient.invalidateQueries({
+								queryKey: ["object-related-graph"],
+							}),
+						]);
+						setObjectRelationSuccess(
+							`${count} object relation${count === 1 ? "" : "s"} created.`,
+						);
+					}}
+				/>
+			</CreateModal>
 
 			{isClassMode ? (
 				<div className="card table-wrap resource-index">
@@ -1931,13 +2052,13 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 									disabled={allClassRelationsQuery.isFetching}
 									compact
 								/>
-							) : (
+							) : classRelationsView === "connected" ? (
 								<TableExportMenu
 									view={connectedClassesExportView}
 									disabled={classConnectedClassesQuery.isFetching}
 									compact
 								/>
-							)}
+							) : null}
 							<select
 								aria-label="Class relations view"
 								value={classRelationsView}
@@ -1945,6 +2066,7 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 							>
 								<option value="direct">Direct relations</option>
 								<option value="connected">Connected classes</option>
+								<option value="diagram">Topology diagram</option>
 							</select>
 						</div>
 					</div>
@@ -1995,6 +2117,9 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 						</fieldset>
 					) : null}
 
+					{classRelationsView === "diagram" && classRelationError ? (
+						<div className="error-banner">{classRelationError}</div>
+					) : null}
 					{classRelationSuccess ? (
 						<div className="muted">{classRelationSuccess}</div>
 					) : null}
@@ -2005,7 +2130,19 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 						<div className="muted">{classTableSuccess}</div>
 					) : null}
 
-					{classRelationsView === "direct" ? (
+					{classRelationsView === "diagram" ? (
+						<ClassTopologyDiagram
+							classes={classes}
+							relations={allClassRelations}
+							isLoading={allClassRelationsQuery.isLoading}
+							error={allClassRelationsQuery.error}
+							initialClassId={resolvedSourceClassId}
+							isCreatingRelation={createClassRelationMutation.isPending}
+							pendingDeleteRelationIds={pendingClassRelationDeleteIds}
+							onCreateRelation={onCreateDiagramClassRelation}
+							onDeleteRelation={onDeleteDiagramClassRelation}
+						/>
+					) : classRelationsView === "direct" ? (
 						allClassRelationsQuery.isLoading ? (
 							<div>Loading class relations...</div>
 						) : allClassRelationsQuery.isError ? (
@@ -2198,7 +2335,7 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 							}
 						/>
 						<div className="table-tools">
-							{objectRelationsView === "reachable" ? (
+							{objectRelationsView !== "direct" ? (
 								<label className="relations-depth-control">
 									<span>Depth</span>
 									<select
@@ -2231,13 +2368,13 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 									}
 									compact
 								/>
-							) : (
+							) : objectRelationsView === "reachable" ? (
 								<TableExportMenu
 									view={reachableObjectsExportView}
 									disabled={relatedObjectsQuery.isFetching}
 									compact
 								/>
-							)}
+							) : null}
 							<select
 								aria-label="Object relations view"
 								value={objectRelationsView}
@@ -2245,7 +2382,15 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 							>
 								<option value="direct">Direct relations</option>
 								<option value="reachable">Reachability</option>
+								<option value="paths">Shortest paths</option>
 							</select>
+							<button
+								type="button"
+								className="ghost"
+								onClick={() => setBulkImportOpen(true)}
+							>
+								Bulk create
+							</button>
 						</div>
 					</div>
 
@@ -2259,7 +2404,14 @@ export function RelationsExplorer({ mode }: RelationsExplorerProps) {
 						<div className="muted">{objectTableSuccess}</div>
 					) : null}
 
-					{parsedSourceClassId === null ? (
+					{objectRelationsView === "paths" ? (
+						<ObjectRelationPathFinder
+							source={pathSource}
+							depthLimit={reachabilityDepth}
+							classNameById={classNameById}
+							onSourceChange={onPathSourceChange}
+						/>
+					) : parsedSourceClassId === null ? (
 						<div className="muted">Select a class first.</div>
 					) : parsedResolvedSourceObjectId === null ? (
 						<div className="muted">
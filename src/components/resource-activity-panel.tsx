@@ -1,9 +1,10 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { FormEvent, useMemo, useState } from "react";
 import { EventDetailsModal } from "@/components/event-details-modal";
 import { HistoryDetailsModal } from "@/components/history-details-modal";
+import { HistoryVersionsPanel } from "@/components/history-versions-panel";
 import { JsonViewer } from "@/components/json-viewer";
 import { TableExportMenu } from "@/components/table-export-menu";
 import {
@@ -19,6 +20,7 @@ import { formatEventActor, formatEventInitiator } from "@/lib/event-provenance";
 type ResourceActivityPanelProps = {
 	scope: ResourceEventScope;
 	title: string;
+	onRestored?: () => Promise<void> | void;
 };
 
 function formatTimestamp(value: string | null | undefined): string {
@@ -58,6 +60,14 @@ function scopeKey(scope: ResourceEventScope): string {
 		return `class:${scope.classId}`;
 	}
 
+	if (scope.type === "export-template") {
+		return `export-template:${scope.templateId}`;
+	}
+
+	if (scope.type === "remote-target") {
+		return `remote-target:${scope.remoteTargetId}`;
+	}
+
 	return `object:${scope.classId}:${scope.objectId}`;
 }
 
@@ -87,7 +97,9 @@ function getSnapshotValue(record: HistoryRecord): unknown {
 export function ResourceActivityPanel({
 	scope,
 	title,
+	onRestored,
 }: ResourceActivityPanelProps) {
+	const queryClient = useQueryClient();
 	const stableScopeKey = useMemo(() => scopeKey(scope), [scope]);
 	const [eventCursor, setEventCursor] = useState("");
 	const [historyCursor, setHistoryCursor] = useState("");
@@ -95,6 +107,9 @@ export function ResourceActivityPanel({
 	const [selectedHistory, setSelectedHistory] = useState<HistoryRecord | null>(
 		null,
 	);
+	const [restoreTarget, setRestoreTarget] = useState<HistoryRecord | null>(
+		null,
+	);
 	const [asOfInput, setAsOfInput] = useState("");
 	const [asOfTimestamp, setAsOfTimestamp] = useState("");
 
@@ -125,6 +140,21 @@ export function ResourceActivityPanel({
 		retry: false,
 	});
 
+	async function onHistoryRestored() {
+		await Promise.all([
+			queryClient.invalidateQueries({
+				queryKey: ["resource-history", stableScopeKey],
+			}),
+			queryClient.invalidateQueries({
+				queryKey: ["resource-events", stableScopeKey],
+			}),
+			queryClient.invalidateQueries({
+				queryKey: ["resource-history-as-of", stableScopeKey],
+			}),
+		]);
+		await onRestored?.();
+	}
+
 	function onAsOfSubmit(event: FormEvent<HTMLFormElement>) {
 		event.preventDefault();
 		const normalized = normalizeAsOfInput(asOfInput);
@@ -253,7 +283,16 @@ export function ResourceActivityPanel({
 			/>
 			<HistoryDetailsModal
 				record={selectedHistory}
+				previousRecord={
+					selectedHistoryIndex >= 0
+						? (history[selectedHistoryIndex + 1] ?? null)
+						: null
+				}
 				onClose={() => setSelectedHistory(null)}
+				onRestore={(record) => {
+					setSelectedHistory(null);
+					setRestoreTarget(record);
+				}}
 				navigation={
 					selectedHistoryIndex >= 0
 						? {
@@ -482,6 +521,15 @@ export function ResourceActivityPanel({
 					) : null}
 				</section>
 
+				<HistoryVersionsPanel
+					scope={scope}
+					scopeKey={stableScopeKey}
+					versions={history}
+					restoreTarget={restoreTarget}
+					onRestoreTargetChange={setRestoreTarget}
+					onRestored={onHistoryRestored}
+				/>
+
 				<section className="stack">
 					<form className="filter-form" onSubmit={onAsOfSubmit}>
 						<label>
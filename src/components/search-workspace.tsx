@@ -11,14 +11,21 @@ import {
 	createEmptyUnifiedSearchNext,
 	createEmptyUnifiedSearchResults,
 	DEFAULT_UNIFIED_SEARCH_LIMIT,
-	fetchUnifiedSearch,
 	fetchUnifiedSearchKindPage,
 	type UnifiedSearchGroup,
+	type UnifiedSearchGroupProgress,
 	type UnifiedSearchKind,
 	type UnifiedSearchNext,
 	type UnifiedSearchResults,
 } from "@/lib/api/search";
+import {
+	buildObjectComparisonHref,
+	canCompareObjects,
+	MAX_COMPARED_OBJECTS,
+	type ObjectComparisonItem,
+} from "@/lib/object-comparison";
 import { normalizeSearchTerm } from "@/lib/resource-search";
+import { useUnifiedSearchStream } from "@/lib/use-unified-search-stream";
 
 type SearchGroupOption = {
 	group: UnifiedSearchGroup;
@@ -58,6 +65,13 @@ const SEARCH_GROUPS: SearchGroupOption[] = [
 	},
 ];
 
+const SEARCH_PROGRESS_LABELS: Record<UnifiedSearchGroupProgress, string> = {
+	pending: "Searching...",
+	received: "Receiving",
+	done: "Done",
+	error: "Failed",
+};
+
 function formatTimestamp(value: string): string {
 	try {
 		return new Intl.DateTimeFormat(undefined, {
@@ -201,36 +215,39 @@ export function SearchWorkspace() {
 					loadMoreErrors: {},
 				};
 
-	const searchQueryResult = useQuery({
-		queryKey: [
-			"unified-search",
-			searchQuery,
-			kindsParam ?? "all",
-			searchClassSchema,
-			searchObjectData,
-		],
-		queryFn: async () =>
-			fetchUnifiedSearch({
-				q: searchQuery,
-				kinds: SEARCH_GROUPS.filter((item) =>
-					selectedGroups.includes(item.group),
-				).map((item) => item.kind),
-				limitPerKind: DEFAULT_UNIFIED_SEARCH_LIMIT,
-				searchClassSchema,
-				searchObjectData,
-			}),
-		enabled: searchQuery.length > 0 && selectedGroups.length > 0,
-	});
+	const [compareSelection, setCompareSelection] = useState<{
+		key: string;
+		items: ObjectComparisonItem[];
+	}>({ key: "", items: [] });
+	const compareItems =
+		compareSelection.key === searchStateKey ? compareSelection.items : [];
+
+	const streamParams = useMemo(
+		() =>
+			searchQuery.length > 0 && selectedGroups.length > 0
+				? {
+						q: searchQuery,
+						kinds: SEARCH_GROUPS.filter((item) =>
+							selectedGroups.includes(item.group),
+						).map((item) => item.kind),
+						limitPerKind: DEFAULT_UNIFIED_SEARCH_LIMIT,
+						searchClassSchema,
+						searchObjectData,
+					}
+				: null,
+		[searchClassSchema, searchObjectData, searchQuery, selectedGroups],
+	);
+	const { state: searchStream, retry: retrySearch } =
+		useUnifiedSearchStream(streamParams);
 
 	const mergedResults = useMemo(() => {
 		const baseResults =
-			searchQueryResult.data?.results ?? createEmptyUnifiedSearchResults();
+			searchStream?.results ?? createEmptyUnifiedSearchResults();
 		return mergeResults(baseResults, activeSearchState.appendedResults);
-	}, [activeSearchState.appendedResults, searchQueryResult.data?.results]);
+	}, [activeSearchState.appendedResults, searchStream?.results]);
 
 	const mergedNext = useMemo<UnifiedSearchNext>(() => {
-		const baseNext =
-			searchQueryResult.data?.next ?? createEmptyUnifiedSearchNext();
+		const baseNext = searchStream?.next ?? createEmptyUnifiedSearchNext();
 		return {
 			collections:
 				activeSearchState.nextOverrides.collections !== undefined
@@ -245,7 +262,7 @@ export function SearchWorkspace() {
 					? activeSearchState.nextOverrides.objects
 					: (baseNext.objects ?? null),
 		};
-	}, [activeSearchState.nextOverrides, searchQueryResult.data?.next]);
+	}, [activeSearchState.nextOverrides, searchStream?.next]);
 
 	const searchClassContext = useMemo(() => {
 		const contextById: Record<number, ClassContext> = {};
@@ -667,11 +684,23 @@ export function SearchWorkspace() {
 		);
 	}
 
+	function toggleCompareItem(item: ObjectComparisonItem, checked: boolean) {
+		const remaining = compareItems.filter(
+			(entry) =>
+				entry.classId !== item.classId || entry.objectId !== item.objectId,
+		);
+		setCompareSelection({
+			key: searchStateKey,
+			items: checked ? [...remaining, item] : remaining,
+		});
+	}
+
 	function renderObjectsTable() {
 		return (
 			<table>
 				<thead>
 					<tr>
+						<th>Compare</th>
 						<th>ID</th>
 						<th>Name</th>
 						<th>Class</th>
@@ -685,8 +714,31 @@ export function SearchWorkspace() {
 						const { classLabel, collectionId, collectionLabel } =
 							getObjectDisplayContext(objectItem);
 
+						const compareItem = {
+							classId: objectItem.hubuum_class_id,
+							objectId: objectItem.id,
+						};
+						const isCompared = compareItems.some(
+							(entry) =>
+								entry.classId === compareItem.classId &&
+								entry.objectId === compareItem.objectId,
+						);
+
 						return (
 							<tr key={`object-${objectItem.hubuum_class_id}-${objectItem.id}`}>
+								<td>
+									<input
+										type="checkbox"
+										aria-label={`Compare ${objectItem.name}`}
+										checked={isCompared}
+										disabled={
+											!isCompared && compareItems.length >= MAX_COMPARED_OBJECTS
+										}
+										onChange={(event) =>
+											toggleCompareItem(compareItem, event.target.checked)
+										}
+									/>
+								</td>
 								<td>#{objectItem.id}</td>
 								<td>
 									<Link
@@ -728,6 +780,8 @@ export function SearchWorkspace() {
 					: mergedResults.objects;
 		const nextCursor = mergedNext[group];
 		const isLoadingMore = activeSearchState.loadingGroup === group;
+		const progress = searchStream?.progress[group] ?? "pending";
+		const streamError = searchStream?.errors[group];
 		const exportMenu =
 			group === "collections" ? (
 				<TableExportMenu view={collectionExportView} compact />
@@ -744,6 +798,13 @@ export function SearchWorkspace() {
 						<h2>
 							{option.label}: {items.length}
 						</h2>
+						{progress === "done" ? null : (
+							<span
+								className={`search-progress-chip search-progress-chip--${progress}`}
+							>
+								{SEARCH_PROGRESS_LABELS[progress]}
+							</span>
+						)}
 						{nextCursor ? (
 							<button
 								type="button"
@@ -754,10 +815,23 @@ export function SearchWorkspace() {
 								{isLoadingMore ? "Loading..." : "Load more"}
 							</button>
 						) : null}
+						{group === "objects" && canCompareObjects(compareItems.length) ? (
+							<Link
+								className="link-chip"
+								href={buildObjectComparisonHref(compareItems)}
+							>
+								Compare ({compareItems.length})
+							</Link>
+						) : null}
 						{exportMenu}
 					</div>
 				</div>
 
+				{streamError ? (
+					<div className="error-banner">
+						Failed to search {option.label.toLowerCase()}. {streamError}
+					</div>
+				) : null}
 				{activeSearchState.loadMoreErrors[group] ? (
 					<div className="error-banner">
 						{activeSearchState.loadMoreErrors[group]}
@@ -865,19 +939,28 @@ export function SearchWorkspace() {
 				<div className="card empty-state search-empty-state">
 					Select at least one result kind to run a unified search.
 				</div>
-			) : searchQueryResult.isLoading ? (
-				<div className="card search-status-card">
-					Searching across Hubuum...
-				</div>
-			) : searchQueryResult.isError ? (
+			) : searchStream?.status === "error" && totalLoadedResults === 0 ? (
 				<div className="card error-banner search-status-card">
-					Failed to load unified search results.{" "}
-					{searchQueryResult.error instanceof Error
-						? searchQueryResult.error.message
-						: "Unknown error"}
+					Failed to load unified search results. {searchStream.error}{" "}
+					<button type="button" className="ghost" onClick={retrySearch}>
+						Retry
+					</button>
 				</div>
 			) : (
 				<div className="stack">
+					{searchStream?.status === "streaming" ? (
+						<div className="muted search-inline-note" role="status">
+							Searching across Hubuum... results appear as each kind responds.
+						</div>
+					) : null}
+					{searchStream?.status === "error" ? (
+						<div className="error-banner search-status-card">
+							The search stopped early. {searchStream.error}{" "}
+							<button type="button" className="ghost" onClick={retrySearch}>
+								Retry
+							</button>
+						</div>
+					) : null}
 					{SEARCH_GROUPS.filter((option) =>
 						selectedGroups.includes(option.group),
 					).map((option) => renderSection(option.group))}
@@ -19,7 +19,23 @@ export function ToastContainer() {
 					aria-live="polite"
 				>
 					<div className="toast-message">
-						{toast.action ? (
+						{toast.action && "onAction" in toast.action ? (
+							<>
+								{toast.message}{" "}
+								<button
+									type="button"
+									className="toast-action"
+									onClick={() => {
+										removeToast(toast.id);
+										if (toast.action && "onAction" in toast.action) {
+											toast.action.onAction();
+										}
+									}}
+								>
+									{toast.action.label}
+								</button>
+							</>
+						) : toast.action ? (
 							<Link
 								href={toast.action.href}
 								className="toast-link"
@@ -0,0 +1,143 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+import type { UnifiedSearchGroup } from "@/lib/api/search";
+import { normalizeSearchTerm } from "@/lib/resource-search";
+import { useUnifiedSearchStream } from "@/lib/use-unified-search-stream";
+
+type TopbarSearchResultsProps = {
+	query: string;
+	onNavigate: () => void;
+	onViewAll: () => void;
+};
+
+type PreviewItem = {
+	key: string;
+	href: string;
+	label: string;
+	detail: string;
+};
+
+const PREVIEW_LIMIT = 5;
+const PREVIEW_DELAY_MS = 250;
+const PREVIEW_MIN_LENGTH = 2;
+
+const PREVIEW_GROUPS: Array<{ group: UnifiedSearchGroup; label: string }> = [
+	{ group: "collections", label: "Collections" },
+	{ group: "classes", label: "Classes" },
+	{ group: "objects", label: "Objects" },
+];
+
+export function TopbarSearchResults({
+	query,
+	onNavigate,
+	onViewAll,
+}: TopbarSearchResultsProps) {
+	const normalizedQuery = normalizeSearchTerm(query);
+	const [debouncedQuery, setDebouncedQuery] = useState(normalizedQuery);
+
+	useEffect(() => {
+		const timeout = window.setTimeout(
+			() => setDebouncedQuery(normalizedQuery),
+			PREVIEW_DELAY_MS,
+		);
+		return () => window.clearTimeout(timeout);
+	}, [normalizedQuery]);
+
+	const streamParams = useMemo(
+		() =>
+			debouncedQuery.length >= PREVIEW_MIN_LENGTH
+				? { q: debouncedQuery, limitPerKind: PREVIEW_LIMIT }
+				: null,
+		[debouncedQuery],
+	);
+	const { state } = useUnifiedSearchStream(streamParams);
+
+	if (normalizedQuery.length < PREVIEW_MIN_LENGTH) {
+		return null;
+	}
+
+	const itemsByGroup: Record<UnifiedSearchGroup, PreviewItem[]> = {
+		collections: (state?.results.collections ?? []).map((collection) => ({
+			key: `collection-${collection.id}`,
+			href: `/collections/${collection.id}`,
+			label: collection.name,
+			detail: `Collection #${collection.id}`,
+		})),
+		classes: (state?.results.classes ?? []).map((classItem) => ({
+			key: `class-${classItem.id}`,
+			href: `/classes/${classItem.id}`,
+			label: classItem.name,
+			detail: classItem.collection.name,
+		})),
+		objects: (state?.results.objects ?? []).map((objectItem) => ({
+			key: `object-${objectItem.hubuum_class_id}-${objectItem.id}`,
+			href: `/objects/${objectItem.hubuum_class_id}/${objectItem.id}`,
+			label: objectItem.name,
+			detail: `Object #${objectItem.id}`,
+		})),
+	};
+	const isStale = debouncedQuery !== normalizedQuery;
+	const hasResults = PREVIEW_GROUPS.some(
+		({ group }) => itemsByGroup[group].length > 0,
+	);
+
+	return (
+		<section
+			className="topbar-search-results"
+			aria-label="Quick search results"
+			aria-busy={isStale || state?.status === "streaming"}
+		>
+			{state?.status === "error" ? (
+				<div className="error-banner">{state.error}</div>
+			) : null}
+			{PREVIEW_GROUPS.map(({ group, label }) => {
+				const progress = isStale
+					? "pending"
+					: (state?.progress[group] ?? "pending");
+				const items = itemsByGroup[group];
+				return (
+					<div key={group} className="topbar-search-results-group">
+						<div className="topbar-search-results-heading">
+							<strong>{label}</strong>
+							{progress === "pending" ? (
+								<span className="muted">Searching...</span>
+							) : progress === "error" ? (
+								<span className="muted">Failed</span>
+							) : (
+								<span className="muted">{items.length}</span>
+							)}
+						</div>
+						{state?.errors[group] ? (
+							<span className="muted">{state.errors[group]}</span>
+						) : null}
+						{items.length > 0 ? (
+							<ul>
+								{items.map((item) => (
+									<li key={item.key}>
+										<Link href={item.href} onClick={onNavigate}>
+											<span>{item.label}</span>
+											<span className="muted">{item.detail}</span>
+										</Link>
+									</li>
+								))}
+							</ul>
+						) : null}
+					</div>
+				);
+			})}
+			{!hasResults && !isStale && state?.status === "done" ? (
+				<div className="muted">No matches for "{normalizedQuery}".</div>
+			) : null}
+			<button
+				type="button"
+				className="ghost topbar-search-results-all"
+				onClick={onViewAll}
+			>
+				View all results
+			</button>
+		</section>
+	);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+	EffectiveGroupPermission,
+	PrincipalTokenMetadata,
+} from "@/lib/api/generated/models";
+import { Permissions } from "@/lib/api/generated/models/permissions";
+import {
+	type AccessResource,
+	explainAccess,
+	findTokenResourceScope,
+} from "@/lib/access-explanation";
+
+const resource: AccessResource = {
+	kind: "object",
+	id: 31,
+	name: "web-01",
+	collectionId: 4,
+	collectionName: "Servers",
+	classId: 7,
+};
+
+function effective(
+	groupId: number,
+	flags: Partial<EffectiveGroupPermission["permission"]>,
+	inherited = false,
+): EffectiveGroupPermission {
+	return {
+		depth: inherited ? 1 : 0,
+		inherited,
+		group: { id: groupId, groupname: `group-${groupId}` },
+		permission: {
+			collection_id: inherited ? 1 : 4,
+			group_id: groupId,
+			...flags,
+		},
+		source_collection: {
+			id: inherited ? 1 : 4,
+			name: inherited ? "Root" : "Servers",
+		},
+		target_collection: { id: 4, name: "Servers" },
+	} as EffectiveGroupPermission;
+}
+
+function token(scope: PrincipalTokenMetadata["scope"]): PrincipalTokenMetadata {
+	return {
+		id: 9,
+		active: true,
+		expired: false,
+		scope,
+	} as PrincipalTokenMetadata;
+}
+
+describe("access explanation", () => {
+	it("explains inherited grants and groups that do not grant the permission", () => {
+		const explanation = explainAccess({
+			permission: Permissions.ReadObject,
+			resource,
+			groups: [
+				{ id: 1, groupname: "viewers", effective: [effective(1, {})] },
+				{
+					id: 2,
+					groupname: "operators",
+					effective: [effective(2, { has_read_object: true }, true)],
+				},
+			],
+			principalPermissions: [
+				{
+					collection_id: 1,
+					collection_name: "Root",
+					grants: [
+						{
+							group_id: 2,
+							groupname: "operators",
+							permissions: [Permissions.ReadObject],
+						},
+					],
+				},
+				{ collection_id: 99, collection_name: "Elsewhere", grants: [] },
+			],
+			token: null,
+		});
+
+		expect(explanation.allowed).toBe(true);
+		expect(explanation.summary).toBe(
+			"operators grants Read object on Root, inherited by Servers.",
+		);
+		expect(explanation.groups.map((group) => group.granting.length)).toEqual([
+			0, 1,
+		]);
+		expect(explanation.directGrants).toHaveLength(1);
+		expect(explanation.directGrants[0]?.includesPermission).toBe(true);
+
+		expect(
+			explainAccess({
+				permission: Permissions.DeleteObject,
+				resource,
+				groups: [{ id: 2, groupname: "operators", effective: [] }],
+				principalPermissions: [],
+				token: null,
+			}).summary,
+		).toBe("None of the principal's 1 group grant Delete object on Servers.");
+	});
+
+	it("intersects group grants with the token permission and resource scope", () => {
+		const groups = [
+			{
+				id: 2,
+				groupname: "operators",
+				effective: [effective(2, { has_read_object: true })],
+			},
+		];
+		const explain = (scope: PrincipalTokenMetadata["scope"]) =>
+			explainAccess({
+				permission: Permissions.ReadObject,
+				resource,
+				groups,
+				principalPermissions: [],
+				token: token(scope),
+			});
+
+		expect(explain(null).allowed).toBe(true);
+		expect(explain({ permissions: [Permissions.ReadClass] }).allowed).toBe(
+			false,
+		);
+		expect(
+			explain({ resources: [{ kind: "collection", id: 5 }] }).summary,
+		).toBe(
+			"The groups grant the permission, but the token's resource scope does not cover this object.",
+		);
+		expect(
+			explain({
+				permissions: [Permissions.ReadObject],
+				resources: [{ kind: "class", id: 7 }],
+			}).token?.resourceScope,
+		).toEqual({ kind: "class", id: 7 });
+		expect(
+			findTokenResourceScope([{ kind: "object", id: 31 }], {
+				...resource,
+				kind: "class",
+				id: 31,
+			}),
+		).toBeNull();
+	});
+
+	it("allows members of the administrator group without collection grants", () => {
+		const explain = (identityScope: string, active = true) =>
+			explainAccess({
+				permission: Permissions.DeleteCollection,
+				resource,
+				groups: [
+					{ id: 1, groupname: "viewers", effective: [effective(1, {})] },
+					{ id: 3, groupname: "admin", identityScope, effective: [] },
+				],
+				principalPermissions: [],
+				token: active ? null : { ...token(null), active: false },
+				adminGroup: { groupname: "admin", identityScope: null },
+			});
+
+		expect(explain("local")).toMatchObject({
+			allowed: true,
+			admin: true,
+			summary:
+				"The principal is a member of the administrator group admin, which is granted every permission.",
+		});
+		expect(explain("ldap")).toMatchObject({ allowed: false, admin: false });
+		expect(explain("local", false)).toMatchObject({
+			allowed: false,
+			admin: true,
+			summary:
+				"The groups grant the permission, but the token is revoked or expired.",
+		});
+	});
+});
@@ -0,0 +1,219 @@
+import type {
+	EffectiveGroupPermission,
+	GroupGrant,
+	Permissions as PermissionName,
+	PrincipalCollectionPermissions,
+	PrincipalTokenMetadata,
+	TokenResourceScope,
+} from "@/lib/api/generated/models";
+import {
+	isPermissionEnabled,
+	PERMISSION_DEFINITIONS,
+} from "@/lib/collection-permissions";
+import {
+	formatScopedIdentityName,
+	normalizeIdentityScope,
+} from "@/lib/identity-scopes";
+
+export type AccessResourceKind = TokenResourceScope["kind"];
+
+export type AccessResource = {
+	kind: AccessResourceKind;
+	id: number;
+	name: string;
+	collectionId: number;
+	collectionName: string;
+	classId: number | null;
+};
+
+export type AccessGroupEvidence = {
+	groupId: number;
+	groupname: string;
+	grants: EffectiveGroupPermission[];
+	granting: EffectiveGroupPermission[];
+};
+
+export type AccessDirectGrant = GroupGrant & {
+	collectionId: number;
+	collectionName: string;
+	includesPermission: boolean;
+};
+
+export type AccessTokenEvidence = {
+	token: PrincipalTokenMetadata;
+	permissionInScope: boolean;
+	resourceScope: TokenResourceScope | null;
+	resourceInScope: boolean;
+};
+
+export type AccessAdminGroup = {
+	groupname: string;
+	identityScope: string | null | undefined;
+};
+
+export type AccessExplanation = {
+	allowed: boolean;
+	admin: boolean;
+	summary: string;
+	groups: AccessGroupEvidence[];
+	directGrants: AccessDirectGrant[];
+	token: AccessTokenEvidence | null;
+};
+
+export type AccessExplanationInput = {
+	permission: PermissionName;
+	resource: AccessResource;
+	groups: readonly {
+		id: number;
+		groupname: string;
+		identityScope?: string | null;
+		effective: readonly EffectiveGroupPermission[];
+	}[];
+	principalPermissions: readonly PrincipalCollectionPermissions[];
+	token: PrincipalTokenMetadata | null;
+	adminGroup?: AccessAdminGroup | null;
+};
+
+export function getPermissionLabel(permission: PermissionName): string {
+	return (
+		PERMISSION_DEFINITIONS.find((definition) => definition.value === permission)
+			?.label ?? permission
+	);
+}
+
+export function findTokenResourceScope(
+	resources: readonly TokenResourceScope[] | null | undefined,
+	resource: Pick<AccessResource, "kind" | "id" | "collectionId" | "classId">,
+): TokenResourceScope | null {
+	return (
+		resources?.find(
+			(scope) =>
+				(scope.kind === "collection" && scope.id === resource.collectionId) ||
+				(scope.kind === "class" && scope.id === resource.classId) ||
+				(scope.kind === "object" &&
+					resource.kind === "object" &&
+					scope.id === resource.id),
+		) ?? null
+	);
+}
+
+function explainToken(
+	token: PrincipalTokenMetadata,
+	permission: PermissionName,
+	resource: AccessResource,
+): AccessTokenEvidence {
+	const resources = token.scope?.resources;
+	const resourceScope = findTokenResourceScope(resources, resource);
+	return {
+		token,
+		permissionInScope:
+			!token.scope?.permissions || token.scope.permissions.includes(permission),
+		resourceScope,
+		resourceInScope: !resources || resourceScope !== null,
+	};
+}
+
+function describeGroupGrant(
+	group: AccessGroupEvidence,
+	label: string,
+	resource: AccessResource,
+): string {
+	const entry = group.granting[0];
+	return `${group.groupname} grants ${label} on ${
+		entry.source_collection.name
+	}${entry.inherited ? `, inherited by ${resource.collectionName}` : ""}.`;
+}
+
+export function explainAccess({
+	permission,
+	resource,
+	groups,
+	principalPermissions,
+	token,
+	adminGroup = null,
+}: AccessExplanationInput): AccessExplanation {
+	const definition = PERMISSION_DEFINITIONS.find(
+		(candidate) => candidate.value === permission,
+	);
+	const label = getPermissionLabel(permission);
+	const groupEvidence = groups.map((group) => ({
+		groupId: group.id,
+		groupname: group.groupname,
+		grants: [...group.effective],
+		granting: group.effective.filter(
+			(entry) =>
+				definition !== undefined &&
+				isPermissionEnabled(entry.permission, definition.field),
+		),
+	}));
+	const sourceCollectionIds = new Set([
+		resource.collectionId,
+		...groupEvidence.flatMap((group) =>
+			group.grants.map((entry) => entry.source_collection.id),
+		),
+	]);
+	const directGrants = principalPermissions
+		.filter((entry) => sourceCollectionIds.has(entry.collection_id))
+		.flatMap((entry) =>
+			entry.grants.map((grant) => ({
+				...grant,
+				collectionId: entry.collection_id,
+				collectionName: entry.collection_name,
+				includesPermission: grant.permissions.includes(permission),
+			})),
+		);
+	const tokenEvidence = token
+		? explainToken(token, permission, resource)
+		: null;
+	const granting = groupEvidence.find((group) => group.granting.length > 0);
+	const adminMembership = adminGroup
+		? groups.find(
+				(group) =>
+					group.groupname === adminGroup.groupname &&
+					normalizeIdentityScope(group.identityScope) ===
+						normalizeIdentityScope(adminGroup.identityScope),
+			)
+		: undefined;
+	const grantSummary =
+		adminGroup && adminMembership
+			? `The principal is a member of the administrator group ${formatScopedIdentityName(
+					adminGroup.identityScope,
+					adminGroup.groupname,
+				)}, which is granted every permission.`
+			: granting
+				? describeGroupGrant(granting, label, resource)
+				: null;
+
+	let summary: string;
+	if (groups.length === 0) {
+		summary =
+			"The principal is not a member of any group, so no collection permissions apply.";
+	} else if (grantSummary === null) {
+		summary = `None of the principal's ${groups.length} group${
+			groups.length === 1 ? "" : "s"
+		} grant ${label} on ${resource.collectionName}.`;
+	} else if (tokenEvidence && !tokenEvidence.token.active) {
+		summary =
+			"The groups grant the permission, but the token is revoked or expired.";
+	} else if (tokenEvidence && !tokenEvidence.permissionInScope) {
+		summary = `The groups grant the permission, but the token's permission scope does not include ${label}.`;
+	} else if (tokenEvidence && !tokenEvidence.resourceInScope) {
+		summary = `The groups grant the permission, but the token's resource scope does not cover this ${resource.kind}.`;
+	} else {
+		summary = grantSummary;
+	}
+
+	return {
+		allowed:
+			grantSummary !== null &&
+			(tokenEvidence === null ||
+				(tokenEvidence.token.active &&
+					tokenEvidence.permissionInScope &&
+					tokenEvidence.resourceInScope)),
+		admin: adminMembership !== undefined,
+		summary,
+		groups: groupEvidence,
+		directGrants,
+		token: tokenEvidence,
+	};
+}
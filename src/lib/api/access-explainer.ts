@@ -0,0 +1,192 @@
+import {
+	type AccessExplanation,
+	type AccessResource,
+	explainAccess,
+} from "@/lib/access-explanation";
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import {
+	getApiV1AdminConfig,
+	getApiV1CollectionsByCollectionIdPermissionsEffectiveGroupByGroupId,
+	getApiV1IamPrincipalsByPrincipalIdGroups,
+	getApiV1IamPrincipalsByPrincipalIdPermissions,
+	getApiV1IamPrincipalsByPrincipalIdTokens,
+	getApiV1IamServiceAccounts,
+	getApiV1IamUsers,
+} from "@/lib/api/generated/client";
+import type {
+	EffectiveGroupPermission,
+	Permissions as PermissionName,
+	PrincipalTokenMetadata,
+} from "@/lib/api/generated/models";
+
+export type AccessPrincipal = {
+	id: number;
+	name: string;
+	kind: "user" | "service_account";
+};
+
+export async function fetchAccessPrincipals(): Promise<AccessPrincipal[]> {
+	const [users, serviceAccounts] = await Promise.all([
+		collectAllCursorPages(async (cursor) => {
+			const response = await getApiV1IamUsers(
+				{ cursor, include_total: false, limit: 250, sort: "id.asc" },
+				{ credentials: "include" },
+			);
+			if (response.status !== 200) {
+				throw new Error(
+					getApiErrorMessage(response.data, "Failed to load users."),
+				);
+			}
+			return {
+				items: response.data,
+				nextCursor: response.headers.get("X-Next-Cursor"),
+			};
+		}),
+		collectAllCursorPages(async (cursor) => {
+			const response = await getApiV1IamServiceAccounts(
+				{ cursor, include_total: false, limit: 250, sort: "id.asc" },
+				{ credentials: "include" },
+			);
+			if (response.status !== 200) {
+				throw new Error(
+					getApiErrorMessage(response.data, "Failed to load service accounts."),
+				);
+			}
+			return {
+				items: response.data,
+				nextCursor: response.headers.get("X-Next-Cursor"),
+			};
+		}),
+	]);
+
+	return [
+		...users.map((user) => ({
+			id: user.id,
+			name: user.name,
+			kind: "user" as const,
+		})),
+		...serviceAccounts.map((account) => ({
+			id: account.id,
+			name: account.name,
+			kind: "service_account" as const,
+		})),
+	].sort((left, right) => left.name.localeCompare(right.name));
+}
+
+export async function fetchAccessPrincipalTokens(
+	principalId: number,
+): Promise<PrincipalTokenMetadata[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const response = await getApiV1IamPrincipalsByPrincipalIdTokens(
+			principalId,
+			{ cursor, include_total: false, limit: 250 },
+			{ credentials: "include" },
+		);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(response.data, "Failed to load tokens."),
+			);
+		}
+		return {
+			items: response.data,
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
+
+async function fetchEffectiveGroupPermissions(
+	collectionId: number,
+	groupId: number,
+): Promise<EffectiveGroupPermission[]> {
+	const response =
+		await getApiV1CollectionsByCollectionIdPermissionsEffectiveGroupByGroupId(
+			collectionId,
+			groupId,
+			{ credentials: "include" },
+		);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				response.data,
+				"Failed to load effective group permissions.",
+			),
+		);
+	}
+	return response.data;
+}
+
+export async function fetchAccessExplanation({
+	principalId,
+	permission,
+	resource,
+	token,
+}: {
+	principalId: number;
+	permission: PermissionName;
+	resource: AccessResource;
+	token: PrincipalTokenMetadata | null;
+}): Promise<AccessExplanation> {
+	const [groups, permissionsResponse, configResponse] = await Promise.all([
+		collectAllCursorPages(async (cursor) => {
+			const response = await getApiV1IamPrincipalsByPrincipalIdGroups(
+				principalId,
+				{ cursor, include_total: false, limit: 250 },
+				{ credentials: "include" },
+			);
+			if (response.status !== 200) {
+				throw new Error(
+					getApiErrorMessage(response.data, "Failed to load principal groups."),
+				);
+			}
+			return {
+				items: response.data,
+				nextCursor: response.headers.get("X-Next-Cursor"),
+			};
+		}),
+		getApiV1IamPrincipalsByPrincipalIdPermissions(principalId, {
+			credentials: "include",
+		}),
+		getApiV1AdminConfig({ credentials: "include" }),
+	]);
+	if (permissionsResponse.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				permissionsResponse.data,
+				"Failed to load principal permissions.",
+			),
+		);
+	}
+	if (configResponse.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				configResponse.data,
+				"Failed to load the administrator group.",
+			),
+		);
+	}
+
+	const groupEvidence = await Promise.all(
+		groups.map(async (group) => ({
+			id: group.id,
+			groupname: group.groupname,
+			identityScope: group.identity_scope,
+			effective: await fetchEffectiveGroupPermissions(
+				resource.collectionId,
+				group.id,
+			),
+		})),
+	);
+
+	return explainAccess({
+		permission,
+		resource,
+		groups: groupEvidence,
+		principalPermissions: permissionsResponse.data,
+		token,
+		adminGroup: {
+			groupname: configResponse.data.authentication.admin_groupname,
+			identityScope: configResponse.data.authentication.admin_identity_scope,
+		},
+	});
+}
@@ -1,9 +1,15 @@
+import { type CursorPage, parseCountHeader } from "@/lib/api/cursor-pages";
 import { expectArrayPayload, getApiErrorMessage } from "@/lib/api/errors";
-import { frontendApiPath } from "@/lib/api/frontend";
+import { frontendApiPath, hubuumBffPath } from "@/lib/api/frontend";
 import type { HubuumObject } from "@/lib/api/generated/models";
 
 export const CLASS_OBJECT_SAMPLES_STALE_TIME = 5 * 60_000;
 export const CLASS_OBJECT_SAMPLES_GC_TIME = 30 * 60_000;
+export const CLASS_OBJECT_PAGE_LIMIT = 250;
+
+export type ClassObjectPage = CursorPage<HubuumObject> & {
+	totalCount: number | null;
+};
 
 export function classObjectSamplesQueryKey(classId: number | null) {
 	return ["class-object-samples", classId] as const;
@@ -30,3 +36,51 @@ export async function fetchClassObjectSamples(
 	}
 	return expectArrayPayload<HubuumObject>(payload, "class object samples");
 }
+
+export async function fetchClassObjectPage(
+	classId: number,
+	cursor?: string,
+): Promise<ClassObjectPage> {
+	const params = new URLSearchParams({
+		include_total: cursor ? "false" : "true",
+		limit: String(CLASS_OBJECT_PAGE_LIMIT),
+		sort: "id.asc",
+	});
+	if (cursor) params.set("cursor", cursor);
+
+	const response = await fetch(
+		`${frontendApiPath(`/classes/${classId}/objects`)}?${params.toString()}`,
+		{ credentials: "include" },
+	);
+	const payload: unknown = await response.json().catch(() => null);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(payload, "Failed to load objects in this class."),
+		);
+	}
+	return {
+		items: expectArrayPayload<HubuumObject>(payload, "class objects"),
+		nextCursor: response.headers.get("X-Next-Cursor"),
+		totalCount: parseCountHeader(response.headers.get("X-Total-Count")),
+	};
+}
+
+export async function fetchObjectHasRelations(
+	classId: number,
+	objectId: number,
+): Promise<boolean> {
+	const params = new URLSearchParams({ include_total: "false", limit: "1" });
+	const response = await fetch(
+		`${hubuumBffPath(
+			`/api/v1/classes/${classId}/objects/${objectId}/related/relations`,
+		)}?${params.toString()}`,
+		{ credentials: "include" },
+	);
+	const payload: unknown = await response.json().catch(() => null);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(payload, "Failed to load object relations."),
+		);
+	}
+	return expectArrayPayload(payload, "object relations").length > 0;
+}
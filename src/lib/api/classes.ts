@@ -1,5 +1,7 @@
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
 import { getApiErrorMessage } from "@/lib/api/errors";
 import { hubuumBffPath } from "@/lib/api/frontend";
+import { getApiV1Classes } from "@/lib/api/generated/client";
 import type { HubuumClassExpanded } from "@/lib/api/generated/models";
 
 export async function fetchExpandedClass(
@@ -33,3 +35,21 @@ export async function fetchExpandedClass(
 
 	return payload as HubuumClassExpanded;
 }
+
+export async function fetchAllClasses(): Promise<HubuumClassExpanded[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const response = await getApiV1Classes(
+			{ cursor, include_total: false, limit: 250 },
+			{ credentials: "include" },
+		);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(response.data, "Failed to load classes."),
+			);
+		}
+		return {
+			items: response.data,
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
@@ -0,0 +1,243 @@
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import {
+	deleteApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
+	deleteApiV1CollectionsByCollectionIdPermissionsGroupByGroupIdByPermission,
+	getApiV1Collections,
+	getApiV1CollectionsByCollectionIdHasPermissionsByPermission,
+	getApiV1CollectionsByCollectionIdPermissions,
+	getApiV1CollectionsByCollectionIdPermissionsEffectivePrincipalByPrincipalId,
+	postApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
+	postApiV1CollectionsByCollectionIdPermissionsGroupByGroupIdByPermission,
+	putApiV1CollectionsByCollectionIdParent,
+	putApiV1CollectionsByCollectionIdPermissionsGroupByGroupId,
+} from "@/lib/api/generated/client";
+import type {
+	Collection,
+	Permission,
+	Permissions as PermissionName,
+} from "@/lib/api/generated/models";
+import type { ConsoleGroup } from "@/lib/identity-scopes";
+
+export async function fetchAllCollections(): Promise<Collection[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const response = await getApiV1Collections(
+			{ cursor, include_total: false, limit: 250 },
+			{ credentials: "include" },
+		);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(response.data, "Failed to load collections."),
+			);
+		}
+		return {
+			items: response.data,
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
+
+async function hasEffectiveCollectionPermission(
+	collectionId: number,
+	principalId: number,
+	hasPermission: (permission: Permission) => boolean,
+): Promise<boolean> {
+	const response =
+		await getApiV1CollectionsByCollectionIdPermissionsEffectivePrincipalByPrincipalId(
+			collectionId,
+			principalId,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to check collection access."),
+		);
+	}
+
+	return response.data.some((entry) => hasPermission(entry.permission));
+}
+
+export async function fetchCanMoveCollection(
+	collection: Pick<Collection, "id" | "parent_collection_id">,
+	parentId: number,
+	principalId: number,
+): Promise<boolean> {
+	const checks = [
+		hasEffectiveCollectionPermission(
+			collection.id,
+			principalId,
+			(permission) => permission.has_update_collection,
+		),
+		hasEffectiveCollectionPermission(
+			parentId,
+			principalId,
+			(permission) => permission.has_delegate_collection,
+		),
+	];
+	if (typeof collection.parent_collection_id === "number") {
+		checks.push(
+			hasEffectiveCollectionPermission(
+				collection.parent_collection_id,
+				principalId,
+				(permission) => permission.has_delegate_collection,
+			),
+		);
+	}
+
+	return (await Promise.all(checks)).every(Boolean);
+}
+
+export async function moveCollectionToParent(
+	collectionId: number,
+	parentId: number,
+): Promise<Collection> {
+	const response = await putApiV1CollectionsByCollectionIdParent(
+		collectionId,
+		{ parent_collection_id: parentId },
+		{ credentials: "include" },
+	);
+
+	if (response.status !== 202) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to move collection."),
+		);
+	}
+
+	return response.data;
+}
+
+export async function fetchCollectionPermissions(
+	collectionId: number,
+): Promise<Permission[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const response = await getApiV1CollectionsByCollectionIdPermissions(
+			collectionId,
+			{ cursor, limit: 250 },
+			{ credentials: "include" },
+		);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(
+					response.data,
+					"Failed to load collection permissions.",
+				),
+			);
+		}
+		return {
+			items: response.data.permissions,
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
+
+export async function fetchCollectionGroupsWithPermission(
+	collectionId: number,
+	permission: PermissionName,
+): Promise<ConsoleGroup[]> {
+	const response =
+		await getApiV1CollectionsByCollectionIdHasPermissionsByPermission(
+			collectionId,
+			permission,
+			undefined,
+			{ credentials: "include" },
+		);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to check collection access."),
+		);
+	}
+	return response.data;
+}
+
+export async function replaceCollectionGroupPermissions(
+	collectionId: number,
+	groupId: number,
+	permissions: PermissionName[],
+): Promise<void> {
+	const response =
+		permissions.length === 0
+			? await deleteApiV1CollectionsByCollectionIdPermissionsGroupByGroupId(
+					collectionId,
+					groupId,
+					{ credentials: "include" },
+				)
+			: await putApiV1CollectionsByCollectionIdPermissionsGroupByGroupId(
+					collectionId,
+					groupId,
+					permissions,
+					{ credentials: "include" },
+				);
+
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				response.data,
+				"Failed to update collection permissions.",
+			),
+		);
+	}
+}
+
+export async function grantCollectionGroupPermissions(
+	collectionId: number,
+	groupId: number,
+	permissions: PermissionName[],
+): Promise<void> {
+	const response =
+		await postApiV1CollectionsByCollectionIdPermissionsGroupByGroupId(
+			collectionId,
+			groupId,
+			permissions,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 201) {
+		throw new Error(
+			getApiErrorMessage(
+				response.data,
+				"Failed to grant collection permissions.",
+			),
+		);
+	}
+}
+
+export async function grantCollectionGroupPermission(
+	collectionId: number,
+	groupId: number,
+	permission: PermissionName,
+): Promise<void> {
+	const response =
+		await postApiV1CollectionsByCollectionIdPermissionsGroupByGroupIdByPermission(
+			collectionId,
+			groupId,
+			permission,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 201) {
+		throw new Error(
+			getApiErrorMessage(response.data, `Failed to grant ${permission}.`),
+		);
+	}
+}
+
+export async function revokeCollectionGroupPermission(
+	collectionId: number,
+	groupId: number,
+	permission: PermissionName,
+): Promise<void> {
+	const response =
+		await deleteApiV1CollectionsByCollectionIdPermissionsGroupByGroupIdByPermission(
+			collectionId,
+			groupId,
+			permission,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, `Failed to revoke ${permission}.`),
+		);
+	}
+}
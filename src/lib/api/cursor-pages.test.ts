@@ -2,6 +2,7 @@ import { describe, expect, it, vi } from "vitest";
 import {
 	collectAllCursorPages,
 	findCursorPageItem,
+	parseCountHeader,
 } from "@/lib/api/cursor-pages";
 
 describe("collectAllCursorPages", () => {
@@ -56,3 +57,14 @@ describe("collectAllCursorPages", () => {
 		);
 	});
 });
+
+describe("parseCountHeader", () => {
+	it("accepts non-negative integer counts only", () => {
+		expect(parseCountHeader("42")).toBe(42);
+		expect(parseCountHeader("0")).toBe(0);
+		expect(parseCountHeader(null)).toBeNull();
+		expect(parseCountHeader("")).toBeNull();
+		expect(parseCountHeader("-1")).toBeNull();
+		expect(parseCountHeader("many")).toBeNull();
+	});
+});
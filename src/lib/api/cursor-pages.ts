@@ -3,6 +3,12 @@ export type CursorPage<T> = {
 	nextCursor: string | null;
 };
 
+export function parseCountHeader(value: string | null): number | null {
+	if (value === null) return null;
+	const parsed = Number.parseInt(value, 10);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
 export async function collectAllCursorPages<T>(
 	loadPage: (cursor?: string) => Promise<CursorPage<T>>,
 ): Promise<T[]> {
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { fetchClassObjectPage } from "@/lib/api/class-objects";
+import { fetchAllClasses } from "@/lib/api/classes";
+import { fetchAllCollections } from "@/lib/api/collections";
+import { fetchDeletionImpact } from "@/lib/api/deletion-impact";
+import { fetchCollectionEventSubscriptions } from "@/lib/api/events";
+import type {
+	Collection,
+	HubuumClassExpanded,
+	HubuumObject,
+} from "@/lib/api/generated/models";
+import { fetchCollectionClassObjects } from "@/lib/api/object-collection-moves";
+import { fetchRemoteTargetsPage } from "@/lib/api/remote-targets";
+import { listReportTemplates } from "@/lib/api/reporting";
+
+vi.mock("@/lib/api/class-objects", () => ({
+	fetchClassObjectPage: vi.fn(),
+}));
+vi.mock("@/lib/api/classes", () => ({ fetchAllClasses: vi.fn() }));
+vi.mock("@/lib/api/collections", () => ({ fetchAllCollections: vi.fn() }));
+vi.mock("@/lib/api/events", () => ({
+	fetchCollectionEventSubscriptions: vi.fn(),
+}));
+vi.mock("@/lib/api/object-collection-moves", () => ({
+	fetchCollectionClassObjects: vi.fn(),
+}));
+vi.mock("@/lib/api/related-graphs", () => ({
+	fetchRelatedClassGraph: vi.fn(),
+	fetchRelatedObjectGraph: vi.fn(),
+}));
+vi.mock("@/lib/api/remote-targets", () => ({
+	fetchRemoteTargetsPage: vi.fn(),
+}));
+vi.mock("@/lib/api/reporting", () => ({ listReportTemplates: vi.fn() }));
+
+const revision = 1;
+const timestamps = {
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+};
+
+function collection(id: number, parentId: number | null): Collection {
+	return {
+		...timestamps,
+		id,
+		name: `collection-${id}`,
+		description: "",
+		parent_collection_id: parentId,
+		revision,
+	};
+}
+
+function hubuumClass(id: number, owner: Collection): HubuumClassExpanded {
+	return {
+		...timestamps,
+		id,
+		name: `class-${id}`,
+		description: "",
+		collection: owner,
+		revision,
+		validate_schema: false,
+	};
+}
+
+function hubuumObject(
+	id: number,
+	classId: number,
+	collectionId: number,
+): HubuumObject {
+	return {
+		...timestamps,
+		id,
+		name: `object-${id}`,
+		description: "",
+		collection_id: collectionId,
+		hubuum_class_id: classId,
+		data: {},
+		revision,
+	};
+}
+
+describe("fetchDeletionImpact", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(listReportTemplates).mockResolvedValue({
+			items: [],
+			nextCursor: null,
+		});
+		vi.mocked(fetchRemoteTargetsPage).mockResolvedValue({
+			targets: [],
+			nextCursor: null,
+		});
+		vi.mocked(fetchCollectionEventSubscriptions).mockResolvedValue([]);
+	});
+
+	it("counts objects stored in a deleted collection whose class lives elsewhere", async () => {
+		const root = collection(1, null);
+		const child = collection(2, 1);
+		const elsewhere = collection(3, null);
+		vi.mocked(fetchAllCollections).mockResolvedValue([root, child, elsewhere]);
+		vi.mocked(fetchAllClasses).mockResolvedValue([
+			hubuumClass(10, child),
+			hubuumClass(20, elsewhere),
+		]);
+		vi.mocked(fetchClassObjectPage).mockResolvedValue({
+			items: [hubuumObject(100, 10, 2)],
+			nextCursor: null,
+			totalCount: 1,
+		});
+		vi.mocked(fetchCollectionClassObjects).mockImplementation(
+			async (classId, collectionId) =>
+				collectionId === 2 ? [hubuumObject(200, classId, collectionId)] : [],
+		);
+
+		const report = await fetchDeletionImpact({
+			kind: "collection",
+			resources: [{ id: 1, name: "collection-1" }],
+		});
+
+		expect(fetchClassObjectPage).toHaveBeenCalledWith(10);
+		expect(vi.mocked(fetchCollectionClassObjects).mock.calls.sort()).toEqual([
+			[20, 1],
+			[20, 2],
+		]);
+		expect(
+			report.sections.find((section) => section.key === "objects"),
+		).toMatchObject({
+			count: 2,
+			items: [
+				{ id: 100, href: "/objects/10/100", detail: "class-10" },
+				{ id: 200, href: "/objects/20/200", detail: "class-20" },
+			],
+		});
+	});
+});
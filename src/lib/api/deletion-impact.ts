@@ -0,0 +1,358 @@
+import { fetchClassObjectPage } from "@/lib/api/class-objects";
+import { fetchAllClasses } from "@/lib/api/classes";
+import { fetchAllCollections } from "@/lib/api/collections";
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import { fetchCollectionEventSubscriptions } from "@/lib/api/events";
+import type { EventSubscription } from "@/lib/api/generated/models";
+import {
+	fetchRelatedClassGraph,
+	fetchRelatedObjectGraph,
+} from "@/lib/api/related-graphs";
+import { fetchCollectionClassObjects } from "@/lib/api/object-collection-moves";
+import { fetchRemoteTargetsPage } from "@/lib/api/remote-targets";
+import { listReportTemplates } from "@/lib/api/reporting";
+import {
+	buildCollectionHierarchy,
+	getDescendantCollectionIds,
+} from "@/lib/collection-hierarchy";
+import {
+	DELETION_IMPACT_ITEM_LIMIT,
+	DELETION_IMPACT_RESOURCE_LIMIT,
+	type DeletionImpactItem,
+	type DeletionImpactReport,
+	type DeletionImpactScope,
+	type DeletionImpactSection,
+	type DeletionImpactTarget,
+	isScopedToDeletedResources,
+	isSubscriptionAffectedByDeletion,
+	toDeletionImpactSection,
+} from "@/lib/deletion-impact";
+
+export function deletionImpactQueryKey(target: DeletionImpactTarget) {
+	return [
+		"deletion-impact",
+		target.kind,
+		target.resources.map((resource) => resource.id),
+	] as const;
+}
+
+async function fetchClassObjectsSection(
+	classes: readonly { id: number; name: string }[],
+): Promise<DeletionImpactSection> {
+	let count = 0;
+	const items: DeletionImpactItem[] = [];
+	for (const classItem of classes) {
+		const page = await fetchClassObjectPage(classItem.id);
+		count += page.totalCount ?? page.items.length;
+		for (const object of page.items) {
+			if (items.length >= DELETION_IMPACT_ITEM_LIMIT) break;
+			items.push({
+				id: object.id,
+				name: object.name,
+				href: `/objects/${classItem.id}/${object.id}`,
+				detail: classItem.name,
+			});
+		}
+	}
+	return toDeletionImpactSection("objects", "Objects", items, count);
+}
+
+async function fetchCollectionObjectsSection(
+	scopedClasses: readonly { id: number; name: string }[],
+	otherClasses: readonly { id: number; name: string }[],
+	collectionIds: ReadonlySet<number>,
+): Promise<DeletionImpactSection> {
+	const section = await fetchClassObjectsSection(scopedClasses);
+	let count = section.count;
+	const items = [...section.items];
+	for (const classItem of otherClasses) {
+		for (const collectionId of collectionIds) {
+			const objects = await fetchCollectionClassObjects(
+				classItem.id,
+				collectionId,
+			);
+			count += objects.length;
+			for (const object of objects) {
+				if (items.length >= DELETION_IMPACT_ITEM_LIMIT) break;
+				items.push({
+					id: object.id,
+					name: object.name,
+					href: `/objects/${classItem.id}/${object.id}`,
+					detail: classItem.name,
+				});
+			}
+		}
+	}
+	return toDeletionImpactSection("objects", "Objects", items, count);
+}
+
+async function fetchScopedSections(
+	scope: DeletionImpactScope,
+	subscriptionCollectionIds: ReadonlySet<number>,
+): Promise<DeletionImpactSection[]> {
+	const sections: DeletionImpactSection[] = [];
+	if (scope.kind !== "object") {
+		const [templates, targets] = await Promise.all([
+			collectAllCursorPages(listReportTemplates),
+			collectAllCursorPages(async (cursor) => {
+				const page = await fetchRemoteTargetsPage({ cursor, limit: 250 });
+				return { items: page.targets, nextCursor: page.nextCursor };
+			}),
+		]);
+		sections.push(
+			toDeletionImpactSection(
+				"export_templates",
+				"Export templates",
+				templates
+					.filter((template) => isScopedToDeletedResources(template, scope))
+					.map((template) => ({
+						id: template.id,
+						name: template.name,
+						href: `/exports/templates/${template.id}`,
+						detail: template.kind,
+					})),
+			),
+			toDeletionImpactSection(
+				"remote_targets",
+				"Remote targets",
+				targets
+					.filter((target) => isScopedToDeletedResources(target, scope))
+					.map((target) => ({
+						id: target.id,
+						name: target.name,
+						href: "/admin/remote-targets",
+						detail: `${target.method} ${target.url_template}`,
+					})),
+			),
+		);
+	}
+
+	const subscriptions: EventSubscription[] = [];
+	for (const collectionId of subscriptionCollectionIds) {
+		subscriptions.push(
+			...(await fetchCollectionEventSubscriptions(collectionId)),
+		);
+	}
+	sections.push(
+		toDeletionImpactSection(
+			"event_subscriptions",
+			"Event subscriptions",
+			subscriptions
+				.filter((subscription) =>
+					isSubscriptionAffectedByDeletion(subscription, scope),
+				)
+				.map((subscription) => ({
+					id: subscription.id,
+					name: subscription.name,
+					href: `/collections/${subscription.collection_id}`,
+					detail: `${subscription.entity_types.join(", ") || "All entities"} · ${
+						subscription.actions.join(", ") || "all actions"
+					}`,
+				})),
+		),
+	);
+	return sections;
+}
+
+async function fetchClassDeletionSections(
+	target: DeletionImpactTarget,
+): Promise<DeletionImpactSection[]> {
+	const classIds = new Set(target.resources.map((resource) => resource.id));
+	const relationItems = new Map<number, DeletionImpactItem>();
+	for (const resource of target.resources) {
+		const graph = await fetchRelatedClassGraph(resource.id);
+		const classNames = new Map(
+			graph.classes.map((classItem) => [classItem.id, classItem.name]),
+		);
+		classNames.set(resource.id, resource.name);
+		const nameOf = (classId: number) =>
+			classNames.get(classId) ?? `Class #${classId}`;
+		for (const relation of graph.relations) {
+			if (
+				relation.from_hubuum_class_id !== resource.id &&
+				relation.to_hubuum_class_id !== resource.id
+			) {
+				continue;
+			}
+			relationItems.set(relation.id, {
+				id: relation.id,
+				name: `${nameOf(relation.from_hubuum_class_id)} → ${nameOf(
+					relation.to_hubuum_class_id,
+				)}`,
+				href: null,
+				detail: "Class relation and all of its object relations",
+			});
+		}
+	}
+
+	const scope: DeletionImpactScope = {
+		kind: "class",
+		resourceIds: classIds,
+		classIds,
+		collectionIds: new Set(),
+	};
+	return [
+		await fetchClassObjectsSection(target.resources),
+		toDeletionImpactSection("relations", "Class relations", [
+			...relationItems.values(),
+		]),
+		...(await fetchScopedSections(scope, collectResourceCollectionIds(target))),
+	];
+}
+
+async function fetchObjectDeletionSections(
+	target: DeletionImpactTarget,
+): Promise<DeletionImpactSection[]> {
+	const objectIds = new Set(target.resources.map((resource) => resource.id));
+	const relationItems = new Map<number, DeletionImpactItem>();
+	const relatedItems = new Map<number, DeletionImpactItem>();
+	for (const resource of target.resources) {
+		if (resource.classId === undefined) continue;
+		const graph = await fetchRelatedObjectGraph(resource.classId, resource.id, {
+			depthLimit: 1,
+			includeSelfClass: true,
+			ignoredClassIds: [],
+		});
+		const objectsById = new Map(
+			graph.objects.map((object) => [object.id, object]),
+		);
+		for (const relation of graph.relations) {
+			const otherId =
+				relation.from_hubuum_object_id === resource.id
+					? relation.to_hubuum_object_id
+					: relation.to_hubuum_object_id === resource.id
+						? relation.from_hubuum_object_id
+						: null;
+			if (otherId === null) continue;
+			const other = objectsById.get(otherId);
+			const otherName = other?.name ?? `Object #${otherId}`;
+			relationItems.set(relation.id, {
+				id: relation.id,
+				name:
+					relation.from_hubuum_object_id === resource.id
+						? `${resource.name} → ${otherName}`
+						: `${otherName} → ${resource.name}`,
+				href: null,
+				detail: "Object relation",
+			});
+			if (other && !objectIds.has(other.id)) {
+				relatedItems.set(other.id, {
+					id: other.id,
+					name: other.name,
+					href: `/objects/${other.hubuum_class_id}/${other.id}`,
+					detail: `Related to ${resource.name}`,
+				});
+			}
+		}
+	}
+
+	const scope: DeletionImpactScope = {
+		kind: "object",
+		resourceIds: objectIds,
+		classIds: new Set(),
+		collectionIds: new Set(),
+	};
+	return [
+		toDeletionImpactSection("relations", "Object relations", [
+			...relationItems.values(),
+		]),
+		toDeletionImpactSection("related_objects", "Related objects", [
+			...relatedItems.values(),
+		]),
+		...(await fetchScopedSections(scope, collectResourceCollectionIds(target))),
+	];
+}
+
+async function fetchCollectionDeletionSections(
+	target: DeletionImpactTarget,
+): Promise<DeletionImpactSection[]> {
+	const [collections, classes] = await Promise.all([
+		fetchAllCollections(),
+		fetchAllClasses(),
+	]);
+	const hierarchy = buildCollectionHierarchy(collections);
+	const deletedIds = new Set(target.resources.map((resource) => resource.id));
+	const collectionIds = new Set(deletedIds);
+	for (const resource of target.resources) {
+		for (const id of getDescendantCollectionIds(
+			resource.id,
+			hierarchy.childrenByParentId,
+		)) {
+			collectionIds.add(id);
+		}
+	}
+	const scopedClasses = classes.filter((classItem) =>
+		collectionIds.has(classItem.collection.id),
+	);
+
+	const scope: DeletionImpactScope = {
+		kind: "collection",
+		resourceIds: deletedIds,
+		classIds: new Set(scopedClasses.map((classItem) => classItem.id)),
+		collectionIds,
+	};
+	return [
+		toDeletionImpactSection(
+			"child_collections",
+			"Child collections",
+			[...collectionIds]
+				.filter((id) => !deletedIds.has(id))
+				.map((id) => ({
+					id,
+					name: hierarchy.byId.get(id)?.name ?? `Collection #${id}`,
+					href: `/collections/${id}`,
+					detail: `Inside ${
+						hierarchy.byId.get(
+							hierarchy.byId.get(id)?.parent_collection_id ?? -1,
+						)?.name ?? "a deleted collection"
+					}`,
+				})),
+		),
+		toDeletionImpactSection(
+			"classes",
+			"Classes",
+			scopedClasses.map((classItem) => ({
+				id: classItem.id,
+				name: classItem.name,
+				href: `/classes/${classItem.id}`,
+				detail: classItem.collection.name,
+			})),
+		),
+		await fetchCollectionObjectsSection(
+			scopedClasses,
+			classes.filter((classItem) => !scope.classIds.has(classItem.id)),
+			collectionIds,
+		),
+		...(await fetchScopedSections(scope, collectionIds)),
+	];
+}
+
+function collectResourceCollectionIds(
+	target: DeletionImpactTarget,
+): Set<number> {
+	return new Set(
+		target.resources.flatMap((resource) =>
+			resource.collectionId === undefined ? [] : [resource.collectionId],
+		),
+	);
+}
+
+export async function fetchDeletionImpact(
+	target: DeletionImpactTarget,
+): Promise<DeletionImpactReport> {
+	const checked = target.resources.slice(0, DELETION_IMPACT_RESOURCE_LIMIT);
+	const checkedTarget = { ...target, resources: checked };
+	const sections =
+		target.kind === "class"
+			? await fetchClassDeletionSections(checkedTarget)
+			: target.kind === "object"
+				? await fetchObjectDeletionSections(checkedTarget)
+				: await fetchCollectionDeletionSections(checkedTarget);
+
+	return {
+		kind: target.kind,
+		checked,
+		skipped: target.resources.length - checked.length,
+		sections,
+	};
+}
@@ -1,5 +1,8 @@
 import { getApiErrorMessage } from "@/lib/api/errors";
-import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import {
+	collectAllCursorPages,
+	parseCountHeader,
+} from "@/lib/api/cursor-pages";
 import {
 	deleteApiV1EventSinksBySinkId,
 	getApiV1ClassesByClassIdByObjectIdEvents,
@@ -12,6 +15,12 @@ import {
 	getApiV1EventDeliveriesHealth,
 	getApiV1EventSinks,
 	getApiV1Events,
+	getApiV1ExportTemplatesByTemplateIdEvents,
+	getApiV1ExportTemplatesByTemplateIdHistory,
+	getApiV1ExportTemplatesByTemplateIdHistoryAsOf,
+	getApiV1RemoteTargetsByRemoteTargetIdHistory,
+	getApiV1RemoteTargetsByRemoteTargetIdHistoryAsOf,
+	getApiV1RemoteTargetsByTargetIdEvents,
 	getApiV1CollectionsByCollectionIdEventSubscriptions,
 	getApiV1CollectionsByCollectionIdEvents,
 	getApiV1CollectionsByCollectionIdHistory,
@@ -34,6 +43,8 @@ import type {
 	HistoryResponseHubuumClassHistory,
 	HistoryResponseHubuumObjectHistory,
 	HistoryResponseCollectionHistory,
+	HistoryResponseExportTemplateHistory,
+	HistoryResponseRemoteTargetHistory,
 	NewEventSink,
 	NewEventSubscription,
 	UpdateEventSink,
@@ -44,7 +55,9 @@ export type EventRecord = EventResponse;
 export type HistoryRecord =
 	| HistoryResponseHubuumClassHistory
 	| HistoryResponseHubuumObjectHistory
-	| HistoryResponseCollectionHistory;
+	| HistoryResponseCollectionHistory
+	| HistoryResponseExportTemplateHistory
+	| HistoryResponseRemoteTargetHistory;
 
 export type PageResult<T> = {
 	items: T[];
@@ -55,7 +68,9 @@ export type PageResult<T> = {
 export type ResourceEventScope =
 	| { type: "collection"; collectionId: number }
 	| { type: "class"; classId: number }
-	| { type: "object"; classId: number; objectId: number };
+	| { type: "object"; classId: number; objectId: number }
+	| { type: "export-template"; templateId: number }
+	| { type: "remote-target"; remoteTargetId: number };
 
 export type EventListOptions = GetApiV1EventsParams;
 
@@ -65,15 +80,6 @@ export type HistoryListOptions = {
 	sort?: string;
 };
 
-function parseCountHeader(value: string | null): number | null {
-	if (!value) {
-		return null;
-	}
-
-	const parsed = Number.parseInt(value, 10);
-	return Number.isFinite(parsed) ? parsed : null;
-}
-
 function pageFromResponse<T>(data: T[], headers: Headers): PageResult<T> {
 	return {
 		items: data,
@@ -152,6 +158,36 @@ export async function fetchResourceEventsPage(
 		return pageFromResponse(response.data as EventRecord[], response.headers);
 	}
 
+	if (scope.type === "export-template") {
+		const response = await getApiV1ExportTemplatesByTemplateIdEvents(
+			scope.templateId,
+			params,
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load export template events.",
+		);
+		return pageFromResponse(response.data as EventRecord[], response.headers);
+	}
+
+	if (scope.type === "remote-target") {
+		const response = await getApiV1RemoteTargetsByTargetIdEvents(
+			scope.remoteTargetId,
+			params,
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load remote target events.",
+		);
+		return pageFromResponse(response.data as EventRecord[], response.headers);
+	}
+
 	const response = await getApiV1ClassesByClassIdByObjectIdEvents(
 		scope.classId,
 		scope.objectId,
@@ -207,6 +243,36 @@ export async function fetchResourceHistoryPage(
 		return pageFromResponse(response.data as HistoryRecord[], response.headers);
 	}
 
+	if (scope.type === "export-template") {
+		const response = await getApiV1ExportTemplatesByTemplateIdHistory(
+			scope.templateId,
+			params,
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load export template history.",
+		);
+		return pageFromResponse(response.data as HistoryRecord[], response.headers);
+	}
+
+	if (scope.type === "remote-target") {
+		const response = await getApiV1RemoteTargetsByRemoteTargetIdHistory(
+			scope.remoteTargetId,
+			params,
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load remote target history.",
+		);
+		return pageFromResponse(response.data as HistoryRecord[], response.headers);
+	}
+
 	const response = await getApiV1ClassesByClassIdByObjectIdHistory(
 		scope.classId,
 		scope.objectId,
@@ -256,6 +322,36 @@ export async function fetchResourceHistoryAsOf(
 		return response.data as HistoryRecord;
 	}
 
+	if (scope.type === "export-template") {
+		const response = await getApiV1ExportTemplatesByTemplateIdHistoryAsOf(
+			scope.templateId,
+			{ at },
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load export template snapshot.",
+		);
+		return response.data as HistoryRecord;
+	}
+
+	if (scope.type === "remote-target") {
+		const response = await getApiV1RemoteTargetsByRemoteTargetIdHistoryAsOf(
+			scope.remoteTargetId,
+			{ at },
+			{ credentials: "include" },
+		);
+		assertStatus(
+			response.status,
+			response.data,
+			200,
+			"Failed to load remote target snapshot.",
+		);
+		return response.data as HistoryRecord;
+	}
+
 	const response = await getApiV1ClassesByClassIdByObjectIdHistoryAsOf(
 		scope.classId,
 		scope.objectId,
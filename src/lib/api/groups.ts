@@ -0,0 +1,38 @@
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import {
+	getApiV1IamGroups,
+	getApiV1IamMeGroups,
+} from "@/lib/api/generated/client";
+import type { ConsoleGroup } from "@/lib/identity-scopes";
+
+export async function fetchAllGroups(): Promise<ConsoleGroup[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const response = await getApiV1IamGroups(
+			{ cursor, include_total: false, limit: 250 },
+			{ credentials: "include" },
+		);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(response.data, "Failed to load groups."),
+			);
+		}
+		return {
+			items: response.data,
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
+
+export async function fetchCurrentUserGroups(): Promise<ConsoleGroup[]> {
+	const response = await getApiV1IamMeGroups(
+		{ include_total: false },
+		{ credentials: "include" },
+	);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to load your groups."),
+		);
+	}
+	return response.data;
+}
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type {
+	HistoryResponseHubuumClassHistory,
+	HistoryResponseHubuumObjectHistory,
+} from "@/lib/api/generated/models";
+import {
+	getApiV1ClassesByClassId,
+	getApiV1ClassesByClassIdByObjectId,
+	patchApiV1ClassesByClassId,
+	patchApiV1ClassesByClassIdByObjectId,
+	patchApiV1ClassesByClassIdByObjectIdData,
+} from "@/lib/api/generated/client";
+import {
+	HistoryRestoreConflictError,
+	restoreHistoryVersion,
+} from "@/lib/api/history-restore";
+
+const complete = vi.fn();
+
+vi.mock("@/lib/api/generated/client", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("@/lib/api/generated/client")>();
+	return {
+		...actual,
+		getApiV1ClassesByClassId: vi.fn(),
+		getApiV1ClassesByClassIdByObjectId: vi.fn(),
+		patchApiV1ClassesByClassId: vi.fn(),
+		patchApiV1ClassesByClassIdByObjectId: vi.fn(),
+		patchApiV1ClassesByClassIdByObjectIdData: vi.fn(),
+	};
+});
+
+vi.mock("@/lib/operation-idempotency", () => ({
+	acquireOperationIdempotencyKey: vi.fn(async () => ({
+		key: "history-restore-key",
+		complete,
+	})),
+}));
+
+const classVersion: HistoryResponseHubuumClassHistory = {
+	history_id: 12,
+	op: "update",
+	valid_from: "2026-01-01T00:00:00Z",
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+	provenance: { actor: {} },
+	id: 4,
+	name: "Hosts",
+	description: "Physical hosts",
+	collection_id: 2,
+	json_schema: null,
+	validate_schema: false,
+	revision: 2,
+};
+
+const objectVersion: HistoryResponseHubuumObjectHistory = {
+	history_id: 20,
+	op: "update",
+	valid_from: "2026-01-01T00:00:00Z",
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+	provenance: { actor: {} },
+	id: 7,
+	name: "web-01",
+	description: "",
+	collection_id: 2,
+	hubuum_class_id: 4,
+	data: { cpu: 4 },
+	revision: 2,
+};
+
+function mockCurrentClass(revision: number, description: string) {
+	vi.mocked(getApiV1ClassesByClassId).mockResolvedValue({
+		data: {
+			id: 4,
+			name: "Hosts",
+			description,
+			collection_id: 2,
+			json_schema: null,
+			validate_schema: false,
+			revision,
+		} as never,
+		headers: new Headers({ etag: `"class:4:${revision}"` }),
+		status: 200,
+	});
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe("restoreHistoryVersion", () => {
+	it("updates only changed fields with the reviewed revision's ETag", async () => {
+		mockCurrentClass(5, "Hosts and VMs");
+		vi.mocked(patchApiV1ClassesByClassId).mockResolvedValue({
+			data: {} as never,
+			headers: new Headers(),
+			status: 200,
+		});
+
+		await restoreHistoryVersion({ type: "class", classId: 4 }, classVersion, 5);
+
+		expect(patchApiV1ClassesByClassId).toHaveBeenCalledWith(
+			4,
+			{ description: "Physical hosts" },
+			{
+				credentials: "include",
+				headers: {
+					"If-Match": '"class:4:5"',
+					"Idempotency-Key": "history-restore-key",
+				},
+			},
+		);
+		expect(complete).toHaveBeenCalledOnce();
+	});
+
+	it("refuses to restore when the resource moved past the reviewed revision", async () => {
+		mockCurrentClass(6, "Hosts and VMs");
+
+		await expect(
+			restoreHistoryVersion({ type: "class", classId: 4 }, classVersion, 5),
+		).rejects.toBeInstanceOf(HistoryRestoreConflictError);
+		expect(patchApiV1ClassesByClassId).not.toHaveBeenCalled();
+	});
+
+	it("maps precondition failures to conflicts", async () => {
+		mockCurrentClass(5, "Hosts and VMs");
+		vi.mocked(patchApiV1ClassesByClassId).mockResolvedValue({
+			data: { message: "Revision mismatch" } as never,
+			headers: new Headers(),
+			status: 412,
+		});
+
+		await expect(
+			restoreHistoryVersion({ type: "class", classId: 4 }, classVersion, 5),
+		).rejects.toThrow("Revision mismatch");
+		expect(complete).not.toHaveBeenCalled();
+	});
+
+	it("restores object data through a guarded JSON Patch", async () => {
+		vi.mocked(getApiV1ClassesByClassIdByObjectId).mockResolvedValue({
+			data: {
+				id: 7,
+				name: "web-01",
+				description: "",
+				collection_id: 2,
+				hubuum_class_id: 4,
+				data: { cpu: 8 },
+				revision: 3,
+			} as never,
+			headers: new Headers({ etag: '"object:7:3"' }),
+			status: 200,
+		});
+		vi.mocked(patchApiV1ClassesByClassIdByObjectIdData).mockResolvedValue({
+			data: { id: 7, revision: 4, data: { cpu: 4 } } as never,
+			headers: new Headers(),
+			status: 200,
+		});
+
+		await restoreHistoryVersion(
+			{ type: "object", classId: 4, objectId: 7 },
+			objectVersion,
+			3,
+		);
+
+		expect(patchApiV1ClassesByClassIdByObjectIdData).toHaveBeenCalledWith(
+			4,
+			7,
+			[
+				{ op: "test", path: "/cpu", value: 8 },
+				{ op: "replace", path: "/cpu", value: 4 },
+			],
+			expect.objectContaining({
+				headers: expect.objectContaining({ "If-Match": '"object:7:3"' }),
+			}),
+		);
+		expect(patchApiV1ClassesByClassIdByObjectId).not.toHaveBeenCalled();
+	});
+});
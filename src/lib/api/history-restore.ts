@@ -0,0 +1,212 @@
+import { getApiErrorMessage } from "@/lib/api/errors";
+import type { HistoryRecord, ResourceEventScope } from "@/lib/api/events";
+import {
+	getApiV1ClassesByClassId,
+	getApiV1ClassesByClassIdByObjectId,
+	getApiV1CollectionsByCollectionId,
+	getApiV1ExportTemplatesByTemplateId,
+	getApiV1RemoteTargetsByTargetId,
+	patchApiV1ClassesByClassId,
+	patchApiV1ClassesByClassIdByObjectId,
+	patchApiV1CollectionsByCollectionId,
+	patchApiV1ExportTemplatesByTemplateId,
+	patchApiV1RemoteTargetsByTargetId,
+} from "@/lib/api/generated/client";
+import {
+	buildObjectDataPatchPlan,
+	patchObjectDataAtRevision,
+} from "@/lib/api/object-data-patch";
+import {
+	buildHistoryRestorePlan,
+	type HistoryResourceKind,
+} from "@/lib/history-versions";
+import { acquireOperationIdempotencyKey } from "@/lib/operation-idempotency";
+
+export type HistoryRestoreCurrent = {
+	revision: number;
+	etag: string | null;
+	state: Record<string, unknown>;
+};
+
+export class HistoryRestoreConflictError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "HistoryRestoreConflictError";
+	}
+}
+
+type ResourceResponse = {
+	data: unknown;
+	status: number;
+	headers: Headers;
+};
+
+const RESOURCE_LABELS: Record<HistoryResourceKind, string> = {
+	object: "object",
+	class: "class",
+	collection: "collection",
+	"export-template": "export template",
+	"remote-target": "remote target",
+};
+
+async function getCurrentResource(
+	scope: ResourceEventScope,
+): Promise<ResourceResponse> {
+	const options = { credentials: "include" } as const;
+	switch (scope.type) {
+		case "object":
+			return getApiV1ClassesByClassIdByObjectId(
+				scope.classId,
+				scope.objectId,
+				undefined,
+				options,
+			);
+		case "class":
+			return getApiV1ClassesByClassId(scope.classId, options);
+		case "collection":
+			return getApiV1CollectionsByCollectionId(scope.collectionId, options);
+		case "export-template":
+			return getApiV1ExportTemplatesByTemplateId(scope.templateId, options);
+		case "remote-target":
+			return getApiV1RemoteTargetsByTargetId(scope.remoteTargetId, options);
+	}
+}
+
+async function patchResource(
+	scope: ResourceEventScope,
+	update: Record<string, unknown>,
+	options: RequestInit,
+): Promise<ResourceResponse> {
+	switch (scope.type) {
+		case "object":
+			return patchApiV1ClassesByClassIdByObjectId(
+				scope.classId,
+				scope.objectId,
+				update,
+				options,
+			);
+		case "class":
+			return patchApiV1ClassesByClassId(scope.classId, update, options);
+		case "collection":
+			return patchApiV1CollectionsByCollectionId(
+				scope.collectionId,
+				update,
+				options,
+			);
+		case "export-template":
+			return patchApiV1ExportTemplatesByTemplateId(
+				scope.templateId,
+				update,
+				options,
+			);
+		case "remote-target":
+			return patchApiV1RemoteTargetsByTargetId(
+				scope.remoteTargetId,
+				update,
+				options,
+			);
+	}
+}
+
+export async function fetchHistoryRestoreCurrent(
+	scope: ResourceEventScope,
+): Promise<HistoryRestoreCurrent> {
+	const label = RESOURCE_LABELS[scope.type];
+	const response = await getCurrentResource(scope);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, `Failed to load the current ${label}.`),
+		);
+	}
+
+	const state = response.data as Record<string, unknown>;
+	return {
+		revision: Number(state.revision),
+		etag: response.headers.get("ETag"),
+		state,
+	};
+}
+
+async function applyRestoreUpdate(
+	scope: ResourceEventScope,
+	record: HistoryRecord,
+	current: HistoryRestoreCurrent,
+	update: Record<string, unknown>,
+): Promise<void> {
+	const label = RESOURCE_LABELS[scope.type];
+	const idempotency = await acquireOperationIdempotencyKey("history-restore", {
+		scope,
+		historyId: record.history_id,
+		revision: current.revision,
+		update,
+	});
+	const response = await patchResource(scope, update, {
+		credentials: "include",
+		headers: {
+			...(current.etag ? { "If-Match": current.etag } : {}),
+			"Idempotency-Key": idempotency.key,
+		},
+	});
+	if (response.status === 409 || response.status === 412) {
+		throw new HistoryRestoreConflictError(
+			getApiErrorMessage(
+				response.data,
+				`The ${label} changed before the restore could be applied.`,
+			),
+		);
+	}
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, `Failed to restore the ${label}.`),
+		);
+	}
+
+	idempotency.complete();
+}
+
+/**
+ * Restores the restorable fields of a stored history version onto the live
+ * resource, refusing when the resource moved past the revision that was
+ * reviewed. Object data goes through a guarded JSON Patch; every other field
+ * is sent as a regular update with `If-Match`.
+ */
+export async function restoreHistoryVersion(
+	scope: ResourceEventScope,
+	record: HistoryRecord,
+	expectedRevision: number,
+): Promise<void> {
+	const label = RESOURCE_LABELS[scope.type];
+	let current = await fetchHistoryRestoreCurrent(scope);
+	if (current.revision !== expectedRevision) {
+		throw new HistoryRestoreConflictError(
+			`The ${label} changed after the restore preview (revision ${expectedRevision} is now ${current.revision}).`,
+		);
+	}
+
+	const plan = buildHistoryRestorePlan(scope.type, current.state, record);
+	if (plan.data && scope.type === "object") {
+		const updated = await patchObjectDataAtRevision(
+			scope.classId,
+			scope.objectId,
+			{
+				revision: current.revision,
+				nextData: plan.data.next,
+				patch: buildObjectDataPatchPlan(plan.data.current, plan.data.next)
+					.patch,
+			},
+		);
+		if (Object.keys(plan.update).length === 0) {
+			return;
+		}
+		current = await fetchHistoryRestoreCurrent(scope);
+		if (current.revision !== updated.revision) {
+			throw new HistoryRestoreConflictError(
+				`The ${label} data was restored, but the ${label} changed again before its other fields could be restored.`,
+			);
+		}
+	}
+
+	if (Object.keys(plan.update).length > 0) {
+		await applyRestoreUpdate(scope, record, current, plan.update);
+	}
+}
@@ -1,3 +1,7 @@
+import {
+	collectAllCursorPages,
+	parseCountHeader,
+} from "@/lib/api/cursor-pages";
 import { expectArrayPayload, getApiErrorMessage } from "@/lib/api/errors";
 import { hubuumBffPath } from "@/lib/api/frontend";
 import type {
@@ -44,12 +48,6 @@ function parsePositiveHeader(value: string | null): number | null {
 	return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
 }
 
-function parseCountHeader(value: string | null): number | null {
-	if (value === null) return null;
-	const parsed = Number.parseInt(value, 10);
-	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
-}
-
 export function buildObjectAggregateSearchParams(
 	request: Omit<ObjectAggregateRequest, "classId">,
 ): URLSearchParams {
@@ -97,3 +95,22 @@ export async function fetchObjectAggregates(
 		pageLimit: parsePositiveHeader(response.headers.get("X-Page-Limit")),
 	};
 }
+
+export async function fetchObjectAggregateParentRows(
+	request: Omit<ObjectAggregateRequest, "cursor">,
+): Promise<ObjectAggregateRow[]> {
+	const rows: ObjectAggregateRow[] = [];
+	for (let depth = 1; depth < request.groupBy.length; depth += 1) {
+		rows.push(
+			...(await collectAllCursorPages(async (cursor) => {
+				const page = await fetchObjectAggregates({
+					...request,
+					groupBy: request.groupBy.slice(0, depth),
+					cursor,
+				});
+				return { items: page.rows, nextCursor: page.nextCursor };
+			})),
+		);
+	}
+	return rows;
+}
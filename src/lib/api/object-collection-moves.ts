@@ -0,0 +1,84 @@
+import { collectAllCursorPages } from "@/lib/api/cursor-pages";
+import { expectArrayPayload, getApiErrorMessage } from "@/lib/api/errors";
+import { frontendApiPath } from "@/lib/api/frontend";
+import {
+	getApiV1CollectionsByCollectionIdPermissionsEffectivePrincipalByPrincipalId,
+	patchApiV1ClassesByClassIdByObjectId,
+} from "@/lib/api/generated/client";
+import type { HubuumObject } from "@/lib/api/generated/models";
+
+const COLLECTION_OBJECT_PAGE_LIMIT = 250;
+
+export async function fetchCollectionClassObjects(
+	classId: number,
+	collectionId: number,
+): Promise<HubuumObject[]> {
+	return collectAllCursorPages(async (cursor) => {
+		const params = new URLSearchParams({
+			collection_id__equals: String(collectionId),
+			include_total: "false",
+			limit: String(COLLECTION_OBJECT_PAGE_LIMIT),
+			sort: "name.asc",
+		});
+		if (cursor) params.set("cursor", cursor);
+
+		const response = await fetch(
+			`${frontendApiPath(`/classes/${classId}/objects`)}?${params.toString()}`,
+			{ credentials: "include" },
+		);
+		const payload: unknown = await response.json().catch(() => null);
+		if (response.status !== 200) {
+			throw new Error(
+				getApiErrorMessage(payload, "Failed to load collection objects."),
+			);
+		}
+
+		return {
+			items: expectArrayPayload<HubuumObject>(payload, "collection objects"),
+			nextCursor: response.headers.get("X-Next-Cursor"),
+		};
+	});
+}
+
+export async function fetchCanCreateObjectsInCollection(
+	collectionId: number,
+	principalId: number,
+): Promise<boolean> {
+	const response =
+		await getApiV1CollectionsByCollectionIdPermissionsEffectivePrincipalByPrincipalId(
+			collectionId,
+			principalId,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				response.data,
+				"Failed to check access to the destination collection.",
+			),
+		);
+	}
+
+	return response.data.some((entry) => entry.permission.has_create_object);
+}
+
+export async function moveObjectToCollection(
+	objectItem: Pick<HubuumObject, "id" | "hubuum_class_id">,
+	collectionId: number,
+): Promise<HubuumObject> {
+	const response = await patchApiV1ClassesByClassIdByObjectId(
+		objectItem.hubuum_class_id,
+		objectItem.id,
+		{ collection_id: collectionId },
+		{ credentials: "include" },
+	);
+
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to move object."),
+		);
+	}
+
+	return response.data;
+}
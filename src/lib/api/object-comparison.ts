@@ -0,0 +1,97 @@
+import { fetchExpandedClass } from "@/lib/api/classes";
+import { parseCountHeader } from "@/lib/api/cursor-pages";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { hubuumBffPath } from "@/lib/api/frontend";
+import { getApiV1ClassesByClassIdByObjectId } from "@/lib/api/generated/client";
+import type { HubuumObjectComputedResponse } from "@/lib/api/generated/models";
+import type { ObjectComparisonItem } from "@/lib/object-comparison";
+import {
+	buildRelatedObjectSearchParams,
+	DEFAULT_RELATED_OBJECT_DEPTH_LIMIT,
+} from "@/lib/object-relation-summary";
+
+export type ComparedObject = {
+	object: HubuumObjectComputedResponse;
+	className: string;
+	computedValues: Record<string, unknown>;
+	directRelationCount: number | null;
+	reachableRelationCount: number | null;
+};
+
+async function fetchRelatedObjectCount(
+	classId: number,
+	objectId: number,
+	depthLimit: number,
+): Promise<number | null> {
+	const params = buildRelatedObjectSearchParams({
+		depthLimit,
+		includeSelfClass: true,
+		ignoredClassIds: [],
+		limit: 1,
+		sort: "id.asc",
+	});
+	params.set("include_total", "true");
+	const response = await fetch(
+		`${hubuumBffPath(`/api/v1/classes/${classId}/objects/${objectId}/related/objects`)}?${params.toString()}`,
+		{ credentials: "include" },
+	);
+	if (response.status !== 200) {
+		const payload: unknown = await response.json().catch(() => null);
+		throw new Error(
+			getApiErrorMessage(payload, "Failed to count related objects."),
+		);
+	}
+
+	return parseCountHeader(response.headers.get("X-Total-Count"));
+}
+
+function collectComputedValues(
+	objectItem: HubuumObjectComputedResponse,
+): Record<string, unknown> {
+	const values: Record<string, unknown> = {
+		...(objectItem.computed?.shared.values ?? {}),
+	};
+	for (const [key, value] of Object.entries(
+		objectItem.computed?.personal?.values ?? {},
+	)) {
+		values[`personal.${key}`] = value;
+	}
+	return values;
+}
+
+export async function fetchComparedObject({
+	classId,
+	objectId,
+}: ObjectComparisonItem): Promise<ComparedObject> {
+	const response = await getApiV1ClassesByClassIdByObjectId(
+		classId,
+		objectId,
+		{ include: "computed" },
+		{ credentials: "include" },
+	);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, `Failed to load object #${objectId}.`),
+		);
+	}
+
+	const objectItem = response.data as HubuumObjectComputedResponse;
+	const [classItem, directRelationCount, reachableRelationCount] =
+		await Promise.all([
+			fetchExpandedClass(classId),
+			fetchRelatedObjectCount(classId, objectId, 1),
+			fetchRelatedObjectCount(
+				classId,
+				objectId,
+				DEFAULT_RELATED_OBJECT_DEPTH_LIMIT,
+			),
+		]);
+
+	return {
+		object: objectItem,
+		className: classItem.name,
+		computedValues: collectComputedValues(objectItem),
+		directRelationCount,
+		reachableRelationCount,
+	};
+}
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	getApiV1ClassesByClassIdByObjectId,
+	patchApiV1ClassesByClassIdByObjectIdData,
+} from "@/lib/api/generated/client";
+import {
+	ObjectDataPatchConflictError,
+	patchObjectDataAtRevision,
+} from "@/lib/api/object-data-patch";
+
+const complete = vi.fn();
+
+vi.mock("@/lib/api/generated/client", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("@/lib/api/generated/client")>();
+	return {
+		...actual,
+		getApiV1ClassesByClassIdByObjectId: vi.fn(),
+		patchApiV1ClassesByClassIdByObjectIdData: vi.fn(),
+	};
+});
+
+vi.mock("@/lib/operation-idempotency", () => ({
+	acquireOperationIdempotencyKey: vi.fn(async () => ({
+		key: "object-data-patch-key",
+		complete,
+	})),
+}));
+
+const patch = [
+	{ op: "test" as const, path: "/rack", value: "A1" },
+	{ op: "replace" as const, path: "/rack", value: "B2" },
+];
+
+function mockCurrentObject(revision: number, data: unknown) {
+	vi.mocked(getApiV1ClassesByClassIdByObjectId).mockResolvedValue({
+		data: { id: 7, revision, data } as never,
+		headers: new Headers({ etag: `"object:7:${revision}"` }),
+		status: 200,
+	});
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe("object data revision patches", () => {
+	it("sends the current ETag and an idempotency key when the revision matches", async () => {
+		mockCurrentObject(3, { rack: "A1" });
+		vi.mocked(patchApiV1ClassesByClassIdByObjectIdData).mockResolvedValue({
+			data: { id: 7, revision: 4, data: { rack: "B2" } } as never,
+			headers: new Headers(),
+			status: 200,
+		});
+
+		await expect(
+			patchObjectDataAtRevision(11, 7, {
+				revision: 3,
+				nextData: { rack: "B2" },
+				patch,
+			}),
+		).resolves.toMatchObject({ revision: 4 });
+		expect(patchApiV1ClassesByClassIdByObjectIdData).toHaveBeenCalledWith(
+			11,
+			7,
+			patch,
+			{
+				credentials: "include",
+				headers: {
+					"If-Match": '"object:7:3"',
+					"Idempotency-Key": "object-data-patch-key",
+				},
+			},
+		);
+		expect(complete).toHaveBeenCalledOnce();
+	});
+
+	it("reports a conflict without patching when the object moved on", async () => {
+		mockCurrentObject(5, { rack: "C3" });
+
+		await expect(
+			patchObjectDataAtRevision(11, 7, {
+				revision: 3,
+				nextData: { rack: "B2" },
+				patch,
+			}),
+		).rejects.toBeInstanceOf(ObjectDataPatchConflictError);
+		expect(patchApiV1ClassesByClassIdByObjectIdData).not.toHaveBeenCalled();
+	});
+
+	it("treats an already applied edit as a success on retry", async () => {
+		mockCurrentObject(4, { rack: "B2" });
+
+		await expect(
+			patchObjectDataAtRevision(11, 7, {
+				revision: 3,
+				nextData: { rack: "B2" },
+				patch,
+			}),
+		).resolves.toMatchObject({ revision: 4 });
+		expect(patchApiV1ClassesByClassIdByObjectIdData).not.toHaveBeenCalled();
+	});
+
+	it("classifies failed preconditions as conflicts", async () => {
+		mockCurrentObject(3, { rack: "A1" });
+		vi.mocked(patchApiV1ClassesByClassIdByObjectIdData).mockResolvedValue({
+			data: { message: "Precondition failed" } as never,
+			headers: new Headers(),
+			status: 412,
+		});
+
+		await expect(
+			patchObjectDataAtRevision(11, 7, {
+				revision: 3,
+				nextData: { rack: "B2" },
+				patch,
+			}),
+		).rejects.toBeInstanceOf(ObjectDataPatchConflictError);
+		expect(complete).not.toHaveBeenCalled();
+	});
+});
@@ -1,11 +1,15 @@
 import { getApiErrorMessage } from "@/lib/api/errors";
-import { patchApiV1ClassesByClassIdByObjectIdData } from "@/lib/api/generated/client";
+import {
+	getApiV1ClassesByClassIdByObjectId,
+	patchApiV1ClassesByClassIdByObjectIdData,
+} from "@/lib/api/generated/client";
 import type {
 	HubuumObject,
 	ObjectDataPatchDocument,
 	ObjectDataPatchDocumentItem,
 } from "@/lib/api/generated/models";
 import type { ObjectPropertyPathSegment } from "@/lib/object-property-entries";
+import { acquireOperationIdempotencyKey } from "@/lib/operation-idempotency";
 
 export const MAX_OBJECT_DATA_PATCH_OPERATIONS = 1_000;
 
@@ -22,6 +26,19 @@ export type ObjectDataPatchPlan = {
 	mode: "granular" | "whole-document";
 };
 
+export type ObjectDataRevisionPatch = {
+	revision: number;
+	nextData: unknown;
+	patch: ObjectDataPatchDocument;
+};
+
+export class ObjectDataPatchConflictError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ObjectDataPatchConflictError";
+	}
+}
+
 function escapeJsonPointerSegment(segment: string): string {
 	return segment.replaceAll("~", "~0").replaceAll("/", "~1");
 }
@@ -189,3 +206,61 @@ export async function patchObjectData(
 	}
 	return response.data;
 }
+
+export async function patchObjectDataAtRevision(
+	classId: number,
+	objectId: number,
+	{ revision, nextData, patch }: ObjectDataRevisionPatch,
+): Promise<HubuumObject> {
+	const current = await getApiV1ClassesByClassIdByObjectId(
+		classId,
+		objectId,
+		undefined,
+		{ credentials: "include" },
+	);
+	if (current.status !== 200) {
+		throw new Error(getApiErrorMessage(current.data, "Failed to load object."));
+	}
+	if (current.data.revision !== revision) {
+		if (jsonValuesEqual(current.data.data, nextData)) {
+			return current.data;
+		}
+		throw new ObjectDataPatchConflictError(
+			`Object changed after the preview (revision ${revision} is now ${current.data.revision}).`,
+		);
+	}
+
+	const etag = current.headers.get("ETag");
+	const idempotency = await acquireOperationIdempotencyKey(
+		"object-data-patch",
+		{ classId, objectId, revision, patch },
+	);
+	const response = await patchApiV1ClassesByClassIdByObjectIdData(
+		classId,
+		objectId,
+		patch,
+		{
+			credentials: "include",
+			headers: {
+				...(etag ? { "If-Match": etag } : {}),
+				"Idempotency-Key": idempotency.key,
+			},
+		},
+	);
+	if (response.status === 409 || response.status === 412) {
+		throw new ObjectDataPatchConflictError(
+			getApiErrorMessage(
+				response.data,
+				"Object data changed before this edit could be applied.",
+			),
+		);
+	}
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to update object data."),
+		);
+	}
+
+	idempotency.complete();
+	return response.data;
+}
@@ -0,0 +1,63 @@
+import { getApiErrorMessage } from "@/lib/api/errors";
+import {
+	getApiV1ClassesByClassIdByFromObjectIdRelationsByToClassIdByToObjectId,
+	postApiV1ClassesByClassIdByFromObjectIdRelationsByToClassIdByToObjectId,
+} from "@/lib/api/generated/client";
+import type { HubuumObject } from "@/lib/api/generated/models";
+
+type RelationEndpoint = Pick<HubuumObject, "id" | "hubuum_class_id">;
+
+async function fetchDirectedRelationExists(
+	from: RelationEndpoint,
+	to: RelationEndpoint,
+): Promise<boolean> {
+	const response =
+		await getApiV1ClassesByClassIdByFromObjectIdRelationsByToClassIdByToObjectId(
+			from.hubuum_class_id,
+			from.id,
+			to.hubuum_class_id,
+			to.id,
+			{ credentials: "include" },
+		);
+
+	if (response.status === 404) {
+		return false;
+	}
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to check existing relation."),
+		);
+	}
+
+	return true;
+}
+
+export async function fetchObjectRelationExists(
+	from: RelationEndpoint,
+	to: RelationEndpoint,
+): Promise<boolean> {
+	return (
+		(await fetchDirectedRelationExists(from, to)) ||
+		(await fetchDirectedRelationExists(to, from))
+	);
+}
+
+export async function createObjectRelation(
+	from: RelationEndpoint,
+	to: RelationEndpoint,
+): Promise<void> {
+	const response =
+		await postApiV1ClassesByClassIdByFromObjectIdRelationsByToClassIdByToObjectId(
+			from.hubuum_class_id,
+			from.id,
+			to.hubuum_class_id,
+			to.id,
+			{ credentials: "include" },
+		);
+
+	if (response.status !== 201) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to create object relation."),
+		);
+	}
+}
@@ -0,0 +1,30 @@
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { getApiV1ClassesByNameByClassNameObjectsByNameByObjectName } from "@/lib/api/generated/client";
+import type { HubuumObject } from "@/lib/api/generated/models";
+
+export async function fetchObjectByNames(
+	className: string,
+	objectName: string,
+): Promise<HubuumObject | null> {
+	const response =
+		await getApiV1ClassesByNameByClassNameObjectsByNameByObjectName(
+			className,
+			objectName,
+			undefined,
+			{ credentials: "include" },
+		);
+
+	if (response.status === 404) {
+		return null;
+	}
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(
+				response.data,
+				`Failed to look up ${className} / ${objectName}.`,
+			),
+		);
+	}
+
+	return response.data;
+}
@@ -3,10 +3,11 @@ import { describe, expect, it } from "vitest";
 import { copySafeIncomingRequestHeaders } from "@/lib/api/proxy-request-headers";
 
 describe("copySafeIncomingRequestHeaders", () => {
-	it("forwards content negotiation, revision, and restore headers", () => {
+	it("forwards content negotiation, revision, idempotency, and restore headers", () => {
 		const incoming = new Headers({
 			accept: "application/json",
 			"content-type": "application/json-patch+json",
+			"idempotency-key": "operation-key",
 			"if-match": '"resource:7"',
 			"x-hubuum-restore-capability": "restore-capability",
 		});
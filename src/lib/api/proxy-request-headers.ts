@@ -1,6 +1,7 @@
 const SAFE_INCOMING_REQUEST_HEADERS = [
 	"accept",
 	"content-type",
+	"idempotency-key",
 	"if-match",
 	"x-hubuum-restore-capability",
 ] as const;
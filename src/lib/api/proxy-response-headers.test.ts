@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 
-import { copySafeUpstreamResponseHeaders } from "@/lib/api/proxy-response-headers";
+import {
+	applyEventStreamResponseHeaders,
+	copySafeUpstreamResponseHeaders,
+	isEventStreamResponse,
+} from "@/lib/api/proxy-response-headers";
 
 describe("copySafeUpstreamResponseHeaders", () => {
 	it("forwards backup and cache headers", () => {
@@ -36,3 +40,28 @@ describe("copySafeUpstreamResponseHeaders", () => {
 		expect([...downstream]).toEqual([]);
 	});
 });
+
+describe("event stream responses", () => {
+	it("recognizes server-sent event content types", () => {
+		expect(
+			isEventStreamResponse(
+				new Headers({ "content-type": "text/event-stream; charset=utf-8" }),
+			),
+		).toBe(true);
+		expect(
+			isEventStreamResponse(
+				new Headers({ "content-type": "application/json" }),
+			),
+		).toBe(false);
+		expect(isEventStreamResponse(new Headers())).toBe(false);
+	});
+
+	it("disables caching and proxy buffering for streams", () => {
+		const downstream = new Headers({ "cache-control": "private, max-age=60" });
+
+		applyEventStreamResponseHeaders(downstream);
+
+		expect(downstream.get("cache-control")).toBe("no-cache, no-transform");
+		expect(downstream.get("x-accel-buffering")).toBe("no");
+	});
+});
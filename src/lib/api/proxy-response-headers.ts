@@ -17,3 +17,15 @@ export function copySafeUpstreamResponseHeaders(
 		}
 	}
 }
+
+export function isEventStreamResponse(headers: Headers): boolean {
+	return (
+		headers.get("content-type")?.split(";")[0]?.trim().toLowerCase() ===
+		"text/event-stream"
+	);
+}
+
+export function applyEventStreamResponseHeaders(downstream: Headers): void {
+	downstream.set("cache-control", "no-cache, no-transform");
+	downstream.set("x-accel-buffering", "no");
+}
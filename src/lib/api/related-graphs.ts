@@ -0,0 +1,84 @@
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { hubuumBffPath } from "@/lib/api/frontend";
+import { getApiV1ClassesByClassIdRelatedGraph } from "@/lib/api/generated/client";
+import type {
+	RelatedClassGraph,
+	RelatedObjectGraph,
+} from "@/lib/api/generated/models";
+import {
+	buildRelatedObjectGraphSearchParams,
+	type RelatedObjectQueryOptions,
+} from "@/lib/object-relation-summary";
+
+export function relatedObjectGraphQueryKey(
+	classId: number,
+	objectId: number,
+	options: RelatedObjectQueryOptions,
+) {
+	return [
+		"object-related-graph",
+		classId,
+		objectId,
+		options.depthLimit,
+		options.includeSelfClass,
+		options.ignoredClassIds,
+	] as const;
+}
+
+export function relatedClassGraphQueryKey(classId: number) {
+	return ["class-related-graph", classId] as const;
+}
+
+function isGraphPayload(
+	payload: unknown,
+	nodeKey: string,
+): payload is Record<string, unknown[]> {
+	if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+		return false;
+	}
+	const record = payload as Record<string, unknown>;
+	return Array.isArray(record[nodeKey]) && Array.isArray(record.relations);
+}
+
+export async function fetchRelatedObjectGraph(
+	classId: number,
+	objectId: number,
+	options: RelatedObjectQueryOptions,
+): Promise<RelatedObjectGraph> {
+	const params = buildRelatedObjectGraphSearchParams(options);
+	const response = await fetch(
+		`${hubuumBffPath(`/api/v1/classes/${classId}/objects/${objectId}/related/graph`)}?${params.toString()}`,
+		{ credentials: "include" },
+	);
+	const payload: unknown = await response.json().catch(() => null);
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(payload, "Failed to load the relation graph."),
+		);
+	}
+	if (!isGraphPayload(payload, "objects")) {
+		throw new Error("Unexpected response format for related object graph.");
+	}
+
+	// The generated client cannot send the graph query parameters, so this is a
+	// raw fetch whose checked payload is cast to the generated graph model.
+	return payload as unknown as RelatedObjectGraph;
+}
+
+export async function fetchRelatedClassGraph(
+	classId: number,
+): Promise<RelatedClassGraph> {
+	const response = await getApiV1ClassesByClassIdRelatedGraph(classId, {
+		credentials: "include",
+	});
+	if (response.status !== 200) {
+		throw new Error(
+			getApiErrorMessage(response.data, "Failed to load the class graph."),
+		);
+	}
+	if (!isGraphPayload(response.data, "classes")) {
+		throw new Error("Unexpected response format for related class graph.");
+	}
+
+	return response.data;
+}
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Collection } from "@/lib/api/generated/models";
+import {
+	applyUnifiedSearchStreamEvent,
+	createUnifiedSearchStreamState,
+	getUnifiedSearchStreamUrl,
+	parseUnifiedSearchStreamEvent,
+	streamUnifiedSearch,
+	type UnifiedSearchStreamEvent,
+} from "@/lib/api/search";
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+const collection: Collection = {
+	id: 3,
+	name: "Infrastructure",
+	description: "",
+	revision: 1,
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+};
+
+function streamResponse(chunks: string[]): Response {
+	const encoder = new TextEncoder();
+	return new Response(
+		new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (const chunk of chunks) {
+					controller.enqueue(encoder.encode(chunk));
+				}
+				controller.close();
+			},
+		}),
+		{ status: 200, headers: { "content-type": "text/event-stream" } },
+	);
+}
+
+describe("unified search streaming", () => {
+	it("builds the stream URL with the regular search parameters", () => {
+		expect(
+			getUnifiedSearchStreamUrl({
+				q: "srv",
+				kinds: ["class", "object"],
+				limitPerKind: 5,
+				searchObjectData: true,
+			}),
+		).toBe(
+			"/_hubuum-bff/hubuum/api/v1/search/stream?q=srv&kinds=class%2Cobject&limit_per_kind=5&search_object_data=true",
+		);
+	});
+
+	it("parses batch and error frames into typed events", () => {
+		expect(
+			parseUnifiedSearchStreamEvent(
+				{
+					event: "batch",
+					data: JSON.stringify({
+						kind: "collection",
+						collections: [collection],
+						classes: [],
+						objects: [],
+						next: "cursor-2",
+					}),
+					id: null,
+				},
+				"srv",
+			),
+		).toEqual({
+			type: "batch",
+			group: "collections",
+			results: { collections: [collection], classes: [], objects: [] },
+			next: "cursor-2",
+		});
+		expect(
+			parseUnifiedSearchStreamEvent(
+				{
+					event: "error",
+					data: JSON.stringify({ kind: "object", message: "timeout" }),
+					id: null,
+				},
+				"srv",
+			),
+		).toEqual({ type: "error", group: "objects", message: "timeout" });
+		expect(
+			parseUnifiedSearchStreamEvent(
+				{ event: "batch", data: "{}", id: null },
+				"srv",
+			),
+		).toBeNull();
+	});
+
+	it("tracks per-kind progress as events arrive", () => {
+		const events: UnifiedSearchStreamEvent[] = [
+			{ type: "started", query: "srv" },
+			{
+				type: "batch",
+				group: "collections",
+				results: { collections: [collection], classes: [], objects: [] },
+				next: null,
+			},
+			{ type: "error", group: "objects", message: "timeout" },
+			{ type: "done", query: "srv" },
+		];
+
+		const state = events.reduce(
+			applyUnifiedSearchStreamEvent,
+			createUnifiedSearchStreamState("srv", ["collection", "class", "object"]),
+		);
+
+		expect(state.status).toBe("done");
+		expect(state.results.collections).toEqual([collection]);
+		expect(state.progress).toEqual({
+			collections: "done",
+			classes: "done",
+			objects: "error",
+		});
+		expect(state.errors).toEqual({ objects: "timeout" });
+	});
+
+	it("marks every unfinished kind as failed on a stream error", () => {
+		const state = applyUnifiedSearchStreamEvent(
+			createUnifiedSearchStreamState("srv", ["class"]),
+			{ type: "error", group: null, message: "backend unavailable" },
+		);
+
+		expect(state.status).toBe("error");
+		expect(state.error).toBe("backend unavailable");
+		expect(state.progress).toEqual({ classes: "error" });
+	});
+
+	it("emits events from the stream as chunks are read", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () =>
+				streamResponse([
+					'event: started\ndata: {"query":"srv"}\n\n',
+					`event: batch\ndata: ${JSON.stringify({ kind: "collection", collections: [collection], classes: [], objects: [] })}\n\n`,
+					'event: done\ndata: {"query":"srv"}\n\n',
+				]),
+			),
+		);
+		const events: UnifiedSearchStreamEvent[] = [];
+
+		await streamUnifiedSearch({ q: "srv", kinds: ["collection"] }, (event) =>
+			events.push(event),
+		);
+
+		expect(events.map((event) => event.type)).toEqual([
+			"started",
+			"batch",
+			"done",
+		]);
+	});
+
+	it("falls back to the batch search when streaming is unavailable", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(
+				Response.json({
+					query: "srv",
+					results: { collections: [collection], classes: [], objects: [] },
+					next: { collections: null, classes: null, objects: null },
+				}),
+			);
+		vi.stubGlobal("fetch", fetchMock);
+		const events: UnifiedSearchStreamEvent[] = [];
+
+		await streamUnifiedSearch({ q: "srv", kinds: ["collection"] }, (event) =>
+			events.push(event),
+		);
+
+		expect(fetchMock.mock.calls[1][0]).toBe(
+			"/_hubuum-bff/hubuum/api/v1/search?q=srv&kinds=collection",
+		);
+		expect(events).toContainEqual({
+			type: "batch",
+			group: "collections",
+			results: { collections: [collection], classes: [], objects: [] },
+			next: null,
+		});
+	});
+
+	it("surfaces API errors before the stream starts", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () =>
+				Response.json(
+					{ error: "BadRequest", message: "Query is too short." },
+					{ status: 400 },
+				),
+			),
+		);
+
+		await expect(streamUnifiedSearch({ q: "s" }, () => {})).rejects.toThrow(
+			"Query is too short.",
+		);
+	});
+});
@@ -4,6 +4,10 @@ import type {
 	HubuumObject,
 	Collection,
 } from "@/lib/api/generated/models";
+import {
+	createServerSentEventParser,
+	type ServerSentEventMessage,
+} from "@/lib/api/server-sent-events";
 
 export type UnifiedSearchKind = "collection" | "class" | "object";
 export type UnifiedSearchGroup = "collections" | "classes" | "objects";
@@ -54,7 +58,48 @@ export type UnifiedSearchKindPage =
 			next: string | null;
 	  };
 
+export type UnifiedSearchStreamEvent =
+	| { type: "started"; query: string }
+	| {
+			type: "batch";
+			group: UnifiedSearchGroup;
+			results: UnifiedSearchResults;
+			next: string | null;
+	  }
+	| { type: "done"; query: string }
+	| { type: "error"; group: UnifiedSearchGroup | null; message: string };
+
+export type UnifiedSearchGroupProgress =
+	| "pending"
+	| "received"
+	| "done"
+	| "error";
+
+export type UnifiedSearchStreamState = {
+	query: string;
+	status: "streaming" | "done" | "error";
+	results: UnifiedSearchResults;
+	next: UnifiedSearchNext;
+	progress: Partial<Record<UnifiedSearchGroup, UnifiedSearchGroupProgress>>;
+	errors: Partial<Record<UnifiedSearchGroup, string>>;
+	error: string | null;
+};
+
 export const DEFAULT_UNIFIED_SEARCH_LIMIT = 10;
+export const UNIFIED_SEARCH_KINDS: UnifiedSearchKind[] = [
+	"collection",
+	"class",
+	"object",
+];
+
+const UNIFIED_SEARCH_GROUP_BY_KIND: Record<
+	UnifiedSearchKind,
+	UnifiedSearchGroup
+> = {
+	collection: "collections",
+	class: "classes",
+	object: "objects",
+};
 
 function emptyResults(): UnifiedSearchResults {
 	return {
@@ -136,7 +181,7 @@ function normalizeSearchResponse(
 	};
 }
 
-export function getUnifiedSearchUrl(params: UnifiedSearchParams): string {
+function buildUnifiedSearchQuery(params: UnifiedSearchParams): string {
 	const normalizedParams = new URLSearchParams();
 	normalizedParams.set("q", params.q);
 
@@ -168,10 +213,18 @@ export function getUnifiedSearchUrl(params: UnifiedSearchParams): string {
 		normalizedParams.set("search_object_data", "true");
 	}
 
-	const query = normalizedParams.toString();
+	return normalizedParams.toString();
+}
+
+export function getUnifiedSearchUrl(params: UnifiedSearchParams): string {
+	const query = buildUnifiedSearchQuery(params);
 	return query ? `/_hubuum-bff/hubuum/api/v1/search?${query}` : "/_hubuum-bff/hubuum/api/v1/search";
 }
 
+export function getUnifiedSearchStreamUrl(params: UnifiedSearchParams): string {
+	return `/_hubuum-bff/hubuum/api/v1/search/stream?${buildUnifiedSearchQuery(params)}`;
+}
+
 export async function fetchUnifiedSearch(
 	params: UnifiedSearchParams,
 	options?: RequestInit,
@@ -235,3 +288,210 @@ export function createEmptyUnifiedSearchResults(): UnifiedSearchResults {
 export function createEmptyUnifiedSearchNext(): UnifiedSearchNext {
 	return emptyNext();
 }
+
+function isUnifiedSearchKind(value: unknown): value is UnifiedSearchKind {
+	return value === "collection" || value === "class" || value === "object";
+}
+
+export function parseUnifiedSearchStreamEvent(
+	message: ServerSentEventMessage,
+	fallbackQuery: string,
+): UnifiedSearchStreamEvent | null {
+	const payload = parseJsonPayload(message.data);
+	const record =
+		payload && typeof payload === "object"
+			? (payload as Record<string, unknown>)
+			: {};
+	const query = typeof record.query === "string" ? record.query : fallbackQuery;
+
+	switch (message.event) {
+		case "started":
+			return { type: "started", query };
+		case "done":
+			return { type: "done", query };
+		case "error":
+			return {
+				type: "error",
+				group: isUnifiedSearchKind(record.kind)
+					? UNIFIED_SEARCH_GROUP_BY_KIND[record.kind]
+					: null,
+				message:
+					typeof record.message === "string"
+						? record.message
+						: "Unified search failed.",
+			};
+		case "batch": {
+			if (!isUnifiedSearchKind(record.kind)) {
+				return null;
+			}
+			const batch = normalizeSearchResponse(
+				{
+					query,
+					results: record,
+					next: { [UNIFIED_SEARCH_GROUP_BY_KIND[record.kind]]: record.next },
+				},
+				query,
+			);
+			const group = UNIFIED_SEARCH_GROUP_BY_KIND[record.kind];
+			return {
+				type: "batch",
+				group,
+				results: batch.results,
+				next: batch.next[group],
+			};
+		}
+		default:
+			return null;
+	}
+}
+
+export function createUnifiedSearchStreamState(
+	query: string,
+	kinds: UnifiedSearchKind[] = UNIFIED_SEARCH_KINDS,
+): UnifiedSearchStreamState {
+	return {
+		query,
+		status: "streaming",
+		results: emptyResults(),
+		next: emptyNext(),
+		progress: Object.fromEntries(
+			kinds.map((kind) => [UNIFIED_SEARCH_GROUP_BY_KIND[kind], "pending"]),
+		),
+		errors: {},
+		error: null,
+	};
+}
+
+function settlePendingGroups(
+	progress: UnifiedSearchStreamState["progress"],
+	status: UnifiedSearchGroupProgress,
+): UnifiedSearchStreamState["progress"] {
+	return Object.fromEntries(
+		Object.entries(progress).map(([group, current]) => [
+			group,
+			current === "pending" || current === "received" ? status : current,
+		]),
+	);
+}
+
+export function applyUnifiedSearchStreamEvent(
+	state: UnifiedSearchStreamState,
+	event: UnifiedSearchStreamEvent,
+): UnifiedSearchStreamState {
+	switch (event.type) {
+		case "started":
+			return state;
+		case "batch":
+			return {
+				...state,
+				results: {
+					collections: [
+						...state.results.collections,
+						...event.results.collections,
+					],
+					classes: [...state.results.classes, ...event.results.classes],
+					objects: [...state.results.objects, ...event.results.objects],
+				},
+				next: { ...state.next, [event.group]: event.next },
+				progress: { ...state.progress, [event.group]: "received" },
+			};
+		case "done":
+			return {
+				...state,
+				status: state.status === "error" ? "error" : "done",
+				progress: settlePendingGroups(state.progress, "done"),
+			};
+		case "error":
+			if (event.group) {
+				return {
+					...state,
+					progress: { ...state.progress, [event.group]: "error" },
+					errors: { ...state.errors, [event.group]: event.message },
+				};
+			}
+			return {
+				...state,
+				status: "error",
+				error: event.message,
+				progress: settlePendingGroups(state.progress, "error"),
+			};
+	}
+}
+
+function responseToStreamEvents(
+	response: UnifiedSearchResponse,
+	kinds: UnifiedSearchKind[],
+): UnifiedSearchStreamEvent[] {
+	return [
+		{ type: "started", query: response.query },
+		...kinds.map((kind): UnifiedSearchStreamEvent => {
+			const group = UNIFIED_SEARCH_GROUP_BY_KIND[kind];
+			return {
+				type: "batch",
+				group,
+				results: { ...emptyResults(), [group]: response.results[group] },
+				next: response.next[group],
+			};
+		}),
+		{ type: "done", query: response.query },
+	];
+}
+
+export async function streamUnifiedSearch(
+	params: UnifiedSearchParams,
+	onEvent: (event: UnifiedSearchStreamEvent) => void,
+	options?: { signal?: AbortSignal },
+): Promise<void> {
+	const kinds =
+		params.kinds && params.kinds.length > 0
+			? params.kinds
+			: UNIFIED_SEARCH_KINDS;
+	const response = await fetch(getUnifiedSearchStreamUrl(params), {
+		credentials: "include",
+		headers: { Accept: "text/event-stream" },
+		signal: options?.signal,
+		method: "GET",
+	});
+
+	if (response.status === 404 || response.status === 405) {
+		await response.body?.cancel();
+		const fallback = await fetchUnifiedSearch(params, {
+			signal: options?.signal,
+		});
+		for (const event of responseToStreamEvents(fallback, kinds)) {
+			onEvent(event);
+		}
+		return;
+	}
+
+	if (response.status !== 200 || !response.body) {
+		const payload = parseJsonPayload(await response.text());
+		throw new Error(
+			getApiErrorMessage(payload, "Failed to run unified search."),
+		);
+	}
+
+	const parser = createServerSentEventParser();
+	const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+	const emit = (messages: ServerSentEventMessage[]) => {
+		for (const message of messages) {
+			const event = parseUnifiedSearchStreamEvent(message, params.q);
+			if (event) {
+				onEvent(event);
+			}
+		}
+	};
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			emit(parser.push(value));
+		}
+		emit(parser.flush());
+	} finally {
+		reader.releaseLock();
+	}
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { createServerSentEventParser } from "@/lib/api/server-sent-events";
+
+describe("createServerSentEventParser", () => {
+	it("parses named events split across chunks", () => {
+		const parser = createServerSentEventParser();
+
+		expect(parser.push('event: started\ndata: {"query"')).toEqual([]);
+		expect(parser.push(':"srv"}\n\nevent: batch\r')).toEqual([
+			{ event: "started", data: '{"query":"srv"}', id: null },
+		]);
+		expect(parser.push("\ndata: one\ndata: two\r\n\r\n")).toEqual([
+			{ event: "batch", data: "one\ntwo", id: null },
+		]);
+	});
+
+	it("ignores comments and defaults the event name", () => {
+		const parser = createServerSentEventParser();
+
+		expect(parser.push(": keep-alive\n\nid: 7\ndata:plain\n\n")).toEqual([
+			{ event: "message", data: "plain", id: "7" },
+		]);
+	});
+
+	it("dispatches a trailing event when the stream ends", () => {
+		const parser = createServerSentEventParser();
+
+		expect(parser.push("event: done\ndata: {}")).toEqual([]);
+		expect(parser.flush()).toEqual([{ event: "done", data: "{}", id: null }]);
+	});
+});
@@ -0,0 +1,86 @@
+export type ServerSentEventMessage = {
+	event: string;
+	data: string;
+	id: string | null;
+};
+
+export type ServerSentEventParser = {
+	push: (chunk: string) => ServerSentEventMessage[];
+	flush: () => ServerSentEventMessage[];
+};
+
+export function createServerSentEventParser(): ServerSentEventParser {
+	let buffer = "";
+	let eventName = "";
+	let dataLines: string[] = [];
+	let lastEventId: string | null = null;
+
+	function dispatch(messages: ServerSentEventMessage[]) {
+		if (dataLines.length > 0) {
+			messages.push({
+				event: eventName || "message",
+				data: dataLines.join("\n"),
+				id: lastEventId,
+			});
+		}
+		eventName = "";
+		dataLines = [];
+	}
+
+	function processLine(line: string, messages: ServerSentEventMessage[]) {
+		if (line === "") {
+			dispatch(messages);
+			return;
+		}
+		if (line.startsWith(":")) {
+			return;
+		}
+
+		const separatorIndex = line.indexOf(":");
+		const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+		let value = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1);
+		if (value.startsWith(" ")) {
+			value = value.slice(1);
+		}
+
+		switch (field) {
+			case "event":
+				eventName = value;
+				break;
+			case "data":
+				dataLines.push(value);
+				break;
+			case "id":
+				lastEventId = value;
+				break;
+		}
+	}
+
+	return {
+		push(chunk) {
+			buffer += chunk;
+			const messages: ServerSentEventMessage[] = [];
+			// A trailing "\r" may be the first half of a "\r\n" split across chunks.
+			const pendingCarriageReturn = buffer.endsWith("\r");
+			const lines = (
+				pendingCarriageReturn ? buffer.slice(0, -1) : buffer
+			).split(/\r\n|\r|\n/);
+			const remainder = lines.pop() ?? "";
+			buffer = pendingCarriageReturn ? `${remainder}\r` : remainder;
+			for (const line of lines) {
+				processLine(line, messages);
+			}
+			return messages;
+		},
+		flush() {
+			const messages: ServerSentEventMessage[] = [];
+			const remainder = buffer.replace(/\r$/, "");
+			if (remainder) {
+				processLine(remainder, messages);
+			}
+			buffer = "";
+			dispatch(messages);
+			return messages;
+		},
+	};
+}
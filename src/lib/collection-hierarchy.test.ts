@@ -3,10 +3,13 @@ import { describe, expect, it } from "vitest";
 import type { Collection } from "@/lib/api/generated/models";
 import {
 	buildCollectionHierarchy,
+	countCollectionTree,
 	formatCollectionOption,
 	getCollectionPathLabel,
+	getCollectionReparentError,
 	getDescendantCollectionIds,
 	getDuplicateCollectionNames,
+	getVisibleCollectionNodes,
 	isRootCollection,
 } from "@/lib/collection-hierarchy";
 
@@ -87,4 +90,58 @@ describe("collection hierarchy helpers", () => {
 			"root (#1) / prod (#2)",
 		);
 	});
+
+	it("counts nested classes and lists expanded nodes", () => {
+		const root = collection(1, "root");
+		const platform = collection(2, "platform", 1);
+		const prod = collection(3, "prod", 2);
+		const sibling = collection(4, "sibling", 1);
+		const hierarchy = buildCollectionHierarchy([root, platform, prod, sibling]);
+		const counts = countCollectionTree(hierarchy, [3, 3, 2, 4]);
+
+		expect(counts.get(1)).toEqual({
+			children: 2,
+			descendants: 3,
+			classes: 0,
+			nestedClasses: 4,
+		});
+		expect(counts.get(2)).toEqual({
+			children: 1,
+			descendants: 1,
+			classes: 1,
+			nestedClasses: 3,
+		});
+		expect(
+			getVisibleCollectionNodes(hierarchy.nodes, new Set([1])).map(
+				(node) => node.collection.id,
+			),
+		).toEqual([1, 2, 4]);
+		expect(
+			getVisibleCollectionNodes(hierarchy.nodes, new Set([1, 2])).map(
+				(node) => node.collection.id,
+			),
+		).toEqual([1, 2, 3, 4]);
+	});
+
+	it("guards re-parenting against roots, no-ops and cycles", () => {
+		const root = collection(1, "root");
+		const platform = collection(2, "platform", 1);
+		const prod = collection(3, "prod", 2);
+		const sibling = collection(4, "sibling", 1);
+		const hierarchy = buildCollectionHierarchy([root, platform, prod, sibling]);
+
+		expect(getCollectionReparentError(2, 4, hierarchy)).toBeNull();
+		expect(getCollectionReparentError(1, 4, hierarchy)).toBe(
+			"The root collection cannot be moved.",
+		);
+		expect(getCollectionReparentError(2, 2, hierarchy)).toBe(
+			"A collection cannot be its own parent.",
+		);
+		expect(getCollectionReparentError(3, 2, hierarchy)).toBe(
+			"prod is already directly under platform.",
+		);
+		expect(getCollectionReparentError(2, 3, hierarchy)).toBe(
+			"prod is inside platform, so the move would create a cycle.",
+		);
+	});
 });
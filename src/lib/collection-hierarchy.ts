@@ -181,3 +181,87 @@ export function formatCollectionOption(
 		? formatCollectionPath(path)
 		: `${collection.name} (#${collection.id})`;
 }
+
+export type CollectionTreeCounts = {
+	children: number;
+	descendants: number;
+	classes: number;
+	nestedClasses: number;
+};
+
+export function countCollectionTree(
+	hierarchy: Pick<CollectionHierarchy, "nodes">,
+	classCollectionIds: readonly number[],
+): Map<number, CollectionTreeCounts> {
+	const classCounts = new Map<number, number>();
+	for (const collectionId of classCollectionIds) {
+		classCounts.set(collectionId, (classCounts.get(collectionId) ?? 0) + 1);
+	}
+
+	const counts = new Map<number, CollectionTreeCounts>();
+	function visit(node: CollectionHierarchyNode): CollectionTreeCounts {
+		const classes = classCounts.get(node.collection.id) ?? 0;
+		const nodeCounts: CollectionTreeCounts = {
+			children: node.children.length,
+			descendants: 0,
+			classes,
+			nestedClasses: classes,
+		};
+		for (const child of node.children) {
+			const childCounts = visit(child);
+			nodeCounts.descendants += 1 + childCounts.descendants;
+			nodeCounts.nestedClasses += childCounts.nestedClasses;
+		}
+		counts.set(node.collection.id, nodeCounts);
+		return nodeCounts;
+	}
+
+	for (const node of hierarchy.nodes) {
+		visit(node);
+	}
+	return counts;
+}
+
+export function getVisibleCollectionNodes(
+	nodes: readonly CollectionHierarchyNode[],
+	expandedIds: ReadonlySet<number>,
+): CollectionHierarchyNode[] {
+	const visible: CollectionHierarchyNode[] = [];
+	function visit(node: CollectionHierarchyNode) {
+		visible.push(node);
+		if (expandedIds.has(node.collection.id)) {
+			node.children.forEach(visit);
+		}
+	}
+	nodes.forEach(visit);
+	return visible;
+}
+
+export function getCollectionReparentError(
+	collectionId: number,
+	parentId: number,
+	hierarchy: Pick<CollectionHierarchy, "byId" | "childrenByParentId">,
+): string | null {
+	const collection = hierarchy.byId.get(collectionId);
+	const parent = hierarchy.byId.get(parentId);
+	if (!collection || !parent) {
+		return "The collection is no longer available.";
+	}
+	if (isRootCollection(collection)) {
+		return "The root collection cannot be moved.";
+	}
+	if (collectionId === parentId) {
+		return "A collection cannot be its own parent.";
+	}
+	if (collection.parent_collection_id === parentId) {
+		return `${collection.name} is already directly under ${parent.name}.`;
+	}
+	if (
+		getDescendantCollectionIds(collectionId, hierarchy.childrenByParentId).has(
+			parentId,
+		)
+	) {
+		return `${parent.name} is inside ${collection.name}, so the move would create a cycle.`;
+	}
+	return null;
+}
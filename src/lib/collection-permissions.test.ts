@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+
+import { Permissions } from "@/lib/api/generated/models/permissions";
+import {
+	applyPermissionMatrixBulkEdit,
+	getPermissionMatrixChanges,
+	planCollectionPermissionCopy,
+	summarizePermissions,
+	toPermissionMatrixKey,
+} from "@/lib/collection-permissions";
+
+describe("collection permission summaries", () => {
+	it("groups enabled permissions by section", () => {
+		expect(
+			summarizePermissions(
+				new Set([
+					Permissions.ReadObject,
+					Permissions.ReadCollection,
+					Permissions.UpdateObject,
+				]),
+			),
+		).toBe("Collection: Read · Objects: Read, Update");
+		expect(summarizePermissions(new Set())).toBe("No permissions selected");
+	});
+});
+
+describe("collection permission matrix", () => {
+	it("applies bulk grants and revokes as a diff against persisted cells", () => {
+		const readCell = { collectionId: 1, groupId: 10 };
+		const emptyCell = { collectionId: 2, groupId: 10 };
+		const persisted = new Map([
+			[
+				toPermissionMatrixKey(readCell),
+				[Permissions.ReadCollection, Permissions.ReadObject],
+			],
+		]);
+
+		const granted = applyPermissionMatrixBulkEdit(
+			persisted,
+			new Map(),
+			[readCell, emptyCell],
+			[Permissions.UpdateObject, Permissions.ReadCollection],
+			"grant",
+		);
+		expect(getPermissionMatrixChanges(persisted, granted)).toEqual([
+			{
+				...readCell,
+				before: [Permissions.ReadCollection, Permissions.ReadObject],
+				after: [
+					Permissions.ReadCollection,
+					Permissions.ReadObject,
+					Permissions.UpdateObject,
+				],
+				added: [Permissions.UpdateObject],
+				removed: [],
+			},
+			{
+				...emptyCell,
+				before: [],
+				after: [Permissions.ReadCollection, Permissions.UpdateObject],
+				added: [Permissions.ReadCollection, Permissions.UpdateObject],
+				removed: [],
+			},
+		]);
+
+		const reverted = applyPermissionMatrixBulkEdit(
+			persisted,
+			granted,
+			[readCell, emptyCell],
+			[Permissions.UpdateObject, Permissions.ReadCollection],
+			"revoke",
+		);
+		expect(
+			getPermissionMatrixChanges(persisted, reverted).map((change) => ({
+				removed: change.removed,
+				added: change.added,
+			})),
+		).toEqual([{ removed: [Permissions.ReadCollection], added: [] }]);
+		expect(reverted.has(toPermissionMatrixKey(emptyCell))).toBe(false);
+	});
+});
+
+describe("collection permission copy", () => {
+	it("mirrors source group grants onto each target collection", () => {
+		const source = new Map([
+			[10, [Permissions.ReadCollection, Permissions.ReadObject]],
+			[20, [Permissions.ReadCollection]],
+		]);
+		const targets = new Map([
+			[
+				1,
+				new Map([
+					[10, [Permissions.ReadCollection]],
+					[30, [Permissions.DeleteCollection]],
+				]),
+			],
+			[2, new Map([[20, [Permissions.ReadCollection]]])],
+		]);
+
+		expect(
+			planCollectionPermissionCopy(source, targets, false).map((change) => ({
+				collectionId: change.collectionId,
+				groupId: change.groupId,
+				added: change.added,
+				removed: change.removed,
+			})),
+		).toEqual([
+			{
+				collectionId: 1,
+				groupId: 10,
+				added: [Permissions.ReadObject],
+				removed: [],
+			},
+			{
+				collectionId: 1,
+				groupId: 20,
+				added: [Permissions.ReadCollection],
+				removed: [],
+			},
+			{
+				collectionId: 1,
+				groupId: 30,
+				added: [],
+				removed: [Permissions.DeleteCollection],
+			},
+			{
+				collectionId: 2,
+				groupId: 10,
+				added: [Permissions.ReadCollection, Permissions.ReadObject],
+				removed: [],
+			},
+		]);
+		expect(
+			planCollectionPermissionCopy(source, targets, true).some(
+				(change) => change.removed.length > 0,
+			),
+		).toBe(false);
+	});
+
+	it("keeps delegation for protected groups when revoking unmatched grants", () => {
+		const source = new Map([[10, [Permissions.ReadCollection]]]);
+		const targets = new Map([
+			[
+				1,
+				new Map([
+					[30, [Permissions.DelegateCollection, Permissions.DeleteCollection]],
+				]),
+			],
+		]);
+
+		expect(
+			planCollectionPermissionCopy(source, targets, false, new Set([30])).find(
+				(change) => change.groupId === 30,
+			),
+		).toMatchObject({
+			after: [Permissions.DelegateCollection],
+			removed: [Permissions.DeleteCollection],
+		});
+	});
+});
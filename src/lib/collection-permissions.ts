@@ -0,0 +1,470 @@
+import type {
+	Permission,
+	Permissions as PermissionName,
+} from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+
+export type PermissionFlagField =
+	| "has_read_collection"
+	| "has_update_collection"
+	| "has_delete_collection"
+	| "has_delegate_collection"
+	| "has_create_class"
+	| "has_read_class"
+	| "has_update_class"
+	| "has_delete_class"
+	| "has_create_object"
+	| "has_read_object"
+	| "has_update_object"
+	| "has_delete_object"
+	| "has_create_class_relation"
+	| "has_read_class_relation"
+	| "has_update_class_relation"
+	| "has_delete_class_relation"
+	| "has_create_object_relation"
+	| "has_read_object_relation"
+	| "has_update_object_relation"
+	| "has_delete_object_relation"
+	| "has_create_template"
+	| "has_read_template"
+	| "has_update_template"
+	| "has_delete_template"
+	| "has_read_remote_target"
+	| "has_create_remote_target"
+	| "has_update_remote_target"
+	| "has_delete_remote_target"
+	| "has_execute_remote_target"
+	| "has_read_audit"
+	| "has_manage_event_subscription";
+
+export type PermissionDefinition = {
+	value: PermissionName;
+	label: string;
+	field: PermissionFlagField;
+	section: PermissionSection;
+};
+
+export type PermissionSection =
+	| "collection"
+	| "class"
+	| "object"
+	| "class_relation"
+	| "object_relation"
+	| "template"
+	| "remote_target"
+	| "audit"
+	| "events";
+
+export const PERMISSION_SECTION_LABELS: Record<PermissionSection, string> = {
+	collection: "Collection",
+	class: "Classes",
+	object: "Objects",
+	class_relation: "Class relations",
+	object_relation: "Object relations",
+	template: "Templates",
+	remote_target: "Remote targets",
+	audit: "Audit",
+	events: "Events",
+};
+
+export const PERMISSION_SECTION_ORDER: PermissionSection[] = [
+	"collection",
+	"class",
+	"object",
+	"class_relation",
+	"object_relation",
+	"template",
+	"remote_target",
+	"audit",
+	"events",
+];
+
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
+	{
+		value: PermissionValues.ReadCollection,
+		label: "Read collection",
+		field: "has_read_collection",
+		section: "collection",
+	},
+	{
+		value: PermissionValues.UpdateCollection,
+		label: "Update collection",
+		field: "has_update_collection",
+		section: "collection",
+	},
+	{
+		value: PermissionValues.DeleteCollection,
+		label: "Delete collection",
+		field: "has_delete_collection",
+		section: "collection",
+	},
+	{
+		value: PermissionValues.DelegateCollection,
+		label: "Delegate collection",
+		field: "has_delegate_collection",
+		section: "collection",
+	},
+	{
+		value: PermissionValues.CreateClass,
+		label: "Create class",
+		field: "has_create_class",
+		section: "class",
+	},
+	{
+		value: PermissionValues.ReadClass,
+		label: "Read class",
+		field: "has_read_class",
+		section: "class",
+	},
+	{
+		value: PermissionValues.UpdateClass,
+		label: "Update class",
+		field: "has_update_class",
+		section: "class",
+	},
+	{
+		value: PermissionValues.DeleteClass,
+		label: "Delete class",
+		field: "has_delete_class",
+		section: "class",
+	},
+	{
+		value: PermissionValues.CreateObject,
+		label: "Create object",
+		field: "has_create_object",
+		section: "object",
+	},
+	{
+		value: PermissionValues.ReadObject,
+		label: "Read object",
+		field: "has_read_object",
+		section: "object",
+	},
+	{
+		value: PermissionValues.UpdateObject,
+		label: "Update object",
+		field: "has_update_object",
+		section: "object",
+	},
+	{
+		value: PermissionValues.DeleteObject,
+		label: "Delete object",
+		field: "has_delete_object",
+		section: "object",
+	},
+	{
+		value: PermissionValues.CreateClassRelation,
+		label: "Create class relation",
+		field: "has_create_class_relation",
+		section: "class_relation",
+	},
+	{
+		value: PermissionValues.ReadClassRelation,
+		label: "Read class relation",
+		field: "has_read_class_relation",
+		section: "class_relation",
+	},
+	{
+		value: PermissionValues.UpdateClassRelation,
+		label: "Update class relation",
+		field: "has_update_class_relation",
+		section: "class_relation",
+	},
+	{
+		value: PermissionValues.DeleteClassRelation,
+		label: "Delete class relation",
+		field: "has_delete_class_relation",
+		section: "class_relation",
+	},
+	{
+		value: PermissionValues.CreateObjectRelation,
+		label: "Create object relation",
+		field: "has_create_object_relation",
+		section: "object_relation",
+	},
+	{
+		value: PermissionValues.ReadObjectRelation,
+		label: "Read object relation",
+		field: "has_read_object_relation",
+		section: "object_relation",
+	},
+	{
+		value: PermissionValues.UpdateObjectRelation,
+		label: "Update object relation",
+		field: "has_update_object_relation",
+		section: "object_relation",
+	},
+	{
+		value: PermissionValues.DeleteObjectRelation,
+		label: "Delete object relation",
+		field: "has_delete_object_relation",
+		section: "object_relation",
+	},
+	{
+		value: PermissionValues.CreateTemplate,
+		label: "Create template",
+		field: "has_create_template",
+		section: "template",
+	},
+	{
+		value: PermissionValues.ReadTemplate,
+		label: "Read template",
+		field: "has_read_template",
+		section: "template",
+	},
+	{
+		value: PermissionValues.UpdateTemplate,
+		label: "Update template",
+		field: "has_update_template",
+		section: "template",
+	},
+	{
+		value: PermissionValues.DeleteTemplate,
+		label: "Delete template",
+		field: "has_delete_template",
+		section: "template",
+	},
+	{
+		value: PermissionValues.ReadRemoteTarget,
+		label: "Read remote target",
+		field: "has_read_remote_target",
+		section: "remote_target",
+	},
+	{
+		value: PermissionValues.CreateRemoteTarget,
+		label: "Create remote target",
+		field: "has_create_remote_target",
+		section: "remote_target",
+	},
+	{
+		value: PermissionValues.UpdateRemoteTarget,
+		label: "Update remote target",
+		field: "has_update_remote_target",
+		section: "remote_target",
+	},
+	{
+		value: PermissionValues.DeleteRemoteTarget,
+		label: "Delete remote target",
+		field: "has_delete_remote_target",
+		section: "remote_target",
+	},
+	{
+		value: PermissionValues.ExecuteRemoteTarget,
+		label: "Execute remote target",
+		field: "has_execute_remote_target",
+		section: "remote_target",
+	},
+	{
+		value: PermissionValues.ReadAudit,
+		label: "Read audit",
+		field: "has_read_audit",
+		section: "audit",
+	},
+	{
+		value: PermissionValues.ManageEventSubscription,
+		label: "Manage event subscriptions",
+		field: "has_manage_event_subscription",
+		section: "events",
+	},
+];
+
+export const ALL_COLLECTION_PERMISSIONS = PERMISSION_DEFINITIONS.map(
+	(definition) => definition.value,
+);
+
+export function getEnabledPermissions(
+	permissionRecord: Permission,
+): PermissionName[] {
+	return PERMISSION_DEFINITIONS.filter((definition) =>
+		isPermissionEnabled(permissionRecord, definition.field),
+	).map((definition) => definition.value);
+}
+
+export function getSectionDefinitions(
+	section: PermissionSection,
+): PermissionDefinition[] {
+	return PERMISSION_DEFINITIONS.filter(
+		(definition) => definition.section === section,
+	);
+}
+
+export function summarizePermissions(
+	permissionSet: Set<PermissionName>,
+): string {
+	const sectionSummaries = PERMISSION_SECTION_ORDER.map((section) => {
+		const enabledLabels = getSectionDefinitions(section)
+			.filter((definition) => permissionSet.has(definition.value))
+			.map((definition) =>
+				definition.label
+					.replace(/^(Read|Update|Delete|Create|Delegate)\s+/i, "$1 ")
+					.replace(/\s+(collection|class|object|relation|template)$/i, ""),
+			);
+
+		if (enabledLabels.length === 0) {
+			return null;
+		}
+
+		return `${PERMISSION_SECTION_LABELS[section]}: ${enabledLabels.join(", ")}`;
+	}).filter(Boolean);
+
+	return sectionSummaries.length > 0
+		? sectionSummaries.join(" · ")
+		: "No permissions selected";
+}
+
+function normalizePermissionFlag(value: unknown): boolean {
+	if (typeof value === "boolean") {
+		return value;
+	}
+
+	if (typeof value === "number") {
+		return value === 1;
+	}
+
+	if (typeof value === "string") {
+		const normalized = value.trim().toLowerCase();
+		return normalized === "true" || normalized === "t" || normalized === "1";
+	}
+
+	return false;
+}
+
+export function isPermissionEnabled(
+	permissionRecord: Permission,
+	field: PermissionFlagField,
+): boolean {
+	return normalizePermissionFlag(permissionRecord[field] as unknown);
+}
+
+export function arePermissionSetsEqual(
+	left: PermissionName[],
+	right: PermissionName[],
+): boolean {
+	if (left.length !== right.length) {
+		return false;
+	}
+
+	const rightSet = new Set(right);
+	for (const permission of left) {
+		if (!rightSet.has(permission)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+export type PermissionMatrixCell = {
+	collectionId: number;
+	groupId: number;
+};
+
+export type PermissionMatrixBulkMode = "grant" | "revoke";
+
+export type PermissionMatrixChange = PermissionMatrixCell & {
+	before: PermissionName[];
+	after: PermissionName[];
+	added: PermissionName[];
+	removed: PermissionName[];
+};
+
+export function toPermissionMatrixKey({
+	collectionId,
+	groupId,
+}: PermissionMatrixCell): string {
+	return `${collectionId}:${groupId}`;
+}
+
+export function fromPermissionMatrixKey(key: string): PermissionMatrixCell {
+	const [collectionId, groupId] = key.split(":").map(Number);
+	return { collectionId, groupId };
+}
+
+export function sortPermissions(
+	permissions: Iterable<PermissionName>,
+): PermissionName[] {
+	const permissionSet = new Set(permissions);
+	return ALL_COLLECTION_PERMISSIONS.filter((permission) =>
+		permissionSet.has(permission),
+	);
+}
+
+export function applyPermissionMatrixBulkEdit(
+	persisted: ReadonlyMap<string, PermissionName[]>,
+	drafts: ReadonlyMap<string, PermissionName[]>,
+	cells: readonly PermissionMatrixCell[],
+	permissions: readonly PermissionName[],
+	mode: PermissionMatrixBulkMode,
+): Map<string, PermissionName[]> {
+	const next = new Map(drafts);
+	for (const cell of cells) {
+		const key = toPermissionMatrixKey(cell);
+		const base = persisted.get(key) ?? [];
+		const current = new Set(next.get(key) ?? base);
+		for (const permission of permissions) {
+			if (mode === "grant") {
+				current.add(permission);
+			} else {
+				current.delete(permission);
+			}
+		}
+
+		const updated = sortPermissions(current);
+		if (arePermissionSetsEqual(updated, base)) {
+			next.delete(key);
+		} else {
+			next.set(key, updated);
+		}
+	}
+	return next;
+}
+
+export function getPermissionMatrixChanges(
+	persisted: ReadonlyMap<string, PermissionName[]>,
+	drafts: ReadonlyMap<string, PermissionName[]>,
+): PermissionMatrixChange[] {
+	return [...drafts]
+		.map(([key, after]) => {
+			const before = persisted.get(key) ?? [];
+			return {
+				...fromPermissionMatrixKey(key),
+				before,
+				after,
+				added: after.filter((permission) => !before.includes(permission)),
+				removed: before.filter((permission) => !after.includes(permission)),
+			};
+		})
+		.filter((change) => change.added.length > 0 || change.removed.length > 0)
+		.sort(
+			(left, right) =>
+				left.collectionId - right.collectionId || left.groupId - right.groupId,
+		);
+}
+
+export function planCollectionPermissionCopy(
+	source: ReadonlyMap<number, PermissionName[]>,
+	targets: ReadonlyMap<number, ReadonlyMap<number, PermissionName[]>>,
+	keepUnmatched: boolean,
+	protectedGroupIds: ReadonlySet<number> = new Set(),
+): PermissionMatrixChange[] {
+	const persisted = new Map<string, PermissionName[]>();
+	const drafts = new Map<string, PermissionName[]>();
+	for (const [collectionId, grants] of targets) {
+		for (const groupId of new Set([...source.keys(), ...grants.keys()])) {
+			const key = toPermissionMatrixKey({ collectionId, groupId });
+			const before = grants.get(groupId) ?? [];
+			const copied = source.get(groupId) ?? [];
+			const kept = keepUnmatched
+				? before
+				: protectedGroupIds.has(groupId)
+					? before.filter(
+							(permission) =>
+								permission === PermissionValues.DelegateCollection,
+						)
+					: [];
+			persisted.set(key, before);
+			drafts.set(key, sortPermissions([...kept, ...copied]));
+		}
+	}
+	return getPermissionMatrixChanges(persisted, drafts);
+}
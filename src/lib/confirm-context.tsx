@@ -14,6 +14,7 @@ import { useDialogAccessibility } from "@/lib/use-dialog-accessibility";
 type ConfirmOptions = {
 	title: string;
 	description?: string;
+	details?: ReactNode;
 	confirmLabel?: string;
 	cancelLabel?: string;
 	tone?: "default" | "danger";
@@ -78,7 +79,9 @@ export function ConfirmProvider({ children }: { children: ReactNode }) {
 					/>
 					<section
 						ref={dialogRef}
-						className="modal-panel card confirm-dialog"
+						className={`modal-panel card confirm-dialog${
+							pendingConfirm.details ? " confirm-dialog--details" : ""
+						}`}
 						role="alertdialog"
 						aria-modal="true"
 						aria-labelledby="confirm-dialog-title"
@@ -98,6 +101,7 @@ export function ConfirmProvider({ children }: { children: ReactNode }) {
 									{pendingConfirm.description}
 								</p>
 							) : null}
+							{pendingConfirm.details}
 							<div className="form-actions form-actions--end">
 								<button
 									type="button"
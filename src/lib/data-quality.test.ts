@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	analyzeObjectDataQuality,
+	buildDataQualityObjectsHref,
+	findDuplicateAggregateValues,
+	isLikelyUniqueDataQualityField,
+} from "@/lib/data-quality";
+
+function objectWithData(id: number, data: unknown, description = "") {
+	return { id, name: `server-${id}`, description, hubuum_class_id: 7, data };
+}
+
+const objects = [
+	objectWithData(
+		1,
+		{ hostname: "web-01", cpus: 4, ports: [80, 443] },
+		"Frontend",
+	),
+	objectWithData(2, { hostname: "web-02", cpus: "eight", ports: [] }),
+	objectWithData(3, { hostname: "db-01", cpus: 16, owner: null }, "Database"),
+	objectWithData(4, { hostname: "db-02", cpus: null }),
+];
+
+describe("analyzeObjectDataQuality", () => {
+	it("reports fill rates, type conflicts and empty descriptions", () => {
+		const report = analyzeObjectDataQuality(objects, {
+			type: "object",
+			required: ["hostname"],
+			properties: {
+				hostname: { type: "string" },
+				cpus: { type: "integer" },
+				serial: { type: "string" },
+			},
+		});
+
+		expect(report.checked).toBe(4);
+		expect(
+			report.fields.map((field) => [field.label, field.observedIn]),
+		).toEqual([
+			["serial", 0],
+			["owner", 1],
+			["ports[]", 1],
+			["ports", 2],
+			["cpus", 4],
+			["hostname", 4],
+		]);
+		expect(report.typeConflicts.map((field) => field.label)).toEqual(["cpus"]);
+		expect(report.typeConflicts[0].types).toEqual([
+			{
+				type: "number",
+				count: 2,
+				objects: [
+					{ id: 1, classId: 7, name: "server-1" },
+					{ id: 3, classId: 7, name: "server-3" },
+				],
+			},
+			{
+				type: "string",
+				count: 1,
+				objects: [{ id: 2, classId: 7, name: "server-2" }],
+			},
+			{
+				type: "null",
+				count: 1,
+				objects: [{ id: 4, classId: 7, name: "server-4" }],
+			},
+		]);
+		expect(report.schema).toMatchObject({ checked: 4, failing: 2 });
+		expect(report.emptyDescriptions).toEqual({
+			count: 2,
+			objects: [
+				{ id: 2, classId: 7, name: "server-2" },
+				{ id: 4, classId: 7, name: "server-4" },
+			],
+		});
+		expect(
+			report.fields
+				.filter(isLikelyUniqueDataQualityField)
+				.map((field) => field.label),
+		).toEqual(["hostname"]);
+		expect(analyzeObjectDataQuality(objects, {}).schema).toBeNull();
+	});
+});
+
+describe("findDuplicateAggregateValues", () => {
+	it("keeps repeated values and builds explorer links", () => {
+		expect(
+			findDuplicateAggregateValues([
+				{
+					dimensions: [{ field: "hostname", state: "value", value: "web" }],
+					object_count: 3,
+				},
+				{
+					dimensions: [{ field: "hostname", state: "null" }],
+					object_count: 5,
+				},
+				{
+					dimensions: [{ field: "hostname", state: "value", value: 12 }],
+					object_count: 2,
+				},
+				{
+					dimensions: [{ field: "hostname", state: "value", value: "db" }],
+					object_count: 1,
+				},
+			]),
+		).toEqual([
+			{ value: "web", objectCount: 3 },
+			{ value: "12", objectCount: 2 },
+		]);
+		expect(
+			decodeURIComponent(
+				buildDataQualityObjectsHref(7, [
+					{
+						field: "json_data",
+						operator: "equals",
+						value: "web",
+						path: ["hostname"],
+					},
+				]),
+			),
+		).toBe(
+			'/objects?classId=7&objectFilters=[{"field":"json_data","operator":"equals","value":"web","path":["hostname"]}]',
+		);
+	});
+});
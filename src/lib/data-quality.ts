@@ -0,0 +1,264 @@
+import type {
+	HubuumObject,
+	ObjectAggregateRow,
+} from "@/lib/api/generated/models";
+import {
+	discoverJsonFields,
+	JSON_ARRAY_ITEM_SEGMENT,
+	type JsonFieldType,
+} from "@/lib/json-field-discovery";
+import {
+	OBJECT_SERVER_FILTERS_QUERY_KEY,
+	type ObjectServerFilter,
+	serializeObjectServerFilters,
+	toServerFilterDataPath,
+} from "@/lib/object-server-filters";
+import {
+	addSchemaImpactObjects,
+	createSchemaImpactReport,
+	type SchemaImpactReport,
+} from "@/lib/schema-impact";
+
+export const DATA_QUALITY_OBJECT_LIMIT = 25;
+
+export type DataQualityObject = {
+	id: number;
+	classId: number;
+	name: string;
+};
+
+export type DataQualityObjectList = {
+	count: number;
+	objects: DataQualityObject[];
+};
+
+export type DataQualityTypeCount = DataQualityObjectList & {
+	type: JsonFieldType;
+};
+
+export type DataQualityField = {
+	path: string[];
+	label: string;
+	fromSchema: boolean;
+	observedIn: number;
+	fillRate: number;
+	types: DataQualityTypeCount[];
+	distinctValues: number | null;
+};
+
+export type DataQualityReport = {
+	checked: number;
+	fields: DataQualityField[];
+	typeConflicts: DataQualityField[];
+	schema: SchemaImpactReport | null;
+	emptyDescriptions: DataQualityObjectList;
+};
+
+export type DataQualityDuplicate = {
+	value: string;
+	objectCount: number;
+};
+
+type DataQualityObjectInput = Pick<
+	HubuumObject,
+	"id" | "name" | "description" | "hubuum_class_id" | "data"
+>;
+
+type MutableField = {
+	path: string[];
+	fromSchema: boolean;
+	observedIn: number;
+	types: Map<JsonFieldType, DataQualityObjectList>;
+	values: Set<string> | null;
+};
+
+const MAX_DEPTH = 6;
+const MAX_FIELDS_PER_OBJECT = 500;
+const MAX_SCHEMA_FIELDS = 200;
+const ARRAY_INDEX = /^\[\d+\]$/;
+const LIKELY_UNIQUE_MIN_FILL_RATE = 0.8;
+const LIKELY_UNIQUE_MIN_DISTINCT_RATIO = 0.9;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatFieldLabel(path: readonly string[]): string {
+	return path
+		.map((segment, index) =>
+			segment === JSON_ARRAY_ITEM_SEGMENT
+				? "[]"
+				: `${index === 0 ? "" : "."}${segment}`,
+		)
+		.join("");
+}
+
+function addToObjectList(list: DataQualityObjectList, item: DataQualityObject) {
+	list.count += 1;
+	if (list.objects.length < DATA_QUALITY_OBJECT_LIMIT) list.objects.push(item);
+}
+
+function readScalarValue(data: unknown, path: readonly string[]): unknown {
+	let current = data;
+	for (const segment of path) {
+		if (!isRecord(current) || !(segment in current)) return undefined;
+		current = current[segment];
+	}
+	return current;
+}
+
+function getOrCreateField(
+	fields: Map<string, MutableField>,
+	path: string[],
+): MutableField {
+	const key = JSON.stringify(path);
+	let field = fields.get(key);
+	if (!field) {
+		field = {
+			path,
+			fromSchema: false,
+			observedIn: 0,
+			types: new Map(),
+			values: path.includes(JSON_ARRAY_ITEM_SEGMENT) ? null : new Set(),
+		};
+		fields.set(key, field);
+	}
+	return field;
+}
+
+export function analyzeObjectDataQuality(
+	objects: readonly DataQualityObjectInput[],
+	jsonSchema: unknown,
+): DataQualityReport {
+	const fields = new Map<string, MutableField>();
+	const emptyDescriptions: DataQualityObjectList = { count: 0, objects: [] };
+	const hasSchema = isRecord(jsonSchema) && Object.keys(jsonSchema).length > 0;
+
+	if (hasSchema) {
+		for (const field of discoverJsonFields(jsonSchema, [], {
+			maxDepth: MAX_DEPTH,
+			maxFields: MAX_SCHEMA_FIELDS,
+		})) {
+			getOrCreateField(fields, field.path).fromSchema = true;
+		}
+	}
+
+	for (const objectItem of objects) {
+		const ref: DataQualityObject = {
+			id: objectItem.id,
+			classId: objectItem.hubuum_class_id,
+			name: objectItem.name,
+		};
+		if (!objectItem.description?.trim()) {
+			addToObjectList(emptyDescriptions, ref);
+		}
+
+		const objectTypes = new Map<string, Set<JsonFieldType>>();
+		for (const discovered of discoverJsonFields(undefined, [objectItem.data], {
+			maxDepth: MAX_DEPTH,
+			maxFields: MAX_FIELDS_PER_OBJECT,
+		})) {
+			const path = discovered.path.map((segment) =>
+				ARRAY_INDEX.test(segment) ? JSON_ARRAY_ITEM_SEGMENT : segment,
+			);
+			const field = getOrCreateField(fields, path);
+			const key = JSON.stringify(path);
+			const types = objectTypes.get(key) ?? new Set();
+			for (const type of discovered.types) types.add(type);
+			objectTypes.set(key, types);
+			if (field.values) {
+				const value = readScalarValue(objectItem.data, path);
+				if (typeof value === "string" || typeof value === "number") {
+					field.values.add(JSON.stringify(value));
+				}
+			}
+		}
+
+		for (const [key, types] of objectTypes) {
+			const field = fields.get(key);
+			if (!field) continue;
+			field.observedIn += 1;
+			for (const type of types) {
+				const list = field.types.get(type) ?? { count: 0, objects: [] };
+				addToObjectList(list, ref);
+				field.types.set(type, list);
+			}
+		}
+	}
+
+	const checked = objects.length;
+	const report: DataQualityField[] = [...fields.values()]
+		.map((field) => ({
+			path: field.path,
+			label: formatFieldLabel(field.path),
+			fromSchema: field.fromSchema,
+			observedIn: field.observedIn,
+			fillRate: checked > 0 ? field.observedIn / checked : 0,
+			types: [...field.types]
+				.map(([type, list]) => ({ type, ...list }))
+				.sort((left, right) => right.count - left.count),
+			distinctValues: field.values ? field.values.size : null,
+		}))
+		.sort(
+			(left, right) =>
+				left.fillRate - right.fillRate || left.label.localeCompare(right.label),
+		);
+
+	return {
+		checked,
+		fields: report,
+		typeConflicts: report.filter(
+			(field) =>
+				field.types.filter((entry) => entry.type !== "null").length > 1,
+		),
+		schema: hasSchema
+			? addSchemaImpactObjects(createSchemaImpactReport(), objects, jsonSchema)
+			: null,
+		emptyDescriptions,
+	};
+}
+
+export function isLikelyUniqueDataQualityField(
+	field: DataQualityField,
+): boolean {
+	return (
+		field.distinctValues !== null &&
+		field.observedIn > 1 &&
+		toServerFilterDataPath(field.path) !== null &&
+		field.fillRate >= LIKELY_UNIQUE_MIN_FILL_RATE &&
+		field.distinctValues / field.observedIn >= LIKELY_UNIQUE_MIN_DISTINCT_RATIO
+	);
+}
+
+export function findDuplicateAggregateValues(
+	rows: readonly ObjectAggregateRow[],
+): DataQualityDuplicate[] {
+	return rows.flatMap((row) => {
+		const [dimension] = row.dimensions;
+		if (row.object_count < 2 || dimension?.state !== "value") return [];
+		return [
+			{
+				value:
+					typeof dimension.value === "string"
+						? dimension.value
+						: JSON.stringify(dimension.value),
+				objectCount: row.object_count,
+			},
+		];
+	});
+}
+
+export function buildDataQualityObjectsHref(
+	classId: number,
+	filters: readonly ObjectServerFilter[],
+): string {
+	const params = new URLSearchParams();
+	params.set("classId", String(classId));
+	if (filters.length > 0) {
+		params.set(
+			OBJECT_SERVER_FILTERS_QUERY_KEY,
+			serializeObjectServerFilters(filters),
+		);
+	}
+	return `/objects?${params.toString()}`;
+}
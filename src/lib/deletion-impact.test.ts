@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	DELETION_IMPACT_ITEM_LIMIT,
+	type DeletionImpactScope,
+	isScopedToDeletedResources,
+	isSubscriptionAffectedByDeletion,
+	toDeletionImpactSection,
+	toDeletionImpactSnapshotRows,
+} from "@/lib/deletion-impact";
+
+function scope(
+	kind: DeletionImpactScope["kind"],
+	resourceIds: number[],
+	classIds: number[] = [],
+	collectionIds: number[] = [],
+): DeletionImpactScope {
+	return {
+		kind,
+		resourceIds: new Set(resourceIds),
+		classIds: new Set(classIds),
+		collectionIds: new Set(collectionIds),
+	};
+}
+
+function subscription(
+	collectionId: number,
+	entityTypes: string[],
+	filter: Record<string, number[]> = {},
+) {
+	return { collection_id: collectionId, entity_types: entityTypes, filter };
+}
+
+describe("deletion impact scoping", () => {
+	it("matches templates, remote targets and subscriptions to deleted resources", () => {
+		const classScope = scope("class", [7], [7]);
+		const collectionScope = scope("collection", [3], [7, 8], [3, 4]);
+
+		expect(
+			isScopedToDeletedResources({ class_id: 7, collection_id: 1 }, classScope),
+		).toBe(true);
+		expect(
+			isScopedToDeletedResources(
+				{ class_id: null, collection_id: 3 },
+				classScope,
+			),
+		).toBe(false);
+		expect(
+			isScopedToDeletedResources(
+				{ class_id: null, collection_id: 4 },
+				collectionScope,
+			),
+		).toBe(true);
+		expect(
+			isScopedToDeletedResources(
+				{ class_id: 7, collection_id: 1 },
+				scope("object", [7]),
+			),
+		).toBe(false);
+
+		expect(
+			isSubscriptionAffectedByDeletion(
+				subscription(1, ["class"], { entity_ids: [7] }),
+				classScope,
+			),
+		).toBe(true);
+		expect(
+			isSubscriptionAffectedByDeletion(
+				subscription(1, ["object"], { entity_ids: [7] }),
+				classScope,
+			),
+		).toBe(false);
+		expect(
+			isSubscriptionAffectedByDeletion(subscription(1, []), classScope),
+		).toBe(false);
+		expect(
+			isSubscriptionAffectedByDeletion(
+				subscription(4, ["object"]),
+				collectionScope,
+			),
+		).toBe(true);
+		expect(
+			isSubscriptionAffectedByDeletion(
+				subscription(1, [], { related_collection_ids: [3] }),
+				collectionScope,
+			),
+		).toBe(true);
+	});
+});
+
+describe("deletion impact sections", () => {
+	it("caps listed items and flattens a snapshot", () => {
+		const items = Array.from(
+			{ length: DELETION_IMPACT_ITEM_LIMIT + 5 },
+			(_, index) => ({
+				id: index + 1,
+				name: `server-${index + 1}`,
+				href: `/objects/7/${index + 1}`,
+				detail: "Hosts",
+			}),
+		);
+		const section = toDeletionImpactSection("objects", "Objects", items, 120);
+
+		expect(section.count).toBe(120);
+		expect(section.items).toHaveLength(DELETION_IMPACT_ITEM_LIMIT);
+		expect(
+			toDeletionImpactSection("relations", "Relations", items.slice(0, 2), 0)
+				.count,
+		).toBe(2);
+
+		expect(
+			toDeletionImpactSnapshotRows({
+				kind: "class",
+				checked: [{ id: 7, name: "Hosts" }],
+				skipped: 0,
+				sections: [
+					toDeletionImpactSection("objects", "Objects", items.slice(0, 1)),
+				],
+			}),
+		).toEqual([
+			{ section: "Deleted class", id: 7, name: "Hosts", detail: "" },
+			{ section: "Objects", id: 1, name: "server-1", detail: "Hosts" },
+		]);
+	});
+});
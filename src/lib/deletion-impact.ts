@@ -0,0 +1,144 @@
+import type {
+	EventSubscription,
+	ExportTemplate,
+	RemoteTarget,
+} from "@/lib/api/generated/models";
+
+export const DELETION_IMPACT_RESOURCE_LIMIT = 25;
+export const DELETION_IMPACT_ITEM_LIMIT = 25;
+
+export type DeletionImpactKind = "class" | "object" | "collection";
+
+export type DeletionImpactResource = {
+	id: number;
+	name: string;
+	classId?: number;
+	collectionId?: number;
+};
+
+export type DeletionImpactTarget = {
+	kind: DeletionImpactKind;
+	resources: DeletionImpactResource[];
+};
+
+export type DeletionImpactSectionKey =
+	| "child_collections"
+	| "classes"
+	| "objects"
+	| "relations"
+	| "related_objects"
+	| "export_templates"
+	| "remote_targets"
+	| "event_subscriptions";
+
+export type DeletionImpactItem = {
+	id: number;
+	name: string;
+	href: string | null;
+	detail: string;
+};
+
+export type DeletionImpactSection = {
+	key: DeletionImpactSectionKey;
+	label: string;
+	count: number;
+	items: DeletionImpactItem[];
+};
+
+export type DeletionImpactReport = {
+	kind: DeletionImpactKind;
+	checked: DeletionImpactResource[];
+	skipped: number;
+	sections: DeletionImpactSection[];
+};
+
+export type DeletionImpactScope = {
+	kind: DeletionImpactKind;
+	resourceIds: ReadonlySet<number>;
+	classIds: ReadonlySet<number>;
+	collectionIds: ReadonlySet<number>;
+};
+
+export type DeletionImpactSnapshotRow = {
+	section: string;
+	id: number;
+	name: string;
+	detail: string;
+};
+
+export function toDeletionImpactSection(
+	key: DeletionImpactSectionKey,
+	label: string,
+	items: readonly DeletionImpactItem[],
+	count = items.length,
+): DeletionImpactSection {
+	return {
+		key,
+		label,
+		count: Math.max(count, items.length),
+		items: items.slice(0, DELETION_IMPACT_ITEM_LIMIT),
+	};
+}
+
+export function isScopedToDeletedResources(
+	resource: Pick<ExportTemplate | RemoteTarget, "class_id" | "collection_id">,
+	scope: DeletionImpactScope,
+): boolean {
+	if (scope.kind === "object") return false;
+	return (
+		(typeof resource.class_id === "number" &&
+			scope.classIds.has(resource.class_id)) ||
+		(scope.kind === "collection" &&
+			scope.collectionIds.has(resource.collection_id))
+	);
+}
+
+function hasAny(
+	values: readonly number[] | undefined,
+	ids: ReadonlySet<number>,
+) {
+	return values?.some((value) => ids.has(value)) ?? false;
+}
+
+export function isSubscriptionAffectedByDeletion(
+	subscription: Pick<
+		EventSubscription,
+		"collection_id" | "entity_types" | "filter"
+	>,
+	scope: DeletionImpactScope,
+): boolean {
+	if (scope.kind === "collection") {
+		return (
+			scope.collectionIds.has(subscription.collection_id) ||
+			hasAny(subscription.filter?.collection_ids, scope.collectionIds) ||
+			hasAny(subscription.filter?.related_collection_ids, scope.collectionIds)
+		);
+	}
+
+	return (
+		(subscription.entity_types.length === 0 ||
+			subscription.entity_types.includes(scope.kind)) &&
+		hasAny(subscription.filter?.entity_ids, scope.resourceIds)
+	);
+}
+
+export function toDeletionImpactSnapshotRows(
+	report: DeletionImpactReport,
+): DeletionImpactSnapshotRow[] {
+	return [
+		...report.checked.map((resource) => ({
+			section: `Deleted ${report.kind}`,
+			id: resource.id,
+			name: resource.name,
+			detail: "",
+		})),
+		...report.sections.flatMap((section) =>
+			section.items.map((item) => ({
+				section: section.label,
+				id: item.id,
+				name: item.name,
+				detail: item.detail,
+			})),
+		),
+	];
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildHistoryRestorePlan,
+	compareHistoryVersions,
+	getHistoryVersionState,
+	orderHistoryVersions,
+} from "@/lib/history-versions";
+
+const olderObjectVersion = {
+	history_id: 3,
+	op: "insert",
+	valid_from: "2026-01-01T00:00:00Z",
+	valid_to: "2026-01-02T00:00:00Z" as string | null,
+	revision: 1,
+	actor_username: "alice",
+	id: 7,
+	name: "web-01",
+	description: "",
+	collection_id: 2,
+	hubuum_class_id: 4,
+	data: { os: "linux", cpu: 4 },
+};
+
+const newerObjectVersion = {
+	...olderObjectVersion,
+	history_id: 5,
+	op: "update",
+	valid_from: "2026-01-02T00:00:00Z",
+	valid_to: null,
+	revision: 2,
+	actor_username: "bob",
+	data: { os: "linux", cpu: 8 },
+};
+
+describe("history version comparison", () => {
+	it("ignores bookkeeping fields when comparing stored states", () => {
+		expect(getHistoryVersionState(newerObjectVersion)).not.toHaveProperty(
+			"history_id",
+		);
+		expect(
+			compareHistoryVersions(olderObjectVersion, newerObjectVersion),
+		).toEqual({
+			changeCount: 1,
+			value: { data: { cpu: { before: 4, after: 8 } } },
+		});
+	});
+
+	it("orders two versions oldest first", () => {
+		expect(
+			orderHistoryVersions(newerObjectVersion, olderObjectVersion).map(
+				(record) => record.history_id,
+			),
+		).toEqual([3, 5]);
+	});
+});
+
+describe("buildHistoryRestorePlan", () => {
+	it("splits object data from the other restorable fields", () => {
+		const plan = buildHistoryRestorePlan(
+			"object",
+			{ ...newerObjectVersion, name: "web-01-renamed" },
+			olderObjectVersion,
+		);
+
+		expect(plan.fields).toEqual(["name", "data"]);
+		expect(plan.update).toEqual({ name: "web-01" });
+		expect(plan.data).toEqual({
+			current: { os: "linux", cpu: 8 },
+			next: { os: "linux", cpu: 4 },
+		});
+	});
+
+	it("only restores fields that the resource update accepts", () => {
+		const plan = buildHistoryRestorePlan(
+			"remote-target",
+			{
+				name: "hook",
+				enabled: false,
+				auth_config: { type: "none" },
+				timeout_ms: 500,
+			},
+			{
+				name: "hook",
+				enabled: true,
+				auth_config: { type: "bearer" },
+				timeout_ms: 500,
+			},
+		);
+
+		expect(plan).toEqual({
+			update: { enabled: true },
+			fields: ["enabled"],
+			data: null,
+		});
+	});
+});
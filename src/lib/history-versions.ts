@@ -0,0 +1,143 @@
+import { buildJsonDifference, type JsonDifference } from "@/lib/json-diff";
+
+export type HistoryResourceKind =
+	| "object"
+	| "class"
+	| "collection"
+	| "export-template"
+	| "remote-target";
+
+export type HistoryVersionRecord = {
+	history_id: number;
+};
+
+export type HistoryRestorePlan = {
+	update: Record<string, unknown>;
+	fields: string[];
+	data: { current: unknown; next: unknown } | null;
+};
+
+const HISTORY_BOOKKEEPING_FIELDS = new Set([
+	"actor_id",
+	"actor_kind",
+	"actor_username",
+	"created_at",
+	"history_id",
+	"initiator_user_id",
+	"op",
+	"provenance",
+	"revision",
+	"task_id",
+	"updated_at",
+	"valid_from",
+	"valid_to",
+]);
+
+export const HISTORY_RESTORE_FIELDS: Record<
+	HistoryResourceKind,
+	readonly string[]
+> = {
+	object: ["name", "description", "collection_id", "data"],
+	class: [
+		"name",
+		"description",
+		"collection_id",
+		"json_schema",
+		"validate_schema",
+	],
+	collection: ["name", "description"],
+	"export-template": [
+		"name",
+		"description",
+		"collection_id",
+		"class_id",
+		"kind",
+		"scope_kind",
+		"template",
+		"default_query",
+		"default_limits",
+		"default_missing_data_policy",
+		"include",
+		"relation_context",
+	],
+	"remote-target": [
+		"name",
+		"description",
+		"collection_id",
+		"class_id",
+		"enabled",
+		"method",
+		"url_template",
+		"headers_template",
+		"body_template",
+		"timeout_ms",
+		"allowed_subject_types",
+	],
+};
+
+export function getHistoryVersionState(
+	record: object,
+): Record<string, unknown> {
+	const state: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(record)) {
+		if (!HISTORY_BOOKKEEPING_FIELDS.has(key)) {
+			state[key] = value ?? null;
+		}
+	}
+	return state;
+}
+
+export function orderHistoryVersions<T extends HistoryVersionRecord>(
+	left: T,
+	right: T,
+): [T, T] {
+	return left.history_id <= right.history_id ? [left, right] : [right, left];
+}
+
+export function compareHistoryVersions(
+	from: object,
+	to: object,
+): JsonDifference | null {
+	return buildJsonDifference(
+		getHistoryVersionState(from),
+		getHistoryVersionState(to),
+	);
+}
+
+export function pickHistoryRestoreState(
+	kind: HistoryResourceKind,
+	record: object,
+): Record<string, unknown> {
+	const values = new Map<string, unknown>(Object.entries(record));
+	const state: Record<string, unknown> = {};
+	for (const field of HISTORY_RESTORE_FIELDS[kind]) {
+		state[field] = values.get(field) ?? null;
+	}
+	return state;
+}
+
+export function buildHistoryRestorePlan(
+	kind: HistoryResourceKind,
+	current: object,
+	target: object,
+): HistoryRestorePlan {
+	const currentState = pickHistoryRestoreState(kind, current);
+	const targetState = pickHistoryRestoreState(kind, target);
+	const update: Record<string, unknown> = {};
+	const fields: string[] = [];
+	let data: HistoryRestorePlan["data"] = null;
+
+	for (const field of HISTORY_RESTORE_FIELDS[kind]) {
+		if (!buildJsonDifference(currentState[field], targetState[field])) {
+			continue;
+		}
+		fields.push(field);
+		if (kind === "object" && field === "data") {
+			data = { current: currentState.data, next: targetState.data };
+		} else {
+			update[field] = targetState[field];
+		}
+	}
+
+	return { update, fields, data };
+}
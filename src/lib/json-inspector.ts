@@ -15,6 +15,10 @@ export type JsonValidationIssue = {
 	message: string;
 };
 
+export type JsonValidationOptions = {
+	checkFormats?: boolean;
+};
+
 export type JsonSchemaAnalysis = {
 	summary: string[];
 	issues: JsonValidationIssue[];
@@ -72,7 +76,7 @@ function getLineAndColumn(
 	return { line, column };
 }
 
-function formatJsonPath(path: string, segment: string | number): string {
+export function formatJsonPath(path: string, segment: string | number): string {
 	if (typeof segment === "number") {
 		return `${path}[${segment}]`;
 	}
@@ -215,6 +219,34 @@ function validateSchemaShape(
 	}
 }
 
+const JSON_SCHEMA_FORMATS: Record<string, (value: string) => boolean> = {
+	"date-time": (value) =>
+		/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/i.test(
+			value,
+		) && !Number.isNaN(Date.parse(value)),
+	date: (value) =>
+		/^\d{4}-\d{2}-\d{2}$/.test(value) &&
+		!Number.isNaN(Date.parse(`${value}T00:00:00Z`)),
+	ipv4: (value) => {
+		const parts = value.split(".");
+		return (
+			parts.length === 4 &&
+			parts.every(
+				(part) => /^(?:0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255,
+			)
+		);
+	},
+	uri: (value) => {
+		if (!/^[a-z][a-z\d+.-]*:/i.test(value)) return false;
+		try {
+			return Boolean(new URL(value).protocol);
+		} catch {
+			return false;
+		}
+	},
+	email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+};
+
 function valueMatchesType(value: unknown, type: string): boolean {
 	switch (type) {
 		case "object":
@@ -241,6 +273,7 @@ function validateAgainstSchema(
 	schema: JsonSchemaObject,
 	path: string,
 	issues: JsonValidationIssue[],
+	options: JsonValidationOptions,
 ): void {
 	const types = getSchemaTypeList(schema);
 	if (
@@ -271,6 +304,34 @@ function validateAgainstSchema(
 		});
 	}
 
+	for (const keyword of ["oneOf", "anyOf"] as const) {
+		const variants = schema[keyword];
+		if (!Array.isArray(variants) || variants.length === 0) {
+			continue;
+		}
+		const matches = variants.filter((variant) => {
+			if (!isSchemaObject(variant)) return false;
+			const variantIssues: JsonValidationIssue[] = [];
+			validateAgainstSchema(value, variant, path, variantIssues, options);
+			return variantIssues.length === 0;
+		}).length;
+		if (keyword === "oneOf" && matches !== 1) {
+			issues.push({
+				path,
+				message:
+					matches === 0
+						? "Value does not match any of the allowed variants."
+						: `Value matches ${matches} variants but must match exactly one.`,
+			});
+		}
+		if (keyword === "anyOf" && matches === 0) {
+			issues.push({
+				path,
+				message: "Value does not match any of the allowed variants.",
+			});
+		}
+	}
+
 	if (typeof value === "string") {
 		if (
 			typeof schema.minLength === "number" &&
@@ -292,6 +353,17 @@ function validateAgainstSchema(
 			});
 		}
 
+		const checkFormat =
+			options.checkFormats && typeof schema.format === "string"
+				? JSON_SCHEMA_FORMATS[schema.format]
+				: undefined;
+		if (checkFormat && !checkFormat(value)) {
+			issues.push({
+				path,
+				message: `String is not a valid ${schema.format}.`,
+			});
+		}
+
 		if (typeof schema.pattern === "string") {
 			try {
 				const pattern = new RegExp(schema.pattern);
@@ -352,6 +424,7 @@ function validateAgainstSchema(
 					itemSchema,
 					formatJsonPath(path, index),
 					issues,
+					options,
 				);
 			}
 		} else if (isSchemaObject(schema.items)) {
@@ -361,6 +434,7 @@ function validateAgainstSchema(
 					schema.items,
 					formatJsonPath(path, index),
 					issues,
+					options,
 				);
 			}
 		}
@@ -398,6 +472,7 @@ function validateAgainstSchema(
 					propertySchema,
 					formatJsonPath(path, propertyName),
 					issues,
+					options,
 				);
 			}
 		}
@@ -527,6 +602,7 @@ export function analyzeJsonSchema(schema: unknown): JsonSchemaAnalysis {
 export function validateJsonAgainstSchema(
 	value: unknown,
 	schema: unknown,
+	options: JsonValidationOptions = {},
 ): { issues: JsonValidationIssue[]; note: string | null } {
 	if (!isSchemaObject(schema)) {
 		return {
@@ -536,7 +612,7 @@ export function validateJsonAgainstSchema(
 	}
 
 	const issues: JsonValidationIssue[] = [];
-	validateAgainstSchema(value, schema, "$", issues);
+	validateAgainstSchema(value, schema, "$", issues, options);
 
 	return {
 		issues,
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildJsonSchemaFromBuilder,
+	changeJsonSchemaBuilderFieldType,
+	createJsonSchemaBuilderProperty,
+	getJsonSchemaBuilderIssues,
+	moveJsonSchemaBuilderField,
+	parseJsonSchemaBuilder,
+	parseJsonSchemaEnumInput,
+	removeJsonSchemaBuilderField,
+	updateJsonSchemaBuilderField,
+} from "@/lib/json-schema-builder";
+
+function idSequence() {
+	let next = 1;
+	return () => next++;
+}
+
+const schema = {
+	$schema: "https://json-schema.org/draft/2020-12/schema",
+	type: "object",
+	required: ["hostname"],
+	properties: {
+		hostname: { type: "string", title: "Host name", minLength: 3 },
+		environment: { type: ["string", "null"], enum: ["prod", "dev", null] },
+		interfaces: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { address: { type: "string", format: "ipv4" } },
+				additionalProperties: false,
+			},
+		},
+		owner: { oneOf: [{ type: "string" }, { type: "integer" }] },
+	},
+};
+
+describe("parseJsonSchemaBuilder", () => {
+	it("round-trips supported keywords and keeps unsupported ones as-is", () => {
+		const root = parseJsonSchemaBuilder(schema, idSequence());
+
+		expect(root?.properties.map((field) => [field.key, field.type])).toEqual([
+			["hostname", "string"],
+			["environment", "string"],
+			["interfaces", "array"],
+			["owner", "custom"],
+		]);
+		expect(root?.properties[1]).toMatchObject({
+			nullable: true,
+			enumValues: ["prod", "dev"],
+		});
+		expect(root && buildJsonSchemaFromBuilder(root)).toEqual(schema);
+	});
+
+	it("starts empty schemas as objects and rejects non-object roots", () => {
+		const root = parseJsonSchemaBuilder(undefined, idSequence());
+
+		expect(root && buildJsonSchemaFromBuilder(root)).toEqual({
+			type: "object",
+			properties: {},
+		});
+		expect(parseJsonSchemaBuilder({ type: "string" }, idSequence())).toBeNull();
+		expect(parseJsonSchemaBuilder([], idSequence())).toBeNull();
+	});
+});
+
+describe("json schema builder edits", () => {
+	it("adds, retypes, reorders and removes nested properties", () => {
+		const createId = idSequence();
+		const parsed = parseJsonSchemaBuilder(schema, createId);
+		if (!parsed) throw new Error("expected a builder root");
+		const interfaces = parsed.properties[2];
+		const item = interfaces.items;
+		if (!item) throw new Error("expected an item schema");
+
+		let root = updateJsonSchemaBuilderField(parsed, item.id, (field) => ({
+			...field,
+			properties: [
+				...field.properties,
+				createJsonSchemaBuilderProperty(field.properties, createId),
+			],
+		}));
+		const added = root.properties[2].items?.properties[1];
+		if (!added) throw new Error("expected an added property");
+		root = updateJsonSchemaBuilderField(root, added.id, (field) => ({
+			...changeJsonSchemaBuilderFieldType(field, "array", createId),
+			key: "vlans",
+			required: true,
+		}));
+		root = moveJsonSchemaBuilderField(root, parsed.properties[0].id, 1);
+		root = removeJsonSchemaBuilderField(root, parsed.properties[3].id);
+
+		expect(buildJsonSchemaFromBuilder(root)).toMatchObject({
+			required: ["hostname"],
+			properties: {
+				interfaces: {
+					items: {
+						required: ["vlans"],
+						properties: {
+							address: { type: "string", format: "ipv4" },
+							vlans: { type: "array", items: { type: "string" } },
+						},
+					},
+				},
+			},
+		});
+		expect(
+			Object.keys(buildJsonSchemaFromBuilder(root).properties ?? {}),
+		).toEqual(["environment", "hostname", "interfaces"]);
+	});
+
+	it("reports empty and duplicate property names", () => {
+		const createId = idSequence();
+		const root = parseJsonSchemaBuilder(
+			{ type: "object", properties: { name: {}, other: {} } },
+			createId,
+		);
+		if (!root) throw new Error("expected a builder root");
+		const edited = updateJsonSchemaBuilderField(
+			updateJsonSchemaBuilderField(root, root.properties[1].id, (field) => ({
+				...field,
+				key: "name",
+			})),
+			root.properties[0].id,
+			(field) => ({ ...field, key: " " }),
+		);
+
+		expect(getJsonSchemaBuilderIssues(edited)).toEqual([
+			{ path: "$.?", message: "Property name is empty." },
+		]);
+		expect(
+			getJsonSchemaBuilderIssues(
+				updateJsonSchemaBuilderField(root, root.properties[1].id, (field) => ({
+					...field,
+					key: "name",
+				})),
+			),
+		).toEqual([
+			{ path: "$.name", message: "Property name is used more than once." },
+		]);
+	});
+
+	it("parses enum input for the field type", () => {
+		expect(parseJsonSchemaEnumInput("prod, dev,prod", "string")).toEqual({
+			values: ["prod", "dev"],
+			error: null,
+		});
+		expect(parseJsonSchemaEnumInput("1, 2.5", "integer")).toEqual({
+			values: [],
+			error: "Not an integer: 2.5",
+		});
+	});
+});
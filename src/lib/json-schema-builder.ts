@@ -0,0 +1,416 @@
+import { formatJsonPath, type JsonValidationIssue } from "@/lib/json-inspector";
+
+export type JsonSchemaBuilderFieldType =
+	| "string"
+	| "number"
+	| "integer"
+	| "boolean"
+	| "object"
+	| "array"
+	| "custom";
+
+export type JsonSchemaBuilderField = {
+	id: number;
+	key: string;
+	type: JsonSchemaBuilderFieldType;
+	nullable: boolean;
+	required: boolean;
+	title: string;
+	description: string;
+	format: string;
+	enumValues: unknown[];
+	properties: JsonSchemaBuilderField[];
+	additionalProperties: boolean;
+	items: JsonSchemaBuilderField | null;
+	extra: Record<string, unknown>;
+};
+
+export const JSON_SCHEMA_BUILDER_TYPES: Array<{
+	value: Exclude<JsonSchemaBuilderFieldType, "custom">;
+	label: string;
+}> = [
+	{ value: "string", label: "Text" },
+	{ value: "number", label: "Number" },
+	{ value: "integer", label: "Integer" },
+	{ value: "boolean", label: "True / false" },
+	{ value: "object", label: "Object" },
+	{ value: "array", label: "Array" },
+];
+
+export const JSON_SCHEMA_BUILDER_FORMATS: Array<{
+	value: string;
+	label: string;
+}> = [
+	{ value: "date-time", label: "Date and time" },
+	{ value: "date", label: "Date" },
+	{ value: "email", label: "Email" },
+	{ value: "uri", label: "URI" },
+	{ value: "ipv4", label: "IPv4 address" },
+];
+
+const MODELLED_KEYWORDS = new Set([
+	"type",
+	"title",
+	"description",
+	"format",
+	"enum",
+	"properties",
+	"required",
+	"additionalProperties",
+	"items",
+]);
+
+const COMPOSITION_KEYWORDS = [
+	"$ref",
+	"allOf",
+	"anyOf",
+	"oneOf",
+	"not",
+	"if",
+	"then",
+	"else",
+	"const",
+];
+
+const SIMPLE_TYPES = new Set<string>([
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"object",
+	"array",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown): string {
+	return typeof value === "string" ? value : "";
+}
+
+function emptyField(
+	id: number,
+	key: string,
+	type: JsonSchemaBuilderFieldType,
+): JsonSchemaBuilderField {
+	return {
+		id,
+		key,
+		type,
+		nullable: false,
+		required: false,
+		title: "",
+		description: "",
+		format: "",
+		enumValues: [],
+		properties: [],
+		additionalProperties: true,
+		items: null,
+		extra: {},
+	};
+}
+
+function parseField(
+	schema: unknown,
+	key: string,
+	required: boolean,
+	createId: () => number,
+): JsonSchemaBuilderField {
+	const id = createId();
+	if (!isRecord(schema)) {
+		return { ...emptyField(id, key, "custom"), required, extra: {} };
+	}
+
+	const rawTypes = Array.isArray(schema.type)
+		? schema.type
+		: schema.type === undefined
+			? []
+			: [schema.type];
+	const nullable = rawTypes.includes("null");
+	const types = rawTypes.filter((type) => type !== "null");
+	let type: string | undefined = types.length === 1 ? types[0] : undefined;
+	if (rawTypes.length === 0 && isRecord(schema.properties)) type = "object";
+	if (rawTypes.length === 0 && isRecord(schema.items)) type = "array";
+
+	const isCustom =
+		typeof type !== "string" ||
+		!SIMPLE_TYPES.has(type) ||
+		types.some((entry) => typeof entry !== "string") ||
+		COMPOSITION_KEYWORDS.some((keyword) => keyword in schema) ||
+		("items" in schema && !isRecord(schema.items)) ||
+		("properties" in schema && !isRecord(schema.properties)) ||
+		("additionalProperties" in schema &&
+			typeof schema.additionalProperties !== "boolean") ||
+		("enum" in schema && !Array.isArray(schema.enum));
+	if (isCustom) {
+		return {
+			...emptyField(id, key, "custom"),
+			required,
+			extra: { ...schema },
+		};
+	}
+
+	const fieldType = type as Exclude<JsonSchemaBuilderFieldType, "custom">;
+	const requiredKeys = Array.isArray(schema.required)
+		? schema.required.filter(
+				(entry): entry is string => typeof entry === "string",
+			)
+		: [];
+	const properties = isRecord(schema.properties)
+		? Object.entries(schema.properties).map(([propertyKey, propertySchema]) =>
+				parseField(
+					propertySchema,
+					propertyKey,
+					requiredKeys.includes(propertyKey),
+					createId,
+				),
+			)
+		: [];
+
+	return {
+		id,
+		key,
+		type: fieldType,
+		nullable,
+		required,
+		title: readText(schema.title),
+		description: readText(schema.description),
+		format: readText(schema.format),
+		enumValues: Array.isArray(schema.enum)
+			? schema.enum.filter((value) => !nullable || value !== null)
+			: [],
+		properties,
+		additionalProperties: schema.additionalProperties !== false,
+		items: isRecord(schema.items)
+			? parseField(schema.items, "", false, createId)
+			: null,
+		extra: Object.fromEntries(
+			Object.entries(schema).filter(
+				([keyword]) => !MODELLED_KEYWORDS.has(keyword),
+			),
+		),
+	};
+}
+
+export function parseJsonSchemaBuilder(
+	schema: unknown,
+	createId: () => number,
+): JsonSchemaBuilderField | null {
+	if (schema === undefined || schema === null) {
+		return emptyField(createId(), "", "object");
+	}
+	const root = parseField(schema, "", false, createId);
+	return root.type === "object" && !root.nullable ? root : null;
+}
+
+export function buildJsonSchemaFromBuilder(
+	field: JsonSchemaBuilderField,
+): Record<string, unknown> {
+	if (field.type === "custom") return { ...field.extra };
+
+	const schema: Record<string, unknown> = {};
+	if (field.title.trim()) schema.title = field.title.trim();
+	if (field.description.trim()) schema.description = field.description.trim();
+	schema.type = field.nullable ? [field.type, "null"] : field.type;
+	if (field.type === "string" && field.format) schema.format = field.format;
+	if (field.enumValues.length > 0) {
+		schema.enum =
+			field.nullable && !field.enumValues.includes(null)
+				? [...field.enumValues, null]
+				: [...field.enumValues];
+	}
+	Object.assign(schema, field.extra);
+
+	if (field.type === "object") {
+		schema.properties = Object.fromEntries(
+			field.properties.map((property) => [
+				property.key.trim(),
+				buildJsonSchemaFromBuilder(property),
+			]),
+		);
+		const required = field.properties
+			.filter((property) => property.required)
+			.map((property) => property.key.trim());
+		if (required.length > 0) schema.required = required;
+		if (!field.additionalProperties) schema.additionalProperties = false;
+	}
+	if (field.type === "array" && field.items) {
+		schema.items = buildJsonSchemaFromBuilder(field.items);
+	}
+	return schema;
+}
+
+export function createJsonSchemaBuilderProperty(
+	siblings: readonly JsonSchemaBuilderField[],
+	createId: () => number,
+): JsonSchemaBuilderField {
+	const keys = new Set(siblings.map((sibling) => sibling.key));
+	let index = siblings.length + 1;
+	while (keys.has(`field_${index}`)) index += 1;
+	return emptyField(createId(), `field_${index}`, "string");
+}
+
+export function changeJsonSchemaBuilderFieldType(
+	field: JsonSchemaBuilderField,
+	type: Exclude<JsonSchemaBuilderFieldType, "custom">,
+	createId: () => number,
+): JsonSchemaBuilderField {
+	const keepsEnum =
+		(type === "string" || type === "number" || type === "integer") &&
+		field.enumValues.every((value) =>
+			type === "string"
+				? typeof value === "string"
+				: typeof value === "number" &&
+					(type === "number" || Number.isInteger(value)),
+		);
+	return {
+		...field,
+		type,
+		format: type === "string" ? field.format : "",
+		enumValues: keepsEnum ? field.enumValues : [],
+		extra: field.type === "custom" ? {} : field.extra,
+		items:
+			type === "array" && !field.items
+				? emptyField(createId(), "", "string")
+				: field.items,
+	};
+}
+
+function mapChildren(
+	field: JsonSchemaBuilderField,
+	map: (children: JsonSchemaBuilderField[]) => JsonSchemaBuilderField[],
+): JsonSchemaBuilderField {
+	const properties = map(field.properties);
+	const [items] = field.items ? map([field.items]) : [null];
+	return properties === field.properties && items === field.items
+		? field
+		: { ...field, properties, items: items ?? null };
+}
+
+function transformFields(
+	fields: JsonSchemaBuilderField[],
+	id: number,
+	transform: (
+		fields: JsonSchemaBuilderField[],
+		index: number,
+	) => JsonSchemaBuilderField[],
+): JsonSchemaBuilderField[] {
+	const index = fields.findIndex((field) => field.id === id);
+	if (index >= 0) return transform(fields, index);
+
+	let changed = false;
+	const next = fields.map((field) => {
+		const mapped = mapChildren(field, (children) =>
+			transformFields(children, id, transform),
+		);
+		if (mapped !== field) changed = true;
+		return mapped;
+	});
+	return changed ? next : fields;
+}
+
+export function updateJsonSchemaBuilderField(
+	root: JsonSchemaBuilderField,
+	id: number,
+	update: (field: JsonSchemaBuilderField) => JsonSchemaBuilderField,
+): JsonSchemaBuilderField {
+	if (root.id === id) return update(root);
+	return mapChildren(root, (children) =>
+		transformFields(children, id, (fields, index) =>
+			fields.map((field, fieldIndex) =>
+				fieldIndex === index ? update(field) : field,
+			),
+		),
+	);
+}
+
+export function removeJsonSchemaBuilderField(
+	root: JsonSchemaBuilderField,
+	id: number,
+): JsonSchemaBuilderField {
+	return mapChildren(root, (children) =>
+		transformFields(children, id, (fields, index) =>
+			fields.filter((_, fieldIndex) => fieldIndex !== index),
+		),
+	);
+}
+
+export function moveJsonSchemaBuilderField(
+	root: JsonSchemaBuilderField,
+	id: number,
+	offset: -1 | 1,
+): JsonSchemaBuilderField {
+	return mapChildren(root, (children) =>
+		transformFields(children, id, (fields, index) => {
+			const target = index + offset;
+			if (target < 0 || target >= fields.length) return fields;
+			const next = [...fields];
+			[next[index], next[target]] = [next[target], next[index]];
+			return next;
+		}),
+	);
+}
+
+export function parseJsonSchemaEnumInput(
+	input: string,
+	type: JsonSchemaBuilderFieldType,
+): { values: unknown[]; error: string | null } {
+	const entries = input
+		.split(/[,\n]/)
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+	if (type !== "number" && type !== "integer") {
+		return { values: [...new Set(entries)], error: null };
+	}
+
+	const values = entries.map(Number);
+	const invalid = entries.filter(
+		(_, index) =>
+			!Number.isFinite(values[index]) ||
+			(type === "integer" && !Number.isInteger(values[index])),
+	);
+	return invalid.length > 0
+		? {
+				values: [],
+				error: `Not ${type === "integer" ? "an integer" : "a number"}: ${invalid.join(", ")}`,
+			}
+		: { values: [...new Set(values)], error: null };
+}
+
+export function formatJsonSchemaEnumInput(values: readonly unknown[]): string {
+	return values
+		.filter((value) => value !== null)
+		.map((value) => (typeof value === "string" ? value : JSON.stringify(value)))
+		.join(", ");
+}
+
+export function getJsonSchemaBuilderIssues(
+	root: JsonSchemaBuilderField,
+): JsonValidationIssue[] {
+	const issues: JsonValidationIssue[] = [];
+
+	function visit(field: JsonSchemaBuilderField, path: string) {
+		const seen = new Set<string>();
+		for (const property of field.properties) {
+			const key = property.key.trim();
+			const propertyPath = formatJsonPath(path, key || "?");
+			if (!key) {
+				issues.push({ path: propertyPath, message: "Property name is empty." });
+			} else if (seen.has(key)) {
+				issues.push({
+					path: propertyPath,
+					message: "Property name is used more than once.",
+				});
+			}
+			seen.add(key);
+			visit(property, propertyPath);
+		}
+		if (field.type === "array" && field.items) {
+			visit(field.items, formatJsonPath(path, "items"));
+		}
+	}
+
+	visit(root, "$");
+	return issues;
+}
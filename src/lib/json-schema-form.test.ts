@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+
+import { validateJsonAgainstSchema } from "@/lib/json-inspector";
+import {
+	describeJsonSchemaFormNode,
+	findJsonSchemaVariantIndex,
+	fromDateTimeInputValue,
+	getJsonSchemaFormInputFormat,
+	groupJsonValidationIssuesByPath,
+	hasJsonSchemaForm,
+	toDateTimeInputValue,
+} from "@/lib/json-schema-form";
+
+const schema = {
+	type: "object",
+	required: ["hostname", "interfaces"],
+	properties: {
+		hostname: { type: "string", title: "Host name", minLength: 3 },
+		environment: { enum: ["prod", "dev"] },
+		commissioned_at: { type: "string", format: "date-time" },
+		interfaces: {
+			type: "array",
+			minItems: 1,
+			items: {
+				type: "object",
+				required: ["address"],
+				properties: {
+					address: { type: "string", format: "ipv4" },
+					url: { type: "string", format: "uri" },
+				},
+			},
+		},
+		owner: {
+			oneOf: [
+				{
+					title: "Team",
+					type: "object",
+					properties: { team: { type: "string" } },
+					required: ["team"],
+					additionalProperties: false,
+				},
+				{ title: "Email", type: "string", format: "email" },
+			],
+		},
+		rack: { type: ["integer", "null"], minimum: 1, maximum: 42 },
+	},
+};
+
+describe("describeJsonSchemaFormNode", () => {
+	it("describes nested objects, enums, variants and nullable types", () => {
+		const root = describeJsonSchemaFormNode(schema, {});
+
+		expect(hasJsonSchemaForm(schema)).toBe(true);
+		expect(hasJsonSchemaForm({ type: "string" })).toBe(false);
+		expect(root.kind).toBe("object");
+		expect(
+			root.properties.map((property) => [property.key, property.required]),
+		).toEqual([
+			["hostname", true],
+			["environment", false],
+			["commissioned_at", false],
+			["interfaces", true],
+			["owner", false],
+			["rack", false],
+		]);
+
+		const [hostname, environment, , interfaces, owner] = root.properties.map(
+			(property) => describeJsonSchemaFormNode(property.schema, undefined),
+		);
+		expect(hostname).toMatchObject({ kind: "string", title: "Host name" });
+		expect(environment).toMatchObject({
+			kind: "enum",
+			enumValues: ["prod", "dev"],
+		});
+		expect(interfaces.kind).toBe("array");
+		expect(describeJsonSchemaFormNode(interfaces.itemSchema(0), {}).kind).toBe(
+			"object",
+		);
+		expect(owner.kind).toBe("one-of");
+		expect(owner.variants.map((variant) => variant.label)).toEqual([
+			"Team",
+			"Email",
+		]);
+		expect(describeJsonSchemaFormNode(schema.properties.rack, 4).kind).toBe(
+			"integer",
+		);
+		expect(
+			describeJsonSchemaFormNode(schema.properties.rack, null),
+		).toMatchObject({
+			kind: "null",
+			types: ["integer", "null"],
+			minimum: 1,
+			maximum: 42,
+		});
+	});
+
+	it("picks the oneOf variant that matches the current value", () => {
+		const owner = describeJsonSchemaFormNode(schema.properties.owner, null);
+
+		expect(findJsonSchemaVariantIndex(owner.variants, { team: "ops" })).toBe(0);
+		expect(findJsonSchemaVariantIndex(owner.variants, "ops@example.com")).toBe(
+			1,
+		);
+		expect(findJsonSchemaVariantIndex(owner.variants, "not an email")).toBe(1);
+	});
+});
+
+describe("schema form validation", () => {
+	it("reports nested format, variant and required issues by path", () => {
+		const { issues } = validateJsonAgainstSchema(
+			{
+				hostname: "db",
+				commissioned_at: "yesterday",
+				interfaces: [{ address: "10.0.0.300", url: "not a uri" }, {}],
+				owner: 7,
+			},
+			schema,
+			{ checkFormats: true },
+		);
+		const grouped = groupJsonValidationIssuesByPath(issues);
+
+		expect(grouped.get("$.hostname")).toEqual([
+			"String must be at least 3 characters.",
+		]);
+		expect(grouped.get("$.commissioned_at")).toEqual([
+			"String is not a valid date-time.",
+		]);
+		expect(grouped.get("$.interfaces[0].address")).toEqual([
+			"String is not a valid ipv4.",
+		]);
+		expect(grouped.get("$.interfaces[0].url")).toEqual([
+			"String is not a valid uri.",
+		]);
+		expect(grouped.get("$.interfaces[1].address")).toEqual([
+			"Required property is missing.",
+		]);
+		expect(grouped.get("$.owner")).toEqual([
+			"Value does not match any of the allowed variants.",
+		]);
+		expect(
+			validateJsonAgainstSchema(
+				{
+					hostname: "db-01",
+					commissioned_at: "2026-03-01T12:00:00Z",
+					interfaces: [{ address: "10.0.0.3", url: "https://example.com" }],
+					owner: { team: "ops" },
+					rack: null,
+				},
+				schema,
+			).issues,
+		).toEqual([]);
+	});
+
+	it("keeps existing non-conforming values valid outside the schema form", () => {
+		const stored = {
+			hostname: "db-01",
+			commissioned_at: "yesterday",
+			interfaces: [{ address: "rack 4", url: "intranet page" }],
+			owner: "ops team",
+		};
+
+		expect(validateJsonAgainstSchema(stored, schema).issues).toEqual([]);
+		expect(
+			getJsonSchemaFormInputFormat("date-time", stored.commissioned_at),
+		).toBeNull();
+		expect(getJsonSchemaFormInputFormat("date-time", "")).toBe("date-time");
+		expect(
+			getJsonSchemaFormInputFormat("date-time", "2026-03-01T12:00:00Z"),
+		).toBe("date-time");
+	});
+
+	it("round-trips date-time values through local input values", () => {
+		const iso = "2026-03-01T12:30:00.000Z";
+		const local = toDateTimeInputValue(iso);
+
+		expect(local).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+		expect(fromDateTimeInputValue(local)).toBe(iso);
+		expect(toDateTimeInputValue("soon")).toBe("");
+		expect(fromDateTimeInputValue("")).toBe("");
+	});
+});
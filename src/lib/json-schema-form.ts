@@ -0,0 +1,255 @@
+import {
+	type JsonValidationIssue,
+	validateJsonAgainstSchema,
+} from "@/lib/json-inspector";
+
+export type JsonSchemaFormType =
+	| "object"
+	| "array"
+	| "string"
+	| "number"
+	| "integer"
+	| "boolean"
+	| "null";
+
+export type JsonSchemaFormKind = JsonSchemaFormType | "enum" | "one-of" | "any";
+
+export type JsonSchemaFormProperty = {
+	key: string;
+	schema: unknown;
+	required: boolean;
+};
+
+export type JsonSchemaFormVariant = {
+	label: string;
+	schema: unknown;
+};
+
+export type JsonSchemaFormNode = {
+	kind: JsonSchemaFormKind;
+	types: JsonSchemaFormType[];
+	title: string | null;
+	description: string | null;
+	format: string | null;
+	enumValues: unknown[];
+	variants: JsonSchemaFormVariant[];
+	properties: JsonSchemaFormProperty[];
+	allowsAdditionalProperties: boolean;
+	itemSchema: (index: number) => unknown;
+	minimum: number | null;
+	maximum: number | null;
+	minLength: number | null;
+	maxLength: number | null;
+	minItems: number | null;
+	maxItems: number | null;
+};
+
+const JSON_SCHEMA_FORM_TYPES: JsonSchemaFormType[] = [
+	"object",
+	"array",
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"null",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function numberKeyword(
+	schema: Record<string, unknown>,
+	keyword: string,
+): number | null {
+	const value = schema[keyword];
+	return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function getDeclaredTypes(
+	schema: Record<string, unknown>,
+): JsonSchemaFormType[] {
+	const rawTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
+	const types = JSON_SCHEMA_FORM_TYPES.filter((type) =>
+		rawTypes.includes(type),
+	);
+	if (types.length > 0) return types;
+	if (isRecord(schema.properties)) return ["object"];
+	if (schema.items !== undefined) return ["array"];
+	return [];
+}
+
+export function getJsonValueType(value: unknown): JsonSchemaFormType {
+	if (value === null || value === undefined) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? "integer" : "number";
+	}
+	if (typeof value === "boolean") return "boolean";
+	if (typeof value === "string") return "string";
+	return "object";
+}
+
+function pickType(
+	types: readonly JsonSchemaFormType[],
+	value: unknown,
+): JsonSchemaFormType | null {
+	const valueType = getJsonValueType(value);
+	if (types.includes(valueType)) return valueType;
+	if (valueType === "integer" && types.includes("number")) return "number";
+	return types.find((type) => type !== "null") ?? types[0] ?? null;
+}
+
+function describeVariant(schema: unknown, index: number): string {
+	if (!isRecord(schema)) return `Option ${index + 1}`;
+	if (typeof schema.title === "string" && schema.title.trim()) {
+		return schema.title.trim();
+	}
+	if ("const" in schema) return JSON.stringify(schema.const);
+	const types = getDeclaredTypes(schema);
+	if (types.includes("object") && isRecord(schema.properties)) {
+		const keys = Object.keys(schema.properties);
+		return keys.length > 0
+			? `Object (${keys.slice(0, 3).join(", ")}${keys.length > 3 ? ", …" : ""})`
+			: "Object";
+	}
+	return types.length > 0 ? types.join(" or ") : `Option ${index + 1}`;
+}
+
+export function hasJsonSchemaForm(schema: unknown): boolean {
+	return (
+		isRecord(schema) &&
+		getDeclaredTypes(schema).includes("object") &&
+		isRecord(schema.properties) &&
+		Object.keys(schema.properties).length > 0
+	);
+}
+
+export function describeJsonSchemaFormNode(
+	schema: unknown,
+	value: unknown,
+): JsonSchemaFormNode {
+	const record = isRecord(schema) ? schema : {};
+	const types = getDeclaredTypes(record);
+	const variantSchemas = Array.isArray(record.oneOf)
+		? record.oneOf
+		: Array.isArray(record.anyOf)
+			? record.anyOf
+			: [];
+	const enumValues = Array.isArray(record.enum) ? record.enum : [];
+	const properties = isRecord(record.properties) ? record.properties : {};
+	const required = Array.isArray(record.required)
+		? record.required.filter(
+				(entry): entry is string => typeof entry === "string",
+			)
+		: [];
+	const items = record.items;
+
+	let kind: JsonSchemaFormKind;
+	if (enumValues.length > 0) {
+		kind = "enum";
+	} else if (variantSchemas.length > 0 && types.length === 0) {
+		kind = "one-of";
+	} else {
+		kind = pickType(types, value) ?? "any";
+	}
+
+	return {
+		kind,
+		types,
+		title:
+			typeof record.title === "string" && record.title.trim()
+				? record.title.trim()
+				: null,
+		description:
+			typeof record.description === "string" && record.description.trim()
+				? record.description.trim()
+				: null,
+		format: typeof record.format === "string" ? record.format : null,
+		enumValues,
+		variants: variantSchemas.map((variant, index) => ({
+			label: describeVariant(variant, index),
+			schema: variant,
+		})),
+		properties: Object.entries(properties).map(([key, propertySchema]) => ({
+			key,
+			schema: propertySchema,
+			required: required.includes(key),
+		})),
+		allowsAdditionalProperties: record.additionalProperties !== false,
+		itemSchema: (index) =>
+			Array.isArray(items) ? (items[index] ?? {}) : (items ?? {}),
+		minimum: numberKeyword(record, "minimum"),
+		maximum: numberKeyword(record, "maximum"),
+		minLength: numberKeyword(record, "minLength"),
+		maxLength: numberKeyword(record, "maxLength"),
+		minItems: numberKeyword(record, "minItems"),
+		maxItems: numberKeyword(record, "maxItems"),
+	};
+}
+
+export function findJsonSchemaVariantIndex(
+	variants: readonly JsonSchemaFormVariant[],
+	value: unknown,
+): number {
+	const exactIndex = variants.findIndex(
+		(variant) =>
+			validateJsonAgainstSchema(value, variant.schema, {
+				checkFormats: true,
+			}).issues.length === 0,
+	);
+	if (exactIndex >= 0) return exactIndex;
+	const valueType = getJsonValueType(value);
+	const typeIndex = variants.findIndex(
+		(variant) =>
+			isRecord(variant.schema) &&
+			pickType(getDeclaredTypes(variant.schema), value) === valueType,
+	);
+	return Math.max(typeIndex, 0);
+}
+
+export function groupJsonValidationIssuesByPath(
+	issues: readonly JsonValidationIssue[],
+): Map<string, string[]> {
+	const grouped = new Map<string, string[]>();
+	for (const issue of issues) {
+		const messages = grouped.get(issue.path);
+		if (messages) {
+			if (!messages.includes(issue.message)) messages.push(issue.message);
+		} else {
+			grouped.set(issue.path, [issue.message]);
+		}
+	}
+	return grouped;
+}
+
+function padDatePart(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+export function getJsonSchemaFormInputFormat(
+	format: string | null,
+	value: unknown,
+): string | null {
+	if (!format || typeof value !== "string" || !value) return format;
+	return validateJsonAgainstSchema(
+		value,
+		{ type: "string", format },
+		{ checkFormats: true },
+	).issues.length === 0
+		? format
+		: null;
+}
+
+export function toDateTimeInputValue(value: unknown): string {
+	if (typeof value !== "string" || !value) return "";
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return "";
+	return `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())}T${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}`;
+}
+
+export function fromDateTimeInputValue(value: string): string {
+	if (!value) return "";
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { validateJsonAgainstSchema } from "@/lib/json-inspector";
+import { inferJsonSchemaFromObjects } from "@/lib/json-schema-inference";
+
+const samples = [
+	{
+		hostname: "web-01",
+		environment: "prod",
+		cpus: 4,
+		load: 0.5,
+		commissioned_at: "2026-01-02T10:00:00Z",
+		interfaces: [{ address: "10.0.0.1", vlan: 10 }, { address: "10.0.0.2" }],
+		owner: { team: "ops" },
+	},
+	{
+		hostname: "web-02",
+		environment: "prod",
+		cpus: 8,
+		load: 1,
+		commissioned_at: "2026-02-02T10:00:00Z",
+		interfaces: [{ address: "10.0.1.1", vlan: 20 }],
+		owner: null,
+	},
+	{
+		hostname: "db-01",
+		environment: "dev",
+		cpus: 16,
+		load: 2,
+		interfaces: [],
+	},
+	{
+		hostname: "db-02",
+		environment: "dev",
+		cpus: 16,
+		load: 3,
+		commissioned_at: "2026-03-02T10:00:00Z",
+		interfaces: [{ address: "10.0.2.1" }],
+		owner: { team: "dba" },
+	},
+];
+
+describe("inferJsonSchemaFromObjects", () => {
+	it("infers types, nested structure, formats, enums and required fields", () => {
+		const inferred = inferJsonSchemaFromObjects(samples);
+
+		expect(inferred.sampleCount).toBe(4);
+		expect(inferred.schema).toEqual({
+			type: "object",
+			required: ["hostname", "environment", "cpus", "load", "interfaces"],
+			properties: {
+				hostname: { type: "string" },
+				environment: { type: "string", enum: ["dev", "prod"] },
+				cpus: { type: "integer" },
+				load: { type: "number" },
+				commissioned_at: { type: "string", format: "date-time" },
+				interfaces: {
+					type: "array",
+					items: {
+						type: "object",
+						required: ["address"],
+						properties: {
+							address: { type: "string", format: "ipv4" },
+							vlan: { type: "integer" },
+						},
+					},
+				},
+				owner: {
+					type: ["object", "null"],
+					properties: { team: { type: "string" } },
+				},
+			},
+		});
+		expect(
+			inferred.fields.find((field) => field.label === "commissioned_at"),
+		).toMatchObject({ presence: 0.75, required: false, format: "date-time" });
+	});
+
+	it("counts array item fields once per item", () => {
+		const tagged = [{ tags: [{ a: 1 }, { b: "x" }] }, { tags: [{ a: 2 }] }];
+		const inferred = inferJsonSchemaFromObjects(tagged);
+		const tags = inferred.schema.properties as Record<
+			string,
+			{ items: Record<string, unknown> }
+		>;
+
+		expect(tags.tags.items).not.toHaveProperty("required");
+		expect(
+			inferred.fields.find((field) => field.label === "tags[].a"),
+		).toMatchObject({ presence: 2 / 3, required: false });
+		expect(
+			inferred.fields.find((field) => field.label === "tags[]"),
+		).toMatchObject({ presence: 1 });
+		for (const sample of tagged) {
+			expect(validateJsonAgainstSchema(sample, inferred.schema).issues).toEqual(
+				[],
+			);
+		}
+	});
+
+	it("relaxes required-ness with a presence ratio", () => {
+		const inferred = inferJsonSchemaFromObjects(samples, {
+			requiredRatio: 0.75,
+		});
+
+		expect(inferred.schema.required).toEqual([
+			"hostname",
+			"environment",
+			"cpus",
+			"load",
+			"commissioned_at",
+			"interfaces",
+			"owner",
+		]);
+		expect(inferJsonSchemaFromObjects([]).schema).toEqual({
+			type: "object",
+			properties: {},
+		});
+	});
+});
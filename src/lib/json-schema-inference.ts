@@ -0,0 +1,319 @@
+import {
+	discoverJsonFields,
+	JSON_ARRAY_ITEM_SEGMENT,
+	type JsonFieldType,
+} from "@/lib/json-field-discovery";
+import { validateJsonAgainstSchema } from "@/lib/json-inspector";
+
+export type JsonSchemaInferenceOptions = {
+	requiredRatio?: number;
+	maxEnumValues?: number;
+	maxDepth?: number;
+};
+
+export type InferredJsonSchemaField = {
+	path: string[];
+	label: string;
+	types: string[];
+	presence: number;
+	required: boolean;
+	enumValues: string[];
+	format: string | null;
+};
+
+export type InferredJsonSchema = {
+	schema: Record<string, unknown>;
+	fields: InferredJsonSchemaField[];
+	sampleCount: number;
+};
+
+type InferenceNode = {
+	presence: number;
+	containerCount: number;
+	types: Set<JsonFieldType>;
+	children: Map<string, InferenceNode>;
+	strings: Map<string, number>;
+	stringCount: number;
+	formats: Set<string>;
+	hasFractions: boolean;
+};
+
+const DEFAULT_REQUIRED_RATIO = 1;
+const DEFAULT_MAX_ENUM_VALUES = 10;
+const DEFAULT_MAX_DEPTH = 6;
+const MAX_FIELDS_PER_OBJECT = 500;
+const MAX_TRACKED_STRINGS = 64;
+const ARRAY_INDEX = /^\[\d+\]$/;
+const STRING_FORMATS = ["date-time", "date", "email", "uri", "ipv4"];
+const SCHEMA_TYPE_ORDER = [
+	"object",
+	"array",
+	"string",
+	"integer",
+	"number",
+	"boolean",
+	"null",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function createNode(): InferenceNode {
+	return {
+		presence: 0,
+		containerCount: 0,
+		types: new Set(),
+		children: new Map(),
+		strings: new Map(),
+		stringCount: 0,
+		formats: new Set(STRING_FORMATS),
+		hasFractions: false,
+	};
+}
+
+function collectValues(value: unknown, path: readonly string[]): unknown[] {
+	if (path.length === 0) return [value];
+	const [segment, ...rest] = path;
+	if (segment === JSON_ARRAY_ITEM_SEGMENT) {
+		return Array.isArray(value)
+			? value.flatMap((item) => collectValues(item, rest))
+			: [];
+	}
+	return isRecord(value) && segment in value
+		? collectValues(value[segment], rest)
+		: [];
+}
+
+function recordLeafValues(node: InferenceNode, values: readonly unknown[]) {
+	for (const value of values) {
+		if (typeof value === "number" && !Number.isInteger(value)) {
+			node.hasFractions = true;
+		}
+		if (typeof value !== "string") continue;
+		node.stringCount += 1;
+		for (const format of node.formats) {
+			if (
+				validateJsonAgainstSchema(
+					value,
+					{ type: "string", format },
+					{ checkFormats: true },
+				).issues.length > 0
+			) {
+				node.formats.delete(format);
+			}
+		}
+		if (node.strings.has(value) || node.strings.size <= MAX_TRACKED_STRINGS) {
+			node.strings.set(value, (node.strings.get(value) ?? 0) + 1);
+		}
+	}
+}
+
+function registerOccurrences(
+	node: InferenceNode,
+	value: unknown,
+	depth: number,
+	maxDepth: number,
+) {
+	if (depth > maxDepth) return;
+	const entries: Array<[string, unknown]> = Array.isArray(value)
+		? value.map((item) => [JSON_ARRAY_ITEM_SEGMENT, item])
+		: isRecord(value)
+			? Object.entries(value)
+			: [];
+	const containing = new Set<InferenceNode>();
+	for (const [segment, childValue] of entries) {
+		let child = node.children.get(segment);
+		if (!child) {
+			child = createNode();
+			node.children.set(segment, child);
+		}
+		child.presence += 1;
+		if (!containing.has(child)) {
+			containing.add(child);
+			child.containerCount += 1;
+		}
+		registerOccurrences(child, childValue, depth + 1, maxDepth);
+	}
+}
+
+function addSample(root: InferenceNode, sample: unknown, maxDepth: number) {
+	if (!isRecord(sample)) return;
+	root.presence += 1;
+	root.types.add("object");
+	registerOccurrences(root, sample, 1, maxDepth);
+
+	const seen = new Set<InferenceNode>();
+	const fields = discoverJsonFields(undefined, [sample], {
+		maxDepth,
+		maxFields: MAX_FIELDS_PER_OBJECT,
+	});
+	for (const field of fields) {
+		const path = field.path.map((segment) =>
+			ARRAY_INDEX.test(segment) ? JSON_ARRAY_ITEM_SEGMENT : segment,
+		);
+		let node = root;
+		for (const [index, segment] of path.entries()) {
+			node.types.add(segment === JSON_ARRAY_ITEM_SEGMENT ? "array" : "object");
+			let child = node.children.get(segment);
+			if (!child) {
+				child = createNode();
+				node.children.set(segment, child);
+			}
+			seen.add(child);
+			node = child;
+			if (index === path.length - 1) {
+				for (const type of field.types) node.types.add(type);
+			}
+		}
+	}
+
+	const leaves = new Map<InferenceNode, string[]>();
+	function findLeaves(node: InferenceNode, path: string[]) {
+		if (node.types.has("string") || node.types.has("number")) {
+			leaves.set(node, path);
+		}
+		for (const [segment, child] of node.children) {
+			if (seen.has(child)) findLeaves(child, [...path, segment]);
+		}
+	}
+	findLeaves(root, []);
+	for (const [node, path] of leaves) {
+		recordLeafValues(node, collectValues(sample, path));
+	}
+}
+
+function inferEnum(node: InferenceNode, maxEnumValues: number): string[] {
+	const distinct = node.strings.size;
+	if (
+		distinct === 0 ||
+		distinct > maxEnumValues ||
+		node.stringCount < distinct * 2 ||
+		[...node.types].some((type) => type !== "string" && type !== "null")
+	) {
+		return [];
+	}
+	return [...node.strings.keys()].sort((left, right) =>
+		left.localeCompare(right),
+	);
+}
+
+function toSchemaTypes(node: InferenceNode): string[] {
+	const types = new Set<string>();
+	for (const type of node.types) {
+		if (type === "unknown") continue;
+		types.add(type === "number" && !node.hasFractions ? "integer" : type);
+	}
+	return SCHEMA_TYPE_ORDER.filter((type) => types.has(type));
+}
+
+function buildNodeSchema(
+	node: InferenceNode,
+	path: string[],
+	options: Required<JsonSchemaInferenceOptions>,
+	fields: InferredJsonSchemaField[],
+	parentPresence: number,
+	isItem: boolean,
+): Record<string, unknown> {
+	const types = toSchemaTypes(node);
+	const schema: Record<string, unknown> = {};
+	if (types.length === 1) schema.type = types[0];
+	else if (types.length > 1) schema.type = types;
+
+	const enumValues = inferEnum(node, options.maxEnumValues);
+	const [format] = node.formats;
+	if (enumValues.length === 0 && node.stringCount > 0 && format) {
+		schema.format = format;
+	}
+	if (enumValues.length > 0) {
+		schema.enum = types.includes("null") ? [...enumValues, null] : enumValues;
+	}
+
+	if (path.length > 0) {
+		const presence =
+			parentPresence > 0 ? node.containerCount / parentPresence : 0;
+		fields.push({
+			path,
+			label: path
+				.map((segment, index) =>
+					segment === JSON_ARRAY_ITEM_SEGMENT
+						? "[]"
+						: `${index === 0 ? "" : "."}${segment}`,
+				)
+				.join(""),
+			types,
+			presence,
+			required: !isItem && presence >= options.requiredRatio,
+			enumValues,
+			format: typeof schema.format === "string" ? schema.format : null,
+		});
+	}
+
+	const properties = [...node.children].filter(
+		([segment, child]) =>
+			segment !== JSON_ARRAY_ITEM_SEGMENT && child.presence > 0,
+	);
+	if (
+		types.includes("object") &&
+		(properties.length > 0 || path.length === 0)
+	) {
+		const required: string[] = [];
+		schema.properties = Object.fromEntries(
+			properties.map(([key, child]) => {
+				const childPath = [...path, key];
+				const childSchema = buildNodeSchema(
+					child,
+					childPath,
+					options,
+					fields,
+					node.presence,
+					false,
+				);
+				if (child.presence / node.presence >= options.requiredRatio) {
+					required.push(key);
+				}
+				return [key, childSchema];
+			}),
+		);
+		if (required.length > 0) schema.required = required;
+	}
+
+	const items = node.children.get(JSON_ARRAY_ITEM_SEGMENT);
+	if (items && items.presence > 0) {
+		schema.items = buildNodeSchema(
+			items,
+			[...path, JSON_ARRAY_ITEM_SEGMENT],
+			options,
+			fields,
+			node.presence,
+			true,
+		);
+	}
+	return schema;
+}
+
+export function inferJsonSchemaFromObjects(
+	samples: readonly unknown[],
+	options: JsonSchemaInferenceOptions = {},
+): InferredJsonSchema {
+	const resolved: Required<JsonSchemaInferenceOptions> = {
+		requiredRatio: Math.min(
+			1,
+			Math.max(0, options.requiredRatio ?? DEFAULT_REQUIRED_RATIO),
+		),
+		maxEnumValues: Math.max(
+			0,
+			options.maxEnumValues ?? DEFAULT_MAX_ENUM_VALUES,
+		),
+		maxDepth: Math.max(1, options.maxDepth ?? DEFAULT_MAX_DEPTH),
+	};
+	const root = createNode();
+	for (const sample of samples) addSample(root, sample, resolved.maxDepth);
+
+	const fields: InferredJsonSchemaField[] = [];
+	const schema =
+		root.presence > 0
+			? buildNodeSchema(root, [], resolved, fields, root.presence, false)
+			: { type: "object", properties: {} };
+	return { schema, fields, sampleCount: root.presence };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildObjectAggregateHistogram,
+	buildObjectAggregatePieSlices,
+	buildObjectAggregateStackedBars,
+	describeObjectAggregateArc,
+	getObjectAggregateChartPoints,
+	getObjectAggregateChartTicks,
+} from "@/lib/object-aggregate-charts";
+
+const groups = [
+	{
+		id: "a",
+		label: "rack-a",
+		count: 12,
+		measures: [
+			{ label: "Sum · used", value: 40 },
+			{ label: "Sum · free", value: "10.5" },
+		],
+	},
+	{
+		id: "b",
+		label: "rack-b",
+		count: 3,
+		measures: [
+			{ label: "Sum · used", value: null },
+			{ label: "Sum · free", value: 20 },
+		],
+	},
+	{ id: "c", label: "(missing)", count: 1 },
+];
+
+describe("getObjectAggregateChartPoints", () => {
+	it("reads counts or numeric measure values and skips empty measures", () => {
+		expect(
+			getObjectAggregateChartPoints(groups, "count").map(
+				(point) => point.value,
+			),
+		).toEqual([12, 3, 1]);
+		expect(getObjectAggregateChartPoints(groups, 1)).toEqual([
+			{ id: "a", label: "rack-a", value: 10.5 },
+			{ id: "b", label: "rack-b", value: 20 },
+		]);
+	});
+});
+
+describe("buildObjectAggregatePieSlices", () => {
+	it("orders slices by size and folds the smallest into Other", () => {
+		const slices = buildObjectAggregatePieSlices(
+			[
+				{ id: "a", label: "a", value: 1 },
+				{ id: "b", label: "b", value: 5 },
+				{ id: "c", label: "c", value: 2 },
+				{ id: "d", label: "d", value: 2 },
+				{ id: "e", label: "e", value: 0 },
+			],
+			3,
+		);
+
+		expect(slices.map((slice) => [slice.label, slice.value])).toEqual([
+			["b", 5],
+			["c", 2],
+			["Other (2)", 3],
+		]);
+		expect(slices[0].share).toBe(0.5);
+		expect(slices.at(-1)?.endAngle).toBeCloseTo(Math.PI * 2);
+	});
+});
+
+describe("buildObjectAggregateHistogram", () => {
+	it("bins the values into equal ranges", () => {
+		const bins = buildObjectAggregateHistogram(
+			[0, 1, 2, 5, 9, 10].map((value) => ({
+				id: String(value),
+				label: `g${value}`,
+				value,
+			})),
+			2,
+		);
+
+		expect(bins).toEqual([
+			{ from: 0, to: 5, count: 3, labels: ["g0", "g1", "g2"] },
+			{ from: 5, to: 10, count: 3, labels: ["g5", "g9", "g10"] },
+		]);
+		expect(
+			buildObjectAggregateHistogram([{ id: "x", label: "x", value: 4 }]),
+		).toEqual([{ from: 4, to: 4, count: 1, labels: ["x"] }]);
+	});
+});
+
+describe("buildObjectAggregateStackedBars", () => {
+	it("stacks the positive measure values of each group", () => {
+		const bars = buildObjectAggregateStackedBars(groups);
+
+		expect(bars[0].total).toBe(50.5);
+		expect(
+			bars[0].segments.map(({ key, start, value }) => [key, start, value]),
+		).toEqual([
+			[0, 0, 40],
+			[1, 40, 10.5],
+		]);
+		expect(bars[1].segments.map((segment) => segment.key)).toEqual([1]);
+		expect(bars[2]).toMatchObject({ total: 0, segments: [] });
+	});
+});
+
+describe("chart geometry", () => {
+	it("builds round axis ticks that include zero", () => {
+		expect(getObjectAggregateChartTicks(0, 47)).toEqual([
+			0, 10, 20, 30, 40, 50,
+		]);
+		expect(getObjectAggregateChartTicks(-3, 4, 4)).toEqual([-4, -2, 0, 2, 4]);
+		expect(getObjectAggregateChartTicks(0, 0)).toEqual([0]);
+	});
+
+	it("describes pie and donut arcs", () => {
+		expect(describeObjectAggregateArc(50, 50, 40, 0, 0, Math.PI / 2)).toBe(
+			"M 50 50 L 50 10 A 40 40 0 0 1 90 50 Z",
+		);
+		expect(describeObjectAggregateArc(50, 50, 40, 20, 0, Math.PI / 2)).toBe(
+			"M 50 10 A 40 40 0 0 1 90 50 L 70 50 A 20 20 0 0 0 50 30 Z",
+		);
+	});
+});
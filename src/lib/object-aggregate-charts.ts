@@ -0,0 +1,261 @@
+export type ObjectAggregateChartKind =
+	| "bar"
+	| "stacked-bar"
+	| "pie"
+	| "donut"
+	| "histogram";
+
+export type ObjectAggregateChartMetric = "count" | number;
+
+export type ObjectAggregateChartGroup = {
+	id: string;
+	label: string;
+	count: number;
+	measures?: ReadonlyArray<{ label: string; value: unknown }>;
+};
+
+export type ObjectAggregateChartPoint = {
+	id: string;
+	label: string;
+	value: number;
+};
+
+export type ObjectAggregatePieSlice = ObjectAggregateChartPoint & {
+	share: number;
+	startAngle: number;
+	endAngle: number;
+	color: string;
+};
+
+export type ObjectAggregateHistogramBin = {
+	from: number;
+	to: number;
+	count: number;
+	labels: string[];
+};
+
+export type ObjectAggregateStackedBar = {
+	id: string;
+	label: string;
+	total: number;
+	segments: Array<{
+		key: number;
+		label: string;
+		value: number;
+		start: number;
+		color: string;
+	}>;
+};
+
+export const OBJECT_AGGREGATE_CHART_KINDS: ReadonlyArray<{
+	value: ObjectAggregateChartKind;
+	label: string;
+}> = [
+	{ value: "bar", label: "Bar" },
+	{ value: "stacked-bar", label: "Stacked" },
+	{ value: "pie", label: "Pie" },
+	{ value: "donut", label: "Donut" },
+	{ value: "histogram", label: "Histogram" },
+];
+
+export const OBJECT_AGGREGATE_CHART_COLORS = [
+	"#2f6fd6",
+	"#e07a1f",
+	"#2e9e6a",
+	"#c2415b",
+	"#7b5cc4",
+	"#1f9bb0",
+	"#b08a1f",
+	"#6b7a8c",
+] as const;
+
+export const MAX_OBJECT_AGGREGATE_PIE_SLICES = 8;
+const MAX_HISTOGRAM_BINS = 12;
+
+export function getObjectAggregateChartColor(index: number): string {
+	return OBJECT_AGGREGATE_CHART_COLORS[
+		index % OBJECT_AGGREGATE_CHART_COLORS.length
+	];
+}
+
+export function toObjectAggregateChartNumber(value: unknown): number | null {
+	if (typeof value === "number") return Number.isFinite(value) ? value : null;
+	if (typeof value === "string" && value.trim() !== "") {
+		const parsed = Number(value);
+		return Number.isFinite(parsed) ? parsed : null;
+	}
+	return null;
+}
+
+export function getObjectAggregateChartPoints(
+	groups: readonly ObjectAggregateChartGroup[],
+	metric: ObjectAggregateChartMetric,
+): ObjectAggregateChartPoint[] {
+	return groups.flatMap((group) => {
+		const value =
+			metric === "count"
+				? group.count
+				: toObjectAggregateChartNumber(group.measures?.[metric]?.value);
+		return value === null ? [] : [{ id: group.id, label: group.label, value }];
+	});
+}
+
+export function buildObjectAggregatePieSlices(
+	points: readonly ObjectAggregateChartPoint[],
+	maxSlices = MAX_OBJECT_AGGREGATE_PIE_SLICES,
+): ObjectAggregatePieSlice[] {
+	const positive = points
+		.filter((point) => point.value > 0)
+		.sort((left, right) => right.value - left.value);
+	const kept =
+		positive.length > maxSlices
+			? [
+					...positive.slice(0, maxSlices - 1),
+					{
+						id: "__other__",
+						label: `Other (${positive.length - maxSlices + 1})`,
+						value: positive
+							.slice(maxSlices - 1)
+							.reduce((sum, point) => sum + point.value, 0),
+					},
+				]
+			: positive;
+	const total = kept.reduce((sum, point) => sum + point.value, 0);
+	let angle = 0;
+	return kept.map((point, index) => {
+		const share = total > 0 ? point.value / total : 0;
+		const startAngle = angle;
+		angle += share * Math.PI * 2;
+		return {
+			...point,
+			share,
+			startAngle,
+			endAngle: angle,
+			color: getObjectAggregateChartColor(index),
+		};
+	});
+}
+
+export function buildObjectAggregateHistogram(
+	points: readonly ObjectAggregateChartPoint[],
+	binCount?: number,
+): ObjectAggregateHistogramBin[] {
+	if (points.length === 0) return [];
+	const values = points.map((point) => point.value);
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	const bins =
+		min === max
+			? 1
+			: Math.max(
+					1,
+					Math.min(
+						MAX_HISTOGRAM_BINS,
+						binCount ?? Math.ceil(Math.log2(points.length) + 1),
+					),
+				);
+	const width = (max - min) / bins;
+	const result: ObjectAggregateHistogramBin[] = Array.from(
+		{ length: bins },
+		(_, index) => ({
+			from: min + width * index,
+			to: index === bins - 1 ? max : min + width * (index + 1),
+			count: 0,
+			labels: [],
+		}),
+	);
+	for (const point of points) {
+		const index =
+			width === 0
+				? 0
+				: Math.min(bins - 1, Math.floor((point.value - min) / width));
+		result[index].count += 1;
+		result[index].labels.push(point.label);
+	}
+	return result;
+}
+
+export function buildObjectAggregateStackedBars(
+	groups: readonly ObjectAggregateChartGroup[],
+): ObjectAggregateStackedBar[] {
+	return groups.map((group) => {
+		let total = 0;
+		const segments = (group.measures ?? []).flatMap((measure, key) => {
+			const value = toObjectAggregateChartNumber(measure.value);
+			if (value === null || value <= 0) return [];
+			const start = total;
+			total += value;
+			return [
+				{
+					key,
+					label: measure.label,
+					value,
+					start,
+					color: getObjectAggregateChartColor(key),
+				},
+			];
+		});
+		return { id: group.id, label: group.label, total, segments };
+	});
+}
+
+export function getObjectAggregateChartTicks(
+	min: number,
+	max: number,
+	count = 5,
+): number[] {
+	const low = Math.min(0, min);
+	const high = Math.max(0, max);
+	if (low === high) return [0];
+	const rawStep = (high - low) / Math.max(1, count);
+	const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+	const step =
+		([1, 2, 2.5, 5].find((factor) => factor * magnitude >= rawStep) ?? 10) *
+		magnitude;
+	const ticks: number[] = [];
+	for (
+		let tick = Math.floor(low / step) * step;
+		tick <= high + step / 2;
+		tick += step
+	) {
+		ticks.push(Number(tick.toPrecision(12)));
+		if (tick >= high) break;
+	}
+	return ticks;
+}
+
+function polarPoint(cx: number, cy: number, radius: number, angle: number) {
+	return {
+		x: Number((cx + radius * Math.sin(angle)).toFixed(3)),
+		y: Number((cy - radius * Math.cos(angle)).toFixed(3)),
+	};
+}
+
+export function describeObjectAggregateArc(
+	cx: number,
+	cy: number,
+	outerRadius: number,
+	innerRadius: number,
+	startAngle: number,
+	endAngle: number,
+): string {
+	if (endAngle - startAngle >= Math.PI * 2 - 1e-9) {
+		const middle = startAngle + Math.PI;
+		return `${describeObjectAggregateArc(cx, cy, outerRadius, innerRadius, startAngle, middle)} ${describeObjectAggregateArc(cx, cy, outerRadius, innerRadius, middle, endAngle)}`;
+	}
+	const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+	const outerStart = polarPoint(cx, cy, outerRadius, startAngle);
+	const outerEnd = polarPoint(cx, cy, outerRadius, endAngle);
+	if (innerRadius <= 0) {
+		return `M ${cx} ${cy} L ${outerStart.x} ${outerStart.y} A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${outerEnd.x} ${outerEnd.y} Z`;
+	}
+	const innerStart = polarPoint(cx, cy, innerRadius, endAngle);
+	const innerEnd = polarPoint(cx, cy, innerRadius, startAngle);
+	return `M ${outerStart.x} ${outerStart.y} A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${outerEnd.x} ${outerEnd.y} L ${innerStart.x} ${innerStart.y} A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${innerEnd.x} ${innerEnd.y} Z`;
+}
+
+export function formatObjectAggregateChartValue(value: number): string {
+	return new Intl.NumberFormat(undefined, {
+		maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2,
+	}).format(value);
+}
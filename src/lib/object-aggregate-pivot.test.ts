@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import type { ObjectAggregateRow } from "@/lib/api/generated/models";
+import {
+	buildObjectAggregatePivot,
+	getObjectAggregateDimensionFilter,
+	mergeObjectAggregateDrillDownFilters,
+} from "@/lib/object-aggregate-pivot";
+
+function row(
+	datacenter: string | null,
+	version: number,
+	count: number,
+	average: number | null,
+): ObjectAggregateRow {
+	return {
+		dimensions: [
+			datacenter === null
+				? { field: "json_data.datacenter", state: "missing" }
+				: { field: "json_data.datacenter", state: "value", value: datacenter },
+			{ field: "json_data.os,version", state: "value", value: version },
+		],
+		measures: [
+			{
+				field: "json_data.cpu",
+				operation: "average",
+				state: average === null ? "empty" : "value",
+				value: average ?? undefined,
+				value_count: average === null ? 0 : count,
+				skipped_count: average === null ? count : 0,
+			},
+		],
+		object_count: count,
+	};
+}
+
+const rows = [
+	row("osl", 9, 4, 8),
+	row("osl", 10, 1, 16),
+	row("ber", 9, 2, 4),
+	row(null, 10, 3, null),
+];
+
+describe("buildObjectAggregatePivot", () => {
+	it("builds a count cross-tab with row and column totals", () => {
+		const pivot = buildObjectAggregatePivot(rows, "count");
+
+		expect(pivot.columns.map((column) => column.label)).toEqual(["9", "10"]);
+		expect(
+			pivot.rows.map((item) => [
+				item.label,
+				item.cells.map((cell) => cell?.value ?? null),
+				item.total.value,
+			]),
+		).toEqual([
+			["osl", [4, 1], 5],
+			["ber", [2, null], 2],
+			["(missing)", [null, 3], 3],
+		]);
+		expect(pivot.columnTotals.map((cell) => cell.value)).toEqual([6, 4]);
+		expect(pivot.total).toEqual({ count: 10, value: 10 });
+	});
+
+	it("combines averages into totals weighted by contributing values", () => {
+		const pivot = buildObjectAggregatePivot(rows, 0);
+
+		expect(pivot.rows[0].total.value).toBeCloseTo((4 * 8 + 16) / 5);
+		expect(pivot.columnTotals[0].value).toBeCloseTo((4 * 8 + 2 * 4) / 6);
+		expect(pivot.columnTotals[1]).toEqual({ count: 4, value: 16 });
+		expect(pivot.rows[2].cells[1]).toEqual({ count: 3, value: null });
+	});
+});
+
+describe("pivot drill-down filters", () => {
+	it("maps dimensions to server filters", () => {
+		expect(
+			getObjectAggregateDimensionFilter({
+				field: "json_data.os,version",
+				state: "value",
+				value: 9,
+			}),
+		).toEqual({
+			field: "json_data",
+			operator: "equals",
+			value: "9",
+			path: ["os", "version"],
+		});
+		expect(
+			getObjectAggregateDimensionFilter({
+				field: "json_data.datacenter",
+				state: "missing",
+			}),
+		).toEqual({
+			field: "json_data",
+			operator: "is_null",
+			value: "",
+			path: ["datacenter"],
+		});
+		expect(
+			getObjectAggregateDimensionFilter(
+				{ field: "computed.shared.tier", state: "value", value: "gold" },
+				[{ scope: "shared", key: "tier", resultType: "string" }],
+			),
+		).toMatchObject({ field: "computed", operator: "equals", value: "gold" });
+		expect(
+			getObjectAggregateDimensionFilter({
+				field: "collection_id",
+				state: "value",
+				value: 7,
+			}),
+		).toEqual({ field: "collection_id", operator: "equals", value: "7" });
+		expect(
+			getObjectAggregateDimensionFilter({ field: "name", state: "null" }),
+		).toBeNull();
+	});
+
+	it("replaces filters with the same identity and enforces the limit", () => {
+		const current = [
+			{ field: "name" as const, operator: "icontains" as const, value: "web" },
+			{
+				field: "json_data" as const,
+				operator: "equals" as const,
+				value: "10",
+				path: ["os", "version"],
+			},
+		];
+		const addition = {
+			field: "json_data" as const,
+			operator: "equals" as const,
+			value: "9",
+			path: ["os", "version"],
+		};
+
+		expect(mergeObjectAggregateDrillDownFilters(current, [addition])).toEqual([
+			current[0],
+			addition,
+		]);
+		expect(() =>
+			mergeObjectAggregateDrillDownFilters(
+				Array.from({ length: 8 }, (_, index) => ({
+					field: "id" as const,
+					operator: "gt" as const,
+					value: String(index),
+				})),
+				[addition],
+			),
+		).toThrow("more than 8 server filters");
+	});
+});
@@ -0,0 +1,286 @@
+import type {
+	ObjectAggregateDimensionValue,
+	ObjectAggregateMeasureOperation,
+	ObjectAggregateRow,
+} from "@/lib/api/generated/models";
+import { toObjectAggregateChartNumber } from "@/lib/object-aggregate-charts";
+import { formatObjectAggregateDimension } from "@/lib/object-grouping";
+import {
+	getObjectServerFilterIdentity,
+	MAX_OBJECT_COMPUTED_FILTERS,
+	MAX_OBJECT_SERVER_FILTERS,
+	normalizeObjectServerFilter,
+	type ObjectServerComputedFilterDefinition,
+	type ObjectServerFilter,
+} from "@/lib/object-server-filters";
+
+export type ObjectAggregatePivotMetric = "count" | number;
+
+export type ObjectAggregatePivotHeader = {
+	id: string;
+	label: string;
+	dimension: ObjectAggregateDimensionValue;
+};
+
+export type ObjectAggregatePivotCell = {
+	count: number;
+	value: number | null;
+};
+
+export type ObjectAggregatePivotRow = ObjectAggregatePivotHeader & {
+	cells: Array<ObjectAggregatePivotCell | null>;
+	total: ObjectAggregatePivotCell;
+};
+
+export type ObjectAggregatePivot = {
+	columns: ObjectAggregatePivotHeader[];
+	rows: ObjectAggregatePivotRow[];
+	columnTotals: ObjectAggregatePivotCell[];
+	total: ObjectAggregatePivotCell;
+};
+
+type PivotAccumulator = {
+	count: number;
+	valueCount: number;
+	sum: number;
+	weightedSum: number;
+	min: number | null;
+	max: number | null;
+};
+
+function createAccumulator(): PivotAccumulator {
+	return {
+		count: 0,
+		valueCount: 0,
+		sum: 0,
+		weightedSum: 0,
+		min: null,
+		max: null,
+	};
+}
+
+function getAccumulator(
+	accumulators: Map<string, PivotAccumulator>,
+	key: string,
+): PivotAccumulator {
+	const existing = accumulators.get(key);
+	if (existing) return existing;
+	const created = createAccumulator();
+	accumulators.set(key, created);
+	return created;
+}
+
+function addToAccumulator(
+	accumulator: PivotAccumulator,
+	count: number,
+	value: number | null,
+	valueCount: number,
+) {
+	accumulator.count += count;
+	if (value === null) return;
+	accumulator.valueCount += valueCount;
+	accumulator.sum += value;
+	accumulator.weightedSum += value * valueCount;
+	accumulator.min =
+		accumulator.min === null ? value : Math.min(accumulator.min, value);
+	accumulator.max =
+		accumulator.max === null ? value : Math.max(accumulator.max, value);
+}
+
+function resolveAccumulator(
+	accumulator: PivotAccumulator,
+	operation: ObjectAggregateMeasureOperation | null,
+): ObjectAggregatePivotCell {
+	if (operation === null) {
+		return { count: accumulator.count, value: accumulator.count };
+	}
+	const value =
+		accumulator.min === null
+			? null
+			: operation === "min"
+				? accumulator.min
+				: operation === "max"
+					? accumulator.max
+					: operation === "average"
+						? accumulator.valueCount > 0
+							? accumulator.weightedSum / accumulator.valueCount
+							: null
+						: accumulator.sum;
+	return { count: accumulator.count, value };
+}
+
+function getDimensionId(dimension: ObjectAggregateDimensionValue): string {
+	return JSON.stringify([dimension.state, dimension.value ?? null]);
+}
+
+function compareHeaders(
+	left: ObjectAggregatePivotHeader,
+	right: ObjectAggregatePivotHeader,
+): number {
+	const leftEmpty = left.dimension.state !== "value";
+	const rightEmpty = right.dimension.state !== "value";
+	if (leftEmpty !== rightEmpty) return leftEmpty ? 1 : -1;
+	return left.label.localeCompare(right.label, undefined, {
+		numeric: true,
+		sensitivity: "base",
+	});
+}
+
+export function buildObjectAggregatePivot(
+	rows: readonly ObjectAggregateRow[],
+	metric: ObjectAggregatePivotMetric,
+	formatDimension: (
+		dimension: ObjectAggregateDimensionValue,
+	) => string = formatObjectAggregateDimension,
+): ObjectAggregatePivot {
+	const rowHeaders = new Map<string, ObjectAggregatePivotHeader>();
+	const columnHeaders = new Map<string, ObjectAggregatePivotHeader>();
+	const cells = new Map<string, PivotAccumulator>();
+	const rowTotals = new Map<string, PivotAccumulator>();
+	const columnTotals = new Map<string, PivotAccumulator>();
+	const grandTotal = createAccumulator();
+	let operation: ObjectAggregateMeasureOperation | null = null;
+
+	for (const row of rows) {
+		const [rowDimension, columnDimension] = row.dimensions;
+		if (!rowDimension || !columnDimension) continue;
+		const rowId = getDimensionId(rowDimension);
+		const columnId = getDimensionId(columnDimension);
+		if (!rowHeaders.has(rowId)) {
+			rowHeaders.set(rowId, {
+				id: rowId,
+				label: formatDimension(rowDimension),
+				dimension: rowDimension,
+			});
+		}
+		if (!columnHeaders.has(columnId)) {
+			columnHeaders.set(columnId, {
+				id: columnId,
+				label: formatDimension(columnDimension),
+				dimension: columnDimension,
+			});
+		}
+
+		let value: number | null = null;
+		let valueCount = 0;
+		if (metric !== "count") {
+			const measure = row.measures?.[metric];
+			operation = measure?.operation ?? operation;
+			value =
+				measure?.state === "value"
+					? toObjectAggregateChartNumber(measure.value)
+					: null;
+			valueCount = measure?.value_count ?? 0;
+		}
+		for (const accumulator of [
+			getAccumulator(cells, `${rowId}\u0000${columnId}`),
+			getAccumulator(rowTotals, rowId),
+			getAccumulator(columnTotals, columnId),
+			grandTotal,
+		]) {
+			addToAccumulator(accumulator, row.object_count, value, valueCount);
+		}
+	}
+
+	const resolvedOperation = metric === "count" ? null : (operation ?? "sum");
+	const columns = [...columnHeaders.values()].sort(compareHeaders);
+	return {
+		columns,
+		rows: [...rowHeaders.values()].map((header) => ({
+			...header,
+			cells: columns.map((column) => {
+				const accumulator = cells.get(`${header.id}\u0000${column.id}`);
+				return accumulator
+					? resolveAccumulator(accumulator, resolvedOperation)
+					: null;
+			}),
+			total: resolveAccumulator(
+				rowTotals.get(header.id) ?? createAccumulator(),
+				resolvedOperation,
+			),
+		})),
+		columnTotals: columns.map((column) =>
+			resolveAccumulator(
+				columnTotals.get(column.id) ?? createAccumulator(),
+				resolvedOperation,
+			),
+		),
+		total: resolveAccumulator(grandTotal, resolvedOperation),
+	};
+}
+
+export function getObjectAggregateDimensionFilter(
+	dimension: ObjectAggregateDimensionValue,
+	computedFields: readonly ObjectServerComputedFilterDefinition[] = [],
+): ObjectServerFilter | null {
+	if (dimension.state === "unavailable") return null;
+	const isEmpty = dimension.state !== "value";
+	const value = dimension.value;
+	if (
+		!isEmpty &&
+		(value === null || value === undefined || typeof value === "object")
+	) {
+		return null;
+	}
+	const text = isEmpty ? "" : String(value);
+
+	if (dimension.field.startsWith("json_data.")) {
+		return normalizeObjectServerFilter({
+			field: "json_data",
+			operator: isEmpty ? "is_null" : "equals",
+			value: text,
+			path: dimension.field.slice("json_data.".length).split(","),
+		});
+	}
+	if (dimension.field.startsWith("computed.")) {
+		const [scope, key] = dimension.field.slice("computed.".length).split(".");
+		const definition = computedFields.find(
+			(field) => field.scope === scope && field.key === key,
+		);
+		if (!definition) return null;
+		return normalizeObjectServerFilter({
+			field: "computed",
+			operator: isEmpty ? "is_null" : "equals",
+			value: isEmpty ? "true" : text,
+			computedScope: definition.scope,
+			computedKey: definition.key,
+			computedResultType: definition.resultType,
+		});
+	}
+	if (isEmpty) return null;
+	return normalizeObjectServerFilter({
+		field: dimension.field,
+		operator: "equals",
+		value: text,
+	});
+}
+
+export function mergeObjectAggregateDrillDownFilters(
+	current: readonly ObjectServerFilter[],
+	additions: readonly ObjectServerFilter[],
+): ObjectServerFilter[] {
+	const additionIdentities = new Set(
+		additions.map(getObjectServerFilterIdentity),
+	);
+	const filters = [
+		...current.filter(
+			(filter) =>
+				!additionIdentities.has(getObjectServerFilterIdentity(filter)),
+		),
+		...additions,
+	];
+	if (filters.length > MAX_OBJECT_SERVER_FILTERS) {
+		throw new Error(
+			`Drilling down needs more than ${MAX_OBJECT_SERVER_FILTERS} server filters. Remove a filter first.`,
+		);
+	}
+	if (
+		filters.filter((filter) => filter.field === "computed").length >
+		MAX_OBJECT_COMPUTED_FILTERS
+	) {
+		throw new Error(
+			`Drilling down needs more than ${MAX_OBJECT_COMPUTED_FILTERS} computed filters. Remove a computed filter first.`,
+		);
+	}
+	return filters;
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import { ObjectDataPatchConflictError } from "@/lib/api/object-data-patch";
+import {
+	applyBulkObjectDataOperations,
+	type BulkObjectDataOperationDraft,
+	buildBulkObjectDataPreview,
+	createBulkObjectDataOperationDraft,
+	parseBulkObjectDataOperations,
+	summarizeBulkObjectDataResults,
+	toBulkObjectDataResult,
+} from "@/lib/object-bulk-data-edit";
+
+function draft(
+	overrides: Partial<BulkObjectDataOperationDraft>,
+): BulkObjectDataOperationDraft {
+	return { ...createBulkObjectDataOperationDraft("op"), ...overrides };
+}
+
+function parseOperations(drafts: BulkObjectDataOperationDraft[]) {
+	const parsed = parseBulkObjectDataOperations(drafts);
+	if (!parsed.ok) {
+		throw new Error(parsed.error);
+	}
+	return parsed.operations;
+}
+
+describe("parseBulkObjectDataOperations", () => {
+	it("parses typed set values, removals, and renames", () => {
+		expect(
+			parseOperations([
+				draft({ path: "network.mtu", valueType: "number", value: "9000" }),
+				draft({
+					path: "tags",
+					valueType: "array",
+					value: '["edge", "lab"]',
+				}),
+				draft({ kind: "remove", path: "legacy" }),
+				draft({ kind: "rename", path: "rack", targetPath: "location.rack" }),
+			]),
+		).toEqual([
+			{
+				kind: "set",
+				label: "network.mtu",
+				path: ["network", "mtu"],
+				value: 9000,
+			},
+			{ kind: "set", label: "tags", path: ["tags"], value: ["edge", "lab"] },
+			{ kind: "remove", label: "legacy", path: ["legacy"] },
+			{
+				kind: "rename",
+				label: "rack",
+				path: ["rack"],
+				targetLabel: "location.rack",
+				targetPath: ["location", "rack"],
+			},
+		]);
+	});
+
+	it("reports the first invalid operation", () => {
+		expect(parseBulkObjectDataOperations([])).toEqual({
+			ok: false,
+			error: "Add at least one operation.",
+		});
+		expect(
+			parseBulkObjectDataOperations([
+				draft({ path: "name", value: "ok" }),
+				draft({ path: "$" }),
+			]),
+		).toMatchObject({
+			ok: false,
+			error: expect.stringMatching(/^Operation 2:/),
+		});
+		expect(
+			parseBulkObjectDataOperations([
+				draft({ path: "tags", valueType: "array", value: "{}" }),
+			]),
+		).toEqual({ ok: false, error: "Operation 1: Value must be a JSON array." });
+		expect(
+			parseBulkObjectDataOperations([
+				draft({ kind: "rename", path: "rack", targetPath: "rack" }),
+			]),
+		).toMatchObject({ ok: false });
+	});
+});
+
+describe("applyBulkObjectDataOperations", () => {
+	it("applies operations in order and notes missing sources", () => {
+		const operations = parseOperations([
+			draft({ kind: "rename", path: "rack", targetPath: "location.rack" }),
+			draft({ kind: "remove", path: "legacy" }),
+			draft({ path: "location.site", value: "OSL" }),
+		]);
+
+		expect(applyBulkObjectDataOperations({ rack: "A1" }, operations)).toEqual({
+			ok: true,
+			data: { location: { rack: "A1", site: "OSL" } },
+			notes: ["legacy is not present."],
+		});
+	});
+
+	it("refuses to overwrite an existing rename target", () => {
+		const operations = parseOperations([
+			draft({ kind: "rename", path: "rack", targetPath: "slot" }),
+		]);
+
+		expect(
+			applyBulkObjectDataOperations({ rack: "A1", slot: 4 }, operations),
+		).toEqual({ ok: false, error: "slot already exists." });
+	});
+});
+
+describe("buildBulkObjectDataPreview", () => {
+	it("builds guarded patches and diffs for changed objects only", () => {
+		const operations = parseOperations([
+			draft({ path: "owner", value: "ops" }),
+		]);
+		const [changed, unchanged, invalid] = buildBulkObjectDataPreview(
+			[
+				{ id: 1, name: "alpha", revision: 2, data: { owner: "dev" } },
+				{ id: 2, name: "beta", revision: 5, data: { owner: "ops" } },
+				{ id: 3, name: "gamma", revision: 1, data: "raw" },
+			],
+			operations,
+		);
+
+		expect(changed).toMatchObject({
+			objectId: 1,
+			revision: 2,
+			status: "changed",
+			nextData: { owner: "ops" },
+			difference: { changeCount: 1 },
+		});
+		expect(changed?.plan?.patch).toEqual([
+			{ op: "test", path: "/owner", value: "dev" },
+			{ op: "replace", path: "/owner", value: "ops" },
+		]);
+		expect(unchanged).toMatchObject({
+			status: "unchanged",
+			plan: null,
+			difference: null,
+		});
+		expect(invalid).toMatchObject({ status: "invalid", plan: null });
+		expect(invalid?.error).toContain("owner");
+	});
+});
+
+describe("bulk object data results", () => {
+	it("classifies outcomes and summarizes them", () => {
+		const item = { objectId: 4, name: "delta" };
+		const results = [
+			toBulkObjectDataResult(item),
+			toBulkObjectDataResult(
+				item,
+				new ObjectDataPatchConflictError("Object changed."),
+			),
+			toBulkObjectDataResult(item, new Error("Network down.")),
+		];
+
+		expect(results.map((result) => result.status)).toEqual([
+			"succeeded",
+			"conflicted",
+			"failed",
+		]);
+		expect(results[2]?.message).toBe("Network down.");
+		expect(summarizeBulkObjectDataResults(results)).toEqual({
+			succeeded: 1,
+			conflicted: 1,
+			failed: 1,
+		});
+	});
+});
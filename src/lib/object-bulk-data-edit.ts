@@ -0,0 +1,325 @@
+import type { HubuumObject } from "@/lib/api/generated/models";
+import {
+	buildObjectDataPatchPlan,
+	ObjectDataPatchConflictError,
+	type ObjectDataPatchPlan,
+} from "@/lib/api/object-data-patch";
+import { buildJsonDifference, type JsonDifference } from "@/lib/json-diff";
+import { parseJsonText } from "@/lib/json-inspector";
+import {
+	createObjectDataFieldValue,
+	getObjectDataFieldType,
+	getObjectDataValue,
+	type ObjectDataFieldType,
+	parseObjectDataPath,
+	removeObjectDataValue,
+	setObjectDataValue,
+} from "@/lib/object-data-editing";
+import type { ObjectPropertyPathSegment } from "@/lib/object-property-entries";
+
+export type BulkObjectDataOperationKind = "set" | "remove" | "rename";
+
+export type BulkObjectDataOperationDraft = {
+	id: string;
+	kind: BulkObjectDataOperationKind;
+	path: string;
+	targetPath: string;
+	valueType: ObjectDataFieldType;
+	value: string;
+};
+
+export type BulkObjectDataOperation =
+	| {
+			kind: "set";
+			label: string;
+			path: ObjectPropertyPathSegment[];
+			value: unknown;
+	  }
+	| { kind: "remove"; label: string; path: ObjectPropertyPathSegment[] }
+	| {
+			kind: "rename";
+			label: string;
+			path: ObjectPropertyPathSegment[];
+			targetLabel: string;
+			targetPath: ObjectPropertyPathSegment[];
+	  };
+
+export type BulkObjectDataOperationsResult =
+	| { ok: true; operations: BulkObjectDataOperation[] }
+	| { ok: false; error: string };
+
+export type BulkObjectDataApplyResult =
+	| { ok: true; data: unknown; notes: string[] }
+	| { ok: false; error: string };
+
+export type BulkObjectDataPreviewItem = {
+	objectId: number;
+	name: string;
+	revision: number;
+	status: "changed" | "unchanged" | "invalid";
+	nextData: unknown;
+	plan: ObjectDataPatchPlan | null;
+	difference: JsonDifference | null;
+	notes: string[];
+	error: string | null;
+};
+
+export type BulkObjectDataResultStatus = "succeeded" | "conflicted" | "failed";
+
+export type BulkObjectDataResult = {
+	objectId: number;
+	name: string;
+	status: BulkObjectDataResultStatus;
+	message: string | null;
+};
+
+export function createBulkObjectDataOperationDraft(
+	id: string,
+): BulkObjectDataOperationDraft {
+	return {
+		id,
+		kind: "set",
+		path: "",
+		targetPath: "",
+		valueType: "string",
+		value: "",
+	};
+}
+
+function parseOperationPath(
+	input: string,
+):
+	| { ok: true; segments: ObjectPropertyPathSegment[] }
+	| { ok: false; error: string } {
+	const parsed = parseObjectDataPath(input);
+	if (!parsed.ok) {
+		return parsed;
+	}
+	if (parsed.segments.length === 0) {
+		return {
+			ok: false,
+			error: "Operations must target a field inside the data document.",
+		};
+	}
+	return parsed;
+}
+
+function parseOperationValue(
+	draft: BulkObjectDataOperationDraft,
+): { ok: true; value: unknown } | { ok: false; error: string } {
+	if (
+		(draft.valueType !== "object" && draft.valueType !== "array") ||
+		!draft.value.trim()
+	) {
+		return createObjectDataFieldValue(draft.valueType, draft.value);
+	}
+
+	const parsed = parseJsonText(draft.value);
+	if (parsed.kind !== "success") {
+		return { ok: false, error: "Value must be valid JSON." };
+	}
+	if (getObjectDataFieldType(parsed.value) !== draft.valueType) {
+		return { ok: false, error: `Value must be a JSON ${draft.valueType}.` };
+	}
+	return { ok: true, value: parsed.value };
+}
+
+export function parseBulkObjectDataOperations(
+	drafts: readonly BulkObjectDataOperationDraft[],
+): BulkObjectDataOperationsResult {
+	if (drafts.length === 0) {
+		return { ok: false, error: "Add at least one operation." };
+	}
+
+	const operations: BulkObjectDataOperation[] = [];
+	for (const [index, draft] of drafts.entries()) {
+		const prefix = `Operation ${index + 1}`;
+		const label = draft.path.trim();
+		const path = parseOperationPath(draft.path);
+		if (!path.ok) {
+			return { ok: false, error: `${prefix}: ${path.error}` };
+		}
+
+		if (draft.kind === "remove") {
+			operations.push({ kind: "remove", label, path: path.segments });
+			continue;
+		}
+
+		if (draft.kind === "set") {
+			const value = parseOperationValue(draft);
+			if (!value.ok) {
+				return { ok: false, error: `${prefix}: ${value.error}` };
+			}
+			operations.push({
+				kind: "set",
+				label,
+				path: path.segments,
+				value: value.value,
+			});
+			continue;
+		}
+
+		const targetLabel = draft.targetPath.trim();
+		const targetPath = parseOperationPath(draft.targetPath);
+		if (!targetPath.ok) {
+			return { ok: false, error: `${prefix}: ${targetPath.error}` };
+		}
+		if (
+			targetPath.segments.length === path.segments.length &&
+			targetPath.segments.every(
+				(segment, segmentIndex) => segment === path.segments[segmentIndex],
+			)
+		) {
+			return {
+				ok: false,
+				error: `${prefix}: Rename target must differ from the source path.`,
+			};
+		}
+		operations.push({
+			kind: "rename",
+			label,
+			path: path.segments,
+			targetLabel,
+			targetPath: targetPath.segments,
+		});
+	}
+
+	return { ok: true, operations };
+}
+
+export function applyBulkObjectDataOperations(
+	data: unknown,
+	operations: readonly BulkObjectDataOperation[],
+): BulkObjectDataApplyResult {
+	let current = data;
+	const notes: string[] = [];
+
+	for (const operation of operations) {
+		if (operation.kind === "set") {
+			const result = setObjectDataValue(
+				current,
+				operation.path,
+				operation.value,
+			);
+			if (!result.ok) {
+				return { ok: false, error: `${operation.label}: ${result.error}` };
+			}
+			current = result.value;
+			continue;
+		}
+
+		const source = getObjectDataValue(current, operation.path);
+		if (!source.found) {
+			notes.push(`${operation.label} is not present.`);
+			continue;
+		}
+
+		if (operation.kind === "rename") {
+			if (getObjectDataValue(current, operation.targetPath).found) {
+				return {
+					ok: false,
+					error: `${operation.targetLabel} already exists.`,
+				};
+			}
+			const removed = removeObjectDataValue(current, operation.path);
+			if (!removed.ok) {
+				return { ok: false, error: `${operation.label}: ${removed.error}` };
+			}
+			const renamed = setObjectDataValue(
+				removed.value,
+				operation.targetPath,
+				source.value,
+			);
+			if (!renamed.ok) {
+				return {
+					ok: false,
+					error: `${operation.targetLabel}: ${renamed.error}`,
+				};
+			}
+			current = renamed.value;
+			continue;
+		}
+
+		const removed = removeObjectDataValue(current, operation.path);
+		if (!removed.ok) {
+			return { ok: false, error: `${operation.label}: ${removed.error}` };
+		}
+		current = removed.value;
+	}
+
+	return { ok: true, data: current, notes };
+}
+
+export function buildBulkObjectDataPreview(
+	objects: readonly Pick<HubuumObject, "id" | "name" | "revision" | "data">[],
+	operations: readonly BulkObjectDataOperation[],
+): BulkObjectDataPreviewItem[] {
+	return objects.map((objectItem) => {
+		const base = {
+			objectId: objectItem.id,
+			name: objectItem.name,
+			revision: objectItem.revision,
+		};
+		const applied = applyBulkObjectDataOperations(objectItem.data, operations);
+		if (!applied.ok) {
+			return {
+				...base,
+				status: "invalid",
+				nextData: objectItem.data,
+				plan: null,
+				difference: null,
+				notes: [],
+				error: applied.error,
+			};
+		}
+
+		const difference = buildJsonDifference(objectItem.data, applied.data);
+		return {
+			...base,
+			status: difference ? "changed" : "unchanged",
+			nextData: applied.data,
+			plan: difference
+				? buildObjectDataPatchPlan(objectItem.data, applied.data)
+				: null,
+			difference,
+			notes: applied.notes,
+			error: null,
+		};
+	});
+}
+
+export function toBulkObjectDataResult(
+	item: Pick<BulkObjectDataPreviewItem, "objectId" | "name">,
+	error?: unknown,
+): BulkObjectDataResult {
+	if (error === undefined) {
+		return {
+			objectId: item.objectId,
+			name: item.name,
+			status: "succeeded",
+			message: null,
+		};
+	}
+
+	return {
+		objectId: item.objectId,
+		name: item.name,
+		status:
+			error instanceof ObjectDataPatchConflictError ? "conflicted" : "failed",
+		message: error instanceof Error ? error.message : "Unknown error",
+	};
+}
+
+export function summarizeBulkObjectDataResults(
+	results: readonly BulkObjectDataResult[],
+): Record<BulkObjectDataResultStatus, number> {
+	const summary: Record<BulkObjectDataResultStatus, number> = {
+		succeeded: 0,
+		conflicted: 0,
+		failed: 0,
+	};
+	for (const result of results) {
+		summary[result.status] += 1;
+	}
+	return summary;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	planObjectCollectionMove,
+	summarizeObjectCollectionMoveResults,
+	toObjectCollectionMoveResult,
+} from "@/lib/object-collection-move";
+
+const objects = [
+	{ id: 1, name: "alpha", hubuum_class_id: 4, collection_id: 10 },
+	{ id: 2, name: "beta", hubuum_class_id: 4, collection_id: 20 },
+	{ id: 3, name: "gamma", hubuum_class_id: 5, collection_id: 10 },
+];
+
+describe("planObjectCollectionMove", () => {
+	it("skips objects that already live in the destination", () => {
+		const plan = planObjectCollectionMove(objects, 20);
+
+		expect(plan.moving.map((objectItem) => objectItem.id)).toEqual([1, 3]);
+		expect(plan.unchanged.map((objectItem) => objectItem.id)).toEqual([2]);
+	});
+});
+
+describe("object collection move results", () => {
+	it("records failures with their messages and summarizes outcomes", () => {
+		const results = [
+			toObjectCollectionMoveResult(objects[0]),
+			toObjectCollectionMoveResult(objects[2], new Error("Forbidden.")),
+		];
+
+		expect(results).toEqual([
+			{
+				objectId: 1,
+				classId: 4,
+				name: "alpha",
+				status: "moved",
+				message: null,
+			},
+			{
+				objectId: 3,
+				classId: 5,
+				name: "gamma",
+				status: "failed",
+				message: "Forbidden.",
+			},
+		]);
+		expect(summarizeObjectCollectionMoveResults(results)).toEqual({
+			moved: 1,
+			failed: 1,
+		});
+	});
+});
@@ -0,0 +1,68 @@
+import type { HubuumObject } from "@/lib/api/generated/models";
+
+export type ObjectCollectionMoveCandidate = Pick<
+	HubuumObject,
+	"id" | "name" | "hubuum_class_id" | "collection_id"
+>;
+
+export type ObjectCollectionMovePlan<T extends ObjectCollectionMoveCandidate> =
+	{
+		moving: T[];
+		unchanged: T[];
+	};
+
+export type ObjectCollectionMoveResult = {
+	objectId: number;
+	classId: number;
+	name: string;
+	status: "moved" | "failed";
+	message: string | null;
+};
+
+export function planObjectCollectionMove<
+	T extends ObjectCollectionMoveCandidate,
+>(
+	objects: readonly T[],
+	targetCollectionId: number,
+): ObjectCollectionMovePlan<T> {
+	const moving: T[] = [];
+	const unchanged: T[] = [];
+	for (const objectItem of objects) {
+		if (objectItem.collection_id === targetCollectionId) {
+			unchanged.push(objectItem);
+		} else {
+			moving.push(objectItem);
+		}
+	}
+	return { moving, unchanged };
+}
+
+export function toObjectCollectionMoveResult(
+	objectItem: ObjectCollectionMoveCandidate,
+	error?: unknown,
+): ObjectCollectionMoveResult {
+	return {
+		objectId: objectItem.id,
+		classId: objectItem.hubuum_class_id,
+		name: objectItem.name,
+		status: error === undefined ? "moved" : "failed",
+		message:
+			error === undefined
+				? null
+				: error instanceof Error
+					? error.message
+					: "Unknown error",
+	};
+}
+
+export function summarizeObjectCollectionMoveResults(
+	results: readonly ObjectCollectionMoveResult[],
+): { moved: number; failed: number } {
+	let moved = 0;
+	for (const result of results) {
+		if (result.status === "moved") {
+			moved += 1;
+		}
+	}
+	return { moved, failed: results.length - moved };
+}
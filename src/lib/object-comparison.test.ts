@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildObjectComparisonHref,
+	buildObjectDataComparisonRows,
+	buildObjectValueComparisonRows,
+	canCompareObjects,
+	countObjectDataDifferences,
+	formatObjectComparisonValue,
+	parseObjectComparisonItems,
+} from "@/lib/object-comparison";
+
+describe("object comparison items", () => {
+	it("parses unique class and object pairs up to the comparison limit", () => {
+		expect(
+			parseObjectComparisonItems("4:1, 4:2,bad,4:1,0:3,5:3,6:4,7:5"),
+		).toEqual([
+			{ classId: 4, objectId: 1 },
+			{ classId: 4, objectId: 2 },
+			{ classId: 5, objectId: 3 },
+			{ classId: 6, objectId: 4 },
+		]);
+		expect(parseObjectComparisonItems(null)).toEqual([]);
+	});
+
+	it("builds a shareable comparison link", () => {
+		expect(
+			buildObjectComparisonHref([
+				{ classId: 4, objectId: 1 },
+				{ classId: 5, objectId: 9 },
+			]),
+		).toBe("/objects/compare?items=4%3A1%2C5%3A9");
+	});
+
+	it("only allows comparing two to four objects", () => {
+		expect(canCompareObjects(1)).toBe(false);
+		expect(canCompareObjects(2)).toBe(true);
+		expect(canCompareObjects(4)).toBe(true);
+		expect(canCompareObjects(5)).toBe(false);
+	});
+});
+
+describe("buildObjectDataComparisonRows", () => {
+	it("aligns data paths and marks differing and missing values", () => {
+		const { rows, truncated } = buildObjectDataComparisonRows([
+			{ host: { os: "linux", cpu: 4 }, tags: ["a"] },
+			{ host: { os: "linux", cpu: 8 } },
+			{ host: { os: "linux", cpu: 4 }, tags: ["a"], owner: "ops" },
+		]);
+
+		expect(truncated).toBe(false);
+		expect(rows.map((row) => [row.path, row.status, row.values])).toEqual([
+			["host.cpu", "different", ["4", "8", "4"]],
+			["host.os", "same", ["linux", "linux", "linux"]],
+			["tags[0]", "missing", ["a", null, "a"]],
+			["owner", "missing", [null, null, "ops"]],
+		]);
+		expect(formatObjectComparisonValue(null)).toBe("(not present)");
+	});
+});
+
+describe("buildObjectValueComparisonRows", () => {
+	it("compares computed values by key", () => {
+		expect(
+			buildObjectValueComparisonRows([{ total: 3, label: "x" }, { total: 3 }]),
+		).toEqual([
+			{
+				id: "label",
+				path: "label",
+				values: ['"x"', null],
+				status: "missing",
+			},
+			{ id: "total", path: "total", values: ["3", "3"], status: "same" },
+		]);
+	});
+});
+
+describe("countObjectDataDifferences", () => {
+	it("counts changes against the first object", () => {
+		expect(
+			countObjectDataDifferences([{ a: 1, b: 2 }, { a: 1, b: 2 }, { a: 2 }]),
+		).toEqual([null, 0, 2]);
+	});
+});
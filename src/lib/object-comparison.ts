@@ -0,0 +1,165 @@
+import { buildJsonDifference, JSON_DIFF_MISSING_VALUE } from "@/lib/json-diff";
+import { flattenObjectPropertyEntries } from "@/lib/object-property-entries";
+
+export const MIN_COMPARED_OBJECTS = 2;
+export const MAX_COMPARED_OBJECTS = 4;
+export const OBJECT_COMPARISON_ITEMS_PARAM = "items";
+
+const OBJECT_COMPARISON_MAX_ENTRIES = 1000;
+
+export type ObjectComparisonItem = {
+	classId: number;
+	objectId: number;
+};
+
+export type ObjectComparisonRowStatus = "same" | "different" | "missing";
+
+export type ObjectComparisonRow = {
+	id: string;
+	path: string;
+	values: Array<string | null>;
+	status: ObjectComparisonRowStatus;
+};
+
+export type ObjectComparisonRows = {
+	rows: ObjectComparisonRow[];
+	truncated: boolean;
+};
+
+function parsePositiveId(value: string): number | null {
+	if (!/^\d+$/.test(value)) {
+		return null;
+	}
+	const parsed = Number.parseInt(value, 10);
+	return parsed > 0 ? parsed : null;
+}
+
+export function parseObjectComparisonItems(
+	value: string | null | undefined,
+): ObjectComparisonItem[] {
+	const items: ObjectComparisonItem[] = [];
+	const seen = new Set<string>();
+	for (const token of (value ?? "").split(",")) {
+		const [classToken, objectToken, ...rest] = token.trim().split(":");
+		if (rest.length > 0 || classToken === undefined || !objectToken) {
+			continue;
+		}
+		const classId = parsePositiveId(classToken);
+		const objectId = parsePositiveId(objectToken);
+		const key = `${classId}:${objectId}`;
+		if (classId === null || objectId === null || seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+		items.push({ classId, objectId });
+		if (items.length === MAX_COMPARED_OBJECTS) {
+			break;
+		}
+	}
+	return items;
+}
+
+export function serializeObjectComparisonItems(
+	items: readonly ObjectComparisonItem[],
+): string {
+	return items.map((item) => `${item.classId}:${item.objectId}`).join(",");
+}
+
+export function buildObjectComparisonHref(
+	items: readonly ObjectComparisonItem[],
+): string {
+	const params = new URLSearchParams({
+		[OBJECT_COMPARISON_ITEMS_PARAM]: serializeObjectComparisonItems(items),
+	});
+	return `/objects/compare?${params.toString()}`;
+}
+
+export function canCompareObjects(count: number): boolean {
+	return count >= MIN_COMPARED_OBJECTS && count <= MAX_COMPARED_OBJECTS;
+}
+
+function classifyValues(
+	values: ReadonlyArray<string | null>,
+): ObjectComparisonRowStatus {
+	if (values.some((value) => value === null)) {
+		return "missing";
+	}
+	return values.every((value) => value === values[0]) ? "same" : "different";
+}
+
+function alignEntries(
+	entryMaps: ReadonlyArray<Map<string, { path: string; value: string }>>,
+): ObjectComparisonRow[] {
+	const order: string[] = [];
+	const seen = new Set<string>();
+	for (const entries of entryMaps) {
+		for (const id of entries.keys()) {
+			if (!seen.has(id)) {
+				seen.add(id);
+				order.push(id);
+			}
+		}
+	}
+
+	return order.map((id) => {
+		const path =
+			entryMaps.find((entries) => entries.has(id))?.get(id)?.path ?? id;
+		const values = entryMaps.map((entries) => entries.get(id)?.value ?? null);
+		return { id, path, values, status: classifyValues(values) };
+	});
+}
+
+export function buildObjectDataComparisonRows(
+	dataList: readonly unknown[],
+): ObjectComparisonRows {
+	let truncated = false;
+	const entryMaps = dataList.map((data) => {
+		const result = flattenObjectPropertyEntries(data ?? {}, {
+			maxEntries: OBJECT_COMPARISON_MAX_ENTRIES,
+		});
+		truncated ||= result.truncated;
+		return new Map(
+			result.entries.map((entry) => [
+				entry.id,
+				{ path: entry.path || "(root)", value: entry.value },
+			]),
+		);
+	});
+
+	return { rows: alignEntries(entryMaps), truncated };
+}
+
+export function buildObjectValueComparisonRows(
+	valuesList: ReadonlyArray<Record<string, unknown> | null | undefined>,
+): ObjectComparisonRow[] {
+	const entryMaps = valuesList.map(
+		(values) =>
+			new Map(
+				Object.keys(values ?? {})
+					.sort((left, right) => left.localeCompare(right))
+					.map((key) => [
+						key,
+						{
+							path: key,
+							value: JSON.stringify(values?.[key]) ?? "null",
+						},
+					]),
+			),
+	);
+	return alignEntries(entryMaps);
+}
+
+export function countObjectDataDifferences(
+	dataList: readonly unknown[],
+): Array<number | null> {
+	const [baseline] = dataList;
+	return dataList.map((data, index) =>
+		index === 0
+			? null
+			: (buildJsonDifference(baseline, data)?.changeCount ?? 0),
+	);
+}
+
+export function formatObjectComparisonValue(value: string | null): string {
+	return value ?? JSON_DIFF_MISSING_VALUE;
+}
@@ -101,13 +101,21 @@ function isRequiredSchemaPath(schema: unknown, path: string[]): boolean {
 	return path.length > 0;
 }
 
-function initialValueForSchema(schema: unknown): unknown {
+export function getObjectCreateInitialValue(schema: unknown): unknown {
 	if (!isRecord(schema)) return "";
 	if (schema.default !== undefined) return cloneJsonValue(schema.default);
 	if (schema.const !== undefined) return cloneJsonValue(schema.const);
 	if (Array.isArray(schema.enum) && schema.enum.length > 0) {
 		return cloneJsonValue(schema.enum[0]);
 	}
+	const variants = Array.isArray(schema.oneOf) ? schema.oneOf : schema.anyOf;
+	if (
+		!schemaTypes(schema).length &&
+		Array.isArray(variants) &&
+		variants.length > 0
+	) {
+		return getObjectCreateInitialValue(variants[0]);
+	}
 
 	const types = schemaTypes(schema);
 	const type = types[0] ?? "string";
@@ -121,7 +129,7 @@ function initialValueForSchema(schema: unknown): unknown {
 		return Object.fromEntries(
 			required
 				.filter((key) => Object.hasOwn(properties, key))
-				.map((key) => [key, initialValueForSchema(properties[key])]),
+				.map((key) => [key, getObjectCreateInitialValue(properties[key])]),
 		);
 	}
 	if (type === "array") return [];
@@ -227,7 +235,7 @@ export function buildObjectCreateDataModel(
 				id: JSON.stringify(field.path),
 				initialValue:
 					field.source === "schema"
-						? initialValueForSchema(fieldSchema)
+						? getObjectCreateInitialValue(fieldSchema)
 						: initialValueForTypes(resolvedTypes),
 				label: field.label,
 				path: field.path,
@@ -239,7 +247,7 @@ export function buildObjectCreateDataModel(
 			};
 		});
 
-	const initial = initialValueForSchema(schema);
+	const initial = getObjectCreateInitialValue(schema);
 	return {
 		allowsNewFields:
 			!hasSchema || schemaAllowsAnyAdditionalField(schema),
@@ -5,6 +5,7 @@ import {
 	getObjectDataFieldType,
 	getObjectDataValue,
 	parseObjectDataPath,
+	removeObjectDataValue,
 	setObjectDataValue,
 } from "@/lib/object-data-editing";
 
@@ -99,6 +100,29 @@ describe("setObjectDataValue", () => {
 	});
 });
 
+describe("removeObjectDataValue", () => {
+	it("removes nested keys and array entries without mutating the original", () => {
+		const original = {
+			hardware: { cpu: [{ model: "Xeon" }, { model: "Epyc" }], legacy: true },
+		};
+
+		expect(removeObjectDataValue(original, ["hardware", "legacy"])).toEqual({
+			ok: true,
+			value: { hardware: { cpu: [{ model: "Xeon" }, { model: "Epyc" }] } },
+		});
+		expect(removeObjectDataValue(original, ["hardware", "cpu", 0])).toEqual({
+			ok: true,
+			value: { hardware: { cpu: [{ model: "Epyc" }], legacy: true } },
+		});
+		expect(original.hardware.legacy).toBe(true);
+	});
+
+	it("rejects missing paths and the document root", () => {
+		expect(removeObjectDataValue({ a: 1 }, ["b"]).ok).toBe(false);
+		expect(removeObjectDataValue({ a: 1 }, []).ok).toBe(false);
+	});
+});
+
 describe("object data field values", () => {
 	it("preserves explicit JSON types", () => {
 		expect(createObjectDataFieldValue("string", "42")).toEqual({
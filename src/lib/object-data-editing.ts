@@ -270,6 +270,45 @@ export function setObjectDataValue(
 	return update(root, 0);
 }
 
+export function removeObjectDataValue(
+	root: unknown,
+	segments: readonly ObjectPropertyPathSegment[],
+): ObjectDataValueResult {
+	if (segments.length === 0) {
+		return { ok: false, error: "The whole data document cannot be removed." };
+	}
+	if (!getObjectDataValue(root, segments).found) {
+		return { ok: false, error: "Path is not present." };
+	}
+
+	function update(current: unknown, segmentIndex: number): unknown {
+		const segment = segments[segmentIndex];
+		const isLast = segmentIndex === segments.length - 1;
+
+		if (typeof segment === "number" && Array.isArray(current)) {
+			const nextArray = [...current];
+			if (isLast) {
+				nextArray.splice(segment, 1);
+			} else {
+				nextArray[segment] = update(current[segment], segmentIndex + 1);
+			}
+			return nextArray;
+		}
+
+		const record = current as Record<string, unknown>;
+		if (isLast) {
+			const { [String(segment)]: _removed, ...rest } = record;
+			return rest;
+		}
+		return {
+			...record,
+			[segment]: update(record[segment], segmentIndex + 1),
+		};
+	}
+
+	return { ok: true, value: update(root, 0) };
+}
+
 export function getObjectDataFieldType(value: unknown): ObjectDataFieldType {
 	if (value === null) {
 		return "null";
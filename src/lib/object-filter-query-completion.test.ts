@@ -0,0 +1,78 @@
+import { CompletionContext } from "@codemirror/autocomplete";
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+
+import { createObjectFilterQueryCompletionSource } from "@/lib/object-filter-query-completion";
+
+async function completionsFor(
+	document: string,
+): Promise<{ from: number; labels: string[] } | null> {
+	const state = EditorState.create({ doc: document });
+	const source = createObjectFilterQueryCompletionSource({
+		dataFields: [
+			{
+				id: '["os","version"]',
+				label: "os.version",
+				path: ["os", "version"],
+				dataType: "number",
+			},
+			{
+				id: '["active"]',
+				label: "active",
+				path: ["active"],
+				dataType: "boolean",
+			},
+		],
+		computedFields: [
+			{
+				id: "shared:cpu_total",
+				key: "cpu_total",
+				label: "CPU total",
+				scope: "shared",
+				resultType: "number",
+			},
+		],
+	});
+	const result = await source(
+		new CompletionContext(state, document.length, false),
+	);
+	return result
+		? {
+				from: result.from,
+				labels: result.options.map((option) => option.label),
+			}
+		: null;
+}
+
+describe("object filter query completion", () => {
+	it("suggests standard, discovered data, and computed fields", async () => {
+		const result = await completionsFor("name ~ web and da");
+
+		expect(result?.from).toBe(15);
+		expect(result?.labels).toEqual(
+			expect.arrayContaining([
+				"name",
+				"updated_at",
+				"data.os.version",
+				"data.active",
+				"computed:shared.cpu_total",
+			]),
+		);
+	});
+
+	it("suggests operators after a field and values for typed fields", async () => {
+		expect((await completionsFor("data.os.version "))?.labels).toEqual(
+			expect.arrayContaining([">=", "!~", "is null", "between"]),
+		);
+		expect((await completionsFor("data.active = "))?.labels).toEqual([
+			"true",
+			"false",
+		]);
+		expect((await completionsFor("updated_at > -"))?.labels).toContain("-7d");
+	});
+
+	it("suggests the conjunction after a complete filter", async () => {
+		expect((await completionsFor("name ~ web "))?.labels).toEqual(["and"]);
+		expect(await completionsFor('name ~ "we')).toBeNull();
+	});
+});
@@ -0,0 +1,190 @@
+import type {
+	Completion,
+	CompletionContext,
+	CompletionResult,
+	CompletionSource,
+} from "@codemirror/autocomplete";
+
+import {
+	OBJECT_FILTER_QUERY_BASE_FIELDS,
+	OBJECT_FILTER_QUERY_OPERATOR_WORDS,
+	OBJECT_FILTER_QUERY_SYMBOLS,
+	type ObjectFilterQueryToken,
+	tokenizeObjectFilterQuery,
+} from "@/lib/object-filter-query";
+import type {
+	ServerFilterComputedField,
+	ServerFilterDataField,
+} from "@/lib/object-server-filter-fields";
+
+export type ObjectFilterQueryCompletionOptions = {
+	dataFields: readonly ServerFilterDataField[];
+	computedFields: readonly ServerFilterComputedField[];
+};
+
+type CompletionStage = "field" | "operator" | "null" | "value" | "conjunction";
+
+const BASE_FIELD_DETAILS: Record<
+	(typeof OBJECT_FILTER_QUERY_BASE_FIELDS)[number],
+	string
+> = {
+	name: "Object name",
+	description: "Object description",
+	id: "Object ID",
+	collection_id: "Collection ID",
+	created_at: "Created at · date",
+	updated_at: "Updated at · date",
+};
+
+const SYMBOL_DETAILS: Record<string, string> = {
+	"=": "equals",
+	"!=": "does not equal",
+	"~": "contains (ignore case)",
+	"!~": "does not contain (ignore case)",
+	">": "greater than",
+	">=": "at least",
+	"<": "less than",
+	"<=": "at most",
+};
+
+const RELATIVE_DATE_OPTIONS: Completion[] = [
+	{ label: "-1d", detail: "24 hours ago", type: "constant" },
+	{ label: "-7d", detail: "7 days ago", type: "constant" },
+	{ label: "-30d", detail: "30 days ago", type: "constant" },
+	{ label: "-1y", detail: "1 year ago", type: "constant" },
+	{ label: "now", detail: "Current time", type: "constant" },
+];
+
+const BOOLEAN_OPTIONS: Completion[] = [
+	{ label: "true", type: "constant" },
+	{ label: "false", type: "constant" },
+];
+
+function getCompletionStage(tokens: readonly ObjectFilterQueryToken[]): {
+	stage: CompletionStage;
+	field: string | null;
+} {
+	let stage: CompletionStage = "field";
+	let field: string | null = null;
+	for (const token of tokens) {
+		const word = token.kind === "word" ? token.value.toLowerCase() : null;
+		if (stage === "field") {
+			field = token.value;
+			stage = "operator";
+		} else if (stage === "operator") {
+			stage = word === "is" ? "null" : "value";
+		} else if (stage === "null") {
+			stage = word === "not" ? "null" : "conjunction";
+		} else if (stage === "value") {
+			stage = "conjunction";
+		} else {
+			stage = word === "and" ? "field" : "conjunction";
+		}
+	}
+	return { stage, field };
+}
+
+function getFieldOptions({
+	dataFields,
+	computedFields,
+}: ObjectFilterQueryCompletionOptions): Completion[] {
+	return [
+		...OBJECT_FILTER_QUERY_BASE_FIELDS.map((field) => ({
+			label: field,
+			detail: BASE_FIELD_DETAILS[field],
+			type: "property",
+			boost: 2,
+		})),
+		...dataFields.map((field) => ({
+			label: `data.${field.path.join(".")}`,
+			detail: `data · ${field.dataType}`,
+			type: "property",
+			boost: 1,
+		})),
+		...computedFields.map((field) => ({
+			label: `computed:${field.scope}.${field.key}`,
+			detail: `${field.label} · ${field.resultType}`,
+			type: "variable",
+		})),
+	];
+}
+
+function getOperatorOptions(): Completion[] {
+	return [
+		...Object.keys(OBJECT_FILTER_QUERY_SYMBOLS).map((symbol) => ({
+			label: symbol,
+			detail: SYMBOL_DETAILS[symbol],
+			type: "keyword",
+			boost: 2,
+		})),
+		{ label: "is null", detail: "is missing or null", type: "keyword" },
+		{ label: "is not null", detail: "is present", type: "keyword" },
+		...OBJECT_FILTER_QUERY_OPERATOR_WORDS.map((operator) => ({
+			label: operator,
+			type: "keyword",
+		})),
+	];
+}
+
+function getValueOptions(
+	field: string | null,
+	{ dataFields, computedFields }: ObjectFilterQueryCompletionOptions,
+): Completion[] {
+	if (field === "created_at" || field === "updated_at") {
+		return RELATIVE_DATE_OPTIONS;
+	}
+	const dataField = field?.startsWith("data.")
+		? dataFields.find((item) => `data.${item.path.join(".")}` === field)
+		: undefined;
+	if (dataField?.dataType === "date") return RELATIVE_DATE_OPTIONS;
+	if (dataField?.dataType === "boolean") return BOOLEAN_OPTIONS;
+	const computedField = computedFields.find(
+		(item) => `computed:${item.scope}.${item.key}` === field,
+	);
+	return computedField?.resultType === "boolean" ? BOOLEAN_OPTIONS : [];
+}
+
+export function createObjectFilterQueryCompletionSource(
+	options: ObjectFilterQueryCompletionOptions,
+): CompletionSource {
+	return (context: CompletionContext): CompletionResult | null => {
+		const text = context.state.doc.sliceString(0, context.pos);
+		const { tokens } = tokenizeObjectFilterQuery(text);
+		const lastToken = tokens.at(-1);
+		const isTypingToken =
+			lastToken !== undefined && lastToken.to === text.length;
+		if (lastToken?.kind === "string" && isTypingToken) return null;
+		if (!isTypingToken && !context.explicit && tokens.length === 0) return null;
+
+		const { stage, field } = getCompletionStage(
+			isTypingToken ? tokens.slice(0, -1) : tokens,
+		);
+		const from = isTypingToken ? lastToken.from : context.pos;
+		const completionOptions =
+			stage === "field"
+				? getFieldOptions(options)
+				: stage === "operator"
+					? getOperatorOptions()
+					: stage === "null"
+						? [
+								{ label: "null", type: "keyword" },
+								{ label: "not null", type: "keyword" },
+							]
+						: stage === "value"
+							? getValueOptions(field, options)
+							: [
+									{
+										label: "and",
+										detail: "Add another filter",
+										type: "keyword",
+									},
+								];
+
+		if (completionOptions.length === 0) return null;
+		return {
+			from,
+			options: completionOptions,
+			validFor: /^[\w.:$!=~<>-]*$/,
+		};
+	};
+}
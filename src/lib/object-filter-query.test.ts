@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	formatObjectFilterQuery,
+	parseObjectFilterQuery,
+} from "@/lib/object-filter-query";
+import type { ObjectServerFilter } from "@/lib/object-server-filters";
+
+const options = {
+	dataFields: [
+		{ path: ["os", "version"], dataType: "number" as const },
+		{ path: ["purchased"], dataType: "date" as const },
+	],
+	computedFields: [
+		{
+			key: "cpu_total",
+			scope: "shared" as const,
+			resultType: "number" as const,
+		},
+		{
+			key: "is_prod",
+			scope: "personal" as const,
+			resultType: "boolean" as const,
+		},
+	],
+	now: new Date("2026-03-10T12:00:00Z"),
+};
+
+describe("parseObjectFilterQuery", () => {
+	it("parses symbolic comparisons, computed fields, and relative dates", () => {
+		expect(
+			parseObjectFilterQuery(
+				'data.os.version >= 9 and name ~ "web" and computed:shared.cpu_total > 4 and updated_at > -7d',
+				options,
+			),
+		).toEqual({
+			filters: [
+				{
+					field: "json_data",
+					operator: "gte",
+					value: "9",
+					path: ["os", "version"],
+				},
+				{ field: "name", operator: "icontains", value: "web" },
+				{
+					field: "computed",
+					operator: "gt",
+					value: "4",
+					computedScope: "shared",
+					computedKey: "cpu_total",
+					computedResultType: "number",
+				},
+				{
+					field: "updated_at",
+					operator: "gt",
+					value: "2026-03-03T12:00:00.000Z",
+				},
+			],
+			errors: [],
+		});
+	});
+
+	it("supports null checks, operator words, and quoted values", () => {
+		expect(
+			parseObjectFilterQuery(
+				'data.rack is not null and computed:personal.is_prod is null and description not_istartswith "old \\"lab\\"" and data.purchased between -1y,now',
+				options,
+			).filters,
+		).toEqual([
+			{
+				field: "json_data",
+				operator: "not_is_null",
+				value: "",
+				path: ["rack"],
+			},
+			{
+				field: "computed",
+				operator: "is_null",
+				value: "true",
+				computedScope: "personal",
+				computedKey: "is_prod",
+				computedResultType: "boolean",
+			},
+			{
+				field: "description",
+				operator: "not_istartswith",
+				value: 'old "lab"',
+			},
+			{
+				field: "json_data",
+				operator: "between",
+				value: "2025-03-10T12:00:00.000Z,2026-03-10T12:00:00.000Z",
+				path: ["purchased"],
+			},
+		]);
+	});
+
+	it("reports errors with their positions and applies nothing", () => {
+		const result = parseObjectFilterQuery(
+			"owner = bob and id > ten or name ~",
+			options,
+		);
+
+		expect(result.filters).toEqual([]);
+		expect(result.errors).toEqual([
+			{
+				from: 0,
+				to: 5,
+				message: expect.stringContaining('Unknown field "owner"'),
+			},
+			{
+				from: 16,
+				to: 24,
+				message: "This operator and value are not valid for the field.",
+			},
+			{
+				from: 25,
+				to: 27,
+				message: 'Only "and" is supported between filters.',
+			},
+		]);
+		expect(parseObjectFilterQuery('name = "web', options).errors).toEqual([
+			{ from: 7, to: 11, message: "Unterminated string." },
+		]);
+	});
+
+	it("enforces the computed and duplicate filter limits", () => {
+		expect(
+			parseObjectFilterQuery("name ~ a and name ~ b", options).errors[0]
+				.message,
+		).toBe("This field and operator are already filtered.");
+		expect(
+			parseObjectFilterQuery(
+				"computed:shared.cpu_total > 1 and computed:shared.cpu_total < 9 and computed:personal.is_prod = true",
+				options,
+			).errors[0].message,
+		).toBe("At most 2 computed filters can be applied.");
+	});
+});
+
+describe("formatObjectFilterQuery", () => {
+	it("round-trips filters edited in the filter menu", () => {
+		const filters: ObjectServerFilter[] = [
+			{ field: "name", operator: "not_icontains", value: "web and db" },
+			{
+				field: "json_data",
+				operator: "in",
+				value: "8,9",
+				path: ["os", "version"],
+			},
+			{
+				field: "json_data",
+				operator: "is_null",
+				value: "",
+				path: ["owner", "email"],
+			},
+			{
+				field: "computed",
+				operator: "is_null",
+				value: "false",
+				computedScope: "personal",
+				computedKey: "is_prod",
+				computedResultType: "boolean",
+			},
+			{
+				field: "created_at",
+				operator: "gte",
+				value: "2026-01-01T00:00:00Z",
+			},
+		];
+		const text = formatObjectFilterQuery(filters);
+
+		expect(text).toBe(
+			'name !~ "web and db" and data.os.version in 8,9 and data.owner.email is null and computed:personal.is_prod is not null and created_at >= 2026-01-01T00:00:00Z',
+		);
+		expect(parseObjectFilterQuery(text, options)).toEqual({
+			filters,
+			errors: [],
+		});
+	});
+});
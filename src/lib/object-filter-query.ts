@@ -0,0 +1,497 @@
+import type { ServerFilterDataField } from "@/lib/object-server-filter-fields";
+import {
+	getObjectServerFilterIdentity,
+	MAX_OBJECT_COMPUTED_FILTERS,
+	MAX_OBJECT_SERVER_FILTERS,
+	normalizeObjectServerFilter,
+	type ObjectServerComputedFilterDefinition,
+	type ObjectServerFilter,
+	type ObjectServerFilterOperator,
+	resolveObjectServerFilterRelativeDates,
+} from "@/lib/object-server-filters";
+
+export type ObjectFilterQueryError = {
+	from: number;
+	to: number;
+	message: string;
+};
+
+export type ObjectFilterQueryResult = {
+	filters: ObjectServerFilter[];
+	errors: ObjectFilterQueryError[];
+};
+
+export type ObjectFilterQueryOptions = {
+	dataFields?: readonly Pick<ServerFilterDataField, "path" | "dataType">[];
+	computedFields?: readonly ObjectServerComputedFilterDefinition[];
+	now?: Date;
+};
+
+export type ObjectFilterQueryToken = {
+	kind: "word" | "string" | "symbol";
+	text: string;
+	value: string;
+	from: number;
+	to: number;
+};
+
+type ParsedField =
+	| {
+			field:
+				| "name"
+				| "description"
+				| "id"
+				| "collection_id"
+				| "created_at"
+				| "updated_at";
+	  }
+	| { field: "json_data"; path: string[] }
+	| { field: "computed"; definition: ObjectServerComputedFilterDefinition };
+
+export const OBJECT_FILTER_QUERY_BASE_FIELDS = [
+	"name",
+	"description",
+	"id",
+	"collection_id",
+	"created_at",
+	"updated_at",
+] as const;
+
+export const OBJECT_FILTER_QUERY_SYMBOLS: Record<
+	string,
+	ObjectServerFilterOperator
+> = {
+	"=": "equals",
+	"!=": "not_equals",
+	"~": "icontains",
+	"!~": "not_icontains",
+	">": "gt",
+	">=": "gte",
+	"<": "lt",
+	"<=": "lte",
+};
+
+export const OBJECT_FILTER_QUERY_OPERATOR_WORDS = [
+	"equals",
+	"iequals",
+	"contains",
+	"icontains",
+	"startswith",
+	"istartswith",
+	"endswith",
+	"iendswith",
+	"gt",
+	"gte",
+	"lt",
+	"lte",
+	"like",
+	"regex",
+	"in",
+	"between",
+	"is_null",
+	"has_key",
+	"array_length",
+	"all",
+	"within_network",
+	"contains_network",
+	"contains_ip",
+	"overlaps_network",
+	"inet_equals",
+] as const;
+
+const OPERATOR_WORDS = new Set<string>([
+	...OBJECT_FILTER_QUERY_OPERATOR_WORDS,
+	...OBJECT_FILTER_QUERY_OPERATOR_WORDS.map((operator) => `not_${operator}`),
+]);
+const SYMBOL_BY_OPERATOR = new Map(
+	Object.entries(OBJECT_FILTER_QUERY_SYMBOLS).map(([symbol, operator]) => [
+		operator,
+		symbol,
+	]),
+);
+const SYMBOL_CHARACTERS = new Set(["=", "~", "<", ">", "!"]);
+const BASE_FIELD_NAMES = new Set<string>(OBJECT_FILTER_QUERY_BASE_FIELDS);
+const DATA_FIELD_PREFIX = "data.";
+const COMPUTED_FIELD_PATTERN =
+	/^computed:(shared|personal)\.([a-z][a-z0-9_]{0,63})$/;
+
+export function tokenizeObjectFilterQuery(text: string): {
+	tokens: ObjectFilterQueryToken[];
+	errors: ObjectFilterQueryError[];
+} {
+	const tokens: ObjectFilterQueryToken[] = [];
+	const errors: ObjectFilterQueryError[] = [];
+	let index = 0;
+
+	while (index < text.length) {
+		const character = text[index];
+		if (/\s/.test(character)) {
+			index += 1;
+			continue;
+		}
+
+		const from = index;
+		if (character === '"') {
+			let value = "";
+			index += 1;
+			let closed = false;
+			while (index < text.length) {
+				const next = text[index];
+				if (next === "\\" && index + 1 < text.length) {
+					value += text[index + 1];
+					index += 2;
+					continue;
+				}
+				index += 1;
+				if (next === '"') {
+					closed = true;
+					break;
+				}
+				value += next;
+			}
+			if (!closed) {
+				errors.push({ from, to: index, message: "Unterminated string." });
+			}
+			tokens.push({
+				kind: "string",
+				text: text.slice(from, index),
+				value,
+				from,
+				to: index,
+			});
+			continue;
+		}
+
+		if (SYMBOL_CHARACTERS.has(character)) {
+			const pair = text.slice(index, index + 2);
+			const symbol = pair in OBJECT_FILTER_QUERY_SYMBOLS ? pair : character;
+			index += symbol.length;
+			tokens.push({
+				kind: "symbol",
+				text: symbol,
+				value: symbol,
+				from,
+				to: index,
+			});
+			continue;
+		}
+
+		while (
+			index < text.length &&
+			!/\s/.test(text[index]) &&
+			text[index] !== '"' &&
+			!SYMBOL_CHARACTERS.has(text[index])
+		) {
+			index += 1;
+		}
+		const word = text.slice(from, index);
+		tokens.push({ kind: "word", text: word, value: word, from, to: index });
+	}
+
+	return { tokens, errors };
+}
+
+function isKeyword(token: ObjectFilterQueryToken | undefined, keyword: string) {
+	return token?.kind === "word" && token.value.toLowerCase() === keyword;
+}
+
+function parseField(
+	token: ObjectFilterQueryToken,
+	computedFields: readonly ObjectServerComputedFilterDefinition[],
+): ParsedField | string {
+	if (token.kind !== "word") {
+		return "Expected a field name.";
+	}
+	const name = token.value;
+	if (BASE_FIELD_NAMES.has(name)) {
+		return { field: name } as ParsedField;
+	}
+	if (name.startsWith(DATA_FIELD_PREFIX)) {
+		const path = name.slice(DATA_FIELD_PREFIX.length).split(".");
+		if (
+			path.some(
+				(segment) =>
+					!segment || segment.length > 64 || !/^[A-Za-z0-9_$]+$/.test(segment),
+			)
+		) {
+			return `"${name}" is not a filterable data path.`;
+		}
+		return { field: "json_data", path };
+	}
+	const computedMatch = name.match(COMPUTED_FIELD_PATTERN);
+	if (computedMatch) {
+		const definition = computedFields.find(
+			(field) =>
+				field.scope === computedMatch[1] && field.key === computedMatch[2],
+		);
+		return definition
+			? { field: "computed", definition }
+			: `Unknown computed field "${name}".`;
+	}
+	return `Unknown field "${name}". Use a standard field, data.<path>, or computed:<scope>.<key>.`;
+}
+
+function isDateField(
+	field: ParsedField,
+	dataFields: ObjectFilterQueryOptions["dataFields"],
+): boolean {
+	if (field.field === "created_at" || field.field === "updated_at") return true;
+	if (field.field !== "json_data") return false;
+	const pathKey = field.path.join(".");
+	return Boolean(
+		dataFields?.some(
+			(dataField) =>
+				dataField.dataType === "date" && dataField.path.join(".") === pathKey,
+		),
+	);
+}
+
+function buildFilter(
+	field: ParsedField,
+	operator: ObjectServerFilterOperator,
+	value: string,
+): ObjectServerFilter | null {
+	if (field.field === "json_data") {
+		return normalizeObjectServerFilter({
+			field: "json_data",
+			operator,
+			value,
+			path: field.path,
+		});
+	}
+	if (field.field === "computed") {
+		return normalizeObjectServerFilter({
+			field: "computed",
+			operator,
+			value,
+			computedScope: field.definition.scope,
+			computedKey: field.definition.key,
+			computedResultType: field.definition.resultType,
+		});
+	}
+	return normalizeObjectServerFilter({ field: field.field, operator, value });
+}
+
+export function parseObjectFilterQuery(
+	text: string,
+	options: ObjectFilterQueryOptions = {},
+): ObjectFilterQueryResult {
+	const { tokens, errors } = tokenizeObjectFilterQuery(text);
+	const filters: ObjectServerFilter[] = [];
+	const seenIdentities = new Set<string>();
+	let computedCount = 0;
+	let index = 0;
+
+	function skipToNextClause() {
+		while (index < tokens.length && !isKeyword(tokens[index], "and")) {
+			index += 1;
+		}
+	}
+
+	while (index < tokens.length) {
+		const fieldToken = tokens[index];
+		const field = parseField(fieldToken, options.computedFields ?? []);
+		if (typeof field === "string") {
+			errors.push({ from: fieldToken.from, to: fieldToken.to, message: field });
+			skipToNextClause();
+		} else {
+			index += 1;
+			const operatorToken = tokens[index];
+			let operator: ObjectServerFilterOperator | null = null;
+			let value: string | null = null;
+			let clauseEnd = operatorToken?.to ?? fieldToken.to;
+			let clauseFailed = false;
+
+			if (!operatorToken || isKeyword(operatorToken, "and")) {
+				errors.push({
+					from: fieldToken.from,
+					to: fieldToken.to,
+					message: `Expected an operator after "${fieldToken.value}".`,
+				});
+				clauseFailed = true;
+			} else if (isKeyword(operatorToken, "is")) {
+				index += 1;
+				const negated = isKeyword(tokens[index], "not");
+				if (negated) index += 1;
+				if (isKeyword(tokens[index], "null")) {
+					clauseEnd = tokens[index].to;
+					index += 1;
+					if (field.field === "computed") {
+						operator = "is_null";
+						value = negated ? "false" : "true";
+					} else {
+						operator = negated ? "not_is_null" : "is_null";
+						value = "";
+					}
+				} else {
+					errors.push({
+						from: operatorToken.from,
+						to: tokens[index - 1].to,
+						message: 'Expected "is null" or "is not null".',
+					});
+					clauseFailed = true;
+				}
+			} else if (
+				operatorToken.kind === "symbol" &&
+				operatorToken.value in OBJECT_FILTER_QUERY_SYMBOLS
+			) {
+				operator = OBJECT_FILTER_QUERY_SYMBOLS[operatorToken.value];
+				index += 1;
+			} else if (
+				operatorToken.kind === "word" &&
+				OPERATOR_WORDS.has(operatorToken.value.toLowerCase())
+			) {
+				operator =
+					operatorToken.value.toLowerCase() as ObjectServerFilterOperator;
+				index += 1;
+			} else {
+				errors.push({
+					from: operatorToken.from,
+					to: operatorToken.to,
+					message: `Unknown operator "${operatorToken.text}".`,
+				});
+				clauseFailed = true;
+			}
+
+			if (operator && value === null) {
+				const valueToken = tokens[index];
+				const expectsOptionalValue =
+					field.field === "json_data" && operator.endsWith("is_null");
+				if (
+					valueToken &&
+					(valueToken.kind === "string" ||
+						(valueToken.kind === "word" && !isKeyword(valueToken, "and")))
+				) {
+					value = valueToken.value;
+					clauseEnd = valueToken.to;
+					index += 1;
+				} else if (expectsOptionalValue) {
+					value = "";
+				} else {
+					errors.push({
+						from: fieldToken.from,
+						to: clauseEnd,
+						message: "Expected a value.",
+					});
+					operator = null;
+					clauseFailed = true;
+				}
+			}
+
+			if (operator && value !== null) {
+				const filter = buildFilter(
+					field,
+					operator,
+					isDateField(field, options.dataFields)
+						? resolveObjectServerFilterRelativeDates(value, options.now)
+						: value,
+				);
+				const identity = filter ? getObjectServerFilterIdentity(filter) : "";
+				if (!filter) {
+					errors.push({
+						from: fieldToken.from,
+						to: clauseEnd,
+						message: "This operator and value are not valid for the field.",
+					});
+				} else if (seenIdentities.has(identity)) {
+					errors.push({
+						from: fieldToken.from,
+						to: clauseEnd,
+						message: "This field and operator are already filtered.",
+					});
+				} else if (filters.length >= MAX_OBJECT_SERVER_FILTERS) {
+					errors.push({
+						from: fieldToken.from,
+						to: clauseEnd,
+						message: `At most ${MAX_OBJECT_SERVER_FILTERS} filters can be applied.`,
+					});
+				} else if (
+					filter.field === "computed" &&
+					computedCount >= MAX_OBJECT_COMPUTED_FILTERS
+				) {
+					errors.push({
+						from: fieldToken.from,
+						to: clauseEnd,
+						message: `At most ${MAX_OBJECT_COMPUTED_FILTERS} computed filters can be applied.`,
+					});
+				} else {
+					seenIdentities.add(identity);
+					if (filter.field === "computed") computedCount += 1;
+					filters.push(filter);
+				}
+			}
+
+			const trailing = tokens[index];
+			if (clauseFailed) {
+				skipToNextClause();
+			} else if (trailing && !isKeyword(trailing, "and")) {
+				errors.push({
+					from: trailing.from,
+					to: trailing.to,
+					message: isKeyword(trailing, "or")
+						? 'Only "and" is supported between filters.'
+						: 'Expected "and" before the next filter.',
+				});
+				skipToNextClause();
+			}
+		}
+
+		if (isKeyword(tokens[index], "and")) {
+			const andToken = tokens[index];
+			index += 1;
+			if (index >= tokens.length) {
+				errors.push({
+					from: andToken.from,
+					to: andToken.to,
+					message: 'Expected a filter after "and".',
+				});
+			}
+		}
+	}
+
+	return { filters: errors.length > 0 ? [] : filters, errors };
+}
+
+function formatObjectFilterQueryValue(value: string): string {
+	if (
+		value &&
+		!/[\s"\\=~<>!]/.test(value) &&
+		!["and", "or", "is", "not", "null"].includes(value.toLowerCase())
+	) {
+		return value;
+	}
+	return `"${value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+export function formatObjectFilterQueryField(
+	filter: ObjectServerFilter,
+): string {
+	if (filter.field === "json_data") {
+		return `${DATA_FIELD_PREFIX}${filter.path?.join(".") ?? ""}`;
+	}
+	if (filter.field === "computed") {
+		return `computed:${filter.computedScope}.${filter.computedKey}`;
+	}
+	return filter.field;
+}
+
+function formatObjectFilterQueryClause(filter: ObjectServerFilter): string {
+	const field = formatObjectFilterQueryField(filter);
+	if (filter.field === "json_data" && filter.operator === "is_null") {
+		return `${field} is null`;
+	}
+	if (filter.field === "json_data" && filter.operator === "not_is_null") {
+		return `${field} is not null`;
+	}
+	if (filter.field === "computed" && filter.operator === "is_null") {
+		return `${field} is ${filter.value === "false" ? "not " : ""}null`;
+	}
+	const operator = SYMBOL_BY_OPERATOR.get(filter.operator) ?? filter.operator;
+	return `${field} ${operator} ${formatObjectFilterQueryValue(filter.value)}`;
+}
+
+export function formatObjectFilterQuery(
+	filters: readonly ObjectServerFilter[],
+): string {
+	return filters.map(formatObjectFilterQueryClause).join(" and ");
+}
@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vitest";
 
+import type { ObjectAggregateRow } from "@/lib/api/generated/models";
 import {
+	buildObjectAggregateGroupTree,
 	formatObjectAggregateDimension,
 	formatObjectAggregateMeasure,
 	formatObjectAggregateMeasureLabel,
 	groupObjectRows,
+	groupObjectRowsByLevels,
 } from "@/lib/object-grouping";
 
 describe("groupObjectRows", () => {
@@ -98,3 +101,125 @@ describe("groupObjectRows", () => {
 		);
 	});
 });
+
+describe("nested grouping", () => {
+	it("groups loaded rows level by level with unique node ids", () => {
+		const tree = groupObjectRowsByLevels(
+			[
+				{ env: "prod", os: "linux" },
+				{ env: "prod", os: "linux" },
+				{ env: "prod", os: "bsd" },
+				{ env: "dev", os: "linux" },
+			],
+			[(row) => row.env, (row) => row.os],
+			"count-desc",
+		);
+
+		expect(
+			tree.map((node) => [
+				node.label,
+				node.count,
+				node.children.map((child) => [child.label, child.count, child.depth]),
+			]),
+		).toEqual([
+			[
+				"prod",
+				3,
+				[
+					["linux", 2, 1],
+					["bsd", 1, 1],
+				],
+			],
+			["dev", 1, [["linux", 1, 1]]],
+		]);
+		expect(tree[0].children[0].id).not.toBe(tree[1].children[0].id);
+		expect(tree[0].children[0].children).toEqual([]);
+	});
+
+	const row = (
+		env: string | null,
+		os: string,
+		count: number,
+		average: number,
+		max: number,
+	): ObjectAggregateRow => ({
+		dimensions: [
+			env === null
+				? { field: "json_data.env", state: "missing" }
+				: { field: "json_data.env", state: "value", value: env },
+			{ field: "json_data.os", state: "value", value: os },
+		],
+		measures: [
+			{
+				field: "json_data.cpu",
+				operation: "average",
+				state: "value",
+				value: average,
+				value_count: count,
+				skipped_count: 0,
+			},
+			{
+				field: "json_data.cpu",
+				operation: "max",
+				state: "value",
+				value: max,
+				value_count: count,
+				skipped_count: 1,
+			},
+		],
+		object_count: count,
+	});
+
+	it("nests server aggregate rows and combines counts and measures", () => {
+		const tree = buildObjectAggregateGroupTree(
+			[
+				row(null, "linux", 9, 1, 2),
+				row("prod", "linux", 3, 10, 20),
+				row("prod", "bsd", 1, 2, 30),
+			],
+			"value-asc",
+		);
+
+		expect(tree.map((node) => [node.label, node.count])).toEqual([
+			["prod", 4],
+			["(missing)", 9],
+		]);
+		expect(tree[0].measures[0].value).toBeCloseTo((3 * 10 + 2) / 4);
+		expect(tree[0].measures[1]).toMatchObject({
+			value: 30,
+			value_count: 4,
+			skipped_count: 2,
+		});
+		expect(tree[0].children.map((child) => child.label)).toEqual([
+			"bsd",
+			"linux",
+		]);
+		expect(tree[0].children[1].dimensions.map((item) => item.value)).toEqual([
+			"prod",
+			"linux",
+		]);
+	});
+
+	it("prefers server parent aggregates over sums of the loaded leaf rows", () => {
+		const leaf = row("prod", "linux", 3, 10, 20);
+		const parent: ObjectAggregateRow = {
+			dimensions: [leaf.dimensions[0]],
+			measures: [
+				{ ...(leaf.measures ?? [])[0], value: 12, value_count: 50 },
+				{ ...(leaf.measures ?? [])[1], value: 64, value_count: 50 },
+			],
+			object_count: 50,
+		};
+
+		const [prod] = buildObjectAggregateGroupTree(
+			[leaf],
+			"value-asc",
+			undefined,
+			[parent],
+		);
+
+		expect(prod.count).toBe(50);
+		expect(prod.measures.map((measure) => measure.value)).toEqual([12, 64]);
+		expect(prod.children[0].count).toBe(3);
+	});
+});
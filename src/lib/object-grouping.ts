@@ -1,7 +1,12 @@
 import type {
+	ObjectAggregateDimensionValue,
 	ObjectAggregateMeasureOperation,
 	ObjectAggregateMeasureValue,
+	ObjectAggregateRow,
 } from "@/lib/api/generated/models";
+import { toObjectAggregateChartNumber } from "@/lib/object-aggregate-charts";
+
+export const MAX_OBJECT_GROUPING_LEVELS = 3;
 
 export type ObjectGroupSort =
 	| "count-desc"
@@ -17,6 +22,21 @@ export type ObjectGroup<Row> = {
 	rows: Row[];
 };
 
+export type ObjectGroupNode<Row> = ObjectGroup<Row> & {
+	depth: number;
+	children: ObjectGroupNode<Row>[];
+};
+
+export type ObjectAggregateGroupNode = {
+	id: string;
+	label: string;
+	depth: number;
+	dimensions: ObjectAggregateDimensionValue[];
+	count: number;
+	measures: ObjectAggregateMeasureValue[];
+	children: ObjectAggregateGroupNode[];
+};
+
 export type ObjectAggregateDimension = {
 	state: "value" | "null" | "missing" | "unavailable";
 	value?: unknown;
@@ -104,15 +124,39 @@ export function formatObjectAggregateMeasureLabel(
 	return `${operationLabel} · ${fieldLabel}`;
 }
 
-function compareGroupLabels(left: string, right: string): number {
-	if (left === "(empty)" && right !== "(empty)") return 1;
-	if (right === "(empty)" && left !== "(empty)") return -1;
-	return left.localeCompare(right, undefined, {
+type SortableGroup = {
+	label: string;
+	count: number;
+	empty: boolean;
+};
+
+function compareGroupLabels(left: SortableGroup, right: SortableGroup): number {
+	if (left.empty !== right.empty) return left.empty ? 1 : -1;
+	return left.label.localeCompare(right.label, undefined, {
 		numeric: true,
 		sensitivity: "base",
 	});
 }
 
+function compareGroups(
+	left: SortableGroup,
+	right: SortableGroup,
+	sort: ObjectGroupSort,
+): number {
+	const labelComparison = compareGroupLabels(left, right);
+	if (sort === "value-asc") return labelComparison;
+	if (sort === "value-desc") {
+		if (left.empty || right.empty) return labelComparison;
+		return -labelComparison;
+	}
+
+	const countComparison = left.count - right.count;
+	if (countComparison !== 0) {
+		return sort === "count-asc" ? countComparison : -countComparison;
+	}
+	return labelComparison;
+}
+
 export function groupObjectRows<Row>(
 	rows: readonly Row[],
 	getValue: (row: Row) => unknown,
@@ -137,20 +181,187 @@ export function groupObjectRows<Row>(
 		});
 	}
 
-	return [...groups.values()].sort((left, right) => {
-		const labelComparison = compareGroupLabels(left.label, right.label);
-		if (sort === "value-asc") return labelComparison;
-		if (sort === "value-desc") {
-			if (left.label === "(empty)" || right.label === "(empty)") {
-				return labelComparison;
-			}
-			return -labelComparison;
+	return [...groups.values()].sort((left, right) =>
+		compareGroups(
+			{ ...left, empty: left.label === "(empty)" },
+			{ ...right, empty: right.label === "(empty)" },
+			sort,
+		),
+	);
+}
+
+export function groupObjectRowsByLevels<Row>(
+	rows: readonly Row[],
+	getValues: ReadonlyArray<(row: Row) => unknown>,
+	sort: ObjectGroupSort,
+): ObjectGroupNode<Row>[] {
+	function buildLevel(
+		levelRows: readonly Row[],
+		depth: number,
+		parentId: string | null,
+	): ObjectGroupNode<Row>[] {
+		const getValue = getValues[depth];
+		if (!getValue) return [];
+		return groupObjectRows(levelRows, getValue, sort).map((group) => {
+			const id = parentId === null ? group.id : `${parentId}\u0000${group.id}`;
+			return {
+				...group,
+				id,
+				depth,
+				children: buildLevel(group.rows, depth + 1, id),
+			};
+		});
+	}
+
+	return buildLevel(rows, 0, null);
+}
+
+function compareMeasureValues(left: unknown, right: unknown): number {
+	const leftNumber = toObjectAggregateChartNumber(left);
+	const rightNumber = toObjectAggregateChartNumber(right);
+	if (leftNumber !== null && rightNumber !== null) {
+		return leftNumber - rightNumber;
+	}
+	return String(left).localeCompare(String(right), undefined, {
+		numeric: true,
+	});
+}
+
+function combineMeasureValues(
+	measures: readonly ObjectAggregateMeasureValue[],
+): ObjectAggregateMeasureValue {
+	const [first] = measures;
+	const withValues = measures.filter((measure) => measure.state === "value");
+	const valueCount = measures.reduce(
+		(total, measure) => total + measure.value_count,
+		0,
+	);
+	const skippedCount = measures.reduce(
+		(total, measure) => total + measure.skipped_count,
+		0,
+	);
+	let value: unknown;
+	if (first.operation === "min" || first.operation === "max") {
+		const direction = first.operation === "min" ? 1 : -1;
+		value = withValues
+			.map((measure) => measure.value)
+			.sort((left, right) => direction * compareMeasureValues(left, right))[0];
+	} else if (withValues.length > 0) {
+		let sum = 0;
+		let weightedSum = 0;
+		let weight = 0;
+		for (const measure of withValues) {
+			const numericValue = toObjectAggregateChartNumber(measure.value);
+			if (numericValue === null) continue;
+			sum += numericValue;
+			weightedSum += numericValue * measure.value_count;
+			weight += measure.value_count;
 		}
+		value =
+			first.operation === "average"
+				? weight > 0
+					? weightedSum / weight
+					: undefined
+				: sum;
+	}
+
+	return {
+		field: first.field,
+		operation: first.operation,
+		state: value === undefined ? "empty" : "value",
+		value,
+		value_count: valueCount,
+		skipped_count: skippedCount,
+	};
+}
+
+export function combineObjectAggregateMeasures(
+	measureLists: ReadonlyArray<readonly ObjectAggregateMeasureValue[]>,
+): ObjectAggregateMeasureValue[] {
+	if (measureLists.length === 1) return [...measureLists[0]];
+	const [first = []] = measureLists;
+	return first.map((_, index) =>
+		combineMeasureValues(
+			measureLists
+				.map((measures) => measures[index])
+				.filter((measure): measure is ObjectAggregateMeasureValue =>
+					Boolean(measure),
+				),
+		),
+	);
+}
 
-		const countComparison = left.count - right.count;
-		if (countComparison !== 0) {
-			return sort === "count-asc" ? countComparison : -countComparison;
+function toAggregateDimensionKey(
+	dimensions: readonly ObjectAggregateDimensionValue[],
+): string {
+	return JSON.stringify(
+		dimensions.map((dimension) => [dimension.state, dimension.value ?? null]),
+	);
+}
+
+export function buildObjectAggregateGroupTree(
+	rows: readonly ObjectAggregateRow[],
+	sort: ObjectGroupSort,
+	formatDimension: (
+		dimension: ObjectAggregateDimensionValue,
+	) => string = formatObjectAggregateDimension,
+	parentRows: readonly ObjectAggregateRow[] = [],
+): ObjectAggregateGroupNode[] {
+	const parentRowsByKey = new Map(
+		parentRows.map((row) => [toAggregateDimensionKey(row.dimensions), row]),
+	);
+
+	function buildLevel(
+		levelRows: readonly ObjectAggregateRow[],
+		depth: number,
+		parent: ObjectAggregateGroupNode | null,
+	): ObjectAggregateGroupNode[] {
+		const groups = new Map<string, ObjectAggregateRow[]>();
+		for (const row of levelRows) {
+			const dimension = row.dimensions[depth];
+			if (!dimension) continue;
+			const key = JSON.stringify([dimension.state, dimension.value ?? null]);
+			const current = groups.get(key);
+			if (current) {
+				current.push(row);
+			} else {
+				groups.set(key, [row]);
+			}
 		}
-		return labelComparison;
-	});
+
+		const nodes = [...groups.entries()].map(([key, groupRows]) => {
+			const dimension = groupRows[0].dimensions[depth];
+			const dimensions = [...(parent?.dimensions ?? []), dimension];
+			const parentRow =
+				groupRows[0].dimensions.length > depth + 1
+					? parentRowsByKey.get(toAggregateDimensionKey(dimensions))
+					: undefined;
+			const node: ObjectAggregateGroupNode = {
+				id: parent === null ? key : `${parent.id}\u0000${key}`,
+				label: formatDimension(dimension),
+				depth,
+				dimensions,
+				count:
+					parentRow?.object_count ??
+					groupRows.reduce((total, row) => total + row.object_count, 0),
+				measures:
+					parentRow?.measures ??
+					combineObjectAggregateMeasures(
+						groupRows.map((row) => row.measures ?? []),
+					),
+				children: [],
+			};
+			node.children = buildLevel(groupRows, depth + 1, node);
+			return node;
+		});
+		return nodes.sort((left, right) =>
+			compareGroups(
+				{ ...left, empty: left.dimensions[depth].state !== "value" },
+				{ ...right, empty: right.dimensions[depth].state !== "value" },
+				sort,
+			),
+		);
+	}
+
+	return buildLevel(rows, 0, null);
 }
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import type { HubuumObjectRelation } from "@/lib/api/generated/models";
+import { findShortestObjectRelationPaths } from "@/lib/object-relation-paths";
+
+function relation(id: number, from: number, to: number): HubuumObjectRelation {
+	return {
+		id,
+		class_relation_id: 1,
+		from_hubuum_object_id: from,
+		to_hubuum_object_id: to,
+		revision: 1,
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-01T00:00:00Z",
+	};
+}
+
+describe("findShortestObjectRelationPaths", () => {
+	const relations = [
+		relation(1, 10, 20),
+		relation(2, 10, 30),
+		relation(3, 40, 20),
+		relation(4, 30, 40),
+		relation(5, 40, 50),
+		relation(6, 10, 60),
+		relation(7, 60, 70),
+		relation(8, 70, 50),
+	];
+
+	it("returns every shortest path in either relation direction", () => {
+		const paths = findShortestObjectRelationPaths(10, 40, relations);
+
+		expect(paths.map((path) => path.objectIds)).toEqual([
+			[10, 20, 40],
+			[10, 30, 40],
+		]);
+		expect(
+			paths[0].steps.map((step) => [
+				step.relation.id,
+				step.fromObjectId,
+				step.toObjectId,
+			]),
+		).toEqual([
+			[1, 10, 20],
+			[3, 20, 40],
+		]);
+	});
+
+	it("handles missing targets and limits", () => {
+		expect(
+			findShortestObjectRelationPaths(10, 50, relations).map(
+				(path) => path.objectIds,
+			),
+		).toEqual([
+			[10, 20, 40, 50],
+			[10, 30, 40, 50],
+			[10, 60, 70, 50],
+		]);
+		expect(findShortestObjectRelationPaths(10, 50, relations, 1)).toHaveLength(
+			1,
+		);
+		expect(findShortestObjectRelationPaths(10, 99, relations)).toEqual([]);
+		expect(findShortestObjectRelationPaths(10, 10, relations)).toEqual([]);
+	});
+});
@@ -0,0 +1,93 @@
+import type { HubuumObjectRelation } from "@/lib/api/generated/models";
+
+export const MAX_SHORTEST_RELATION_PATHS = 20;
+
+export type ObjectRelationPathStep = {
+	relation: HubuumObjectRelation;
+	fromObjectId: number;
+	toObjectId: number;
+};
+
+export type ObjectRelationPath = {
+	objectIds: number[];
+	steps: ObjectRelationPathStep[];
+};
+
+type Predecessor = {
+	objectId: number;
+	relation: HubuumObjectRelation;
+};
+
+export function findShortestObjectRelationPaths(
+	sourceObjectId: number,
+	targetObjectId: number,
+	relations: readonly HubuumObjectRelation[],
+	limit = MAX_SHORTEST_RELATION_PATHS,
+): ObjectRelationPath[] {
+	if (sourceObjectId === targetObjectId) return [];
+
+	const neighbours = new Map<number, Predecessor[]>();
+	for (const relation of relations) {
+		const from = relation.from_hubuum_object_id;
+		const to = relation.to_hubuum_object_id;
+		if (from === to) continue;
+		neighbours.set(from, [
+			...(neighbours.get(from) ?? []),
+			{ objectId: to, relation },
+		]);
+		neighbours.set(to, [
+			...(neighbours.get(to) ?? []),
+			{ objectId: from, relation },
+		]);
+	}
+
+	const distance = new Map<number, number>([[sourceObjectId, 0]]);
+	const predecessors = new Map<number, Predecessor[]>();
+	let frontier = [sourceObjectId];
+	while (frontier.length > 0 && !distance.has(targetObjectId)) {
+		const next: number[] = [];
+		for (const objectId of frontier) {
+			const depth = distance.get(objectId) ?? 0;
+			for (const neighbour of neighbours.get(objectId) ?? []) {
+				const known = distance.get(neighbour.objectId);
+				if (known === undefined) {
+					distance.set(neighbour.objectId, depth + 1);
+					next.push(neighbour.objectId);
+				} else if (known !== depth + 1) {
+					continue;
+				}
+				predecessors.set(neighbour.objectId, [
+					...(predecessors.get(neighbour.objectId) ?? []),
+					{ objectId, relation: neighbour.relation },
+				]);
+			}
+		}
+		frontier = next;
+	}
+	if (!distance.has(targetObjectId)) return [];
+
+	const paths: ObjectRelationPath[] = [];
+	function walkBack(objectId: number, steps: ObjectRelationPathStep[]) {
+		if (paths.length >= limit) return;
+		if (objectId === sourceObjectId) {
+			const ordered = [...steps].reverse();
+			paths.push({
+				objectIds: [sourceObjectId, ...ordered.map((step) => step.toObjectId)],
+				steps: ordered,
+			});
+			return;
+		}
+		for (const predecessor of predecessors.get(objectId) ?? []) {
+			walkBack(predecessor.objectId, [
+				...steps,
+				{
+					relation: predecessor.relation,
+					fromObjectId: predecessor.objectId,
+					toObjectId: objectId,
+				},
+			]);
+		}
+	}
+	walkBack(targetObjectId, []);
+	return paths;
+}
@@ -73,6 +73,23 @@ export function buildRelatedObjectSearchParams({
 	return params;
 }
 
+export function buildRelatedObjectGraphSearchParams({
+	depthLimit,
+	includeSelfClass,
+	ignoredClassIds,
+}: RelatedObjectQueryOptions): URLSearchParams {
+	const params = new URLSearchParams({
+		depth__lte: String(depthLimit),
+		ignore_self_class: String(!includeSelfClass),
+	});
+
+	if (ignoredClassIds.length > 0) {
+		params.set("ignore_classes", ignoredClassIds.join(","));
+	}
+
+	return params;
+}
+
 export function buildRelatedObjectPathContextSearchParams(
 	depthLimit: number,
 	objectIds: number[],
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	areObjectViewStatesEqual,
+	buildObjectSavedViewsExport,
+	buildObjectViewHref,
+	buildObjectViewSearchParams,
+	MAX_OBJECT_SAVED_VIEWS,
+	mergeObjectSavedViews,
+	normalizeObjectViewState,
+	type ObjectViewState,
+	parseObjectSavedViews,
+	parseObjectSavedViewsExport,
+	parseObjectViewQueryParameter,
+	upsertObjectSavedView,
+} from "@/lib/object-saved-views";
+
+const linuxHostsView: ObjectViewState = {
+	search: "web",
+	filters: [
+		{ field: "json_data", operator: "equals", value: "linux", path: ["os"] },
+	],
+	dataColumns: ["os", "cpu"],
+	hiddenComputedColumns: ["shared:owner"],
+	showRawDataColumn: false,
+	groupFieldIds: ["data:os"],
+	pivotFieldId: "data:datacenter",
+	groupSort: "value-asc",
+	measures: [{ field: "data.cpu", operation: "sum" }],
+	sort: "-name",
+	limit: 250,
+};
+
+describe("normalizeObjectViewState", () => {
+	it("keeps a valid view state intact", () => {
+		expect(normalizeObjectViewState(linuxHostsView)).toEqual(linuxHostsView);
+	});
+
+	it("drops unknown and malformed parts", () => {
+		expect(
+			normalizeObjectViewState({
+				filters: [{ field: "nope" }],
+				dataColumns: ["os", 4, "os"],
+				pivotFieldId: "data:datacenter",
+				groupSort: "sideways",
+				measures: [{ field: "data.cpu", operation: "median" }],
+				limit: -1,
+			}),
+		).toEqual({
+			search: "",
+			filters: [],
+			dataColumns: ["os"],
+			hiddenComputedColumns: [],
+			showRawDataColumn: true,
+			groupFieldIds: [],
+			pivotFieldId: null,
+			groupSort: "count-desc",
+			measures: [],
+			sort: null,
+			limit: null,
+		});
+		expect(normalizeObjectViewState("view")).toBeNull();
+	});
+
+	it("reads legacy single-field grouping and caps nested levels", () => {
+		expect(
+			normalizeObjectViewState({
+				groupFieldId: "data:os",
+				pivotFieldId: "data:datacenter",
+			}),
+		).toMatchObject({
+			groupFieldIds: ["data:os"],
+			pivotFieldId: "data:datacenter",
+		});
+		expect(
+			normalizeObjectViewState({
+				groupFieldIds: ["collection", "data:env", "data:os", "data:rack"],
+				pivotFieldId: "data:datacenter",
+			}),
+		).toMatchObject({
+			groupFieldIds: ["collection", "data:env", "data:os"],
+			pivotFieldId: null,
+		});
+	});
+});
+
+describe("saved object views", () => {
+	const now = new Date("2026-03-01T12:00:00Z");
+
+	it("replaces a view with the same name instead of duplicating it", () => {
+		const first = upsertObjectSavedView([], "Linux hosts", linuxHostsView, now);
+		const second = upsertObjectSavedView(
+			first,
+			" linux HOSTS ",
+			{ ...linuxHostsView, limit: 50 },
+			now,
+		);
+
+		expect(second).toHaveLength(1);
+		expect(second[0]).toMatchObject({
+			id: first[0].id,
+			name: "linux HOSTS",
+			state: { limit: 50 },
+		});
+		expect(() => upsertObjectSavedView(second, "  ", linuxHostsView)).toThrow(
+			"View name is required.",
+		);
+	});
+
+	it("ignores malformed stored views", () => {
+		expect(parseObjectSavedViews("not json")).toEqual([]);
+		expect(
+			parseObjectSavedViews(
+				JSON.stringify([
+					{ id: "a", name: "Hosts", updatedAt: now.toISOString(), state: {} },
+					{ id: "b", name: "hosts", state: {} },
+					{ id: "c", name: "", state: {} },
+				]),
+			).map((view) => view.id),
+		).toEqual(["a"]);
+	});
+
+	it("compares normalized states", () => {
+		expect(
+			areObjectViewStatesEqual(linuxHostsView, {
+				...linuxHostsView,
+				dataColumns: ["os", "cpu", "os"],
+			}),
+		).toBe(true);
+		expect(
+			areObjectViewStatesEqual(linuxHostsView, {
+				...linuxHostsView,
+				sort: null,
+			}),
+		).toBe(false);
+	});
+});
+
+describe("object view links", () => {
+	it("round-trips the whole state through a shareable link", () => {
+		const href = buildObjectViewHref(4, linuxHostsView);
+		const params = new URL(href, "https://hubuum.example").searchParams;
+
+		expect(params.get("classId")).toBe("4");
+		expect(parseObjectViewQueryParameter(params.get("view"))).toEqual(
+			linuxHostsView,
+		);
+		expect(parseObjectViewQueryParameter("{")).toBeNull();
+	});
+
+	it("maps URL-backed state onto explorer search parameters", () => {
+		const params = buildObjectViewSearchParams(4, linuxHostsView);
+
+		expect(Object.fromEntries(params)).toEqual({
+			classId: "4",
+			search: "web",
+			objectFilters: JSON.stringify(linuxHostsView.filters),
+			sort: "-name",
+			limit: "250",
+		});
+	});
+});
+
+describe("object view import and export", () => {
+	const views = upsertObjectSavedView([], "Linux hosts", linuxHostsView);
+
+	it("imports an exported document and merges views by name", () => {
+		const imported = parseObjectSavedViewsExport(
+			buildObjectSavedViewsExport(4, "Hosts", [
+				...views,
+				{ ...views[0], id: "other", name: "Busy hosts" },
+			]),
+		);
+		const result = mergeObjectSavedViews(views, imported);
+
+		expect(result.added).toBe(1);
+		expect(result.replaced).toBe(1);
+		expect(result.views.map((view) => view.name)).toEqual([
+			"Linux hosts",
+			"Busy hosts",
+		]);
+		expect(result.views[0].id).toBe(views[0].id);
+	});
+
+	it("rejects files that are not view exports", () => {
+		expect(() => parseObjectSavedViewsExport("[]")).toThrow(
+			"not a Hubuum object views export",
+		);
+		expect(() => parseObjectSavedViewsExport("{")).toThrow("valid JSON");
+	});
+
+	it("refuses imports past the per-class limit", () => {
+		const full = Array.from({ length: MAX_OBJECT_SAVED_VIEWS }, (_, index) => ({
+			...views[0],
+			id: `view-${index}`,
+			name: `View ${index}`,
+		}));
+
+		expect(() => mergeObjectSavedViews(full, views)).toThrow(
+			`exceed ${MAX_OBJECT_SAVED_VIEWS} saved views`,
+		);
+	});
+});
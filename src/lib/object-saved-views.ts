@@ -0,0 +1,351 @@
+import type { ObjectAggregateMeasureOperation } from "@/lib/api/generated/models";
+import type { ObjectAggregateMeasure } from "@/lib/api/object-aggregates";
+import {
+	MAX_OBJECT_GROUPING_LEVELS,
+	type ObjectGroupSort,
+} from "@/lib/object-grouping";
+import {
+	OBJECT_SERVER_FILTERS_QUERY_KEY,
+	type ObjectServerFilter,
+	parseObjectServerFilters,
+	serializeObjectServerFilters,
+} from "@/lib/object-server-filters";
+import { MAX_USER_SETTING_VALUE_LENGTH } from "@/lib/user-settings-types";
+
+export const OBJECT_VIEW_QUERY_KEY = "view";
+export const MAX_OBJECT_SAVED_VIEWS = 20;
+export const MAX_OBJECT_VIEW_NAME_LENGTH = 80;
+export const OBJECT_VIEWS_EXPORT_KIND = "hubuum.object-views";
+const OBJECT_VIEWS_EXPORT_VERSION = 1;
+const MAX_OBJECT_VIEW_COLUMNS = 50;
+const MAX_OBJECT_VIEW_MEASURES = 4;
+
+const GROUP_SORTS = new Set<ObjectGroupSort>([
+	"count-desc",
+	"count-asc",
+	"value-asc",
+	"value-desc",
+]);
+const MEASURE_OPERATIONS = new Set<ObjectAggregateMeasureOperation>([
+	"sum",
+	"average",
+	"min",
+	"max",
+]);
+
+export type ObjectViewState = {
+	search: string;
+	filters: ObjectServerFilter[];
+	dataColumns: string[];
+	hiddenComputedColumns: string[];
+	showRawDataColumn: boolean;
+	groupFieldIds: string[];
+	pivotFieldId: string | null;
+	groupSort: ObjectGroupSort;
+	measures: ObjectAggregateMeasure[];
+	sort: string | null;
+	limit: number | null;
+};
+
+export type ObjectSavedView = {
+	id: string;
+	name: string;
+	updatedAt: string;
+	state: ObjectViewState;
+};
+
+export type ObjectSavedViewsImport = {
+	views: ObjectSavedView[];
+	added: number;
+	replaced: number;
+};
+
+function normalizeStringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.filter((item): item is string => typeof item === "string" && item !== "")
+		.filter((item, index, items) => items.indexOf(item) === index)
+		.slice(0, MAX_OBJECT_VIEW_COLUMNS);
+}
+
+function normalizeMeasures(value: unknown): ObjectAggregateMeasure[] {
+	if (!Array.isArray(value)) return [];
+	const measures: ObjectAggregateMeasure[] = [];
+	for (const item of value) {
+		if (!item || typeof item !== "object") continue;
+		const measure = item as Record<string, unknown>;
+		if (
+			typeof measure.field !== "string" ||
+			!measure.field ||
+			!MEASURE_OPERATIONS.has(
+				measure.operation as ObjectAggregateMeasureOperation,
+			)
+		) {
+			continue;
+		}
+		measures.push({
+			field: measure.field,
+			operation: measure.operation as ObjectAggregateMeasureOperation,
+		});
+	}
+	return measures.slice(0, MAX_OBJECT_VIEW_MEASURES);
+}
+
+function normalizeLimit(value: unknown): number | null {
+	return Number.isInteger(value) && Number(value) > 0 ? Number(value) : null;
+}
+
+function normalizeViewName(value: unknown): string | null {
+	if (typeof value !== "string") return null;
+	const name = value.trim().slice(0, MAX_OBJECT_VIEW_NAME_LENGTH);
+	return name || null;
+}
+
+export function normalizeObjectViewState(
+	value: unknown,
+): ObjectViewState | null {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return null;
+	}
+	const state = value as Record<string, unknown>;
+	const groupFieldIds = (
+		Array.isArray(state.groupFieldIds)
+			? normalizeStringList(state.groupFieldIds)
+			: normalizeStringList([state.groupFieldId])
+	).slice(0, MAX_OBJECT_GROUPING_LEVELS);
+	return {
+		search: typeof state.search === "string" ? state.search.trim() : "",
+		filters: parseObjectServerFilters(
+			Array.isArray(state.filters) ? JSON.stringify(state.filters) : null,
+		),
+		dataColumns: normalizeStringList(state.dataColumns),
+		hiddenComputedColumns: normalizeStringList(state.hiddenComputedColumns),
+		showRawDataColumn: state.showRawDataColumn !== false,
+		groupFieldIds,
+		pivotFieldId:
+			typeof state.pivotFieldId === "string" &&
+			state.pivotFieldId &&
+			groupFieldIds.length === 1
+				? state.pivotFieldId
+				: null,
+		groupSort: GROUP_SORTS.has(state.groupSort as ObjectGroupSort)
+			? (state.groupSort as ObjectGroupSort)
+			: "count-desc",
+		measures: normalizeMeasures(state.measures),
+		sort: typeof state.sort === "string" && state.sort ? state.sort : null,
+		limit: normalizeLimit(state.limit),
+	};
+}
+
+export function areObjectViewStatesEqual(
+	left: ObjectViewState,
+	right: ObjectViewState,
+): boolean {
+	return (
+		JSON.stringify(normalizeObjectViewState(left)) ===
+		JSON.stringify(normalizeObjectViewState(right))
+	);
+}
+
+function normalizeObjectSavedView(value: unknown): ObjectSavedView | null {
+	if (!value || typeof value !== "object") return null;
+	const view = value as Record<string, unknown>;
+	const name = normalizeViewName(view.name);
+	const state = normalizeObjectViewState(view.state);
+	if (!name || !state) return null;
+	return {
+		id: typeof view.id === "string" && view.id ? view.id : crypto.randomUUID(),
+		name,
+		updatedAt:
+			typeof view.updatedAt === "string" &&
+			!Number.isNaN(Date.parse(view.updatedAt))
+				? view.updatedAt
+				: new Date(0).toISOString(),
+		state,
+	};
+}
+
+function normalizeObjectSavedViewList(value: unknown[]): ObjectSavedView[] {
+	const seenNames = new Set<string>();
+	const views: ObjectSavedView[] = [];
+	for (const item of value) {
+		const view = normalizeObjectSavedView(item);
+		if (!view || seenNames.has(view.name.toLowerCase())) continue;
+		seenNames.add(view.name.toLowerCase());
+		views.push(view);
+	}
+	return views.slice(0, MAX_OBJECT_SAVED_VIEWS);
+}
+
+export function parseObjectSavedViews(
+	serialized: string | null | undefined,
+): ObjectSavedView[] {
+	if (!serialized) return [];
+	try {
+		const parsed = JSON.parse(serialized);
+		return Array.isArray(parsed) ? normalizeObjectSavedViewList(parsed) : [];
+	} catch {
+		return [];
+	}
+}
+
+export function serializeObjectSavedViews(
+	views: readonly ObjectSavedView[],
+): string {
+	const serialized = JSON.stringify(views.slice(0, MAX_OBJECT_SAVED_VIEWS));
+	if (serialized.length > MAX_USER_SETTING_VALUE_LENGTH) {
+		throw new Error(
+			"Saved views are too large to store. Delete a view and try again.",
+		);
+	}
+	return serialized;
+}
+
+export function findObjectSavedView(
+	views: readonly ObjectSavedView[],
+	name: string,
+): ObjectSavedView | null {
+	const normalizedName = name.trim().toLowerCase();
+	return (
+		views.find((view) => view.name.toLowerCase() === normalizedName) ?? null
+	);
+}
+
+export function upsertObjectSavedView(
+	views: readonly ObjectSavedView[],
+	name: string,
+	state: ObjectViewState,
+	now = new Date(),
+): ObjectSavedView[] {
+	const viewName = normalizeViewName(name);
+	if (!viewName) {
+		throw new Error("View name is required.");
+	}
+	const existing = findObjectSavedView(views, viewName);
+	if (!existing && views.length >= MAX_OBJECT_SAVED_VIEWS) {
+		throw new Error(
+			`A class can have at most ${MAX_OBJECT_SAVED_VIEWS} saved views.`,
+		);
+	}
+	const nextView: ObjectSavedView = {
+		id: existing?.id ?? crypto.randomUUID(),
+		name: viewName,
+		updatedAt: now.toISOString(),
+		state: normalizeObjectViewState(state) ?? state,
+	};
+	return existing
+		? views.map((view) => (view.id === existing.id ? nextView : view))
+		: [...views, nextView];
+}
+
+export function buildObjectViewSearchParams(
+	classId: number,
+	state: ObjectViewState,
+): URLSearchParams {
+	const params = new URLSearchParams();
+	params.set("classId", String(classId));
+	if (state.search) params.set("search", state.search);
+	if (state.filters.length > 0) {
+		params.set(
+			OBJECT_SERVER_FILTERS_QUERY_KEY,
+			serializeObjectServerFilters(state.filters),
+		);
+	}
+	if (state.sort) params.set("sort", state.sort);
+	if (state.limit !== null) params.set("limit", String(state.limit));
+	return params;
+}
+
+export function buildObjectViewHref(
+	classId: number,
+	state: ObjectViewState,
+): string {
+	const params = new URLSearchParams();
+	params.set("classId", String(classId));
+	params.set(OBJECT_VIEW_QUERY_KEY, JSON.stringify(state));
+	return `/objects?${params.toString()}`;
+}
+
+export function parseObjectViewQueryParameter(
+	serialized: string | null | undefined,
+): ObjectViewState | null {
+	if (!serialized) return null;
+	try {
+		return normalizeObjectViewState(JSON.parse(serialized));
+	} catch {
+		return null;
+	}
+}
+
+export function buildObjectSavedViewsExport(
+	classId: number,
+	className: string | null,
+	views: readonly ObjectSavedView[],
+): string {
+	return JSON.stringify(
+		{
+			kind: OBJECT_VIEWS_EXPORT_KIND,
+			version: OBJECT_VIEWS_EXPORT_VERSION,
+			classId,
+			className,
+			views,
+		},
+		null,
+		2,
+	);
+}
+
+export function parseObjectSavedViewsExport(text: string): ObjectSavedView[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		throw new Error("Selected file does not contain valid JSON.");
+	}
+
+	const document =
+		parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as Record<string, unknown>)
+			: null;
+	if (
+		!document ||
+		document.kind !== OBJECT_VIEWS_EXPORT_KIND ||
+		document.version !== OBJECT_VIEWS_EXPORT_VERSION ||
+		!Array.isArray(document.views)
+	) {
+		throw new Error("Selected file is not a Hubuum object views export.");
+	}
+
+	const views = normalizeObjectSavedViewList(document.views);
+	if (views.length === 0) {
+		throw new Error("Selected file does not contain any valid views.");
+	}
+	return views;
+}
+
+export function mergeObjectSavedViews(
+	current: readonly ObjectSavedView[],
+	imported: readonly ObjectSavedView[],
+): ObjectSavedViewsImport {
+	let views = [...current];
+	let added = 0;
+	let replaced = 0;
+	for (const view of imported) {
+		const existing = findObjectSavedView(views, view.name);
+		if (existing) {
+			views = views.map((item) =>
+				item.id === existing.id ? { ...view, id: existing.id } : item,
+			);
+			replaced += 1;
+			continue;
+		}
+		if (views.length >= MAX_OBJECT_SAVED_VIEWS) {
+			throw new Error(
+				`Importing would exceed ${MAX_OBJECT_SAVED_VIEWS} saved views for this class.`,
+			);
+		}
+		views = [...views, { ...view, id: crypto.randomUUID() }];
+		added += 1;
+	}
+	return { views, added, replaced };
+}
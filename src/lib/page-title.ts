@@ -9,6 +9,8 @@ const ROUTE_TITLES: Readonly<Record<string, string>> = {
 	"/admin": "Administration",
 	"/admin/users": "Users",
 	"/admin/groups": "Groups",
+	"/admin/permissions": "Permission matrix",
+	"/admin/access": "Access explainer",
 	"/admin/service-accounts": "Service accounts",
 	"/admin/remote-targets": "Remote targets",
 	"/admin/events": "Events",
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { Permissions } from "@/lib/api/generated/models/permissions";
+import {
+	DEFAULT_PERMISSION_PRESETS,
+	parsePermissionPresets,
+	planPermissionPresetChanges,
+	upsertPermissionPreset,
+} from "@/lib/permission-presets";
+
+describe("permission presets", () => {
+	it("falls back to the built-in presets and drops invalid entries", () => {
+		expect(parsePermissionPresets(null)).toBe(DEFAULT_PERMISSION_PRESETS);
+		expect(parsePermissionPresets("[]")).toEqual([]);
+		expect(
+			parsePermissionPresets(
+				JSON.stringify([
+					{
+						id: "a",
+						name: " Auditors ",
+						permissions: ["ReadAudit", "Bogus", "ReadCollection"],
+					},
+					{ id: "b", name: "auditors", permissions: ["ReadObject"] },
+					{ id: "c", name: "Empty", permissions: [] },
+				]),
+			),
+		).toEqual([
+			{
+				id: "a",
+				name: "Auditors",
+				permissions: [Permissions.ReadCollection, Permissions.ReadAudit],
+			},
+		]);
+		expect(() =>
+			upsertPermissionPreset(DEFAULT_PERMISSION_PRESETS, {
+				name: "editor",
+				permissions: [Permissions.ReadObject],
+			}),
+		).toThrow('A preset named "Editor" already exists.');
+	});
+
+	it("plans additive and replacing changes against current grants", () => {
+		const current = new Map([
+			[1, [Permissions.ReadCollection, Permissions.DeleteObject]],
+			[2, [Permissions.ReadCollection, Permissions.ReadObject]],
+		]);
+		const permissions = [Permissions.ReadCollection, Permissions.ReadObject];
+
+		expect(
+			planPermissionPresetChanges({
+				groupId: 7,
+				collectionIds: [1, 2, 3],
+				current,
+				permissions,
+				revokeOthers: false,
+			}),
+		).toEqual([
+			{
+				collectionId: 1,
+				groupId: 7,
+				before: [Permissions.ReadCollection, Permissions.DeleteObject],
+				after: [
+					Permissions.ReadCollection,
+					Permissions.ReadObject,
+					Permissions.DeleteObject,
+				],
+				added: [Permissions.ReadObject],
+				removed: [],
+			},
+			{
+				collectionId: 3,
+				groupId: 7,
+				before: [],
+				after: permissions,
+				added: permissions,
+				removed: [],
+			},
+		]);
+		expect(
+			planPermissionPresetChanges({
+				groupId: 7,
+				collectionIds: [1, 2],
+				current,
+				permissions,
+				revokeOthers: true,
+			}).map((change) => [change.collectionId, change.removed]),
+		).toEqual([[1, [Permissions.DeleteObject]]]);
+		expect(
+			planPermissionPresetChanges({
+				groupId: 7,
+				collectionIds: [1],
+				current: new Map([
+					[1, [Permissions.DelegateCollection, Permissions.DeleteObject]],
+				]),
+				permissions,
+				revokeOthers: true,
+				protectedGroupIds: new Set([7]),
+			}),
+		).toMatchObject([
+			{
+				after: [
+					Permissions.ReadCollection,
+					Permissions.DelegateCollection,
+					Permissions.ReadObject,
+				],
+				removed: [Permissions.DeleteObject],
+			},
+		]);
+	});
+});
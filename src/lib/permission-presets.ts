@@ -0,0 +1,210 @@
+import type { Permissions as PermissionName } from "@/lib/api/generated/models";
+import { Permissions as PermissionValues } from "@/lib/api/generated/models/permissions";
+import {
+	ALL_COLLECTION_PERMISSIONS,
+	getPermissionMatrixChanges,
+	type PermissionMatrixChange,
+	sortPermissions,
+	toPermissionMatrixKey,
+} from "@/lib/collection-permissions";
+import { MAX_USER_SETTING_VALUE_LENGTH } from "@/lib/user-settings-types";
+
+export const MAX_PERMISSION_PRESETS = 50;
+const MAX_PERMISSION_PRESET_NAME_LENGTH = 80;
+
+export type PermissionPreset = {
+	id: string;
+	name: string;
+	permissions: PermissionName[];
+};
+
+export type PermissionPresetPlanInput = {
+	groupId: number;
+	collectionIds: readonly number[];
+	current: ReadonlyMap<number, PermissionName[]>;
+	permissions: readonly PermissionName[];
+	revokeOthers: boolean;
+	protectedGroupIds?: ReadonlySet<number>;
+};
+
+export const DEFAULT_PERMISSION_PRESETS: PermissionPreset[] = [
+	{
+		id: "read-only",
+		name: "Read-only",
+		permissions: [
+			PermissionValues.ReadCollection,
+			PermissionValues.ReadClass,
+			PermissionValues.ReadObject,
+			PermissionValues.ReadClassRelation,
+			PermissionValues.ReadObjectRelation,
+		],
+	},
+	{
+		id: "editor",
+		name: "Editor",
+		permissions: [
+			PermissionValues.ReadCollection,
+			PermissionValues.ReadClass,
+			PermissionValues.CreateObject,
+			PermissionValues.ReadObject,
+			PermissionValues.UpdateObject,
+			PermissionValues.DeleteObject,
+			PermissionValues.ReadClassRelation,
+			PermissionValues.CreateObjectRelation,
+			PermissionValues.ReadObjectRelation,
+			PermissionValues.UpdateObjectRelation,
+			PermissionValues.DeleteObjectRelation,
+		],
+	},
+	{
+		id: "template-author",
+		name: "Template author",
+		permissions: [
+			PermissionValues.ReadCollection,
+			PermissionValues.ReadClass,
+			PermissionValues.ReadObject,
+			PermissionValues.ReadTemplate,
+			PermissionValues.CreateTemplate,
+			PermissionValues.UpdateTemplate,
+			PermissionValues.DeleteTemplate,
+		],
+	},
+	{
+		id: "remote-operator",
+		name: "Remote operator",
+		permissions: [
+			PermissionValues.ReadCollection,
+			PermissionValues.ReadClass,
+			PermissionValues.ReadObject,
+			PermissionValues.ReadRemoteTarget,
+			PermissionValues.ExecuteRemoteTarget,
+		],
+	},
+];
+
+const KNOWN_PERMISSIONS = new Set<string>(ALL_COLLECTION_PERMISSIONS);
+
+function normalizePresetName(value: unknown): string | null {
+	if (typeof value !== "string") return null;
+	const name = value.trim().slice(0, MAX_PERMISSION_PRESET_NAME_LENGTH);
+	return name || null;
+}
+
+function normalizePermissionPreset(value: unknown): PermissionPreset | null {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return null;
+	}
+	const preset = value as Record<string, unknown>;
+	const name = normalizePresetName(preset.name);
+	if (typeof preset.id !== "string" || !preset.id || !name) return null;
+	const permissions = sortPermissions(
+		(Array.isArray(preset.permissions) ? preset.permissions : []).filter(
+			(permission): permission is PermissionName =>
+				typeof permission === "string" && KNOWN_PERMISSIONS.has(permission),
+		),
+	);
+	return permissions.length > 0 ? { id: preset.id, name, permissions } : null;
+}
+
+export function parsePermissionPresets(
+	serialized: string | null | undefined,
+): PermissionPreset[] {
+	if (serialized === null || serialized === undefined) {
+		return DEFAULT_PERMISSION_PRESETS;
+	}
+	try {
+		const parsed = JSON.parse(serialized);
+		if (!Array.isArray(parsed)) return DEFAULT_PERMISSION_PRESETS;
+		const seenNames = new Set<string>();
+		const presets: PermissionPreset[] = [];
+		for (const item of parsed) {
+			const preset = normalizePermissionPreset(item);
+			if (!preset || seenNames.has(preset.name.toLowerCase())) continue;
+			seenNames.add(preset.name.toLowerCase());
+			presets.push(preset);
+		}
+		return presets.slice(0, MAX_PERMISSION_PRESETS);
+	} catch {
+		return DEFAULT_PERMISSION_PRESETS;
+	}
+}
+
+export function serializePermissionPresets(
+	presets: readonly PermissionPreset[],
+): string {
+	const serialized = JSON.stringify(presets.slice(0, MAX_PERMISSION_PRESETS));
+	if (serialized.length > MAX_USER_SETTING_VALUE_LENGTH) {
+		throw new Error(
+			"Permission presets are too large to store. Delete a preset and try again.",
+		);
+	}
+	return serialized;
+}
+
+export function upsertPermissionPreset(
+	presets: readonly PermissionPreset[],
+	preset: { id?: string; name: string; permissions: readonly PermissionName[] },
+): PermissionPreset[] {
+	const name = normalizePresetName(preset.name);
+	if (!name) {
+		throw new Error("Preset name is required.");
+	}
+	const permissions = sortPermissions(preset.permissions);
+	if (permissions.length === 0) {
+		throw new Error("Select at least one permission for the preset.");
+	}
+	const duplicate = presets.find(
+		(item) =>
+			item.name.toLowerCase() === name.toLowerCase() && item.id !== preset.id,
+	);
+	if (duplicate) {
+		throw new Error(`A preset named "${duplicate.name}" already exists.`);
+	}
+	const existing = presets.find((item) => item.id === preset.id);
+	if (!existing && presets.length >= MAX_PERMISSION_PRESETS) {
+		throw new Error(
+			`You can keep at most ${MAX_PERMISSION_PRESETS} permission presets.`,
+		);
+	}
+	const nextPreset: PermissionPreset = {
+		id: existing?.id ?? crypto.randomUUID(),
+		name,
+		permissions,
+	};
+	return existing
+		? presets.map((item) => (item.id === existing.id ? nextPreset : item))
+		: [...presets, nextPreset];
+}
+
+export function removePermissionPreset(
+	presets: readonly PermissionPreset[],
+	id: string,
+): PermissionPreset[] {
+	return presets.filter((preset) => preset.id !== id);
+}
+
+export function planPermissionPresetChanges({
+	groupId,
+	collectionIds,
+	current,
+	permissions,
+	revokeOthers,
+	protectedGroupIds = new Set(),
+}: PermissionPresetPlanInput): PermissionMatrixChange[] {
+	const persisted = new Map<string, PermissionName[]>();
+	const drafts = new Map<string, PermissionName[]>();
+	for (const collectionId of new Set(collectionIds)) {
+		const key = toPermissionMatrixKey({ collectionId, groupId });
+		const before = current.get(collectionId) ?? [];
+		const kept = !revokeOthers
+			? before
+			: protectedGroupIds.has(groupId)
+				? before.filter(
+						(permission) => permission === PermissionValues.DelegateCollection,
+					)
+				: [];
+		persisted.set(key, before);
+		drafts.set(key, sortPermissions([...kept, ...permissions]));
+	}
+	return getPermissionMatrixChanges(persisted, drafts);
+}
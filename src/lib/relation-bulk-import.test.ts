@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	collectRelationImportObjectNames,
+	formatRelationImportRows,
+	parseDelimitedRows,
+	parseRelationImportText,
+	summarizeRelationImportEntries,
+} from "@/lib/relation-bulk-import";
+
+describe("parseRelationImportText", () => {
+	it("parses CSV with a header, quoted names and row errors", () => {
+		const parsed = parseRelationImportText(
+			[
+				"from_class,from_object,to_class,to_object",
+				'Hosts,web-01,Switches,"core, rack ""A"""',
+				"",
+				"Hosts,web-02,Switches",
+				'Hosts,web-01,Switches,"core, rack ""A"""',
+				"Hosts,db-01,Rooms,B2",
+			].join("\r\n"),
+		);
+
+		expect(parsed.rows).toEqual([
+			{
+				line: 2,
+				fromClass: "Hosts",
+				fromObject: "web-01",
+				toClass: "Switches",
+				toObject: 'core, rack "A"',
+			},
+			{
+				line: 6,
+				fromClass: "Hosts",
+				fromObject: "db-01",
+				toClass: "Rooms",
+				toObject: "B2",
+			},
+		]);
+		expect(parsed.errors).toEqual([
+			{
+				line: 4,
+				message:
+					"Expected 4 values: from_class, from_object, to_class, to_object.",
+			},
+			{ line: 5, message: "Duplicate of line 2." },
+		]);
+		expect(collectRelationImportObjectNames(parsed.rows)).toEqual([
+			{ className: "Hosts", objectName: "web-01" },
+			{ className: "Switches", objectName: 'core, rack "A"' },
+			{ className: "Hosts", objectName: "db-01" },
+			{ className: "Rooms", objectName: "B2" },
+		]);
+	});
+
+	it("accepts pasted tab and semicolon separated rows", () => {
+		expect(parseDelimitedRows("a\tb;c\td\n")).toEqual([["a", "b;c", "d"]]);
+		expect(parseDelimitedRows("a;b,c;d")).toEqual([["a", "b,c", "d"]]);
+		const rows = [["Hosts", "web\t01", "Switches", "core"]];
+		expect(parseDelimitedRows(formatRelationImportRows(rows))).toEqual(rows);
+		expect(
+			summarizeRelationImportEntries([
+				{
+					row: {
+						line: 1,
+						fromClass: "a",
+						fromObject: "b",
+						toClass: "c",
+						toObject: "d",
+					},
+					status: "created",
+					message: null,
+				},
+			]),
+		).toEqual({
+			unresolved: 0,
+			existing: 0,
+			pending: 0,
+			created: 1,
+			failed: 0,
+		});
+	});
+});
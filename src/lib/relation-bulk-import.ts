@@ -0,0 +1,194 @@
+export type RelationImportRow = {
+	line: number;
+	fromClass: string;
+	fromObject: string;
+	toClass: string;
+	toObject: string;
+};
+
+export type RelationImportRowError = {
+	line: number;
+	message: string;
+};
+
+export type RelationImportParseResult = {
+	rows: RelationImportRow[];
+	errors: RelationImportRowError[];
+};
+
+export type RelationImportObjectName = {
+	className: string;
+	objectName: string;
+};
+
+export type RelationImportStatus =
+	| "unresolved"
+	| "existing"
+	| "pending"
+	| "created"
+	| "failed";
+
+export type RelationImportEntry = {
+	row: RelationImportRow;
+	status: RelationImportStatus;
+	message: string | null;
+};
+
+export const RELATION_IMPORT_COLUMNS = [
+	"from_class",
+	"from_object",
+	"to_class",
+	"to_object",
+] as const;
+
+function detectDelimiter(text: string): string {
+	const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+	if (firstLine.includes("\t")) return "\t";
+	const semicolons = firstLine.split(";").length;
+	const commas = firstLine.split(",").length;
+	return semicolons > commas ? ";" : ",";
+}
+
+export function parseDelimitedRows(text: string): string[][] {
+	const delimiter = detectDelimiter(text);
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let inQuotes = false;
+
+	for (let index = 0; index < text.length; index += 1) {
+		const character = text[index];
+		if (inQuotes) {
+			if (character === '"' && text[index + 1] === '"') {
+				cell += '"';
+				index += 1;
+			} else if (character === '"') {
+				inQuotes = false;
+			} else {
+				cell += character;
+			}
+			continue;
+		}
+		if (character === '"' && cell.length === 0) {
+			inQuotes = true;
+		} else if (character === delimiter) {
+			row.push(cell);
+			cell = "";
+		} else if (character === "\n" || character === "\r") {
+			if (character === "\r" && text[index + 1] === "\n") index += 1;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += character;
+		}
+	}
+	if (cell.length > 0 || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows;
+}
+
+function formatDelimitedCell(value: string): string {
+	return /[\t"\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+export function formatRelationImportRows(rows: readonly string[][]): string {
+	return rows.map((row) => row.map(formatDelimitedCell).join("\t")).join("\n");
+}
+
+function isHeaderRow(cells: readonly string[]): boolean {
+	return RELATION_IMPORT_COLUMNS.every(
+		(column, index) =>
+			cells[index]?.trim().toLowerCase().replaceAll(" ", "_") === column,
+	);
+}
+
+export function toRelationImportRows(
+	matrix: readonly string[][],
+): RelationImportParseResult {
+	const rows: RelationImportRow[] = [];
+	const errors: RelationImportRowError[] = [];
+	const seen = new Map<string, number>();
+
+	for (const [index, rawCells] of matrix.entries()) {
+		const line = index + 1;
+		const cells = rawCells.map((cell) => cell.trim());
+		if (cells.every((cell) => cell.length === 0)) continue;
+		if (index === 0 && isHeaderRow(cells)) continue;
+
+		const [fromClass = "", fromObject = "", toClass = "", toObject = ""] =
+			cells;
+		if (
+			cells.slice(RELATION_IMPORT_COLUMNS.length).some((cell) => cell) ||
+			!fromClass ||
+			!fromObject ||
+			!toClass ||
+			!toObject
+		) {
+			errors.push({
+				line,
+				message: `Expected ${RELATION_IMPORT_COLUMNS.length} values: ${RELATION_IMPORT_COLUMNS.join(", ")}.`,
+			});
+			continue;
+		}
+
+		const key = JSON.stringify([fromClass, fromObject, toClass, toObject]);
+		const duplicateOf = seen.get(key);
+		if (duplicateOf !== undefined) {
+			errors.push({ line, message: `Duplicate of line ${duplicateOf}.` });
+			continue;
+		}
+		seen.set(key, line);
+		rows.push({ line, fromClass, fromObject, toClass, toObject });
+	}
+
+	return { rows, errors };
+}
+
+export function parseRelationImportText(
+	text: string,
+): RelationImportParseResult {
+	return toRelationImportRows(parseDelimitedRows(text));
+}
+
+export function relationImportObjectKey(
+	className: string,
+	objectName: string,
+): string {
+	return JSON.stringify([className, objectName]);
+}
+
+export function collectRelationImportObjectNames(
+	rows: readonly RelationImportRow[],
+): RelationImportObjectName[] {
+	const names = new Map<string, RelationImportObjectName>();
+	for (const row of rows) {
+		for (const [className, objectName] of [
+			[row.fromClass, row.fromObject],
+			[row.toClass, row.toObject],
+		]) {
+			names.set(relationImportObjectKey(className, objectName), {
+				className,
+				objectName,
+			});
+		}
+	}
+	return [...names.values()];
+}
+
+export function summarizeRelationImportEntries(
+	entries: readonly RelationImportEntry[],
+): Record<RelationImportStatus, number> {
+	const summary: Record<RelationImportStatus, number> = {
+		unresolved: 0,
+		existing: 0,
+		pending: 0,
+		created: 0,
+		failed: 0,
+	};
+	for (const entry of entries) summary[entry.status] += 1;
+	return summary;
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+	HubuumClassRelation,
+	HubuumObjectRelation,
+	HubuumObjectWithPath,
+} from "@/lib/api/generated/models";
+import {
+	assignRelationGraphColors,
+	buildClassRelationGraphModel,
+	buildObjectRelationGraphModel,
+	clampRelationGraphScale,
+	computeRelationGraphDepths,
+	createRelatedObjectGraphState,
+	fitRelationGraphViewport,
+	layoutLayeredRelationGraph,
+	layoutRadialRelationGraph,
+	mergeRelatedObjectGraph,
+	RELATION_GRAPH_MAX_SCALE,
+	zoomRelationGraphViewport,
+} from "@/lib/relation-graph";
+
+function object(
+	id: number,
+	name: string,
+	classId: number,
+	path: number[],
+): HubuumObjectWithPath {
+	return {
+		id,
+		name,
+		hubuum_class_id: classId,
+		collection_id: 1,
+		description: "",
+		data: {},
+		path,
+		revision: 1,
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-01T00:00:00Z",
+	};
+}
+
+function relation(
+	id: number,
+	from: number,
+	to: number,
+	classRelationId = 1,
+): HubuumObjectRelation {
+	return {
+		id,
+		from_hubuum_object_id: from,
+		to_hubuum_object_id: to,
+		class_relation_id: classRelationId,
+		revision: 1,
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-01T00:00:00Z",
+	};
+}
+
+function classRelation(
+	id: number,
+	from: number,
+	to: number,
+): HubuumClassRelation {
+	return {
+		id,
+		from_hubuum_class_id: from,
+		to_hubuum_class_id: to,
+		revision: 1,
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-01T00:00:00Z",
+	};
+}
+
+const classes = [
+	{ id: 1, name: "Host", collectionId: 100 },
+	{ id: 2, name: "Switch", collectionId: 100 },
+	{ id: 3, name: "Rack", collectionId: 200 },
+	{ id: 4, name: "Room", collectionId: 200 },
+	{ id: 5, name: "Contact", collectionId: 300 },
+];
+
+const classRelations = [
+	classRelation(10, 1, 2),
+	classRelation(11, 2, 3),
+	classRelation(12, 3, 4),
+	classRelation(13, 4, 99),
+];
+
+const root = { id: 1, classId: 10, name: "vm-01" };
+
+describe("relation graph", () => {
+	it("merges graph fragments without duplicating objects or relations", () => {
+		const first = mergeRelatedObjectGraph(createRelatedObjectGraphState(), {
+			objects: [object(2, "switch-a", 20, [1, 2])],
+			relations: [relation(100, 1, 2)],
+		});
+		const merged = mergeRelatedObjectGraph(first, {
+			objects: [object(2, "switch-a", 20, [2]), object(3, "rack", 30, [2, 3])],
+			relations: [relation(100, 1, 2), relation(101, 2, 3, 2)],
+		});
+
+		expect([...merged.objects.keys()]).toEqual([2, 3]);
+		expect(merged.objects.get(2)?.path).toEqual([1, 2]);
+		expect([...merged.relations.keys()]).toEqual([100, 101]);
+		expect(first.objects.size).toBe(1);
+	});
+
+	it("computes hop depths in both relation directions", () => {
+		const depths = computeRelationGraphDepths(1, [
+			{ id: 1, fromId: 2, toId: 1, groupId: 1 },
+			{ id: 2, fromId: 2, toId: 3, groupId: 1 },
+		]);
+
+		expect(Object.fromEntries(depths)).toEqual({ 1: 0, 2: 1, 3: 2 });
+	});
+
+	it("builds a model that includes the root and drops dangling relations", () => {
+		const state = mergeRelatedObjectGraph(createRelatedObjectGraphState(), {
+			objects: [
+				object(3, "rack", 30, [1, 2, 3]),
+				object(2, "switch-a", 20, [1, 2]),
+			],
+			relations: [
+				relation(100, 1, 2),
+				relation(101, 2, 3, 2),
+				relation(102, 3, 99),
+			],
+		});
+
+		const model = buildObjectRelationGraphModel(root, state);
+
+		expect(model.nodes).toEqual([
+			{ id: 1, groupId: 10, label: "vm-01", depth: 0 },
+			{ id: 2, groupId: 20, label: "switch-a", depth: 1 },
+			{ id: 3, groupId: 30, label: "rack", depth: 2 },
+		]);
+		expect(model.edges.map((edge) => edge.id)).toEqual([100, 101]);
+		expect(model.truncatedNodeCount).toBe(0);
+	});
+
+	it("keeps the nearest nodes when the graph exceeds the node limit", () => {
+		const state = mergeRelatedObjectGraph(createRelatedObjectGraphState(), {
+			objects: [
+				object(2, "b", 20, [1, 2]),
+				object(3, "a", 20, [1, 3]),
+				object(4, "far", 30, [1, 2, 4]),
+			],
+			relations: [relation(1, 1, 2), relation(2, 1, 3), relation(3, 2, 4)],
+		});
+
+		const model = buildObjectRelationGraphModel(root, state, 3);
+
+		expect(model.nodes.map((node) => node.id)).toEqual([1, 3, 2]);
+		expect(model.edges.map((edge) => edge.id)).toEqual([1, 2]);
+		expect(model.truncatedNodeCount).toBe(1);
+	});
+
+	it("places the root at the centre and each hop on a wider ring", () => {
+		const state = mergeRelatedObjectGraph(createRelatedObjectGraphState(), {
+			objects: [
+				object(2, "switch-a", 20, [1, 2]),
+				object(3, "rack", 30, [1, 2, 3]),
+			],
+			relations: [relation(1, 1, 2), relation(2, 2, 3)],
+		});
+		const model = buildObjectRelationGraphModel(root, state);
+
+		const layout = layoutRadialRelationGraph(model, 1, { ringSpacing: 100 });
+
+		expect(layout.positions.get(1)).toEqual({ x: 0, y: 0 });
+		expect(layout.positions.get(2)).toEqual({ x: 0, y: -100 });
+		expect(layout.positions.get(3)).toEqual({ x: 0, y: -200 });
+		expect(layout.bounds).toEqual({ minX: 0, minY: -200, maxX: 0, maxY: 0 });
+	});
+
+	it("assigns stable colours by sorted id", () => {
+		const colors = assignRelationGraphColors([30, 10, 30, 20]);
+
+		expect([...colors.keys()]).toEqual([10, 20, 30]);
+		expect(assignRelationGraphColors([20, 10]).get(20)).toBe(colors.get(20));
+	});
+
+	it("zooms around an anchor and clamps the scale", () => {
+		const zoomed = zoomRelationGraphViewport({ x: 0, y: 0, scale: 1 }, 2, {
+			x: 100,
+			y: 50,
+		});
+
+		expect(zoomed).toEqual({ x: -100, y: -50, scale: 2 });
+		expect(clampRelationGraphScale(100)).toBe(RELATION_GRAPH_MAX_SCALE);
+		expect(clampRelationGraphScale(Number.NaN)).toBe(1);
+	});
+
+	it("fits graph bounds into the available canvas", () => {
+		const viewport = fitRelationGraphViewport(
+			{ minX: -100, minY: -100, maxX: 100, maxY: 100 },
+			{ width: 600, height: 400 },
+			0,
+		);
+
+		expect(viewport).toEqual({ x: 300, y: 200, scale: 1 });
+	});
+
+	it("scopes the class graph to a collection plus its external neighbours", () => {
+		const model = buildClassRelationGraphModel(classes, classRelations, {
+			collectionId: 100,
+		});
+
+		expect(model.nodes.map((node) => node.label)).toEqual([
+			"Host",
+			"Rack",
+			"Switch",
+		]);
+		expect(model.edges.map((edge) => edge.id)).toEqual([10, 11]);
+		expect(model.nodes.find((node) => node.id === 3)?.groupId).toBe(200);
+	});
+
+	it("scopes the class graph to the neighbourhood of a start class", () => {
+		const model = buildClassRelationGraphModel(classes, classRelations, {
+			rootClassId: 2,
+			depthLimit: 1,
+		});
+
+		expect(model.nodes.map((node) => [node.id, node.depth])).toEqual([
+			[1, 1],
+			[3, 1],
+			[2, 0],
+		]);
+		expect(model.edges.map((edge) => edge.id)).toEqual([10, 11]);
+
+		const unscoped = buildClassRelationGraphModel(classes, classRelations);
+		expect(unscoped.nodes).toHaveLength(5);
+		expect(unscoped.edges.map((edge) => edge.id)).toEqual([10, 11, 12]);
+	});
+
+	it("lays out connected classes in columns and stacks components", () => {
+		const model = buildClassRelationGraphModel(classes, classRelations);
+
+		const layout = layoutLayeredRelationGraph(model, {
+			rootIds: [1],
+			columnSpacing: 100,
+			rowSpacing: 50,
+		});
+
+		expect(layout.positions.get(1)).toEqual({ x: 0, y: 0 });
+		expect(layout.positions.get(2)).toEqual({ x: 100, y: 0 });
+		expect(layout.positions.get(3)).toEqual({ x: 200, y: 0 });
+		expect(layout.positions.get(4)).toEqual({ x: 300, y: 0 });
+		expect(layout.positions.get(5)).toEqual({ x: 0, y: 100 });
+	});
+});
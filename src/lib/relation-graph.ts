@@ -0,0 +1,517 @@
+import type {
+	HubuumClassRelation,
+	HubuumObjectRelation,
+	HubuumObjectWithPath,
+	RelatedObjectGraph,
+} from "@/lib/api/generated/models";
+
+export type RelationGraphNode = {
+	id: number;
+	groupId: number;
+	label: string;
+	depth: number;
+};
+
+export type RelationGraphEdge = {
+	id: number;
+	fromId: number;
+	toId: number;
+	groupId: number;
+};
+
+export type RelationGraphModel = {
+	nodes: RelationGraphNode[];
+	edges: RelationGraphEdge[];
+	truncatedNodeCount: number;
+};
+
+export type RelationGraphPoint = {
+	x: number;
+	y: number;
+};
+
+export type RelationGraphBounds = {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+};
+
+export type RelationGraphLayout = {
+	positions: Map<number, RelationGraphPoint>;
+	bounds: RelationGraphBounds;
+};
+
+export type RelationGraphViewport = {
+	x: number;
+	y: number;
+	scale: number;
+};
+
+export type RelatedObjectGraphState = {
+	objects: Map<number, HubuumObjectWithPath>;
+	relations: Map<number, HubuumObjectRelation>;
+};
+
+export type RelationGraphRoot = {
+	id: number;
+	classId: number;
+	name: string;
+};
+
+export type RelationGraphClass = {
+	id: number;
+	name: string;
+	collectionId: number;
+};
+
+export type ClassRelationGraphScope = {
+	rootClassId?: number | null;
+	collectionId?: number | null;
+	depthLimit?: number;
+};
+
+export const RELATION_GRAPH_NODE_LIMIT = 300;
+export const RELATION_GRAPH_MIN_SCALE = 0.2;
+export const RELATION_GRAPH_MAX_SCALE = 4;
+export const RELATION_GRAPH_RING_SPACING = 170;
+export const RELATION_GRAPH_NODE_SPACING = 120;
+export const RELATION_GRAPH_COLUMN_SPACING = 240;
+export const RELATION_GRAPH_ROW_SPACING = 76;
+
+const RELATION_GRAPH_COLORS = [
+	"#5666c7",
+	"#d0673f",
+	"#2f8f6b",
+	"#b2458c",
+	"#c79a1e",
+	"#3c8fb5",
+	"#8a5cc2",
+	"#6f8a2d",
+	"#c2455a",
+	"#4d7a8c",
+] as const;
+
+export const DEFAULT_RELATION_GRAPH_VIEWPORT: RelationGraphViewport = {
+	x: 0,
+	y: 0,
+	scale: 1,
+};
+
+export function createRelatedObjectGraphState(): RelatedObjectGraphState {
+	return { objects: new Map(), relations: new Map() };
+}
+
+export function mergeRelatedObjectGraph(
+	state: RelatedObjectGraphState,
+	graph: RelatedObjectGraph,
+): RelatedObjectGraphState {
+	const objects = new Map(state.objects);
+	const relations = new Map(state.relations);
+
+	for (const object of graph.objects) {
+		if (!objects.has(object.id)) {
+			objects.set(object.id, object);
+		}
+	}
+	for (const relation of graph.relations) {
+		relations.set(relation.id, relation);
+	}
+
+	return { objects, relations };
+}
+
+function collectNeighbours(
+	edges: readonly RelationGraphEdge[],
+): Map<number, number[]> {
+	const neighbours = new Map<number, number[]>();
+	for (const edge of edges) {
+		neighbours.set(edge.fromId, [
+			...(neighbours.get(edge.fromId) ?? []),
+			edge.toId,
+		]);
+		neighbours.set(edge.toId, [
+			...(neighbours.get(edge.toId) ?? []),
+			edge.fromId,
+		]);
+	}
+	for (const ids of neighbours.values()) {
+		ids.sort((left, right) => left - right);
+	}
+	return neighbours;
+}
+
+export function computeRelationGraphDepths(
+	rootId: number,
+	edges: readonly RelationGraphEdge[],
+): Map<number, number> {
+	const neighbours = collectNeighbours(edges);
+	const depths = new Map<number, number>([[rootId, 0]]);
+	const queue = [rootId];
+
+	while (queue.length > 0) {
+		const current = queue.shift() as number;
+		const depth = depths.get(current) ?? 0;
+		for (const next of neighbours.get(current) ?? []) {
+			if (!depths.has(next)) {
+				depths.set(next, depth + 1);
+				queue.push(next);
+			}
+		}
+	}
+
+	return depths;
+}
+
+export function buildObjectRelationGraphModel(
+	root: RelationGraphRoot,
+	state: RelatedObjectGraphState,
+	nodeLimit = RELATION_GRAPH_NODE_LIMIT,
+): RelationGraphModel {
+	const labels = new Map<number, { classId: number; name: string }>([
+		[root.id, { classId: root.classId, name: root.name }],
+	]);
+	for (const object of state.objects.values()) {
+		labels.set(object.id, {
+			classId: object.hubuum_class_id,
+			name: object.name,
+		});
+	}
+
+	const knownEdges: RelationGraphEdge[] = [...state.relations.values()]
+		.filter(
+			(relation) =>
+				labels.has(relation.from_hubuum_object_id) &&
+				labels.has(relation.to_hubuum_object_id),
+		)
+		.map((relation) => ({
+			id: relation.id,
+			fromId: relation.from_hubuum_object_id,
+			toId: relation.to_hubuum_object_id,
+			groupId: relation.class_relation_id,
+		}))
+		.sort((left, right) => left.id - right.id);
+	const depths = computeRelationGraphDepths(root.id, knownEdges);
+	const unreachableDepth =
+		Math.max(0, ...depths.values()) + (labels.size > depths.size ? 1 : 0);
+
+	const sortedNodes = [...labels.entries()]
+		.map(([id, label]) => ({
+			id,
+			groupId: label.classId,
+			label: label.name,
+			depth: depths.get(id) ?? unreachableDepth,
+		}))
+		.sort(
+			(left, right) =>
+				left.depth - right.depth ||
+				left.label.localeCompare(right.label) ||
+				left.id - right.id,
+		);
+	const nodes = sortedNodes.slice(0, Math.max(1, nodeLimit));
+	const visibleIds = new Set(nodes.map((node) => node.id));
+
+	return {
+		nodes,
+		edges: knownEdges.filter(
+			(edge) => visibleIds.has(edge.fromId) && visibleIds.has(edge.toId),
+		),
+		truncatedNodeCount: sortedNodes.length - nodes.length,
+	};
+}
+
+export function buildClassRelationGraphModel(
+	classes: readonly RelationGraphClass[],
+	relations: readonly HubuumClassRelation[],
+	scope: ClassRelationGraphScope = {},
+): RelationGraphModel {
+	const classById = new Map(classes.map((item) => [item.id, item]));
+	const rootClassId =
+		scope.rootClassId !== undefined &&
+		scope.rootClassId !== null &&
+		classById.has(scope.rootClassId)
+			? scope.rootClassId
+			: null;
+	const collectionId = scope.collectionId ?? null;
+	const depthLimit = scope.depthLimit ?? Number.POSITIVE_INFINITY;
+
+	const knownEdges: RelationGraphEdge[] = relations
+		.filter(
+			(relation) =>
+				classById.has(relation.from_hubuum_class_id) &&
+				classById.has(relation.to_hubuum_class_id),
+		)
+		.map((relation) => ({
+			id: relation.id,
+			fromId: relation.from_hubuum_class_id,
+			toId: relation.to_hubuum_class_id,
+			groupId: relation.id,
+		}))
+		.sort((left, right) => left.id - right.id);
+
+	let depths = new Map<number, number>();
+	let nodeIds: Set<number>;
+	let edges: RelationGraphEdge[];
+	if (rootClassId !== null) {
+		depths = computeRelationGraphDepths(rootClassId, knownEdges);
+		nodeIds = new Set(
+			[...depths].filter(([, depth]) => depth <= depthLimit).map(([id]) => id),
+		);
+		edges = knownEdges.filter(
+			(edge) => nodeIds.has(edge.fromId) && nodeIds.has(edge.toId),
+		);
+	} else {
+		const isScoped = (classId: number) =>
+			collectionId === null ||
+			classById.get(classId)?.collectionId === collectionId;
+		nodeIds = new Set(
+			classes.filter((item) => isScoped(item.id)).map((item) => item.id),
+		);
+		edges = knownEdges.filter(
+			(edge) => isScoped(edge.fromId) || isScoped(edge.toId),
+		);
+		for (const edge of edges) {
+			nodeIds.add(edge.fromId);
+			nodeIds.add(edge.toId);
+		}
+	}
+
+	const nodes = [...nodeIds]
+		.map((id) => classById.get(id))
+		.filter((item): item is RelationGraphClass => Boolean(item))
+		.map((item) => ({
+			id: item.id,
+			groupId: item.collectionId,
+			label: item.name,
+			depth: depths.get(item.id) ?? 0,
+		}))
+		.sort(
+			(left, right) =>
+				left.label.localeCompare(right.label) || left.id - right.id,
+		);
+
+	return { nodes, edges, truncatedNodeCount: 0 };
+}
+
+function measureBounds(
+	positions: ReadonlyMap<number, RelationGraphPoint>,
+): RelationGraphBounds {
+	if (positions.size === 0) {
+		return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+	}
+
+	const points = [...positions.values()];
+	return {
+		minX: Math.min(...points.map((point) => point.x)),
+		minY: Math.min(...points.map((point) => point.y)),
+		maxX: Math.max(...points.map((point) => point.x)),
+		maxY: Math.max(...points.map((point) => point.y)),
+	};
+}
+
+function normalizeAngle(angle: number): number {
+	const turn = Math.PI * 2;
+	return ((angle % turn) + turn) % turn;
+}
+
+export function layoutRadialRelationGraph(
+	model: Pick<RelationGraphModel, "nodes" | "edges">,
+	rootId: number,
+	options: { ringSpacing?: number; nodeSpacing?: number } = {},
+): RelationGraphLayout {
+	const ringSpacing = options.ringSpacing ?? RELATION_GRAPH_RING_SPACING;
+	const nodeSpacing = options.nodeSpacing ?? RELATION_GRAPH_NODE_SPACING;
+	const neighbours = collectNeighbours(model.edges);
+	const rings = new Map<number, RelationGraphNode[]>();
+	for (const node of model.nodes) {
+		rings.set(node.depth, [...(rings.get(node.depth) ?? []), node]);
+	}
+
+	const positions = new Map<number, RelationGraphPoint>();
+	const angles = new Map<number, number>();
+	const depthById = new Map(model.nodes.map((node) => [node.id, node.depth]));
+	let previousRadius = 0;
+
+	for (const depth of [...rings.keys()].sort((left, right) => left - right)) {
+		const ring = rings.get(depth) ?? [];
+		if (depth === 0 && ring.length === 1 && ring[0].id === rootId) {
+			positions.set(rootId, { x: 0, y: 0 });
+			angles.set(rootId, 0);
+			continue;
+		}
+
+		const parentAngle = (node: RelationGraphNode): number => {
+			const parents = (neighbours.get(node.id) ?? []).filter(
+				(id) => angles.has(id) && (depthById.get(id) ?? depth) < depth,
+			);
+			if (parents.length === 0) {
+				return Number.POSITIVE_INFINITY;
+			}
+			return normalizeAngle(angles.get(parents[0]) ?? 0);
+		};
+		const ordered = [...ring].sort(
+			(left, right) =>
+				parentAngle(left) - parentAngle(right) ||
+				left.label.localeCompare(right.label) ||
+				left.id - right.id,
+		);
+		const radius = Math.max(
+			previousRadius + ringSpacing,
+			(ordered.length * nodeSpacing) / (Math.PI * 2),
+		);
+		previousRadius = radius;
+		const step = (Math.PI * 2) / ordered.length;
+		const offset = -Math.PI / 2;
+		ordered.forEach((node, index) => {
+			const angle = offset + step * index;
+			angles.set(node.id, angle - offset);
+			positions.set(node.id, {
+				x: Math.round(Math.cos(angle) * radius * 10) / 10,
+				y: Math.round(Math.sin(angle) * radius * 10) / 10,
+			});
+		});
+	}
+
+	return { positions, bounds: measureBounds(positions) };
+}
+
+export function layoutLayeredRelationGraph(
+	model: Pick<RelationGraphModel, "nodes" | "edges">,
+	options: {
+		rootIds?: readonly number[];
+		columnSpacing?: number;
+		rowSpacing?: number;
+	} = {},
+): RelationGraphLayout {
+	const columnSpacing = options.columnSpacing ?? RELATION_GRAPH_COLUMN_SPACING;
+	const rowSpacing = options.rowSpacing ?? RELATION_GRAPH_ROW_SPACING;
+	const neighbours = collectNeighbours(model.edges);
+	const nodeById = new Map(model.nodes.map((node) => [node.id, node]));
+	const rootIds = new Set(options.rootIds ?? []);
+	const degree = (id: number) => neighbours.get(id)?.length ?? 0;
+	const seeds = [...model.nodes].sort(
+		(left, right) =>
+			Number(rootIds.has(right.id)) - Number(rootIds.has(left.id)) ||
+			degree(right.id) - degree(left.id) ||
+			left.label.localeCompare(right.label) ||
+			left.id - right.id,
+	);
+
+	const positions = new Map<number, RelationGraphPoint>();
+	const placed = new Set<number>();
+	let componentTop = 0;
+
+	for (const seed of seeds) {
+		if (placed.has(seed.id)) {
+			continue;
+		}
+
+		const layerById = new Map<number, number>([[seed.id, 0]]);
+		const queue = [seed.id];
+		while (queue.length > 0) {
+			const current = queue.shift() as number;
+			for (const next of neighbours.get(current) ?? []) {
+				if (nodeById.has(next) && !layerById.has(next)) {
+					layerById.set(next, (layerById.get(current) ?? 0) + 1);
+					queue.push(next);
+				}
+			}
+		}
+
+		const layers: number[][] = [];
+		for (const [id, layer] of layerById) {
+			layers[layer] = [...(layers[layer] ?? []), id];
+			placed.add(id);
+		}
+
+		const rowById = new Map<number, number>();
+		layers.forEach((layer, layerIndex) => {
+			const barycenter = (id: number): number => {
+				const rows = (neighbours.get(id) ?? [])
+					.filter((next) => layerById.get(next) === layerIndex - 1)
+					.map((next) => rowById.get(next) ?? 0);
+				return rows.length
+					? rows.reduce((total, row) => total + row, 0) / rows.length
+					: 0;
+			};
+			const label = (id: number) => nodeById.get(id)?.label ?? "";
+			layer.sort(
+				(left, right) =>
+					barycenter(left) - barycenter(right) ||
+					label(left).localeCompare(label(right)) ||
+					left - right,
+			);
+			layer.forEach((id, row) => {
+				rowById.set(id, row);
+			});
+		});
+
+		const tallest = Math.max(...layers.map((layer) => layer.length));
+		layers.forEach((layer, layerIndex) => {
+			const offset = ((tallest - layer.length) * rowSpacing) / 2;
+			layer.forEach((id, row) => {
+				positions.set(id, {
+					x: layerIndex * columnSpacing,
+					y: componentTop + offset + row * rowSpacing,
+				});
+			});
+		});
+		componentTop += tallest * rowSpacing + rowSpacing;
+	}
+
+	return { positions, bounds: measureBounds(positions) };
+}
+
+export function assignRelationGraphColors(
+	ids: Iterable<number>,
+): Map<number, string> {
+	const colors = new Map<number, string>();
+	const sorted = [...new Set(ids)].sort((left, right) => left - right);
+	sorted.forEach((id, index) => {
+		colors.set(id, RELATION_GRAPH_COLORS[index % RELATION_GRAPH_COLORS.length]);
+	});
+	return colors;
+}
+
+export function clampRelationGraphScale(scale: number): number {
+	if (!Number.isFinite(scale)) {
+		return 1;
+	}
+	return Math.min(
+		RELATION_GRAPH_MAX_SCALE,
+		Math.max(RELATION_GRAPH_MIN_SCALE, scale),
+	);
+}
+
+export function zoomRelationGraphViewport(
+	viewport: RelationGraphViewport,
+	factor: number,
+	anchor: RelationGraphPoint = { x: 0, y: 0 },
+): RelationGraphViewport {
+	const scale = clampRelationGraphScale(viewport.scale * factor);
+	const ratio = scale / viewport.scale;
+	return {
+		x: anchor.x - (anchor.x - viewport.x) * ratio,
+		y: anchor.y - (anchor.y - viewport.y) * ratio,
+		scale,
+	};
+}
+
+export function fitRelationGraphViewport(
+	bounds: RelationGraphBounds,
+	size: { width: number; height: number },
+	padding = 80,
+): RelationGraphViewport {
+	const graphWidth = bounds.maxX - bounds.minX + padding * 2;
+	const graphHeight = bounds.maxY - bounds.minY + padding * 2;
+	const scale = clampRelationGraphScale(
+		Math.min(1, size.width / graphWidth, size.height / graphHeight),
+	);
+	const centerX = (bounds.minX + bounds.maxX) / 2;
+	const centerY = (bounds.minY + bounds.maxY) / 2;
+	return {
+		x: size.width / 2 - centerX * scale,
+		y: size.height / 2 - centerY * scale,
+		scale,
+	};
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	addSchemaImpactObjects,
+	createSchemaImpactReport,
+	normalizeSchemaImpactPath,
+} from "@/lib/schema-impact";
+
+const schema = {
+	type: "object",
+	required: ["hostname"],
+	properties: {
+		hostname: { type: "string" },
+		interfaces: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					address: { type: "string", pattern: "^10\\.0\\.0\\.\\d{1,2}$" },
+					url: { type: "string", format: "uri" },
+				},
+			},
+		},
+	},
+};
+
+function objectWithData(id: number, data: unknown) {
+	return { id, name: `server-${id}`, hubuum_class_id: 7, data };
+}
+
+describe("addSchemaImpactObjects", () => {
+	it("counts failing objects and groups broken rules across pages", () => {
+		let report = addSchemaImpactObjects(
+			createSchemaImpactReport(),
+			[
+				objectWithData(1, {
+					hostname: "web-01",
+					interfaces: [{ address: "10.0.0.3", url: "intranet page" }],
+				}),
+				objectWithData(2, {
+					interfaces: [{ address: "10.0.0.300" }, { address: "bad" }],
+				}),
+			],
+			schema,
+		);
+		report = addSchemaImpactObjects(
+			report,
+			[
+				objectWithData(3, {}),
+				objectWithData(4, { hostname: "db", interfaces: [{ address: "x" }] }),
+			],
+			schema,
+		);
+
+		expect(report).toMatchObject({ checked: 4, failing: 3 });
+		expect(report.failures.map((failure) => failure.objectId)).toEqual([
+			2, 3, 4,
+		]);
+		expect(report.failures[0].issues).toHaveLength(3);
+		expect(report.issueGroups).toEqual([
+			{
+				path: "$.hostname",
+				message: "Required property is missing.",
+				objectCount: 2,
+			},
+			{
+				path: "$.interfaces[*].address",
+				message: "String does not match the required pattern.",
+				objectCount: 2,
+			},
+		]);
+	});
+
+	it("normalizes array indexes in issue paths", () => {
+		expect(normalizeSchemaImpactPath("$.disks[12].mounts[0]")).toBe(
+			"$.disks[*].mounts[*]",
+		);
+	});
+});
@@ -0,0 +1,98 @@
+import type { HubuumObject } from "@/lib/api/generated/models";
+import {
+	type JsonValidationIssue,
+	validateJsonAgainstSchema,
+} from "@/lib/json-inspector";
+
+export const SCHEMA_IMPACT_FAILURE_LIMIT = 100;
+
+export type SchemaImpactFailure = {
+	objectId: number;
+	classId: number;
+	name: string;
+	issues: JsonValidationIssue[];
+};
+
+export type SchemaImpactIssueGroup = {
+	path: string;
+	message: string;
+	objectCount: number;
+};
+
+export type SchemaImpactReport = {
+	checked: number;
+	failing: number;
+	failures: SchemaImpactFailure[];
+	issueGroups: SchemaImpactIssueGroup[];
+};
+
+export function createSchemaImpactReport(): SchemaImpactReport {
+	return { checked: 0, failing: 0, failures: [], issueGroups: [] };
+}
+
+export function normalizeSchemaImpactPath(path: string): string {
+	return path.replace(/\[\d+\]/g, "[*]");
+}
+
+function issueGroupKey(path: string, message: string): string {
+	return `${path}\u0000${message}`;
+}
+
+export function addSchemaImpactObjects(
+	report: SchemaImpactReport,
+	objects: readonly Pick<
+		HubuumObject,
+		"id" | "name" | "hubuum_class_id" | "data"
+	>[],
+	schema: unknown,
+): SchemaImpactReport {
+	const groups = new Map(
+		report.issueGroups.map((group) => [
+			issueGroupKey(group.path, group.message),
+			{ ...group },
+		]),
+	);
+	const failures = [...report.failures];
+	let failing = report.failing;
+
+	for (const objectItem of objects) {
+		const { issues } = validateJsonAgainstSchema(objectItem.data, schema);
+		if (issues.length === 0) continue;
+
+		failing += 1;
+		if (failures.length < SCHEMA_IMPACT_FAILURE_LIMIT) {
+			failures.push({
+				objectId: objectItem.id,
+				classId: objectItem.hubuum_class_id,
+				name: objectItem.name,
+				issues,
+			});
+		}
+
+		const seen = new Set<string>();
+		for (const issue of issues) {
+			const path = normalizeSchemaImpactPath(issue.path);
+			const key = issueGroupKey(path, issue.message);
+			if (seen.has(key)) continue;
+			seen.add(key);
+			const group = groups.get(key);
+			if (group) {
+				group.objectCount += 1;
+			} else {
+				groups.set(key, { path, message: issue.message, objectCount: 1 });
+			}
+		}
+	}
+
+	return {
+		checked: report.checked + objects.length,
+		failing,
+		failures,
+		issueGroups: [...groups.values()].sort(
+			(left, right) =>
+				right.objectCount - left.objectCount ||
+				left.path.localeCompare(right.path) ||
+				left.message.localeCompare(right.message),
+		),
+	};
+}
@@ -0,0 +1,26 @@
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".ods"];
+
+export function isSpreadsheetFile(file: Pick<File, "name">): boolean {
+	const name = file.name.toLowerCase();
+	return SPREADSHEET_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+export async function readSpreadsheetRows(file: File): Promise<string[][]> {
+	const XLSX = await import("xlsx/dist/xlsx.mini.min.js");
+	const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+	const [sheetName] = workbook.SheetNames;
+	if (!sheetName) {
+		return [];
+	}
+
+	const rows: unknown[][] = XLSX.utils.sheet_to_json<unknown[]>(
+		workbook.Sheets[sheetName],
+		{
+			header: 1,
+			raw: false,
+			defval: "",
+			blankrows: false,
+		},
+	);
+	return rows.map((row) => row.map((cell) => String(cell ?? "")));
+}
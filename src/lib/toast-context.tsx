@@ -10,9 +10,14 @@ import {
 
 type ToastType = "success" | "error" | "info";
 
-type ToastAction = {
-	href: string;
-};
+type ToastAction =
+	| {
+			href: string;
+	  }
+	| {
+			label: string;
+			onAction: () => void;
+	  };
 
 type Toast = {
 	id: string;
@@ -41,10 +46,13 @@ export function ToastProvider({ children }: { children: ReactNode }) {
 
 			setToasts((current) => [...current, toast]);
 
-			// Auto-dismiss after 4 seconds
-			setTimeout(() => {
-				setToasts((current) => current.filter((t) => t.id !== id));
-			}, 4000);
+			// Auto-dismiss after 4 seconds, or 8 when the toast offers an action
+			setTimeout(
+				() => {
+					setToasts((current) => current.filter((t) => t.id !== id));
+				},
+				action && "onAction" in action ? 8000 : 4000,
+			);
 		},
 		[],
 	);
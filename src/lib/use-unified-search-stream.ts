@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+	applyUnifiedSearchStreamEvent,
+	createUnifiedSearchStreamState,
+	streamUnifiedSearch,
+	type UnifiedSearchParams,
+	type UnifiedSearchStreamEvent,
+	type UnifiedSearchStreamState,
+} from "@/lib/api/search";
+
+type KeyedStreamState = {
+	key: string;
+	value: UnifiedSearchStreamState;
+};
+
+export function useUnifiedSearchStream(params: UnifiedSearchParams | null) {
+	const [attempt, setAttempt] = useState(0);
+	const [state, setState] = useState<KeyedStreamState | null>(null);
+	const paramsKey = params ? JSON.stringify(params) : null;
+	const requestKey = paramsKey ? `${paramsKey}#${attempt}` : null;
+
+	useEffect(() => {
+		if (!requestKey || !paramsKey) {
+			return;
+		}
+
+		const request = JSON.parse(paramsKey) as UnifiedSearchParams;
+		const controller = new AbortController();
+		const apply = (event: UnifiedSearchStreamEvent) =>
+			setState((current) =>
+				current?.key === requestKey
+					? {
+							key: requestKey,
+							value: applyUnifiedSearchStreamEvent(current.value, event),
+						}
+					: current,
+			);
+
+		setState({
+			key: requestKey,
+			value: createUnifiedSearchStreamState(request.q, request.kinds),
+		});
+		streamUnifiedSearch(request, apply, { signal: controller.signal })
+			.then(() => {
+				if (!controller.signal.aborted) {
+					apply({ type: "done", query: request.q });
+				}
+			})
+			.catch((error: unknown) => {
+				if (controller.signal.aborted) {
+					return;
+				}
+				apply({
+					type: "error",
+					group: null,
+					message:
+						error instanceof Error
+							? error.message
+							: "Failed to run unified search.",
+				});
+			});
+
+		return () => controller.abort();
+	}, [paramsKey, requestKey]);
+
+	const retry = useCallback(() => setAttempt((current) => current + 1), []);
+
+	return {
+		state: state && state.key === requestKey ? state.value : null,
+		retry,
+	};
+}
@@ -50,6 +50,9 @@ describe("user settings validation", () => {
 		expect(getUserSettingScope(PORTABLE_USER_SETTING_KEYS.pinnedItems)).toBe(
 			"portable",
 		);
+		expect(
+			getUserSettingScope(PORTABLE_USER_SETTING_KEYS.permissionPresets),
+		).toBe("portable");
 		expect(
 			getUserSettingScope(PORTABLE_USER_SETTING_KEYS.objectCustomDataFields(9)),
 		).toBe("portable");
@@ -58,6 +61,12 @@ describe("user settings validation", () => {
 				PORTABLE_USER_SETTING_KEYS.objectHiddenComputedColumns(9),
 			),
 		).toBe("portable");
+		expect(
+			getUserSettingScope(PORTABLE_USER_SETTING_KEYS.objectSavedViews(9)),
+		).toBe("portable");
+		expect(
+			getUserSettingScope(PORTABLE_USER_SETTING_KEYS.objectGroupingLevels(9)),
+		).toBe("portable");
 		expect(getUserSettingScope(DEVICE_SETTING_KEYS.sidebarCollapsed)).toBe(
 			"device",
 		);
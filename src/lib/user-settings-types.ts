@@ -13,6 +13,7 @@ export const PORTABLE_USER_SETTING_KEYS = {
 	accent: "hubuum.accent",
 	secondaryAccent: "hubuum.secondary-accent",
 	pinnedItems: "hubuum.pinned-items",
+	permissionPresets: "hubuum.permission-presets",
 	objectDataColumns: (classId: number) =>
 		`hubuum.object-data-columns:${classId}`,
 	objectHiddenComputedColumns: (classId: number) =>
@@ -21,6 +22,9 @@ export const PORTABLE_USER_SETTING_KEYS = {
 		`hubuum.object-raw-data-column:${classId}`,
 	objectCustomDataFields: (classId: number) =>
 		`hubuum.object-custom-data-fields:${classId}:user`,
+	objectSavedViews: (classId: number) => `hubuum.object-saved-views:${classId}`,
+	objectGroupingLevels: (classId: number) =>
+		`hubuum.object-grouping-levels:${classId}`,
 } as const;
 
 export const DEVICE_SETTING_KEYS = {
@@ -40,6 +44,7 @@ const EXACT_PORTABLE_KEYS = new Set<string>([
 	PORTABLE_USER_SETTING_KEYS.accent,
 	PORTABLE_USER_SETTING_KEYS.secondaryAccent,
 	PORTABLE_USER_SETTING_KEYS.pinnedItems,
+	PORTABLE_USER_SETTING_KEYS.permissionPresets,
 ]);
 
 const PORTABLE_KEY_PATTERNS = [
@@ -47,6 +52,8 @@ const PORTABLE_KEY_PATTERNS = [
 	/^hubuum\.object-hidden-computed-columns:[1-9]\d*$/,
 	/^hubuum\.object-raw-data-column:[1-9]\d*$/,
 	/^hubuum\.object-custom-data-fields:[1-9]\d*:user$/,
+	/^hubuum\.object-saved-views:[1-9]\d*$/,
+	/^hubuum\.object-grouping-levels:[1-9]\d*$/,
 ];
 
 const EXACT_DEVICE_KEYS = new Set<string>([